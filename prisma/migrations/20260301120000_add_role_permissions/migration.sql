@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "role_permissions" (
+    "id" TEXT NOT NULL,
+    "role" "UserRole" NOT NULL,
+    "permission" TEXT NOT NULL,
+    "granted" BOOLEAN NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "role_permissions_role_idx" ON "role_permissions"("role");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "role_permissions_role_permission_key" ON "role_permissions"("role", "permission");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN     "asignadoAId" TEXT;
+
+-- CreateTable
+CREATE TABLE "_ClientesColaboradores" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_ClientesColaboradores_AB_unique" ON "_ClientesColaboradores"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_ClientesColaboradores_B_index" ON "_ClientesColaboradores"("B");
+
+-- CreateIndex
+CREATE INDEX "clientes_asignadoAId_idx" ON "clientes"("asignadoAId");
+
+-- CreateIndex
+CREATE INDEX "clientes_deletedAt_asignadoAId_idx" ON "clientes"("deletedAt", "asignadoAId");
+
+-- AddForeignKey
+ALTER TABLE "clientes" ADD CONSTRAINT "clientes_asignadoAId_fkey" FOREIGN KEY ("asignadoAId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ClientesColaboradores" ADD CONSTRAINT "_ClientesColaboradores_A_fkey" FOREIGN KEY ("A") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ClientesColaboradores" ADD CONSTRAINT "_ClientesColaboradores_B_fkey" FOREIGN KEY ("B") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
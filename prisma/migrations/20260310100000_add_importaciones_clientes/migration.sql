@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "EstadoImportacion" AS ENUM ('COMPLETADA', 'REVERTIDA');
+
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN     "importacionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "importaciones_clientes" (
+    "id" TEXT NOT NULL,
+    "nombreArchivo" TEXT NOT NULL,
+    "estado" "EstadoImportacion" NOT NULL DEFAULT 'COMPLETADA',
+    "totalFilas" INTEGER NOT NULL,
+    "creados" INTEGER NOT NULL,
+    "omitidos" INTEGER NOT NULL,
+    "mapeo" TEXT NOT NULL,
+    "usuarioId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revertidoAt" TIMESTAMP(3),
+
+    CONSTRAINT "importaciones_clientes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "clientes_importacionId_idx" ON "clientes"("importacionId");
+
+-- CreateIndex
+CREATE INDEX "importaciones_clientes_usuarioId_idx" ON "importaciones_clientes"("usuarioId");
+
+-- CreateIndex
+CREATE INDEX "importaciones_clientes_createdAt_idx" ON "importaciones_clientes"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "clientes" ADD CONSTRAINT "clientes_importacionId_fkey" FOREIGN KEY ("importacionId") REFERENCES "importaciones_clientes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "importaciones_clientes" ADD CONSTRAINT "importaciones_clientes_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN     "fusionadoEnId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "clientes_fusionadoEnId_idx" ON "clientes"("fusionadoEnId");
+
+-- AddForeignKey
+ALTER TABLE "clientes" ADD CONSTRAINT "clientes_fusionadoEnId_fkey" FOREIGN KEY ("fusionadoEnId") REFERENCES "clientes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "mensajes" ADD COLUMN     "contactoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "contactos_cliente" (
+    "id" TEXT NOT NULL,
+    "clienteId" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "cargo" TEXT,
+    "email" TEXT,
+    "telefono" TEXT,
+    "whatsapp" TEXT,
+    "canalPreferido" "CanalContacto",
+    "esPrincipal" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contactos_cliente_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contactos_cliente_clienteId_idx" ON "contactos_cliente"("clienteId");
+
+-- CreateIndex
+CREATE INDEX "contactos_cliente_clienteId_esPrincipal_idx" ON "contactos_cliente"("clienteId", "esPrincipal");
+
+-- CreateIndex
+CREATE INDEX "mensajes_contactoId_idx" ON "mensajes"("contactoId");
+
+-- AddForeignKey
+ALTER TABLE "mensajes" ADD CONSTRAINT "mensajes_contactoId_fkey" FOREIGN KEY ("contactoId") REFERENCES "contactos_cliente"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contactos_cliente" ADD CONSTRAINT "contactos_cliente_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "pipeline_etapas" (
+    "estado" "EstadoCliente" NOT NULL,
+    "limiteWip" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pipeline_etapas_pkey" PRIMARY KEY ("estado")
+);
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "EtapaOportunidad" AS ENUM ('CALIFICACION', 'PROPUESTA', 'NEGOCIACION', 'GANADA', 'PERDIDA');
+
+-- AlterTable
+ALTER TABLE "actividades" ADD COLUMN     "oportunidadId" TEXT;
+
+-- CreateTable
+CREATE TABLE "oportunidades" (
+    "id" TEXT NOT NULL,
+    "clienteId" TEXT NOT NULL,
+    "titulo" TEXT NOT NULL,
+    "monto" DECIMAL(14,2) NOT NULL,
+    "moneda" TEXT NOT NULL DEFAULT 'ARS',
+    "etapa" "EtapaOportunidad" NOT NULL DEFAULT 'CALIFICACION',
+    "probabilidad" INTEGER NOT NULL DEFAULT 10,
+    "fechaCierreEstimada" TIMESTAMP(3),
+    "fechaCierre" TIMESTAMP(3),
+    "motivoCierre" TEXT,
+    "notas" TEXT,
+    "usuarioId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "oportunidades_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "oportunidades_clienteId_idx" ON "oportunidades"("clienteId");
+
+-- CreateIndex
+CREATE INDEX "oportunidades_usuarioId_idx" ON "oportunidades"("usuarioId");
+
+-- CreateIndex
+CREATE INDEX "oportunidades_etapa_idx" ON "oportunidades"("etapa");
+
+-- CreateIndex
+CREATE INDEX "oportunidades_deletedAt_etapa_idx" ON "oportunidades"("deletedAt", "etapa");
+
+-- CreateIndex
+CREATE INDEX "oportunidades_fechaCierreEstimada_idx" ON "oportunidades"("fechaCierreEstimada");
+
+-- CreateIndex
+CREATE INDEX "actividades_oportunidadId_idx" ON "actividades"("oportunidadId");
+
+-- AddForeignKey
+ALTER TABLE "actividades" ADD CONSTRAINT "actividades_oportunidadId_fkey" FOREIGN KEY ("oportunidadId") REFERENCES "oportunidades"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "oportunidades" ADD CONSTRAINT "oportunidades_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "oportunidades" ADD CONSTRAINT "oportunidades_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "EstadoTarea" AS ENUM ('PENDIENTE', 'EN_PROGRESO', 'COMPLETADA', 'CANCELADA');
+
+-- CreateEnum
+CREATE TYPE "PrioridadTarea" AS ENUM ('BAJA', 'MEDIA', 'ALTA');
+
+-- CreateTable
+CREATE TABLE "tareas" (
+    "id" TEXT NOT NULL,
+    "titulo" TEXT NOT NULL,
+    "descripcion" TEXT,
+    "vencimiento" TIMESTAMP(3) NOT NULL,
+    "estado" "EstadoTarea" NOT NULL DEFAULT 'PENDIENTE',
+    "prioridad" "PrioridadTarea" NOT NULL DEFAULT 'MEDIA',
+    "clienteId" TEXT,
+    "asignadoAId" TEXT NOT NULL,
+    "creadoPorId" TEXT NOT NULL,
+    "completadaEn" TIMESTAMP(3),
+    "recordatorio" TIMESTAMP(3),
+    "recordatorioEnviado" BOOLEAN NOT NULL DEFAULT false,
+    "vencidaNotificada" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "tareas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tareas_asignadoAId_estado_vencimiento_idx" ON "tareas"("asignadoAId", "estado", "vencimiento");
+
+-- CreateIndex
+CREATE INDEX "tareas_clienteId_estado_idx" ON "tareas"("clienteId", "estado");
+
+-- CreateIndex
+CREATE INDEX "tareas_estado_recordatorio_idx" ON "tareas"("estado", "recordatorio");
+
+-- CreateIndex
+CREATE INDEX "tareas_deletedAt_idx" ON "tareas"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "tareas" ADD CONSTRAINT "tareas_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tareas" ADD CONSTRAINT "tareas_asignadoAId_fkey" FOREIGN KEY ("asignadoAId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tareas" ADD CONSTRAINT "tareas_creadoPorId_fkey" FOREIGN KEY ("creadoPorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "calendarioToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "actividades" ADD COLUMN     "fechaFin" TIMESTAMP(3),
+ADD COLUMN     "ubicacion" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarioToken_key" ON "users"("calendarioToken");
+
+-- CreateIndex
+CREATE INDEX "actividades_tipo_fecha_idx" ON "actividades"("tipo", "fecha");
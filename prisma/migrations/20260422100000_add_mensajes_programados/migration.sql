@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "EstadoMensaje" ADD VALUE 'PROGRAMADO';
+ALTER TYPE "EstadoMensaje" ADD VALUE 'CANCELADO';
+
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN     "zonaHoraria" TEXT;
+
+-- AlterTable
+ALTER TABLE "mensajes" ADD COLUMN     "programadoPara" TIMESTAMP(3),
+ADD COLUMN     "zonaHoraria" TEXT,
+ADD COLUMN     "intentos" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "enviadoEn" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "mensajes_estado_programadoPara_idx" ON "mensajes"("estado", "programadoPara");
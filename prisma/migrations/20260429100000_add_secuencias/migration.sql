@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "EstadoInscripcion" AS ENUM ('ACTIVA', 'COMPLETADA', 'DETENIDA');
+
+-- CreateEnum
+CREATE TYPE "MotivoDetencion" AS ENUM ('RESPUESTA', 'CAMBIO_ESTADO', 'MANUAL', 'SECUENCIA_DESACTIVADA', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "secuencias" (
+    "id" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "descripcion" TEXT,
+    "activa" BOOLEAN NOT NULL DEFAULT true,
+    "creadoPorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "secuencias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "pasos_secuencia" (
+    "id" TEXT NOT NULL,
+    "secuenciaId" TEXT NOT NULL,
+    "orden" INTEGER NOT NULL,
+    "canal" "CanalContacto" NOT NULL,
+    "plantillaId" TEXT NOT NULL,
+    "esperaDias" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "pasos_secuencia_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "inscripciones_secuencia" (
+    "id" TEXT NOT NULL,
+    "secuenciaId" TEXT NOT NULL,
+    "clienteId" TEXT NOT NULL,
+    "usuarioId" TEXT NOT NULL,
+    "estado" "EstadoInscripcion" NOT NULL DEFAULT 'ACTIVA',
+    "pasoActual" INTEGER NOT NULL DEFAULT 0,
+    "proximoPasoEn" TIMESTAMP(3),
+    "motivoDetencion" "MotivoDetencion",
+    "errorDetalle" TEXT,
+    "finalizadaEn" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inscripciones_secuencia_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "secuencias_activa_idx" ON "secuencias"("activa");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pasos_secuencia_secuenciaId_orden_key" ON "pasos_secuencia"("secuenciaId", "orden");
+
+-- CreateIndex
+CREATE INDEX "pasos_secuencia_plantillaId_idx" ON "pasos_secuencia"("plantillaId");
+
+-- CreateIndex
+CREATE INDEX "inscripciones_secuencia_estado_proximoPasoEn_idx" ON "inscripciones_secuencia"("estado", "proximoPasoEn");
+
+-- CreateIndex
+CREATE INDEX "inscripciones_secuencia_clienteId_estado_idx" ON "inscripciones_secuencia"("clienteId", "estado");
+
+-- CreateIndex
+CREATE INDEX "inscripciones_secuencia_secuenciaId_estado_idx" ON "inscripciones_secuencia"("secuenciaId", "estado");
+
+-- AddForeignKey
+ALTER TABLE "secuencias" ADD CONSTRAINT "secuencias_creadoPorId_fkey" FOREIGN KEY ("creadoPorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pasos_secuencia" ADD CONSTRAINT "pasos_secuencia_secuenciaId_fkey" FOREIGN KEY ("secuenciaId") REFERENCES "secuencias"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pasos_secuencia" ADD CONSTRAINT "pasos_secuencia_plantillaId_fkey" FOREIGN KEY ("plantillaId") REFERENCES "plantillas_contacto"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inscripciones_secuencia" ADD CONSTRAINT "inscripciones_secuencia_secuenciaId_fkey" FOREIGN KEY ("secuenciaId") REFERENCES "secuencias"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inscripciones_secuencia" ADD CONSTRAINT "inscripciones_secuencia_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inscripciones_secuencia" ADD CONSTRAINT "inscripciones_secuencia_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
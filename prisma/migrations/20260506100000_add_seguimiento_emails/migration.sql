@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "TipoEventoMensaje" AS ENUM ('APERTURA', 'CLIC');
+
+-- AlterTable
+ALTER TABLE "plantillas_contacto" ADD COLUMN     "seguimiento" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "mensajes" ADD COLUMN     "seguimiento" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "abiertoEn" TIMESTAMP(3),
+ADD COLUMN     "clicEn" TIMESTAMP(3),
+ADD COLUMN     "aperturas" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "clics" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "eventos_mensaje" (
+    "id" TEXT NOT NULL,
+    "mensajeId" TEXT NOT NULL,
+    "tipo" "TipoEventoMensaje" NOT NULL,
+    "url" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "eventos_mensaje_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "eventos_mensaje_mensajeId_createdAt_idx" ON "eventos_mensaje"("mensajeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "eventos_mensaje" ADD CONSTRAINT "eventos_mensaje_mensajeId_fkey" FOREIGN KEY ("mensajeId") REFERENCES "mensajes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "EstadoMensaje" ADD VALUE 'ENTREGADO';
+ALTER TYPE "EstadoMensaje" ADD VALUE 'DEMORADO';
+ALTER TYPE "EstadoMensaje" ADD VALUE 'REBOTADO';
+ALTER TYPE "EstadoMensaje" ADD VALUE 'QUEJA';
+
+-- CreateEnum
+CREATE TYPE "MotivoSupresion" AS ENUM ('REBOTE', 'QUEJA');
+
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN     "emailInvalido" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "mensajes" ADD COLUMN     "resendId" TEXT;
+
+-- CreateTable
+CREATE TABLE "supresiones_email" (
+    "email" TEXT NOT NULL,
+    "motivo" "MotivoSupresion" NOT NULL,
+    "detalle" TEXT,
+    "mensajeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "supresiones_email_pkey" PRIMARY KEY ("email")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mensajes_resendId_key" ON "mensajes"("resendId");
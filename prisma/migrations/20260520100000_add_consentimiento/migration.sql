@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "MotivoSupresion" ADD VALUE 'BAJA';
+
+-- CreateEnum
+CREATE TYPE "EstadoConsentimiento" AS ENUM ('DESCONOCIDO', 'OTORGADO', 'REVOCADO');
+
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN     "consentimientoEmail" "EstadoConsentimiento" NOT NULL DEFAULT 'DESCONOCIDO',
+ADD COLUMN     "consentimientoWhatsApp" "EstadoConsentimiento" NOT NULL DEFAULT 'DESCONOCIDO',
+ADD COLUMN     "consentimientoActualizadoEn" TIMESTAMP(3);
@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "mensajes" ADD COLUMN     "respondidoEn" TIMESTAMP(3),
+ADD COLUMN     "variante" TEXT,
+ADD COLUMN     "versionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "variantes_plantilla" (
+    "id" TEXT NOT NULL,
+    "plantillaId" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "asunto" TEXT,
+    "cuerpo" TEXT NOT NULL,
+    "activa" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "variantes_plantilla_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "versiones_plantilla" (
+    "id" TEXT NOT NULL,
+    "plantillaId" TEXT NOT NULL,
+    "variante" TEXT NOT NULL DEFAULT 'A',
+    "numero" INTEGER NOT NULL,
+    "asunto" TEXT,
+    "cuerpo" TEXT NOT NULL,
+    "creadoPorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "versiones_plantilla_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "variantes_plantilla_plantillaId_nombre_key" ON "variantes_plantilla"("plantillaId", "nombre");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "versiones_plantilla_plantillaId_variante_numero_key" ON "versiones_plantilla"("plantillaId", "variante", "numero");
+
+-- CreateIndex
+CREATE INDEX "mensajes_plantillaId_variante_idx" ON "mensajes"("plantillaId", "variante");
+
+-- CreateIndex
+CREATE INDEX "mensajes_versionId_idx" ON "mensajes"("versionId");
+
+-- AddForeignKey
+ALTER TABLE "mensajes" ADD CONSTRAINT "mensajes_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "versiones_plantilla"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "variantes_plantilla" ADD CONSTRAINT "variantes_plantilla_plantillaId_fkey" FOREIGN KEY ("plantillaId") REFERENCES "plantillas_contacto"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "versiones_plantilla" ADD CONSTRAINT "versiones_plantilla_plantillaId_fkey" FOREIGN KEY ("plantillaId") REFERENCES "plantillas_contacto"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "versiones_plantilla" ADD CONSTRAINT "versiones_plantilla_creadoPorId_fkey" FOREIGN KEY ("creadoPorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Current content of existing templates becomes their version 1
+INSERT INTO "versiones_plantilla" ("id", "plantillaId", "variante", "numero", "asunto", "cuerpo", "creadoPorId", "createdAt")
+SELECT 'v1-' || "id", "id", 'A', 1, "asunto", "cuerpo", "creadoPorId", "updatedAt"
+FROM "plantillas_contacto";
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "EstadoMensaje" ADD VALUE 'LEIDO';
+
+-- AlterTable
+ALTER TABLE "plantillas_contacto" ADD COLUMN     "whatsappTemplate" TEXT,
+ADD COLUMN     "whatsappIdioma" TEXT,
+ADD COLUMN     "whatsappParametros" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "mensajes" ADD COLUMN     "whatsappId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mensajes_whatsappId_key" ON "mensajes"("whatsappId");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "mensajes_entrantes" (
+    "id" TEXT NOT NULL,
+    "canal" "CanalContacto" NOT NULL,
+    "remitente" TEXT NOT NULL,
+    "asunto" TEXT,
+    "cuerpo" TEXT NOT NULL,
+    "externoId" TEXT NOT NULL,
+    "clienteId" TEXT NOT NULL,
+    "contactoId" TEXT,
+    "mensajeId" TEXT,
+    "recibidoEn" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mensajes_entrantes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mensajes_entrantes_externoId_key" ON "mensajes_entrantes"("externoId");
+
+-- CreateIndex
+CREATE INDEX "mensajes_entrantes_clienteId_recibidoEn_idx" ON "mensajes_entrantes"("clienteId", "recibidoEn");
+
+-- CreateIndex
+CREATE INDEX "mensajes_entrantes_contactoId_idx" ON "mensajes_entrantes"("contactoId");
+
+-- CreateIndex
+CREATE INDEX "mensajes_entrantes_mensajeId_idx" ON "mensajes_entrantes"("mensajeId");
+
+-- AddForeignKey
+ALTER TABLE "mensajes_entrantes" ADD CONSTRAINT "mensajes_entrantes_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mensajes_entrantes" ADD CONSTRAINT "mensajes_entrantes_contactoId_fkey" FOREIGN KEY ("contactoId") REFERENCES "contactos_cliente"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mensajes_entrantes" ADD CONSTRAINT "mensajes_entrantes_mensajeId_fkey" FOREIGN KEY ("mensajeId") REFERENCES "mensajes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
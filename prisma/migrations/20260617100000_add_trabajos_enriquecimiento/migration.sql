@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "EstadoTrabajo" AS ENUM ('PENDIENTE', 'EN_CURSO', 'PAUSADO', 'COMPLETADO', 'CANCELADO');
+
+-- CreateEnum
+CREATE TYPE "EstadoItemTrabajo" AS ENUM ('PENDIENTE', 'EN_CURSO', 'COMPLETADO', 'ERROR', 'CANCELADO');
+
+-- CreateTable
+CREATE TABLE "trabajos_enriquecimiento" (
+    "id" TEXT NOT NULL,
+    "estado" "EstadoTrabajo" NOT NULL DEFAULT 'PENDIENTE',
+    "includeAI" BOOLEAN NOT NULL DEFAULT true,
+    "includeWebsiteAnalysis" BOOLEAN NOT NULL DEFAULT true,
+    "provider" TEXT,
+    "filtros" JSONB,
+    "total" INTEGER NOT NULL,
+    "creadoPorId" TEXT NOT NULL,
+    "iniciadoEn" TIMESTAMP(3),
+    "finalizadoEn" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trabajos_enriquecimiento_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "items_trabajo_enriquecimiento" (
+    "id" TEXT NOT NULL,
+    "trabajoId" TEXT NOT NULL,
+    "clienteId" TEXT NOT NULL,
+    "estado" "EstadoItemTrabajo" NOT NULL DEFAULT 'PENDIENTE',
+    "intentos" INTEGER NOT NULL DEFAULT 0,
+    "reintentarEn" TIMESTAMP(3),
+    "bloqueadoHasta" TIMESTAMP(3),
+    "aiEnriched" BOOLEAN NOT NULL DEFAULT false,
+    "websiteAnalyzed" BOOLEAN NOT NULL DEFAULT false,
+    "error" TEXT,
+    "procesadoEn" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "items_trabajo_enriquecimiento_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trabajos_enriquecimiento_estado_createdAt_idx" ON "trabajos_enriquecimiento"("estado", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "trabajos_enriquecimiento_creadoPorId_idx" ON "trabajos_enriquecimiento"("creadoPorId");
+
+-- CreateIndex
+CREATE INDEX "items_trabajo_enriquecimiento_trabajoId_estado_idx" ON "items_trabajo_enriquecimiento"("trabajoId", "estado");
+
+-- CreateIndex
+CREATE INDEX "items_trabajo_enriquecimiento_estado_reintentarEn_idx" ON "items_trabajo_enriquecimiento"("estado", "reintentarEn");
+
+-- CreateIndex
+CREATE INDEX "items_trabajo_enriquecimiento_clienteId_idx" ON "items_trabajo_enriquecimiento"("clienteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "items_trabajo_enriquecimiento_trabajoId_clienteId_key" ON "items_trabajo_enriquecimiento"("trabajoId", "clienteId");
+
+-- AddForeignKey
+ALTER TABLE "trabajos_enriquecimiento" ADD CONSTRAINT "trabajos_enriquecimiento_creadoPorId_fkey" FOREIGN KEY ("creadoPorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "items_trabajo_enriquecimiento" ADD CONSTRAINT "items_trabajo_enriquecimiento_trabajoId_fkey" FOREIGN KEY ("trabajoId") REFERENCES "trabajos_enriquecimiento"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "items_trabajo_enriquecimiento" ADD CONSTRAINT "items_trabajo_enriquecimiento_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
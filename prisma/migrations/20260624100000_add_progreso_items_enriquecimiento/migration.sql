@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "items_trabajo_enriquecimiento" ADD COLUMN     "progreso" JSONB;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "proveedores_ia" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "baseUrl" TEXT NOT NULL,
+    "apiKey" TEXT,
+    "cabeceras" TEXT,
+    "modelos" TEXT[],
+    "modelo" TEXT NOT NULL,
+    "timeoutMs" INTEGER,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proveedores_ia_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proveedores_ia_slug_key" ON "proveedores_ia"("slug");
+
+-- CreateIndex
+CREATE INDEX "proveedores_ia_enabled_idx" ON "proveedores_ia"("enabled");
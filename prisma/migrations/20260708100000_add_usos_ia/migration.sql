@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "usos_ia" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "costeUsd" DECIMAL(12,6) NOT NULL,
+    "usuarioId" TEXT,
+    "clienteId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usos_ia_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "presupuestos_ia" (
+    "provider" TEXT NOT NULL,
+    "limiteMensualUsd" DECIMAL(12,2) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "presupuestos_ia_pkey" PRIMARY KEY ("provider")
+);
+
+-- CreateIndex
+CREATE INDEX "usos_ia_createdAt_idx" ON "usos_ia"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "usos_ia_provider_createdAt_idx" ON "usos_ia"("provider", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "usos_ia_usuarioId_createdAt_idx" ON "usos_ia"("usuarioId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "usos_ia_clienteId_idx" ON "usos_ia"("clienteId");
+
+-- AddForeignKey
+ALTER TABLE "usos_ia" ADD CONSTRAINT "usos_ia_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usos_ia" ADD CONSTRAINT "usos_ia_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
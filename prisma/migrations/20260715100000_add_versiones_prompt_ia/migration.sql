@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "versiones_prompt_ia" (
+    "id" TEXT NOT NULL,
+    "numero" INTEGER NOT NULL,
+    "sistema" TEXT NOT NULL,
+    "enriquecimiento" TEXT NOT NULL,
+    "consenso" TEXT NOT NULL,
+    "nota" TEXT,
+    "activa" BOOLEAN NOT NULL DEFAULT false,
+    "creadoPorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "versiones_prompt_ia_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "cliente_enrichments" ADD COLUMN "promptVersionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "versiones_prompt_ia_numero_key" ON "versiones_prompt_ia"("numero");
+
+-- CreateIndex
+CREATE INDEX "versiones_prompt_ia_activa_idx" ON "versiones_prompt_ia"("activa");
+
+-- CreateIndex
+CREATE INDEX "cliente_enrichments_promptVersionId_idx" ON "cliente_enrichments"("promptVersionId");
+
+-- AddForeignKey
+ALTER TABLE "versiones_prompt_ia" ADD CONSTRAINT "versiones_prompt_ia_creadoPorId_fkey" FOREIGN KEY ("creadoPorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cliente_enrichments" ADD CONSTRAINT "cliente_enrichments_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "versiones_prompt_ia"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "MotivoDetencion" ADD VALUE 'FUSION';
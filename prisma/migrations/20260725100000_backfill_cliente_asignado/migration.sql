@@ -0,0 +1,21 @@
+-- Backfill: clientes created before assignment existed have no owner, so the
+-- default "mis clientes" view would hide them. Give each one to the author of
+-- its most recent actividad, and the rest to the first admin.
+
+-- Most recent actividad author
+UPDATE "clientes" AS c
+SET "asignadoAId" = a."usuarioId"
+FROM (
+    SELECT DISTINCT ON ("clienteId") "clienteId", "usuarioId"
+    FROM "actividades"
+    ORDER BY "clienteId", "fecha" DESC
+) AS a
+WHERE c."asignadoAId" IS NULL
+  AND a."clienteId" = c."id";
+
+-- First admin (no-op when there is none yet)
+UPDATE "clientes"
+SET "asignadoAId" = (
+    SELECT "id" FROM "users" WHERE "role" = 'ADMIN' ORDER BY "createdAt" ASC LIMIT 1
+)
+WHERE "asignadoAId" IS NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "mensajes" ADD COLUMN     "reclamadoEn" TIMESTAMP(3);
@@ -0,0 +1,6 @@
+-- Keep only the newest active version, in case concurrent saves left several
+UPDATE "versiones_prompt_ia" SET "activa" = false
+WHERE "activa" AND "numero" < (SELECT MAX("numero") FROM "versiones_prompt_ia" WHERE "activa");
+
+-- CreateIndex (partial: at most one active version; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "versiones_prompt_ia_activa_key" ON "versiones_prompt_ia"("activa") WHERE "activa";
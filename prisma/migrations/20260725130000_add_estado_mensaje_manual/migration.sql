@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "EstadoMensaje" ADD VALUE 'MANUAL';
@@ -0,0 +1,4 @@
+-- wa.me messages were stored as ENVIADO when prepared; the Cloud API ones
+-- have a send time or a wamid
+UPDATE "mensajes" SET "estado" = 'MANUAL'
+WHERE "canal" = 'WHATSAPP' AND "estado" = 'ENVIADO' AND "enviadoEn" IS NULL AND "whatsappId" IS NULL;
@@ -0,0 +1,32 @@
+#!/usr/bin/env npx tsx
+/**
+ * Regression checks for the contact template syntax.
+ *
+ * Uso:
+ *   npx tsx scripts/check-template-render.ts
+ *
+ * Falla (exit 1) si validateTemplate y render dejan de coincidir en lo que aceptan.
+ */
+
+import assert from 'node:assert/strict';
+import { render, validateTemplate } from '../src/lib/services/template-render-service';
+
+const cliente = {
+  nombre: 'Panadería Sur',
+  websiteAnalysis: { url: 'https://panaderiasur.com.ar', sslValid: true, mobileScore: 42 },
+};
+
+// Namespaced conditionals ({#if web.*}, {#if ia.*}) validate like the ones they render
+const conSsl = 'Hola {nombre}{#if web.sslValid} tu sitio tiene SSL{/if}';
+assert.deepEqual(validateTemplate(conSsl), { valid: true, invalidVars: [], errores: [], faltantes: [] });
+assert.equal(render(conSsl, cliente), 'Hola Panadería Sur tu sitio tiene SSL');
+
+const negado = '{#if !ia.description}Sin descripción{else}{ia.description}{/if}';
+assert.equal(validateTemplate(negado).valid, true);
+assert.equal(render(negado, cliente), 'Sin descripción');
+
+// Unknown namespaced names and unbalanced blocks are still reported
+assert.deepEqual(validateTemplate('{#if web.noExiste}x{/if}').invalidVars, ['web.noExiste']);
+assert.deepEqual(validateTemplate('{#if web.sslValid}x').errores, ['Condicionales sin cerrar: 1 {#if} y 0 {/if}']);
+
+console.log('Template syntax checks passed');
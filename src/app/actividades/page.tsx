@@ -1,10 +1,13 @@
 import { auth } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
+import { PermissionService } from '@/lib/services/permission-service';
+import { AsignacionService } from '@/lib/services/asignacion-service';
 import Link from 'next/link';
 import { Button } from '@/components/ui/Button';
 
 import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import { CalendarioActividades } from '@/components/CalendarioActividades';
 import { 
   PhoneIcon,
   EnvelopeIcon,
@@ -14,7 +17,10 @@ import {
   DocumentTextIcon,
   ClockIcon,
   FunnelIcon,
-  MagnifyingGlassIcon
+  MagnifyingGlassIcon,
+  ListBulletIcon,
+  CalendarDaysIcon,
+  MapPinIcon
 } from '@heroicons/react/24/outline';
 
 interface ActividadesPageProps {
@@ -33,9 +39,33 @@ export default async function ActividadesPage({ searchParams }: ActividadesPageP
   const search = (resolvedSearchParams.search as string) || '';
   const tipo = (resolvedSearchParams.tipo as string) || '';
   const usuario = (resolvedSearchParams.usuario as string) || '';
+  const esCalendario = resolvedSearchParams.vista === 'calendario';
 
   const skip = (page - 1) * 10;
 
+  // Calendar of meetings, calls and tasks (loads its own data per range)
+  if (esCalendario) {
+    const puedeVerOtros = await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN');
+    const usuariosCalendario = puedeVerOtros ? await AsignacionService.getUsuariosAsignables() : undefined;
+
+    return (
+      <AuthenticatedLayout currentPath="/actividades" userRole={session.user?.role}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-6 flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Calendario</h1>
+              <p className="text-sm text-gray-500 mt-1">
+                Reuniones, llamadas y tareas programadas
+              </p>
+            </div>
+            <SelectorVista esCalendario />
+          </div>
+          <CalendarioActividades usuarios={usuariosCalendario} />
+        </div>
+      </AuthenticatedLayout>
+    );
+  }
+
   // Construir filtros
   const where: Record<string, unknown> = {};
   
@@ -168,6 +198,7 @@ export default async function ActividadesPage({ searchParams }: ActividadesPageP
               <span className="text-sm text-gray-500">
                 {totalActividades} actividades totales
               </span>
+              <SelectorVista esCalendario={false} />
             </div>
           </div>
         </div>
@@ -269,6 +300,12 @@ export default async function ActividadesPage({ searchParams }: ActividadesPageP
                                 <span className="text-gray-500 ml-2">• {actividad.cliente.email}</span>
                               )}
                             </div>
+                            {actividad.ubicacion && (
+                              <p className="mt-1 flex items-center gap-1 text-sm text-gray-500">
+                                <MapPinIcon className="h-4 w-4" />
+                                {actividad.ubicacion}
+                              </p>
+                            )}
                             <p className="text-gray-600 mt-2">{actividad.descripcion}</p>
                             {actividad.resultado && (
                               <div className="mt-3 p-3 bg-green-50 rounded-md">
@@ -292,6 +329,7 @@ export default async function ActividadesPage({ searchParams }: ActividadesPageP
                           </p>
                           <p className="text-xs text-gray-400 mt-1">
                             {new Date(actividad.fecha).toLocaleTimeString()}
+                            {actividad.fechaFin && ` – ${new Date(actividad.fechaFin).toLocaleTimeString()}`}
                           </p>
                         </div>
                       </div>
@@ -388,4 +426,25 @@ export default async function ActividadesPage({ searchParams }: ActividadesPageP
       </div>
     </AuthenticatedLayout>
   );
+}
+
+// List / calendar toggle (same look as the clients view selector)
+function SelectorVista({ esCalendario }: { esCalendario: boolean }) {
+  const clase = (activo: boolean) =>
+    `px-3 py-1.5 text-sm font-medium rounded-md transition-colors flex items-center gap-1.5 ${
+      activo ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="inline-flex rounded-lg border border-gray-300 p-0.5 bg-white">
+      <Link href="/actividades" className={clase(!esCalendario)} aria-current={!esCalendario ? 'page' : undefined}>
+        <ListBulletIcon className="h-4 w-4" />
+        <span className="hidden sm:inline">Lista</span>
+      </Link>
+      <Link href="/actividades?vista=calendario" className={clase(esCalendario)} aria-current={esCalendario ? 'page' : undefined}>
+        <CalendarDaysIcon className="h-4 w-4" />
+        <span className="hidden sm:inline">Calendario</span>
+      </Link>
+    </div>
+  );
 }
\ No newline at end of file
@@ -1,7 +1,11 @@
+import { requirePermission } from '@/lib/auth';
 import { QuotaStatus } from '@/components/enrichment/QuotaStatus';
+import { TrabajosEnriquecimiento } from '@/components/enrichment/TrabajosEnriquecimiento';
 import { Button } from '@/components/ui/Button';
 
-export default function EnrichmentAdminPage() {
+export default async function EnrichmentAdminPage() {
+  await requirePermission('ENRICHMENT_BULK');
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -32,6 +36,11 @@ export default function EnrichmentAdminPage() {
           <QuotaStatus />
         </div>
 
+        {/* Bulk enrichment jobs */}
+        <div className="mb-8">
+          <TrabajosEnriquecimiento />
+        </div>
+
         {/* System Info */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           
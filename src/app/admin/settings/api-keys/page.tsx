@@ -1,7 +1,8 @@
-'use client';
-
+import { requirePermission } from '@/lib/auth';
 import { ApiKeyList } from '@/components/admin/settings/ApiKeyList';
 
-export default function ApiKeysPage() {
+export default async function ApiKeysPage() {
+  await requirePermission('API_KEYS_MANAGE', '/admin/settings');
+
   return <ApiKeyList />;
 }
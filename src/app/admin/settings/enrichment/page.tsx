@@ -1,7 +1,8 @@
-'use client';
-
+import { requirePermission } from '@/lib/auth';
 import { EnrichmentSettingsForm } from '@/components/admin/settings/EnrichmentSettingsForm';
 
-export default function EnrichmentSettingsPage() {
+export default async function EnrichmentSettingsPage() {
+  await requirePermission('SETTINGS_MANAGE', '/admin/settings');
+
   return <EnrichmentSettingsForm />;
 }
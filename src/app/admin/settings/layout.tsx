@@ -1,6 +1,7 @@
 import { Metadata } from 'next';
 import { redirect } from 'next/navigation';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
 import AuthenticatedLayout from '@/components/AuthenticatedLayout';
 import { SettingsSidebar } from '@/components/admin/settings/SettingsSidebar';
 
@@ -20,10 +21,12 @@ export default async function SettingsLayout({
     redirect('/auth/login');
   }
 
+  const permissions = await PermissionService.getPermissionsForRole(session.user.role);
+
   return (
     <AuthenticatedLayout currentPath="/admin/settings" userRole={session.user.role}>
       <div className="flex min-h-[calc(100vh-4rem)]">
-        <SettingsSidebar />
+        <SettingsSidebar permissions={permissions} />
         <main className="flex-1 p-6 bg-gray-50 overflow-auto">
           <div className="max-w-4xl mx-auto">{children}</div>
         </main>
@@ -1,6 +1,20 @@
 import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { SETTINGS_SECTIONS } from '@/components/admin/settings/settings-sections';
 
-export default function SettingsPage() {
-  // Redirect to the enrichment settings by default
-  redirect('/admin/settings/enrichment');
+export default async function SettingsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/auth/login');
+  }
+
+  // Redirect to the first settings section the user can access
+  const permissions = await PermissionService.getPermissionsForRole(session.user.role);
+  const firstSection = SETTINGS_SECTIONS.find((section) =>
+    permissions.includes(section.permission)
+  );
+
+  redirect(firstSection?.href ?? '/');
 }
@@ -0,0 +1,8 @@
+import { requirePermission } from '@/lib/auth';
+import { PipelineSettingsForm } from '@/components/admin/settings/PipelineSettingsForm';
+
+export default async function PipelineSettingsPage() {
+  await requirePermission('SETTINGS_MANAGE', '/admin/settings');
+
+  return <PipelineSettingsForm />;
+}
@@ -5,6 +5,15 @@ import { useRouter, useParams } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { EmailEditor } from '@/components/EmailEditor';
 import { VariableHelper } from '@/components/VariableHelper';
+import { AvisosPlantilla } from '@/components/AvisosPlantilla';
+import {
+  CamposWhatsAppBusiness,
+  camposWhatsAppBusiness,
+  WHATSAPP_BUSINESS_INICIAL,
+  whatsAppBusinessDesdePlantilla,
+} from '@/components/CamposWhatsAppBusiness';
+import { VariantesPlantilla } from '@/components/admin/settings/VariantesPlantilla';
+import { HistorialVersionesPlantilla } from '@/components/admin/settings/HistorialVersionesPlantilla';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import Link from 'next/link';
 import { render } from '@/lib/services/template-render-service';
@@ -25,6 +34,38 @@ const CLIENTE_EJEMPLO = {
   facebook: 'juanperez',
   linkedin: 'juanperez',
   twitter: '@juanperez',
+  websiteAnalysis: {
+    url: 'https://ejemplo.com',
+    performanceScore: 54,
+    mobileScore: 38,
+    desktopScore: 71,
+    accessibilityScore: 82,
+    sslValid: false,
+    hasHttps: false,
+    isResponsive: false,
+    techStack: JSON.stringify({ technologies: [{ name: 'WordPress', category: 'CMS' }, { name: 'jQuery', category: 'JavaScript Library' }] }),
+    domainExpiresAt: '2026-12-15',
+    daysUntilExpiry: 45,
+    domainAgeYears: 8,
+    domainRegistrar: 'NIC Argentina',
+    seoTitle: 'Juan Pérez - Inicio',
+    serverCountry: 'Argentina',
+  },
+  enrichments: [{
+    status: 'CONFIRMED',
+    description: 'Estudio contable con 20 años de trayectoria',
+    industry: 'Servicios profesionales',
+    companySize: '10-50',
+    website: 'https://ejemplo.com',
+  }],
+};
+
+const CONTACTO_EJEMPLO = {
+  nombre: 'María González',
+  cargo: 'Encargada',
+  email: 'maria@ejemplo.com',
+  telefono: '+54 11 8765-4321',
+  whatsapp: '+5411187654321',
 };
 
 export default function EditarPlantillaPage() {
@@ -38,6 +79,8 @@ export default function EditarPlantillaPage() {
   const [asunto, setAsunto] = useState('');
   const [cuerpo, setCuerpo] = useState('');
   const [esActiva, setEsActiva] = useState(true);
+  const [seguimiento, setSeguimiento] = useState(true);
+  const [whatsAppBusiness, setWhatsAppBusiness] = useState(WHATSAPP_BUSINESS_INICIAL);
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -56,6 +99,8 @@ export default function EditarPlantillaPage() {
           setAsunto(p.asunto || '');
           setCuerpo(p.cuerpo);
           setEsActiva(p.esActiva);
+          setSeguimiento(p.seguimiento);
+          setWhatsAppBusiness(whatsAppBusinessDesdePlantilla(p));
         }
       } catch {
         setError('Error al cargar la plantilla');
@@ -86,6 +131,8 @@ export default function EditarPlantillaPage() {
           asunto: canal === 'EMAIL' ? asunto : null,
           cuerpo,
           esActiva,
+          seguimiento,
+          ...(canal === 'WHATSAPP' && camposWhatsAppBusiness(whatsAppBusiness)),
         }),
       });
 
@@ -104,8 +151,8 @@ export default function EditarPlantillaPage() {
     }
   };
 
-  const previewCuerpo = cuerpo ? render(cuerpo, CLIENTE_EJEMPLO) : '';
-  const previewAsunto = asunto ? render(asunto, CLIENTE_EJEMPLO) : '';
+  const previewCuerpo = cuerpo ? render(cuerpo, CLIENTE_EJEMPLO, CONTACTO_EJEMPLO) : '';
+  const previewAsunto = asunto ? render(asunto, CLIENTE_EJEMPLO, CONTACTO_EJEMPLO) : '';
 
   if (loading) {
     return <div className="text-center py-12 text-gray-500">Cargando plantilla...</div>;
@@ -199,6 +246,8 @@ export default function EditarPlantillaPage() {
           />
         </div>
 
+        <AvisosPlantilla textos={canal === 'EMAIL' ? [asunto, cuerpo] : [cuerpo]} />
+
         {/* Estado */}
         <div className="flex items-center gap-2">
           <input
@@ -213,6 +262,30 @@ export default function EditarPlantillaPage() {
           </label>
         </div>
 
+        {/* Plantilla aprobada de WhatsApp Business (solo WHATSAPP) */}
+        {canal === 'WHATSAPP' && (
+          <CamposWhatsAppBusiness value={whatsAppBusiness} onChange={setWhatsAppBusiness} />
+        )}
+
+        {/* Seguimiento (solo EMAIL) */}
+        {canal === 'EMAIL' && (
+          <div className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              id="seguimiento"
+              checked={seguimiento}
+              onChange={(e) => setSeguimiento(e.target.checked)}
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="seguimiento" className="text-sm text-gray-700">
+              Seguimiento de aperturas y clics
+              <span className="block text-xs text-gray-500">
+                Desactivalo para envíos sensibles: no se agrega el píxel ni se reescriben los enlaces.
+              </span>
+            </label>
+          </div>
+        )}
+
         {/* Preview */}
         <div>
           <button
@@ -257,6 +330,16 @@ export default function EditarPlantillaPage() {
           </Button>
         </div>
       </form>
+
+      <section className="mt-10 pt-6 border-t border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Variantes A/B</h2>
+        <VariantesPlantilla plantillaId={id} canal={canal} asunto={asunto} cuerpo={cuerpo} />
+      </section>
+
+      <section className="mt-10 pt-6 border-t border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Historial de versiones</h2>
+        <HistorialVersionesPlantilla plantillaId={id} />
+      </section>
     </div>
   );
 }
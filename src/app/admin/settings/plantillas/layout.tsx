@@ -0,0 +1,11 @@
+import { requirePermission } from '@/lib/auth';
+
+export default async function PlantillasLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await requirePermission('TEMPLATES_MANAGE', '/admin/settings');
+
+  return children;
+}
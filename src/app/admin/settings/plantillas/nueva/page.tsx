@@ -5,6 +5,12 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { EmailEditor } from '@/components/EmailEditor';
 import { VariableHelper } from '@/components/VariableHelper';
+import { AvisosPlantilla } from '@/components/AvisosPlantilla';
+import {
+  CamposWhatsAppBusiness,
+  camposWhatsAppBusiness,
+  WHATSAPP_BUSINESS_INICIAL,
+} from '@/components/CamposWhatsAppBusiness';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import Link from 'next/link';
 import { render } from '@/lib/services/template-render-service';
@@ -25,6 +31,38 @@ const CLIENTE_EJEMPLO = {
   facebook: 'juanperez',
   linkedin: 'juanperez',
   twitter: '@juanperez',
+  websiteAnalysis: {
+    url: 'https://ejemplo.com',
+    performanceScore: 54,
+    mobileScore: 38,
+    desktopScore: 71,
+    accessibilityScore: 82,
+    sslValid: false,
+    hasHttps: false,
+    isResponsive: false,
+    techStack: JSON.stringify({ technologies: [{ name: 'WordPress', category: 'CMS' }, { name: 'jQuery', category: 'JavaScript Library' }] }),
+    domainExpiresAt: '2026-12-15',
+    daysUntilExpiry: 45,
+    domainAgeYears: 8,
+    domainRegistrar: 'NIC Argentina',
+    seoTitle: 'Juan Pérez - Inicio',
+    serverCountry: 'Argentina',
+  },
+  enrichments: [{
+    status: 'CONFIRMED',
+    description: 'Estudio contable con 20 años de trayectoria',
+    industry: 'Servicios profesionales',
+    companySize: '10-50',
+    website: 'https://ejemplo.com',
+  }],
+};
+
+const CONTACTO_EJEMPLO = {
+  nombre: 'María González',
+  cargo: 'Encargada',
+  email: 'maria@ejemplo.com',
+  telefono: '+54 11 8765-4321',
+  whatsapp: '+5411187654321',
 };
 
 export default function NuevaPlantillaPage() {
@@ -34,6 +72,8 @@ export default function NuevaPlantillaPage() {
   const [descripcion, setDescripcion] = useState('');
   const [asunto, setAsunto] = useState('');
   const [cuerpo, setCuerpo] = useState('');
+  const [seguimiento, setSeguimiento] = useState(true);
+  const [whatsAppBusiness, setWhatsAppBusiness] = useState(WHATSAPP_BUSINESS_INICIAL);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [showPreview, setShowPreview] = useState(false);
@@ -62,6 +102,8 @@ export default function NuevaPlantillaPage() {
           canal,
           asunto: canal === 'EMAIL' ? asunto : null,
           cuerpo,
+          seguimiento,
+          ...(canal === 'WHATSAPP' && camposWhatsAppBusiness(whatsAppBusiness)),
         }),
       });
 
@@ -80,8 +122,8 @@ export default function NuevaPlantillaPage() {
     }
   };
 
-  const previewCuerpo = cuerpo ? render(cuerpo, CLIENTE_EJEMPLO) : '';
-  const previewAsunto = asunto ? render(asunto, CLIENTE_EJEMPLO) : '';
+  const previewCuerpo = cuerpo ? render(cuerpo, CLIENTE_EJEMPLO, CONTACTO_EJEMPLO) : '';
+  const previewAsunto = asunto ? render(asunto, CLIENTE_EJEMPLO, CONTACTO_EJEMPLO) : '';
 
   return (
     <div>
@@ -191,6 +233,32 @@ export default function NuevaPlantillaPage() {
           />
         </div>
 
+        <AvisosPlantilla textos={canal === 'EMAIL' ? [asunto, cuerpo] : [cuerpo]} />
+
+        {/* Plantilla aprobada de WhatsApp Business (solo WHATSAPP) */}
+        {canal === 'WHATSAPP' && (
+          <CamposWhatsAppBusiness value={whatsAppBusiness} onChange={setWhatsAppBusiness} />
+        )}
+
+        {/* Seguimiento (solo EMAIL) */}
+        {canal === 'EMAIL' && (
+          <div className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              id="seguimiento"
+              checked={seguimiento}
+              onChange={(e) => setSeguimiento(e.target.checked)}
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label htmlFor="seguimiento" className="text-sm text-gray-700">
+              Seguimiento de aperturas y clics
+              <span className="block text-xs text-gray-500">
+                Desactivalo para envíos sensibles: no se agrega el píxel ni se reescriben los enlaces.
+              </span>
+            </label>
+          </div>
+        )}
+
         {/* Preview toggle */}
         <div>
           <button
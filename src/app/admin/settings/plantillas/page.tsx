@@ -20,6 +20,8 @@ interface Plantilla {
   createdAt: string;
   creadoPor: { name: string | null; email: string };
   _count: { mensajes: number };
+  seguimiento: boolean;
+  estadisticas: { enviados: number; tasaApertura: number; tasaClic: number } | null;
 }
 
 function WhatsAppSmallIcon({ className }: { className?: string }) {
@@ -121,6 +123,7 @@ export default function PlantillasPage() {
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Canal</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Asunto</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Mensajes</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Apertura / Clics</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Acciones</th>
               </tr>
@@ -156,6 +159,19 @@ export default function PlantillasPage() {
                   <td className="px-4 py-3 text-sm text-gray-600">
                     {p._count.mensajes}
                   </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">
+                    {p.canal !== 'EMAIL' ? (
+                      '-'
+                    ) : !p.seguimiento ? (
+                      <span className="text-xs text-gray-400">Sin seguimiento</span>
+                    ) : p.estadisticas && p.estadisticas.enviados > 0 ? (
+                      <span title={`Sobre ${p.estadisticas.enviados} email(s) con seguimiento`}>
+                        {p.estadisticas.tasaApertura}% / {p.estadisticas.tasaClic}%
+                      </span>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
                   <td className="px-4 py-3">
                     <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
                       p.esActiva ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
@@ -0,0 +1,8 @@
+import { requirePermission } from '@/lib/auth';
+import { PromptsIAForm } from '@/components/admin/settings/PromptsIAForm';
+
+export default async function PromptsSettingsPage() {
+  await requirePermission('SETTINGS_MANAGE', '/admin/settings');
+
+  return <PromptsIAForm />;
+}
@@ -1,7 +1,8 @@
-'use client';
-
+import { requirePermission } from '@/lib/auth';
 import { QuotaDashboard } from '@/components/admin/settings/QuotaDashboard';
 
-export default function QuotasPage() {
+export default async function QuotasPage() {
+  await requirePermission('QUOTAS_VIEW', '/admin/settings');
+
   return <QuotaDashboard />;
 }
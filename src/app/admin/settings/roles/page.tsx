@@ -0,0 +1,8 @@
+import { requirePermission } from '@/lib/auth';
+import { RolePermissionsForm } from '@/components/admin/settings/RolePermissionsForm';
+
+export default async function RolesPage() {
+  await requirePermission('USERS_MANAGE', '/admin/settings');
+
+  return <RolePermissionsForm />;
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { SecuenciaForm } from '@/components/admin/settings/SecuenciaForm';
+import { useSecuencia } from '@/hooks/useSecuencias';
+
+export default function EditarSecuenciaPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const { data: secuencia, isLoading, error } = useSecuencia(id);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/settings/secuencias" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-900 mb-3">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Volver a secuencias
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Editar Secuencia</h1>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Cargando secuencia...</div>
+      ) : error || !secuencia ? (
+        <div className="text-center py-12 text-red-600">{error?.message ?? 'Secuencia no encontrada'}</div>
+      ) : (
+        <SecuenciaForm key={secuencia.id} secuencia={secuencia} />
+      )}
+    </div>
+  );
+}
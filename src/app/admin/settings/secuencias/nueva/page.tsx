@@ -0,0 +1,21 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { SecuenciaForm } from '@/components/admin/settings/SecuenciaForm';
+
+export default function NuevaSecuenciaPage() {
+  return (
+    <div>
+      <div className="mb-6">
+        <Link href="/admin/settings/secuencias" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-900 mb-3">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Volver a secuencias
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Nueva Secuencia</h1>
+      </div>
+
+      <SecuenciaForm />
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import Link from 'next/link';
+import { PencilIcon, PlusIcon, QueueListIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { useDesactivarSecuencia, useSecuencias } from '@/hooks/useSecuencias';
+import type { Secuencia } from '@/types';
+
+// "Email → +3d WhatsApp → +5d Email"
+function resumenPasos(secuencia: Secuencia) {
+  return secuencia.pasos
+    .map((paso, index) => {
+      const canal = paso.canal === 'EMAIL' ? 'Email' : 'WhatsApp';
+      return index === 0 && paso.esperaDias === 0 ? canal : `+${paso.esperaDias}d ${canal}`;
+    })
+    .join(' → ');
+}
+
+export default function SecuenciasPage() {
+  const { data: secuencias = [], isLoading, error } = useSecuencias();
+  const desactivar = useDesactivarSecuencia();
+
+  const handleDelete = async (secuencia: Secuencia) => {
+    const enCurso = secuencia._count?.inscripciones ?? 0;
+    const aviso = enCurso > 0 ? ` Se detendrá para ${enCurso} cliente(s) en curso.` : '';
+    if (!confirm(`¿Desactivar la secuencia "${secuencia.nombre}"?${aviso}`)) return;
+    try {
+      await desactivar.mutateAsync(secuencia.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al desactivar la secuencia');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Secuencias de Contacto</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Cadencias de plantillas de email y WhatsApp con esperas entre cada paso
+          </p>
+        </div>
+        <Link href="/admin/settings/secuencias/nueva">
+          <Button>
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Nueva Secuencia
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Cargando secuencias...</div>
+      ) : error ? (
+        <div className="text-center py-12 text-red-600">{error.message}</div>
+      ) : secuencias.length === 0 ? (
+        <div className="text-center py-12">
+          <QueueListIcon className="mx-auto h-12 w-12 text-gray-300" />
+          <p className="mt-3 text-gray-500">No hay secuencias creadas</p>
+          <Link href="/admin/settings/secuencias/nueva">
+            <Button variant="outline" size="sm" className="mt-3">
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Crear primera secuencia
+            </Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="bg-white shadow ring-1 ring-black ring-opacity-5 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nombre</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Pasos</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">En curso</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Acciones</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {secuencias.map((s) => (
+                <tr key={s.id} className={!s.activa ? 'bg-gray-50 opacity-60' : 'hover:bg-gray-50'}>
+                  <td className="px-4 py-3">
+                    <Link href={`/admin/settings/secuencias/${s.id}/editar`} className="block group">
+                      <div className="text-sm font-medium text-blue-600 group-hover:text-blue-800 group-hover:underline">{s.nombre}</div>
+                      {s.descripcion && (
+                        <div className="text-xs text-gray-500 truncate max-w-xs">{s.descripcion}</div>
+                      )}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{resumenPasos(s)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{s._count?.inscripciones ?? 0}</td>
+                  <td className="px-4 py-3">
+                    <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
+                      s.activa ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                    }`}>
+                      {s.activa ? 'Activa' : 'Inactiva'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-1">
+                      <Link href={`/admin/settings/secuencias/${s.id}/editar`}>
+                        <Button variant="outline" size="sm" className="h-7 w-7 p-0">
+                          <PencilIcon className="h-3.5 w-3.5" />
+                        </Button>
+                      </Link>
+                      {s.activa && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 w-7 p-0 hover:border-red-400 hover:bg-red-50"
+                          onClick={() => handleDelete(s)}
+                          disabled={desactivar.isPending}
+                        >
+                          <TrashIcon className="h-3.5 w-3.5 text-red-600" />
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { CalendarioService, TIPOS_CALENDARIO } from '@/lib/services/calendario-service'
+import { ReprogramarActividadSchema } from '@/lib/validations/actividad'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  errorResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// PATCH /api/actividades/[id] - Reprogramar una reunión o llamada
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_CREATE'))) {
+      return forbiddenResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validationResult = ReprogramarActividadSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const existente = await CalendarioService.getActividad(id)
+
+    if (!existente) {
+      return notFoundResponse('Actividad')
+    }
+
+    // Only meetings and calls are scheduled; the rest of the log keeps its dates
+    if (!TIPOS_CALENDARIO.includes(existente.tipo)) {
+      return errorResponse('Solo se pueden reprogramar reuniones y llamadas', {
+        status: 400,
+        code: 'VALIDATION_ERROR',
+      })
+    }
+
+    // Other users' meetings are moved by those who can reassign work
+    if (
+      existente.usuarioId !== session.user.id &&
+      !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))
+    ) {
+      return forbiddenResponse()
+    }
+
+    const { fecha, fechaFin } = validationResult.data
+    const actividad = await CalendarioService.reprogramarActividad(id, fecha, fechaFin)
+
+    if (!actividad) {
+      return notFoundResponse('Actividad')
+    }
+
+    logger.info('Activity rescheduled', { actividadId: id, fecha: fecha.toISOString() })
+
+    return successResponse(actividad, {
+      message: 'Actividad reprogramada'
+    })
+
+  } catch (error) {
+    logger.error('Error rescheduling activity', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { OportunidadesService } from '@/lib/services/oportunidades-service'
+import { SecuenciasService, TIPOS_RESPUESTA } from '@/lib/services/secuencias-service'
+import { SeguimientoService } from '@/lib/services/seguimiento-service'
 import { logger } from '@/lib/logger'
 import { TipoActividad, Prisma } from '@prisma/client'
 import {
@@ -13,6 +17,8 @@ import {
   serverErrorResponse,
   unauthorizedResponse,
   notFoundResponse,
+  forbiddenResponse,
+  errorResponse,
 } from '@/lib/api-response'
 
 // GET /api/actividades - Obtener lista de actividades
@@ -23,6 +29,10 @@ export async function GET(request: NextRequest) {
       return unauthorizedResponse()
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_VIEW'))) {
+      return forbiddenResponse()
+    }
+
     const { searchParams } = new URL(request.url)
 
     // Parse and validate query params
@@ -67,6 +77,12 @@ export async function GET(request: NextRequest) {
             name: true,
             email: true,
           }
+        },
+        oportunidad: {
+          select: {
+            id: true,
+            titulo: true,
+          }
         }
       },
       orderBy: { fecha: 'desc' },
@@ -101,6 +117,10 @@ export async function POST(request: NextRequest) {
       return unauthorizedResponse()
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_CREATE'))) {
+      return forbiddenResponse()
+    }
+
     const body = await request.json()
 
     // Validate request body
@@ -120,11 +140,23 @@ export async function POST(request: NextRequest) {
       return notFoundResponse('Cliente')
     }
 
+    if (data.oportunidadId && !(await OportunidadesService.perteneceA(data.clienteId, data.oportunidadId))) {
+      return errorResponse('La oportunidad no pertenece al cliente', {
+        status: 400,
+        code: 'VALIDATION_ERROR',
+      })
+    }
+
+    // A meeting or call scheduled ahead is not a contact yet
+    const ahora = new Date()
+    const fecha = data.fecha ?? ahora
+    const programada = fecha > ahora
+
     const [actividad] = await prisma.$transaction([
       prisma.actividad.create({
         data: {
           ...data,
-          fecha: new Date(),
+          fecha,
           usuarioId: session.user.id,
         },
         include: {
@@ -140,18 +172,31 @@ export async function POST(request: NextRequest) {
               id: true,
               name: true,
             }
+          },
+          oportunidad: {
+            select: {
+              id: true,
+              titulo: true,
+            }
           }
         }
       }),
       prisma.cliente.update({
         where: { id: data.clienteId },
         data: {
-          ultimoContacto: new Date(),
-          fechaModific: new Date(),
+          ...(!programada && { ultimoContacto: ahora }),
+          fechaModific: ahora,
         }
       }),
     ])
 
+    // A call or meeting that took place means the client answered: stop the outreach
+    // and credit the reply to the last message it got
+    if (!programada && TIPOS_RESPUESTA.includes(data.tipo)) {
+      await SecuenciasService.detenerPorCliente([data.clienteId], 'RESPUESTA')
+      await SeguimientoService.registrarRespuesta(data.clienteId, fecha)
+    }
+
     logger.info('Activity created', { actividadId: actividad.id, clienteId: data.clienteId })
 
     return successResponse(actividad, {
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
 import { logger } from '@/lib/logger';
 import { prisma } from '@/lib/prisma';
 import { decrypt } from '@/lib/crypto';
+import { logAudit } from '@/lib/audit';
 import type { ApiResponse } from '@/types';
 
 interface RouteParams {
@@ -11,7 +14,7 @@ interface RouteParams {
 
 /**
  * GET /api/admin/api-keys/[id]/reveal - Get the decrypted API key
- * This endpoint requires authentication and should be used sparingly
+ * Requires API_KEYS_MANAGE and should be used sparingly (every reveal is audited)
  */
 export async function GET(
   _request: NextRequest,
@@ -27,6 +30,10 @@ export async function GET(
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await params;
 
     const key = await prisma.apiKey.findUnique({
@@ -42,6 +49,14 @@ export async function GET(
 
     const decryptedKey = decrypt(key.apiKey);
 
+    await logAudit(
+      'api_key.reveal',
+      session.user.id,
+      'ApiKey',
+      id,
+      `Provider: ${key.provider}`
+    );
+
     return NextResponse.json({
       success: true,
       data: { apiKey: decryptedKey },
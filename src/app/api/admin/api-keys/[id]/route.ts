@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
 import { logger } from '@/lib/logger';
-import { isAdmin } from '@/lib/rbac';
 import { ApiKeyService } from '@/lib/services/api-key-service';
-import { updateApiKeySchema } from '@/lib/validations/api-key';
+import { updateApiKeySchema, WHATSAPP_CLOUD_KEY } from '@/lib/validations/api-key';
 import { logAudit } from '@/lib/audit';
 import type { ApiKeyResponse } from '@/types/enrichment';
 import type { ApiResponse } from '@/types';
@@ -20,13 +21,17 @@ export async function GET(
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await params;
     const key = await ApiKeyService.getById(id);
 
@@ -58,13 +63,17 @@ export async function PUT(
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await params;
     const body = await request.json();
 
@@ -90,6 +99,17 @@ export async function PUT(
       );
     }
 
+    if (
+      existing.provider === 'whatsapp_cloud' &&
+      validation.data.apiKey &&
+      !WHATSAPP_CLOUD_KEY.test(validation.data.apiKey)
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Formato esperado: ID_DEL_NUMERO:TOKEN_DE_ACCESO' },
+        { status: 400 }
+      );
+    }
+
     const key = await ApiKeyService.update(id, validation.data);
 
     await logAudit(
@@ -122,13 +142,17 @@ export async function DELETE(
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await params;
 
     // Check if key exists
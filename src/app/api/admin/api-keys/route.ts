@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
 import { logger } from '@/lib/logger';
-import { isAdmin } from '@/lib/rbac';
 import { ApiKeyService } from '@/lib/services/api-key-service';
 import { createApiKeySchema } from '@/lib/validations/api-key';
 import { logAudit } from '@/lib/audit';
@@ -13,13 +14,17 @@ export async function GET(): Promise<NextResponse<ApiResponse<ApiKeyResponse[]>>
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const keys = await ApiKeyService.getAll();
 
     return NextResponse.json({
@@ -42,13 +47,17 @@ export async function POST(
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const body = await request.json();
 
     // Validate input
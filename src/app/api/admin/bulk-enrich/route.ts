@@ -1,16 +1,18 @@
 /**
  * Bulk Enrichment API Endpoint
- * POST /api/admin/bulk-enrich - Run bulk enrichment
+ * POST /api/admin/bulk-enrich - Enqueue a bulk enrichment job (processed by the worker cron)
  * GET /api/admin/bulk-enrich - Get enrichment stats and pending clients
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { auth } from '@/lib/auth';
 import { logger } from '@/lib/logger';
-import { isAdmin } from '@/lib/rbac';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
 import { BulkEnrichmentService } from '@/lib/services/bulk-enrichment-service';
 import { AISdkService } from '@/lib/services/ai-sdk-service';
-import { BULK } from '@/lib/constants';
+import { TrabajosEnriquecimientoService } from '@/lib/services/trabajos-enriquecimiento-service';
+import { trabajoEnriquecimientoSchema } from '@/lib/validations/enrichment';
 import type { AIProvider } from '@/types/enrichment';
 
 export async function POST(request: NextRequest) {
@@ -21,52 +23,49 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
-    if (!isAdmin(session.user.role)) {
-      return NextResponse.json({ error: 'Solo administradores pueden ejecutar enriquecimiento masivo' }, { status: 403 });
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'))) {
+      return forbiddenResponse('No tienes permisos para ejecutar enriquecimiento masivo');
     }
 
     const body = await request.json();
-    const { clienteIds, includeAI = true, includeWebsiteAnalysis = true, provider: rawProvider } = body;
-
-    if (!clienteIds || !Array.isArray(clienteIds) || clienteIds.length === 0) {
-      return NextResponse.json(
-        { error: 'Se requiere una lista de IDs de clientes' },
-        { status: 400 }
-      );
-    }
-
-    if (clienteIds.length > BULK.MAX_CLIENTS) {
+    const validation = trabajoEnriquecimientoSchema.safeParse(body);
+    if (!validation.success) {
       return NextResponse.json(
-        { error: `Maximo ${BULK.MAX_CLIENTS} clientes por operacion` },
+        { error: validation.error.issues[0]?.message ?? 'Datos invalidos' },
         { status: 400 }
       );
     }
+    const { provider: rawProvider, ...dto } = validation.data;
 
     // Validate and map provider: 'auto' or undefined means fallback mode
-    const validProviders: AIProvider[] = ['openai', 'gemini', 'grok', 'deepseek'];
     let provider: AIProvider | undefined;
     if (rawProvider && rawProvider !== 'auto') {
+      // Built-in providers with a key and enabled custom ones
+      const validProviders = await AISdkService.getAvailableProviders();
       if (!validProviders.includes(rawProvider)) {
         return NextResponse.json(
           { error: `Provider invalido: ${rawProvider}. Validos: auto, ${validProviders.join(', ')}` },
           { status: 400 }
         );
       }
-      provider = rawProvider as AIProvider;
+      provider = rawProvider;
     }
 
-    const result = await BulkEnrichmentService.enrichClients({
-      clienteIds,
-      includeAI,
-      includeWebsiteAnalysis,
-      provider,
-      userId: session.user.id!,
-    });
+    const result = await TrabajosEnriquecimientoService.crear({ ...dto, provider }, session.user.id!);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
 
-    return NextResponse.json({
-      success: true,
-      ...result,
+    // Start right away instead of waiting for the next cron tick
+    after(async () => {
+      try {
+        await TrabajosEnriquecimientoService.procesar();
+      } catch (error) {
+        logger.error('[Bulk Enrich] Worker run error', error instanceof Error ? error : new Error(String(error)));
+      }
     });
+
+    return NextResponse.json({ success: true, trabajo: result.data }, { status: 202 });
   } catch (error) {
     logger.error('[Bulk Enrich] Error', error instanceof Error ? error : new Error(String(error)));
     return NextResponse.json(
@@ -84,8 +83,8 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
-    if (!isAdmin(session.user.role)) {
-      return NextResponse.json({ error: 'Solo administradores pueden confirmar/rechazar enriquecimiento masivo' }, { status: 403 });
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'))) {
+      return forbiddenResponse('No tienes permisos para confirmar/rechazar enriquecimiento masivo');
     }
 
     const body = await request.json();
@@ -139,8 +138,8 @@ export async function GET() {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
-    if (!isAdmin(session.user.role)) {
-      return NextResponse.json({ error: 'Solo administradores pueden ver estadisticas de enriquecimiento masivo' }, { status: 403 });
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'))) {
+      return forbiddenResponse('No tienes permisos para ver estadisticas de enriquecimiento masivo');
     }
 
     // Get stats, pending clients, pending confirmation, and available AI providers
@@ -148,7 +147,7 @@ export async function GET() {
       BulkEnrichmentService.getEnrichmentStats(),
       BulkEnrichmentService.getClientsNeedingEnrichment(50),
       BulkEnrichmentService.getClientesPendingConfirmation(),
-      AISdkService.getAvailableProviders(),
+      AISdkService.getAvailableProviderOptions(),
     ]);
 
     return NextResponse.json({
@@ -0,0 +1,85 @@
+/**
+ * Bulk Enrichment Job Events Endpoint
+ * GET /api/admin/bulk-enrich/trabajos/[id]/eventos - Live job progress as Server-Sent Events:
+ *   a "trabajo" event (same shape as GET /trabajos/[id]) whenever it changes, and a "fin"
+ *   event ({ estado }, null when deleted) once it stops running: the client must close then.
+ *   Otherwise streams are closed after a while and EventSource reconnects by itself.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { TRABAJOS_ENRIQUECIMIENTO } from '@/lib/constants';
+import { respuestaEventos } from '@/lib/sse';
+import {
+  TRABAJO_ACTIVO,
+  TrabajosEnriquecimientoService,
+  type TrabajoDetalle,
+} from '@/lib/services/trabajos-enriquecimiento-service';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const esperar = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'))) {
+      return forbiddenResponse('No tienes permisos para ver los trabajos de enriquecimiento masivo');
+    }
+
+    const { id } = await params;
+    const trabajo = await TrabajosEnriquecimientoService.getById(id);
+
+    if (!trabajo) {
+      return NextResponse.json({ error: 'Trabajo no encontrado' }, { status: 404 });
+    }
+
+    const { INTERVALO_EVENTOS_MS, DURACION_EVENTOS_MS } = TRABAJOS_ENRIQUECIMIENTO;
+
+    return respuestaEventos(async (enviar, signal) => {
+      const inicio = Date.now();
+      let actual: TrabajoDetalle | null = trabajo;
+      let enviado = '';
+
+      try {
+        while (actual && !signal.aborted) {
+          const serializado = JSON.stringify(actual);
+          if (serializado !== enviado) {
+            enviar('trabajo', actual);
+            enviado = serializado;
+          }
+
+          // A job that is not running won't change until someone acts on it
+          if (!TRABAJO_ACTIVO.includes(actual.estado) || Date.now() - inicio >= DURACION_EVENTOS_MS) break;
+
+          await esperar(INTERVALO_EVENTOS_MS);
+          actual = await TrabajosEnriquecimientoService.getById(id);
+        }
+
+        // Without it EventSource would reconnect to a job with nothing left to report
+        if (!actual || !TRABAJO_ACTIVO.includes(actual.estado)) {
+          enviar('fin', { estado: actual?.estado ?? null });
+        }
+      } catch (error) {
+        // The stream just ends: EventSource reconnects
+        logger.error('[Bulk Enrich] Job events error', error instanceof Error ? error : new Error(String(error)));
+      }
+    }, { reintentoMs: INTERVALO_EVENTOS_MS });
+  } catch (error) {
+    logger.error('[Bulk Enrich] Job events error', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { error: 'Error al obtener el trabajo' },
+      { status: 500 }
+    );
+  }
+}
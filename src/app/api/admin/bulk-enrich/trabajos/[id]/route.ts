@@ -0,0 +1,87 @@
+/**
+ * Bulk Enrichment Job API Endpoint
+ * GET /api/admin/bulk-enrich/trabajos/[id] - Job progress and its latest processed clients
+ * PATCH /api/admin/bulk-enrich/trabajos/[id] - Pause, resume, cancel or retry its failed clients
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { TrabajosEnriquecimientoService } from '@/lib/services/trabajos-enriquecimiento-service';
+import { accionTrabajoSchema } from '@/lib/validations/enrichment';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'))) {
+      return forbiddenResponse('No tienes permisos para ver los trabajos de enriquecimiento masivo');
+    }
+
+    const { id } = await params;
+    const trabajo = await TrabajosEnriquecimientoService.getById(id);
+
+    if (!trabajo) {
+      return NextResponse.json({ error: 'Trabajo no encontrado' }, { status: 404 });
+    }
+
+    return NextResponse.json({ trabajo });
+  } catch (error) {
+    logger.error('[Bulk Enrich] Get job error', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { error: 'Error al obtener el trabajo' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'))) {
+      return forbiddenResponse('No tienes permisos para modificar trabajos de enriquecimiento masivo');
+    }
+
+    const body = await request.json();
+    const validation = accionTrabajoSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0]?.message ?? 'Datos invalidos' },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await TrabajosEnriquecimientoService.accion(id, validation.data.accion);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Trabajo no encontrado' }, { status: 404 });
+    }
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, trabajo: result.data });
+  } catch (error) {
+    logger.error('[Bulk Enrich] Job action error', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { error: 'Error al procesar la accion' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Bulk Enrichment Jobs API Endpoint
+ * GET /api/admin/bulk-enrich/trabajos - Latest jobs with their progress
+ */
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { TrabajosEnriquecimientoService } from '@/lib/services/trabajos-enriquecimiento-service';
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'))) {
+      return forbiddenResponse('No tienes permisos para ver los trabajos de enriquecimiento masivo');
+    }
+
+    const trabajos = await TrabajosEnriquecimientoService.listar();
+
+    return NextResponse.json({ trabajos });
+  } catch (error) {
+    logger.error('[Bulk Enrich] List jobs error', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { error: 'Error al obtener los trabajos' },
+      { status: 500 }
+    );
+  }
+}
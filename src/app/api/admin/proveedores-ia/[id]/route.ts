@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+import { ProveedoresIAService } from '@/lib/services/proveedores-ia-service';
+import { updateProveedorIASchema } from '@/lib/validations/proveedor-ia';
+import { logAudit } from '@/lib/audit';
+import type { ProveedorIA } from '@/types/enrichment';
+import type { ApiResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/admin/proveedores-ia/[id] - Update a custom AI provider
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<ProveedorIA>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const validation = updateProveedorIASchema.safeParse(body);
+    if (!validation.success) {
+      const firstError = validation.error.issues?.[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: firstError?.message ?? 'Datos invalidos',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ProveedoresIAService.update(id, validation.data);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Proveedor de IA no encontrado' },
+        { status: 404 }
+      );
+    }
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await logAudit(
+      'ai_provider.update',
+      session.user.id,
+      'ProveedorIA',
+      id,
+      `Provider: ${result.data.slug}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Proveedor de IA actualizado exitosamente',
+    });
+  } catch (error) {
+    logger.error('Error updating AI provider', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al actualizar el proveedor de IA' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/proveedores-ia/[id] - Delete a custom AI provider
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<void>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const { id } = await params;
+
+    const existing = await ProveedoresIAService.getById(id);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Proveedor de IA no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    await ProveedoresIAService.delete(id);
+
+    await logAudit(
+      'ai_provider.delete',
+      session.user.id,
+      'ProveedorIA',
+      id,
+      `Provider: ${existing.slug}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Proveedor de IA eliminado exitosamente',
+    });
+  } catch (error) {
+    logger.error('Error deleting AI provider', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al eliminar el proveedor de IA' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+import { ProveedoresIAService } from '@/lib/services/proveedores-ia-service';
+import { createProveedorIASchema } from '@/lib/validations/proveedor-ia';
+import { logAudit } from '@/lib/audit';
+import type { ProveedorIA } from '@/types/enrichment';
+import type { ApiResponse } from '@/types';
+
+// GET /api/admin/proveedores-ia - List custom AI providers
+export async function GET(): Promise<NextResponse<ApiResponse<ProveedorIA[]>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const proveedores = await ProveedoresIAService.getAll();
+
+    return NextResponse.json({
+      success: true,
+      data: proveedores,
+    });
+  } catch (error) {
+    logger.error('Error fetching AI providers', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener los proveedores de IA' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/proveedores-ia - Add an OpenAI-compatible AI provider
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ProveedorIA>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'API_KEYS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json();
+
+    const validation = createProveedorIASchema.safeParse(body);
+    if (!validation.success) {
+      const firstError = validation.error.issues?.[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: firstError?.message ?? 'Datos invalidos',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ProveedoresIAService.create(validation.data);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    await logAudit(
+      'ai_provider.create',
+      session.user.id,
+      'ProveedorIA',
+      result.data.id,
+      `Provider: ${result.data.slug} (${result.data.baseUrl})`
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: 'Proveedor de IA creado exitosamente',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error('Error creating AI provider', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al crear el proveedor de IA' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+import { logAudit } from '@/lib/audit';
+import { updateRolePermissionsSchema } from '@/lib/validations/role-permissions';
+import type { Permission, PermissionMatrix } from '@/lib/rbac';
+import type { ApiResponse } from '@/types';
+
+// GET /api/admin/roles - Get the effective role -> permission matrix
+export async function GET(): Promise<NextResponse<ApiResponse<PermissionMatrix>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'USERS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const matrix = await PermissionService.getMatrix();
+
+    return NextResponse.json({
+      success: true,
+      data: matrix,
+    });
+  } catch (error) {
+    logger.error('Error fetching role permissions', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener los permisos' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/roles - Replace the permissions of a role
+export async function PUT(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PermissionMatrix>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'USERS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validation = updateRolePermissionsSchema.safeParse(body);
+    if (!validation.success) {
+      const firstError = validation.error.issues?.[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: firstError?.message ?? 'Datos invalidos',
+        },
+        { status: 400 }
+      );
+    }
+
+    const { role, permissions } = validation.data;
+    const matrix = await PermissionService.updateRolePermissions(
+      role,
+      permissions as Permission[]
+    );
+
+    await logAudit(
+      'role_permissions.update',
+      session.user.id,
+      'RolePermission',
+      role,
+      `Permisos: ${permissions.join(', ') || 'ninguno'}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: matrix,
+      message: 'Permisos actualizados exitosamente',
+    });
+  } catch (error) {
+    logger.error('Error updating role permissions', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al actualizar los permisos' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/roles - Reset to the default matrix
+export async function POST(): Promise<NextResponse<ApiResponse<PermissionMatrix>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'USERS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const matrix = await PermissionService.resetToDefaults();
+
+    await logAudit('role_permissions.reset', session.user.id, 'RolePermission');
+
+    return NextResponse.json({
+      success: true,
+      data: matrix,
+      message: 'Permisos restaurados a valores por defecto',
+    });
+  } catch (error) {
+    logger.error('Error resetting role permissions', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al restaurar los permisos' },
+      { status: 500 }
+    );
+  }
+}
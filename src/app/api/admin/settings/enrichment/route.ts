@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
 import { logger } from '@/lib/logger';
-import { isAdmin } from '@/lib/rbac';
 import { SettingsService } from '@/lib/services/settings-service';
 import { enrichmentSettingsSchema } from '@/lib/validations/enrichment-settings';
 import type { EnrichmentSettings } from '@/types/enrichment';
@@ -12,13 +13,17 @@ export async function GET(): Promise<NextResponse<ApiResponse<EnrichmentSettings
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const settings = await SettingsService.getEnrichmentSettings();
 
     return NextResponse.json({
@@ -41,13 +46,17 @@ export async function PUT(
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const body = await request.json();
 
     // Validate input
@@ -84,13 +93,17 @@ export async function POST(): Promise<NextResponse<ApiResponse<EnrichmentSetting
   try {
     const session = await auth();
 
-    if (!session || !isAdmin(session.user.role)) {
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'No autorizado' },
         { status: 401 }
       );
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
     const settings = await SettingsService.resetEnrichmentSettings();
 
     return NextResponse.json({
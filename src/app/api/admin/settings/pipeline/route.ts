@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { PipelineService } from '@/lib/services/pipeline-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+import { logAudit } from '@/lib/audit';
+import { UpdatePipelineEtapasSchema } from '@/lib/validations/pipeline';
+import type { ApiResponse, EtapaPipeline } from '@/types';
+
+// GET /api/admin/settings/pipeline - Get the WIP limit of every pipeline stage
+export async function GET(): Promise<NextResponse<ApiResponse<EtapaPipeline[]>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const etapas = await PipelineService.getEtapas();
+
+    return NextResponse.json({
+      success: true,
+      data: etapas,
+    });
+  } catch (error) {
+    logger.error('Error fetching pipeline settings', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener la configuracion del pipeline' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/settings/pipeline - Update WIP limits
+export async function PUT(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<EtapaPipeline[]>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validation = UpdatePipelineEtapasSchema.safeParse(body);
+    if (!validation.success) {
+      const firstError = validation.error.issues?.[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: firstError?.message ?? 'Datos invalidos',
+        },
+        { status: 400 }
+      );
+    }
+
+    const etapas = await PipelineService.updateLimites(validation.data.limites);
+
+    await logAudit(
+      'pipeline.update',
+      session.user.id,
+      'PipelineEtapa',
+      undefined,
+      JSON.stringify(validation.data.limites)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: etapas,
+      message: 'Límites actualizados exitosamente',
+    });
+  } catch (error) {
+    logger.error('Error updating pipeline settings', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al actualizar la configuracion del pipeline' },
+      { status: 500 }
+    );
+  }
+}
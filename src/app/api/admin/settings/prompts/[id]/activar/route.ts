@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { PromptsIAService } from '@/lib/services/prompts-ia-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+import { logAudit } from '@/lib/audit';
+import type { ApiResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/admin/settings/prompts/[id]/activar - Roll back to a saved version of the prompts
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<{ id: string; numero: number }>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const { id } = await params;
+
+    const result = await PromptsIAService.activar(id);
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Versión de prompts no encontrada' },
+        { status: 404 }
+      );
+    }
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await logAudit(
+      'ai_prompts.rollback',
+      session.user.id,
+      'VersionPromptIA',
+      id,
+      `Version ${result.data.numero}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `Versión ${result.data.numero} restaurada`,
+    });
+  } catch (error) {
+    logger.error('Error rolling back AI prompts', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al restaurar la versión de los prompts' },
+      { status: 500 }
+    );
+  }
+}
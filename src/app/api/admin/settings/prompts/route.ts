@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { PromptsIAService } from '@/lib/services/prompts-ia-service';
+import { forbiddenResponse } from '@/lib/api-response';
+import { logger } from '@/lib/logger';
+import { logAudit } from '@/lib/audit';
+import { crearVersionPromptIASchema } from '@/lib/validations/prompt-ia';
+import type { ApiResponse } from '@/types';
+import type { VersionPromptIA } from '@/types/enrichment';
+
+// GET /api/admin/settings/prompts - Every version of the enrichment prompts, newest first
+export async function GET(): Promise<NextResponse<ApiResponse<VersionPromptIA[]>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const versiones = await PromptsIAService.listarVersiones();
+
+    return NextResponse.json({
+      success: true,
+      data: versiones.map((v) => ({ ...v, createdAt: v.createdAt.toISOString() })),
+    });
+  } catch (error) {
+    logger.error('Error fetching AI prompts', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener los prompts de IA' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/settings/prompts - Save the prompts as a new active version
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<VersionPromptIA>>> {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'SETTINGS_MANAGE'))) {
+      return forbiddenResponse();
+    }
+
+    const body = await request.json();
+
+    const validation = crearVersionPromptIASchema.safeParse(body);
+    if (!validation.success) {
+      const firstError = validation.error.issues?.[0];
+      return NextResponse.json(
+        {
+          success: false,
+          error: firstError?.message ?? 'Datos invalidos',
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await PromptsIAService.crearVersion(validation.data, session.user.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    await logAudit(
+      'ai_prompts.create',
+      session.user.id,
+      'VersionPromptIA',
+      result.data.id,
+      `Version ${result.data.numero}${result.data.nota ? `: ${result.data.nota}` : ''}`
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...result.data, createdAt: result.data.createdAt.toISOString() },
+        message: `Prompts guardados como versión ${result.data.numero}`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    logger.error('Error saving AI prompts', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: 'Error al guardar los prompts de IA' },
+      { status: 500 }
+    );
+  }
+}
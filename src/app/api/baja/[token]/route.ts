@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BajasService } from '@/lib/services/bajas-service'
+import { logger } from '@/lib/logger'
+import { notFoundResponse, serverErrorResponse } from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ token: string }>
+}
+
+// POST /api/baja/[token] - Darse de baja de los emails.
+// Called by mail clients from the List-Unsubscribe header (one-click, RFC 8058)
+// and by the form of the public /baja/[token] page.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params
+
+  try {
+    const form = await request.formData().catch(() => null)
+    const unClic = form?.get('List-Unsubscribe') === 'One-Click'
+
+    if (!(await BajasService.darDeBaja(token))) {
+      return notFoundResponse('Enlace')
+    }
+
+    if (unClic) {
+      return new NextResponse(null, { status: 200 })
+    }
+
+    return NextResponse.redirect(new URL(`/baja/${token}?listo=1`, request.url), 303)
+  } catch (error) {
+    logger.error('Error processing unsubscribe', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse()
+  }
+}
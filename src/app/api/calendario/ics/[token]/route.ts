@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { CalendarioService } from '@/lib/services/calendario-service'
+import { getBaseUrl } from '@/lib/env'
+import { logger } from '@/lib/logger'
+import { notFoundResponse, serverErrorResponse } from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ token: string }>
+}
+
+// GET /api/calendario/ics/[token] - Feed iCalendar para suscribirse desde el teléfono.
+// Calendar apps can't log in: the secret token in the URL is the only credential.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params
+
+    const ics = await CalendarioService.generarFeed(token.replace(/\.ics$/, ''), getBaseUrl())
+
+    if (!ics) {
+      return notFoundResponse('Calendario')
+    }
+
+    return new Response(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="crm.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+
+  } catch (error) {
+    logger.error('Error generating calendar feed', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { CalendarioService } from '@/lib/services/calendario-service'
+import { CalendarioFiltersSchema } from '@/lib/validations/calendario'
+import { logger } from '@/lib/logger'
+import { FILTRO_ASIGNADO } from '@/lib/constants'
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from '@/lib/api-response'
+
+// GET /api/calendario - Reuniones, llamadas y tareas de un rango de fechas
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_VIEW'))) {
+      return forbiddenResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const validationResult = CalendarioFiltersSchema.safeParse({
+      desde: searchParams.get('desde') || undefined,
+      hasta: searchParams.get('hasta') || undefined,
+      usuario: searchParams.get('usuario') || undefined,
+    })
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    // Like the task inboxes, other people's calendars need the assign permission
+    const { desde, hasta, usuario } = validationResult.data
+    const esPropio = !usuario || usuario === FILTRO_ASIGNADO.MIOS || usuario === session.user.id
+    if (!esPropio && !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))) {
+      return forbiddenResponse()
+    }
+
+    const eventos = await CalendarioService.getEventos({
+      desde,
+      hasta,
+      usuarioId: esPropio ? session.user.id : usuario === FILTRO_ASIGNADO.TODOS ? null : usuario,
+    })
+
+    return successResponse(eventos)
+
+  } catch (error) {
+    logger.error('Error fetching calendar', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
@@ -0,0 +1,63 @@
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { CalendarioService } from '@/lib/services/calendario-service'
+import { getBaseUrl } from '@/lib/env'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from '@/lib/api-response'
+
+const urlFeed = (token: string) => `${getBaseUrl()}/api/calendario/ics/${token}.ics`
+
+// GET /api/calendario/suscripcion - URL secreta del feed iCalendar del usuario
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_VIEW'))) {
+      return forbiddenResponse()
+    }
+
+    const token = await CalendarioService.getToken(session.user.id)
+
+    return successResponse({ url: urlFeed(token) })
+
+  } catch (error) {
+    logger.error('Error fetching calendar feed URL', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
+
+// POST /api/calendario/suscripcion - Regenerar la URL (invalida la anterior)
+export async function POST() {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_VIEW'))) {
+      return forbiddenResponse()
+    }
+
+    const token = await CalendarioService.regenerarToken(session.user.id)
+
+    logger.info('Calendar feed token regenerated', { userId: session.user.id })
+
+    return successResponse({ url: urlFeed(token) }, {
+      message: 'Se generó una nueva URL; la anterior dejó de funcionar'
+    })
+
+  } catch (error) {
+    logger.error('Error regenerating calendar feed URL', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { WebsiteAnalysisService } from '@/lib/services/website-analysis-service';
@@ -22,6 +24,10 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_RUN'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await context.params;
 
     // Get client
@@ -143,6 +149,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_VIEW'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await context.params;
 
     // Get existing analysis
@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { ContactosService } from '@/lib/services/contactos-service'
+import { UpdateContactoClienteSchema } from '@/lib/validations/contacto'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ id: string; contactoId: string }>
+}
+
+// PUT /api/clientes/[id]/contactos/[contactoId] - Actualizar persona de contacto
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'))) {
+      return forbiddenResponse()
+    }
+
+    const { id, contactoId } = await params
+    const body = await request.json()
+
+    const validationResult = UpdateContactoClienteSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const contacto = await ContactosService.actualizar(id, contactoId, validationResult.data)
+
+    if (!contacto) {
+      return notFoundResponse('Contacto')
+    }
+
+    return successResponse(contacto, {
+      message: 'Contacto actualizado exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error updating client contact', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
+
+// DELETE /api/clientes/[id]/contactos/[contactoId] - Eliminar persona de contacto
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'))) {
+      return forbiddenResponse()
+    }
+
+    const { id, contactoId } = await params
+    const eliminado = await ContactosService.eliminar(id, contactoId)
+
+    if (!eliminado) {
+      return notFoundResponse('Contacto')
+    }
+
+    return successResponse(null, {
+      message: 'Contacto eliminado exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error deleting client contact', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { ContactosService } from '@/lib/services/contactos-service'
+import { CreateContactoClienteSchema } from '@/lib/validations/contacto'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/clientes/[id]/contactos - Personas de contacto del cliente
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_VIEW'))) {
+      return forbiddenResponse()
+    }
+
+    const { id } = await params
+    const contactos = await ContactosService.listar(id)
+
+    return successResponse(contactos)
+
+  } catch (error) {
+    logger.error('Error fetching client contacts', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
+
+// POST /api/clientes/[id]/contactos - Agregar persona de contacto
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'))) {
+      return forbiddenResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validationResult = CreateContactoClienteSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const cliente = await prisma.cliente.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true },
+    })
+
+    if (!cliente) {
+      return notFoundResponse('Cliente')
+    }
+
+    const contacto = await ContactosService.crear(id, validationResult.data)
+
+    return successResponse(contacto, {
+      status: 201,
+      message: 'Contacto agregado exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error creating client contact', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
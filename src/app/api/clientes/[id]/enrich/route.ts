@@ -1,12 +1,15 @@
 /**
  * Client Enrichment API Endpoint
- * POST /api/clientes/[id]/enrich - Launch enrichment (AI or Web)
+ * POST /api/clientes/[id]/enrich - Launch enrichment (AI or Web); streams its progress
+ *   as Server-Sent Events when requested with Accept: text/event-stream
  * GET /api/clientes/[id]/enrich - Get enrichment state, history, and website analysis
  * PATCH /api/clientes/[id]/enrich - Confirm/reject/edit fields
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { forbiddenResponse } from '@/lib/api-response';
 import { prisma } from '@/lib/prisma';
 import { logger } from '@/lib/logger';
 import { ConsensusService, type EnrichmentResult } from '@/lib/services/consensus-service';
@@ -16,9 +19,11 @@ import { EnrichmentPostProcessor } from '@/lib/services/enrichment-post-processo
 import { BulkEnrichmentService } from '@/lib/services/bulk-enrichment-service';
 import { WebsiteAnalysisService } from '@/lib/services/website-analysis-service';
 
+import type { Cliente } from '@prisma/client';
 import type { ClientContext } from '@/lib/services/enrichment-prompts';
-import type { EnrichmentMode, FieldReviewStatus, ReviewableField } from '@/types/enrichment';
-import { enrichmentPostSchema, enrichmentPatchSchema } from '@/lib/validations/enrichment';
+import type { EnrichmentMode, EnrichmentProgressCallback, FieldReviewStatus, ReviewableField } from '@/types/enrichment';
+import { enrichmentPostSchema, enrichmentPatchSchema, type EnrichmentPostInput } from '@/lib/validations/enrichment';
+import { aceptaEventos, respuestaEventos } from '@/lib/sse';
 import { ENRICHMENT } from '@/lib/constants';
 
 interface RouteContext {
@@ -36,6 +41,10 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_RUN'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await context.params;
 
     logger.info('[Enrich API] Starting enrichment request', {
@@ -124,276 +133,326 @@ export async function POST(request: NextRequest, context: RouteContext) {
       }
     }
 
-    // Handle AI enrichment mode
-    if (mode === 'ai') {
-      const clientContext: ClientContext = {
-        nombre: cliente.nombre,
-        email: cliente.email,
-        telefono: cliente.telefono,
-        direccion: cliente.direccion,
-        ciudad: cliente.ciudad,
-        industria: cliente.industria,
-        sitioWeb: cliente.sitioWeb,
-        notas: cliente.notas,
-      };
-
-      // Run enrichment
-      let result: EnrichmentResult | Partial<EnrichmentResult>;
-
-      if (options.quick) {
-        result = await ConsensusService.quickEnrich(clientContext);
-      } else {
-        result = await ConsensusService.enrichClient(clientContext, options.fields);
-      }
-
-      // If we found a website, verify it
-      if (result.website?.value) {
-        const verification = await UrlVerificationService.verifyUrl(
-          result.website.value,
-          cliente.nombre
-        );
-
-        if (verification.isAccessible) {
-          result.website = {
-            ...result.website,
-            value: verification.url,
-            score: Math.min(
-              (result.website.score + (verification.confidence ?? 0.5)) / 2 * 1.1,
-              1.0
-            ),
-          };
-        }
-      }
-
-      // Validate social network URLs from socialProfiles object
-      if (result.socialProfiles?.value && typeof result.socialProfiles.value === 'object') {
-        const socialValidation = await SocialUrlValidatorService.validateSocialUrls(
-          result.socialProfiles.value as Record<string, string>
-        );
+    if (mode !== 'ai' && mode !== 'web') {
+      return NextResponse.json(
+        { error: 'Modo invalido. Usar "ai" o "web"' },
+        { status: 400 }
+      );
+    }
 
-        // Keep only accessible URLs
-        if (Object.keys(socialValidation.validatedProfiles).length > 0) {
-          result.socialProfiles = {
-            ...result.socialProfiles,
-            value: socialValidation.validatedProfiles,
-          };
-        } else {
-          // No valid URLs found - remove the field entirely
-          result.socialProfiles = undefined;
-        }
+    const websiteUrl = cliente.sitioWeb;
+    if (mode === 'web' && !websiteUrl) {
+      return NextResponse.json(
+        { error: 'El cliente no tiene sitio web configurado' },
+        { status: 400 }
+      );
+    }
 
-        logger.info('[Enrich API] Social profiles validation complete', {
-          clienteId: id,
-          totalUrls: socialValidation.totalCount,
-          accessibleUrls: socialValidation.accessibleCount,
-          removedUrls: socialValidation.totalCount - socialValidation.accessibleCount,
-        });
-      }
+    const userId = session.user.id;
+    const run = (onProgress?: EnrichmentProgressCallback) =>
+      mode === 'web' && websiteUrl
+        ? runWebAnalysis(cliente, websiteUrl, userId, onProgress)
+        : runAIEnrichment(cliente, options, userId, onProgress);
+    const cooldown = {
+      cooldownWarning,
+      hoursAgo: hoursAgo !== null ? Math.round(hoursAgo * 10) / 10 : null,
+    };
 
-      // Validate individual social_* fields
-      const socialFields = [
-        'social_facebook',
-        'social_instagram',
-        'social_linkedin',
-        'social_twitter',
-        'social_whatsapp',
-        'social_youtube',
-        'social_tiktok',
-      ] as const;
-
-      const fieldsToValidate: Record<string, { value?: string | null }> = {};
-      for (const fieldName of socialFields) {
-        const field = result[fieldName as keyof typeof result] as { value?: string | null } | undefined;
-        if (field?.value) {
-          fieldsToValidate[fieldName] = field;
+    // Live progress (EnrichmentModal): "progress" events, then the same
+    // payload as the JSON response in a "done" event, or an "error" event
+    if (aceptaEventos(request)) {
+      return respuestaEventos(async (enviar) => {
+        try {
+          const payload = await run((event) => enviar('progress', event));
+          enviar('done', { success: true, ...payload, ...cooldown });
+        } catch (error) {
+          logger.error('[Enrich API] Request failed', error instanceof Error ? error : new Error(String(error)), {
+            elapsed: Date.now() - startTime,
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          });
+          enviar('error', { error: 'Error en enriquecimiento' });
         }
-      }
-
-      if (Object.keys(fieldsToValidate).length > 0) {
-        const individualValidation = await SocialUrlValidatorService.validateIndividualSocialFields(
-          fieldsToValidate
-        );
+      });
+    }
 
-        // Update or remove fields based on validation results
-        for (const fieldName of socialFields) {
-          const validatedUrl = individualValidation[fieldName];
-          if (validatedUrl === null) {
-            // URL was not accessible - remove the field
-            (result as Record<string, unknown>)[fieldName] = undefined;
-          } else if (validatedUrl) {
-            // URL was accessible - update with validated URL
-            const existingField = result[fieldName as keyof typeof result] as { value?: string; score?: number } | undefined;
-            if (existingField) {
-              (result as Record<string, unknown>)[fieldName] = {
-                ...existingField,
-                value: validatedUrl,
-              };
-            }
-          }
-        }
-      }
+    const payload = await run();
+    return NextResponse.json({ success: true, ...payload, ...cooldown });
+  } catch (error) {
+    const elapsed = Date.now() - startTime;
+    logger.error('[Enrich API] Request failed', error instanceof Error ? error : new Error(String(error)), {
+      elapsed,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return NextResponse.json(
+      { error: 'Error en enriquecimiento' },
+      { status: 500 }
+    );
+  }
+}
 
-      // Post-process with external APIs if requested
-      let externalDataUsed: string[] = [];
-      let externalErrors: string[] = [];
-
-      if (options.useExternalApis) {
-        const postProcessResult = await EnrichmentPostProcessor.process(
-          result as EnrichmentResult,
-          {
-            companyName: cliente.nombre,
-            location: cliente.ciudad || cliente.provincia || undefined,
-            verifyEmails: options.verifyEmails,
-            searchGoogleMaps: options.searchGoogleMaps,
-          }
-        );
+/**
+ * AI enrichment: providers, URL and social validation, optional external APIs.
+ * Saves the result as a new enrichment pending review.
+ */
+async function runAIEnrichment(
+  cliente: Cliente,
+  options: EnrichmentPostInput,
+  userId: string,
+  onProgress?: EnrichmentProgressCallback
+) {
+  const clientContext: ClientContext = {
+    nombre: cliente.nombre,
+    email: cliente.email,
+    telefono: cliente.telefono,
+    direccion: cliente.direccion,
+    ciudad: cliente.ciudad,
+    industria: cliente.industria,
+    sitioWeb: cliente.sitioWeb,
+    notas: cliente.notas,
+  };
+
+  // Run enrichment; AI spend is charged to this user and client
+  const attribution = { userId, clienteId: cliente.id };
+  let result: EnrichmentResult | Partial<EnrichmentResult>;
+
+  if (options.quick) {
+    result = await ConsensusService.quickEnrich(clientContext, undefined, onProgress, attribution);
+  } else {
+    result = await ConsensusService.enrichClient(clientContext, options.fields, onProgress, attribution);
+  }
 
-        result = postProcessResult.enhancedResult;
-        externalDataUsed = postProcessResult.externalDataUsed;
-        externalErrors = postProcessResult.errors;
-      }
+  // If we found a website, verify it
+  if (result.website?.value) {
+    onProgress?.({ type: 'step', step: 'website-verification' });
+    const verification = await UrlVerificationService.verifyUrl(
+      result.website.value,
+      cliente.nombre,
+      attribution
+    );
 
-      // Save enrichment results as NEW record (1:N history)
-      const enrichmentData = {
-        website: result.website?.value ?? null,
-        websiteScore: result.website?.score ?? null,
-        emails: result.emails?.value ? JSON.stringify(result.emails.value) : null,
-        phones: result.phones?.value ? JSON.stringify(result.phones.value) : null,
-        address: result.address?.value ?? null,
-        addressScore: result.address?.score ?? null,
-        description: result.description?.value ?? null,
-        descriptionScore: result.description?.score ?? null,
-        industry: result.industry?.value ?? null,
-        industryScore: result.industry?.score ?? null,
-        companySize: result.companySize?.value ?? null,
-        companySizeScore: result.companySize?.score ?? null,
-        socialProfiles: result.socialProfiles?.value
-          ? JSON.stringify(result.socialProfiles.value)
-          : null,
-        aiProvidersUsed: result.providersUsed
-          ? JSON.stringify(result.providersUsed)
-          : null,
-        enrichedAt: new Date(),
-        status: 'PENDING',
-        reviewedAt: null,
-        reviewedBy: null,
+    if (verification.isAccessible) {
+      result.website = {
+        ...result.website,
+        value: verification.url,
+        score: Math.min(
+          (result.website.score + (verification.confidence ?? 0.5)) / 2 * 1.1,
+          1.0
+        ),
       };
+    }
+  }
 
-      const fieldStatuses = BulkEnrichmentService.buildFieldStatuses(enrichmentData);
-      const enrichmentDataWithFieldStatuses = {
-        ...enrichmentData,
-        fieldStatuses: JSON.stringify(fieldStatuses),
-      };
+  // Validate social network URLs from socialProfiles object
+  if (result.socialProfiles?.value && typeof result.socialProfiles.value === 'object') {
+    onProgress?.({ type: 'step', step: 'social-validation' });
+    const socialValidation = await SocialUrlValidatorService.validateSocialUrls(
+      result.socialProfiles.value as Record<string, string>
+    );
 
-      // Create new record (not upsert)
-      const savedEnrichment = await prisma.clienteEnrichment.create({
-        data: {
-          clienteId: id,
-          ...enrichmentDataWithFieldStatuses,
-        },
-      });
+    // Keep only accessible URLs
+    if (Object.keys(socialValidation.validatedProfiles).length > 0) {
+      result.socialProfiles = {
+        ...result.socialProfiles,
+        value: socialValidation.validatedProfiles,
+      };
+    } else {
+      // No valid URLs found - remove the field entirely
+      result.socialProfiles = undefined;
+    }
 
-      // Update enrichmentStatus and ultimaIA on Cliente
-      await prisma.cliente.update({
-        where: { id },
-        data: { enrichmentStatus: 'PENDING', ultimaIA: new Date() },
-      });
+    logger.info('[Enrich API] Social profiles validation complete', {
+      clienteId: cliente.id,
+      totalUrls: socialValidation.totalCount,
+      accessibleUrls: socialValidation.accessibleCount,
+      removedUrls: socialValidation.totalCount - socialValidation.accessibleCount,
+    });
+  }
 
-      // Log activity
-      const externalApisInfo = externalDataUsed.length > 0
-        ? ` | APIs externas: ${externalDataUsed.join(', ')}`
-        : '';
+  // Validate individual social_* fields
+  const socialFields = [
+    'social_facebook',
+    'social_instagram',
+    'social_linkedin',
+    'social_twitter',
+    'social_whatsapp',
+    'social_youtube',
+    'social_tiktok',
+  ] as const;
+
+  const fieldsToValidate: Record<string, { value?: string | null }> = {};
+  for (const fieldName of socialFields) {
+    const field = result[fieldName as keyof typeof result] as { value?: string | null } | undefined;
+    if (field?.value) {
+      fieldsToValidate[fieldName] = field;
+    }
+  }
 
-      if (session.user.id) {
-        try {
-          const userExists = await prisma.user.findUnique({
-            where: { id: session.user.id },
-            select: { id: true },
-          });
+  if (Object.keys(fieldsToValidate).length > 0) {
+    onProgress?.({ type: 'step', step: 'social-validation' });
+    const individualValidation = await SocialUrlValidatorService.validateIndividualSocialFields(
+      fieldsToValidate
+    );
 
-          if (userExists) {
-            await prisma.actividad.create({
-              data: {
-                tipo: 'IA_ENRIQUECIMIENTO',
-                descripcion: `Enriquecimiento IA completado. Providers: ${result.providersUsed?.join(', ') || 'ninguno'}${externalApisInfo}`,
-                clienteId: id,
-                usuarioId: session.user.id,
-              },
-            });
-          }
-        } catch (activityError) {
-          logger.warn('[Enrich API] Could not log activity', { error: activityError instanceof Error ? activityError.message : String(activityError) });
+    // Update or remove fields based on validation results
+    for (const fieldName of socialFields) {
+      const validatedUrl = individualValidation[fieldName];
+      if (validatedUrl === null) {
+        // URL was not accessible - remove the field
+        (result as Record<string, unknown>)[fieldName] = undefined;
+      } else if (validatedUrl) {
+        // URL was accessible - update with validated URL
+        const existingField = result[fieldName as keyof typeof result] as { value?: string; score?: number } | undefined;
+        if (existingField) {
+          (result as Record<string, unknown>)[fieldName] = {
+            ...existingField,
+            value: validatedUrl,
+          };
         }
       }
-
-      const allErrors = [...((result as EnrichmentResult).errors || []), ...externalErrors.map(e => ({ provider: 'external' as const, error: e }))];
-
-      return NextResponse.json({
-        success: true,
-        enrichment: savedEnrichment,
-        result,
-        externalDataUsed,
-        errors: allErrors,
-        cooldownWarning,
-        hoursAgo: hoursAgo !== null ? Math.round(hoursAgo * 10) / 10 : null,
-      });
     }
+  }
 
-    // Handle Web analysis mode
-    if (mode === 'web') {
-      if (!cliente.sitioWeb) {
-        return NextResponse.json(
-          { error: 'El cliente no tiene sitio web configurado' },
-          { status: 400 }
-        );
+  // Post-process with external APIs if requested
+  let externalDataUsed: string[] = [];
+  let externalErrors: string[] = [];
+
+  if (options.useExternalApis) {
+    onProgress?.({ type: 'step', step: 'external-apis' });
+    const postProcessResult = await EnrichmentPostProcessor.process(
+      result as EnrichmentResult,
+      {
+        companyName: cliente.nombre,
+        location: cliente.ciudad || cliente.provincia || undefined,
+        verifyEmails: options.verifyEmails,
+        searchGoogleMaps: options.searchGoogleMaps,
+        onProgress,
       }
+    );
+
+    result = postProcessResult.enhancedResult;
+    externalDataUsed = postProcessResult.externalDataUsed;
+    externalErrors = postProcessResult.errors;
+  }
 
-      // Run full website analysis (settings determine which analyses are enabled)
-      const analysisResult = await WebsiteAnalysisService.analyzeWebsite({
-        clienteId: id,
-        url: cliente.sitioWeb,
-        // All options use defaults from SettingsService
+  // Save enrichment results as NEW record (1:N history)
+  onProgress?.({ type: 'step', step: 'saving' });
+  const enrichmentData = {
+    website: result.website?.value ?? null,
+    websiteScore: result.website?.score ?? null,
+    emails: result.emails?.value ? JSON.stringify(result.emails.value) : null,
+    phones: result.phones?.value ? JSON.stringify(result.phones.value) : null,
+    address: result.address?.value ?? null,
+    addressScore: result.address?.score ?? null,
+    description: result.description?.value ?? null,
+    descriptionScore: result.description?.score ?? null,
+    industry: result.industry?.value ?? null,
+    industryScore: result.industry?.score ?? null,
+    companySize: result.companySize?.value ?? null,
+    companySizeScore: result.companySize?.score ?? null,
+    socialProfiles: result.socialProfiles?.value
+      ? JSON.stringify(result.socialProfiles.value)
+      : null,
+    aiProvidersUsed: result.providersUsed
+      ? JSON.stringify(result.providersUsed)
+      : null,
+    enrichedAt: new Date(),
+    status: 'PENDING',
+    reviewedAt: null,
+    reviewedBy: null,
+  };
+
+  const fieldStatuses = BulkEnrichmentService.buildFieldStatuses(enrichmentData);
+  const enrichmentDataWithFieldStatuses = {
+    ...enrichmentData,
+    fieldStatuses: JSON.stringify(fieldStatuses),
+  };
+
+  // Create new record (not upsert)
+  const savedEnrichment = await prisma.clienteEnrichment.create({
+    data: {
+      clienteId: cliente.id,
+      ...enrichmentDataWithFieldStatuses,
+      promptVersionId: result.promptVersionId ?? null,
+    },
+  });
+
+  // Update enrichmentStatus and ultimaIA on Cliente
+  await prisma.cliente.update({
+    where: { id: cliente.id },
+    data: { enrichmentStatus: 'PENDING', ultimaIA: new Date() },
+  });
+
+  // Log activity
+  const externalApisInfo = externalDataUsed.length > 0
+    ? ` | APIs externas: ${externalDataUsed.join(', ')}`
+    : '';
+
+  if (userId) {
+    try {
+      const userExists = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true },
       });
 
-      // Log activity
-      if (session.user.id) {
-        try {
-          await prisma.actividad.create({
-            data: {
-              tipo: 'IA_ENRIQUECIMIENTO',
-              descripcion: `Analisis web completado para ${cliente.sitioWeb}`,
-              clienteId: id,
-              usuarioId: session.user.id,
-            },
-          });
-        } catch {
-          // Non-critical
-        }
+      if (userExists) {
+        await prisma.actividad.create({
+          data: {
+            tipo: 'IA_ENRIQUECIMIENTO',
+            descripcion: `Enriquecimiento IA completado. Providers: ${result.providersUsed?.join(', ') || 'ninguno'}${externalApisInfo}`,
+            clienteId: cliente.id,
+            usuarioId: userId,
+          },
+        });
       }
+    } catch (activityError) {
+      logger.warn('[Enrich API] Could not log activity', { error: activityError instanceof Error ? activityError.message : String(activityError) });
+    }
+  }
+
+  const allErrors = [...((result as EnrichmentResult).errors || []), ...externalErrors.map(e => ({ provider: 'external' as const, error: e }))];
+
+  return {
+    enrichment: savedEnrichment,
+    result,
+    externalDataUsed,
+    errors: allErrors,
+  };
+}
 
-      return NextResponse.json({
-        success: true,
-        websiteAnalysis: analysisResult,
-        cooldownWarning,
-        hoursAgo: hoursAgo !== null ? Math.round(hoursAgo * 10) / 10 : null,
+/**
+ * Full website analysis (settings determine which analyses are enabled)
+ */
+async function runWebAnalysis(
+  cliente: Cliente,
+  url: string,
+  userId: string,
+  onProgress?: EnrichmentProgressCallback
+) {
+  onProgress?.({ type: 'step', step: 'website-analysis' });
+  const analysisResult = await WebsiteAnalysisService.analyzeWebsite({
+    clienteId: cliente.id,
+    url,
+    // All options use defaults from SettingsService
+    onProgress,
+  });
+
+  // Log activity
+  if (userId) {
+    try {
+      await prisma.actividad.create({
+        data: {
+          tipo: 'IA_ENRIQUECIMIENTO',
+          descripcion: `Analisis web completado para ${url}`,
+          clienteId: cliente.id,
+          usuarioId: userId,
+        },
       });
+    } catch {
+      // Non-critical
     }
-
-    return NextResponse.json(
-      { error: 'Modo invalido. Usar "ai" o "web"' },
-      { status: 400 }
-    );
-  } catch (error) {
-    const elapsed = Date.now() - startTime;
-    logger.error('[Enrich API] Request failed', error instanceof Error ? error : new Error(String(error)), {
-      elapsed,
-      errorMessage: error instanceof Error ? error.message : 'Unknown error',
-    });
-    return NextResponse.json(
-      { error: 'Error en enriquecimiento' },
-      { status: 500 }
-    );
   }
+
+  return { websiteAnalysis: analysisResult };
 }
 
 export async function GET(request: NextRequest, context: RouteContext) {
@@ -404,6 +463,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_VIEW'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await context.params;
 
     // Get client with enrichmentStatus and current field values
@@ -451,6 +514,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         aiProvidersUsed: true,
         fieldStatuses: true,
         status: true,
+        promptVersion: { select: { numero: true } },
       },
     });
 
@@ -479,6 +543,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         fieldsConfirmed: statusValues.filter((s) => s === 'CONFIRMED').length,
         fieldsRejected: statusValues.filter((s) => s === 'REJECTED').length,
         status: e.status,
+        promptVersion: e.promptVersion?.numero ?? null,
       };
     });
 
@@ -546,6 +611,10 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'ENRICHMENT_RUN'))) {
+      return forbiddenResponse();
+    }
+
     const { id } = await context.params;
     const body = await request.json();
 
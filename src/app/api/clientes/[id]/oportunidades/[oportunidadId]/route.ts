@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { OportunidadesService } from '@/lib/services/oportunidades-service'
+import { UpdateOportunidadSchema } from '@/lib/validations/oportunidad'
+import { registrarCambioEtapaOportunidad } from '@/lib/actividades-automaticas'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  errorResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ id: string; oportunidadId: string }>
+}
+
+// PUT /api/clientes/[id]/oportunidades/[oportunidadId] - Actualizar oportunidad
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'))) {
+      return forbiddenResponse()
+    }
+
+    const { id, oportunidadId } = await params
+    const body = await request.json()
+
+    const validationResult = UpdateOportunidadSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const result = await OportunidadesService.actualizar(id, oportunidadId, validationResult.data)
+
+    if (!result) {
+      return notFoundResponse('Oportunidad')
+    }
+
+    if (!result.success) {
+      return errorResponse(result.error, { status: 400, code: 'VALIDATION_ERROR' })
+    }
+
+    const { oportunidad, etapaAnterior } = result.data
+
+    if (oportunidad.etapa !== etapaAnterior) {
+      await registrarCambioEtapaOportunidad(
+        id,
+        session.user.id,
+        oportunidad,
+        etapaAnterior,
+        oportunidad.etapa,
+        oportunidad.motivoCierre
+      )
+    }
+
+    return successResponse(oportunidad, {
+      message: 'Oportunidad actualizada exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error updating opportunity', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
+
+// DELETE /api/clientes/[id]/oportunidades/[oportunidadId] - Eliminar oportunidad
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'))) {
+      return forbiddenResponse()
+    }
+
+    const { id, oportunidadId } = await params
+    const eliminado = await OportunidadesService.eliminar(id, oportunidadId)
+
+    if (!eliminado) {
+      return notFoundResponse('Oportunidad')
+    }
+
+    return successResponse(null, {
+      message: 'Oportunidad eliminada exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error deleting opportunity', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { OportunidadesService } from '@/lib/services/oportunidades-service'
+import { CreateOportunidadSchema } from '@/lib/validations/oportunidad'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  errorResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/clientes/[id]/oportunidades - Oportunidades del cliente
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_VIEW'))) {
+      return forbiddenResponse()
+    }
+
+    const { id } = await params
+    const oportunidades = await OportunidadesService.listar(id)
+
+    return successResponse(oportunidades)
+
+  } catch (error) {
+    logger.error('Error fetching client opportunities', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
+
+// POST /api/clientes/[id]/oportunidades - Crear oportunidad
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'))) {
+      return forbiddenResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validationResult = CreateOportunidadSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const cliente = await prisma.cliente.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true },
+    })
+
+    if (!cliente) {
+      return notFoundResponse('Cliente')
+    }
+
+    const result = await OportunidadesService.crear(id, session.user.id, validationResult.data)
+
+    if (!result.success) {
+      return errorResponse(result.error, { status: 400, code: 'VALIDATION_ERROR' })
+    }
+
+    logger.info('Opportunity created', { oportunidadId: result.data.id, clienteId: id })
+
+    return successResponse(result.data, {
+      status: 201,
+      message: 'Oportunidad creada exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error creating opportunity', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
@@ -1,20 +1,26 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { AsignacionService } from '@/lib/services/asignacion-service'
+import { SecuenciasService } from '@/lib/services/secuencias-service'
 import { logger } from '@/lib/logger'
 import { UpdateClienteDTOSchema } from '@/lib/validations/cliente'
 import {
   successResponse,
+  errorResponse,
   validationErrorResponse,
   serverErrorResponse,
   unauthorizedResponse,
   notFoundResponse,
   handlePrismaError,
+  forbiddenResponse,
 } from '@/lib/api-response'
 import {
   registrarClienteEditado,
   registrarCambioEstado,
   registrarCambioPrioridad,
+  registrarCambioAgente,
 } from '@/lib/actividades-automaticas'
 
 // GET /api/clientes/[id] - Obtener cliente por ID
@@ -23,10 +29,26 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_VIEW'))) {
+      return forbiddenResponse()
+    }
+
     const { id } = await params;
     const cliente = await prisma.cliente.findUnique({
       where: { id, deletedAt: null },
       include: {
+        asignadoA: {
+          select: { id: true, name: true, email: true }
+        },
+        colaboradores: {
+          select: { id: true, name: true, email: true }
+        },
         actividades: {
           where: { deletedAt: null },
           orderBy: { fecha: 'desc' },
@@ -66,6 +88,10 @@ export async function PUT(
       return unauthorizedResponse()
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'))) {
+      return forbiddenResponse()
+    }
+
     const { id } = await params;
     const body = await request.json()
 
@@ -75,17 +101,40 @@ export async function PUT(
       return validationErrorResponse(validationResult.error)
     }
 
-    const data = validationResult.data
+    const { asignadoAId, colaboradorIds, ...data } = validationResult.data
 
     // Verify client exists
     const clienteExistente = await prisma.cliente.findUnique({
       where: { id },
+      include: {
+        asignadoA: { select: { name: true, email: true } },
+        colaboradores: { select: { id: true } },
+      },
     })
 
     if (!clienteExistente) {
       return notFoundResponse('Cliente')
     }
 
+    // Ownership changes need their own permission
+    const cambiaAsignado = asignadoAId !== undefined && asignadoAId !== clienteExistente.asignadoAId
+    const colaboradoresActuales = clienteExistente.colaboradores.map(c => c.id).sort()
+    const cambianColaboradores = colaboradorIds !== undefined &&
+      [...new Set(colaboradorIds)].sort().join(',') !== colaboradoresActuales.join(',')
+
+    if ((cambiaAsignado || cambianColaboradores) &&
+        !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))) {
+      return forbiddenResponse('No tienes permisos para asignar clientes')
+    }
+
+    const usuarios = await AsignacionService.resolverUsuarios([
+      ...(cambiaAsignado && asignadoAId ? [asignadoAId] : []),
+      ...(cambianColaboradores ? colaboradorIds! : []),
+    ])
+    if (!usuarios) {
+      return errorResponse('Usuario asignado no encontrado', { status: 400 })
+    }
+
     // Detect specific changes for logging
     const cambiosDetectados: string[] = [];
     const cambiosEspeciales: Array<() => Promise<void>> = [];
@@ -116,11 +165,29 @@ export async function PUT(
       );
     }
 
+    // Detect owner change
+    if (cambiaAsignado) {
+      cambiosEspeciales.push(() =>
+        registrarCambioAgente(
+          id,
+          session.user.id,
+          clienteExistente.nombre,
+          AsignacionService.nombreUsuario(clienteExistente.asignadoA),
+          AsignacionService.nombreUsuario(asignadoAId ? usuarios.get(asignadoAId) : null)
+        )
+      );
+    }
+
+    if (cambianColaboradores) {
+      cambiosDetectados.push('colaboradores');
+    }
+
     // Detect other general changes - using typed approach
     const fieldsToCheck = [
       'nombre', 'email', 'telefono', 'whatsapp', 'instagram', 'facebook',
       'linkedin', 'twitter', 'direccion', 'ciudad', 'provincia', 'codigoPostal',
-      'industria', 'sitioWeb', 'tieneSSL', 'esResponsive', 'fuente', 'notas'
+      'industria', 'sitioWeb', 'tieneSSL', 'esResponsive', 'fuente', 'notas',
+      'consentimientoEmail', 'consentimientoWhatsApp'
     ] as const;
 
     fieldsToCheck.forEach(key => {
@@ -133,14 +200,30 @@ export async function PUT(
       }
     });
 
+    const cambiaConsentimiento =
+      (data.consentimientoEmail !== undefined && data.consentimientoEmail !== clienteExistente.consentimientoEmail) ||
+      (data.consentimientoWhatsApp !== undefined && data.consentimientoWhatsApp !== clienteExistente.consentimientoWhatsApp)
+
     const cliente = await prisma.cliente.update({
       where: { id },
       data: {
         ...data,
+        ...(cambiaAsignado && { asignadoAId }),
+        // A new address has not bounced yet
+        ...(data.email !== undefined && data.email !== clienteExistente.email && { emailInvalido: false }),
+        ...(cambiaConsentimiento && { consentimientoActualizadoEn: new Date() }),
+        ...(cambianColaboradores && {
+          colaboradores: { set: colaboradorIds!.map(colaboradorId => ({ id: colaboradorId })) },
+        }),
         fechaModific: new Date(),
       },
     })
 
+    // Engaged clients leave their outreach sequences
+    if (data.estado && data.estado !== clienteExistente.estado) {
+      await SecuenciasService.detenerPorCambioEstado([id], data.estado)
+    }
+
     // Execute specific change logging
     for (const logFunction of cambiosEspeciales) {
       await logFunction();
@@ -180,6 +263,10 @@ export async function DELETE(
       return unauthorizedResponse()
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_DELETE'))) {
+      return forbiddenResponse()
+    }
+
     const { id } = await params;
 
     // Verify client exists and is not already deleted
@@ -2,6 +2,9 @@ import { NextRequest } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
 import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { AsignacionService } from '@/lib/services/asignacion-service'
+import { SecuenciasService } from '@/lib/services/secuencias-service'
 import { logger } from '@/lib/logger'
 import { EstadoClienteSchema, PrioridadClienteSchema } from '@/lib/validations/cliente'
 import {
@@ -9,12 +12,14 @@ import {
   validationErrorResponse,
   errorResponse,
   unauthorizedResponse,
+  forbiddenResponse,
   handlePrismaError,
 } from '@/lib/api-response'
 import {
   registrarCambioEstado,
   registrarCambioPrioridad,
   registrarClienteEliminado,
+  registrarCambioAgente,
 } from '@/lib/actividades-automaticas'
 
 const BulkActionSchema = z.discriminatedUnion('action', [
@@ -32,6 +37,11 @@ const BulkActionSchema = z.discriminatedUnion('action', [
     action: z.literal('changePrioridad'),
     prioridad: PrioridadClienteSchema,
   }),
+  z.object({
+    ids: z.array(z.string()).min(1, 'Debe seleccionar al menos un cliente').max(100, 'Máximo 100 clientes por operación'),
+    action: z.literal('assign'),
+    asignadoAId: z.string().min(1).nullable(),
+  }),
 ])
 
 // POST /api/clientes/bulk - Operaciones masivas
@@ -52,13 +62,28 @@ export async function POST(request: NextRequest) {
 
     const data = validationResult.data
 
+    const requiredPermission =
+      data.action === 'delete' ? 'CLIENTS_DELETE' :
+      data.action === 'assign' ? 'CLIENTS_ASSIGN' :
+      'CLIENTS_EDIT'
+    if (!(await PermissionService.hasPermission(session.user.role, requiredPermission))) {
+      return forbiddenResponse()
+    }
+
     // Verify all IDs exist and are not deleted
     const clientes = await prisma.cliente.findMany({
       where: {
         id: { in: data.ids },
         deletedAt: null,
       },
-      select: { id: true, nombre: true, estado: true, prioridad: true },
+      select: {
+        id: true,
+        nombre: true,
+        estado: true,
+        prioridad: true,
+        asignadoAId: true,
+        asignadoA: { select: { name: true, email: true } },
+      },
     })
 
     if (clientes.length === 0) {
@@ -111,6 +136,9 @@ export async function POST(request: NextRequest) {
         data: { estado: data.estado, fechaModific: new Date() },
       })
 
+      // Engaged clients leave their outreach sequences
+      await SecuenciasService.detenerPorCambioEstado(validIds, data.estado)
+
       // Log activity for each changed client (non-critical)
       try {
         for (const cliente of clientes) {
@@ -173,6 +201,52 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (data.action === 'assign') {
+      const usuarios = await AsignacionService.resolverUsuarios(data.asignadoAId ? [data.asignadoAId] : [])
+      if (!usuarios) {
+        return errorResponse('Usuario asignado no encontrado', { status: 400 })
+      }
+      const nombreNuevo = AsignacionService.nombreUsuario(
+        data.asignadoAId ? usuarios.get(data.asignadoAId) : null
+      )
+
+      await prisma.cliente.updateMany({
+        where: { id: { in: validIds } },
+        data: { asignadoAId: data.asignadoAId, fechaModific: new Date() },
+      })
+
+      // Log activity for each reassigned client (non-critical)
+      try {
+        for (const cliente of clientes) {
+          if (cliente.asignadoAId !== data.asignadoAId) {
+            await registrarCambioAgente(
+              cliente.id,
+              session.user.id,
+              cliente.nombre,
+              AsignacionService.nombreUsuario(cliente.asignadoA),
+              nombreNuevo
+            )
+          }
+        }
+      } catch (activityError) {
+        logger.warn('Failed to log bulk assign activities', {
+          error: activityError instanceof Error ? activityError.message : String(activityError),
+          clientCount: clientes.length,
+        })
+      }
+
+      logger.info('Bulk assign', { count: validIds.length, asignadoAId: data.asignadoAId, userId: session.user.id })
+
+      return successResponse(
+        { affected: validIds.length },
+        {
+          message: nombreNuevo
+            ? `${validIds.length} cliente(s) asignado(s) a "${nombreNuevo}"`
+            : `${validIds.length} cliente(s) sin asignar`
+        }
+      )
+    }
+
   } catch (error) {
     logger.error('Error in bulk operation', error instanceof Error ? error : new Error(String(error)))
     return handlePrismaError(error)
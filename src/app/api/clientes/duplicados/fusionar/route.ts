@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { DuplicadosService } from '@/lib/services/duplicados-service'
+import { FusionarClientesSchema } from '@/lib/validations/duplicados'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  notFoundResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+// POST /api/clientes/duplicados/fusionar - Fusionar un cliente duplicado en otro
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_MERGE'))) {
+      return forbiddenResponse('No tienes permisos para fusionar clientes')
+    }
+
+    const body = await request.json()
+
+    const validationResult = FusionarClientesSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const data = validationResult.data
+    const result = await DuplicadosService.fusionar(data, session.user.id)
+
+    if (!result.success) {
+      return notFoundResponse('Cliente')
+    }
+
+    const { secundario, ...fusion } = result.data
+
+    await logAudit(
+      'clientes.merge',
+      session.user.id,
+      'cliente',
+      fusion.clienteId,
+      JSON.stringify({
+        secundarioId: secundario.id,
+        secundarioNombre: secundario.nombre,
+        campos: data.campos,
+        movidos: fusion.movidos,
+      })
+    )
+
+    return successResponse(fusion, {
+      message: `Cliente "${secundario.nombre}" fusionado correctamente`,
+    })
+
+  } catch (error) {
+    logger.error('Error merging clients', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
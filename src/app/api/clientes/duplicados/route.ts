@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { DuplicadosService } from '@/lib/services/duplicados-service'
+import { BuscarDuplicadosSchema } from '@/lib/validations/duplicados'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from '@/lib/api-response'
+
+// GET /api/clientes/duplicados - Pares de clientes posiblemente duplicados
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_MERGE'))) {
+      return forbiddenResponse('No tienes permisos para gestionar duplicados')
+    }
+
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries())
+
+    const validationResult = BuscarDuplicadosSchema.safeParse(params)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const pares = await DuplicadosService.buscar(validationResult.data)
+
+    return successResponse(pares)
+
+  } catch (error) {
+    logger.error('Error finding duplicate clients', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
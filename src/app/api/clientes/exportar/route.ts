@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { ExportacionService } from '@/lib/services/exportacion-service'
+import { ExportarClientesSchema } from '@/lib/validations/exportacion'
+import {
+  parseClientesFiltros,
+  buildClientesWhere,
+  buildClientesOrderBy,
+} from '@/lib/clientes-filtros'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import {
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from '@/lib/api-response'
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const
+
+// GET /api/clientes/exportar - Exportar todos los clientes que coinciden con los filtros de /clientes
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_EXPORT'))) {
+      return forbiddenResponse('No tienes permisos para exportar clientes')
+    }
+
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries())
+
+    const validationResult = ExportarClientesSchema.safeParse(params)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const { format, columnas, incluir } = validationResult.data
+    const filtros = parseClientesFiltros(params)
+
+    const opciones = {
+      where: buildClientesWhere(filtros, session.user.id),
+      orderBy: buildClientesOrderBy(filtros),
+      columnas,
+      incluir,
+    }
+
+    const stream = format === 'xlsx'
+      ? ExportacionService.crearStreamXlsx(opciones)
+      : ExportacionService.crearStreamCsv(opciones)
+
+    await logAudit(
+      'clientes.export',
+      session.user.id,
+      'cliente',
+      undefined,
+      JSON.stringify({ format, columnas, incluir, filtros })
+    )
+
+    const fecha = new Date().toISOString().slice(0, 10)
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="clientes-${fecha}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+
+  } catch (error) {
+    logger.error('Error exporting clients', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { ImportacionService } from '@/lib/services/importacion-service'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+// DELETE /api/clientes/importar/[id] - Revertir una importación
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_IMPORT'))) {
+      return forbiddenResponse('No tienes permisos para revertir importaciones')
+    }
+
+    const { id } = await params
+
+    const result = await ImportacionService.revertir(id)
+
+    if (!result.success) {
+      return errorResponse(result.error, { status: 400 })
+    }
+
+    await logAudit(
+      'clientes.import_rollback',
+      session.user.id,
+      'importacion_clientes',
+      id,
+      JSON.stringify(result.data)
+    )
+
+    logger.info('Client import rolled back', { importacionId: id, ...result.data, userId: session.user.id })
+
+    const { eliminados, conservados } = result.data
+    return successResponse(result.data, {
+      message: `Importación revertida: ${eliminados} cliente(s) eliminado(s)` +
+        (conservados > 0 ? `, ${conservados} conservado(s) porque se les fusionaron otros clientes` : '')
+    })
+
+  } catch (error) {
+    logger.error('Error rolling back import', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
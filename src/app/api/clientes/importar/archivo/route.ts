@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { ImportacionService } from '@/lib/services/importacion-service'
+import { IMPORTACION } from '@/lib/constants'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  errorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from '@/lib/api-response'
+
+// POST /api/clientes/importar/archivo - Leer CSV/XLSX y sugerir mapeo de columnas
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_IMPORT'))) {
+      return forbiddenResponse('No tienes permisos para importar clientes')
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return errorResponse('Debe adjuntar un archivo', { status: 400 })
+    }
+
+    if (file.size > IMPORTACION.MAX_FILE_SIZE_MB * 1024 * 1024) {
+      return errorResponse(`El archivo supera los ${IMPORTACION.MAX_FILE_SIZE_MB} MB`, { status: 400 })
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const result = await ImportacionService.parseArchivo(file.name, buffer)
+
+    if (!result.success) {
+      return errorResponse(result.error, { status: 400, code: 'INVALID_FILE' })
+    }
+
+    return successResponse({
+      nombreArchivo: file.name,
+      columnas: result.data.columnas,
+      filas: result.data.filas,
+      mapeoSugerido: ImportacionService.sugerirMapeo(result.data.columnas),
+    })
+
+  } catch (error) {
+    logger.error('Error parsing import file', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { ImportacionService } from '@/lib/services/importacion-service'
+import { ImportarClientesSchema } from '@/lib/validations/importacion'
+import { logAudit } from '@/lib/audit'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  errorResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+// GET /api/clientes/importar - Historial de importaciones
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_IMPORT'))) {
+      return forbiddenResponse('No tienes permisos para importar clientes')
+    }
+
+    const importaciones = await ImportacionService.listar()
+
+    return successResponse(importaciones)
+
+  } catch (error) {
+    logger.error('Error fetching imports', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
+
+// POST /api/clientes/importar - Validar (dry run) o importar filas ya mapeadas
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_IMPORT'))) {
+      return forbiddenResponse('No tienes permisos para importar clientes')
+    }
+
+    const body = await request.json()
+
+    const validationResult = ImportarClientesSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const data = validationResult.data
+
+    const columnasFaltantes = Object.values(data.mapeo).filter(c => !data.columnas.includes(c))
+    if (columnasFaltantes.length > 0) {
+      return errorResponse(`Columnas inexistentes en el mapeo: ${columnasFaltantes.join(', ')}`, { status: 400 })
+    }
+
+    if (data.dryRun) {
+      const candidatos = await ImportacionService.analizar(data)
+      return successResponse(ImportacionService.resumen(candidatos, true))
+    }
+
+    const result = await ImportacionService.importar(data, session.user.id)
+
+    if (!result.success) {
+      return errorResponse(result.error, { status: 400 })
+    }
+
+    await logAudit(
+      'clientes.import',
+      session.user.id,
+      'importacion_clientes',
+      result.data.importacionId,
+      JSON.stringify({ archivo: data.nombreArchivo, creados: result.data.creados, filas: result.data.totalFilas })
+    )
+
+    logger.info('Clients imported', {
+      importacionId: result.data.importacionId,
+      creados: result.data.creados,
+      userId: session.user.id,
+    })
+
+    return successResponse(result.data, {
+      status: 201,
+      message: `${result.data.creados} cliente(s) importado(s) exitosamente`
+    })
+
+  } catch (error) {
+    logger.error('Error importing clients', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { AsignacionService } from '@/lib/services/asignacion-service'
 import { registrarClienteCreado } from '@/lib/actividades-automaticas'
 import { logger } from '@/lib/logger'
 import { Prisma, EstadoCliente, PrioridadCliente, FuenteCliente } from '@prisma/client'
@@ -10,10 +12,12 @@ import {
 } from '@/lib/validations/cliente'
 import {
   successResponse,
+  errorResponse,
   validationErrorResponse,
   serverErrorResponse,
   unauthorizedResponse,
   handlePrismaError,
+  forbiddenResponse,
 } from '@/lib/api-response'
 
 // GET /api/clientes - Obtener lista de clientes
@@ -24,6 +28,10 @@ export async function GET(request: NextRequest) {
       return unauthorizedResponse()
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_VIEW'))) {
+      return forbiddenResponse()
+    }
+
     const { searchParams } = new URL(request.url)
 
     // Parse and validate query params
@@ -33,6 +41,7 @@ export async function GET(request: NextRequest) {
       prioridad: searchParams.get('prioridad') || undefined,
       fuente: searchParams.get('fuente') || undefined,
       industria: searchParams.get('industria') || undefined,
+      asignadoA: searchParams.get('asignadoA') || undefined,
       limit: searchParams.get('limit') || '10',
       offset: searchParams.get('offset') || '0',
       sortBy: searchParams.get('sortBy') || 'fechaCreacion',
@@ -64,10 +73,16 @@ export async function GET(request: NextRequest) {
     if (filters.fuente) where.fuente = filters.fuente as FuenteCliente
     if (filters.industria) where.industria = filters.industria
 
+    const filtroAsignado = AsignacionService.buildFiltroAsignado(filters.asignadoA, session.user.id)
+    if (filtroAsignado) where.AND = [filtroAsignado]
+
     // Fetch clients
     const clientes = await prisma.cliente.findMany({
       where,
       include: {
+        asignadoA: {
+          select: { id: true, name: true, email: true }
+        },
         actividades: {
           where: { deletedAt: null },
           take: 3,
@@ -114,6 +129,10 @@ export async function POST(request: NextRequest) {
       return unauthorizedResponse()
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'CLIENTS_CREATE'))) {
+      return forbiddenResponse()
+    }
+
     const body = await request.json()
 
     // Validate request body
@@ -122,11 +141,27 @@ export async function POST(request: NextRequest) {
       return validationErrorResponse(validationResult.error)
     }
 
-    const data = validationResult.data
+    const { asignadoAId, colaboradorIds = [], ...data } = validationResult.data
+
+    // New clients belong to their creator unless assigned explicitly
+    const ownerId = asignadoAId === undefined ? session.user.id : asignadoAId
+    const asignaOtros = (ownerId !== null && ownerId !== session.user.id) || colaboradorIds.length > 0
+    if (asignaOtros && !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))) {
+      return forbiddenResponse('No tienes permisos para asignar clientes')
+    }
+
+    const usuarios = await AsignacionService.resolverUsuarios(
+      ownerId ? [ownerId, ...colaboradorIds] : colaboradorIds
+    )
+    if (!usuarios) {
+      return errorResponse('Usuario asignado no encontrado', { status: 400 })
+    }
 
     const cliente = await prisma.cliente.create({
       data: {
         ...data,
+        asignadoAId: ownerId,
+        colaboradores: { connect: colaboradorIds.map(id => ({ id })) },
         fechaCreacion: new Date(),
         fechaModific: new Date(),
       },
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { verificarCron } from '@/lib/cron';
 import { prisma } from '@/lib/prisma';
 
 export async function GET(request: NextRequest) {
-  // Verify request comes from Vercel Cron
-  const authHeader = request.headers.get('authorization');
-  const cronSecret = process.env.CRON_SECRET;
-
-  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const noAutorizado = verificarCron(request);
+  if (noAutorizado) return noAutorizado;
 
   const summary: Record<string, unknown> = {};
   const now = new Date();
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verificarCron } from '@/lib/cron';
+import { TrabajosEnriquecimientoService } from '@/lib/services/trabajos-enriquecimiento-service';
+
+// Worker of the bulk enrichment jobs (runs every minute, see vercel.json)
+export async function GET(request: NextRequest) {
+  const noAutorizado = verificarCron(request);
+  if (noAutorizado) return noAutorizado;
+
+  const now = new Date();
+
+  try {
+    const summary = await TrabajosEnriquecimientoService.procesar();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      summary,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Enrichment worker failed',
+        timestamp: now.toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verificarCron } from '@/lib/cron';
+import { MensajesProgramadosService } from '@/lib/services/mensajes-programados-service';
+
+// Dispatcher of scheduled emails (runs every 5 minutes, see vercel.json)
+export async function GET(request: NextRequest) {
+  const noAutorizado = verificarCron(request);
+  if (noAutorizado) return noAutorizado;
+
+  const now = new Date();
+
+  try {
+    const summary = await MensajesProgramadosService.despachar();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      summary,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Dispatch failed',
+        timestamp: now.toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
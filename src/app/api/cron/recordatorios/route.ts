@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verificarCron } from '@/lib/cron';
+import { TareasService } from '@/lib/services/tareas-service';
+
+// Task reminders and overdue notices (runs every 15 minutes, see vercel.json)
+export async function GET(request: NextRequest) {
+  const noAutorizado = verificarCron(request);
+  if (noAutorizado) return noAutorizado;
+
+  const now = new Date();
+
+  try {
+    const summary = await TareasService.enviarRecordatorios();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      summary,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Reminders failed',
+        timestamp: now.toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { MensajesProgramadosService } from '@/lib/services/mensajes-programados-service';
+import { logger } from '@/lib/logger';
+import { UpdateMensajeProgramadoSchema } from '@/lib/validations/mensaje';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  errorResponse,
+  forbiddenResponse,
+  notFoundResponse,
+} from '@/lib/api-response';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Only the sender manages a queued message, unless the user can assign clients
+async function puedeGestionar(id: string, usuarioId: string, role: string) {
+  const mensaje = await MensajesProgramadosService.getById(id);
+  if (!mensaje) return null;
+  return mensaje.usuarioId === usuarioId || (await PermissionService.hasPermission(role, 'CLIENTS_ASSIGN'));
+}
+
+// PATCH /api/mensajes/programados/[id] - Editar un envío programado
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'))) return forbiddenResponse();
+
+    const { id } = await params;
+    const body = await request.json();
+    const validation = UpdateMensajeProgramadoSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const permitido = await puedeGestionar(id, session.user.id, session.user.role);
+    if (permitido === null) return notFoundResponse('Mensaje programado');
+    if (!permitido) return forbiddenResponse();
+
+    const result = await MensajesProgramadosService.actualizar(id, validation.data);
+    if (!result) return notFoundResponse('Mensaje programado');
+    if (!result.success) return errorResponse(result.error, { status: 400, code: 'SCHEDULE_ERROR' });
+
+    return successResponse(result.data, { message: 'Envío programado actualizado' });
+  } catch (error) {
+    logger.error('Error updating scheduled message', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
+
+// DELETE /api/mensajes/programados/[id] - Cancelar un envío programado
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'))) return forbiddenResponse();
+
+    const { id } = await params;
+    const permitido = await puedeGestionar(id, session.user.id, session.user.role);
+    if (permitido === null) return notFoundResponse('Mensaje programado');
+    if (!permitido) return forbiddenResponse();
+
+    // False when the dispatcher took it in the meantime
+    if (!(await MensajesProgramadosService.cancelar(id))) return notFoundResponse('Mensaje programado');
+
+    return successResponse(null, { message: 'Envío cancelado' });
+  } catch (error) {
+    logger.error('Error cancelling scheduled message', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
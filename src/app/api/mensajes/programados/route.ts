@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { MensajesProgramadosService } from '@/lib/services/mensajes-programados-service';
+import { logger } from '@/lib/logger';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
+import { MensajesProgramadosFiltersSchema } from '@/lib/validations/mensaje';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+// GET /api/mensajes/programados - Cola de envíos programados
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
+
+    const { searchParams } = new URL(request.url);
+    const validation = MensajesProgramadosFiltersSchema.safeParse({
+      usuario: searchParams.get('usuario') || undefined,
+      clienteId: searchParams.get('clienteId') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    // Other people's queues are only visible to users who can assign clients
+    const filtros = validation.data;
+    if (
+      !filtros.clienteId &&
+      filtros.usuario &&
+      filtros.usuario !== FILTRO_ASIGNADO.MIOS &&
+      filtros.usuario !== session.user.id &&
+      !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))
+    ) {
+      return forbiddenResponse();
+    }
+
+    const mensajes = await MensajesProgramadosService.listar(filtros, session.user.id);
+    return successResponse(mensajes);
+  } catch (error) {
+    logger.error('Error fetching scheduled messages', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
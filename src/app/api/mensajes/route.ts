@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
 import { logger } from '@/lib/logger';
 import { CanalContacto, EstadoMensaje, Prisma } from '@prisma/client';
 import { MensajeFiltersSchema } from '@/lib/validations/mensaje';
@@ -9,6 +10,7 @@ import {
   validationErrorResponse,
   serverErrorResponse,
   unauthorizedResponse,
+  forbiddenResponse,
 } from '@/lib/api-response';
 
 // GET /api/mensajes - Listar mensajes con filtros
@@ -16,6 +18,7 @@ export async function GET(request: NextRequest) {
   try {
     const session = await auth();
     if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
 
     const { searchParams } = new URL(request.url);
     const rawFilters = {
@@ -49,6 +52,19 @@ export async function GET(request: NextRequest) {
           plantilla: {
             select: { id: true, nombre: true },
           },
+          contacto: {
+            select: { id: true, nombre: true, cargo: true },
+          },
+          // Latest opens and clicks (totals are on the message)
+          eventos: {
+            select: { id: true, tipo: true, url: true, createdAt: true },
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+          },
+          respuestas: {
+            select: { id: true, remitente: true, asunto: true, cuerpo: true, recibidoEn: true },
+            orderBy: { recibidoEn: 'asc' },
+          },
         },
         orderBy: { createdAt: 'desc' },
         skip: filters.offset,
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { logger } from '@/lib/logger';
+import { RevisarEnvioMasivoSchema } from '@/lib/validations/mensaje';
+import { revisarPlantillaMasiva } from '@/lib/services/contact-service';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+} from '@/lib/api-response';
+
+// POST /api/mensajes/send-bulk/revisar - Clientes que recibirían variables vacías, antes de enviar
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'))) return forbiddenResponse();
+
+    const body = await request.json();
+    const validation = RevisarEnvioMasivoSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const { clienteIds, plantillaId, destinatario } = validation.data;
+    const revision = await revisarPlantillaMasiva(clienteIds, plantillaId, {
+      contactoPrincipal: destinatario === 'PRINCIPAL',
+    });
+    if (!revision) return notFoundResponse('Plantilla');
+
+    return successResponse(revision);
+  } catch (error) {
+    logger.error('Error reviewing bulk send', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
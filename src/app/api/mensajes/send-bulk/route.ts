@@ -1,14 +1,16 @@
 import { NextRequest } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
 import { logger } from '@/lib/logger';
 import { SendBulkMensajeSchema } from '@/lib/validations/mensaje';
-import { sendBulkEmail, prepareBulkWhatsApp } from '@/lib/services/contact-service';
+import { sendBulkEmail, scheduleBulkEmail, prepareBulkWhatsApp } from '@/lib/services/contact-service';
 import {
   successResponse,
   validationErrorResponse,
   serverErrorResponse,
   unauthorizedResponse,
   errorResponse,
+  forbiddenResponse,
 } from '@/lib/api-response';
 
 // POST /api/mensajes/send-bulk - Envio masivo
@@ -16,22 +18,33 @@ export async function POST(request: NextRequest) {
   try {
     const session = await auth();
     if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'))) return forbiddenResponse();
 
     const body = await request.json();
     const validation = SendBulkMensajeSchema.safeParse(body);
     if (!validation.success) return validationErrorResponse(validation.error);
 
-    const { clienteIds, plantillaId, canal } = validation.data;
+    const { clienteIds, plantillaId, canal, destinatario, programadoPara, zonaHoraria } = validation.data;
+    const opciones = { contactoPrincipal: destinatario === 'PRINCIPAL' };
+
+    if (programadoPara) {
+      const result = await scheduleBulkEmail(
+        clienteIds, plantillaId, session.user.id, { fechaLocal: programadoPara, zonaHoraria }, opciones
+      );
+      return successResponse(result, {
+        message: `Programados: ${result.successful}/${result.total}. Errores: ${result.failed}`,
+      });
+    }
 
     if (canal === 'EMAIL') {
-      const result = await sendBulkEmail(clienteIds, plantillaId, session.user.id);
+      const result = await sendBulkEmail(clienteIds, plantillaId, session.user.id, opciones);
       return successResponse(result, {
         message: `Enviados: ${result.successful}/${result.total}. Errores: ${result.failed}`,
       });
     }
 
     // WHATSAPP
-    const result = await prepareBulkWhatsApp(clienteIds, plantillaId, session.user.id);
+    const result = await prepareBulkWhatsApp(clienteIds, plantillaId, session.user.id, opciones);
     if (result.items.length === 0) {
       return errorResponse('No se pudo preparar ningún mensaje de WhatsApp', {
         status: 400,
@@ -1,14 +1,16 @@
 import { NextRequest } from 'next/server';
 import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
 import { logger } from '@/lib/logger';
 import { SendMensajeSchema } from '@/lib/validations/mensaje';
-import { sendContactEmail, prepareWhatsApp } from '@/lib/services/contact-service';
+import { sendContactEmail, scheduleContactEmail, prepareWhatsApp } from '@/lib/services/contact-service';
 import {
   successResponse,
   validationErrorResponse,
   serverErrorResponse,
   unauthorizedResponse,
   errorResponse,
+  forbiddenResponse,
 } from '@/lib/api-response';
 
 // POST /api/mensajes/send - Envio individual
@@ -16,15 +18,29 @@ export async function POST(request: NextRequest) {
   try {
     const session = await auth();
     if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'))) return forbiddenResponse();
 
     const body = await request.json();
     const validation = SendMensajeSchema.safeParse(body);
     if (!validation.success) return validationErrorResponse(validation.error);
 
-    const { clienteId, plantillaId, canal } = validation.data;
+    const { clienteId, plantillaId, canal, contactoId, programadoPara, zonaHoraria } = validation.data;
+
+    if (programadoPara) {
+      const result = await scheduleContactEmail(
+        clienteId, plantillaId, session.user.id, { fechaLocal: programadoPara, zonaHoraria }, { contactoId }
+      );
+      if (!result.success) {
+        return errorResponse(result.error || 'Error al programar email', { status: 400, code: 'SCHEDULE_ERROR' });
+      }
+      return successResponse(
+        { mensajeId: result.mensajeId, programadoPara: result.programadoPara },
+        { status: 201, message: 'Email programado' }
+      );
+    }
 
     if (canal === 'EMAIL') {
-      const result = await sendContactEmail(clienteId, plantillaId, session.user.id);
+      const result = await sendContactEmail(clienteId, plantillaId, session.user.id, { contactoId });
       if (!result.success) {
         return errorResponse(result.error || 'Error al enviar email', { status: 400, code: 'SEND_ERROR' });
       }
@@ -32,13 +48,13 @@ export async function POST(request: NextRequest) {
     }
 
     // WHATSAPP
-    const result = await prepareWhatsApp(clienteId, plantillaId, session.user.id);
+    const result = await prepareWhatsApp(clienteId, plantillaId, session.user.id, { contactoId });
     if (!result.success) {
       return errorResponse(result.error || 'Error al preparar WhatsApp', { status: 400, code: 'SEND_ERROR' });
     }
     return successResponse(
       { mensajeId: result.mensajeId, url: result.url },
-      { message: 'Mensaje de WhatsApp preparado' }
+      { message: result.url ? 'Mensaje de WhatsApp preparado' : 'Mensaje de WhatsApp enviado' }
     );
   } catch (error) {
     logger.error('Error sending message', error instanceof Error ? error : new Error(String(error)));
@@ -2,7 +2,8 @@ import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@/lib/auth';
 import { logger } from '@/lib/logger';
-import { isAdmin } from '@/lib/rbac';
+import { PermissionService } from '@/lib/services/permission-service';
+import { PlantillasService } from '@/lib/services/plantillas-service';
 import { UpdatePlantillaSchema } from '@/lib/validations/plantilla';
 import {
   successResponse,
@@ -11,6 +12,7 @@ import {
   unauthorizedResponse,
   notFoundResponse,
   errorResponse,
+  forbiddenResponse,
 } from '@/lib/api-response';
 
 interface RouteParams {
@@ -22,6 +24,7 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
   try {
     const session = await auth();
     if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
 
     const { id } = await params;
 
@@ -52,8 +55,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const session = await auth();
     if (!session) return unauthorizedResponse();
 
-    if (!isAdmin(session.user.role)) {
-      return errorResponse('Solo administradores pueden editar plantillas', { status: 403, code: 'FORBIDDEN' });
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para editar plantillas');
     }
 
     const { id } = await params;
@@ -79,18 +82,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    const plantilla = await prisma.plantillaContacto.update({
-      where: { id },
-      data: {
-        ...data,
-        canal: data.canal as import('@prisma/client').CanalContacto | undefined,
-      },
-      include: {
-        creadoPor: {
-          select: { id: true, name: true, email: true },
-        },
-      },
-    });
+    // Earlier wording stays in the version history
+    const plantilla = await PlantillasService.actualizar(id, data, session.user.id);
 
     logger.info('Plantilla updated', { id: plantilla.id });
 
@@ -107,8 +100,8 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
     const session = await auth();
     if (!session) return unauthorizedResponse();
 
-    if (!isAdmin(session.user.role)) {
-      return errorResponse('Solo administradores pueden eliminar plantillas', { status: 403, code: 'FORBIDDEN' });
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para eliminar plantillas');
     }
 
     const { id } = await params;
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { PlantillasService } from '@/lib/services/plantillas-service';
+import { UpdateVarianteSchema } from '@/lib/validations/plantilla';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  errorResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+interface RouteParams {
+  params: Promise<{ id: string; varianteId: string }>;
+}
+
+// PUT /api/plantillas/[id]/variantes/[varianteId] - Editar o pausar una variante (solo ADMIN)
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para editar plantillas');
+    }
+
+    const { id, varianteId } = await params;
+
+    const plantilla = await prisma.plantillaContacto.findUnique({ where: { id }, select: { canal: true } });
+    if (!plantilla) return notFoundResponse('Plantilla');
+
+    const body = await request.json();
+    const validation = UpdateVarianteSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const data = validation.data;
+    if (plantilla.canal === 'EMAIL' && data.asunto !== undefined && !data.asunto?.trim()) {
+      return errorResponse('El asunto es requerido para plantillas de email', {
+        status: 400,
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
+    const variante = await PlantillasService.actualizarVariante(id, varianteId, data, session.user.id);
+    if (!variante) return notFoundResponse('Variante');
+
+    logger.info('Variante de plantilla updated', { plantillaId: id, variante: variante.nombre });
+
+    return successResponse(variante, { message: `Variante ${variante.nombre} actualizada` });
+  } catch (error) {
+    logger.error('Error updating variante de plantilla', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { PlantillasService } from '@/lib/services/plantillas-service';
+import { SeguimientoService } from '@/lib/services/seguimiento-service';
+import { CreateVarianteSchema } from '@/lib/validations/plantilla';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  errorResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/plantillas/[id]/variantes - Variantes A/B con sus tasas de apertura y respuesta
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
+
+    const { id } = await params;
+
+    const existing = await prisma.plantillaContacto.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) return notFoundResponse('Plantilla');
+
+    const [variantes, estadisticas] = await Promise.all([
+      PlantillasService.listarVariantes(id),
+      SeguimientoService.estadisticasPorVariante(id),
+    ]);
+
+    return successResponse({ variantes, estadisticas });
+  } catch (error) {
+    logger.error('Error fetching variantes de plantilla', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
+
+// POST /api/plantillas/[id]/variantes - Crear la siguiente variante (solo ADMIN)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para editar plantillas');
+    }
+
+    const { id } = await params;
+
+    const plantilla = await prisma.plantillaContacto.findUnique({ where: { id }, select: { canal: true } });
+    if (!plantilla) return notFoundResponse('Plantilla');
+
+    const body = await request.json();
+    const validation = CreateVarianteSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    if (plantilla.canal === 'EMAIL' && !validation.data.asunto?.trim()) {
+      return errorResponse('El asunto es requerido para plantillas de email', {
+        status: 400,
+        code: 'VALIDATION_ERROR',
+      });
+    }
+
+    const result = await PlantillasService.crearVariante(id, validation.data, session.user.id);
+    if (!result.success) return errorResponse(result.error, { status: 400 });
+
+    logger.info('Variante de plantilla created', { plantillaId: id, variante: result.data.nombre });
+
+    return successResponse(result.data, { status: 201, message: `Variante ${result.data.nombre} creada` });
+  } catch (error) {
+    logger.error('Error creating variante de plantilla', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { PlantillasService } from '@/lib/services/plantillas-service';
+import {
+  successResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/plantillas/[id]/versiones - Historial de versiones de la plantilla y sus variantes
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
+
+    const { id } = await params;
+
+    const existing = await prisma.plantillaContacto.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) return notFoundResponse('Plantilla');
+
+    const versiones = await PlantillasService.listarVersiones(id);
+
+    return successResponse(versiones);
+  } catch (error) {
+    logger.error('Error fetching versiones de plantilla', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
@@ -2,7 +2,9 @@ import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { auth } from '@/lib/auth';
 import { logger } from '@/lib/logger';
-import { isAdmin } from '@/lib/rbac';
+import { PermissionService } from '@/lib/services/permission-service';
+import { SeguimientoService } from '@/lib/services/seguimiento-service';
+import { PlantillasService } from '@/lib/services/plantillas-service';
 import { CanalContacto } from '@prisma/client';
 import {
   CreatePlantillaSchema,
@@ -13,7 +15,7 @@ import {
   validationErrorResponse,
   serverErrorResponse,
   unauthorizedResponse,
-  errorResponse,
+  forbiddenResponse,
 } from '@/lib/api-response';
 
 // GET /api/plantillas - Listar plantillas
@@ -21,6 +23,7 @@ export async function GET(request: NextRequest) {
   try {
     const session = await auth();
     if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
 
     const { searchParams } = new URL(request.url);
     const rawFilters = {
@@ -50,7 +53,13 @@ export async function GET(request: NextRequest) {
       orderBy: { createdAt: 'desc' },
     });
 
-    return successResponse(plantillas);
+    const estadisticas = await SeguimientoService.estadisticasPorPlantilla(
+      plantillas.filter((p) => p.canal === 'EMAIL').map((p) => p.id)
+    );
+
+    return successResponse(
+      plantillas.map((p) => ({ ...p, estadisticas: estadisticas.get(p.id) ?? null }))
+    );
   } catch (error) {
     logger.error('Error fetching plantillas', error instanceof Error ? error : new Error(String(error)));
     return serverErrorResponse(error instanceof Error ? error : undefined);
@@ -63,8 +72,8 @@ export async function POST(request: NextRequest) {
     const session = await auth();
     if (!session) return unauthorizedResponse();
 
-    if (!isAdmin(session.user.role)) {
-      return errorResponse('Solo administradores pueden crear plantillas', { status: 403, code: 'FORBIDDEN' });
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para crear plantillas');
     }
 
     const body = await request.json();
@@ -73,21 +82,8 @@ export async function POST(request: NextRequest) {
 
     const data = validation.data;
 
-    const plantilla = await prisma.plantillaContacto.create({
-      data: {
-        nombre: data.nombre,
-        descripcion: data.descripcion || null,
-        canal: data.canal as CanalContacto,
-        asunto: data.asunto || null,
-        cuerpo: data.cuerpo,
-        creadoPorId: session.user.id,
-      },
-      include: {
-        creadoPor: {
-          select: { id: true, name: true, email: true },
-        },
-      },
-    });
+    // Its content is stored as version 1 too
+    const plantilla = await PlantillasService.crear(data, session.user.id);
 
     logger.info('Plantilla created', { id: plantilla.id, nombre: plantilla.nombre });
 
@@ -1,11 +1,12 @@
 import { auth } from '@/lib/auth';
 import { getAllQuotasHistory, checkQuotaAlerts, setAlertThreshold } from '@/lib/quota-manager';
 import { logger } from '@/lib/logger';
-import { hasPermission } from '@/lib/rbac';
+import { PermissionService } from '@/lib/services/permission-service';
 import {
   successResponse,
   errorResponse,
   unauthorizedResponse,
+  forbiddenResponse,
   serverErrorResponse,
 } from '@/lib/api-response';
 import { quotaHistoryDaysSchema } from '@/lib/validations/enrichment';
@@ -19,8 +20,8 @@ export async function GET(request: Request) {
       return unauthorizedResponse();
     }
 
-    if (!hasPermission(session.user.role, 'QUOTAS_VIEW')) {
-      return errorResponse('Permisos insuficientes', { status: 403, code: 'FORBIDDEN' });
+    if (!(await PermissionService.hasPermission(session.user.role, 'QUOTAS_VIEW'))) {
+      return forbiddenResponse();
     }
 
     const { searchParams } = new URL(request.url);
@@ -61,8 +62,8 @@ export async function PUT(request: Request) {
       return unauthorizedResponse();
     }
 
-    if (!hasPermission(session.user.role, 'QUOTAS_RESET')) {
-      return errorResponse('Permisos insuficientes', { status: 403, code: 'FORBIDDEN' });
+    if (!(await PermissionService.hasPermission(session.user.role, 'QUOTAS_RESET'))) {
+      return forbiddenResponse();
     }
 
     const body = await request.json();
@@ -2,11 +2,11 @@ import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { getAllExtendedQuotasInfo, resetAllQuotas } from '@/lib/quota-manager'
 import { logger } from '@/lib/logger'
-import { hasPermission } from '@/lib/rbac'
+import { PermissionService } from '@/lib/services/permission-service'
 import {
   successResponse,
-  errorResponse,
   unauthorizedResponse,
+  forbiddenResponse,
   serverErrorResponse,
   withCacheHeaders,
 } from '@/lib/api-response'
@@ -20,8 +20,8 @@ export async function GET(): Promise<NextResponse> {
       return unauthorizedResponse()
     }
 
-    if (!hasPermission(session.user.role, 'QUOTAS_VIEW')) {
-      return errorResponse('Permisos insuficientes', { status: 403, code: 'FORBIDDEN' })
+    if (!(await PermissionService.hasPermission(session.user.role, 'QUOTAS_VIEW'))) {
+      return forbiddenResponse()
     }
 
     // Use extended info for admin settings dashboard
@@ -47,9 +47,9 @@ export async function POST(): Promise<NextResponse> {
     }
 
     // Only admins can reset quotas
-    if (!hasPermission(session.user.role, 'QUOTAS_RESET')) {
+    if (!(await PermissionService.hasPermission(session.user.role, 'QUOTAS_RESET'))) {
       logger.warn('Unauthorized quota reset attempt', { userId: session.user.id, role: session.user.role })
-      return errorResponse('Solo administradores pueden resetear quotas', { status: 403, code: 'FORBIDDEN' })
+      return forbiddenResponse('No tienes permisos para resetear quotas')
     }
 
     await resetAllQuotas()
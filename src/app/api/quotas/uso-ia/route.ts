@@ -0,0 +1,87 @@
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { logAudit } from '@/lib/audit';
+import { PermissionService } from '@/lib/services/permission-service';
+import { AISdkService } from '@/lib/services/ai-sdk-service';
+import { UsoIAService } from '@/lib/services/uso-ia-service';
+import {
+  successResponse,
+  errorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  serverErrorResponse,
+} from '@/lib/api-response';
+import { presupuestoIASchema, quotaHistoryDaysSchema } from '@/lib/validations/enrichment';
+
+// GET /api/quotas/uso-ia - AI spend: this month per provider, last days per day, user and client
+export async function GET(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'QUOTAS_VIEW'))) {
+      return forbiddenResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const daysValidation = quotaHistoryDaysSchema.safeParse(searchParams.get('days') || '7');
+
+    if (!daysValidation.success) {
+      return errorResponse('Parametro "days" invalido. Debe ser un numero entero entre 1 y 30.', {
+        status: 400,
+        code: 'BAD_REQUEST',
+      });
+    }
+
+    // Configured providers are listed before their first call, to cap them up front
+    const proveedores = await AISdkService.getAvailableProviders();
+    const resumen = await UsoIAService.getResumen(daysValidation.data, proveedores);
+
+    return successResponse(resumen);
+  } catch (error) {
+    logger.error('Error fetching AI usage', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
+
+// PUT /api/quotas/uso-ia - Set or remove a provider's monthly budget
+export async function PUT(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session) {
+      return unauthorizedResponse();
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'QUOTAS_RESET'))) {
+      return forbiddenResponse();
+    }
+
+    const validation = presupuestoIASchema.safeParse(await request.json());
+    if (!validation.success) {
+      return errorResponse(validation.error.issues[0]?.message ?? 'Datos invalidos', {
+        status: 400,
+        code: 'BAD_REQUEST',
+      });
+    }
+
+    const { provider, limiteMensualUsd } = validation.data;
+    await UsoIAService.setPresupuesto(provider, limiteMensualUsd);
+
+    await logAudit(
+      'ai_budget.update',
+      session.user.id,
+      'PresupuestoIA',
+      provider,
+      limiteMensualUsd === null ? 'Sin presupuesto' : `US$ ${limiteMensualUsd}/mes`
+    );
+
+    return successResponse({ provider, limiteMensualUsd });
+  } catch (error) {
+    logger.error('Error updating AI budget', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
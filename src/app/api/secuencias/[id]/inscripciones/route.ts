@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { SecuenciasService } from '@/lib/services/secuencias-service';
+import { InscribirClientesSchema } from '@/lib/validations/secuencia';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  errorResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/secuencias/[id]/inscripciones - Inscribir clientes en la secuencia
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'))) return forbiddenResponse();
+
+    const { id } = await params;
+    const body = await request.json();
+    const validation = InscribirClientesSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const result = await SecuenciasService.inscribir(id, validation.data.clienteIds, session.user.id);
+    if (!result) return notFoundResponse('Secuencia');
+    if (!result.success) return errorResponse(result.error, { status: 400, code: 'ENROLLMENT_ERROR' });
+
+    logger.info('Clients enrolled in secuencia', {
+      secuenciaId: id,
+      inscritos: result.data.inscritos,
+      omitidos: result.data.omitidos.length,
+    });
+
+    return successResponse(result.data, {
+      status: 201,
+      message: `${result.data.inscritos} cliente(s) inscripto(s) en la secuencia`,
+    });
+  } catch (error) {
+    logger.error('Error enrolling clients', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { SecuenciasService } from '@/lib/services/secuencias-service';
+import { UpdateSecuenciaSchema } from '@/lib/validations/secuencia';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  errorResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/secuencias/[id] - Obtener secuencia
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
+
+    const { id } = await params;
+    const secuencia = await SecuenciasService.getById(id);
+    if (!secuencia) return notFoundResponse('Secuencia');
+
+    return successResponse(secuencia);
+  } catch (error) {
+    logger.error('Error fetching secuencia', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
+
+// PUT /api/secuencias/[id] - Editar secuencia
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para editar secuencias');
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validation = UpdateSecuenciaSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const result = await SecuenciasService.actualizar(id, validation.data);
+    if (!result) return notFoundResponse('Secuencia');
+    if (!result.success) return errorResponse(result.error, { status: 400, code: 'VALIDATION_ERROR' });
+
+    logger.info('Secuencia updated', { id });
+
+    return successResponse(result.data, { message: 'Secuencia actualizada exitosamente' });
+  } catch (error) {
+    logger.error('Error updating secuencia', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
+
+// DELETE /api/secuencias/[id] - Desactivar secuencia (detiene sus inscripciones activas)
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para eliminar secuencias');
+    }
+
+    const { id } = await params;
+    const result = await SecuenciasService.actualizar(id, { activa: false });
+    if (!result) return notFoundResponse('Secuencia');
+
+    logger.info('Secuencia deactivated', { id });
+
+    return successResponse(null, { message: 'Secuencia desactivada exitosamente' });
+  } catch (error) {
+    logger.error('Error deleting secuencia', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { SecuenciasService } from '@/lib/services/secuencias-service';
+import { SeguimientoService } from '@/lib/services/seguimiento-service';
+import { AccionInscripcionSchema } from '@/lib/validations/secuencia';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+  notFoundResponse,
+} from '@/lib/api-response';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/secuencias/inscripciones/[id] - Detener una inscripción o marcar que el cliente respondió
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'))) return forbiddenResponse();
+
+    const { id } = await params;
+    const body = await request.json();
+    const validation = AccionInscripcionSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const inscripcion = await SecuenciasService.getInscripcion(id);
+    if (!inscripcion || inscripcion.estado !== 'ACTIVA') return notFoundResponse('Inscripción');
+
+    // Only who enrolled the client manages it, unless the user can assign clients
+    if (
+      inscripcion.usuarioId !== session.user.id &&
+      !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))
+    ) {
+      return forbiddenResponse();
+    }
+
+    // An answer stops every sequence of the client, not just this one
+    if (validation.data.accion === 'respuesta') {
+      await SecuenciasService.detenerPorCliente([inscripcion.clienteId], 'RESPUESTA');
+      await SeguimientoService.registrarRespuesta(inscripcion.clienteId);
+    } else if (!(await SecuenciasService.detenerInscripcion(id, 'MANUAL'))) {
+      return notFoundResponse('Inscripción');
+    }
+
+    return successResponse(null, { message: 'Secuencia detenida' });
+  } catch (error) {
+    logger.error('Error stopping inscripcion', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
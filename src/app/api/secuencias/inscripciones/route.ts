@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { SecuenciasService } from '@/lib/services/secuencias-service';
+import { InscripcionFiltersSchema } from '@/lib/validations/secuencia';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+// GET /api/secuencias/inscripciones - Inscripciones de un cliente o de una secuencia
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
+
+    const { searchParams } = new URL(request.url);
+    const validation = InscripcionFiltersSchema.safeParse({
+      clienteId: searchParams.get('clienteId') || undefined,
+      secuenciaId: searchParams.get('secuenciaId') || undefined,
+    });
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const inscripciones = await SecuenciasService.listarInscripciones(validation.data);
+
+    return successResponse(inscripciones);
+  } catch (error) {
+    logger.error('Error fetching inscripciones', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { PermissionService } from '@/lib/services/permission-service';
+import { SecuenciasService } from '@/lib/services/secuencias-service';
+import { CreateSecuenciaSchema } from '@/lib/validations/secuencia';
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  errorResponse,
+  forbiddenResponse,
+} from '@/lib/api-response';
+
+// GET /api/secuencias - Listar secuencias
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+    if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) return forbiddenResponse();
+
+    const secuencias = await SecuenciasService.listar();
+
+    return successResponse(secuencias);
+  } catch (error) {
+    logger.error('Error fetching secuencias', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
+
+// POST /api/secuencias - Crear secuencia
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) return unauthorizedResponse();
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'TEMPLATES_MANAGE'))) {
+      return forbiddenResponse('No tienes permisos para crear secuencias');
+    }
+
+    const body = await request.json();
+    const validation = CreateSecuenciaSchema.safeParse(body);
+    if (!validation.success) return validationErrorResponse(validation.error);
+
+    const result = await SecuenciasService.crear(validation.data, session.user.id);
+    if (!result.success) return errorResponse(result.error, { status: 400, code: 'VALIDATION_ERROR' });
+
+    logger.info('Secuencia created', { id: result.data.id, pasos: result.data.pasos.length });
+
+    return successResponse(result.data, {
+      status: 201,
+      message: 'Secuencia creada exitosamente',
+    });
+  } catch (error) {
+    logger.error('Error creating secuencia', error instanceof Error ? error : new Error(String(error)));
+    return serverErrorResponse(error instanceof Error ? error : undefined);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { SeguimientoService, leerTokenSeguimiento } from '@/lib/services/seguimiento-service'
+import { logger } from '@/lib/logger'
+
+interface RouteContext {
+  params: Promise<{ token: string }>
+}
+
+// Transparent 1x1 GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+// GET /api/seguimiento/apertura/[token] - Pixel de apertura de un email.
+// Always answers with the image: a broken pixel would show up in the email.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params
+  const mensajeId = leerTokenSeguimiento(token)
+
+  if (mensajeId) {
+    try {
+      await SeguimientoService.registrarEvento(mensajeId, 'APERTURA', {
+        userAgent: request.headers.get('user-agent'),
+      })
+    } catch (error) {
+      logger.error('Error recording email open', error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  return new Response(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Content-Length': String(PIXEL.length),
+      // Every open must reach the server
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    },
+  })
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  SeguimientoService,
+  enlaceValido,
+  leerTokenSeguimiento,
+} from '@/lib/services/seguimiento-service'
+import { logger } from '@/lib/logger'
+import { notFoundResponse } from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ token: string }>
+}
+
+// GET /api/seguimiento/clic/[token]?url=...&f=... - Enlace reescrito de un email.
+// Only redirects to URLs signed for that message, so it can't be used as an open redirect.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params
+  const { searchParams } = new URL(request.url)
+  const url = searchParams.get('url')
+  const firma = searchParams.get('f')
+  const mensajeId = leerTokenSeguimiento(token)
+
+  if (!mensajeId || !url || !firma || !enlaceValido(mensajeId, url, firma)) {
+    return notFoundResponse('Enlace')
+  }
+
+  try {
+    await SeguimientoService.registrarEvento(mensajeId, 'CLIC', {
+      url,
+      userAgent: request.headers.get('user-agent'),
+    })
+  } catch (error) {
+    // The prospect still gets where they were going
+    logger.error('Error recording email click', error instanceof Error ? error : new Error(String(error)))
+  }
+
+  return NextResponse.redirect(url, 302)
+}
@@ -1,12 +1,15 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { OportunidadesService } from '@/lib/services/oportunidades-service'
 import { logger } from '@/lib/logger'
 import {
   successResponse,
   unauthorizedResponse,
   serverErrorResponse,
   withCacheHeaders,
+  forbiddenResponse,
 } from '@/lib/api-response'
 
 // GET /api/stats - Obtener estadísticas del dashboard
@@ -18,6 +21,10 @@ export async function GET(): Promise<NextResponse> {
       return unauthorizedResponse()
     }
 
+    if (!(await PermissionService.hasPermission(session.user.role, 'STATS_VIEW'))) {
+      return forbiddenResponse()
+    }
+
     // Dates for queries
     const hoy = new Date()
     const inicioDelDia = new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate())
@@ -35,7 +42,8 @@ export async function GET(): Promise<NextResponse> {
       llamadasHoy,
       emailsHoy,
       clientesActivos,
-      actividadesRecientes
+      actividadesRecientes,
+      pipeline
     ] = await Promise.all([
       // Total clients (excluding soft-deleted)
       prisma.cliente.count({
@@ -110,7 +118,10 @@ export async function GET(): Promise<NextResponse> {
             select: { name: true }
           }
         }
-      })
+      }),
+
+      // Open opportunities value and weighted forecast, per currency
+      OportunidadesService.getResumenPipeline()
     ])
 
     // Format data for dashboard
@@ -145,6 +156,7 @@ export async function GET(): Promise<NextResponse> {
           porPrioridad,
           porFuente
         },
+        pipeline,
         actividadesRecientes
       }),
       30,
@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { TareasService } from '@/lib/services/tareas-service'
+import { UpdateTareaSchema } from '@/lib/validations/tarea'
+import { registrarTareaCompletada } from '@/lib/actividades-automaticas'
+import { logger } from '@/lib/logger'
+import {
+  successResponse,
+  validationErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// PUT /api/tareas/[id] - Actualizar tarea (incluye completarla)
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_CREATE'))) {
+      return forbiddenResponse()
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const validationResult = UpdateTareaSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const existente = await TareasService.getById(id)
+
+    if (!existente) {
+      return notFoundResponse('Tarea')
+    }
+
+    // Only the assignee and the creator manage a task, unless the user can assign
+    const data = validationResult.data
+    const esPropia = existente.asignadoAId === session.user.id || existente.creadoPorId === session.user.id
+    const reasigna = data.asignadoAId !== undefined &&
+      data.asignadoAId !== existente.asignadoAId &&
+      data.asignadoAId !== session.user.id
+    if ((!esPropia || reasigna) && !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))) {
+      return forbiddenResponse()
+    }
+
+    const result = await TareasService.actualizar(id, data)
+
+    if (!result) {
+      return notFoundResponse('Tarea')
+    }
+
+    const { tarea, completada } = result
+
+    if (completada && tarea.clienteId) {
+      await registrarTareaCompletada(tarea.clienteId, session.user.id, tarea.titulo, tarea.descripcion)
+    }
+
+    return successResponse(tarea, {
+      message: completada ? 'Tarea completada' : 'Tarea actualizada exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error updating task', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
+
+// DELETE /api/tareas/[id] - Eliminar tarea
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_CREATE'))) {
+      return forbiddenResponse()
+    }
+
+    const { id } = await params
+    const existente = await TareasService.getById(id)
+
+    if (!existente) {
+      return notFoundResponse('Tarea')
+    }
+
+    const esPropia = existente.asignadoAId === session.user.id || existente.creadoPorId === session.user.id
+    if (!esPropia && !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))) {
+      return forbiddenResponse()
+    }
+
+    await TareasService.eliminar(id)
+
+    return successResponse(null, {
+      message: 'Tarea eliminada exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error deleting task', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { auth } from '@/lib/auth'
+import { PermissionService } from '@/lib/services/permission-service'
+import { TareasService } from '@/lib/services/tareas-service'
+import { CreateTareaSchema, TareaFiltersSchema } from '@/lib/validations/tarea'
+import { logger } from '@/lib/logger'
+import { FILTRO_ASIGNADO } from '@/lib/constants'
+import {
+  successResponse,
+  validationErrorResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+  notFoundResponse,
+  forbiddenResponse,
+  handlePrismaError,
+} from '@/lib/api-response'
+
+// GET /api/tareas - Tareas de una bandeja o de un cliente
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_VIEW'))) {
+      return forbiddenResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const validationResult = TareaFiltersSchema.safeParse({
+      bandeja: searchParams.get('bandeja') || undefined,
+      clienteId: searchParams.get('clienteId') || undefined,
+      asignado: searchParams.get('asignado') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    })
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    // Other people's inboxes are only visible to users who can assign tasks
+    const filtros = validationResult.data
+    if (
+      filtros.asignado &&
+      filtros.asignado !== FILTRO_ASIGNADO.MIOS &&
+      filtros.asignado !== session.user.id &&
+      !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))
+    ) {
+      return forbiddenResponse()
+    }
+
+    const tareas = await TareasService.listar(filtros, session.user.id)
+
+    return successResponse(tareas)
+
+  } catch (error) {
+    logger.error('Error fetching tasks', error instanceof Error ? error : new Error(String(error)))
+    return serverErrorResponse(error instanceof Error ? error : undefined)
+  }
+}
+
+// POST /api/tareas - Crear tarea
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_CREATE'))) {
+      return forbiddenResponse()
+    }
+
+    const body = await request.json()
+
+    const validationResult = CreateTareaSchema.safeParse(body)
+    if (!validationResult.success) {
+      return validationErrorResponse(validationResult.error)
+    }
+
+    const data = validationResult.data
+
+    // Assigning tasks to someone else follows the client assignment permission
+    if (
+      data.asignadoAId &&
+      data.asignadoAId !== session.user.id &&
+      !(await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'))
+    ) {
+      return forbiddenResponse('No tenés permisos para asignar tareas a otros usuarios')
+    }
+
+    if (data.clienteId) {
+      const cliente = await prisma.cliente.findFirst({
+        where: { id: data.clienteId, deletedAt: null },
+        select: { id: true },
+      })
+
+      if (!cliente) {
+        return notFoundResponse('Cliente')
+      }
+    }
+
+    const tarea = await TareasService.crear(data, session.user.id)
+
+    logger.info('Task created', { tareaId: tarea.id, clienteId: data.clienteId })
+
+    return successResponse(tarea, {
+      status: 201,
+      message: 'Tarea creada exitosamente'
+    })
+
+  } catch (error) {
+    logger.error('Error creating task', error instanceof Error ? error : new Error(String(error)))
+    return handlePrismaError(error)
+  }
+}
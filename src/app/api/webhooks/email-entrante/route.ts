@@ -0,0 +1,63 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { RespuestasService } from '@/lib/services/respuestas-service';
+import { logger } from '@/lib/logger';
+
+// Form fields other inbound providers post the raw message in (SendGrid, Mailgun)
+const CAMPOS_MIME = ['email', 'body-mime'];
+
+async function leerMensaje(request: NextRequest): Promise<Buffer | null> {
+  if (!request.headers.get('content-type')?.includes('multipart/form-data')) {
+    const raw = Buffer.from(await request.arrayBuffer());
+    return raw.length > 0 ? raw : null;
+  }
+
+  const form = await request.formData();
+  for (const campo of CAMPOS_MIME) {
+    const valor = form.get(campo);
+    if (typeof valor === 'string') return Buffer.from(valor, 'utf8');
+    if (valor) return Buffer.from(await valor.arrayBuffer());
+  }
+  return null;
+}
+
+function tokenValido(token: string | null, secret: string): boolean {
+  if (!token) return false;
+  const esperado = Buffer.from(secret);
+  const recibido = Buffer.from(token);
+  return esperado.length === recibido.length && timingSafeEqual(esperado, recibido);
+}
+
+// Inbound email as a raw MIME message: the request body (message/rfc822) or the
+// "email" / "body-mime" field of a form post. Configure INBOUND_EMAIL_SECRET and
+// send it as a Bearer token or as the "token" query parameter.
+export async function POST(request: NextRequest) {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+    ?? request.nextUrl.searchParams.get('token');
+
+  if (!secret || !tokenValido(token, secret)) {
+    logger.warn('Rejected inbound email webhook');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let raw;
+  try {
+    raw = await leerMensaje(request);
+  } catch {
+    raw = null;
+  }
+  if (!raw) {
+    return NextResponse.json({ error: 'Missing MIME message' }, { status: 400 });
+  }
+
+  try {
+    const procesado = await RespuestasService.registrarEmailMime(raw);
+
+    return NextResponse.json({ success: true, procesado });
+  } catch (error) {
+    // Non-2xx: the provider retries the delivery later
+    logger.error('Error processing inbound email', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Processing failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhook } from '@/lib/services/email-service';
+import { EntregabilidadService } from '@/lib/services/entregabilidad-service';
+import { RespuestasService } from '@/lib/services/respuestas-service';
+import { logger } from '@/lib/logger';
+
+// Resend delivery events (delivered, delayed, bounced, complained) and inbound
+// emails (received), for domains with Resend receiving enabled.
+// Signed with Svix: configure RESEND_WEBHOOK_SECRET with the endpoint's signing secret.
+export async function POST(request: NextRequest) {
+  // The signature covers the raw body
+  const payload = await request.text();
+
+  let evento;
+  try {
+    evento = verifyWebhook(payload, {
+      id: request.headers.get('svix-id') ?? '',
+      timestamp: request.headers.get('svix-timestamp') ?? '',
+      signature: request.headers.get('svix-signature') ?? '',
+    });
+  } catch (error) {
+    logger.warn('Rejected Resend webhook', { error: error instanceof Error ? error.message : String(error) });
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  try {
+    const procesado = evento.type === 'email.received'
+      ? await RespuestasService.registrarEmailResend(evento.data.email_id)
+      : await EntregabilidadService.procesarEvento(evento);
+
+    return NextResponse.json({ success: true, procesado });
+  } catch (error) {
+    // Non-2xx: Resend retries the delivery later
+    logger.error('Error processing Resend webhook', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Processing failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verificarSuscripcionWhatsApp, verifyWhatsAppWebhook } from '@/lib/services/whatsapp-service';
+import { WhatsAppEventosService } from '@/lib/services/whatsapp-eventos-service';
+import { logger } from '@/lib/logger';
+
+// Subscription check of the webhook in the Meta app dashboard.
+// Configure WHATSAPP_WEBHOOK_VERIFY_TOKEN with the "Verify token" entered there.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const challenge = verificarSuscripcionWhatsApp(
+    searchParams.get('hub.mode'),
+    searchParams.get('hub.verify_token'),
+    searchParams.get('hub.challenge')
+  );
+
+  if (challenge === null) {
+    return NextResponse.json({ error: 'Invalid verify token' }, { status: 403 });
+  }
+  return new NextResponse(challenge, { headers: { 'Content-Type': 'text/plain' } });
+}
+
+// WhatsApp Cloud API statuses (sent, delivered, read, failed) and inbound messages.
+// Signed with the app secret: configure WHATSAPP_APP_SECRET.
+export async function POST(request: NextRequest) {
+  // The signature covers the raw body
+  const payload = await request.text();
+
+  let evento;
+  try {
+    evento = verifyWhatsAppWebhook(payload, request.headers.get('x-hub-signature-256') ?? '');
+  } catch (error) {
+    logger.warn('Rejected WhatsApp webhook', { error: error instanceof Error ? error.message : String(error) });
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  try {
+    const procesado = await WhatsAppEventosService.procesarWebhook(evento);
+
+    return NextResponse.json({ success: true, procesado });
+  } catch (error) {
+    // Non-2xx: Meta retries the delivery later
+    logger.error('Error processing WhatsApp webhook', error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Processing failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import type { Metadata } from 'next';
+import type { ReactNode } from 'react';
+import { BajasService } from '@/lib/services/bajas-service';
+
+export const metadata: Metadata = {
+  title: 'Darse de baja',
+  robots: { index: false },
+};
+
+/**
+ * Public page behind the unsubscribe link of our emails: no session, the
+ * signed token in the URL identifies the message and its recipient
+ */
+export default async function BajaPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ listo?: string }>;
+}) {
+  const { token } = await params;
+  const { listo } = await searchParams;
+  const baja = await BajasService.consultar(token);
+
+  let titulo: string;
+  let contenido: ReactNode;
+
+  if (!baja) {
+    titulo = 'Enlace no válido';
+    contenido = <p className="text-sm text-gray-500">Este enlace de baja no es válido o ha caducado.</p>;
+  } else if (listo || baja.dadoDeBaja) {
+    titulo = 'Baja confirmada';
+    contenido = (
+      <p className="text-sm text-gray-500">
+        No volveremos a enviar emails a <span className="font-medium text-gray-900">{baja.destinatario}</span>.
+      </p>
+    );
+  } else {
+    titulo = 'Darse de baja';
+    contenido = (
+      <form method="post" action={`/api/baja/${token}`} className="space-y-4">
+        <p className="text-sm text-gray-500">
+          ¿Dejar de recibir nuestros emails en <span className="font-medium text-gray-900">{baja.destinatario}</span>?
+        </p>
+        <button
+          type="submit"
+          className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Confirmar baja
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10 text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-3">{titulo}</h3>
+          {contenido}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -54,6 +54,12 @@ export default async function ActividadesPage({ params }: ActividadesPageProps)
           name: true,
           email: true,
         }
+      },
+      oportunidad: {
+        select: {
+          id: true,
+          titulo: true,
+        }
       }
     },
     orderBy: { fecha: 'desc' },
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/Button';
 import { CheckIcon, XMarkIcon, SparklesIcon } from '@heroicons/react/24/outline';
 import { UltimaIADisplay } from '@/components/UltimaIADisplay';
 import { EnrichmentModal } from '@/components/enrichment/EnrichmentModal';
+import { MENSAJES_PROGRAMADOS } from '@/lib/constants';
 
 interface Cliente {
   id: string;
@@ -24,24 +25,43 @@ interface Cliente {
   ciudad: string | null;
   provincia: string | null;
   codigoPostal: string | null;
+  zonaHoraria: string | null;
+  consentimientoEmail: string;
+  consentimientoWhatsApp: string;
+  consentimientoActualizadoEn: Date | null;
   industria: string | null;
   fuente: string;
   estado: string;
   prioridad: string;
   notas: string | null;
   ultimaIA?: Date | null;
+  asignadoAId: string | null;
+  colaboradores: { id: string }[];
+}
+
+interface Usuario {
+  id: string;
+  name: string | null;
+  email: string;
 }
 
 interface EditarClienteFormProps {
   cliente: Cliente;
+  usuarios: Usuario[];
+  puedeAsignar: boolean;
 }
 
 const ESTADOS = ['NUEVO', 'PRIMER_CONTACTO', 'EN_TRATATIVAS', 'EN_DESARROLLO', 'FINALIZADO', 'RECONTACTO'];
 const PRIORIDADES = ['BAJA', 'MEDIA', 'ALTA', 'CRITICA'];
 const FUENTES = ['IMPORTADO', 'MANUAL', 'REFERIDO', 'CONTACTO_CLIENTE'];
+const CONSENTIMIENTOS = [
+  { value: 'DESCONOCIDO', label: 'Sin especificar' },
+  { value: 'OTORGADO', label: 'Otorgado' },
+  { value: 'REVOCADO', label: 'Revocado (no contactar)' },
+];
 const INDUSTRIAS = ['GASTRONOMIA', 'SALUD', 'INDUMENTARIA', 'BELLEZA', 'DEPORTES', 'COMERCIO', 'CONSTRUCCION', 'SERVICIOS', 'INDUSTRIA', 'TURISMO', 'CULTURA', 'OTROS'];
 
-export default function EditarClienteForm({ cliente }: EditarClienteFormProps) {
+export default function EditarClienteForm({ cliente, usuarios, puedeAsignar }: EditarClienteFormProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -63,12 +83,25 @@ export default function EditarClienteForm({ cliente }: EditarClienteFormProps) {
     ciudad: cliente.ciudad || '',
     provincia: cliente.provincia || '',
     codigoPostal: cliente.codigoPostal || '',
+    zonaHoraria: cliente.zonaHoraria || '',
+    consentimientoEmail: cliente.consentimientoEmail || 'DESCONOCIDO',
+    consentimientoWhatsApp: cliente.consentimientoWhatsApp || 'DESCONOCIDO',
     industria: cliente.industria || '',
     fuente: cliente.fuente || 'MANUAL',
     estado: cliente.estado || 'NUEVO',
     prioridad: cliente.prioridad || 'MEDIA',
-    notas: cliente.notas || ''
+    notas: cliente.notas || '',
+    asignadoAId: cliente.asignadoAId || ''
   });
+  const [colaboradorIds, setColaboradorIds] = useState<string[]>(
+    cliente.colaboradores.map(c => c.id)
+  );
+
+  const toggleColaborador = (id: string) => {
+    setColaboradorIds(prev =>
+      prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]
+    );
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -85,6 +118,12 @@ export default function EditarClienteForm({ cliente }: EditarClienteFormProps) {
           ...formData,
           tieneSSL: formData.tieneSSL === '' ? null : formData.tieneSSL === 'true',
           esResponsive: formData.esResponsive === '' ? null : formData.esResponsive === 'true',
+          zonaHoraria: formData.zonaHoraria || null,
+          // Only users allowed to assign clients send ownership fields
+          asignadoAId: puedeAsignar ? formData.asignadoAId || null : undefined,
+          colaboradorIds: puedeAsignar
+            ? colaboradorIds.filter(id => id !== formData.asignadoAId)
+            : undefined,
         }),
       });
 
@@ -392,7 +431,75 @@ export default function EditarClienteForm({ cliente }: EditarClienteFormProps) {
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
               />
             </div>
+
+            <div>
+              <label htmlFor="zonaHoraria" className="block text-sm font-medium text-gray-700">
+                Zona horaria
+              </label>
+              <select
+                id="zonaHoraria"
+                name="zonaHoraria"
+                value={formData.zonaHoraria}
+                onChange={handleChange}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+              >
+                <option value="">Por defecto ({MENSAJES_PROGRAMADOS.ZONA_HORARIA_DEFAULT.replace(/_/g, ' ')})</option>
+                {formData.zonaHoraria && !(MENSAJES_PROGRAMADOS.ZONAS_HORARIAS as readonly string[]).includes(formData.zonaHoraria) && (
+                  <option value={formData.zonaHoraria}>{formData.zonaHoraria.replace(/_/g, ' ')}</option>
+                )}
+                {MENSAJES_PROGRAMADOS.ZONAS_HORARIAS.map((zona) => (
+                  <option key={zona} value={zona}>{zona.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Para programar envíos en su hora local</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Consentimiento */}
+        <div>
+          <h4 className="text-base font-medium text-gray-900 mb-4">Consentimiento</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="consentimientoEmail" className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <select
+                id="consentimientoEmail"
+                name="consentimientoEmail"
+                value={formData.consentimientoEmail}
+                onChange={handleChange}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+              >
+                {CONSENTIMIENTOS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="consentimientoWhatsApp" className="block text-sm font-medium text-gray-700">
+                WhatsApp
+              </label>
+              <select
+                id="consentimientoWhatsApp"
+                name="consentimientoWhatsApp"
+                value={formData.consentimientoWhatsApp}
+                onChange={handleChange}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+              >
+                {CONSENTIMIENTOS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
           </div>
+          <p className="mt-2 text-xs text-gray-500">
+            No se envían mensajes por un canal revocado. La baja desde el enlace de un email lo revoca automáticamente
+            {cliente.consentimientoActualizadoEn &&
+              ` (último cambio: ${new Date(cliente.consentimientoActualizadoEn).toLocaleDateString('es-ES')})`}
+            .
+          </p>
         </div>
 
         {/* Gestión comercial */}
@@ -456,7 +563,51 @@ export default function EditarClienteForm({ cliente }: EditarClienteFormProps) {
               </select>
             </div>
 
+            <div>
+              <label htmlFor="asignadoAId" className="block text-sm font-medium text-gray-700">
+                Asignado a
+              </label>
+              <select
+                id="asignadoAId"
+                name="asignadoAId"
+                value={formData.asignadoAId}
+                onChange={handleChange}
+                disabled={!puedeAsignar}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white disabled:bg-gray-100 disabled:text-gray-500"
+              >
+                <option value="">Sin asignar</option>
+                {usuarios.map((usuario) => (
+                  <option key={usuario.id} value={usuario.id}>
+                    {usuario.name || usuario.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+
           </div>
+
+          {puedeAsignar && (
+            <div className="mt-6">
+              <span className="block text-sm font-medium text-gray-700">
+                Colaboradores
+              </span>
+              <div className="mt-2 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {usuarios
+                  .filter((usuario) => usuario.id !== formData.asignadoAId)
+                  .map((usuario) => (
+                    <label key={usuario.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={colaboradorIds.includes(usuario.id)}
+                        onChange={() => toggleColaborador(usuario.id)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {usuario.name || usuario.email}
+                    </label>
+                  ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Notas */}
@@ -1,6 +1,8 @@
 import { auth } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
+import { PermissionService } from '@/lib/services/permission-service';
+import { AsignacionService } from '@/lib/services/asignacion-service';
 import { notFound } from 'next/navigation';
 import EditarClienteForm from './EditarClienteForm';
 import Link from 'next/link';
@@ -27,9 +29,16 @@ export default async function EditarClientePage({ params }: EditarClienteProps)
   const { id } = await params;
 
   // Obtener cliente específico
-  const cliente = await prisma.cliente.findUnique({
-    where: { id },
-  });
+  const [cliente, usuarios, puedeAsignar] = await Promise.all([
+    prisma.cliente.findUnique({
+      where: { id },
+      include: {
+        colaboradores: { select: { id: true } },
+      },
+    }),
+    AsignacionService.getUsuariosAsignables(),
+    PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'),
+  ]);
 
   if (!cliente) {
     notFound();
@@ -91,7 +100,11 @@ export default async function EditarClientePage({ params }: EditarClienteProps)
         </div>
 
         {/* Formulario */}
-        <EditarClienteForm cliente={cliente} />
+        <EditarClienteForm
+          cliente={cliente}
+          usuarios={usuarios}
+          puedeAsignar={puedeAsignar}
+        />
       </main>
     </div>
   );
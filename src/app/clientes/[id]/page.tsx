@@ -15,6 +15,7 @@ import {
   BuildingOfficeIcon,
   ClockIcon,
   PlusIcon,
+  UserCircleIcon,
 } from '@heroicons/react/24/outline';
 import { CopyButton } from '@/components/ui/CopyButton';
 import dynamic from 'next/dynamic';
@@ -33,6 +34,12 @@ const ClientEnrichmentSection = dynamic(
 import AuthenticatedLayout from '@/components/AuthenticatedLayout';
 import { ContactButtons } from '@/components/ContactButtons';
 import { MensajeHistory } from '@/components/MensajeHistory';
+import { ContactosCliente } from '@/components/ContactosCliente';
+import { OportunidadesCliente } from '@/components/OportunidadesCliente';
+import { TareasCliente } from '@/components/TareasCliente';
+import { SecuenciasCliente } from '@/components/SecuenciasCliente';
+import { PermissionService } from '@/lib/services/permission-service';
+import { DATOS_PLANTILLA } from '@/lib/services/contact-service';
 
 interface ClienteDetallesProps {
   params: {
@@ -90,9 +97,28 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
 
   const { id } = await params;
 
+  const [puedeEditar, puedeCrearTareas, puedeInscribir] = await Promise.all([
+    PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'),
+    PermissionService.hasPermission(session.user.role, 'ACTIVITIES_CREATE'),
+    PermissionService.hasPermission(session.user.role, 'MESSAGES_SEND'),
+  ]);
+
   const cliente = await prisma.cliente.findUnique({
     where: { id },
     include: {
+      asignadoA: {
+        select: {
+          name: true,
+          email: true
+        }
+      },
+      colaboradores: {
+        select: {
+          id: true,
+          name: true,
+          email: true
+        }
+      },
       actividades: {
         orderBy: {
           fecha: 'desc'
@@ -111,7 +137,8 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
         select: {
           actividades: true
         }
-      }
+      },
+      ...DATOS_PLANTILLA,
     }
   });
 
@@ -119,6 +146,11 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
     notFound();
   }
 
+  // Merged duplicates point to the surviving client
+  if (cliente.deletedAt && cliente.fusionadoEnId) {
+    redirect(`/clientes/${cliente.fusionadoEnId}`);
+  }
+
   const estadoConfig = {
     'NUEVO': { bg: 'bg-blue-100', text: 'text-blue-700', dot: 'bg-blue-500' },
     'PRIMER_CONTACTO': { bg: 'bg-yellow-100', text: 'text-yellow-700', dot: 'bg-yellow-500' },
@@ -174,6 +206,9 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
                 facebook: cliente.facebook,
                 linkedin: cliente.linkedin,
                 twitter: cliente.twitter,
+                zonaHoraria: cliente.zonaHoraria,
+                websiteAnalysis: cliente.websiteAnalysis,
+                enrichments: cliente.enrichments,
               }}
             />
             <Link href={`/clientes/${cliente.id}/actividades/nueva`}>
@@ -228,6 +263,18 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
                       {cliente.ciudad}{cliente.provincia && `, ${cliente.provincia}`}
                     </p>
                   )}
+                  {/* Ownership */}
+                  <p className="text-sm text-gray-500 mt-1 flex items-center">
+                    <UserCircleIcon className="w-4 h-4 mr-1" />
+                    {cliente.asignadoA
+                      ? `Asignado a ${cliente.asignadoA.name || cliente.asignadoA.email}`
+                      : 'Sin asignar'}
+                    {cliente.colaboradores.length > 0 && (
+                      <span className="ml-1">
+                        · Colaboran: {cliente.colaboradores.map(c => c.name || c.email).join(', ')}
+                      </span>
+                    )}
+                  </p>
                 </div>
               </div>
 
@@ -319,8 +366,14 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
                         <EnvelopeIcon className="w-4 h-4 text-blue-600" />
                       </div>
                       <div className="min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate">{cliente.email}</p>
-                        <p className="text-xs text-gray-500">Email</p>
+                        <p className={`text-sm font-medium truncate ${cliente.emailInvalido ? 'text-red-600 line-through' : 'text-gray-900'}`}>
+                          {cliente.email}
+                        </p>
+                        <p className={`text-xs ${cliente.emailInvalido ? 'text-red-600' : 'text-gray-500'}`}>
+                          {cliente.emailInvalido
+                            ? 'Email inválido (rebotó)'
+                            : cliente.consentimientoEmail === 'REVOCADO' ? 'Email · dado de baja' : 'Email'}
+                        </p>
                       </div>
                     </div>
                     <CopyButton text={cliente.email} label="email" />
@@ -348,7 +401,9 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
                       </div>
                       <div className="min-w-0">
                         <p className="text-sm font-medium text-gray-900">{cliente.whatsapp}</p>
-                        <p className="text-xs text-gray-500">WhatsApp</p>
+                        <p className={`text-xs ${cliente.consentimientoWhatsApp === 'REVOCADO' ? 'text-red-600' : 'text-gray-500'}`}>
+                          {cliente.consentimientoWhatsApp === 'REVOCADO' ? 'WhatsApp · no contactar' : 'WhatsApp'}
+                        </p>
                       </div>
                     </div>
                     <CopyButton text={cliente.whatsapp} label="whatsapp" />
@@ -363,6 +418,18 @@ export default async function ClienteDetallesPage({ params }: ClienteDetallesPro
               </div>
             </div>
 
+            {/* Contact Persons Card */}
+            <ContactosCliente clienteId={cliente.id} puedeEditar={puedeEditar} />
+
+            {/* Tasks Card */}
+            <TareasCliente clienteId={cliente.id} puedeCrear={puedeCrearTareas} />
+
+            {/* Outreach Sequences Card */}
+            <SecuenciasCliente clienteId={cliente.id} puedeInscribir={puedeInscribir} />
+
+            {/* Opportunities Card */}
+            <OportunidadesCliente clienteId={cliente.id} puedeEditar={puedeEditar} />
+
             {/* Location Card */}
             {(cliente.direccion || cliente.ciudad || cliente.codigoPostal) && (
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
@@ -0,0 +1,97 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AsignacionService } from '@/lib/services/asignacion-service';
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import { FusionarClientesForm } from '@/components/duplicados/FusionarClientesForm';
+
+export const metadata: Metadata = {
+  title: 'Fusionar clientes',
+  description: 'Fusion de clientes duplicados',
+};
+
+interface SearchParams {
+  principal?: string;
+  secundario?: string;
+}
+
+export default async function FusionarClientesPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const session = await requirePermission('CLIENTS_MERGE', '/clientes');
+  const { principal: principalId, secundario: secundarioId } = await searchParams;
+
+  if (!principalId || !secundarioId || principalId === secundarioId) {
+    notFound();
+  }
+
+  const findCliente = (id: string) =>
+    prisma.cliente.findFirst({
+      where: { id, deletedAt: null },
+      select: {
+        id: true,
+        fechaCreacion: true,
+        nombre: true,
+        email: true,
+        telefono: true,
+        whatsapp: true,
+        instagram: true,
+        facebook: true,
+        linkedin: true,
+        twitter: true,
+        direccion: true,
+        ciudad: true,
+        provincia: true,
+        codigoPostal: true,
+        industria: true,
+        sitioWeb: true,
+        estado: true,
+        prioridad: true,
+        notas: true,
+        asignadoAId: true,
+        _count: {
+          select: {
+            actividades: { where: { deletedAt: null } },
+            mensajes: { where: { deletedAt: null } },
+          },
+        },
+      },
+    });
+
+  const [principal, secundario, usuarios] = await Promise.all([
+    findCliente(principalId),
+    findCliente(secundarioId),
+    AsignacionService.getUsuariosAsignables(),
+  ]);
+
+  if (!principal || !secundario) {
+    notFound();
+  }
+
+  return (
+    <AuthenticatedLayout currentPath="/clientes" userRole={session.user?.role}>
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link
+            href="/clientes/duplicados"
+            className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Volver a Duplicados
+          </Link>
+          <h2 className="mt-2 text-2xl font-bold text-gray-900">Fusionar Clientes</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Elige qué valor conservar en cada campo con diferencias
+          </p>
+        </div>
+
+        <FusionarClientesForm principal={principal} secundario={secundario} usuarios={usuarios} />
+      </main>
+    </AuthenticatedLayout>
+  );
+}
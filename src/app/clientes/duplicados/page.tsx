@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { requirePermission } from '@/lib/auth';
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import { DuplicadosList } from '@/components/duplicados/DuplicadosList';
+
+export const metadata: Metadata = {
+  title: 'Clientes duplicados',
+  description: 'Deteccion y fusion de clientes duplicados',
+};
+
+export default async function DuplicadosPage() {
+  const session = await requirePermission('CLIENTS_MERGE', '/clientes');
+
+  return (
+    <AuthenticatedLayout currentPath="/clientes" userRole={session.user?.role}>
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link
+            href="/clientes"
+            className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Volver a Clientes
+          </Link>
+          <h2 className="mt-2 text-2xl font-bold text-gray-900">Clientes Duplicados</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Posibles duplicados según nombre, email, teléfono y sitio web
+          </p>
+        </div>
+
+        <DuplicadosList />
+      </main>
+    </AuthenticatedLayout>
+  );
+}
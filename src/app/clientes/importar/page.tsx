@@ -0,0 +1,43 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { requirePermission } from '@/lib/auth';
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import { ImportWizard } from '@/components/importacion/ImportWizard';
+import { ImportacionesHistory } from '@/components/importacion/ImportacionesHistory';
+
+export const metadata: Metadata = {
+  title: 'Importar clientes',
+  description: 'Importacion de clientes desde CSV o Excel',
+};
+
+export default async function ImportarClientesPage() {
+  const session = await requirePermission('CLIENTS_IMPORT', '/clientes');
+
+  return (
+    <AuthenticatedLayout currentPath="/clientes" userRole={session.user?.role}>
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <Link
+            href="/clientes"
+            className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Volver a Clientes
+          </Link>
+          <h2 className="mt-2 text-2xl font-bold text-gray-900">Importar Clientes</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Sube un archivo CSV o XLSX, asigna las columnas y valida antes de importar
+          </p>
+        </div>
+
+        <ImportWizard />
+
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Importaciones recientes</h3>
+          <ImportacionesHistory />
+        </div>
+      </main>
+    </AuthenticatedLayout>
+  );
+}
@@ -2,15 +2,29 @@ import type { Metadata } from 'next';
 import { auth } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
+import { PermissionService } from '@/lib/services/permission-service';
+import { AsignacionService } from '@/lib/services/asignacion-service';
+import { PipelineService } from '@/lib/services/pipeline-service';
+import { whereTareasVencidas } from '@/lib/services/tareas-service';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
+import {
+  parseClientesFiltros,
+  buildClientesWhere,
+  buildClientesOrderBy,
+  hayFiltrosActivos,
+} from '@/lib/clientes-filtros';
 import Link from 'next/link';
 import { Button } from '@/components/ui/Button';
 import AuthenticatedLayout from '@/components/AuthenticatedLayout';
 import {
   UsersIcon,
+  ArrowUpTrayIcon,
+  DocumentDuplicateIcon,
 } from '@heroicons/react/24/outline';
 import { Pagination } from '@/components/Pagination';
 import { FiltrosAvanzados } from '@/components/FiltrosAvanzados';
 import { TablaClientes } from '@/components/TablaClientes';
+import type { VistaClientes } from '@/types';
 
 export const metadata: Metadata = {
   title: 'Clientes',
@@ -22,6 +36,7 @@ interface SearchParams {
   estado?: string;
   industria?: string;
   ciudad?: string;
+  asignado?: string;
   fechaDesde?: string;
   fechaHasta?: string;
   conIA?: string;
@@ -33,7 +48,7 @@ interface SearchParams {
   page?: string;
   mostrarFiltros?: string;
   columnas?: string;
-  vista?: 'cards' | 'table';
+  vista?: VistaClientes;
 }
 
 export default async function ClientesPage({
@@ -50,111 +65,35 @@ export default async function ClientesPage({
   // Obtener searchParams de manera async
   const params = await searchParams;
 
-  // Valid sort fields to prevent injection/corruption
-  const validSortFields = [
-    'nombre', 'email', 'telefono', 'estado', 'prioridad', 'industria',
-    'ciudad', 'provincia', 'fuente', 'fechaCreacion', 'fechaModific',
-    'ultimoContacto', 'ultimaIA', 'sitioWeb'
-  ];
-
   // Parámetros de búsqueda con defaults
-  const search = params.search || '';
-  const estado = params.estado || '';
-  const industria = params.industria || '';
-  const ciudad = params.ciudad || '';
-  const fechaDesde = params.fechaDesde || '';
-  const fechaHasta = params.fechaHasta || '';
-  const conIA = params.conIA || '';
-  const conEmail = params.conEmail || '';
-  const conTelefono = params.conTelefono || '';
-  const conSitioWeb = params.conSitioWeb || '';
-  const rawSortField = params.sort || 'fechaCreacion';
-  const sortField = validSortFields.includes(rawSortField) ? rawSortField : 'fechaCreacion';
-  const sortOrder = params.order === 'asc' ? 'asc' : 'desc';
+  const filtros = parseClientesFiltros(params);
+  const {
+    search, estado, industria, ciudad, asignado, fechaDesde, fechaHasta,
+    conIA, conEmail, conTelefono, conSitioWeb, sortField, sortOrder,
+  } = filtros;
   const page = parseInt(params.page || '1') || 1;
   const pageSize = 20;
   const mostrarFiltros = params.mostrarFiltros || '';
+  const esKanban = params.vista === 'kanban';
 
-  // Construir filtros de Prisma más complejos
-  const whereClause: Record<string, unknown> = {};
-  
-  if (search) {
-    whereClause.OR = [
-      { nombre: { contains: search, mode: 'insensitive' } },
-      { email: { contains: search, mode: 'insensitive' } },
-      { telefono: { contains: search } },
-      { industria: { contains: search, mode: 'insensitive' } },
-      { direccion: { contains: search, mode: 'insensitive' } },
-      { ciudad: { contains: search, mode: 'insensitive' } },
-    ];
-  }
-  
-  if (estado) {
-    whereClause.estado = estado;
-  }
-  
-  if (industria) {
-    whereClause.industria = industria;
-  }
-
-  if (ciudad) {
-    whereClause.ciudad = ciudad;
-  }
-
-  if (fechaDesde || fechaHasta) {
-    whereClause.fechaCreacion = {} as { gte?: Date; lte?: Date };
-    const fechaCreacionClause = whereClause.fechaCreacion as { gte?: Date; lte?: Date };
-    if (fechaDesde) {
-      fechaCreacionClause.gte = new Date(fechaDesde);
-    }
-    if (fechaHasta) {
-      fechaCreacionClause.lte = new Date(fechaHasta + 'T23:59:59');
-    }
-  }
-  
-  if (conIA === 'si') {
-    whereClause.ultimaIA = { not: null };
-  } else if (conIA === 'no') {
-    whereClause.ultimaIA = null;
-  }
-  
-  if (conEmail === 'si') {
-    whereClause.email = { not: null };
-  } else if (conEmail === 'no') {
-    whereClause.email = null;
-  }
-  
-  if (conTelefono === 'si') {
-    whereClause.telefono = { not: null };
-  } else if (conTelefono === 'no') {
-    whereClause.telefono = null;
-  }
-  
-  if (conSitioWeb === 'si') {
-    whereClause.sitioWeb = { not: null };
-  } else if (conSitioWeb === 'no') {
-    whereClause.sitioWeb = null;
-  }
-
-  // Obtener clientes con filtros y ordenado expandido
-  const orderByClause: Record<string, unknown> = {};
-  
-  if (sortField === 'ultimaIA') {
-    orderByClause.ultimaIA = sortOrder;
-  } else {
-    orderByClause[sortField] = sortOrder;
-  }
+  // Construir filtros de Prisma (compartidos con la exportación)
+  const whereClause = buildClientesWhere(filtros, session.user.id);
+  const orderByClause = buildClientesOrderBy(filtros);
 
   // Calculate the date for "new this month" stat
   const thirtyDaysAgo = new Date(new Date().setDate(new Date().getDate() - 30));
 
   // Fetch all data in parallel for better performance
-  const [clientes, totalClientes, industriasData, ciudadesData, totalClientesGlobal, clientesActivos, nuevosEsteMes] = await Promise.all([
+  const [clientes, totalClientes, industriasData, ciudadesData, totalClientesGlobal, clientesActivos, nuevosEsteMes, usuarios, puedeAsignar, puedeImportar, puedeExportar, puedeFusionar, puedeEditar, puedeEnriquecer, tablero] = await Promise.all([
     prisma.cliente.findMany({
       where: whereClause,
       orderBy: orderByClause,
       take: pageSize,
       skip: (page - 1) * pageSize,
+      include: {
+        asignadoA: { select: { id: true, name: true, email: true } },
+        _count: { select: { tareas: { where: whereTareasVencidas() } } },
+      },
     }),
     prisma.cliente.count({ where: whereClause }),
     prisma.cliente.findMany({
@@ -169,7 +108,16 @@ export default async function ClientesPage({
     }),
     prisma.cliente.count(),
     prisma.cliente.count({ where: { estado: { not: 'FINALIZADO' } } }),
-    prisma.cliente.count({ where: { fechaCreacion: { gte: thirtyDaysAgo } } })
+    prisma.cliente.count({ where: { fechaCreacion: { gte: thirtyDaysAgo } } }),
+    AsignacionService.getUsuariosAsignables(),
+    PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN'),
+    PermissionService.hasPermission(session.user.role, 'CLIENTS_IMPORT'),
+    PermissionService.hasPermission(session.user.role, 'CLIENTS_EXPORT'),
+    PermissionService.hasPermission(session.user.role, 'CLIENTS_MERGE'),
+    PermissionService.hasPermission(session.user.role, 'CLIENTS_EDIT'),
+    PermissionService.hasPermission(session.user.role, 'ENRICHMENT_BULK'),
+    // The Kanban board loads its own per-stage columns with the same filters
+    esKanban ? PipelineService.getTablero(whereClause, orderByClause) : undefined,
   ]);
 
   const industriasDisponibles = industriasData
@@ -184,6 +132,13 @@ export default async function ClientesPage({
 
   const totalPages = Math.ceil(totalClientes / pageSize);
 
+  const vistaAsignadoUrl = (valor: string) => {
+    const nuevosParams = new URLSearchParams(params as Record<string, string>);
+    nuevosParams.set('asignado', valor);
+    nuevosParams.delete('page');
+    return `/clientes?${nuevosParams.toString()}`;
+  };
+
   return (
     <AuthenticatedLayout currentPath="/clientes" userRole={session.user?.role}>
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -195,6 +150,46 @@ export default async function ClientesPage({
                 Gestiona tu base de datos de clientes
               </p>
             </div>
+            <div className="flex items-center gap-3">
+              {puedeFusionar && (
+                <Link href="/clientes/duplicados">
+                  <Button variant="outline">
+                    <DocumentDuplicateIcon className="h-4 w-4" />
+                    Duplicados
+                  </Button>
+                </Link>
+              )}
+              {puedeImportar && (
+                <Link href="/clientes/importar">
+                  <Button variant="outline">
+                    <ArrowUpTrayIcon className="h-4 w-4" />
+                    Importar
+                  </Button>
+                </Link>
+              )}
+              <div className="inline-flex rounded-md shadow-sm">
+                <Link
+                  href={vistaAsignadoUrl(FILTRO_ASIGNADO.MIOS)}
+                  className={`px-4 py-2 text-sm font-medium border rounded-l-md ${
+                    asignado === FILTRO_ASIGNADO.MIOS
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  Mis clientes
+                </Link>
+                <Link
+                  href={vistaAsignadoUrl(FILTRO_ASIGNADO.TODOS)}
+                  className={`px-4 py-2 text-sm font-medium border-t border-b border-r rounded-r-md ${
+                    asignado === FILTRO_ASIGNADO.TODOS
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  Todos
+                </Link>
+              </div>
+            </div>
           </div>
         </div>
 
@@ -237,6 +232,7 @@ export default async function ClientesPage({
             estado={estado}
             industria={industria}
             ciudad={ciudad}
+            asignado={asignado}
             fechaDesde={fechaDesde}
             fechaHasta={fechaHasta}
             conIA={conIA}
@@ -247,25 +243,33 @@ export default async function ClientesPage({
             sortOrder={sortOrder}
             industriasDisponibles={industriasDisponibles}
             ciudadesDisponibles={ciudadesDisponibles}
+            usuarios={usuarios}
             mostrarFiltros={mostrarFiltros}
             columnas={params.columnas}
+            vista={params.vista}
           />
 
           {/* Tabla de clientes con columnas seleccionables */}
           <div className="p-6">
             <TablaClientes
-              clientes={clientes}
+              clientes={clientes.map(({ _count, ...cliente }) => ({ ...cliente, tareasVencidas: _count.tareas }))}
               totalClientes={totalClientes}
               params={params as Record<string, string>}
               sortField={sortField}
               sortOrder={sortOrder}
               columnasIniciales={params.columnas}
               vistaInicial={params.vista}
+              tablero={tablero}
+              usuarios={usuarios}
+              puedeAsignar={puedeAsignar}
+              puedeExportar={puedeExportar}
+              puedeEditar={puedeEditar}
+              puedeEnriquecer={puedeEnriquecer}
             />
           </div>
           
           {/* Paginación */}
-          {totalPages > 1 && (
+          {totalPages > 1 && !esKanban && (
             <Pagination
               currentPage={page}
               totalPages={totalPages}
@@ -279,14 +283,14 @@ export default async function ClientesPage({
               <UsersIcon className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">No hay clientes</h3>
               <p className="mt-1 text-sm text-gray-500">
-                {search || estado || industria || ciudad || fechaDesde || fechaHasta || conIA || conEmail || conTelefono || conSitioWeb ?
+                {hayFiltrosActivos(filtros) || asignado !== FILTRO_ASIGNADO.TODOS ?
                   'No se encontraron clientes con los filtros aplicados.' :
                   'Comienza agregando tu primer cliente.'
                 }
               </p>
-              {(search || estado || industria || ciudad || fechaDesde || fechaHasta || conIA || conEmail || conTelefono || conSitioWeb) && (
+              {(hayFiltrosActivos(filtros) || asignado !== FILTRO_ASIGNADO.TODOS) && (
                 <div className="mt-6">
-                  <Link href="/clientes">
+                  <Link href={`/clientes?asignado=${FILTRO_ASIGNADO.TODOS}`}>
                     <Button variant="outline">Limpiar filtros</Button>
                   </Link>
                 </div>
@@ -0,0 +1,75 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { AsignacionService } from '@/lib/services/asignacion-service';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import { ColaMensajesProgramados } from '@/components/ColaMensajesProgramados';
+
+export const metadata: Metadata = {
+  title: 'Envíos programados',
+  description: 'Cola de emails programados para enviar más tarde',
+};
+
+export default async function MensajesProgramadosPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ usuario?: string }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/auth/login');
+  }
+
+  if (!(await PermissionService.hasPermission(session.user.role, 'MESSAGES_VIEW'))) {
+    redirect('/');
+  }
+
+  const params = await searchParams;
+  const puedeAsignar = await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN');
+  // Other people's queues are only visible to users who can assign clients
+  const usuario = puedeAsignar && params.usuario ? params.usuario : FILTRO_ASIGNADO.MIOS;
+  const usuarios = puedeAsignar ? await AsignacionService.getUsuariosAsignables() : undefined;
+
+  return (
+    <AuthenticatedLayout currentPath="/mensajes/programados" userRole={session.user?.role}>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Envíos programados</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Emails en cola. Se pueden editar o cancelar hasta que salen.
+            </p>
+          </div>
+          {usuarios && (
+            <form method="GET" className="flex items-center gap-2">
+              <select
+                name="usuario"
+                defaultValue={usuario}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={FILTRO_ASIGNADO.MIOS}>Mis envíos</option>
+                <option value={FILTRO_ASIGNADO.TODOS}>Todos los usuarios</option>
+                {usuarios.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.name || u.email}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Ver
+              </button>
+            </form>
+          )}
+        </div>
+
+        <ColaMensajesProgramados usuario={usuario} mostrarUsuario={usuario !== FILTRO_ASIGNADO.MIOS} />
+      </div>
+    </AuthenticatedLayout>
+  );
+}
@@ -1,6 +1,8 @@
 import { auth } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { prisma } from '@/lib/prisma';
+import { OportunidadesService } from '@/lib/services/oportunidades-service';
+import { formatMonto } from '@/lib/utils';
 import Link from 'next/link';
 import { Button } from '@/components/ui/Button'
 import AuthenticatedLayout from '@/components/AuthenticatedLayout';
@@ -9,7 +11,9 @@ import {
   ChartBarIcon, 
   PhoneIcon,
   EnvelopeIcon,
-  PlusIcon
+  PlusIcon,
+  BanknotesIcon,
+  ArrowTrendingUpIcon
 } from '@heroicons/react/24/outline'
 
 export default async function Home() {
@@ -20,7 +24,7 @@ export default async function Home() {
   }
 
   // Obtener métricas del dashboard
-  const [totalClientes, clientesActivos, actividadesHoy, clientesHoy, actividadesRecientes] = await Promise.all([
+  const [totalClientes, clientesActivos, actividadesHoy, clientesHoy, actividadesRecientes, pipeline] = await Promise.all([
     prisma.cliente.count({ where: { deletedAt: null } }),
     prisma.cliente.count({
       where: {
@@ -61,7 +65,8 @@ export default async function Home() {
           }
         }
       }
-    })
+    }),
+    OportunidadesService.getResumenPipeline()
   ]);
   return (
     <AuthenticatedLayout currentPath="/" userRole={session.user?.role}>
@@ -131,6 +136,53 @@ export default async function Home() {
           </div>
         </div>
 
+        {/* Pipeline de oportunidades (una fila por moneda, sin conversión) */}
+        {pipeline.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+            <div className="bg-white rounded-lg shadow-sm p-6 border">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Valor del Pipeline</p>
+                  {pipeline.map((fila) => (
+                    <p key={fila.moneda} className="text-2xl font-bold text-gray-900">
+                      {formatMonto(fila.valorPipeline, fila.moneda)}
+                    </p>
+                  ))}
+                </div>
+                <div className="p-3 bg-indigo-100 rounded-full">
+                  <BanknotesIcon className="h-6 w-6 text-indigo-600" />
+                </div>
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                {pipeline.reduce((total, fila) => total + fila.abiertas, 0)} oportunidades abiertas
+              </p>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6 border">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Pronóstico Ponderado</p>
+                  {pipeline.map((fila) => (
+                    <p key={fila.moneda} className="text-2xl font-bold text-gray-900">
+                      {formatMonto(fila.valorPonderado, fila.moneda)}
+                    </p>
+                  ))}
+                </div>
+                <div className="p-3 bg-emerald-100 rounded-full">
+                  <ArrowTrendingUpIcon className="h-6 w-6 text-emerald-600" />
+                </div>
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                Monto × probabilidad · Ganado este mes:{' '}
+                {pipeline
+                  .filter((fila) => fila.ganadasMes > 0)
+                  .map((fila) => formatMonto(fila.valorGanadoMes, fila.moneda))
+                  .join(' + ') || '—'}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Recent Activity */}
@@ -0,0 +1,131 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { PermissionService } from '@/lib/services/permission-service';
+import { AsignacionService } from '@/lib/services/asignacion-service';
+import { TareasService } from '@/lib/services/tareas-service';
+import { BandejaTareasSchema } from '@/lib/validations/tarea';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import { TareasInbox } from '@/components/TareasInbox';
+import type { BandejaTareas } from '@/types';
+
+export const metadata: Metadata = {
+  title: 'Mis tareas',
+  description: 'Tareas pendientes, vencidas y completadas',
+};
+
+const BANDEJAS: { value: BandejaTareas; label: string }[] = [
+  { value: 'vencidas', label: 'Vencidas' },
+  { value: 'hoy', label: 'Hoy' },
+  { value: 'proximas', label: 'Próximas' },
+  { value: 'completadas', label: 'Completadas' },
+];
+
+export default async function TareasPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ bandeja?: string; asignado?: string }>;
+}) {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/auth/login');
+  }
+
+  if (!(await PermissionService.hasPermission(session.user.role, 'ACTIVITIES_VIEW'))) {
+    redirect('/');
+  }
+
+  const params = await searchParams;
+  const puedeAsignar = await PermissionService.hasPermission(session.user.role, 'CLIENTS_ASSIGN');
+  // Other people's tasks are only visible to users who can assign them
+  const asignado = puedeAsignar && params.asignado ? params.asignado : FILTRO_ASIGNADO.MIOS;
+
+  const [conteos, usuarios] = await Promise.all([
+    TareasService.contarBandejas(asignado, session.user.id),
+    puedeAsignar ? AsignacionService.getUsuariosAsignables() : undefined,
+  ]);
+
+  // Overdue first when there is any, otherwise today's
+  const bandejaParam = BandejaTareasSchema.safeParse(params.bandeja);
+  const bandeja: BandejaTareas = bandejaParam.success
+    ? bandejaParam.data
+    : conteos.vencidas > 0 ? 'vencidas' : 'hoy';
+
+  const bandejaUrl = (valor: BandejaTareas) => {
+    const nuevosParams = new URLSearchParams({ bandeja: valor });
+    if (asignado !== FILTRO_ASIGNADO.MIOS) nuevosParams.set('asignado', asignado);
+    return `/tareas?${nuevosParams.toString()}`;
+  };
+
+  return (
+    <AuthenticatedLayout currentPath="/tareas" userRole={session.user?.role}>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {asignado === FILTRO_ASIGNADO.MIOS ? 'Mis tareas' : 'Tareas'}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Seguimientos con vencimiento y recordatorio
+            </p>
+          </div>
+          {usuarios && (
+            <form method="GET" className="flex items-center gap-2">
+              <input type="hidden" name="bandeja" value={bandeja} />
+              <select
+                name="asignado"
+                defaultValue={asignado}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={FILTRO_ASIGNADO.MIOS}>Mis tareas</option>
+                <option value={FILTRO_ASIGNADO.TODOS}>Todos los usuarios</option>
+                {usuarios.map((usuario) => (
+                  <option key={usuario.id} value={usuario.id}>
+                    {usuario.name || usuario.email}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Ver
+              </button>
+            </form>
+          )}
+        </div>
+
+        {/* Bandejas */}
+        <div className="mb-4 flex gap-2 border-b border-gray-200">
+          {BANDEJAS.map(({ value, label }) => (
+            <Link
+              key={value}
+              href={bandejaUrl(value)}
+              className={`-mb-px px-4 py-2 text-sm font-medium border-b-2 ${
+                bandeja === value
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-900'
+              }`}
+            >
+              {label}
+              <span
+                className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                  value === 'vencidas' && conteos.vencidas > 0
+                    ? 'bg-red-100 text-red-700'
+                    : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {conteos[value]}
+              </span>
+            </Link>
+          ))}
+        </div>
+
+        <TareasInbox bandeja={bandeja} asignado={asignado} usuarios={usuarios} />
+      </div>
+    </AuthenticatedLayout>
+  );
+}
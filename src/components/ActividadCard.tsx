@@ -2,6 +2,7 @@
 
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { MapPinIcon } from '@heroicons/react/24/outline';
 
 interface ActividadCardProps {
   actividad: {
@@ -9,6 +10,8 @@ interface ActividadCardProps {
     tipo: string;
     descripcion: string;
     fecha: Date;
+    fechaFin?: Date | null;
+    ubicacion?: string | null;
     resultado?: string | null;
     proximoPaso?: string | null;
     esAutomatica?: boolean;
@@ -16,6 +19,10 @@ interface ActividadCardProps {
       name: string | null;
       email: string;
     } | null;
+    oportunidad?: {
+      id: string;
+      titulo: string;
+    } | null;
   };
   Icon: React.ComponentType<{ className?: string }>;
 }
@@ -84,6 +91,14 @@ export function ActividadCard({ actividad, Icon }: ActividadCardProps) {
               <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getTipoBadgeColor(actividad.tipo, actividad.esAutomatica)}`}>
                 {actividad.tipo.replace('_', ' ')}
               </span>
+              {actividad.oportunidad && (
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-indigo-50 text-indigo-700 border border-indigo-200 truncate max-w-[12rem]"
+                  title="Oportunidad"
+                >
+                  {actividad.oportunidad.titulo}
+                </span>
+              )}
               {actividad.esAutomatica && (
                 <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-slate-50 text-slate-600 border border-slate-200">
                   ⚙️ Automática
@@ -104,9 +119,21 @@ export function ActividadCard({ actividad, Icon }: ActividadCardProps) {
                 hour: '2-digit',
                 minute: '2-digit'
               })}
+              {actividad.fechaFin && ` – ${new Date(actividad.fechaFin).toLocaleTimeString('es-ES', {
+                hour: '2-digit',
+                minute: '2-digit'
+              })}`}
             </span>
           </div>
 
+          {/* Ubicación (reuniones) */}
+          {actividad.ubicacion && (
+            <p className="mb-2 flex items-center gap-1 text-xs text-gray-500">
+              <MapPinIcon className="h-3.5 w-3.5" />
+              {actividad.ubicacion}
+            </p>
+          )}
+
           {/* Descripción */}
           <div className="mb-3">
             <p className="text-gray-900 text-sm leading-relaxed">
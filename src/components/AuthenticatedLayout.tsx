@@ -67,6 +67,26 @@ export default function AuthenticatedLayout({
                 >
                   Actividades
                 </Link>
+                <Link
+                  href="/tareas"
+                  className={`${
+                    isActive('/tareas')
+                      ? 'text-blue-600 font-medium'
+                      : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  Tareas
+                </Link>
+                <Link
+                  href="/mensajes/programados"
+                  className={`${
+                    isActive('/mensajes')
+                      ? 'text-blue-600 font-medium'
+                      : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  Programados
+                </Link>
                 <Link
                   href="/admin/settings"
                   className={`flex items-center gap-1 ${
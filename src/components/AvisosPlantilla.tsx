@@ -0,0 +1,31 @@
+'use client';
+
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { validateTemplate } from '@/lib/services/template-render-service';
+
+interface AvisosPlantillaProps {
+  // Subject and body (empty ones are skipped)
+  textos: string[];
+}
+
+/**
+ * Syntax problems of a template being edited, same check the API does on save
+ */
+export function AvisosPlantilla({ textos }: AvisosPlantillaProps) {
+  const { valid, invalidVars, errores } = validateTemplate(textos.filter(Boolean).join('\n'));
+  if (valid) return null;
+
+  return (
+    <div className="flex gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+      <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+      <ul className="space-y-0.5">
+        {invalidVars.length > 0 && (
+          <li>Variables desconocidas: {invalidVars.map((v) => `{${v}}`).join(', ')}</li>
+        )}
+        {errores.map((error) => (
+          <li key={error}>{error}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -4,7 +4,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { Modal, ModalFooter } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import * as Tabs from '@radix-ui/react-tabs';
-import { EnvelopeIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { EnvelopeIcon, CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { ProgramarEnvio, PROGRAMACION_INICIAL, camposProgramacion } from '@/components/ProgramarEnvio';
+import type { TemplateValidation } from '@/lib/services/template-render-service';
+import type { DestinatarioMasivo } from '@/types';
 
 interface BulkContactModalProps {
   isOpen: boolean;
@@ -30,14 +33,28 @@ interface BulkEmailResult {
     nombre: string;
     success: boolean;
     error?: string;
+    variante?: string;
   }>;
 }
 
 interface BulkWhatsAppItem {
   clienteId: string;
   nombre: string;
-  url: string;
   mensajeId: string;
+  // None when it went out through the WhatsApp Cloud API
+  url?: string;
+  variante?: string;
+}
+
+// A/B variant of each recipient, shown only when the send was split across several
+const varianteVisible = (filas: Array<{ variante?: string }>) =>
+  new Set(filas.map((f) => f.variante)).size > 1;
+
+function EtiquetaVariante({ variante }: { variante?: string }) {
+  if (!variante) return null;
+  return (
+    <span className="ml-2 rounded bg-gray-100 px-1.5 py-0.5 text-xs font-medium text-gray-600">{variante}</span>
+  );
 }
 
 interface BulkWhatsAppResult {
@@ -65,6 +82,9 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
   const [sending, setSending] = useState(false);
   const [emailResult, setEmailResult] = useState<BulkEmailResult | null>(null);
   const [waResult, setWaResult] = useState<BulkWhatsAppResult | null>(null);
+  const [destinatario, setDestinatario] = useState<DestinatarioMasivo>('CLIENTE');
+  const [programacion, setProgramacion] = useState(PROGRAMACION_INICIAL);
+  const [revision, setRevision] = useState<TemplateValidation | null>(null);
 
   const fetchPlantillas = useCallback(async (canal: string) => {
     setLoading(true);
@@ -88,9 +108,32 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
       setSelectedPlantillaId('');
       setEmailResult(null);
       setWaResult(null);
+      setProgramacion(PROGRAMACION_INICIAL);
     }
   }, [isOpen, tab, fetchPlantillas]);
 
+  // Warn about clients that would get empty variables before anything is sent
+  useEffect(() => {
+    setRevision(null);
+    if (!isOpen || !selectedPlantillaId) return;
+
+    let cancelado = false;
+    fetch('/api/mensajes/send-bulk/revisar', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ clienteIds, plantillaId: selectedPlantillaId, destinatario }),
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelado && data.success) setRevision(data.data);
+      })
+      .catch(() => {
+        // ignore: the send itself still works
+      });
+
+    return () => { cancelado = true; };
+  }, [isOpen, selectedPlantillaId, destinatario, clienteIds]);
+
   const handleBulkEmail = async () => {
     if (!selectedPlantillaId) return;
     setSending(true);
@@ -104,6 +147,8 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
           clienteIds,
           plantillaId: selectedPlantillaId,
           canal: 'EMAIL',
+          destinatario,
+          ...camposProgramacion(programacion),
         }),
       });
 
@@ -132,6 +177,7 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
           clienteIds,
           plantillaId: selectedPlantillaId,
           canal: 'WHATSAPP',
+          destinatario,
         }),
       });
 
@@ -147,6 +193,46 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
     }
   };
 
+  const destinatarioSelector = (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Enviar a</label>
+      <select
+        value={destinatario}
+        onChange={(e) => setDestinatario(e.target.value as DestinatarioMasivo)}
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500"
+      >
+        <option value="CLIENTE">{tab === 'email' ? 'Email' : 'WhatsApp'} del cliente</option>
+        <option value="PRINCIPAL">Contacto principal (si tiene {tab === 'email' ? 'email' : 'WhatsApp'})</option>
+      </select>
+    </div>
+  );
+
+  const avisoRevision = revision && (!revision.valid || revision.faltantes.length > 0) && (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+      <p className="flex items-center gap-1.5 font-medium">
+        <ExclamationTriangleIcon className="h-4 w-4" />
+        {revision.faltantes.length > 0
+          ? `${revision.faltantes.length} de ${clienteIds.length} clientes recibirían datos vacíos`
+          : 'La plantilla tiene errores'}
+      </p>
+      {revision.invalidVars.length > 0 && (
+        <p className="mt-1 text-xs">Variables desconocidas: {revision.invalidVars.map((v) => `{${v}}`).join(', ')}</p>
+      )}
+      {revision.errores.map((error) => (
+        <p key={error} className="mt-1 text-xs">{error}</p>
+      ))}
+      {revision.faltantes.length > 0 && (
+        <ul className="mt-2 max-h-32 overflow-y-auto space-y-0.5 text-xs">
+          {revision.faltantes.map((f) => (
+            <li key={f.clienteId}>
+              <span className="font-medium">{f.nombre}</span>: {f.variables.map((v) => `{${v}}`).join(', ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
   return (
     <Modal
       open={isOpen}
@@ -187,6 +273,8 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
               Se enviarán <strong>{clienteIds.length}</strong> emails personalizados con la plantilla seleccionada.
             </div>
 
+            {destinatarioSelector}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Plantilla</label>
               {loading ? (
@@ -207,16 +295,29 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
               )}
             </div>
 
+            {!emailResult && avisoRevision}
+
+            {!emailResult && (
+              <ProgramarEnvio
+                value={programacion}
+                onChange={setProgramacion}
+                opcionZonaDefault="De cada cliente"
+              />
+            )}
+
             {/* Email Results */}
             {emailResult && (
               <div className="border border-gray-200 rounded-lg overflow-hidden">
                 <div className="bg-gray-50 px-4 py-2 text-sm font-medium text-gray-700">
-                  Resultado: {emailResult.successful}/{emailResult.total} enviados
+                  Resultado: {emailResult.successful}/{emailResult.total} {programacion.activa ? 'programados' : 'enviados'}
                 </div>
                 <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
                   {emailResult.details.map((d) => (
                     <div key={d.clienteId} className="flex items-center justify-between px-4 py-2 text-sm">
-                      <span className="text-gray-900">{d.nombre}</span>
+                      <span className="text-gray-900">
+                        {d.nombre}
+                        {varianteVisible(emailResult.details) && <EtiquetaVariante variante={d.variante} />}
+                      </span>
                       {d.success ? (
                         <CheckCircleIcon className="h-5 w-5 text-green-500" />
                       ) : (
@@ -238,8 +339,11 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
           <div className="space-y-4">
             <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
               Selecciona una plantilla y luego abre WhatsApp individualmente para cada cliente.
+              Las plantillas aprobadas en WhatsApp Business se envían directamente si la API está configurada.
             </div>
 
+            {destinatarioSelector}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Plantilla</label>
               {loading ? (
@@ -260,6 +364,8 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
               )}
             </div>
 
+            {!waResult && avisoRevision}
+
             {/* WhatsApp Results - List with individual buttons */}
             {waResult && (
               <div className="border border-gray-200 rounded-lg overflow-hidden">
@@ -270,16 +376,26 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
                 <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
                   {waResult.items.map((item) => (
                     <div key={item.clienteId} className="flex items-center justify-between px-4 py-2">
-                      <span className="text-sm text-gray-900">{item.nombre}</span>
-                      <a
-                        href={item.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="inline-flex items-center gap-1 px-3 py-1 bg-green-600 text-white rounded-md text-xs font-medium hover:bg-green-700"
-                      >
-                        <WhatsAppIcon className="h-3 w-3" />
-                        Abrir
-                      </a>
+                      <span className="text-sm text-gray-900">
+                        {item.nombre}
+                        {varianteVisible(waResult.items) && <EtiquetaVariante variante={item.variante} />}
+                      </span>
+                      {item.url ? (
+                        <a
+                          href={item.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 px-3 py-1 bg-green-600 text-white rounded-md text-xs font-medium hover:bg-green-700"
+                        >
+                          <WhatsAppIcon className="h-3 w-3" />
+                          Abrir
+                        </a>
+                      ) : (
+                        <span className="flex items-center gap-1 text-xs text-green-700">
+                          <CheckCircleIcon className="h-4 w-4" />
+                          Enviado
+                        </span>
+                      )}
                     </div>
                   ))}
                   {waResult.errors.map((err) => (
@@ -302,10 +418,12 @@ export function BulkContactModal({ isOpen, onClose, clienteIds, onSuccess }: Bul
         {tab === 'email' && !emailResult && (
           <Button
             size="sm"
-            disabled={!selectedPlantillaId || sending}
+            disabled={!selectedPlantillaId || sending || (programacion.activa && !programacion.fechaLocal)}
             onClick={handleBulkEmail}
           >
-            {sending ? 'Enviando...' : `Enviar ${clienteIds.length} Emails`}
+            {programacion.activa
+              ? (sending ? 'Programando...' : `Programar ${clienteIds.length} Emails`)
+              : (sending ? 'Enviando...' : `Enviar ${clienteIds.length} Emails`)}
           </Button>
         )}
         {tab === 'whatsapp' && !waResult && (
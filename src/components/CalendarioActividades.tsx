@@ -0,0 +1,367 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  format,
+  isSameDay,
+  isSameMonth,
+  setHours,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ChevronLeftIcon, ChevronRightIcon, MapPinIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { SuscripcionCalendario } from '@/components/SuscripcionCalendario';
+import { useEventosCalendario, useReprogramarEvento } from '@/hooks/useCalendario';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
+import type { EventoCalendario, VistaCalendario } from '@/types';
+
+interface Usuario {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface CalendarioActividadesProps {
+  // Only passed when the user can see other people's calendars
+  usuarios?: Usuario[];
+}
+
+const VISTAS: { value: VistaCalendario; label: string }[] = [
+  { value: 'mes', label: 'Mes' },
+  { value: 'semana', label: 'Semana' },
+  { value: 'dia', label: 'Día' },
+];
+
+const COLOR_TIPO: Record<EventoCalendario['tipo'], string> = {
+  REUNION: 'bg-purple-100 text-purple-800 border-purple-200',
+  LLAMADA: 'bg-blue-100 text-blue-800 border-blue-200',
+  TAREA: 'bg-orange-100 text-orange-800 border-orange-200',
+};
+
+const ETIQUETA_TIPO: Record<EventoCalendario['tipo'], string> = {
+  REUNION: 'Reunión',
+  LLAMADA: 'Llamada',
+  TAREA: 'Tarea',
+};
+
+// Hour rows of the week / day views; earlier and later events go in the first / last row
+const HORAS = Array.from({ length: 14 }, (_, i) => i + 8);
+const MAX_EVENTOS_DIA = 3;
+
+const opcionesSemana = { weekStartsOn: 1 as const };
+
+function rangoVista(vista: VistaCalendario, fecha: Date): { desde: Date; hasta: Date } {
+  switch (vista) {
+    case 'mes':
+      return {
+        desde: startOfWeek(startOfMonth(fecha), opcionesSemana),
+        hasta: addWeeks(startOfWeek(endOfMonth(fecha), opcionesSemana), 1),
+      };
+    case 'semana':
+      return { desde: startOfWeek(fecha, opcionesSemana), hasta: addDays(startOfWeek(fecha, opcionesSemana), 7) };
+    case 'dia':
+      return { desde: startOfDay(fecha), hasta: addDays(startOfDay(fecha), 1) };
+  }
+}
+
+function moverFecha(vista: VistaCalendario, fecha: Date, pasos: number): Date {
+  switch (vista) {
+    case 'mes':
+      return addMonths(fecha, pasos);
+    case 'semana':
+      return addWeeks(fecha, pasos);
+    case 'dia':
+      return addDays(fecha, pasos);
+  }
+}
+
+function tituloPeriodo(vista: VistaCalendario, fecha: Date, desde: Date): string {
+  switch (vista) {
+    case 'mes':
+      return format(fecha, "MMMM 'de' yyyy", { locale: es });
+    case 'semana':
+      return `${format(desde, 'd MMM', { locale: es })} – ${format(addDays(desde, 6), 'd MMM yyyy', { locale: es })}`;
+    case 'dia':
+      return format(fecha, "EEEE d 'de' MMMM", { locale: es });
+  }
+}
+
+const horaEvento = (evento: EventoCalendario) =>
+  evento.fin ? `${format(evento.inicio, 'HH:mm')}–${format(evento.fin, 'HH:mm')}` : format(evento.inicio, 'HH:mm');
+
+/**
+ * Month / week / day calendar of meetings, calls and tasks.
+ * Drag an event to another day (month) or hour (week / day) to reschedule it.
+ */
+export function CalendarioActividades({ usuarios }: CalendarioActividadesProps) {
+  const [vista, setVista] = useState<VistaCalendario>('mes');
+  const [fecha, setFecha] = useState(() => new Date());
+  const [usuario, setUsuario] = useState<string>(FILTRO_ASIGNADO.MIOS);
+  const [arrastrando, setArrastrando] = useState<EventoCalendario | null>(null);
+  const [destino, setDestino] = useState<string | null>(null);
+
+  const { desde, hasta } = useMemo(() => rangoVista(vista, fecha), [vista, fecha]);
+  const { data: eventos = [], isLoading, error } = useEventosCalendario({ desde, hasta, usuario });
+  const reprogramar = useReprogramarEvento();
+
+  const dias = useMemo(() => {
+    const lista: Date[] = [];
+    for (let dia = desde; dia < hasta; dia = addDays(dia, 1)) lista.push(dia);
+    return lista;
+  }, [desde, hasta]);
+
+  const eventosDelDia = (dia: Date) => eventos.filter((evento) => isSameDay(evento.inicio, dia));
+
+  const eventosDeLaHora = (dia: Date, hora: number) =>
+    eventosDelDia(dia).filter((evento) => {
+      const h = evento.inicio.getHours();
+      return hora === HORAS[0] ? h <= hora : hora === HORAS[HORAS.length - 1] ? h >= hora : h === hora;
+    });
+
+  const mover = async (evento: EventoCalendario, inicio: Date) => {
+    if (inicio.getTime() === evento.inicio.getTime()) return;
+    try {
+      await reprogramar.mutateAsync({ evento, inicio });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al reprogramar');
+    }
+  };
+
+  // Month cells keep the event's time; hour slots keep its minutes
+  const soltarEnDia = (dia: Date) => {
+    if (!arrastrando) return;
+    const inicio = new Date(dia);
+    inicio.setHours(arrastrando.inicio.getHours(), arrastrando.inicio.getMinutes(), 0, 0);
+    mover(arrastrando, inicio);
+  };
+
+  const soltarEnHora = (dia: Date, hora: number) => {
+    if (!arrastrando) return;
+    const inicio = setHours(new Date(dia), hora);
+    inicio.setMinutes(arrastrando.inicio.getMinutes(), 0, 0);
+    mover(arrastrando, inicio);
+  };
+
+  const propsDestino = (clave: string, soltar: () => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!arrastrando) return;
+      e.preventDefault();
+      setDestino(clave);
+    },
+    onDragLeave: () => setDestino(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDestino(null);
+      soltar();
+      setArrastrando(null);
+    },
+  });
+
+  const renderEvento = (evento: EventoCalendario, compacto: boolean) => {
+    const movible = !evento.cerrado && !reprogramar.isPending;
+    const href = evento.cliente ? `/clientes/${evento.cliente.id}` : '/tareas';
+
+    return (
+      <div
+        key={`${evento.origen}-${evento.id}`}
+        draggable={movible}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', evento.id);
+          setArrastrando(evento);
+        }}
+        onDragEnd={() => {
+          setArrastrando(null);
+          setDestino(null);
+        }}
+        className={`rounded border px-1.5 py-0.5 text-xs ${COLOR_TIPO[evento.tipo]} ${
+          movible ? 'cursor-grab active:cursor-grabbing' : ''
+        } ${evento.cerrado ? 'opacity-50 line-through' : ''} ${arrastrando?.id === evento.id ? 'opacity-50' : ''}`}
+        title={[ETIQUETA_TIPO[evento.tipo], evento.titulo, evento.cliente?.nombre, evento.ubicacion]
+          .filter(Boolean)
+          .join(' · ')}
+      >
+        <Link href={href} className="block truncate hover:underline">
+          <span className="font-medium">{format(evento.inicio, 'HH:mm')}</span>{' '}
+          {compacto ? evento.cliente?.nombre ?? evento.titulo : evento.titulo}
+        </Link>
+        {!compacto && (
+          <div className="mt-0.5 flex flex-wrap items-center gap-x-2 text-[11px] opacity-80">
+            <span>{ETIQUETA_TIPO[evento.tipo]} · {horaEvento(evento)}</span>
+            {evento.cliente && <span className="truncate">{evento.cliente.nombre}</span>}
+            {evento.ubicacion && (
+              <span className="inline-flex items-center gap-0.5 truncate">
+                <MapPinIcon className="h-3 w-3" />
+                {evento.ubicacion}
+              </span>
+            )}
+            {usuario !== FILTRO_ASIGNADO.MIOS && (
+              <span className="truncate">{evento.usuario.name || evento.usuario.email}</span>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setFecha(new Date())}>
+            Hoy
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={() => setFecha(moverFecha(vista, fecha, -1))} aria-label="Anterior">
+            <ChevronLeftIcon className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={() => setFecha(moverFecha(vista, fecha, 1))} aria-label="Siguiente">
+            <ChevronRightIcon className="h-4 w-4" />
+          </Button>
+          <h3 className="text-base font-semibold text-gray-900 capitalize">{tituloPeriodo(vista, fecha, desde)}</h3>
+          {(isLoading || reprogramar.isPending) && <span className="text-xs text-gray-400">Cargando...</span>}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {usuarios && (
+            <select
+              value={usuario}
+              onChange={(e) => setUsuario(e.target.value)}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value={FILTRO_ASIGNADO.MIOS}>Mi calendario</option>
+              <option value={FILTRO_ASIGNADO.TODOS}>Todos los usuarios</option>
+              {usuarios.map((u) => (
+                <option key={u.id} value={u.id}>
+                  {u.name || u.email}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="inline-flex rounded-lg border border-gray-300 p-0.5 bg-white">
+            {VISTAS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setVista(value)}
+                className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                  vista === value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+                aria-pressed={vista === value}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <SuscripcionCalendario />
+        </div>
+      </div>
+
+      {error && <p className="p-4 text-sm text-red-600">{error.message}</p>}
+
+      {vista === 'mes' ? (
+        <div className="grid grid-cols-7">
+          {dias.slice(0, 7).map((dia) => (
+            <div key={dia.toISOString()} className="px-2 py-1.5 text-xs font-medium text-gray-500 uppercase border-b">
+              {format(dia, 'EEE', { locale: es })}
+            </div>
+          ))}
+          {dias.map((dia) => {
+            const clave = dia.toISOString();
+            const delDia = eventosDelDia(dia);
+            const hoy = isSameDay(dia, new Date());
+
+            return (
+              <div
+                key={clave}
+                {...propsDestino(clave, () => soltarEnDia(dia))}
+                className={`min-h-[6.5rem] border-b border-r p-1 space-y-0.5 ${
+                  destino === clave ? 'bg-blue-50' : isSameMonth(dia, fecha) ? 'bg-white' : 'bg-gray-50'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    setFecha(dia);
+                    setVista('dia');
+                  }}
+                  className={`text-xs px-1 rounded ${
+                    hoy ? 'bg-blue-600 text-white' : isSameMonth(dia, fecha) ? 'text-gray-700' : 'text-gray-400'
+                  } hover:underline`}
+                >
+                  {format(dia, 'd')}
+                </button>
+                {delDia.slice(0, MAX_EVENTOS_DIA).map((evento) => renderEvento(evento, true))}
+                {delDia.length > MAX_EVENTOS_DIA && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setFecha(dia);
+                      setVista('dia');
+                    }}
+                    className="text-[11px] text-blue-600 hover:text-blue-800"
+                  >
+                    +{delDia.length - MAX_EVENTOS_DIA} más
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className={`grid ${vista === 'semana' ? 'grid-cols-[4rem_repeat(7,minmax(8rem,1fr))]' : 'grid-cols-[4rem_1fr]'}`}>
+            <div className="border-b" />
+            {dias.map((dia) => (
+              <div
+                key={dia.toISOString()}
+                className={`px-2 py-1.5 text-xs font-medium border-b border-l capitalize ${
+                  isSameDay(dia, new Date()) ? 'text-blue-600' : 'text-gray-500'
+                }`}
+              >
+                {format(dia, 'EEE d', { locale: es })}
+              </div>
+            ))}
+            {HORAS.map((hora) => (
+              <div key={hora} className="contents">
+                <div className="px-2 py-1 text-[11px] text-gray-400 text-right border-b">
+                  {String(hora).padStart(2, '0')}:00
+                </div>
+                {dias.map((dia) => {
+                  const clave = `${dia.toISOString()}-${hora}`;
+                  return (
+                    <div
+                      key={clave}
+                      {...propsDestino(clave, () => soltarEnHora(dia, hora))}
+                      className={`min-h-[3rem] border-b border-l p-0.5 space-y-0.5 ${destino === clave ? 'bg-blue-50' : ''}`}
+                    >
+                      {eventosDeLaHora(dia, hora).map((evento) => renderEvento(evento, vista === 'semana'))}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-t text-xs text-gray-500">
+        {Object.entries(ETIQUETA_TIPO).map(([tipo, etiqueta]) => (
+          <span key={tipo} className="inline-flex items-center gap-1">
+            <span className={`h-2.5 w-2.5 rounded-sm border ${COLOR_TIPO[tipo as EventoCalendario['tipo']]}`} />
+            {etiqueta}
+          </span>
+        ))}
+        <span className="ml-auto">Arrastrá un evento para reprogramarlo</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { PLANTILLAS } from '@/lib/constants';
+
+export interface WhatsAppBusinessForm {
+  template: string;
+  idioma: string;
+  // One template expression per line, for {{1}}, {{2}}...
+  parametros: string;
+}
+
+export const WHATSAPP_BUSINESS_INICIAL: WhatsAppBusinessForm = { template: '', idioma: '', parametros: '' };
+
+export function whatsAppBusinessDesdePlantilla(plantilla: {
+  whatsappTemplate?: string | null;
+  whatsappIdioma?: string | null;
+  whatsappParametros?: string[];
+}): WhatsAppBusinessForm {
+  return {
+    template: plantilla.whatsappTemplate ?? '',
+    idioma: plantilla.whatsappIdioma ?? '',
+    parametros: (plantilla.whatsappParametros ?? []).join('\n'),
+  };
+}
+
+/**
+ * Body fields of the plantillas endpoints for the form
+ */
+export function camposWhatsAppBusiness(form: WhatsAppBusinessForm) {
+  return {
+    whatsappTemplate: form.template.trim() || null,
+    whatsappIdioma: form.idioma.trim() || null,
+    whatsappParametros: form.parametros.split('\n').map((p) => p.trim()).filter(Boolean),
+  };
+}
+
+interface CamposWhatsAppBusinessProps {
+  value: WhatsAppBusinessForm;
+  onChange: (value: WhatsAppBusinessForm) => void;
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+/**
+ * Approved WhatsApp Business template a WhatsApp template is sent as through the Cloud API
+ */
+export function CamposWhatsAppBusiness({ value, onChange }: CamposWhatsAppBusinessProps) {
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700">WhatsApp Business (opcional)</p>
+        <p className="text-xs text-gray-500">
+          Con la API de WhatsApp configurada, los mensajes se envían como esta plantilla aprobada en vez de abrir
+          un enlace wa.me. El contenido de arriba queda como copia en el historial.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="sm:col-span-2">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Nombre de la plantilla aprobada</label>
+          <input
+            type="text"
+            value={value.template}
+            onChange={(e) => onChange({ ...value, template: e.target.value })}
+            placeholder="ej: primer_contacto"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Idioma</label>
+          <input
+            type="text"
+            value={value.idioma}
+            onChange={(e) => onChange({ ...value, idioma: e.target.value })}
+            placeholder={PLANTILLAS.WHATSAPP_IDIOMA_DEFAULT}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      {value.template.trim() && (
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Parámetros del cuerpo, uno por línea ({'{{1}}'}, {'{{2}}'}...)
+          </label>
+          <textarea
+            value={value.parametros}
+            onChange={(e) => onChange({ ...value, parametros: e.target.value })}
+            rows={3}
+            placeholder={'{contactoNombre|hola}\n{nombre}'}
+            className={`${inputClassName} font-mono`}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
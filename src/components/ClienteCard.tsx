@@ -19,6 +19,7 @@ import {
   FacebookLogo,
   LinkedinLogo,
   TwitterLogo,
+  Alarm,
 } from '@phosphor-icons/react';
 
 interface Cliente {
@@ -41,6 +42,8 @@ interface Cliente {
   ultimoContacto?: Date | null;
   fechaCreacion: Date;
   fechaModific?: Date;
+  // Open tasks past their due date
+  tareasVencidas?: number;
 }
 
 interface ClienteCardProps {
@@ -139,6 +142,16 @@ export const ClienteCard = React.memo(function ClienteCard({
         </div>
       )}
 
+      {/* Tareas vencidas */}
+      {!!cliente.tareasVencidas && (
+        <div className="mt-2">
+          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+            <Alarm weight="bold" className="h-3.5 w-3.5" />
+            {cliente.tareasVencidas} tarea(s) vencida(s)
+          </span>
+        </div>
+      )}
+
       {/* Info de contacto */}
       <div className="mt-3 space-y-1 text-sm text-gray-600">
         {cliente.email && (
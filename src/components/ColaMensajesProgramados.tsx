@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ClockIcon, PencilSquareIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { EmailEditor } from '@/components/EmailEditor';
+import { nombreZona } from '@/components/ProgramarEnvio';
+import { MENSAJES_PROGRAMADOS } from '@/lib/constants';
+import { fechaLocalAUtc, fechaUtcALocal } from '@/lib/zona-horaria';
+import {
+  useActualizarProgramado,
+  useCancelarProgramado,
+  useMensajesProgramados,
+} from '@/hooks/useMensajesProgramados';
+import type { Mensaje } from '@/types';
+
+interface ColaMensajesProgramadosProps {
+  usuario: string;
+  mostrarUsuario?: boolean;
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+const zonaDe = (mensaje: Mensaje) => mensaje.zonaHoraria || MENSAJES_PROGRAMADOS.ZONA_HORARIA_DEFAULT;
+
+/**
+ * Queue of scheduled emails, with edit and cancel before the dispatcher sends them
+ */
+export function ColaMensajesProgramados({ usuario, mostrarUsuario }: ColaMensajesProgramadosProps) {
+  const { data: mensajes = [], isLoading, error } = useMensajesProgramados(usuario);
+  const cancelar = useCancelarProgramado();
+  const [editando, setEditando] = useState<Mensaje | null>(null);
+
+  const handleCancelar = async (mensaje: Mensaje) => {
+    if (!confirm(`¿Cancelar el envío a ${mensaje.cliente?.nombre ?? mensaje.destinatario}?`)) return;
+    try {
+      await cancelar.mutateAsync(mensaje.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al cancelar el envío');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-4 border-b">
+        <p className="text-sm text-gray-500">
+          {isLoading ? 'Cargando...' : `${mensajes.length} envío(s) en cola`}
+        </p>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 text-center py-6">{error.message}</p>
+      ) : !isLoading && mensajes.length === 0 ? (
+        <div className="text-center py-10">
+          <ClockIcon className="mx-auto h-10 w-10 text-gray-300" />
+          <p className="mt-2 text-sm text-gray-500">No hay envíos programados.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {mensajes.map((mensaje) => (
+            <li key={mensaje.id} className="flex items-start justify-between gap-4 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{mensaje.asunto || '(sin asunto)'}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {mensaje.cliente && (
+                    <Link href={`/clientes/${mensaje.cliente.id}`} className="text-blue-600 hover:text-blue-800">
+                      {mensaje.cliente.nombre}
+                    </Link>
+                  )}
+                  {' · '}
+                  {mensaje.contacto ? `${mensaje.contacto.nombre} <${mensaje.destinatario}>` : mensaje.destinatario}
+                  {mostrarUsuario && mensaje.usuario && ` · ${mensaje.usuario.name || mensaje.usuario.email}`}
+                </p>
+                {mensaje.errorDetalle && (
+                  <p className="text-xs text-amber-600 mt-0.5">
+                    Reintento {mensaje.intentos}/{MENSAJES_PROGRAMADOS.MAX_INTENTOS}: {mensaje.errorDetalle}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                {mensaje.programadoPara && (
+                  <div className="text-right">
+                    <p className="text-sm text-gray-900">
+                      {format(new Date(mensaje.programadoPara), "d MMM, HH:mm", { locale: es })}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {fechaUtcALocal(new Date(mensaje.programadoPara), zonaDe(mensaje)).slice(11)}{' '}
+                      {nombreZona(zonaDe(mensaje))}
+                    </p>
+                  </div>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setEditando(mensaje)} title="Editar">
+                  <PencilSquareIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCancelar(mensaje)}
+                  disabled={cancelar.isPending}
+                  title="Cancelar envío"
+                >
+                  <XMarkIcon className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editando && (
+        <EditarProgramadoModal
+          key={editando.id}
+          mensaje={editando}
+          onClose={() => setEditando(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function EditarProgramadoModal({ mensaje, onClose }: { mensaje: Mensaje; onClose: () => void }) {
+  const actualizar = useActualizarProgramado();
+  const [form, setForm] = useState(() => ({
+    asunto: mensaje.asunto ?? '',
+    cuerpo: mensaje.cuerpo,
+    fechaLocal: mensaje.programadoPara ? fechaUtcALocal(new Date(mensaje.programadoPara), zonaDe(mensaje)) : '',
+    zonaHoraria: zonaDe(mensaje),
+  }));
+  const [error, setError] = useState<string | null>(null);
+
+  const enMiHora = form.fechaLocal ? fechaLocalAUtc(form.fechaLocal, form.zonaHoraria) : null;
+
+  const handleGuardar = async () => {
+    setError(null);
+    try {
+      await actualizar.mutateAsync({
+        id: mensaje.id,
+        dto: {
+          asunto: form.asunto.trim(),
+          cuerpo: form.cuerpo,
+          programadoPara: form.fechaLocal,
+          zonaHoraria: form.zonaHoraria,
+        },
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al actualizar el envío');
+    }
+  };
+
+  return (
+    <Modal
+      open
+      onOpenChange={(open) => { if (!open) onClose(); }}
+      title={`Envío programado a ${mensaje.cliente?.nombre ?? mensaje.destinatario}`}
+      size="lg"
+    >
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha y hora</label>
+            <input
+              type="datetime-local"
+              value={form.fechaLocal}
+              onChange={(e) => setForm({ ...form, fechaLocal: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Zona horaria</label>
+            <select
+              value={form.zonaHoraria}
+              onChange={(e) => setForm({ ...form, zonaHoraria: e.target.value })}
+              className={inputClassName}
+            >
+              {!(MENSAJES_PROGRAMADOS.ZONAS_HORARIAS as readonly string[]).includes(form.zonaHoraria) && (
+                <option value={form.zonaHoraria}>{nombreZona(form.zonaHoraria)}</option>
+              )}
+              {MENSAJES_PROGRAMADOS.ZONAS_HORARIAS.map((z) => (
+                <option key={z} value={z}>{nombreZona(z)}</option>
+              ))}
+            </select>
+          </div>
+          {enMiHora && !isNaN(enMiHora.getTime()) && (
+            <p className="sm:col-span-2 text-xs text-gray-500">
+              En tu hora: {format(enMiHora, "EEEE d 'de' MMMM, HH:mm", { locale: es })}
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Asunto</label>
+          <input
+            type="text"
+            value={form.asunto}
+            onChange={(e) => setForm({ ...form, asunto: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Mensaje</label>
+          <EmailEditor value={form.cuerpo} onChange={(cuerpo) => setForm({ ...form, cuerpo })} />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <ModalFooter>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Cerrar
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleGuardar}
+          disabled={actualizar.isPending || !form.fechaLocal || !form.asunto.trim()}
+        >
+          {actualizar.isPending ? 'Guardando...' : 'Guardar'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
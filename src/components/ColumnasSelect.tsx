@@ -15,6 +15,7 @@ const COLUMNAS_DISPONIBLES = [
   { key: 'estado', label: 'Estado' },
   { key: 'prioridad', label: 'Prioridad' },
   { key: 'industria', label: 'Industria' },
+  { key: 'asignadoA', label: 'Asignado a' },
   { key: 'ultimoContacto', label: 'Último Contacto' },
   { key: 'ultimaIA', label: 'Última IA' },
   { key: 'fechaCreacion', label: 'Fecha Creación' },
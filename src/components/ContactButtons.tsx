@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
 import { ContactModal } from '@/components/ContactModal';
 import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import type { AnalisisWebData, EnriquecimientoData } from '@/lib/services/template-render-service';
 
 function WhatsAppIcon({ className }: { className?: string }) {
   return (
@@ -31,6 +32,9 @@ interface ContactButtonsProps {
     facebook?: string | null;
     linkedin?: string | null;
     twitter?: string | null;
+    zonaHoraria?: string | null;
+    websiteAnalysis?: AnalisisWebData | null;
+    enrichments?: EnriquecimientoData[];
   };
 }
 
@@ -1,12 +1,15 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Modal, ModalFooter } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import * as Tabs from '@radix-ui/react-tabs';
 import { EnvelopeIcon } from '@heroicons/react/24/outline';
-import { render } from '@/lib/services/template-render-service';
+import { render, type AnalisisWebData, type EnriquecimientoData } from '@/lib/services/template-render-service';
 import { htmlToWhatsApp } from '@/lib/services/whatsapp-format-service';
+import { useContactos } from '@/hooks/useContactos';
+import { ProgramarEnvio, PROGRAMACION_INICIAL, camposProgramacion, nombreZona } from '@/components/ProgramarEnvio';
+import { MENSAJES_PROGRAMADOS } from '@/lib/constants';
 
 interface ClienteForContact {
   id: string;
@@ -24,6 +27,10 @@ interface ClienteForContact {
   facebook?: string | null;
   linkedin?: string | null;
   twitter?: string | null;
+  zonaHoraria?: string | null;
+  // For the preview of {web.*} and {ia.*} variables
+  websiteAnalysis?: AnalisisWebData | null;
+  enrichments?: EnriquecimientoData[];
 }
 
 interface ContactModalProps {
@@ -57,6 +64,20 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
   const [loading, setLoading] = useState(false);
   const [sending, setSending] = useState(false);
   const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  // '' = the client's own email/WhatsApp, otherwise a contact person id
+  const [contactoId, setContactoId] = useState('');
+  const [programacion, setProgramacion] = useState(PROGRAMACION_INICIAL);
+  const zonaCliente = cliente.zonaHoraria || MENSAJES_PROGRAMADOS.ZONA_HORARIA_DEFAULT;
+
+  const { data: contactosData } = useContactos(cliente.id, isOpen);
+  const contactos = useMemo(() => contactosData ?? [], [contactosData]);
+
+  const campo = tab === 'email' ? 'email' : 'whatsapp';
+  const direccionCliente = cliente[campo];
+  const contactosCanal = contactos.filter((c) => c[campo]);
+  const contactoSeleccionado = contactosCanal.find((c) => c.id === contactoId);
+  const contactoPrincipal = contactos.find((c) => c.esPrincipal) ?? null;
+  const direccion = contactoSeleccionado ? contactoSeleccionado[campo] : direccionCliente;
 
   const fetchPlantillas = useCallback(async (canal: string) => {
     setLoading(true);
@@ -79,13 +100,27 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
       fetchPlantillas(canal);
       setSelectedPlantillaId('');
       setResult(null);
+      setProgramacion(PROGRAMACION_INICIAL);
     }
   }, [isOpen, tab, fetchPlantillas]);
 
+  // Default recipient: the contact person who prefers this channel, then the client itself,
+  // then the primary contact person
+  useEffect(() => {
+    if (!isOpen) return;
+    const canal = tab === 'email' ? 'EMAIL' : 'WHATSAPP';
+    const conCanal = contactos.filter((c) => c[campo]);
+    const preferido =
+      conCanal.find((c) => c.canalPreferido === canal) ??
+      (direccionCliente ? undefined : conCanal.find((c) => c.esPrincipal) ?? conCanal[0]);
+    setContactoId(preferido?.id ?? '');
+  }, [isOpen, tab, campo, contactos, direccionCliente]);
+
   const selectedPlantilla = plantillas.find((p) => p.id === selectedPlantillaId);
 
-  const previewCuerpo = selectedPlantilla ? render(selectedPlantilla.cuerpo, cliente) : '';
-  const previewAsunto = selectedPlantilla?.asunto ? render(selectedPlantilla.asunto, cliente) : '';
+  const contactoPreview = contactoSeleccionado ?? contactoPrincipal;
+  const previewCuerpo = selectedPlantilla ? render(selectedPlantilla.cuerpo, cliente, contactoPreview) : '';
+  const previewAsunto = selectedPlantilla?.asunto ? render(selectedPlantilla.asunto, cliente, contactoPreview) : '';
 
   const handleSendEmail = async () => {
     if (!selectedPlantillaId) return;
@@ -100,13 +135,18 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
           clienteId: cliente.id,
           plantillaId: selectedPlantillaId,
           canal: 'EMAIL',
+          contactoId: contactoId || undefined,
+          ...camposProgramacion(programacion),
         }),
       });
 
       const data = await res.json();
 
       if (res.ok) {
-        setResult({ type: 'success', message: 'Email enviado exitosamente' });
+        setResult({
+          type: 'success',
+          message: programacion.activa ? 'Email programado' : 'Email enviado exitosamente',
+        });
         onSuccess?.();
       } else {
         setResult({ type: 'error', message: data.error || 'Error al enviar' });
@@ -131,6 +171,7 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
           clienteId: cliente.id,
           plantillaId: selectedPlantillaId,
           canal: 'WHATSAPP',
+          contactoId: contactoId || undefined,
         }),
       });
 
@@ -140,6 +181,10 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
         window.open(data.data.url, '_blank');
         setResult({ type: 'success', message: 'WhatsApp abierto en nueva pestaña' });
         onSuccess?.();
+      } else if (res.ok) {
+        // Sent through the WhatsApp Cloud API: nothing to open
+        setResult({ type: 'success', message: 'WhatsApp enviado' });
+        onSuccess?.();
       } else {
         setResult({ type: 'error', message: data.error || 'Error al preparar' });
       }
@@ -150,8 +195,32 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
     }
   };
 
-  const hasEmail = !!cliente.email;
-  const hasWhatsApp = !!cliente.whatsapp;
+  const hasEmail = !!cliente.email || contactos.some((c) => c.email);
+  const hasWhatsApp = !!cliente.whatsapp || contactos.some((c) => c.whatsapp);
+
+  const destinatarioSelector = contactosCanal.length === 0 ? (
+    <div>
+      <p className="text-sm text-gray-500 mb-1">Destinatario: <span className="font-medium text-gray-900">{direccion}</span></p>
+    </div>
+  ) : (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Destinatario</label>
+      <select
+        value={contactoId}
+        onChange={(e) => setContactoId(e.target.value)}
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500"
+      >
+        {direccionCliente && (
+          <option value="">{cliente.nombre} - {direccionCliente}</option>
+        )}
+        {contactosCanal.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.nombre}{c.cargo ? ` (${c.cargo})` : ''}{c.esPrincipal ? ' ★' : ''} - {c[campo]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
 
   return (
     <Modal
@@ -194,9 +263,7 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
             </div>
           ) : (
             <div className="space-y-4">
-              <div>
-                <p className="text-sm text-gray-500 mb-1">Destinatario: <span className="font-medium text-gray-900">{cliente.email}</span></p>
-              </div>
+              {destinatarioSelector}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Plantilla</label>
                 {loading ? (
@@ -229,6 +296,12 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
                   </div>
                 </div>
               )}
+              <ProgramarEnvio
+                value={programacion}
+                onChange={setProgramacion}
+                opcionZonaDefault={`Del cliente (${nombreZona(zonaCliente)})`}
+                zonaDefault={zonaCliente}
+              />
             </div>
           )}
         </Tabs.Content>
@@ -241,9 +314,7 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
             </div>
           ) : (
             <div className="space-y-4">
-              <div>
-                <p className="text-sm text-gray-500 mb-1">Destinatario: <span className="font-medium text-gray-900">{cliente.whatsapp}</span></p>
-              </div>
+              {destinatarioSelector}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Plantilla</label>
                 {loading ? (
@@ -293,10 +364,12 @@ export function ContactModal({ isOpen, onClose, cliente, onSuccess, defaultTab =
         {tab === 'email' && hasEmail && (
           <Button
             size="sm"
-            disabled={!selectedPlantillaId || sending}
+            disabled={!selectedPlantillaId || sending || (programacion.activa && !programacion.fechaLocal)}
             onClick={handleSendEmail}
           >
-            {sending ? 'Enviando...' : 'Enviar Email'}
+            {programacion.activa
+              ? (sending ? 'Programando...' : 'Programar Email')
+              : (sending ? 'Enviando...' : 'Enviar Email')}
           </Button>
         )}
         {tab === 'whatsapp' && hasWhatsApp && (
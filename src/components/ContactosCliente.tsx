@@ -0,0 +1,297 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  EnvelopeIcon,
+  PencilIcon,
+  PhoneIcon,
+  PlusIcon,
+  StarIcon,
+  TrashIcon,
+  UserGroupIcon,
+} from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import {
+  useActualizarContacto,
+  useContactos,
+  useCrearContacto,
+  useEliminarContacto,
+} from '@/hooks/useContactos';
+import type { CanalContacto, ContactoCliente, CreateContactoClienteDTO } from '@/types';
+
+interface ContactosClienteProps {
+  clienteId: string;
+  puedeEditar: boolean;
+}
+
+const FORM_VACIO: CreateContactoClienteDTO = {
+  nombre: '',
+  cargo: '',
+  email: '',
+  telefono: '',
+  whatsapp: '',
+  canalPreferido: null,
+  esPrincipal: false,
+};
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+export function ContactosCliente({ clienteId, puedeEditar }: ContactosClienteProps) {
+  const { data: contactos = [], isLoading } = useContactos(clienteId);
+  const crear = useCrearContacto(clienteId);
+  const actualizar = useActualizarContacto(clienteId);
+  const eliminar = useEliminarContacto(clienteId);
+
+  const [modalAbierto, setModalAbierto] = useState(false);
+  const [editando, setEditando] = useState<ContactoCliente | null>(null);
+  const [form, setForm] = useState<CreateContactoClienteDTO>(FORM_VACIO);
+  const [error, setError] = useState<string | null>(null);
+
+  const abrirNuevo = () => {
+    setEditando(null);
+    setForm(FORM_VACIO);
+    setError(null);
+    setModalAbierto(true);
+  };
+
+  const abrirEdicion = (contacto: ContactoCliente) => {
+    setEditando(contacto);
+    setForm({
+      nombre: contacto.nombre,
+      cargo: contacto.cargo ?? '',
+      email: contacto.email ?? '',
+      telefono: contacto.telefono ?? '',
+      whatsapp: contacto.whatsapp ?? '',
+      canalPreferido: contacto.canalPreferido ?? null,
+      esPrincipal: contacto.esPrincipal,
+    });
+    setError(null);
+    setModalAbierto(true);
+  };
+
+  const handleGuardar = async () => {
+    setError(null);
+    try {
+      if (editando) {
+        await actualizar.mutateAsync({ id: editando.id, dto: form });
+      } else {
+        await crear.mutateAsync(form);
+      }
+      setModalAbierto(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar el contacto');
+    }
+  };
+
+  const handleEliminar = async (contacto: ContactoCliente) => {
+    if (!confirm(`¿Eliminar a "${contacto.nombre}" de los contactos?`)) return;
+    try {
+      await eliminar.mutateAsync(contacto.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al eliminar el contacto');
+    }
+  };
+
+  const handleMarcarPrincipal = async (contacto: ContactoCliente) => {
+    try {
+      await actualizar.mutateAsync({ id: contacto.id, dto: { esPrincipal: true } });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al actualizar el contacto');
+    }
+  };
+
+  const guardando = crear.isPending || actualizar.isPending;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <UserGroupIcon className="w-4 h-4 text-gray-400" />
+          Personas de Contacto
+        </h3>
+        {puedeEditar && (
+          <Button variant="ghost" size="sm" onClick={abrirNuevo}>
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Agregar
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400 text-center py-2">Cargando contactos...</p>
+      ) : contactos.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-2">Sin personas de contacto</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {contactos.map((contacto) => (
+            <li key={contacto.id} className="py-2.5 first:pt-0 last:pb-0">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+                    {contacto.nombre}
+                    {contacto.esPrincipal && (
+                      <span className="inline-flex px-1.5 py-0.5 text-[10px] font-medium rounded bg-amber-100 text-amber-700">
+                        Principal
+                      </span>
+                    )}
+                  </p>
+                  {contacto.cargo && <p className="text-xs text-gray-500">{contacto.cargo}</p>}
+                  <div className="mt-1 space-y-0.5 text-xs text-gray-600">
+                    {contacto.email && (
+                      <p className="flex items-center gap-1 truncate">
+                        <EnvelopeIcon className="w-3 h-3 flex-shrink-0" />
+                        {contacto.email}
+                        {contacto.canalPreferido === 'EMAIL' && <span className="text-gray-400">(preferido)</span>}
+                      </p>
+                    )}
+                    {contacto.telefono && (
+                      <p className="flex items-center gap-1">
+                        <PhoneIcon className="w-3 h-3 flex-shrink-0" />
+                        {contacto.telefono}
+                      </p>
+                    )}
+                    {contacto.whatsapp && (
+                      <p className="flex items-center gap-1">
+                        <span className="font-medium text-emerald-600">WA</span>
+                        {contacto.whatsapp}
+                        {contacto.canalPreferido === 'WHATSAPP' && <span className="text-gray-400">(preferido)</span>}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {puedeEditar && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => handleMarcarPrincipal(contacto)}
+                      disabled={contacto.esPrincipal}
+                      className="p-1 rounded text-gray-400 hover:text-amber-500 disabled:hover:text-gray-400"
+                      title={contacto.esPrincipal ? 'Contacto principal' : 'Marcar como principal'}
+                    >
+                      {contacto.esPrincipal
+                        ? <StarSolidIcon className="h-4 w-4 text-amber-500" />
+                        : <StarIcon className="h-4 w-4" />}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => abrirEdicion(contacto)}
+                      className="p-1 rounded text-gray-400 hover:text-blue-600"
+                      title="Editar"
+                    >
+                      <PencilIcon className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleEliminar(contacto)}
+                      className="p-1 rounded text-gray-400 hover:text-red-600"
+                      title="Eliminar"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal
+        open={modalAbierto}
+        onOpenChange={setModalAbierto}
+        title={editando ? 'Editar contacto' : 'Nuevo contacto'}
+      >
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nombre *</label>
+            <input
+              type="text"
+              value={form.nombre}
+              onChange={(e) => setForm({ ...form, nombre: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cargo</label>
+            <input
+              type="text"
+              value={form.cargo ?? ''}
+              onChange={(e) => setForm({ ...form, cargo: e.target.value })}
+              placeholder="Ej: Gerente de compras"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={form.email ?? ''}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+              <input
+                type="tel"
+                value={form.telefono ?? ''}
+                onChange={(e) => setForm({ ...form, telefono: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">WhatsApp</label>
+              <input
+                type="tel"
+                value={form.whatsapp ?? ''}
+                onChange={(e) => setForm({ ...form, whatsapp: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Canal preferido</label>
+            <select
+              value={form.canalPreferido ?? ''}
+              onChange={(e) => setForm({ ...form, canalPreferido: (e.target.value || null) as CanalContacto | null })}
+              className={inputClassName}
+            >
+              <option value="">Sin preferencia</option>
+              <option value="EMAIL">Email</option>
+              <option value="WHATSAPP">WhatsApp</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.esPrincipal ?? false}
+              onChange={(e) => setForm({ ...form, esPrincipal: e.target.checked })}
+              disabled={editando?.esPrincipal}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Contacto principal
+          </label>
+
+          {error && (
+            <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700 border border-red-200">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <ModalFooter>
+          <Button variant="outline" size="sm" onClick={() => setModalAbierto(false)}>
+            Cancelar
+          </Button>
+          <Button size="sm" disabled={!form.nombre.trim() || guardando} onClick={handleGuardar}>
+            {guardando ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </div>
+  );
+}
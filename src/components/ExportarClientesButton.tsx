@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import type { ExtraExportacion, FormatoExportacion } from '@/types';
+
+interface ExportarClientesButtonProps {
+  columnasActivas: string[];
+}
+
+const EXTRAS_DISPONIBLES: { key: ExtraExportacion; label: string }[] = [
+  { key: 'actividades', label: 'Últimas actividades' },
+  { key: 'enrichment', label: 'Estado de enriquecimiento' },
+  { key: 'webAnalysis', label: 'Análisis del sitio web' },
+];
+
+// Page params that are not filters
+export const PARAMS_IGNORADOS = ['page', 'columnas', 'vista', 'mostrarFiltros'];
+
+export function ExportarClientesButton({ columnasActivas }: ExportarClientesButtonProps) {
+  const [abierto, setAbierto] = useState(false);
+  const [extras, setExtras] = useState<ExtraExportacion[]>([]);
+
+  const toggleExtra = (extra: ExtraExportacion) => {
+    setExtras(prev =>
+      prev.includes(extra) ? prev.filter(e => e !== extra) : [...prev, extra]
+    );
+  };
+
+  const exportar = (format: FormatoExportacion) => {
+    // Same filters as the current list, without pagination
+    const params = new URLSearchParams(window.location.search);
+    PARAMS_IGNORADOS.forEach(param => params.delete(param));
+    params.set('format', format);
+    params.set('columnas', columnasActivas.join(','));
+    if (extras.length > 0) {
+      params.set('incluir', extras.join(','));
+    }
+
+    window.location.href = `/api/clientes/exportar?${params.toString()}`;
+    setAbierto(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => setAbierto(!abierto)}
+      >
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        Exportar
+      </Button>
+
+      {abierto && (
+        <>
+          {/* Overlay para cerrar al hacer click afuera */}
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setAbierto(false)}
+          />
+
+          <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-20">
+            <div className="p-3">
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">
+                Exportar clientes
+              </h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Incluye todos los clientes filtrados con las columnas visibles.
+              </p>
+              <div className="space-y-2">
+                {EXTRAS_DISPONIBLES.map((extra) => (
+                  <label
+                    key={extra.key}
+                    className="flex items-center space-x-2 cursor-pointer hover:bg-gray-50 p-1 rounded"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={extras.includes(extra.key)}
+                      onChange={() => toggleExtra(extra.key)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-gray-900">{extra.label}</span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="mt-3 pt-3 border-t border-gray-200 flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportar('csv')}
+                  className="flex-1"
+                >
+                  CSV
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportar('xlsx')}
+                  className="flex-1"
+                >
+                  Excel
+                </Button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
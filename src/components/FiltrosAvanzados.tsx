@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/Button';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
 import { 
   FunnelIcon,
   CalendarIcon,
@@ -16,6 +17,7 @@ interface FiltrosAvanzadosProps {
   estado: string;
   industria: string;
   ciudad: string;
+  asignado: string;
   fechaDesde: string;
   fechaHasta: string;
   conIA: string;
@@ -26,8 +28,10 @@ interface FiltrosAvanzadosProps {
   sortOrder: string;
   industriasDisponibles: string[];
   ciudadesDisponibles: string[];
+  usuarios: { id: string; name: string | null; email: string }[];
   mostrarFiltros?: string;
   columnas?: string;
+  vista?: string;
 }
 
 export function FiltrosAvanzados({
@@ -35,6 +39,7 @@ export function FiltrosAvanzados({
   estado,
   industria,
   ciudad,
+  asignado,
   fechaDesde,
   fechaHasta,
   conIA,
@@ -45,8 +50,10 @@ export function FiltrosAvanzados({
   sortOrder,
   industriasDisponibles,
   ciudadesDisponibles,
+  usuarios,
   mostrarFiltros,
-  columnas
+  columnas,
+  vista
 }: FiltrosAvanzadosProps) {
   const [filtrosAbiertos, setFiltrosAbiertos] = useState(mostrarFiltros === 'true');
 
@@ -68,7 +75,9 @@ export function FiltrosAvanzados({
         <input type="hidden" name="sort" value={sortField} />
         <input type="hidden" name="order" value={sortOrder} />
         {columnas && <input type="hidden" name="columnas" value={columnas} />}
+        {vista && <input type="hidden" name="vista" value={vista} />}
         {mostrarFiltros && <input type="hidden" name="mostrarFiltros" value={mostrarFiltros} />}
+        {!filtrosAbiertos && <input type="hidden" name="asignado" value={asignado} />}
         
         {/* Búsqueda principal */}
         <div className="flex items-center space-x-4">
@@ -112,7 +121,7 @@ export function FiltrosAvanzados({
           </Button>
 
           {hayFiltrosActivos && (
-            <Link href="/clientes">
+            <Link href={vista ? `/clientes?vista=${vista}` : '/clientes'}>
               <Button type="button" variant="outline" className="px-4">
                 Limpiar
               </Button>
@@ -254,7 +263,28 @@ export function FiltrosAvanzados({
             </div>
             
             {/* Filtros adicionales en segunda fila */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {/* Asignado a */}
+              <div>
+                <label htmlFor="asignado" className="block text-xs font-semibold text-gray-700 mb-1">
+                  Asignado a
+                </label>
+                <select
+                  id="asignado"
+                  name="asignado"
+                  defaultValue={asignado}
+                  className={selectClassName}
+                  style={selectStyle}
+                >
+                  <option value={FILTRO_ASIGNADO.MIOS}>Mis clientes</option>
+                  <option value={FILTRO_ASIGNADO.TODOS}>Todos</option>
+                  <option value={FILTRO_ASIGNADO.SIN_ASIGNAR}>Sin asignar</option>
+                  {usuarios.map(u => (
+                    <option key={u.id} value={u.id}>{u.name || u.email}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Con Teléfono */}
               <div>
                 <label htmlFor="conTelefono" className="block text-xs font-semibold text-gray-700 mb-1">
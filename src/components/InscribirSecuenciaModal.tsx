@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { useInscribirClientes, useSecuencias } from '@/hooks/useSecuencias';
+import type { InscripcionResult } from '@/types';
+
+interface InscribirSecuenciaModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clienteIds: string[];
+  onSuccess?: () => void;
+}
+
+/**
+ * Enroll one or more clients in an outreach sequence
+ */
+export function InscribirSecuenciaModal({ isOpen, onClose, clienteIds, onSuccess }: InscribirSecuenciaModalProps) {
+  const { data: secuencias = [], isLoading } = useSecuencias();
+  const inscribir = useInscribirClientes();
+  const [secuenciaId, setSecuenciaId] = useState('');
+  const [result, setResult] = useState<InscripcionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activas = secuencias.filter((s) => s.activa && s.pasos.length > 0);
+  const seleccionada = activas.find((s) => s.id === secuenciaId);
+
+  const handleClose = () => {
+    setSecuenciaId('');
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleInscribir = async () => {
+    setError(null);
+    try {
+      const data = await inscribir.mutateAsync({ secuenciaId, clienteIds });
+      setResult(data);
+      if (data.inscritos > 0) onSuccess?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al inscribir en la secuencia');
+    }
+  };
+
+  return (
+    <Modal
+      open={isOpen}
+      onOpenChange={(open) => { if (!open) handleClose(); }}
+      title="Inscribir en secuencia"
+      description={`${clienteIds.length} cliente(s)`}
+    >
+      {result ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircleIcon className="h-5 w-5" />
+            {result.inscritos} cliente(s) inscripto(s)
+          </div>
+          {result.omitidos.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Omitidos ({result.omitidos.length})</p>
+              <ul className="max-h-48 overflow-y-auto space-y-1">
+                {result.omitidos.map((o) => (
+                  <li key={o.clienteId} className="flex items-center gap-2 text-xs text-gray-600">
+                    <XCircleIcon className="h-4 w-4 text-amber-500 flex-shrink-0" />
+                    <span className="font-medium">{o.nombre}</span>: {o.motivo}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <select
+            value={secuenciaId}
+            onChange={(e) => setSecuenciaId(e.target.value)}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500"
+            disabled={isLoading}
+          >
+            <option value="">{isLoading ? 'Cargando...' : 'Elegir secuencia...'}</option>
+            {activas.map((s) => (
+              <option key={s.id} value={s.id}>{s.nombre} ({s.pasos.length} pasos)</option>
+            ))}
+          </select>
+
+          {seleccionada && (
+            <ol className="space-y-1 text-xs text-gray-600">
+              {seleccionada.pasos.map((paso, index) => (
+                <li key={paso.id}>
+                  {index + 1}. {paso.esperaDias > 0 ? `Día +${paso.esperaDias}: ` : 'Inmediato: '}
+                  {paso.canal === 'EMAIL' ? 'Email' : 'WhatsApp'} · {paso.plantilla?.nombre}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {!isLoading && activas.length === 0 && (
+            <p className="text-sm text-gray-500">No hay secuencias activas.</p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      <ModalFooter>
+        <Button variant="outline" size="sm" onClick={handleClose}>
+          {result ? 'Cerrar' : 'Cancelar'}
+        </Button>
+        {!result && (
+          <Button size="sm" onClick={handleInscribir} disabled={!secuenciaId || inscribir.isPending}>
+            {inscribir.isPending ? 'Inscribiendo...' : 'Inscribir'}
+          </Button>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+}
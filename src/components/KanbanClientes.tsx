@@ -0,0 +1,230 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import type { ColumnaKanban, EstadoCliente } from '@/types';
+
+interface KanbanClientesProps {
+  columnas: ColumnaKanban[];
+  params: Record<string, string>;
+  puedeEditar?: boolean;
+}
+
+interface Movimientos {
+  // Board the optimistic moves apply to; a refreshed board drops them
+  base: ColumnaKanban[];
+  pendientes: Record<string, EstadoCliente>;
+}
+
+const COLOR_COLUMNA: Record<EstadoCliente, string> = {
+  NUEVO: 'border-t-blue-500',
+  PRIMER_CONTACTO: 'border-t-yellow-500',
+  EN_TRATATIVAS: 'border-t-orange-500',
+  EN_DESARROLLO: 'border-t-green-500',
+  FINALIZADO: 'border-t-gray-500',
+  RECONTACTO: 'border-t-purple-500',
+};
+
+function getPrioridadColor(prioridad: string) {
+  switch (prioridad) {
+    case 'CRITICA':
+      return 'bg-red-100 text-red-800';
+    case 'ALTA':
+      return 'bg-orange-100 text-orange-800';
+    case 'MEDIA':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+}
+
+/**
+ * Sales pipeline board: one column per EstadoCliente, drag a card to change its stage.
+ */
+export function KanbanClientes({ columnas, params, puedeEditar = false }: KanbanClientesProps) {
+  const router = useRouter();
+  const [movimientos, setMovimientos] = useState<Movimientos>({ base: columnas, pendientes: {} });
+  const [arrastrando, setArrastrando] = useState<{ id: string; desde: EstadoCliente } | null>(null);
+  const [columnaDestino, setColumnaDestino] = useState<EstadoCliente | null>(null);
+
+  const pendientes = useMemo(
+    () => (movimientos.base === columnas ? movimientos.pendientes : {}),
+    [movimientos, columnas]
+  );
+
+  // Server columns with the optimistic moves applied
+  const columnasVisibles = useMemo(() => {
+    const movidos = columnas.flatMap((columna) =>
+      columna.clientes
+        .filter((c) => pendientes[c.id] && pendientes[c.id] !== columna.estado)
+        .map((cliente) => ({ cliente, desde: columna.estado }))
+    );
+
+    return columnas.map((columna) => {
+      const entran = movidos.filter((m) => pendientes[m.cliente.id] === columna.estado);
+      const salen = movidos.filter((m) => m.desde === columna.estado);
+      return {
+        ...columna,
+        total: columna.total + entran.length - salen.length,
+        clientes: [
+          ...entran.map((m) => m.cliente),
+          ...columna.clientes.filter((c) => !salen.some((m) => m.cliente.id === c.id)),
+        ],
+      };
+    });
+  }, [columnas, pendientes]);
+
+  const setPendiente = (id: string, estado: EstadoCliente | null) => {
+    setMovimientos((prev) => {
+      const actuales = prev.base === columnas ? { ...prev.pendientes } : {};
+      if (estado) actuales[id] = estado;
+      else delete actuales[id];
+      return { base: columnas, pendientes: actuales };
+    });
+  };
+
+  const moverCliente = async (id: string, desde: EstadoCliente, hacia: EstadoCliente) => {
+    if (desde === hacia) return;
+
+    const destino = columnasVisibles.find((c) => c.estado === hacia);
+    if (destino?.limiteWip && destino.total >= destino.limiteWip) {
+      const etapa = hacia.replace(/_/g, ' ');
+      if (!confirm(`La etapa "${etapa}" alcanzó su límite (${destino.total}/${destino.limiteWip}). ¿Mover el cliente igualmente?`)) {
+        return;
+      }
+    }
+
+    setPendiente(id, hacia);
+
+    try {
+      // Same update path as the edit form, so the state change activity is recorded
+      const res = await fetch(`/api/clientes/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ estado: hacia }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setPendiente(id, null);
+        alert(data.error || 'Error al cambiar el estado');
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setPendiente(id, null);
+      alert('Error al cambiar el estado');
+    }
+  };
+
+  const verMasUrl = (estado: EstadoCliente) => {
+    const nuevosParams = new URLSearchParams(params);
+    nuevosParams.set('vista', 'table');
+    nuevosParams.set('estado', estado);
+    nuevosParams.delete('page');
+    return `/clientes?${nuevosParams.toString()}`;
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {columnasVisibles.map((columna) => {
+        const excedido = columna.limiteWip !== null && columna.total > columna.limiteWip;
+        const completo = columna.limiteWip !== null && columna.total === columna.limiteWip;
+        const esDestino = columnaDestino === columna.estado && arrastrando?.desde !== columna.estado;
+
+        return (
+          <div
+            key={columna.estado}
+            onDragOver={(e) => {
+              if (!arrastrando) return;
+              e.preventDefault();
+              setColumnaDestino(columna.estado);
+            }}
+            onDragLeave={() => setColumnaDestino(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setColumnaDestino(null);
+              if (arrastrando) moverCliente(arrastrando.id, arrastrando.desde, columna.estado);
+              setArrastrando(null);
+            }}
+            className={`flex-shrink-0 w-64 flex flex-col rounded-lg border border-t-4 ${COLOR_COLUMNA[columna.estado]} ${
+              esDestino ? 'bg-blue-50 border-blue-300' : excedido ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+            }`}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+              <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                {columna.estado.replace(/_/g, ' ')}
+              </h4>
+              <span
+                className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                  excedido ? 'bg-red-100 text-red-700' : completo ? 'bg-amber-100 text-amber-700' : 'bg-gray-200 text-gray-700'
+                }`}
+                title={columna.limiteWip !== null ? `Límite WIP: ${columna.limiteWip}` : undefined}
+              >
+                {columna.total}{columna.limiteWip !== null && ` / ${columna.limiteWip}`}
+              </span>
+            </div>
+
+            <div className="flex-1 p-2 space-y-2 min-h-[8rem] max-h-[70vh] overflow-y-auto">
+              {columna.clientes.map((cliente) => (
+                <div
+                  key={cliente.id}
+                  draggable={puedeEditar}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', cliente.id);
+                    setArrastrando({ id: cliente.id, desde: columna.estado });
+                  }}
+                  onDragEnd={() => {
+                    setArrastrando(null);
+                    setColumnaDestino(null);
+                  }}
+                  className={`bg-white rounded-md border border-gray-200 p-2.5 shadow-sm ${
+                    puedeEditar ? 'cursor-grab active:cursor-grabbing' : ''
+                  } ${arrastrando?.id === cliente.id ? 'opacity-50' : ''} ${
+                    pendientes[cliente.id] ? 'ring-1 ring-blue-300' : ''
+                  }`}
+                >
+                  <Link
+                    href={`/clientes/${cliente.id}`}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline line-clamp-2"
+                  >
+                    {cliente.nombre}
+                  </Link>
+                  {(cliente.ciudad || cliente.industria) && (
+                    <p className="text-xs text-gray-500 mt-0.5 truncate">
+                      {[cliente.industria, cliente.ciudad].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between mt-2">
+                    <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded-full ${getPrioridadColor(cliente.prioridad)}`}>
+                      {cliente.prioridad}
+                    </span>
+                    <span className="text-[11px] text-gray-400 truncate ml-2" title={cliente.asignadoA?.email}>
+                      {cliente.asignadoA ? cliente.asignadoA.name || cliente.asignadoA.email : 'Sin asignar'}
+                    </span>
+                  </div>
+                </div>
+              ))}
+
+              {columna.clientes.length === 0 && (
+                <p className="text-xs text-gray-400 text-center py-4">Sin clientes</p>
+              )}
+            </div>
+
+            {columna.total > columna.clientes.length && (
+              <Link
+                href={verMasUrl(columna.estado)}
+                className="px-3 py-2 text-xs text-blue-600 hover:text-blue-800 border-t border-gray-200 text-center"
+              >
+                Ver {columna.total - columna.clientes.length} más en la tabla
+              </Link>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
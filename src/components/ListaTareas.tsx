@@ -0,0 +1,133 @@
+'use client';
+
+import Link from 'next/link';
+import { BellIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useActualizarTarea, useEliminarTarea } from '@/hooks/useTareas';
+import type { PrioridadTarea, Tarea } from '@/types';
+
+interface ListaTareasProps {
+  tareas: Tarea[];
+  onEditar?: (tarea: Tarea) => void;
+  // Called after a task is completed, reopened or deleted
+  onCambio?: () => void;
+  mostrarCliente?: boolean;
+  mostrarAsignado?: boolean;
+}
+
+const COLOR_PRIORIDAD: Record<PrioridadTarea, string> = {
+  ALTA: 'bg-red-100 text-red-700',
+  MEDIA: 'bg-yellow-100 text-yellow-700',
+  BAJA: 'bg-gray-100 text-gray-600',
+};
+
+export const esTareaAbierta = (tarea: Tarea) => tarea.estado === 'PENDIENTE' || tarea.estado === 'EN_PROGRESO';
+
+export function ListaTareas({
+  tareas,
+  onEditar,
+  onCambio,
+  mostrarCliente = false,
+  mostrarAsignado = false,
+}: ListaTareasProps) {
+  const actualizar = useActualizarTarea();
+  const eliminar = useEliminarTarea();
+  const ahora = new Date();
+
+  const toggleCompletada = async (tarea: Tarea) => {
+    try {
+      await actualizar.mutateAsync({
+        id: tarea.id,
+        dto: { estado: esTareaAbierta(tarea) ? 'COMPLETADA' : 'PENDIENTE' },
+      });
+      onCambio?.();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al actualizar la tarea');
+    }
+  };
+
+  const handleEliminar = async (tarea: Tarea) => {
+    if (!confirm(`¿Eliminar la tarea "${tarea.titulo}"?`)) return;
+    try {
+      await eliminar.mutateAsync(tarea.id);
+      onCambio?.();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al eliminar la tarea');
+    }
+  };
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {tareas.map((tarea) => {
+        const abierta = esTareaAbierta(tarea);
+        const vencida = abierta && new Date(tarea.vencimiento) < ahora;
+
+        return (
+          <li key={tarea.id} className="py-2.5 first:pt-0 last:pb-0">
+            <div className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={!abierta}
+                onChange={() => toggleCompletada(tarea)}
+                disabled={actualizar.isPending || tarea.estado === 'CANCELADA'}
+                className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                title={abierta ? 'Marcar como completada' : 'Reabrir'}
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-medium ${abierta ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                  {tarea.titulo}
+                </p>
+                <div className="mt-0.5 flex flex-wrap items-center gap-x-2 gap-y-0.5 text-xs">
+                  <span className={vencida ? 'font-medium text-red-600' : 'text-gray-500'}>
+                    {vencida ? 'Venció ' : 'Vence '}
+                    {new Date(tarea.vencimiento).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                  <span className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${COLOR_PRIORIDAD[tarea.prioridad]}`}>
+                    {tarea.prioridad}
+                  </span>
+                  {tarea.recordatorio && abierta && (
+                    <span title="Con recordatorio">
+                      <BellIcon className="h-3 w-3 text-gray-400" />
+                    </span>
+                  )}
+                  {mostrarCliente && tarea.cliente && (
+                    <Link href={`/clientes/${tarea.cliente.id}`} className="text-blue-600 hover:text-blue-800 truncate">
+                      {tarea.cliente.nombre}
+                    </Link>
+                  )}
+                  {mostrarAsignado && tarea.asignadoA && (
+                    <span className="text-gray-400 truncate">
+                      {tarea.asignadoA.name || tarea.asignadoA.email}
+                    </span>
+                  )}
+                </div>
+                {tarea.descripcion && (
+                  <p className="mt-0.5 text-xs text-gray-500 line-clamp-2">{tarea.descripcion}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {onEditar && (
+                  <button
+                    type="button"
+                    onClick={() => onEditar(tarea)}
+                    className="p-1 rounded text-gray-400 hover:text-blue-600"
+                    title="Editar"
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleEliminar(tarea)}
+                  className="p-1 rounded text-gray-400 hover:text-red-600"
+                  title="Eliminar"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -5,7 +5,11 @@ import {
   EnvelopeIcon,
   ChevronDownIcon,
   ChevronUpIcon,
+  EyeIcon,
+  CursorArrowRaysIcon,
+  ChatBubbleLeftRightIcon,
 } from '@heroicons/react/24/outline';
+import type { EstadoMensaje } from '@/types';
 
 interface MensajeItem {
   id: string;
@@ -13,11 +17,20 @@ interface MensajeItem {
   destinatario: string;
   asunto: string | null;
   cuerpo: string;
-  estado: 'PENDIENTE' | 'ENVIADO' | 'ERROR';
+  estado: EstadoMensaje;
   errorDetalle: string | null;
+  programadoPara: string | null;
+  enviadoEn: string | null;
+  seguimiento: boolean;
+  abiertoEn: string | null;
+  aperturas: number;
+  clics: number;
   createdAt: string;
   usuario: { name: string | null; email: string };
   plantilla: { nombre: string } | null;
+  contacto: { nombre: string; cargo: string | null } | null;
+  eventos: { id: string; tipo: 'APERTURA' | 'CLIC'; url: string | null; createdAt: string }[];
+  respuestas: { id: string; remitente: string; asunto: string | null; cuerpo: string; recibidoEn: string }[];
 }
 
 interface MensajeHistoryProps {
@@ -32,10 +45,21 @@ function WhatsAppSmallIcon({ className }: { className?: string }) {
   );
 }
 
-const estadoConfig = {
+const formatFechaHora = (fecha: string) =>
+  new Date(fecha).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' });
+
+const estadoConfig: Record<EstadoMensaje, { bg: string; text: string }> = {
   PENDIENTE: { bg: 'bg-yellow-100', text: 'text-yellow-700' },
   ENVIADO: { bg: 'bg-green-100', text: 'text-green-700' },
   ERROR: { bg: 'bg-red-100', text: 'text-red-700' },
+  PROGRAMADO: { bg: 'bg-blue-100', text: 'text-blue-700' },
+  CANCELADO: { bg: 'bg-gray-100', text: 'text-gray-600' },
+  ENTREGADO: { bg: 'bg-green-100', text: 'text-green-800' },
+  DEMORADO: { bg: 'bg-yellow-100', text: 'text-yellow-700' },
+  REBOTADO: { bg: 'bg-red-100', text: 'text-red-700' },
+  QUEJA: { bg: 'bg-red-100', text: 'text-red-800' },
+  LEIDO: { bg: 'bg-green-100', text: 'text-green-800' },
+  MANUAL: { bg: 'bg-gray-100', text: 'text-gray-700' },
 };
 
 export function MensajeHistory({ clienteId }: MensajeHistoryProps) {
@@ -89,8 +113,16 @@ export function MensajeHistory({ clienteId }: MensajeHistoryProps) {
         >
           <option value="">Todos los estados</option>
           <option value="ENVIADO">Enviado</option>
+          <option value="ENTREGADO">Entregado</option>
+          <option value="LEIDO">Leído (WhatsApp)</option>
+          <option value="DEMORADO">Demorado</option>
+          <option value="REBOTADO">Rebotado</option>
+          <option value="QUEJA">Queja (spam)</option>
           <option value="ERROR">Error</option>
+          <option value="MANUAL">Manual (wa.me)</option>
           <option value="PENDIENTE">Pendiente</option>
+          <option value="PROGRAMADO">Programado</option>
+          <option value="CANCELADO">Cancelado</option>
         </select>
       </div>
 
@@ -128,11 +160,29 @@ export function MensajeHistory({ clienteId }: MensajeHistoryProps) {
                     </span>
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0 ml-2">
+                    {m.respuestas.length > 0 && (
+                      <span className="inline-flex items-center gap-0.5 text-xs text-green-600" title={`${m.respuestas.length} respuesta(s)`}>
+                        <ChatBubbleLeftRightIcon className="h-3.5 w-3.5" />
+                        {m.respuestas.length}
+                      </span>
+                    )}
+                    {m.aperturas > 0 && (
+                      <span className="inline-flex items-center gap-0.5 text-xs text-gray-500" title={`Abierto ${m.aperturas} vez/veces`}>
+                        <EyeIcon className="h-3.5 w-3.5" />
+                        {m.aperturas}
+                      </span>
+                    )}
+                    {m.clics > 0 && (
+                      <span className="inline-flex items-center gap-0.5 text-xs text-blue-600" title={`${m.clics} clic(s) en enlaces`}>
+                        <CursorArrowRaysIcon className="h-3.5 w-3.5" />
+                        {m.clics}
+                      </span>
+                    )}
                     <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium ${style.bg} ${style.text}`}>
                       {m.estado}
                     </span>
                     <span className="text-xs text-gray-400">
-                      {new Date(m.createdAt).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit' })}
+                      {new Date(m.programadoPara ?? m.createdAt).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit' })}
                     </span>
                     {isExpanded ? (
                       <ChevronUpIcon className="h-4 w-4 text-gray-400" />
@@ -147,6 +197,7 @@ export function MensajeHistory({ clienteId }: MensajeHistoryProps) {
                     <div className="mt-2 space-y-1 text-xs text-gray-500">
                       <p>
                         <span className="font-medium">Destinatario:</span> {m.destinatario}
+                        {m.contacto && ` (${m.contacto.nombre}${m.contacto.cargo ? `, ${m.contacto.cargo}` : ''})`}
                       </p>
                       <p>
                         <span className="font-medium">Enviado por:</span> {m.usuario.name || m.usuario.email}
@@ -156,6 +207,37 @@ export function MensajeHistory({ clienteId }: MensajeHistoryProps) {
                           <span className="font-medium">Plantilla:</span> {m.plantilla.nombre}
                         </p>
                       )}
+                      {m.programadoPara && (
+                        <p>
+                          <span className="font-medium">Programado para:</span>{' '}
+                          {formatFechaHora(m.programadoPara)}
+                        </p>
+                      )}
+                      {m.canal === 'EMAIL' && m.enviadoEn && (
+                        <p>
+                          <span className="font-medium">Seguimiento:</span>{' '}
+                          {!m.seguimiento
+                            ? 'desactivado para esta plantilla'
+                            : m.abiertoEn
+                              ? `abierto por primera vez el ${formatFechaHora(m.abiertoEn)}`
+                              : 'sin aperturas todavía'}
+                        </p>
+                      )}
+                      {m.eventos.length > 0 && (
+                        <ul className="pl-3 space-y-0.5">
+                          {m.eventos.map((evento) => (
+                            <li key={evento.id} className="flex items-center gap-1 min-w-0">
+                              {evento.tipo === 'CLIC' ? (
+                                <CursorArrowRaysIcon className="h-3.5 w-3.5 text-blue-500 flex-shrink-0" />
+                              ) : (
+                                <EyeIcon className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
+                              )}
+                              <span className="flex-shrink-0">{formatFechaHora(evento.createdAt)}</span>
+                              {evento.url && <span className="truncate" title={evento.url}>· {evento.url}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       {m.errorDetalle && (
                         <p className="text-red-600">
                           <span className="font-medium">Error:</span> {m.errorDetalle}
@@ -169,6 +251,16 @@ export function MensajeHistory({ clienteId }: MensajeHistoryProps) {
                         <p className="text-gray-700 whitespace-pre-wrap">{m.cuerpo}</p>
                       )}
                     </div>
+                    {m.respuestas.map((respuesta) => (
+                      <div key={respuesta.id} className="mt-2 p-2 bg-green-50 rounded text-sm">
+                        <p className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+                          <ChatBubbleLeftRightIcon className="h-3.5 w-3.5 text-green-600 flex-shrink-0" />
+                          <span className="font-medium">Respuesta de {respuesta.remitente}</span>
+                          <span>· {formatFechaHora(respuesta.recibidoEn)}</span>
+                        </p>
+                        <p className="text-gray-700 whitespace-pre-wrap">{respuesta.cuerpo}</p>
+                      </div>
+                    ))}
                   </div>
                 )}
               </div>
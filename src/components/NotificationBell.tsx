@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { useNotificationSystem } from '@/hooks/useNotifications';
-import { BellIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { BellIcon, ChatBubbleLeftRightIcon, CheckIcon, ClockIcon } from '@heroicons/react/24/outline';
 
 export function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false);
@@ -59,6 +59,24 @@ export function NotificationBell() {
             <span className="text-yellow-600">!</span>
           </div>
         );
+      case 'task_reminder':
+        return (
+          <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center">
+            <ClockIcon className="h-4 w-4 text-blue-600" />
+          </div>
+        );
+      case 'task_overdue':
+        return (
+          <div className="w-8 h-8 rounded-full bg-red-100 flex items-center justify-center">
+            <ClockIcon className="h-4 w-4 text-red-600" />
+          </div>
+        );
+      case 'reply_received':
+        return (
+          <div className="w-8 h-8 rounded-full bg-green-100 flex items-center justify-center">
+            <ChatBubbleLeftRightIcon className="h-4 w-4 text-green-600" />
+          </div>
+        );
       case 'quota_exceeded':
         return (
           <div className="w-8 h-8 rounded-full bg-red-100 flex items-center justify-center">
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/Button';
+import { useOportunidades } from '@/hooks/useOportunidades';
 import { 
   PlusIcon,
   XMarkIcon,
@@ -46,9 +47,21 @@ export function NuevaActividadModal({
     tipo: 'NOTA',
     descripcion: '',
     resultado: '',
-    proximoPaso: ''
+    proximoPaso: '',
+    oportunidadId: '',
+    fecha: '',
+    fechaFin: '',
+    ubicacion: ''
   });
 
+  // Proposals can be linked to one of the client's opportunities
+  const esPropuesta = formData.tipo === 'PROPUESTA';
+  const { data: oportunidades = [] } = useOportunidades(clienteId, isOpen && esPropuesta);
+
+  // Meetings and calls can be scheduled (they show up in the calendar)
+  const esProgramable = formData.tipo === 'REUNION' || formData.tipo === 'LLAMADA';
+  const esReunion = formData.tipo === 'REUNION';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -65,6 +78,13 @@ export function NuevaActividadModal({
           clienteId,
           resultado: formData.resultado || null,
           proximoPaso: formData.proximoPaso || null,
+          oportunidadId: esPropuesta && formData.oportunidadId ? formData.oportunidadId : null,
+          // datetime-local values are in the browser's timezone
+          fecha: esProgramable && formData.fecha ? new Date(formData.fecha).toISOString() : undefined,
+          fechaFin: esProgramable && formData.fecha && formData.fechaFin
+            ? new Date(formData.fechaFin).toISOString()
+            : null,
+          ubicacion: esReunion && formData.ubicacion.trim() ? formData.ubicacion.trim() : null,
         }),
       });
 
@@ -76,7 +96,11 @@ export function NuevaActividadModal({
           tipo: 'NOTA',
           descripcion: '',
           resultado: '',
-          proximoPaso: ''
+          proximoPaso: '',
+          oportunidadId: '',
+          fecha: '',
+          fechaFin: '',
+          ubicacion: ''
         });
         
         // Refrescar la página para mostrar la nueva actividad
@@ -166,6 +190,75 @@ export function NuevaActividadModal({
                       </select>
                     </div>
 
+                    {/* Oportunidad */}
+                    {esPropuesta && oportunidades.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Oportunidad
+                        </label>
+                        <select
+                          value={formData.oportunidadId}
+                          onChange={(e) => handleInputChange('oportunidadId', e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="">Sin vincular</option>
+                          {oportunidades.map((oportunidad) => (
+                            <option key={oportunidad.id} value={oportunidad.id}>
+                              {oportunidad.titulo}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {/* Fecha y hora (reuniones y llamadas) */}
+                    {esProgramable && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Inicio
+                          </label>
+                          <input
+                            type="datetime-local"
+                            value={formData.fecha}
+                            onChange={(e) => handleInputChange('fecha', e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">Vacío = ahora</p>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Fin
+                          </label>
+                          <input
+                            type="datetime-local"
+                            value={formData.fechaFin}
+                            min={formData.fecha || undefined}
+                            disabled={!formData.fecha}
+                            onChange={(e) => handleInputChange('fechaFin', e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Ubicación */}
+                    {esReunion && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Ubicación
+                        </label>
+                        <input
+                          type="text"
+                          value={formData.ubicacion}
+                          onChange={(e) => handleInputChange('ubicacion', e.target.value)}
+                          maxLength={300}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Dirección o enlace de la videollamada"
+                        />
+                      </div>
+                    )}
+
                     {/* Descripción */}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
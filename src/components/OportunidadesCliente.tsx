@@ -0,0 +1,351 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  BanknotesIcon,
+  CalendarIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import {
+  useActualizarOportunidad,
+  useCrearOportunidad,
+  useEliminarOportunidad,
+  useOportunidades,
+} from '@/hooks/useOportunidades';
+import { OPORTUNIDADES } from '@/lib/constants';
+import { formatMonto } from '@/lib/utils';
+import type { CreateOportunidadDTO, EtapaOportunidad, Oportunidad } from '@/types';
+
+interface OportunidadesClienteProps {
+  clienteId: string;
+  puedeEditar: boolean;
+}
+
+// Form state keeps numbers and dates as the raw input strings
+interface FormOportunidad {
+  titulo: string;
+  monto: string;
+  moneda: string;
+  etapa: EtapaOportunidad;
+  probabilidad: string;
+  fechaCierreEstimada: string;
+  motivoCierre: string;
+  notas: string;
+}
+
+const ETAPAS: { value: EtapaOportunidad; label: string; color: string }[] = [
+  { value: 'CALIFICACION', label: 'Calificación', color: 'bg-blue-100 text-blue-700' },
+  { value: 'PROPUESTA', label: 'Propuesta', color: 'bg-yellow-100 text-yellow-700' },
+  { value: 'NEGOCIACION', label: 'Negociación', color: 'bg-orange-100 text-orange-700' },
+  { value: 'GANADA', label: 'Ganada', color: 'bg-green-100 text-green-700' },
+  { value: 'PERDIDA', label: 'Perdida', color: 'bg-gray-100 text-gray-600' },
+];
+
+const esCerrada = (etapa: EtapaOportunidad) => etapa === 'GANADA' || etapa === 'PERDIDA';
+
+const FORM_VACIO: FormOportunidad = {
+  titulo: '',
+  monto: '',
+  moneda: OPORTUNIDADES.MONEDA_DEFAULT,
+  etapa: 'CALIFICACION',
+  probabilidad: String(OPORTUNIDADES.PROBABILIDAD_POR_ETAPA.CALIFICACION),
+  fechaCierreEstimada: '',
+  motivoCierre: '',
+  notas: '',
+};
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+export function OportunidadesCliente({ clienteId, puedeEditar }: OportunidadesClienteProps) {
+  const router = useRouter();
+  const { data: oportunidades = [], isLoading } = useOportunidades(clienteId);
+  const crear = useCrearOportunidad(clienteId);
+  const actualizar = useActualizarOportunidad(clienteId);
+  const eliminar = useEliminarOportunidad(clienteId);
+
+  const [modalAbierto, setModalAbierto] = useState(false);
+  const [editando, setEditando] = useState<Oportunidad | null>(null);
+  const [form, setForm] = useState<FormOportunidad>(FORM_VACIO);
+  const [error, setError] = useState<string | null>(null);
+
+  const abrirNuevo = () => {
+    setEditando(null);
+    setForm(FORM_VACIO);
+    setError(null);
+    setModalAbierto(true);
+  };
+
+  const abrirEdicion = (oportunidad: Oportunidad) => {
+    setEditando(oportunidad);
+    setForm({
+      titulo: oportunidad.titulo,
+      monto: String(oportunidad.monto),
+      moneda: oportunidad.moneda,
+      etapa: oportunidad.etapa,
+      probabilidad: String(oportunidad.probabilidad),
+      fechaCierreEstimada: oportunidad.fechaCierreEstimada
+        ? new Date(oportunidad.fechaCierreEstimada).toISOString().slice(0, 10)
+        : '',
+      motivoCierre: oportunidad.motivoCierre ?? '',
+      notas: oportunidad.notas ?? '',
+    });
+    setError(null);
+    setModalAbierto(true);
+  };
+
+  // A new stage suggests its default probability
+  const cambiarEtapa = (etapa: EtapaOportunidad) => {
+    setForm({ ...form, etapa, probabilidad: String(OPORTUNIDADES.PROBABILIDAD_POR_ETAPA[etapa]) });
+  };
+
+  const handleGuardar = async () => {
+    setError(null);
+    const dto: CreateOportunidadDTO = {
+      titulo: form.titulo.trim(),
+      monto: Number(form.monto),
+      moneda: form.moneda,
+      etapa: form.etapa,
+      probabilidad: Number(form.probabilidad),
+      fechaCierreEstimada: form.fechaCierreEstimada || null,
+      motivoCierre: esCerrada(form.etapa) ? form.motivoCierre.trim() || null : null,
+      notas: form.notas.trim() || null,
+    };
+
+    try {
+      if (editando) {
+        await actualizar.mutateAsync({ id: editando.id, dto });
+      } else {
+        await crear.mutateAsync(dto);
+      }
+      setModalAbierto(false);
+      // Stage changes are logged as activities of the client
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la oportunidad');
+    }
+  };
+
+  const handleEliminar = async (oportunidad: Oportunidad) => {
+    if (!confirm(`¿Eliminar la oportunidad "${oportunidad.titulo}"?`)) return;
+    try {
+      await eliminar.mutateAsync(oportunidad.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al eliminar la oportunidad');
+    }
+  };
+
+  const guardando = crear.isPending || actualizar.isPending;
+  const montoValido = form.monto.trim() !== '' && Number(form.monto) >= 0;
+  const hoy = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <BanknotesIcon className="w-4 h-4 text-gray-400" />
+          Oportunidades
+        </h3>
+        {puedeEditar && (
+          <Button variant="ghost" size="sm" onClick={abrirNuevo}>
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Agregar
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400 text-center py-2">Cargando oportunidades...</p>
+      ) : oportunidades.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-2">Sin oportunidades</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {oportunidades.map((oportunidad) => {
+            const etapa = ETAPAS.find((e) => e.value === oportunidad.etapa);
+            const fechaEstimada = oportunidad.fechaCierreEstimada
+              ? new Date(oportunidad.fechaCierreEstimada).toISOString().slice(0, 10)
+              : null;
+            const vencida = !esCerrada(oportunidad.etapa) && fechaEstimada !== null && fechaEstimada < hoy;
+
+            return (
+              <li key={oportunidad.id} className="py-2.5 first:pt-0 last:pb-0">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{oportunidad.titulo}</p>
+                    <div className="mt-1 flex flex-wrap items-center gap-1.5 text-xs text-gray-600">
+                      <span className={`inline-flex px-1.5 py-0.5 text-[10px] font-medium rounded ${etapa?.color}`}>
+                        {etapa?.label}
+                      </span>
+                      <span className="font-medium text-gray-900">
+                        {formatMonto(oportunidad.monto, oportunidad.moneda)}
+                      </span>
+                      {!esCerrada(oportunidad.etapa) && (
+                        <span className="text-gray-400">· {oportunidad.probabilidad}%</span>
+                      )}
+                    </div>
+                    {fechaEstimada && !esCerrada(oportunidad.etapa) && (
+                      <p className={`mt-0.5 flex items-center gap-1 text-xs ${vencida ? 'text-red-600' : 'text-gray-500'}`}>
+                        <CalendarIcon className="w-3 h-3 flex-shrink-0" />
+                        Cierre estimado {new Date(fechaEstimada + 'T00:00:00').toLocaleDateString('es-ES')}
+                      </p>
+                    )}
+                    {oportunidad.motivoCierre && esCerrada(oportunidad.etapa) && (
+                      <p className="mt-0.5 text-xs text-gray-500 line-clamp-2">{oportunidad.motivoCierre}</p>
+                    )}
+                  </div>
+                  {puedeEditar && (
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => abrirEdicion(oportunidad)}
+                        className="p-1 rounded text-gray-400 hover:text-blue-600"
+                        title="Editar"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleEliminar(oportunidad)}
+                        className="p-1 rounded text-gray-400 hover:text-red-600"
+                        title="Eliminar"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Modal
+        open={modalAbierto}
+        onOpenChange={setModalAbierto}
+        title={editando ? 'Editar oportunidad' : 'Nueva oportunidad'}
+      >
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Título *</label>
+            <input
+              type="text"
+              value={form.titulo}
+              onChange={(e) => setForm({ ...form, titulo: e.target.value })}
+              placeholder="Ej: Rediseño del sitio web"
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Monto *</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.monto}
+                onChange={(e) => setForm({ ...form, monto: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Moneda</label>
+              <select
+                value={form.moneda}
+                onChange={(e) => setForm({ ...form, moneda: e.target.value })}
+                className={inputClassName}
+              >
+                {OPORTUNIDADES.MONEDAS.map((moneda) => (
+                  <option key={moneda} value={moneda}>{moneda}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Etapa</label>
+              <select
+                value={form.etapa}
+                onChange={(e) => cambiarEtapa(e.target.value as EtapaOportunidad)}
+                className={inputClassName}
+              >
+                {ETAPAS.map((etapa) => (
+                  <option key={etapa.value} value={etapa.value}>{etapa.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Probabilidad (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={form.probabilidad}
+                onChange={(e) => setForm({ ...form, probabilidad: e.target.value })}
+                disabled={esCerrada(form.etapa)}
+                className={`${inputClassName} disabled:bg-gray-50 disabled:text-gray-500`}
+              />
+            </div>
+          </div>
+          {esCerrada(form.etapa) ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {form.etapa === 'PERDIDA' ? 'Motivo de la pérdida *' : 'Motivo del cierre'}
+              </label>
+              <textarea
+                value={form.motivoCierre}
+                onChange={(e) => setForm({ ...form, motivoCierre: e.target.value })}
+                rows={2}
+                placeholder={form.etapa === 'PERDIDA' ? 'Ej: Eligió otro proveedor por precio' : undefined}
+                className={`${inputClassName} resize-none`}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de cierre estimada</label>
+              <input
+                type="date"
+                value={form.fechaCierreEstimada}
+                onChange={(e) => setForm({ ...form, fechaCierreEstimada: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+            <textarea
+              value={form.notas}
+              onChange={(e) => setForm({ ...form, notas: e.target.value })}
+              rows={2}
+              className={`${inputClassName} resize-none`}
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700 border border-red-200">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <ModalFooter>
+          <Button variant="outline" size="sm" onClick={() => setModalAbierto(false)}>
+            Cancelar
+          </Button>
+          <Button
+            size="sm"
+            disabled={!form.titulo.trim() || !montoValido || guardando}
+            onClick={handleGuardar}
+          >
+            {guardando ? 'Guardando...' : 'Guardar'}
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </div>
+  );
+}
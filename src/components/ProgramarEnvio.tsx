@@ -0,0 +1,94 @@
+'use client';
+
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { MENSAJES_PROGRAMADOS } from '@/lib/constants';
+import { fechaLocalAUtc } from '@/lib/zona-horaria';
+
+export interface ProgramacionEnvio {
+  activa: boolean;
+  // datetime-local value, read in zonaHoraria
+  fechaLocal: string;
+  // '' = default (the client's timezone)
+  zonaHoraria: string;
+}
+
+export const PROGRAMACION_INICIAL: ProgramacionEnvio = { activa: false, fechaLocal: '', zonaHoraria: '' };
+
+/**
+ * Body fields of the send endpoints for a programación (none when sending now)
+ */
+export function camposProgramacion(programacion: ProgramacionEnvio) {
+  if (!programacion.activa) return {};
+  return {
+    programadoPara: programacion.fechaLocal,
+    zonaHoraria: programacion.zonaHoraria || undefined,
+  };
+}
+
+export const nombreZona = (zona: string) => zona.replace(/_/g, ' ');
+
+interface ProgramarEnvioProps {
+  value: ProgramacionEnvio;
+  onChange: (value: ProgramacionEnvio) => void;
+  // Label of the '' option ("Del cliente (...)", "De cada cliente")
+  opcionZonaDefault: string;
+  // Zone the '' option stands for, when it is a single one
+  zonaDefault?: string;
+}
+
+/**
+ * "Send later" toggle with date, time and timezone, for the email send modals
+ */
+export function ProgramarEnvio({ value, onChange, opcionZonaDefault, zonaDefault }: ProgramarEnvioProps) {
+  const zona = value.zonaHoraria || zonaDefault;
+  const enMiHora = value.fechaLocal && zona ? fechaLocalAUtc(value.fechaLocal, zona) : null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.activa}
+          onChange={(e) => onChange({ ...value, activa: e.target.checked })}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        <ClockIcon className="h-4 w-4 text-gray-400" />
+        Programar envío
+      </label>
+
+      {value.activa && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Fecha y hora</label>
+            <input
+              type="datetime-local"
+              value={value.fechaLocal}
+              onChange={(e) => onChange({ ...value, fechaLocal: e.target.value })}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Zona horaria</label>
+            <select
+              value={value.zonaHoraria}
+              onChange={(e) => onChange({ ...value, zonaHoraria: e.target.value })}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">{opcionZonaDefault}</option>
+              {MENSAJES_PROGRAMADOS.ZONAS_HORARIAS.map((z) => (
+                <option key={z} value={z}>{nombreZona(z)}</option>
+              ))}
+            </select>
+          </div>
+          {enMiHora && !isNaN(enMiHora.getTime()) && (
+            <p className="sm:col-span-2 text-xs text-gray-500">
+              En tu hora: {format(enMiHora, "EEEE d 'de' MMMM, HH:mm", { locale: es })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ChatBubbleLeftRightIcon, PlusIcon, QueueListIcon, StopIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { InscribirSecuenciaModal } from '@/components/InscribirSecuenciaModal';
+import { useAccionInscripcion, useInscripcionesCliente } from '@/hooks/useSecuencias';
+import type { InscripcionSecuencia, MotivoDetencion } from '@/types';
+
+interface SecuenciasClienteProps {
+  clienteId: string;
+  puedeInscribir: boolean;
+}
+
+const MOTIVOS: Record<MotivoDetencion, string> = {
+  RESPUESTA: 'el cliente respondió',
+  CAMBIO_ESTADO: 'cambio de estado',
+  MANUAL: 'detenida a mano',
+  SECUENCIA_DESACTIVADA: 'secuencia desactivada',
+  ERROR: 'error',
+  FUSION: 'cliente fusionado, ya seguía la secuencia',
+};
+
+function detalleInscripcion(inscripcion: InscripcionSecuencia) {
+  const total = inscripcion.secuencia?._count.pasos ?? 0;
+  if (inscripcion.estado === 'ACTIVA') {
+    const cuando = inscripcion.proximoPasoEn
+      ? format(new Date(inscripcion.proximoPasoEn), "d MMM, HH:mm", { locale: es })
+      : '-';
+    return `Paso ${inscripcion.pasoActual + 1} de ${total} · ${cuando}`;
+  }
+  if (inscripcion.estado === 'COMPLETADA') return `Completada (${total} pasos)`;
+  const motivo = inscripcion.motivoDetencion ? MOTIVOS[inscripcion.motivoDetencion] : '';
+  return `Detenida en el paso ${inscripcion.pasoActual + 1}: ${motivo}`;
+}
+
+/**
+ * Client's outreach sequences: where each one is and the stop / "answered" actions
+ */
+export function SecuenciasCliente({ clienteId, puedeInscribir }: SecuenciasClienteProps) {
+  const { data: inscripciones = [], isLoading } = useInscripcionesCliente(clienteId);
+  const accion = useAccionInscripcion();
+  const [modalAbierto, setModalAbierto] = useState(false);
+
+  const handleAccion = async (inscripcion: InscripcionSecuencia, tipo: 'respuesta' | 'detener') => {
+    if (tipo === 'detener' && !confirm(`¿Detener la secuencia "${inscripcion.secuencia?.nombre}"?`)) return;
+    try {
+      await accion.mutateAsync({ id: inscripcion.id, accion: tipo });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al detener la secuencia');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <QueueListIcon className="w-4 h-4 text-gray-400" />
+          Secuencias
+        </h3>
+        {puedeInscribir && (
+          <Button variant="ghost" size="sm" onClick={() => setModalAbierto(true)}>
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Inscribir
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400 text-center py-2">Cargando secuencias...</p>
+      ) : inscripciones.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-2">Sin secuencias</p>
+      ) : (
+        <ul className="space-y-2">
+          {inscripciones.map((inscripcion) => (
+            <li key={inscripcion.id} className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className={`text-sm font-medium truncate ${inscripcion.estado === 'ACTIVA' ? 'text-gray-900' : 'text-gray-500'}`}>
+                  {inscripcion.secuencia?.nombre}
+                </p>
+                <p className={`text-xs ${inscripcion.motivoDetencion === 'ERROR' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {detalleInscripcion(inscripcion)}
+                </p>
+                {inscripcion.errorDetalle && (
+                  <p className="text-xs text-red-600 truncate" title={inscripcion.errorDetalle}>{inscripcion.errorDetalle}</p>
+                )}
+              </div>
+              {puedeInscribir && inscripcion.estado === 'ACTIVA' && (
+                <div className="flex items-center flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleAccion(inscripcion, 'respuesta')}
+                    disabled={accion.isPending}
+                    title="El cliente respondió"
+                  >
+                    <ChatBubbleLeftRightIcon className="h-4 w-4 text-green-600" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleAccion(inscripcion, 'detener')}
+                    disabled={accion.isPending}
+                    title="Detener"
+                  >
+                    <StopIcon className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <InscribirSecuenciaModal
+        isOpen={modalAbierto}
+        onClose={() => setModalAbierto(false)}
+        clienteIds={[clienteId]}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowPathIcon, CalendarDaysIcon, ClipboardIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { useRegenerarSuscripcion, useSuscripcionCalendario } from '@/hooks/useCalendario';
+
+/**
+ * Secret iCalendar feed URL, to subscribe from a phone or desktop calendar
+ */
+export function SuscripcionCalendario() {
+  const [abierto, setAbierto] = useState(false);
+  const [copiado, setCopiado] = useState(false);
+  const { data: url, isLoading, error } = useSuscripcionCalendario(abierto);
+  const regenerar = useRegenerarSuscripcion();
+
+  const copiar = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopiado(true);
+    setTimeout(() => setCopiado(false), 2000);
+  };
+
+  const handleRegenerar = async () => {
+    if (!confirm('Se generará una nueva URL y los calendarios suscritos con la actual dejarán de actualizarse. ¿Continuar?')) {
+      return;
+    }
+    try {
+      await regenerar.mutateAsync();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al regenerar la URL');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" size="sm" onClick={() => setAbierto(!abierto)}>
+        <CalendarDaysIcon className="h-4 w-4 mr-1" />
+        Suscribirse
+      </Button>
+
+      {abierto && (
+        <div className="absolute right-0 z-20 mt-2 w-96 max-w-[90vw] rounded-lg border border-gray-200 bg-white p-4 shadow-lg">
+          <h4 className="text-sm font-semibold text-gray-900">Suscribirse desde otro calendario</h4>
+          <p className="mt-1 text-xs text-gray-500">
+            Agregá esta URL en Google Calendar, Apple Calendar u Outlook para ver tus reuniones,
+            llamadas y tareas. Es personal: no la compartas.
+          </p>
+
+          {isLoading ? (
+            <p className="mt-3 text-sm text-gray-400">Cargando...</p>
+          ) : error ? (
+            <p className="mt-3 text-sm text-red-600">{error.message}</p>
+          ) : url && (
+            <>
+              <div className="mt-3 flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 rounded-md border border-gray-300 px-2 py-1.5 text-xs text-gray-700 bg-gray-50"
+                />
+                <Button variant="outline" size="sm" onClick={copiar} title="Copiar URL">
+                  <ClipboardIcon className="h-4 w-4" />
+                </Button>
+              </div>
+              {copiado && <p className="mt-1 text-xs text-green-600">URL copiada</p>}
+              <div className="mt-3 flex items-center justify-between">
+                <a
+                  href={url.replace(/^https?:/, 'webcal:')}
+                  className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Abrir en la app de calendario
+                </a>
+                <button
+                  type="button"
+                  onClick={handleRegenerar}
+                  disabled={regenerar.isPending}
+                  className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 disabled:opacity-50"
+                >
+                  <ArrowPathIcon className="h-3.5 w-3.5" />
+                  Regenerar URL
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,8 +7,10 @@ import { Button } from '@/components/ui/Button';
 import { Modal, ModalFooter } from '@/components/ui/Modal';
 import { UltimaIADisplay } from '@/components/UltimaIADisplay';
 import { ColumnasSelect } from '@/components/ColumnasSelect';
+import { ExportarClientesButton, PARAMS_IGNORADOS } from '@/components/ExportarClientesButton';
 import { VistaSelector } from '@/components/VistaSelector';
 import { ClienteCard } from '@/components/ClienteCard';
+import { KanbanClientes } from '@/components/KanbanClientes';
 import { EnrichmentModal } from '@/components/enrichment/EnrichmentModal';
 import {
   Eye,
@@ -25,9 +27,20 @@ import {
   FacebookLogo,
   LinkedinLogo,
   TwitterLogo,
+  Alarm,
+  ListNumbers,
 } from '@phosphor-icons/react';
 import { ContactModal } from '@/components/ContactModal';
 import { BulkContactModal } from '@/components/BulkContactModal';
+import { InscribirSecuenciaModal } from '@/components/InscribirSecuenciaModal';
+import { FILTRO_ASIGNADO, TRABAJOS_ENRIQUECIMIENTO } from '@/lib/constants';
+import type { ColumnaKanban, VistaClientes } from '@/types';
+
+interface Usuario {
+  id: string;
+  name: string | null;
+  email: string;
+}
 
 interface Cliente {
   id: string;
@@ -49,6 +62,9 @@ interface Cliente {
   ultimoContacto?: Date | null;
   fechaCreacion: Date;
   fechaModific?: Date;
+  asignadoA?: Usuario | null;
+  // Open tasks past their due date
+  tareasVencidas?: number;
 }
 
 interface TablaClientesProps {
@@ -58,10 +74,18 @@ interface TablaClientesProps {
   sortField: string;
   sortOrder: string;
   columnasIniciales?: string;
-  vistaInicial?: 'cards' | 'table';
+  vistaInicial?: VistaClientes;
+  // Kanban columns, only loaded by the page for the Kanban view
+  tablero?: ColumnaKanban[];
+  usuarios?: Usuario[];
+  puedeAsignar?: boolean;
+  puedeExportar?: boolean;
+  puedeEditar?: boolean;
+  // Bulk enrichment of every client matching the filters
+  puedeEnriquecer?: boolean;
 }
 
-const COLUMNAS_DEFAULT = ['nombre', 'contacto', 'estado', 'industria', 'ultimaIA', 'acciones'];
+const COLUMNAS_DEFAULT = ['nombre', 'contacto', 'estado', 'industria', 'asignadoA', 'ultimaIA', 'acciones'];
 
 const ESTADOS = [
   'NUEVO', 'PRIMER_CONTACTO', 'EN_TRATATIVAS', 'EN_DESARROLLO', 'FINALIZADO', 'RECONTACTO'
@@ -69,7 +93,7 @@ const ESTADOS = [
 
 const PRIORIDADES = ['BAJA', 'MEDIA', 'ALTA', 'CRITICA'];
 
-type BulkAction = 'delete' | 'changeEstado' | 'changePrioridad';
+type BulkAction = 'delete' | 'changeEstado' | 'changePrioridad' | 'assign';
 
 function getBadgeColor(estado: string) {
   switch (estado) {
@@ -125,6 +149,12 @@ const ClienteRow = React.memo(function ClienteRow({
             <Link href={`/clientes/${cliente.id}`} className="font-medium text-blue-600 hover:text-blue-800 hover:underline truncate block">
               {cliente.nombre}
             </Link>
+            {!!cliente.tareasVencidas && (
+              <span className="inline-flex items-center gap-1 mt-0.5 px-1.5 py-0.5 rounded text-[11px] font-medium bg-red-100 text-red-700">
+                <Alarm weight="bold" className="h-3 w-3" />
+                {cliente.tareasVencidas} tarea(s) vencida(s)
+              </span>
+            )}
             {(cliente.direccion || cliente.ciudad) && (
               <div className="text-gray-500 truncate">
                 {[cliente.direccion, cliente.ciudad].filter(Boolean).join(', ')}
@@ -197,6 +227,17 @@ const ClienteRow = React.memo(function ClienteRow({
           </div>
         </td>
       )}
+      {columnasActivas.includes('asignadoA') && (
+        <td className="px-3 py-2">
+          <div className="text-gray-900 truncate" title={cliente.asignadoA?.email}>
+            {cliente.asignadoA ? (
+              cliente.asignadoA.name || cliente.asignadoA.email
+            ) : (
+              <span className="text-gray-400">Sin asignar</span>
+            )}
+          </div>
+        </td>
+      )}
       {columnasActivas.includes('ultimoContacto') && (
         <td className="px-3 py-2">
           <div className="text-gray-500 truncate">
@@ -346,7 +387,13 @@ export function TablaClientes({
   sortField,
   sortOrder,
   columnasIniciales,
-  vistaInicial
+  vistaInicial,
+  tablero,
+  usuarios = [],
+  puedeAsignar = false,
+  puedeExportar = false,
+  puedeEditar = false,
+  puedeEnriquecer = false
 }: TablaClientesProps) {
   const router = useRouter();
   const [columnasActivas, setColumnasActivas] = useState<string[]>(() => {
@@ -360,9 +407,9 @@ export function TablaClientes({
     return COLUMNAS_DEFAULT;
   });
 
-  // Estado de vista (cards/table)
-  const [vista, setVista] = useState<'cards' | 'table'>(() => {
-    if (vistaInicial === 'cards' || vistaInicial === 'table') return vistaInicial;
+  // Estado de vista (cards/table/kanban)
+  const [vista, setVista] = useState<VistaClientes>(() => {
+    if (vistaInicial === 'cards' || vistaInicial === 'table' || vistaInicial === 'kanban') return vistaInicial;
     return 'table';
   });
 
@@ -380,7 +427,7 @@ export function TablaClientes({
   const vistaEfectiva = isMobile ? 'cards' : vista;
 
   // Handler para cambio de vista con persistencia en URL
-  const handleVistaChange = useCallback((nuevaVista: 'cards' | 'table') => {
+  const handleVistaChange = useCallback((nuevaVista: VistaClientes) => {
     setVista(nuevaVista);
     const currentParams = new URLSearchParams(window.location.search);
     currentParams.set('vista', nuevaVista);
@@ -392,6 +439,7 @@ export function TablaClientes({
   const [selectedCliente, setSelectedCliente] = useState<Cliente | null>(null);
   const [bulkEnrichIds, setBulkEnrichIds] = useState<string[]>([]);
   const [bulkEnrichNames, setBulkEnrichNames] = useState<string[]>([]);
+  const [bulkEnrichFiltros, setBulkEnrichFiltros] = useState<Record<string, string> | undefined>();
 
   // Estados para el modal de contacto
   const [isContactModalOpen, setIsContactModalOpen] = useState(false);
@@ -405,6 +453,7 @@ export function TablaClientes({
   const [isBulkLoading, setIsBulkLoading] = useState(false);
   const [showBulkModal, setShowBulkModal] = useState(false);
   const [showBulkContactModal, setShowBulkContactModal] = useState(false);
+  const [showSecuenciaModal, setShowSecuenciaModal] = useState(false);
 
   const allPageSelected = useMemo(
     () => clientes.length > 0 && clientes.every(c => selectedIds.has(c.id)),
@@ -432,6 +481,7 @@ export function TablaClientes({
     setSelectedCliente(null);
     setBulkEnrichIds([]);
     setBulkEnrichNames([]);
+    setBulkEnrichFiltros(undefined);
     router.refresh();
   }, [router]);
 
@@ -444,6 +494,16 @@ export function TablaClientes({
     setIsEnrichmentModalOpen(true);
   }, [selectedIds, clientes]);
 
+  // Every client of the list, not just the page: enqueued with the current filters
+  const openFilteredEnrichModal = useCallback(() => {
+    const filtros = Object.fromEntries(
+      Object.entries(params).filter(([key]) => !PARAMS_IGNORADOS.includes(key))
+    );
+    setBulkEnrichFiltros(filtros);
+    setSelectedCliente(null);
+    setIsEnrichmentModalOpen(true);
+  }, [params]);
+
   const openContactModal = useCallback((cliente: Cliente, tab: 'email' | 'whatsapp') => {
     setContactCliente(cliente);
     setContactDefaultTab(tab);
@@ -525,6 +585,12 @@ export function TablaClientes({
         body = { ids, action: 'delete' };
       } else if (bulkAction === 'changeEstado') {
         body = { ids, action: 'changeEstado', estado: bulkValue };
+      } else if (bulkAction === 'assign') {
+        body = {
+          ids,
+          action: 'assign',
+          asignadoAId: bulkValue === FILTRO_ASIGNADO.SIN_ASIGNAR ? null : bulkValue,
+        };
       } else {
         body = { ids, action: 'changePrioridad', prioridad: bulkValue };
       }
@@ -576,6 +642,15 @@ export function TablaClientes({
           Lista de Clientes ({totalClientes} encontrados)
         </h3>
         <div className="flex items-center gap-2">
+          {puedeEnriquecer && totalClientes > 1 && totalClientes <= TRABAJOS_ENRIQUECIMIENTO.MAX_CLIENTES && (
+            <Button variant="outline" onClick={openFilteredEnrichModal}>
+              <Sparkle weight="duotone" className="h-4 w-4" />
+              Enriquecer todos
+            </Button>
+          )}
+          {puedeExportar && totalClientes > 0 && (
+            <ExportarClientesButton columnasActivas={columnasActivas} />
+          )}
           <VistaSelector
             vista={vista}
             onVistaChange={handleVistaChange}
@@ -591,7 +666,7 @@ export function TablaClientes({
       </div>
 
       {/* Barra de acciones masivas */}
-      {selectedIds.size > 0 && (
+      {selectedIds.size > 0 && vistaEfectiva !== 'kanban' && (
         <div className="flex items-center gap-3 bg-blue-50 border border-blue-200 rounded-lg px-4 py-3">
           <span className="text-sm font-medium text-blue-800">
             {selectedIds.size} cliente(s) seleccionado(s)
@@ -613,6 +688,14 @@ export function TablaClientes({
               <Envelope weight="duotone" className="h-4 w-4 mr-1" />
               Contactar
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSecuenciaModal(true)}
+            >
+              <ListNumbers weight="duotone" className="h-4 w-4 mr-1" />
+              Secuencia
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -627,6 +710,15 @@ export function TablaClientes({
             >
               Cambiar Prioridad
             </Button>
+            {puedeAsignar && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openBulkModal('assign')}
+              >
+                Asignar
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -646,8 +738,14 @@ export function TablaClientes({
         </div>
       )}
 
-      {/* Vista de Cards o Tabla */}
-      {vistaEfectiva === 'cards' ? (
+      {/* Vista de Pipeline, Cards o Tabla */}
+      {vistaEfectiva === 'kanban' ? (
+        tablero ? (
+          <KanbanClientes columnas={tablero} params={params} puedeEditar={puedeEditar} />
+        ) : (
+          <p className="text-sm text-gray-400 text-center py-12">Cargando pipeline...</p>
+        )
+      ) : vistaEfectiva === 'cards' ? (
         <div className="w-full">
           {clientes.length === 0 ? (
             <div className="text-center py-12">
@@ -764,6 +862,11 @@ export function TablaClientes({
                       </Link>
                     </th>
                   )}
+                  {columnasActivas.includes('asignadoA') && (
+                    <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{width: '8%'}}>
+                      <span>Asignado</span>
+                    </th>
+                  )}
                   {columnasActivas.includes('ultimoContacto') && (
                     <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" style={{width: '8%'}}>
                       <Link
@@ -889,6 +992,8 @@ export function TablaClientes({
         onClose={closeEnrichmentModal}
         clienteIds={selectedCliente ? [selectedCliente.id] : bulkEnrichIds}
         clienteNames={selectedCliente ? [selectedCliente.nombre] : bulkEnrichNames}
+        filtros={selectedCliente ? undefined : bulkEnrichFiltros}
+        totalFiltrados={totalClientes}
         clientHasWebsite={selectedCliente ? !!selectedCliente.sitioWeb : false}
       />
 
@@ -920,6 +1025,13 @@ export function TablaClientes({
         onSuccess={() => router.refresh()}
       />
 
+      {/* Modal de inscripción en secuencia */}
+      <InscribirSecuenciaModal
+        isOpen={showSecuenciaModal}
+        onClose={() => setShowSecuenciaModal(false)}
+        clienteIds={Array.from(selectedIds)}
+      />
+
       {/* Modal de acciones masivas */}
       <Modal
         open={showBulkModal}
@@ -929,6 +1041,8 @@ export function TablaClientes({
             ? 'Eliminar clientes'
             : bulkAction === 'changeEstado'
             ? 'Cambiar estado'
+            : bulkAction === 'assign'
+            ? 'Asignar clientes'
             : 'Cambiar prioridad'
         }
         description={
@@ -950,6 +1064,20 @@ export function TablaClientes({
           </select>
         )}
 
+        {bulkAction === 'assign' && (
+          <select
+            value={bulkValue}
+            onChange={(e) => setBulkValue(e.target.value)}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">Seleccionar usuario...</option>
+            <option value={FILTRO_ASIGNADO.SIN_ASIGNAR}>Sin asignar</option>
+            {usuarios.map((u) => (
+              <option key={u.id} value={u.id}>{u.name || u.email}</option>
+            ))}
+          </select>
+        )}
+
         {bulkAction === 'changePrioridad' && (
           <select
             value={bulkValue}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { useActualizarTarea, useCrearTarea } from '@/hooks/useTareas';
+import type { CreateTareaDTO, PrioridadTarea, Tarea } from '@/types';
+
+interface Usuario {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface TareaModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Task being edited (null creates a new one)
+  tarea?: Tarea | null;
+  clienteId?: string;
+  // Assignee picker, only shown to users that can assign
+  usuarios?: Usuario[];
+  onGuardada?: () => void;
+}
+
+interface FormTarea {
+  titulo: string;
+  descripcion: string;
+  vencimiento: string;
+  prioridad: PrioridadTarea;
+  // Minutes before the due date ('' = no reminder, 'actual' = keep a custom one)
+  recordatorio: string;
+  asignadoAId: string;
+}
+
+const RECORDATORIOS = [
+  { value: '', label: 'Sin recordatorio' },
+  { value: '0', label: 'Al vencer' },
+  { value: '15', label: '15 minutos antes' },
+  { value: '60', label: '1 hora antes' },
+  { value: '1440', label: '1 día antes' },
+];
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+// Value for <input type="datetime-local"> in the browser's timezone
+function aInputLocal(fecha: Date) {
+  const local = new Date(fecha);
+  local.setMinutes(local.getMinutes() - local.getTimezoneOffset());
+  return local.toISOString().slice(0, 16);
+}
+
+function formInicial(tarea: Tarea | null | undefined): FormTarea {
+  if (!tarea) {
+    const manana = new Date();
+    manana.setDate(manana.getDate() + 1);
+    manana.setHours(9, 0, 0, 0);
+    return {
+      titulo: '',
+      descripcion: '',
+      vencimiento: aInputLocal(manana),
+      prioridad: 'MEDIA',
+      recordatorio: '60',
+      asignadoAId: '',
+    };
+  }
+
+  const minutosAntes = tarea.recordatorio
+    ? Math.round((new Date(tarea.vencimiento).getTime() - new Date(tarea.recordatorio).getTime()) / 60000)
+    : null;
+
+  return {
+    titulo: tarea.titulo,
+    descripcion: tarea.descripcion ?? '',
+    vencimiento: aInputLocal(tarea.vencimiento),
+    prioridad: tarea.prioridad,
+    recordatorio: minutosAntes === null
+      ? ''
+      : RECORDATORIOS.some((r) => r.value === String(minutosAntes)) ? String(minutosAntes) : 'actual',
+    asignadoAId: tarea.asignadoAId,
+  };
+}
+
+/**
+ * Create / edit form for a task. Mount it with a key per task so the form resets.
+ */
+export function TareaModal({ open, onOpenChange, tarea, clienteId, usuarios, onGuardada }: TareaModalProps) {
+  const crear = useCrearTarea();
+  const actualizar = useActualizarTarea();
+  const [form, setForm] = useState<FormTarea>(() => formInicial(tarea));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGuardar = async () => {
+    setError(null);
+    const vencimiento = new Date(form.vencimiento);
+    const recordatorio =
+      form.recordatorio === 'actual'
+        ? tarea?.recordatorio ?? null
+        : form.recordatorio === ''
+          ? null
+          : new Date(vencimiento.getTime() - Number(form.recordatorio) * 60000);
+
+    const dto: CreateTareaDTO = {
+      titulo: form.titulo.trim(),
+      descripcion: form.descripcion.trim() || null,
+      vencimiento: vencimiento.toISOString(),
+      prioridad: form.prioridad,
+      recordatorio: recordatorio ? new Date(recordatorio).toISOString() : null,
+      ...(form.asignadoAId && { asignadoAId: form.asignadoAId }),
+      ...(!tarea && clienteId && { clienteId }),
+    };
+
+    try {
+      if (tarea) {
+        await actualizar.mutateAsync({ id: tarea.id, dto });
+      } else {
+        await crear.mutateAsync(dto);
+      }
+      onOpenChange(false);
+      onGuardada?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la tarea');
+    }
+  };
+
+  const guardando = crear.isPending || actualizar.isPending;
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange} title={tarea ? 'Editar tarea' : 'Nueva tarea'}>
+      <div className="space-y-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Título *</label>
+          <input
+            type="text"
+            value={form.titulo}
+            onChange={(e) => setForm({ ...form, titulo: e.target.value })}
+            placeholder="Ej: Llamar para confirmar presupuesto"
+            className={inputClassName}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Vence *</label>
+            <input
+              type="datetime-local"
+              value={form.vencimiento}
+              onChange={(e) => setForm({ ...form, vencimiento: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Prioridad</label>
+            <select
+              value={form.prioridad}
+              onChange={(e) => setForm({ ...form, prioridad: e.target.value as PrioridadTarea })}
+              className={inputClassName}
+            >
+              <option value="BAJA">Baja</option>
+              <option value="MEDIA">Media</option>
+              <option value="ALTA">Alta</option>
+            </select>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Recordatorio</label>
+            <select
+              value={form.recordatorio}
+              onChange={(e) => setForm({ ...form, recordatorio: e.target.value })}
+              className={inputClassName}
+            >
+              {RECORDATORIOS.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+              {form.recordatorio === 'actual' && tarea?.recordatorio && (
+                <option value="actual">
+                  {new Date(tarea.recordatorio).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })}
+                </option>
+              )}
+            </select>
+          </div>
+          {usuarios && usuarios.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Asignada a</label>
+              <select
+                value={form.asignadoAId}
+                onChange={(e) => setForm({ ...form, asignadoAId: e.target.value })}
+                className={inputClassName}
+              >
+                {!tarea && <option value="">Yo</option>}
+                {usuarios.map((usuario) => (
+                  <option key={usuario.id} value={usuario.id}>
+                    {usuario.name || usuario.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Descripción</label>
+          <textarea
+            value={form.descripcion}
+            onChange={(e) => setForm({ ...form, descripcion: e.target.value })}
+            rows={3}
+            className={`${inputClassName} resize-none`}
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700 border border-red-200">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+          Cancelar
+        </Button>
+        <Button
+          size="sm"
+          disabled={!form.titulo.trim() || !form.vencimiento || guardando}
+          onClick={handleGuardar}
+        >
+          {guardando ? 'Guardando...' : 'Guardar'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ClipboardDocumentCheckIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { TareaModal } from '@/components/TareaModal';
+import { ListaTareas, esTareaAbierta } from '@/components/ListaTareas';
+import { useTareas } from '@/hooks/useTareas';
+import type { Tarea } from '@/types';
+
+interface TareasClienteProps {
+  clienteId: string;
+  puedeCrear: boolean;
+}
+
+export function TareasCliente({ clienteId, puedeCrear }: TareasClienteProps) {
+  const router = useRouter();
+  const { data: tareas = [], isLoading } = useTareas({ clienteId });
+  const [modalAbierto, setModalAbierto] = useState(false);
+  const [editando, setEditando] = useState<Tarea | null>(null);
+  const [verCompletadas, setVerCompletadas] = useState(false);
+
+  const abiertas = tareas.filter(esTareaAbierta);
+  const cerradas = tareas.filter((t) => !esTareaAbierta(t));
+
+  const abrirModal = (tarea: Tarea | null) => {
+    setEditando(tarea);
+    setModalAbierto(true);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <ClipboardDocumentCheckIcon className="w-4 h-4 text-gray-400" />
+          Tareas
+        </h3>
+        {puedeCrear && (
+          <Button variant="ghost" size="sm" onClick={() => abrirModal(null)}>
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Agregar
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400 text-center py-2">Cargando tareas...</p>
+      ) : abiertas.length === 0 && !verCompletadas ? (
+        <p className="text-sm text-gray-400 text-center py-2">Sin tareas pendientes</p>
+      ) : (
+        <ListaTareas
+          tareas={verCompletadas ? [...abiertas, ...cerradas] : abiertas}
+          onEditar={puedeCrear ? (tarea) => abrirModal(tarea) : undefined}
+          // Completing a task logs an activity on the client
+          onCambio={() => router.refresh()}
+          mostrarAsignado
+        />
+      )}
+
+      {cerradas.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setVerCompletadas(!verCompletadas)}
+          className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+        >
+          {verCompletadas ? 'Ocultar completadas' : `Ver ${cerradas.length} completada(s)`}
+        </button>
+      )}
+
+      {modalAbierto && (
+        <TareaModal
+          key={editando?.id ?? 'nueva'}
+          open={modalAbierto}
+          onOpenChange={setModalAbierto}
+          tarea={editando}
+          clienteId={clienteId}
+        />
+      )}
+    </div>
+  );
+}
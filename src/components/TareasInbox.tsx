@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ClipboardDocumentCheckIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { TareaModal } from '@/components/TareaModal';
+import { ListaTareas } from '@/components/ListaTareas';
+import { useTareas } from '@/hooks/useTareas';
+import type { BandejaTareas, Tarea } from '@/types';
+
+interface Usuario {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface TareasInboxProps {
+  bandeja: BandejaTareas;
+  asignado: string;
+  // Only passed when the user can assign tasks to others
+  usuarios?: Usuario[];
+}
+
+const MENSAJE_VACIO: Record<BandejaTareas, string> = {
+  vencidas: 'No hay tareas vencidas. ¡Todo al día!',
+  hoy: 'No hay tareas para hoy.',
+  proximas: 'No hay tareas próximas.',
+  completadas: 'Todavía no hay tareas completadas.',
+};
+
+export function TareasInbox({ bandeja, asignado, usuarios }: TareasInboxProps) {
+  const router = useRouter();
+  const { data: tareas = [], isLoading, error } = useTareas({ bandeja, asignado });
+  const [modalAbierto, setModalAbierto] = useState(false);
+  const [editando, setEditando] = useState<Tarea | null>(null);
+
+  const abrirModal = (tarea: Tarea | null) => {
+    setEditando(tarea);
+    setModalAbierto(true);
+  };
+
+  // Tab counters are rendered by the server page
+  const refrescar = () => router.refresh();
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="flex items-center justify-between p-4 border-b">
+        <p className="text-sm text-gray-500">
+          {isLoading ? 'Cargando...' : `${tareas.length} tarea(s)`}
+        </p>
+        <Button size="sm" onClick={() => abrirModal(null)}>
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Nueva tarea
+        </Button>
+      </div>
+
+      <div className="p-4">
+        {error ? (
+          <p className="text-sm text-red-600 text-center py-6">{error.message}</p>
+        ) : !isLoading && tareas.length === 0 ? (
+          <div className="text-center py-10">
+            <ClipboardDocumentCheckIcon className="mx-auto h-10 w-10 text-gray-300" />
+            <p className="mt-2 text-sm text-gray-500">{MENSAJE_VACIO[bandeja]}</p>
+          </div>
+        ) : (
+          <ListaTareas
+            tareas={tareas}
+            onEditar={abrirModal}
+            onCambio={refrescar}
+            mostrarCliente
+            mostrarAsignado={asignado !== 'me'}
+          />
+        )}
+      </div>
+
+      {modalAbierto && (
+        <TareaModal
+          key={editando?.id ?? 'nueva'}
+          open={modalAbierto}
+          onOpenChange={setModalAbierto}
+          tarea={editando}
+          usuarios={usuarios}
+          onGuardada={refrescar}
+        />
+      )}
+    </div>
+  );
+}
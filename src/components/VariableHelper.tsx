@@ -1,6 +1,6 @@
 'use client';
 
-import { getAvailableVariables } from '@/lib/services/template-render-service';
+import { getAvailableFormats, getAvailableVariables } from '@/lib/services/template-render-service';
 
 interface VariableHelperProps {
   onInsert: (variable: string) => void;
@@ -21,8 +21,41 @@ const VARIABLE_LABELS: Record<string, string> = {
   facebook: 'Facebook',
   linkedin: 'LinkedIn',
   twitter: 'Twitter',
+  contactoNombre: 'Nombre del contacto',
+  contactoCargo: 'Cargo del contacto',
+  contactoEmail: 'Email del contacto',
+  contactoTelefono: 'Teléfono del contacto',
+  contactoWhatsapp: 'WhatsApp del contacto',
+  hoy: 'Fecha de envío',
+  'web.url': 'URL analizada',
+  'web.performanceScore': 'Puntaje de rendimiento (0-100)',
+  'web.mobileScore': 'PageSpeed móvil (0-100)',
+  'web.desktopScore': 'PageSpeed escritorio (0-100)',
+  'web.accessibilityScore': 'Puntaje de accesibilidad (0-100)',
+  'web.sslValid': 'Certificado SSL válido (sí/no)',
+  'web.hasHttps': 'Usa HTTPS (sí/no)',
+  'web.isResponsive': 'Sitio adaptable a móviles (sí/no)',
+  'web.cms': 'CMS detectado',
+  'web.ecommerce': 'Plataforma de e-commerce detectada',
+  'web.techStack': 'Tecnologías detectadas',
+  'web.domainExpiresAt': 'Vencimiento del dominio',
+  'web.daysUntilExpiry': 'Días hasta que vence el dominio',
+  'web.domainAgeYears': 'Antigüedad del dominio (años)',
+  'web.domainRegistrar': 'Registrador del dominio',
+  'web.seoTitle': 'Título SEO',
+  'web.serverCountry': 'País del servidor',
+  'ia.description': 'Descripción (enriquecimiento IA)',
+  'ia.industry': 'Industria (enriquecimiento IA)',
+  'ia.companySize': 'Tamaño de la empresa (enriquecimiento IA)',
+  'ia.website': 'Sitio web (enriquecimiento IA)',
 };
 
+const GRUPOS = [
+  { titulo: 'Cliente y contacto', incluye: (v: string) => !v.includes('.') },
+  { titulo: 'Análisis del sitio web', incluye: (v: string) => v.startsWith('web.') },
+  { titulo: 'Enriquecimiento IA (solo campos confirmados)', incluye: (v: string) => v.startsWith('ia.') },
+];
+
 export function VariableHelper({ onInsert }: VariableHelperProps) {
   const variables = getAvailableVariables();
 
@@ -34,19 +67,35 @@ export function VariableHelper({ onInsert }: VariableHelperProps) {
       <p className="text-xs text-gray-400 mb-3">
         Haz clic para insertar en el editor
       </p>
-      <div className="flex flex-wrap gap-1.5">
-        {variables.map((v) => (
-          <button
-            key={v}
-            type="button"
-            onClick={() => onInsert(`{${v}}`)}
-            className="inline-flex items-center px-2 py-1 text-xs font-mono text-gray-700 bg-white border border-gray-300 rounded hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700 transition-colors"
-            title={VARIABLE_LABELS[v] || v}
-          >
-            {`{${v}}`}
-          </button>
+      <div className="space-y-2">
+        {GRUPOS.map(({ titulo, incluye }) => (
+          <div key={titulo}>
+            <p className="text-xs text-gray-500 mb-1">{titulo}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {variables.filter(incluye).map((v) => (
+                <button
+                  key={v}
+                  type="button"
+                  onClick={() => onInsert(`{${v}}`)}
+                  className="inline-flex items-center px-2 py-1 text-xs font-mono text-gray-700 bg-white border border-gray-300 rounded hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700 transition-colors"
+                  title={VARIABLE_LABELS[v] || v}
+                >
+                  {`{${v}}`}
+                </button>
+              ))}
+            </div>
+          </div>
         ))}
       </div>
+      <details className="mt-3 text-xs text-gray-500">
+        <summary className="cursor-pointer hover:text-gray-700">Valores por defecto, condiciones y formatos</summary>
+        <ul className="mt-2 space-y-1 font-mono">
+          <li>{'{ciudad|tu ciudad}'} <span className="font-sans">texto si está vacío</span></li>
+          <li>{'{#if sitioWeb}...{else}...{/if}'} <span className="font-sans">solo si tiene dato ({'{#if !sitioWeb}'}: si no tiene)</span></li>
+          <li>{'{#if web.url}{#if !web.sslValid}...{/if}{/if}'} <span className="font-sans">sí/no del análisis, solo si el sitio fue analizado</span></li>
+          <li>{'{nombre:capitalizar}'} <span className="font-sans">formatos: {getAvailableFormats().join(', ')}</span></li>
+        </ul>
+      </details>
     </div>
   );
 }
@@ -1,15 +1,16 @@
 'use client';
 
-import { Table, SquaresFour } from '@phosphor-icons/react';
+import { Table, SquaresFour, Kanban } from '@phosphor-icons/react';
+import type { VistaClientes } from '@/types';
 
 interface VistaSelectorProps {
-  vista: 'cards' | 'table';
-  onVistaChange: (vista: 'cards' | 'table') => void;
+  vista: VistaClientes;
+  onVistaChange: (vista: VistaClientes) => void;
   disabled?: boolean;
 }
 
 /**
- * Toggle selector for switching between table and cards view.
+ * Toggle selector for switching between table, cards and Kanban view.
  * Hidden on mobile devices when disabled=true.
  */
 export function VistaSelector({ vista, onVistaChange, disabled }: VistaSelectorProps) {
@@ -45,6 +46,20 @@ export function VistaSelector({ vista, onVistaChange, disabled }: VistaSelectorP
         <SquaresFour weight="duotone" className="h-4 w-4" />
         <span className="hidden sm:inline">Cards</span>
       </button>
+      <button
+        onClick={() => onVistaChange('kanban')}
+        className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors flex items-center gap-1.5 ${
+          vista === 'kanban'
+            ? 'bg-blue-600 text-white'
+            : 'text-gray-600 hover:bg-gray-100'
+        }`}
+        title="Vista de pipeline"
+        aria-label="Vista de pipeline"
+        aria-pressed={vista === 'kanban'}
+      >
+        <Kanban weight="duotone" className="h-4 w-4" />
+        <span className="hidden sm:inline">Pipeline</span>
+      </button>
     </div>
   );
 }
@@ -3,9 +3,10 @@
 import { useState, useEffect, useMemo } from 'react';
 import { CheckCircleIcon, XCircleIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
 import { Button } from '@/components/ui/Button';
-import type { ApiKeyResponse, ApiKeyProvider, AIProvider } from '@/types/enrichment';
+import type { ApiKeyResponse, ApiKeyProvider, BuiltInAIProvider } from '@/types/enrichment';
 import { PROVIDER_INFO, AI_PROVIDER_MODELS } from '@/types/enrichment';
 import { useApiKeys, useCreateApiKey, useUpdateApiKey, useDeleteApiKey } from '@/hooks/useApiKeys';
+import { ProveedoresIAList } from './ProveedoresIAList';
 
 // Provider row component
 function ProviderRow({
@@ -34,7 +35,7 @@ function ProviderRow({
 
   const isAI = info.category === 'ai';
   const availableModels = useMemo(
-    () => (isAI ? AI_PROVIDER_MODELS[provider as AIProvider] : []),
+    () => (isAI ? AI_PROVIDER_MODELS[provider as BuiltInAIProvider] : []),
     [isAI, provider]
   );
 
@@ -412,6 +413,11 @@ export function ApiKeyList() {
               />
             ))}
           </div>
+
+          <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide mt-6 mb-3">
+            Proveedores de IA personalizados
+          </h3>
+          <ProveedoresIAList />
         </div>
       )}
 
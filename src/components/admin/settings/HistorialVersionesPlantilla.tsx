@@ -0,0 +1,137 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { useVersionesPlantilla } from '@/hooks/usePlantillaVariantes';
+import { diffTexto } from '@/lib/diff';
+import type { VersionPlantilla } from '@/types';
+
+interface HistorialVersionesPlantillaProps {
+  plantillaId: string;
+}
+
+const selectClassName =
+  'rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+const etiquetaVersion = (version: VersionPlantilla) =>
+  `v${version.numero} · ${format(new Date(version.createdAt), "d MMM yyyy, HH:mm", { locale: es })}`;
+
+/**
+ * Saved versions of a template and its A/B variants, comparing any two of them
+ */
+export function HistorialVersionesPlantilla({ plantillaId }: HistorialVersionesPlantillaProps) {
+  const { data: versiones = [], isLoading, error } = useVersionesPlantilla(plantillaId);
+  const [variante, setVariante] = useState('A');
+  const [seleccion, setSeleccion] = useState<{ antes?: string; despues?: string }>({});
+
+  const variantes = useMemo(() => [...new Set(versiones.map((v) => v.variante))].sort(), [versiones]);
+  // Newest first
+  const deVariante = versiones.filter((v) => v.variante === variante);
+
+  const despues = deVariante.find((v) => v.id === seleccion.despues) ?? deVariante[0];
+  const antes = deVariante.find((v) => v.id === seleccion.antes) ?? deVariante[1];
+
+  if (isLoading) return <p className="text-sm text-gray-500">Cargando versiones...</p>;
+  if (error) return <p className="text-sm text-red-600">{error.message}</p>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        {variantes.length > 1 && (
+          <select
+            value={variante}
+            onChange={(e) => {
+              setVariante(e.target.value);
+              setSeleccion({});
+            }}
+            className={selectClassName}
+          >
+            {variantes.map((v) => (
+              <option key={v} value={v}>Variante {v}</option>
+            ))}
+          </select>
+        )}
+        <p className="text-sm text-gray-500">{deVariante.length} versión(es) guardada(s)</p>
+      </div>
+
+      <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+        {deVariante.map((version) => (
+          <li key={version.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              <ClockIcon className="h-4 w-4 flex-shrink-0 text-gray-400" />
+              <span className="font-medium text-gray-900">{etiquetaVersion(version)}</span>
+              {version.creadoPor && (
+                <span className="truncate text-gray-500">
+                  {version.creadoPor.name || version.creadoPor.email}
+                </span>
+              )}
+            </div>
+            <span className="flex-shrink-0 text-xs text-gray-500">
+              {version._count?.mensajes ?? 0} mensaje(s)
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {antes && despues ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            Comparar
+            <select
+              value={antes.id}
+              onChange={(e) => setSeleccion({ ...seleccion, antes: e.target.value })}
+              className={selectClassName}
+            >
+              {deVariante.map((v) => (
+                <option key={v.id} value={v.id}>{etiquetaVersion(v)}</option>
+              ))}
+            </select>
+            con
+            <select
+              value={despues.id}
+              onChange={(e) => setSeleccion({ ...seleccion, despues: e.target.value })}
+              className={selectClassName}
+            >
+              {deVariante.map((v) => (
+                <option key={v.id} value={v.id}>{etiquetaVersion(v)}</option>
+              ))}
+            </select>
+          </div>
+
+          {(antes.asunto || despues.asunto) && (
+            <DiffBloque titulo="Asunto" antes={antes.asunto ?? ''} despues={despues.asunto ?? ''} />
+          )}
+          <DiffBloque titulo="Contenido" antes={antes.cuerpo} despues={despues.cuerpo} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Todavía no hay versiones anteriores para comparar.</p>
+      )}
+    </div>
+  );
+}
+
+function DiffBloque({ titulo, antes, despues }: { titulo: string; antes: string; despues: string }) {
+  const fragmentos = useMemo(() => diffTexto(antes, despues), [antes, despues]);
+  const sinCambios = fragmentos.every((f) => f.tipo === 'igual');
+
+  return (
+    <div className="rounded-lg border border-gray-200 overflow-hidden">
+      <div className="bg-gray-50 px-3 py-1.5 text-xs font-medium text-gray-500 uppercase">
+        {titulo}{sinCambios && ' (sin cambios)'}
+      </div>
+      <pre className="p-3 text-xs text-gray-700 whitespace-pre-wrap break-words font-mono">
+        {fragmentos.map((fragmento, i) =>
+          fragmento.tipo === 'agregado' ? (
+            <ins key={i} className="bg-green-100 text-green-800 no-underline">{fragmento.texto}</ins>
+          ) : fragmento.tipo === 'quitado' ? (
+            <del key={i} className="bg-red-100 text-red-700">{fragmento.texto}</del>
+          ) : (
+            <span key={i}>{fragmento.texto}</span>
+          )
+        )}
+      </pre>
+    </div>
+  );
+}
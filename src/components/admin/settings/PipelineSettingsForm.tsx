@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { InformationCircleIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { usePipelineSettings, useUpdatePipelineLimites } from '@/hooks/usePipelineSettings';
+import type { EstadoCliente, EtapaPipeline } from '@/types';
+
+function LimitesForm({ etapas }: { etapas: EtapaPipeline[] }) {
+  const { mutateAsync: updateLimites, isPending } = useUpdatePipelineLimites();
+  const [valores, setValores] = useState<Record<string, string>>(() =>
+    Object.fromEntries(etapas.map((e) => [e.estado, e.limiteWip?.toString() ?? '']))
+  );
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const handleSave = async () => {
+    setResult(null);
+    const limites = Object.fromEntries(
+      etapas.map((e) => {
+        const valor = valores[e.estado].trim();
+        return [e.estado, valor ? Number(valor) : null];
+      })
+    ) as Record<EstadoCliente, number | null>;
+
+    try {
+      await updateLimites(limites);
+      setResult({ type: 'success', message: 'Límites guardados' });
+    } catch (err) {
+      setResult({ type: 'error', message: err instanceof Error ? err.message : 'Error al guardar' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Etapa
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Límite WIP
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {etapas.map((etapa) => (
+              <tr key={etapa.estado}>
+                <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                  {etapa.estado.replace(/_/g, ' ')}
+                </td>
+                <td className="px-6 py-3">
+                  <input
+                    type="number"
+                    min={1}
+                    value={valores[etapa.estado]}
+                    onChange={(e) => setValores({ ...valores, [etapa.estado]: e.target.value })}
+                    placeholder="Sin límite"
+                    className="w-32 rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {result && (
+        <div className={`p-3 rounded-lg text-sm ${
+          result.type === 'success'
+            ? 'bg-green-50 text-green-700 border border-green-200'
+            : 'bg-red-50 text-red-700 border border-red-200'
+        }`}>
+          {result.message}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isPending}>
+          {isPending ? 'Guardando...' : 'Guardar'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function PipelineSettingsForm() {
+  const { data: etapas, isLoading, error } = usePipelineSettings();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !etapas) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error al cargar la configuración del pipeline</p>
+        <p className="text-sm text-gray-500 mt-1">
+          {error?.message ?? 'No se pudo cargar la configuración'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Pipeline de Ventas</h2>
+        <p className="text-sm text-gray-500">
+          Límite de clientes en cada etapa del tablero Kanban
+        </p>
+      </div>
+
+      <LimitesForm key={etapas.map((e) => `${e.estado}:${e.limiteWip}`).join(',')} etapas={etapas} />
+
+      <p className="text-xs text-gray-500 flex items-start gap-1">
+        <InformationCircleIcon className="h-4 w-4 flex-shrink-0" />
+        Las columnas que superan su límite se resaltan en el tablero y se pide
+        confirmación antes de mover un cliente a una etapa completa.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ArrowUturnLeftIcon, ClockIcon, InformationCircleIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Tabs, TabContent } from '@/components/ui/Tabs';
+import {
+  useActivarVersionPromptIA,
+  useClientesVistaPrevia,
+  useCrearVersionPromptIA,
+  useVersionesPromptIA,
+} from '@/hooks/usePromptsIA';
+import { useEnrichmentSettings } from '@/hooks/useEnrichmentSettings';
+import {
+  ENRICHMENT_FIELDS,
+  PROMPT_VARIABLES,
+  getConsensusPrompt,
+  getEnrichmentPrompt,
+  getEnrichmentSystemPrompt,
+  validatePrompt,
+} from '@/lib/services/enrichment-prompts';
+import type { Cliente } from '@/types';
+import type { MatchMode, PlantillasPromptIA, TipoPromptIA, VersionPromptIA } from '@/types/enrichment';
+
+const TIPOS: { value: TipoPromptIA; label: string; description: string }[] = [
+  {
+    value: 'sistema',
+    label: 'Sistema',
+    description: 'Reglas generales de cada enriquecimiento, incluido el modo de coincidencia y el idioma de respuesta',
+  },
+  {
+    value: 'enriquecimiento',
+    label: 'Enriquecimiento',
+    description: 'Datos del cliente y campos a buscar',
+  },
+  {
+    value: 'consenso',
+    label: 'Consenso',
+    description: 'Se usa cuando los proveedores no coinciden en un campo',
+  },
+];
+
+// Providers disagreeing on a field, to preview the consensus prompt
+const RESULTADOS_EJEMPLO = [
+  { provider: 'openai', value: 'Gastronomía', score: 0.82 },
+  { provider: 'gemini', value: 'Restaurantes y bares', score: 0.76 },
+];
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-blue-500';
+
+const etiquetaVersion = (version: VersionPromptIA) =>
+  `v${version.numero} · ${format(new Date(version.createdAt), "d MMM yyyy, HH:mm", { locale: es })}`;
+
+function renderVistaPrevia(
+  tipo: TipoPromptIA,
+  template: string,
+  cliente: Cliente,
+  matchMode: MatchMode
+): string {
+  if (tipo === 'sistema') return getEnrichmentSystemPrompt(matchMode, template);
+  if (tipo === 'consenso') return getConsensusPrompt('industry', RESULTADOS_EJEMPLO, template);
+  return getEnrichmentPrompt(cliente, ENRICHMENT_FIELDS, matchMode, template);
+}
+
+function VistaPrevia({ tipo, template }: { tipo: TipoPromptIA; template: string }) {
+  const { data: settings } = useEnrichmentSettings();
+  const [busqueda, setBusqueda] = useState('');
+  const [cliente, setCliente] = useState<Cliente | null>(null);
+  const { data: clientes = [], isFetching } = useClientesVistaPrevia(busqueda);
+
+  const matchMode = settings?.matchMode ?? 'fuzzy';
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <MagnifyingGlassIcon className="pointer-events-none absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+        <input
+          type="search"
+          value={busqueda}
+          onChange={(e) => setBusqueda(e.target.value)}
+          placeholder="Buscar un cliente para la vista previa..."
+          className={`${inputClassName} pl-9`}
+        />
+        {busqueda.trim().length >= 2 && (
+          <ul className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md border border-gray-200 bg-white shadow-lg">
+            {isFetching && clientes.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">Buscando...</li>
+            )}
+            {!isFetching && clientes.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">Sin resultados</li>
+            )}
+            {clientes.map((c) => (
+              <li key={c.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCliente(c);
+                    setBusqueda('');
+                  }}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-900 hover:bg-gray-50"
+                >
+                  {c.nombre}
+                  {c.ciudad && <span className="text-gray-500"> · {c.ciudad}</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {cliente ? (
+        <div className="rounded-lg border border-gray-200 overflow-hidden">
+          <div className="bg-gray-50 px-3 py-1.5 text-xs font-medium text-gray-500">
+            {tipo === 'consenso'
+              ? 'Vista previa con resultados de ejemplo'
+              : `Vista previa para ${cliente.nombre} (modo ${matchMode})`}
+          </div>
+          <pre className="max-h-96 overflow-auto p-3 text-xs text-gray-700 whitespace-pre-wrap break-words font-mono">
+            {renderVistaPrevia(tipo, template, cliente, matchMode)}
+          </pre>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Elige un cliente para ver el prompt tal como se enviará.</p>
+      )}
+    </div>
+  );
+}
+
+function Historial({ versiones, onCargar }: { versiones: VersionPromptIA[]; onCargar: (v: VersionPromptIA) => void }) {
+  const { mutateAsync: activar, isPending } = useActivarVersionPromptIA();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleActivar = async (version: VersionPromptIA) => {
+    if (!confirm(`¿Volver a la versión ${version.numero}? Los próximos enriquecimientos usarán esos prompts.`)) return;
+    setError(null);
+    try {
+      await activar(version.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al restaurar la versión');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 bg-white">
+        {versiones.map((version) => (
+          <li key={version.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <ClockIcon className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                <span className="font-medium text-gray-900">{etiquetaVersion(version)}</span>
+                {version.activa && (
+                  <span className="rounded bg-green-100 px-1.5 py-0.5 text-[10px] font-medium text-green-700">
+                    Activa
+                  </span>
+                )}
+              </div>
+              <p className="mt-0.5 truncate text-xs text-gray-500">
+                {version.creadoPor ? version.creadoPor.name || version.creadoPor.email : 'Sistema'}
+                {version.nota && ` · ${version.nota}`}
+                {` · ${version._count?.enriquecimientos ?? 0} enriquecimiento(s)`}
+              </p>
+            </div>
+            <div className="flex flex-shrink-0 gap-2">
+              <Button variant="ghost" size="sm" onClick={() => onCargar(version)}>
+                Cargar en el editor
+              </Button>
+              {!version.activa && (
+                <Button variant="outline" size="sm" onClick={() => handleActivar(version)} disabled={isPending}>
+                  <ArrowUturnLeftIcon className="h-4 w-4" />
+                  Restaurar
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function Editor({ activa, versiones }: { activa: VersionPromptIA; versiones: VersionPromptIA[] }) {
+  const { mutateAsync: crearVersion, isPending } = useCrearVersionPromptIA();
+  const [borrador, setBorrador] = useState<PlantillasPromptIA>({
+    sistema: activa.sistema,
+    enriquecimiento: activa.enriquecimiento,
+    consenso: activa.consenso,
+  });
+  const [nota, setNota] = useState('');
+  const [tipo, setTipo] = useState<TipoPromptIA>('sistema');
+  const [result, setResult] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const errores = useMemo(
+    () => TIPOS.flatMap((t) => validatePrompt(t.value, borrador[t.value]).map((e) => `${t.label}: ${e}`)),
+    [borrador]
+  );
+  const modificado = TIPOS.some((t) => borrador[t.value] !== activa[t.value]);
+
+  const handleSave = async () => {
+    setResult(null);
+    try {
+      const version = await crearVersion({ ...borrador, nota: nota.trim() || undefined });
+      setResult({ type: 'success', message: `Guardado como versión ${version.numero}` });
+    } catch (err) {
+      setResult({ type: 'error', message: err instanceof Error ? err.message : 'Error al guardar' });
+    }
+  };
+
+  const cargar = (version: VersionPromptIA) => {
+    setBorrador({ sistema: version.sistema, enriquecimiento: version.enriquecimiento, consenso: version.consenso });
+    setResult(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Tabs
+        tabs={TIPOS.map((t) => ({ value: t.value, label: t.label }))}
+        value={tipo}
+        onValueChange={(value) => setTipo(value as TipoPromptIA)}
+      >
+        {TIPOS.map((t) => (
+          <TabContent key={t.value} value={t.value}>
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="space-y-2">
+                <p className="text-sm text-gray-500">{t.description}</p>
+                <textarea
+                  value={borrador[t.value]}
+                  onChange={(e) => setBorrador({ ...borrador, [t.value]: e.target.value })}
+                  rows={22}
+                  spellCheck={false}
+                  className={`${inputClassName} font-mono text-xs`}
+                />
+                <p className="text-xs text-gray-500 flex items-start gap-1">
+                  <InformationCircleIcon className="h-4 w-4 flex-shrink-0" />
+                  <span>
+                    Variables: {PROMPT_VARIABLES[t.value].map((v) => `{${v}}`).join(', ')}. Usa{' '}
+                    {'{#if variable}...{else}...{/if}'} para incluir texto solo cuando haya dato.
+                  </span>
+                </p>
+              </div>
+              <VistaPrevia tipo={t.value} template={borrador[t.value]} />
+            </div>
+          </TabContent>
+        ))}
+      </Tabs>
+
+      {errores.length > 0 && (
+        <ul className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 list-disc list-inside">
+          {errores.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {result && (
+        <div className={`p-3 rounded-lg text-sm ${
+          result.type === 'success'
+            ? 'bg-green-50 text-green-700 border border-green-200'
+            : 'bg-red-50 text-red-700 border border-red-200'
+        }`}>
+          {result.message}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <input
+          type="text"
+          value={nota}
+          onChange={(e) => setNota(e.target.value)}
+          placeholder="Nota de la versión (opcional)"
+          maxLength={200}
+          className={`${inputClassName} max-w-sm`}
+        />
+        <Button variant="secondary" onClick={() => cargar(activa)} disabled={!modificado || isPending}>
+          Descartar cambios
+        </Button>
+        <Button onClick={handleSave} disabled={!modificado || errores.length > 0 || isPending}>
+          {isPending ? 'Guardando...' : 'Guardar como nueva versión'}
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-900">Historial de versiones</h3>
+        <Historial versiones={versiones} onCargar={cargar} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Versioned system, enrichment and consensus prompts, previewed against a real client
+ */
+export function PromptsIAForm() {
+  const { data: versiones = [], isLoading, error } = useVersionesPromptIA();
+  const activa = versiones.find((v) => v.activa);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !activa) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error al cargar los prompts</p>
+        <p className="text-sm text-gray-500 mt-1">
+          {error?.message ?? 'No hay ninguna versión activa'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Prompts de IA</h2>
+        <p className="text-sm text-gray-500">
+          Instrucciones que reciben los proveedores al enriquecer clientes. Cada cambio se guarda como una
+          versión nueva y cada enriquecimiento registra la versión con la que se hizo.
+        </p>
+      </div>
+
+      {/* Remounted after saving or restoring, to edit the new active version */}
+      <Editor key={activa.id} activa={activa} versiones={versiones} />
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircleIcon, XCircleIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Toggle } from '@/components/ui/Toggle';
+import type { ActualizarProveedorIADTO, ProveedorIA } from '@/types/enrichment';
+import {
+  useProveedoresIA,
+  useCreateProveedorIA,
+  useUpdateProveedorIA,
+  useDeleteProveedorIA,
+} from '@/hooks/useProveedoresIA';
+
+// Starting points for the usual OpenAI-compatible endpoints
+const PRESETS = [
+  { nombre: 'Ollama', slug: 'ollama', baseUrl: 'http://localhost:11434/v1', modelos: 'llama3.1\nqwen2.5', local: true },
+  { nombre: 'LM Studio', slug: 'lmstudio', baseUrl: 'http://localhost:1234/v1', modelos: '', local: true },
+  { nombre: 'vLLM', slug: 'vllm', baseUrl: 'http://localhost:8000/v1', modelos: '', local: true },
+  { nombre: 'OpenRouter', slug: 'openrouter', baseUrl: 'https://openrouter.ai/api/v1', modelos: 'openai/gpt-4o-mini\nanthropic/claude-3.5-haiku', local: false },
+  { nombre: 'Mistral', slug: 'mistral', baseUrl: 'https://api.mistral.ai/v1', modelos: 'mistral-small-latest\nmistral-large-latest', local: false },
+  { nombre: 'Anthropic', slug: 'anthropic', baseUrl: 'https://api.anthropic.com/v1', modelos: 'claude-3-5-haiku-latest\nclaude-sonnet-4-0', local: false },
+];
+
+const inputClasses = `w-full rounded-md border border-gray-300 py-2 px-3 text-sm text-gray-900 bg-white
+  focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder:text-gray-400`;
+
+function parseModelos(texto: string): string[] {
+  return [...new Set(texto.split(/[\n,]/).map((m) => m.trim()).filter(Boolean))];
+}
+
+// One "Name: value" header per line
+function parseCabeceras(texto: string): Record<string, string> {
+  const cabeceras: Record<string, string> = {};
+  for (const linea of texto.split('\n')) {
+    if (!linea.trim()) continue;
+    const separador = linea.indexOf(':');
+    if (separador <= 0) {
+      throw new Error(`Cabecera no válida: "${linea.trim()}" (formato Nombre: valor)`);
+    }
+    cabeceras[linea.slice(0, separador).trim()] = linea.slice(separador + 1).trim();
+  }
+  return cabeceras;
+}
+
+function ProveedorIAForm({
+  proveedor,
+  onClose,
+}: {
+  proveedor?: ProveedorIA;
+  onClose: () => void;
+}) {
+  const { mutateAsync: create, isPending: isCreating } = useCreateProveedorIA();
+  const { mutateAsync: update, isPending: isUpdating } = useUpdateProveedorIA();
+
+  const [nombre, setNombre] = useState(proveedor?.nombre ?? '');
+  const [slug, setSlug] = useState(proveedor?.slug ?? '');
+  const [baseUrl, setBaseUrl] = useState(proveedor?.baseUrl ?? '');
+  const [apiKey, setApiKey] = useState('');
+  const [quitarApiKey, setQuitarApiKey] = useState(false);
+  const [modelosTexto, setModelosTexto] = useState(proveedor?.modelos.join('\n') ?? '');
+  const [modelo, setModelo] = useState(proveedor?.modelo ?? '');
+  const [cabecerasTexto, setCabecerasTexto] = useState('');
+  const [quitarCabeceras, setQuitarCabeceras] = useState(false);
+  const [timeoutSegundos, setTimeoutSegundos] = useState(
+    proveedor?.timeoutMs ? String(proveedor.timeoutMs / 1000) : ''
+  );
+  const [error, setError] = useState('');
+
+  const modelos = parseModelos(modelosTexto);
+  // The model in use defaults to the first one listed
+  const modeloElegido = modelos.includes(modelo) ? modelo : modelos[0] ?? '';
+  const isSaving = isCreating || isUpdating;
+
+  const aplicarPreset = (preset: (typeof PRESETS)[number]) => {
+    setNombre(preset.nombre);
+    setSlug(preset.slug);
+    setBaseUrl(preset.baseUrl);
+    setModelosTexto(preset.modelos);
+    // Local models on modest hardware need more than the default 30s
+    if (preset.local && !timeoutSegundos) setTimeoutSegundos('120');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const cabeceras = parseCabeceras(cabecerasTexto);
+      const timeoutMs = timeoutSegundos ? Math.round(Number(timeoutSegundos) * 1000) : null;
+
+      if (proveedor) {
+        const dto: ActualizarProveedorIADTO = {
+          nombre,
+          baseUrl,
+          modelos,
+          modelo: modeloElegido,
+          timeoutMs,
+        };
+        if (quitarApiKey) dto.apiKey = null;
+        else if (apiKey) dto.apiKey = apiKey;
+        // Blank keeps the current headers
+        if (quitarCabeceras) dto.cabeceras = {};
+        else if (Object.keys(cabeceras).length > 0) dto.cabeceras = cabeceras;
+
+        await update({ id: proveedor.id, dto });
+      } else {
+        await create({
+          slug,
+          nombre,
+          baseUrl,
+          ...(apiKey && { apiKey }),
+          ...(Object.keys(cabeceras).length > 0 && { cabeceras }),
+          modelos,
+          modelo: modeloElegido,
+          timeoutMs,
+        });
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar el proveedor');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 rounded-lg border border-blue-200 bg-blue-50 space-y-3">
+      {!proveedor && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-gray-600">Plantillas:</span>
+          {PRESETS.map((preset) => (
+            <button
+              key={preset.slug}
+              type="button"
+              onClick={() => aplicarPreset(preset)}
+              className="text-xs px-2 py-1 rounded-full border border-blue-200 bg-white text-blue-700 hover:bg-blue-100"
+            >
+              {preset.nombre}
+              {preset.local && <span className="text-gray-400"> (local)</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Nombre</label>
+          <input value={nombre} onChange={(e) => setNombre(e.target.value)} placeholder="Ollama" className={inputClasses} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Identificador</label>
+          <input
+            value={slug}
+            onChange={(e) => setSlug(e.target.value.toLowerCase())}
+            placeholder="ollama"
+            disabled={!!proveedor}
+            className={`${inputClasses} font-mono disabled:bg-gray-100 disabled:text-gray-500`}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            URL base (compatible con la API de OpenAI)
+          </label>
+          <input
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder="http://localhost:11434/v1"
+            className={`${inputClasses} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            API Key {proveedor?.maskedKey ? '(dejar vacío para mantener)' : '(opcional)'}
+          </label>
+          <input
+            type="password"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder={proveedor?.maskedKey ?? 'Sin key para endpoints locales'}
+            disabled={quitarApiKey}
+            className={`${inputClasses} font-mono`}
+          />
+          {proveedor?.maskedKey && (
+            <label className="mt-1 flex items-center gap-1.5 text-xs text-gray-600">
+              <input type="checkbox" checked={quitarApiKey} onChange={(e) => setQuitarApiKey(e.target.checked)} />
+              Quitar la API key
+            </label>
+          )}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Timeout (segundos)</label>
+          <input
+            type="number"
+            min={1}
+            max={600}
+            value={timeoutSegundos}
+            onChange={(e) => setTimeoutSegundos(e.target.value)}
+            placeholder="30 (por defecto)"
+            className={inputClasses}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Modelos (uno por línea)</label>
+          <textarea
+            value={modelosTexto}
+            onChange={(e) => setModelosTexto(e.target.value)}
+            rows={3}
+            placeholder="llama3.1"
+            className={`${inputClasses} font-mono`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Modelo a usar</label>
+          <select
+            value={modeloElegido}
+            onChange={(e) => setModelo(e.target.value)}
+            disabled={modelos.length === 0}
+            className={inputClasses}
+          >
+            {modelos.map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Cabeceras adicionales (una por línea: Nombre: valor)
+            {proveedor && proveedor.cabeceras.length > 0 && ` — actuales: ${proveedor.cabeceras.join(', ')}; dejar vacío para mantenerlas`}
+          </label>
+          <textarea
+            value={cabecerasTexto}
+            onChange={(e) => setCabecerasTexto(e.target.value)}
+            rows={2}
+            placeholder={'HTTP-Referer: https://mi-crm.com\nX-Title: CRM'}
+            disabled={quitarCabeceras}
+            className={`${inputClasses} font-mono`}
+          />
+          {proveedor && proveedor.cabeceras.length > 0 && (
+            <label className="mt-1 flex items-center gap-1.5 text-xs text-gray-600">
+              <input type="checkbox" checked={quitarCabeceras} onChange={(e) => setQuitarCabeceras(e.target.checked)} />
+              Quitar las cabeceras
+            </label>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={onClose} disabled={isSaving}>
+          Cancelar
+        </Button>
+        <Button type="submit" size="sm" disabled={isSaving || !nombre || !baseUrl || modelos.length === 0}>
+          {isSaving ? 'Guardando...' : proveedor ? 'Actualizar' : 'Añadir'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function ProveedorIARow({ proveedor }: { proveedor: ProveedorIA }) {
+  const [editando, setEditando] = useState(false);
+  const { mutateAsync: update, isPending: isUpdating } = useUpdateProveedorIA();
+  const { mutateAsync: remove, isPending: isDeleting } = useDeleteProveedorIA();
+
+  if (editando) {
+    return <ProveedorIAForm proveedor={proveedor} onClose={() => setEditando(false)} />;
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`¿Eliminar el proveedor ${proveedor.nombre}?`)) return;
+    await remove(proveedor.id);
+  };
+
+  return (
+    <div className={`p-4 rounded-lg border ${proveedor.enabled ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}>
+      <div className="flex items-start gap-4">
+        <div className="pt-1">
+          {proveedor.enabled ? (
+            <CheckCircleIcon className="h-5 w-5 text-green-600" />
+          ) : (
+            <XCircleIcon className="h-5 w-5 text-gray-400" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <h4 className="font-medium text-gray-900">{proveedor.nombre}</h4>
+            <span className="text-xs font-mono text-gray-500">{proveedor.slug}</span>
+          </div>
+          <p className="text-sm text-gray-500 font-mono truncate">{proveedor.baseUrl}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Modelo: <span className="font-mono">{proveedor.modelo}</span>
+            {' · '}
+            {proveedor.maskedKey ? `Key ${proveedor.maskedKey}` : 'Sin API key'}
+            {proveedor.cabeceras.length > 0 && ` · Cabeceras: ${proveedor.cabeceras.join(', ')}`}
+            {proveedor.timeoutMs && ` · Timeout ${proveedor.timeoutMs / 1000}s`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Toggle
+            size="sm"
+            enabled={proveedor.enabled}
+            disabled={isUpdating}
+            onChange={(enabled) => update({ id: proveedor.id, dto: { enabled } })}
+          />
+          <Button size="sm" variant="outline" onClick={() => setEditando(true)}>
+            Editar
+          </Button>
+          <Button size="sm" variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+            Eliminar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Custom OpenAI-compatible AI providers: hosted ones or local models, which
+ * make enrichment work without internet access.
+ */
+export function ProveedoresIAList() {
+  const { data: proveedores, isLoading, error } = useProveedoresIA();
+  const [creando, setCreando] = useState(false);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Cargando proveedores personalizados...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error.message}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-400">
+          Cualquier endpoint compatible con la API de OpenAI (Ollama, LM Studio, vLLM, OpenRouter, Mistral, Anthropic...).
+          Con un modelo local el enriquecimiento funciona sin conexión.
+        </p>
+        {!creando && (
+          <Button size="sm" variant="outline" onClick={() => setCreando(true)}>
+            <PlusIcon />
+            Añadir proveedor
+          </Button>
+        )}
+      </div>
+
+      {creando && <ProveedorIAForm onClose={() => setCreando(false)} />}
+
+      {proveedores?.map((proveedor) => (
+        <ProveedorIARow key={proveedor.id} proveedor={proveedor} />
+      ))}
+    </div>
+  );
+}
@@ -8,9 +8,17 @@ import {
   ClockIcon,
   ChartBarIcon,
   BellAlertIcon,
+  CurrencyDollarIcon,
 } from '@heroicons/react/24/outline';
 import { Button } from '@/components/ui/Button';
-import { useQuotas, QuotaInfo, QuotaHistoryEntry } from '@/hooks/useQuotas';
+import {
+  useQuotas,
+  useUsoIA,
+  useUpdatePresupuestoIA,
+  QuotaInfo,
+  QuotaHistoryEntry,
+} from '@/hooks/useQuotas';
+import { getAIProviderName, type GastoIA, type GastoProveedorIA } from '@/types/enrichment';
 
 const SERVICE_LABELS: Record<string, { name: string; description: string }> = {
   screenshots: {
@@ -31,7 +39,10 @@ const SERVICE_LABELS: Record<string, { name: string; description: string }> = {
   },
 };
 
-type TabType = 'status' | 'history' | 'alerts';
+type TabType = 'status' | 'history' | 'alerts' | 'ai';
+
+const formatUsd = (valor: number) =>
+  `US$ ${valor.toLocaleString('es', { minimumFractionDigits: 2, maximumFractionDigits: valor < 1 ? 4 : 2 })}`;
 
 function QuotaCard({
   quota,
@@ -322,6 +333,211 @@ function AlertsList({
   );
 }
 
+function PresupuestoProveedorCard({ gasto }: { gasto: GastoProveedorIA }) {
+  const { mutateAsync: updatePresupuesto, isPending } = useUpdatePresupuestoIA();
+  const [editando, setEditando] = useState(false);
+  const [limite, setLimite] = useState(gasto.limiteMensualUsd?.toString() ?? '');
+  const [error, setError] = useState('');
+
+  const percentage = gasto.limiteMensualUsd ? (gasto.costeMesUsd / gasto.limiteMensualUsd) * 100 : null;
+  const agotado = percentage !== null && percentage >= 100;
+
+  const guardar = async (limiteMensualUsd: number | null) => {
+    setError('');
+    try {
+      await updatePresupuesto({ provider: gasto.provider, limiteMensualUsd });
+      setEditando(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar el presupuesto');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h3 className="font-medium text-gray-900">{getAIProviderName(gasto.provider)}</h3>
+          <p className="text-xs text-gray-500">
+            {gasto.llamadasMes.toLocaleString()} llamadas · {gasto.tokensMes.toLocaleString()} tokens este mes
+          </p>
+        </div>
+        <span className="text-lg font-semibold text-gray-900">{formatUsd(gasto.costeMesUsd)}</span>
+      </div>
+
+      {percentage !== null && (
+        <div className="mb-3">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>Presupuesto: {formatUsd(gasto.limiteMensualUsd ?? 0)} / mes</span>
+            <span className={agotado ? 'text-red-600 font-medium' : ''}>
+              {agotado ? 'Agotado' : `${percentage.toFixed(1)}%`}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all duration-300 ${
+                agotado ? 'bg-red-500' : percentage >= 80 ? 'bg-amber-500' : 'bg-green-500'
+              }`}
+              style={{ width: `${Math.min(percentage, 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="pt-2 border-t border-gray-100">
+        {editando ? (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-600">US$</span>
+            <input
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={limite}
+              onChange={(e) => setLimite(e.target.value)}
+              placeholder="Tope mensual"
+              className="flex-1 text-sm border border-gray-300 rounded-md px-2 py-1 text-gray-900"
+            />
+            <Button size="sm" disabled={isPending || !(Number(limite) > 0)} onClick={() => guardar(Number(limite))}>
+              Guardar
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => setEditando(false)}>
+              Cancelar
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setEditando(true)}
+              className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1"
+            >
+              <CurrencyDollarIcon className="h-3 w-3" />
+              {gasto.limiteMensualUsd ? 'Cambiar presupuesto' : 'Fijar presupuesto mensual'}
+            </button>
+            {gasto.limiteMensualUsd && (
+              <button
+                onClick={() => guardar(null)}
+                disabled={isPending}
+                className="text-xs text-gray-500 hover:text-red-600"
+              >
+                Quitar
+              </button>
+            )}
+          </div>
+        )}
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+function RankingGasto({
+  titulo,
+  filas,
+}: {
+  titulo: string;
+  filas: Array<GastoIA & { key: string; nombre: string }>;
+}) {
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-4">
+      <h3 className="font-medium text-gray-900 mb-3">{titulo}</h3>
+      {filas.length === 0 ? (
+        <p className="text-xs text-gray-400">Sin datos</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody className="divide-y divide-gray-100">
+            {filas.map((fila) => (
+              <tr key={fila.key}>
+                <td className="py-1.5 text-gray-900 truncate max-w-0 w-full">{fila.nombre}</td>
+                <td className="py-1.5 pl-3 text-xs text-gray-500 text-right whitespace-nowrap">
+                  {fila.tokens.toLocaleString()} tokens
+                </td>
+                <td className="py-1.5 pl-3 text-right font-medium text-gray-900 whitespace-nowrap">
+                  {formatUsd(fila.costeUsd)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function GastoIAPanel({ days }: { days: number }) {
+  const { data, isLoading, error } = useUsoIA(days);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
+        {error instanceof Error ? error.message : 'Error desconocido'}
+      </div>
+    );
+  }
+
+  const costePorDia = data.porDia.map((d) => d.costeUsd);
+  const tokensPorDia = data.porDia.map((d) => d.tokens);
+  const totalPeriodo = costePorDia.reduce((a, b) => a + b, 0);
+  const totalTokens = tokensPorDia.reduce((a, b) => a + b, 0);
+
+  return (
+    <div className="space-y-4">
+      {data.proveedores.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
+          <p className="text-gray-500">No hay proveedores de IA configurados</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {data.proveedores.map((gasto) => (
+            <PresupuestoProveedorCard key={gasto.provider} gasto={gasto} />
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <h3 className="font-medium text-gray-900 mb-4">Gasto por día</h3>
+        <div className="grid grid-cols-2 gap-4">
+          <MiniBarChart
+            data={costePorDia}
+            maxValue={Math.max(...costePorDia, 0.0001)}
+            label={`Coste (${formatUsd(totalPeriodo)})`}
+            color="bg-emerald-500"
+          />
+          <MiniBarChart
+            data={tokensPorDia}
+            maxValue={Math.max(...tokensPorDia, 1)}
+            label={`Tokens (${totalTokens.toLocaleString()})`}
+            color="bg-blue-500"
+          />
+        </div>
+        <div className="mt-3 text-xs text-gray-400 text-center">Últimos {data.porDia.length} días</div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <RankingGasto
+          titulo="Por usuario"
+          filas={data.porUsuario.map((u) => ({ ...u, key: u.usuarioId ?? 'sistema' }))}
+        />
+        <RankingGasto
+          titulo="Por cliente"
+          filas={data.porCliente.map((c) => ({ ...c, key: c.clienteId ?? 'sin-cliente' }))}
+        />
+      </div>
+
+      <p className="text-xs text-gray-400 text-center">
+        Coste estimado con los precios públicos de cada modelo; los modelos locales no tienen coste.
+        Al agotar su presupuesto, un proveedor no se usa hasta el mes siguiente.
+      </p>
+    </div>
+  );
+}
+
 export function QuotaDashboard() {
   const [activeTab, setActiveTab] = useState<TabType>('status');
   const [historyDays, setHistoryDays] = useState(7);
@@ -345,6 +561,7 @@ export function QuotaDashboard() {
     { id: 'status', label: 'Estado Actual', icon: CheckCircleIcon },
     { id: 'history', label: 'Historial', icon: ChartBarIcon },
     { id: 'alerts', label: `Alertas${alerts.length > 0 ? ` (${alerts.length})` : ''}`, icon: BellAlertIcon },
+    { id: 'ai', label: 'Gasto IA', icon: CurrencyDollarIcon },
   ];
 
   if (isLoading && quotas.length === 0) {
@@ -364,7 +581,7 @@ export function QuotaDashboard() {
             Dashboard de Quotas
           </h2>
           <p className="text-sm text-gray-500">
-            Monitorea el uso de las APIs externas
+            Monitorea el uso de las APIs externas y el gasto en IA
           </p>
         </div>
         <Button
@@ -464,7 +681,7 @@ export function QuotaDashboard() {
         </>
       )}
 
-      {activeTab === 'history' && (
+      {(activeTab === 'history' || activeTab === 'ai') && (
         <div className="space-y-4">
           {/* Period selector */}
           <div className="flex items-center justify-end gap-2">
@@ -480,7 +697,9 @@ export function QuotaDashboard() {
             </select>
           </div>
 
-          {isLoadingHistory ? (
+          {activeTab === 'ai' ? (
+            <GastoIAPanel days={historyDays} />
+          ) : isLoadingHistory ? (
             <div className="flex items-center justify-center h-32">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500" />
             </div>
@@ -0,0 +1,147 @@
+'use client';
+
+import { ArrowPathIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Toggle } from '@/components/ui/Toggle';
+import {
+  useRolePermissions,
+  useUpdateRolePermissions,
+  useResetRolePermissions,
+} from '@/hooks/useRolePermissions';
+import {
+  ALL_PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLES,
+  hasPermission,
+  getPermissionsForRole,
+  type Permission,
+  type UserRole,
+} from '@/lib/rbac';
+
+const roleLabels: Record<UserRole, string> = {
+  ADMIN: 'Admin',
+  MANAGER: 'Manager',
+  AGENT: 'Agente',
+};
+
+export function RolePermissionsForm() {
+  const { data: matrix, isLoading, error } = useRolePermissions();
+  const { mutateAsync: updateRole, isPending: isUpdating } = useUpdateRolePermissions();
+  const { mutateAsync: resetMatrix, isPending: isResetting } = useResetRolePermissions();
+
+  const handleToggle = async (
+    role: 'MANAGER' | 'AGENT',
+    permission: Permission,
+    enabled: boolean
+  ) => {
+    if (!matrix) return;
+    const current = getPermissionsForRole(role, matrix);
+    const permissions = enabled
+      ? [...current, permission]
+      : current.filter((p) => p !== permission);
+
+    try {
+      await updateRole({ role, permissions });
+    } catch (err) {
+      console.error('Error updating role permissions:', err);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('¿Restaurar los permisos por defecto de todos los roles?')) return;
+    try {
+      await resetMatrix();
+    } catch (err) {
+      console.error('Error resetting role permissions:', err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !matrix) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Error al cargar los permisos</p>
+        <p className="text-sm text-gray-500 mt-1">
+          {error?.message ?? 'No se pudieron cargar los permisos'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Roles y Permisos</h2>
+          <p className="text-sm text-gray-500">
+            Define qué acciones puede realizar cada rol
+          </p>
+        </div>
+        <Button variant="secondary" onClick={handleReset} disabled={isResetting}>
+          <ArrowPathIcon className="h-4 w-4 mr-2" />
+          {isResetting ? 'Restaurando...' : 'Restaurar Defaults'}
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Permiso
+              </th>
+              {ROLES.map((role) => (
+                <th
+                  key={role}
+                  className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase"
+                >
+                  {roleLabels[role]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {ALL_PERMISSIONS.map((permission) => (
+              <tr key={permission}>
+                <td className="px-6 py-3">
+                  <div className="text-sm font-medium text-gray-900">
+                    {PERMISSION_LABELS[permission]}
+                  </div>
+                  <div className="text-xs text-gray-400 font-mono">{permission}</div>
+                </td>
+                {ROLES.map((role) => (
+                  <td key={role} className="px-6 py-3">
+                    <div className="flex justify-center">
+                      <Toggle
+                        size="sm"
+                        enabled={hasPermission(role, permission, matrix)}
+                        disabled={role === 'ADMIN' || isUpdating}
+                        onChange={(enabled) =>
+                          role !== 'ADMIN' && handleToggle(role, permission, enabled)
+                        }
+                      />
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 flex items-start gap-1">
+        <InformationCircleIcon className="h-4 w-4 flex-shrink-0" />
+        El rol Admin siempre conserva todos los permisos. Los cambios pueden
+        tardar hasta un minuto en aplicarse en todas las instancias.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  EnvelopeIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { WhatsappLogo } from '@phosphor-icons/react';
+import { Button } from '@/components/ui/Button';
+import { SECUENCIAS } from '@/lib/constants';
+import { useGuardarSecuencia } from '@/hooks/useSecuencias';
+import type { PlantillaContacto, Secuencia } from '@/types';
+
+interface PasoForm {
+  plantillaId: string;
+  esperaDias: string;
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+async function fetchPlantillasActivas(): Promise<PlantillaContacto[]> {
+  const response = await fetch('/api/plantillas?esActiva=true');
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar las plantillas');
+  }
+
+  return data.data ?? [];
+}
+
+/**
+ * Create / edit form of a sequence: name and its ordered template steps with waits
+ */
+export function SecuenciaForm({ secuencia }: { secuencia?: Secuencia }) {
+  const router = useRouter();
+  const guardar = useGuardarSecuencia();
+  const { data: plantillas = [] } = useQuery({
+    queryKey: ['plantillas', 'activas'],
+    queryFn: fetchPlantillasActivas,
+  });
+
+  const [nombre, setNombre] = useState(secuencia?.nombre ?? '');
+  const [descripcion, setDescripcion] = useState(secuencia?.descripcion ?? '');
+  const [activa, setActiva] = useState(secuencia?.activa ?? true);
+  const [pasos, setPasos] = useState<PasoForm[]>(() =>
+    secuencia?.pasos.map((p) => ({ plantillaId: p.plantillaId, esperaDias: String(p.esperaDias) })) ??
+      [{ plantillaId: '', esperaDias: '0' }]
+  );
+  const [error, setError] = useState('');
+
+  // Templates deactivated after being picked still show up, so the step is not silently emptied
+  const opciones = [
+    ...plantillas,
+    ...(secuencia?.pasos ?? [])
+      .map((p) => p.plantilla)
+      .filter((p): p is NonNullable<typeof p> => !!p && !plantillas.some((a) => a.id === p.id)),
+  ];
+  const canalDe = (plantillaId: string) => opciones.find((p) => p.id === plantillaId)?.canal;
+
+  const actualizarPaso = (index: number, cambios: Partial<PasoForm>) => {
+    setPasos(pasos.map((p, i) => (i === index ? { ...p, ...cambios } : p)));
+  };
+
+  const moverPaso = (index: number, delta: number) => {
+    const destino = index + delta;
+    if (destino < 0 || destino >= pasos.length) return;
+    const nuevos = [...pasos];
+    [nuevos[index], nuevos[destino]] = [nuevos[destino], nuevos[index]];
+    setPasos(nuevos);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      await guardar.mutateAsync({
+        id: secuencia?.id ?? null,
+        dto: {
+          nombre,
+          descripcion: descripcion || undefined,
+          pasos: pasos.map((p) => ({ plantillaId: p.plantillaId, esperaDias: Number(p.esperaDias) || 0 })),
+          ...(secuencia && { activa }),
+        },
+      });
+      router.push('/admin/settings/secuencias');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la secuencia');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Nombre de la secuencia *</label>
+        <input
+          type="text"
+          value={nombre}
+          onChange={(e) => setNombre(e.target.value)}
+          className={inputClassName}
+          placeholder="Ej: Prospección inicial"
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Descripción</label>
+        <input
+          type="text"
+          value={descripcion}
+          onChange={(e) => setDescripcion(e.target.value)}
+          className={inputClassName}
+          placeholder="Descripción opcional"
+        />
+      </div>
+
+      {secuencia && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={activa}
+            onChange={(e) => setActiva(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Activa
+          {secuencia.activa && !activa && (
+            <span className="text-xs text-amber-600">Se detendrán los clientes que están en curso</span>
+          )}
+        </label>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700">Pasos *</label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setPasos([...pasos, { plantillaId: '', esperaDias: '3' }])}
+            disabled={pasos.length >= SECUENCIAS.MAX_PASOS}
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Agregar paso
+          </Button>
+        </div>
+
+        <ol className="space-y-2">
+          {pasos.map((paso, index) => {
+            const canal = canalDe(paso.plantillaId);
+            return (
+              <li key={index} className="flex items-center gap-2 rounded-lg border border-gray-200 p-3">
+                <span className="w-6 text-sm font-medium text-gray-500">{index + 1}.</span>
+                <div className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+                  Esperar
+                  <input
+                    type="number"
+                    min={0}
+                    max={SECUENCIAS.MAX_ESPERA_DIAS}
+                    value={paso.esperaDias}
+                    onChange={(e) => actualizarPaso(index, { esperaDias: e.target.value })}
+                    className="w-16 rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  {index === 0 ? 'días y enviar' : 'días más y enviar'}
+                </div>
+                <span className="flex-shrink-0 w-5">
+                  {canal === 'EMAIL' && <EnvelopeIcon className="h-5 w-5 text-blue-600" />}
+                  {canal === 'WHATSAPP' && <WhatsappLogo className="h-5 w-5 text-green-600" />}
+                </span>
+                <select
+                  value={paso.plantillaId}
+                  onChange={(e) => actualizarPaso(index, { plantillaId: e.target.value })}
+                  className={inputClassName}
+                  required
+                >
+                  <option value="">Elegir plantilla...</option>
+                  {opciones.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.canal === 'EMAIL' ? 'Email' : 'WhatsApp'} · {p.nombre}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => moverPaso(index, -1)} disabled={index === 0} title="Subir">
+                    <ArrowUpIcon className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => moverPaso(index, 1)} disabled={index === pasos.length - 1} title="Bajar">
+                    <ArrowDownIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPasos(pasos.filter((_, i) => i !== index))}
+                    disabled={pasos.length === 1}
+                    title="Quitar paso"
+                  >
+                    <TrashIcon className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+        <p className="mt-2 text-xs text-gray-500">
+          Los emails se envían solos. Los pasos de WhatsApp crean una tarea con el enlace para enviarlo.
+          La secuencia se detiene si el cliente responde o pasa a {SECUENCIAS.ESTADOS_DETIENEN.join(', ').replace(/_/g, ' ')}.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+        <Link href="/admin/settings/secuencias">
+          <Button variant="outline" type="button">Cancelar</Button>
+        </Link>
+        <Button type="submit" disabled={guardar.isPending}>
+          {guardar.isPending ? 'Guardando...' : secuencia ? 'Guardar cambios' : 'Crear Secuencia'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -2,42 +2,18 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import {
-  KeyIcon,
-  AdjustmentsHorizontalIcon,
-  ChartBarIcon,
-  EnvelopeIcon,
-} from '@heroicons/react/24/outline';
+import { SETTINGS_SECTIONS } from '@/components/admin/settings/settings-sections';
+import type { Permission } from '@/lib/rbac';
 
-const menuItems = [
-  {
-    href: '/admin/settings/enrichment',
-    label: 'Configuración de Enriquecimiento',
-    icon: AdjustmentsHorizontalIcon,
-    description: 'Parámetros de IA y análisis de sitios web',
-  },
-  {
-    href: '/admin/settings/api-keys',
-    label: 'API Keys',
-    icon: KeyIcon,
-    description: 'Gestionar claves de acceso a servicios externos',
-  },
-  {
-    href: '/admin/settings/quotas',
-    label: 'Quotas',
-    icon: ChartBarIcon,
-    description: 'Ver uso y límites de APIs',
-  },
-  {
-    href: '/admin/settings/plantillas',
-    label: 'Plantillas de Contacto',
-    icon: EnvelopeIcon,
-    description: 'Gestionar plantillas de email y WhatsApp',
-  },
-];
+interface SettingsSidebarProps {
+  permissions: Permission[];
+}
 
-export function SettingsSidebar() {
+export function SettingsSidebar({ permissions }: SettingsSidebarProps) {
   const pathname = usePathname();
+  const menuItems = SETTINGS_SECTIONS.filter((item) =>
+    permissions.includes(item.permission)
+  );
 
   return (
     <aside className="w-64 bg-white border-r border-gray-200 min-h-[calc(100vh-4rem)]">
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { PencilSquareIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Toggle } from '@/components/ui/Toggle';
+import { EmailEditor } from '@/components/EmailEditor';
+import { AvisosPlantilla } from '@/components/AvisosPlantilla';
+import { PLANTILLAS } from '@/lib/constants';
+import {
+  useActualizarVariante,
+  useCrearVariante,
+  useVariantesPlantilla,
+} from '@/hooks/usePlantillaVariantes';
+import type { EstadisticasVariante, VariantePlantilla } from '@/types';
+
+interface VariantesPlantillaProps {
+  plantillaId: string;
+  canal: 'EMAIL' | 'WHATSAPP';
+  // Saved content of the template (variant A), the starting point of a new variant
+  asunto: string;
+  cuerpo: string;
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500';
+
+// Variant being edited; no id while it is a new one
+type Edicion = { id?: string; nombre: string; asunto: string; cuerpo: string };
+
+const porcentaje = (tasa: number, base: number) => (base > 0 ? `${tasa}%` : '—');
+
+/**
+ * A/B variants of a template: bulk sends split recipients evenly across the
+ * template (A) and its active variants, compared here by open and reply rate
+ */
+export function VariantesPlantilla({ plantillaId, canal, asunto, cuerpo }: VariantesPlantillaProps) {
+  const { data, isLoading, error } = useVariantesPlantilla(plantillaId);
+  const actualizar = useActualizarVariante(plantillaId);
+  const [editando, setEditando] = useState<Edicion | null>(null);
+
+  const variantes = data?.variantes ?? [];
+  const estadisticas = data?.estadisticas ?? [];
+  const estadisticasDe = (nombre: string) => estadisticas.find((e) => e.variante === nombre);
+  const puedeAgregar = variantes.length + 1 < PLANTILLAS.VARIANTES.length;
+
+  const handleActiva = async (variante: VariantePlantilla, activa: boolean) => {
+    try {
+      await actualizar.mutateAsync({ id: variante.id, dto: { activa } });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al actualizar la variante');
+    }
+  };
+
+  if (isLoading) return <p className="text-sm text-gray-500">Cargando variantes...</p>;
+  if (error) return <p className="text-sm text-red-600">{error.message}</p>;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        En los envíos masivos, los destinatarios se reparten al azar y en partes iguales entre la plantilla (A) y
+        sus variantes activas. Las respuestas se atribuyen al último mensaje enviado al cliente
+        dentro de los {PLANTILLAS.DIAS_ATRIBUCION_RESPUESTA} días previos.
+      </p>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 text-xs font-medium uppercase text-gray-500">
+            <tr>
+              <th className="px-3 py-2 text-left">Variante</th>
+              <th className="px-3 py-2 text-right">Enviados</th>
+              {canal === 'EMAIL' && <th className="px-3 py-2 text-right">Apertura</th>}
+              <th className="px-3 py-2 text-right">Respuesta</th>
+              <th className="px-3 py-2 text-right">Activa</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            <FilaVariante nombre="A" detalle="Contenido de la plantilla" canal={canal} estadisticas={estadisticasDe('A')}>
+              <td className="px-3 py-2 text-right text-xs text-gray-400">Siempre</td>
+              <td />
+            </FilaVariante>
+            {variantes.map((variante) => (
+              <FilaVariante
+                key={variante.id}
+                nombre={variante.nombre}
+                detalle={canal === 'EMAIL' ? variante.asunto ?? '' : ''}
+                canal={canal}
+                estadisticas={estadisticasDe(variante.nombre)}
+              >
+                <td className="px-3 py-2">
+                  <div className="flex justify-end">
+                    <Toggle
+                      size="sm"
+                      enabled={variante.activa}
+                      onChange={(activa) => handleActiva(variante, activa)}
+                      disabled={actualizar.isPending}
+                    />
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Editar"
+                    onClick={() => setEditando({
+                      id: variante.id,
+                      nombre: variante.nombre,
+                      asunto: variante.asunto ?? '',
+                      cuerpo: variante.cuerpo,
+                    })}
+                  >
+                    <PencilSquareIcon className="h-4 w-4" />
+                  </Button>
+                </td>
+              </FilaVariante>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {puedeAgregar && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setEditando({ nombre: '', asunto, cuerpo })}
+        >
+          <PlusIcon className="h-4 w-4" />
+          Agregar variante
+        </Button>
+      )}
+
+      {editando && (
+        <EditarVarianteModal
+          plantillaId={plantillaId}
+          canal={canal}
+          edicion={editando}
+          onClose={() => setEditando(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function FilaVariante({
+  nombre,
+  detalle,
+  canal,
+  estadisticas,
+  children,
+}: {
+  nombre: string;
+  detalle: string;
+  canal: 'EMAIL' | 'WHATSAPP';
+  estadisticas?: EstadisticasVariante;
+  children: ReactNode;
+}) {
+  return (
+    <tr>
+      <td className="px-3 py-2">
+        <span className="font-medium text-gray-900">{nombre}</span>
+        {detalle && <span className="ml-2 text-gray-500">{detalle}</span>}
+      </td>
+      <td className="px-3 py-2 text-right text-gray-700">{estadisticas?.enviados ?? 0}</td>
+      {canal === 'EMAIL' && (
+        <td className="px-3 py-2 text-right text-gray-700">
+          {porcentaje(estadisticas?.tasaApertura ?? 0, estadisticas?.conSeguimiento ?? 0)}
+        </td>
+      )}
+      <td className="px-3 py-2 text-right text-gray-700">
+        {porcentaje(estadisticas?.tasaRespuesta ?? 0, estadisticas?.enviados ?? 0)}
+      </td>
+      {children}
+    </tr>
+  );
+}
+
+function EditarVarianteModal({
+  plantillaId,
+  canal,
+  edicion,
+  onClose,
+}: {
+  plantillaId: string;
+  canal: 'EMAIL' | 'WHATSAPP';
+  edicion: Edicion;
+  onClose: () => void;
+}) {
+  const crear = useCrearVariante(plantillaId);
+  const actualizar = useActualizarVariante(plantillaId);
+  const [form, setForm] = useState({ asunto: edicion.asunto, cuerpo: edicion.cuerpo });
+  const [error, setError] = useState<string | null>(null);
+
+  const guardando = crear.isPending || actualizar.isPending;
+
+  const handleGuardar = async () => {
+    setError(null);
+    const dto = { asunto: canal === 'EMAIL' ? form.asunto.trim() : null, cuerpo: form.cuerpo };
+    try {
+      if (edicion.id) {
+        await actualizar.mutateAsync({ id: edicion.id, dto });
+      } else {
+        await crear.mutateAsync(dto);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al guardar la variante');
+    }
+  };
+
+  return (
+    <Modal
+      open
+      onOpenChange={(open) => { if (!open) onClose(); }}
+      title={edicion.id ? `Variante ${edicion.nombre}` : 'Nueva variante'}
+      size="xl"
+    >
+      <div className="space-y-3">
+        {canal === 'EMAIL' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Asunto</label>
+            <input
+              type="text"
+              value={form.asunto}
+              onChange={(e) => setForm({ ...form, asunto: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Contenido</label>
+          <EmailEditor
+            value={form.cuerpo}
+            onChange={(cuerpo) => setForm({ ...form, cuerpo })}
+            mode={canal === 'EMAIL' ? 'email' : 'whatsapp'}
+          />
+        </div>
+        <AvisosPlantilla textos={canal === 'EMAIL' ? [form.asunto, form.cuerpo] : [form.cuerpo]} />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <ModalFooter>
+        <Button type="button" variant="outline" size="sm" onClick={onClose}>
+          Cerrar
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleGuardar}
+          disabled={guardando || !form.cuerpo.trim() || (canal === 'EMAIL' && !form.asunto.trim())}
+        >
+          {guardando ? 'Guardando...' : 'Guardar'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,77 @@
+import {
+  KeyIcon,
+  AdjustmentsHorizontalIcon,
+  ChartBarIcon,
+  ChatBubbleBottomCenterTextIcon,
+  EnvelopeIcon,
+  QueueListIcon,
+  ShieldCheckIcon,
+  ViewColumnsIcon,
+} from '@heroicons/react/24/outline';
+import type { Permission } from '@/lib/rbac';
+
+// Settings sections in sidebar order, each gated by the permission it needs
+export const SETTINGS_SECTIONS: {
+  href: string;
+  label: string;
+  icon: typeof KeyIcon;
+  description: string;
+  permission: Permission;
+}[] = [
+  {
+    href: '/admin/settings/enrichment',
+    label: 'Configuración de Enriquecimiento',
+    icon: AdjustmentsHorizontalIcon,
+    description: 'Parámetros de IA y análisis de sitios web',
+    permission: 'SETTINGS_MANAGE',
+  },
+  {
+    href: '/admin/settings/prompts',
+    label: 'Prompts de IA',
+    icon: ChatBubbleBottomCenterTextIcon,
+    description: 'Versiones de las instrucciones de enriquecimiento',
+    permission: 'SETTINGS_MANAGE',
+  },
+  {
+    href: '/admin/settings/pipeline',
+    label: 'Pipeline de Ventas',
+    icon: ViewColumnsIcon,
+    description: 'Límites WIP de cada etapa del tablero Kanban',
+    permission: 'SETTINGS_MANAGE',
+  },
+  {
+    href: '/admin/settings/api-keys',
+    label: 'API Keys',
+    icon: KeyIcon,
+    description: 'Gestionar claves de acceso a servicios externos',
+    permission: 'API_KEYS_MANAGE',
+  },
+  {
+    href: '/admin/settings/quotas',
+    label: 'Quotas',
+    icon: ChartBarIcon,
+    description: 'Ver uso y límites de APIs',
+    permission: 'QUOTAS_VIEW',
+  },
+  {
+    href: '/admin/settings/plantillas',
+    label: 'Plantillas de Contacto',
+    icon: EnvelopeIcon,
+    description: 'Gestionar plantillas de email y WhatsApp',
+    permission: 'TEMPLATES_MANAGE',
+  },
+  {
+    href: '/admin/settings/secuencias',
+    label: 'Secuencias de Contacto',
+    icon: QueueListIcon,
+    description: 'Cadencias de emails y WhatsApp en varios pasos',
+    permission: 'TEMPLATES_MANAGE',
+  },
+  {
+    href: '/admin/settings/roles',
+    label: 'Roles y Permisos',
+    icon: ShieldCheckIcon,
+    description: 'Definir qué puede hacer cada rol',
+    permission: 'USERS_MANAGE',
+  },
+];
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { useDuplicados } from '@/hooks/useDuplicados';
+import type { ClienteDuplicado, MotivoDuplicado } from '@/types';
+
+const MOTIVO_LABELS: Record<MotivoDuplicado, string> = {
+  nombre: 'Nombre',
+  email: 'Email',
+  telefono: 'Teléfono',
+  sitioWeb: 'Sitio web',
+};
+
+const UMBRALES = [
+  { value: 30, label: 'Todas las coincidencias' },
+  { value: 50, label: 'Coincidencia media o alta' },
+  { value: 70, label: 'Solo coincidencia alta' },
+];
+
+function getScoreColor(score: number) {
+  if (score >= 70) return 'bg-red-100 text-red-800';
+  if (score >= 50) return 'bg-orange-100 text-orange-800';
+  return 'bg-yellow-100 text-yellow-800';
+}
+
+function ClienteResumen({ cliente }: { cliente: ClienteDuplicado }) {
+  return (
+    <div className="min-w-0">
+      <Link
+        href={`/clientes/${cliente.id}`}
+        className="text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        {cliente.nombre}
+      </Link>
+      <p className="text-xs text-gray-500 truncate">
+        {[cliente.email, cliente.telefono, cliente.sitioWeb, cliente.ciudad].filter(Boolean).join(' · ') || 'Sin datos de contacto'}
+      </p>
+      <p className="text-xs text-gray-400">
+        Creado el {new Date(cliente.fechaCreacion).toLocaleDateString('es-ES')}
+      </p>
+    </div>
+  );
+}
+
+export function DuplicadosList() {
+  const [minScore, setMinScore] = useState(UMBRALES[0].value);
+  const { data: pares, isLoading, error } = useDuplicados(minScore);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          {pares ? `${pares.length} posible(s) duplicado(s)` : 'Buscando duplicados...'}
+        </p>
+        <select
+          value={minScore}
+          onChange={(e) => setMinScore(Number(e.target.value))}
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          {UMBRALES.map((umbral) => (
+            <option key={umbral.value} value={umbral.value}>
+              {umbral.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">Error al buscar duplicados</p>
+      ) : !pares || pares.length === 0 ? (
+        <p className="text-sm text-gray-500">No se encontraron clientes duplicados.</p>
+      ) : (
+        <div className="overflow-hidden rounded-lg border bg-white">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Coincidencia</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cliente</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Posible duplicado</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {pares.map(({ score, motivos, clientes: [principal, secundario] }) => (
+                <tr key={`${principal.id}-${secundario.id}`}>
+                  <td className="px-4 py-3 align-top">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${getScoreColor(score)}`}>
+                      {score}%
+                    </span>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {motivos.map((motivo) => (
+                        <span key={motivo} className="px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-600">
+                          {MOTIVO_LABELS[motivo]}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 align-top max-w-xs">
+                    <ClienteResumen cliente={principal} />
+                  </td>
+                  <td className="px-4 py-3 align-top max-w-xs">
+                    <ClienteResumen cliente={secundario} />
+                  </td>
+                  <td className="px-4 py-3 align-top text-right">
+                    <Link href={`/clientes/duplicados/fusionar?principal=${principal.id}&secundario=${secundario.id}`}>
+                      <Button variant="outline" size="sm">
+                        <ArrowsRightLeftIcon className="h-4 w-4" />
+                        Fusionar
+                      </Button>
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { useFusionarClientes } from '@/hooks/useDuplicados';
+import type { CampoFusionable, Cliente, OrigenCampoFusion } from '@/types';
+
+export type ClienteFusion = Pick<Cliente, 'id' | 'fechaCreacion'> &
+  Record<CampoFusionable, string | null> & {
+    _count: { actividades: number; mensajes: number };
+  };
+
+interface Usuario {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface FusionarClientesFormProps {
+  principal: ClienteFusion;
+  secundario: ClienteFusion;
+  usuarios: Usuario[];
+}
+
+const CAMPO_LABELS: Record<CampoFusionable, string> = {
+  nombre: 'Nombre',
+  email: 'Email',
+  telefono: 'Teléfono',
+  whatsapp: 'WhatsApp',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  linkedin: 'LinkedIn',
+  twitter: 'Twitter',
+  direccion: 'Dirección',
+  ciudad: 'Ciudad',
+  provincia: 'Provincia',
+  codigoPostal: 'Código postal',
+  industria: 'Industria',
+  sitioWeb: 'Sitio web',
+  estado: 'Estado',
+  prioridad: 'Prioridad',
+  notas: 'Notas',
+  asignadoAId: 'Asignado a',
+};
+
+const CAMPOS = Object.keys(CAMPO_LABELS) as CampoFusionable[];
+
+export function FusionarClientesForm({ principal, secundario, usuarios }: FusionarClientesFormProps) {
+  const router = useRouter();
+  const { mutateAsync: fusionar, isPending } = useFusionarClientes();
+
+  // Only fields with different values need a decision
+  const camposEnConflicto = CAMPOS.filter(
+    (campo) => (principal[campo] ?? '') !== (secundario[campo] ?? '')
+  );
+
+  const [campos, setCampos] = useState<Partial<Record<CampoFusionable, OrigenCampoFusion>>>(() =>
+    Object.fromEntries(
+      camposEnConflicto.map((campo) => [campo, principal[campo] ? 'principal' : 'secundario'])
+    )
+  );
+
+  const mostrarValor = (campo: CampoFusionable, valor: string | null) => {
+    if (!valor) return <span className="text-gray-400 italic">Vacío</span>;
+    if (campo === 'asignadoAId') {
+      const usuario = usuarios.find((u) => u.id === valor);
+      return usuario ? usuario.name || usuario.email : valor;
+    }
+    return <span className="whitespace-pre-line break-words">{valor}</span>;
+  };
+
+  const handleFusionar = async () => {
+    if (!confirm(`¿Fusionar "${secundario.nombre}" en "${principal.nombre}"? El cliente secundario quedará eliminado.`)) {
+      return;
+    }
+    try {
+      const result = await fusionar({
+        principalId: principal.id,
+        secundarioId: secundario.id,
+        campos,
+      });
+      router.push(`/clientes/${result.clienteId}`);
+      router.refresh();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al fusionar los clientes');
+    }
+  };
+
+  const renderCabecera = (cliente: ClienteFusion, rol: string) => (
+    <div>
+      <p className="text-xs font-medium uppercase text-gray-500">{rol}</p>
+      <Link href={`/clientes/${cliente.id}`} className="text-sm font-semibold text-blue-600 hover:text-blue-800">
+        {cliente.nombre}
+      </Link>
+      <p className="text-xs text-gray-500">
+        Creado el {new Date(cliente.fechaCreacion).toLocaleDateString('es-ES')} · {cliente._count.actividades} actividad(es) · {cliente._count.mensajes} mensaje(s)
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow-sm rounded-lg border">
+        <div className="grid grid-cols-[10rem_1fr_1fr] gap-4 px-6 py-4 border-b items-end">
+          <div>
+            <Link
+              href={`/clientes/duplicados/fusionar?principal=${secundario.id}&secundario=${principal.id}`}
+              className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+            >
+              <ArrowsRightLeftIcon className="h-4 w-4" />
+              Intercambiar
+            </Link>
+          </div>
+          {renderCabecera(principal, 'Se conserva')}
+          {renderCabecera(secundario, 'Se fusiona y elimina')}
+        </div>
+
+        {camposEnConflicto.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">
+            Ambos clientes tienen los mismos datos.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {camposEnConflicto.map((campo) => (
+              <div key={campo} className="grid grid-cols-[10rem_1fr_1fr] gap-4 px-6 py-3 text-sm">
+                <span className="font-medium text-gray-700">{CAMPO_LABELS[campo]}</span>
+                {(['principal', 'secundario'] as const).map((origen) => (
+                  <label key={origen} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={campo}
+                      checked={campos[campo] === origen}
+                      onChange={() => setCampos((prev) => ({ ...prev, [campo]: origen }))}
+                      className="mt-0.5 border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-gray-900">
+                      {mostrarValor(campo, origen === 'principal' ? principal[campo] : secundario[campo])}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Las actividades, mensajes, enriquecimientos, análisis web y archivos del cliente secundario se
+        moverán al cliente que se conserva. La fusión queda registrada en el historial del cliente.
+      </p>
+
+      <div className="flex justify-end gap-3">
+        <Link href="/clientes/duplicados">
+          <Button variant="outline">Cancelar</Button>
+        </Link>
+        <Button onClick={handleFusionar} disabled={isPending}>
+          <ArrowsRightLeftIcon className="h-4 w-4" />
+          {isPending ? 'Fusionando...' : 'Fusionar clientes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
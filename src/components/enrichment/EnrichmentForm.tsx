@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import type { AIProvider } from '@/types/enrichment';
+import { PROVIDER_INFO, type AIProvider, type AIProviderOption } from '@/types/enrichment';
 
 interface EnrichmentFormProps {
   onSubmitAI: (options: {
@@ -15,19 +15,16 @@ interface EnrichmentFormProps {
   onSubmitWeb: () => void;
   clientHasWebsite: boolean;
   defaultConfidenceThreshold: number;
-  availableProviders?: string[];
+  /** Configured providers; every built-in one when not given */
+  availableProviders?: AIProviderOption[];
   isLoading: boolean;
   /** Pre-selected mode to highlight */
   defaultMode?: 'ai' | 'web';
 }
 
-const ALL_PROVIDERS: { value: AIProvider | 'auto'; label: string }[] = [
-  { value: 'auto', label: 'Auto (mejor disponible)' },
-  { value: 'openai', label: 'OpenAI' },
-  { value: 'gemini', label: 'Google Gemini' },
-  { value: 'grok', label: 'xAI Grok' },
-  { value: 'deepseek', label: 'DeepSeek' },
-];
+const BUILT_IN_PROVIDERS: AIProviderOption[] = Object.entries(PROVIDER_INFO)
+  .filter(([, info]) => info.category === 'ai')
+  .map(([id, info]) => ({ id, name: info.name }));
 
 /**
  * Form section of the EnrichmentModal for configuring enrichment options.
@@ -59,12 +56,11 @@ export function EnrichmentForm({
     });
   };
 
-  // Filter providers to only show configured ones
-  const providerOptions = availableProviders
-    ? ALL_PROVIDERS.filter(
-        (p) => p.value === 'auto' || availableProviders.includes(p.value)
-      )
-    : ALL_PROVIDERS;
+  // Only configured providers, custom ones included
+  const providerOptions = [
+    { id: 'auto', name: 'Auto (mejor disponible)' },
+    ...(availableProviders ?? BUILT_IN_PROVIDERS),
+  ];
 
   return (
     <div className="flex flex-col gap-4">
@@ -80,8 +76,8 @@ export function EnrichmentForm({
           className="w-full rounded border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
           {providerOptions.map((p) => (
-            <option key={p.value} value={p.value}>
-              {p.label}
+            <option key={p.id} value={p.id}>
+              {p.name}
             </option>
           ))}
         </select>
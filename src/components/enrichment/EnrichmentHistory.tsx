@@ -108,6 +108,9 @@ export function EnrichmentHistory({ clienteId }: EnrichmentHistoryProps) {
                       {entry.fieldsRejected !== 1 ? 's' : ''}
                     </span>
                   )}
+                  {entry.promptVersion !== null && (
+                    <span title="Versión de los prompts de IA usada">Prompts v{entry.promptVersion}</span>
+                  )}
                 </div>
 
                 {entry.providers && entry.providers.length > 0 && (
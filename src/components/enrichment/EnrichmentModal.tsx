@@ -4,6 +4,7 @@ import { useState, useMemo, useCallback } from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
 import { XMarkIcon, CheckCircleIcon, ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
 import { useEnrichment, type BatchFieldItem } from '@/hooks/useEnrichment';
+import { useTrabajoEnriquecimiento, trabajoActivo } from '@/hooks/useTrabajosEnriquecimiento';
 import { EnrichmentForm } from './EnrichmentForm';
 import { EnrichmentReview, type ReviewField } from './EnrichmentReview';
 import { EnrichmentProgress } from './shared/EnrichmentProgress';
@@ -48,6 +49,10 @@ interface EnrichmentModalProps {
   clienteIds: string[];
   /** Client names for display */
   clienteNames: string[];
+  /** Bulk over every client matching the /clientes filters, instead of clienteIds */
+  filtros?: Record<string, string>;
+  /** Clients matching the filters, for display */
+  totalFiltrados?: number;
   /** Whether client has a website URL (single-client mode) */
   clientHasWebsite?: boolean;
   /** Pre-selected mode to auto-execute on open */
@@ -80,10 +85,12 @@ export function EnrichmentModal({
   onClose,
   clienteIds,
   clienteNames,
+  filtros,
+  totalFiltrados,
   clientHasWebsite = false,
   defaultMode,
 }: EnrichmentModalProps) {
-  const isBulk = clienteIds.length > 1;
+  const isBulk = clienteIds.length > 1 || !!filtros;
   const singleClienteId = isBulk ? undefined : clienteIds[0];
 
   const enrichment = useEnrichment(singleClienteId);
@@ -95,9 +102,35 @@ export function EnrichmentModal({
   const [step, setStep] = useState<ModalStep>('form');
   const [cooldownConfirmed, setCooldownConfirmed] = useState(false);
   const [enrichError, setEnrichError] = useState<string | null>(null);
-  const [bulkResult, setBulkResult] = useState<BulkResult | null>(null);
+  const [trabajoId, setTrabajoId] = useState<string | null>(null);
+  const [bulkMode, setBulkMode] = useState<'ai' | 'web'>('ai');
   const [autoWebEnrichmentInProgress, setAutoWebEnrichmentInProgress] = useState(false);
 
+  // Bulk runs as a background job: its progress is polled until it finishes
+  const { data: trabajo } = useTrabajoEnriquecimiento(trabajoId);
+  const trabajoTerminado = !!trabajo && !trabajoActivo(trabajo) && trabajo.estado !== 'PAUSADO';
+
+  const bulkResult = useMemo((): BulkResult | null => {
+    if (!trabajo || !trabajoTerminado) return null;
+    return {
+      total: trabajo.total,
+      successful: trabajo.progreso.exitosos,
+      failed: trabajo.progreso.fallidos,
+      results: trabajo.items.map((item) => ({
+        clienteId: item.clienteId,
+        clienteName: item.cliente.nombre,
+        success: item.estado === 'COMPLETADO',
+        aiEnriched: item.aiEnriched,
+        websiteAnalyzed: item.websiteAnalyzed,
+        error: item.error ?? undefined,
+      })),
+    };
+  }, [trabajo, trabajoTerminado]);
+
+  // A finished job moves the loading step on: AI results to review, website analysis to done
+  const currentStep: ModalStep =
+    isBulk && step === 'loading' && bulkResult ? (bulkMode === 'ai' ? 'review' : 'done') : step;
+
   // Build review fields from latest enrichment
   const reviewFields = useMemo((): ReviewField[] => {
     const latest = enrichment.latestEnrichment;
@@ -228,14 +261,13 @@ export function EnrichmentModal({
       try {
         if (isBulk) {
           const result = await enrichment.bulk.enrich({
-            clienteIds,
+            ...(filtros ? { filtros } : { clienteIds }),
             includeAI: true,
             includeWebsiteAnalysis: false,
             provider: options.provider,
           });
-          setBulkResult(result);
-          await enrichment.bulk.refetch();
-          setStep('review');
+          setBulkMode('ai');
+          setTrabajoId(result.trabajo.id);
         } else {
           await enrichment.enrich({
             mode: 'ai',
@@ -255,7 +287,7 @@ export function EnrichmentModal({
         setStep('form');
       }
     },
-    [enrichment, clienteIds, isBulk, cooldownConfirmed]
+    [enrichment, clienteIds, filtros, isBulk, cooldownConfirmed]
   );
 
   const handleSubmitWeb = useCallback(async () => {
@@ -273,12 +305,12 @@ export function EnrichmentModal({
     try {
       if (isBulk) {
         const result = await enrichment.bulk.enrich({
-          clienteIds,
+          ...(filtros ? { filtros } : { clienteIds }),
           includeAI: false,
           includeWebsiteAnalysis: true,
         });
-        setBulkResult(result);
-        setStep('done');
+        setBulkMode('web');
+        setTrabajoId(result.trabajo.id);
       } else {
         await enrichment.enrichWeb();
         setStep('done');
@@ -287,7 +319,7 @@ export function EnrichmentModal({
       setEnrichError(err instanceof Error ? err.message : 'Error en análisis web');
       setStep('form');
     }
-  }, [enrichment, cooldownConfirmed, isBulk, clienteIds]);
+  }, [enrichment, cooldownConfirmed, isBulk, clienteIds, filtros]);
 
   const handleReviewConfirm = useCallback(
     async (fieldNames: string[]) => {
@@ -335,12 +367,14 @@ export function EnrichmentModal({
     setStep('form');
     setCooldownConfirmed(false);
     setEnrichError(null);
-    setBulkResult(null);
+    setTrabajoId(null);
     onClose();
   };
 
   // Title
-  const title = isBulk
+  const title = filtros
+    ? `Enriquecer ${totalFiltrados ?? 'los'} clientes filtrados`
+    : isBulk
     ? `Enriquecer ${clienteIds.length} clientes`
     : `Enriquecer: ${clienteNames[0] ?? 'Cliente'}`;
 
@@ -352,13 +386,13 @@ export function EnrichmentModal({
           className={`fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2
                      w-full max-h-[85vh] overflow-y-auto bg-white rounded-lg shadow-xl
                      animate-in fade-in-0 zoom-in-95 focus:outline-none p-6 ${
-                       step === 'review' && isBulk ? 'max-w-2xl' : 'max-w-lg'
+                       currentStep === 'review' && isBulk ? 'max-w-2xl' : 'max-w-lg'
                      }`}
         >
           <Dialog.Title className="text-lg font-semibold text-gray-900 pr-8">
             {title}
           </Dialog.Title>
-          {isBulk && clienteNames.length <= 5 && (
+          {isBulk && clienteNames.length > 0 && clienteNames.length <= 5 && (
             <Dialog.Description className="mt-1 text-xs text-gray-500">
               {clienteNames.join(', ')}
             </Dialog.Description>
@@ -384,7 +418,7 @@ export function EnrichmentModal({
             )}
 
             {/* Form step */}
-            {step === 'form' && (
+            {currentStep === 'form' && (
               <EnrichmentForm
                 onSubmitAI={handleSubmitAI}
                 onSubmitWeb={handleSubmitWeb}
@@ -397,19 +431,38 @@ export function EnrichmentModal({
             )}
 
             {/* Loading step */}
-            {step === 'loading' && (
-              <EnrichmentProgress
-                isLoading={true}
-                currentStep={
-                  isBulk
-                    ? 'Enriqueciendo clientes en bloque...'
-                    : 'Consultando proveedores de IA...'
-                }
-              />
+            {currentStep === 'loading' && (
+              <>
+                <EnrichmentProgress
+                  isLoading={true}
+                  currentStep={
+                    trabajo?.estado === 'PAUSADO'
+                      ? 'Trabajo pausado desde la administración'
+                      : isBulk
+                      ? 'Enriqueciendo clientes en bloque...'
+                      : undefined
+                  }
+                  progress={isBulk ? undefined : enrichment.progress}
+                  enCurso={trabajo?.enCurso}
+                  providerOptions={enrichment.bulk.availableAIProviders}
+                  clientIndex={
+                    trabajo
+                      ? Math.min(trabajo.total - trabajo.progreso.pendientes, trabajo.total - 1)
+                      : undefined
+                  }
+                  clientTotal={trabajo?.total}
+                />
+                {isBulk && (
+                  <p className="mt-3 text-xs text-gray-500">
+                    El enriquecimiento sigue en segundo plano si cierras esta ventana. Te avisaremos
+                    con una notificación cuando termine.
+                  </p>
+                )}
+              </>
             )}
 
             {/* Review step: single-client */}
-            {step === 'review' && !isBulk && (
+            {currentStep === 'review' && !isBulk && (
               <>
                 {autoWebEnrichmentInProgress && (
                   <div className="mb-4 flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-700">
@@ -429,7 +482,7 @@ export function EnrichmentModal({
             )}
 
             {/* Review step: bulk */}
-            {step === 'review' && isBulk && bulkResult && (
+            {currentStep === 'review' && isBulk && bulkResult && (
               <BulkAccordionReview
                 bulkResult={bulkResult}
                 enrichedClientIds={enrichedClientIds}
@@ -444,7 +497,7 @@ export function EnrichmentModal({
             )}
 
             {/* Done step */}
-            {step === 'done' && (
+            {currentStep === 'done' && (
               <div className="flex flex-col items-center gap-3 py-6">
                 <div className="flex h-12 w-12 items-center justify-center rounded-full bg-green-100">
                   <svg
@@ -466,6 +519,12 @@ export function EnrichmentModal({
                     ? 'Enriquecimiento en bloque completado'
                     : 'Análisis web completado'}
                 </p>
+                {bulkResult && (
+                  <p className="text-xs text-gray-500">
+                    {bulkResult.successful}/{bulkResult.total} exitosos
+                    {bulkResult.failed > 0 && ` · ${bulkResult.failed} con errores`}
+                  </p>
+                )}
                 <button
                   type="button"
                   onClick={handleClose}
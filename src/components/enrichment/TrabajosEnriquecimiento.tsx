@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import {
+  ArrowPathIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  PauseIcon,
+  PlayIcon,
+  QueueListIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import {
+  useAccionTrabajo,
+  useTrabajoEnriquecimiento,
+  useTrabajosEnriquecimiento,
+} from '@/hooks/useTrabajosEnriquecimiento';
+import { describeProgressEvent } from '@/lib/enrichment-progress';
+import type { AccionTrabajo, EstadoTrabajo, TrabajoEnriquecimiento } from '@/types/enrichment';
+
+const ESTADO_LABELS: Record<EstadoTrabajo, { label: string; className: string }> = {
+  PENDIENTE: { label: 'En cola', className: 'bg-gray-100 text-gray-700' },
+  EN_CURSO: { label: 'En curso', className: 'bg-blue-100 text-blue-700' },
+  PAUSADO: { label: 'Pausado', className: 'bg-yellow-100 text-yellow-800' },
+  COMPLETADO: { label: 'Completado', className: 'bg-green-100 text-green-700' },
+  CANCELADO: { label: 'Cancelado', className: 'bg-red-100 text-red-700' },
+};
+
+const CONFIRMACIONES: Partial<Record<AccionTrabajo, string>> = {
+  cancelar: '¿Cancelar el trabajo? Los clientes que todavía no se procesaron quedan sin enriquecer.',
+};
+
+const tipos = (trabajo: TrabajoEnriquecimiento) =>
+  [trabajo.includeAI && 'IA', trabajo.includeWebsiteAnalysis && 'Sitio web'].filter(Boolean).join(' + ');
+
+/**
+ * Bulk enrichment jobs with their progress, controls and failed clients
+ */
+export function TrabajosEnriquecimiento() {
+  const { data: trabajos = [], isLoading, error } = useTrabajosEnriquecimiento();
+  const accion = useAccionTrabajo();
+  const [expandido, setExpandido] = useState<string | null>(null);
+
+  const handleAccion = async (trabajo: TrabajoEnriquecimiento, tipo: AccionTrabajo) => {
+    const confirmacion = CONFIRMACIONES[tipo];
+    if (confirmacion && !confirm(confirmacion)) return;
+    try {
+      await accion.mutateAsync({ id: trabajo.id, accion: tipo });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al actualizar el trabajo');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h3 className="text-lg font-semibold text-gray-900">Enriquecimiento en bloque</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Los trabajos se procesan en segundo plano: pueden pausarse, reanudarse o cancelarse, y los clientes
+          con error se reintentan automáticamente.
+        </p>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 text-center py-6">{error.message}</p>
+      ) : isLoading ? (
+        <p className="text-sm text-gray-500 text-center py-6">Cargando...</p>
+      ) : trabajos.length === 0 ? (
+        <div className="text-center py-10">
+          <QueueListIcon className="mx-auto h-10 w-10 text-gray-300" />
+          <p className="mt-2 text-sm text-gray-500">
+            No hay trabajos. Inícialos desde el listado de <Link href="/clientes" className="text-blue-600 hover:text-blue-800">clientes</Link>.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {trabajos.map((trabajo) => {
+            const { exitosos, fallidos, cancelados } = trabajo.progreso;
+            const procesados = exitosos + fallidos + cancelados;
+            const porcentaje = trabajo.total > 0 ? Math.round((procesados / trabajo.total) * 100) : 0;
+            const estado = ESTADO_LABELS[trabajo.estado];
+
+            return (
+              <li key={trabajo.id} className="px-6 py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${estado.className}`}>
+                        {estado.label}
+                      </span>
+                      <p className="text-sm font-medium text-gray-900">
+                        {trabajo.total} clientes · {tipos(trabajo)}
+                        {trabajo.filtros && <span className="text-gray-500 font-normal"> (filtro del listado)</span>}
+                      </p>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {trabajo.creadoPor.name || trabajo.creadoPor.email} ·{' '}
+                      {format(new Date(trabajo.createdAt), "d MMM, HH:mm", { locale: es })}
+                      {trabajo.finalizadoEn &&
+                        ` · finalizó ${format(new Date(trabajo.finalizadoEn), "d MMM, HH:mm", { locale: es })}`}
+                    </p>
+
+                    <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-gray-200">
+                      <div
+                        className="h-full rounded-full bg-blue-600 transition-all duration-300"
+                        style={{ width: `${porcentaje}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {procesados}/{trabajo.total} procesados · {exitosos} exitosos
+                      {fallidos > 0 && <span className="text-red-600"> · {fallidos} con error</span>}
+                      {cancelados > 0 && ` · ${cancelados} cancelados`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {(trabajo.estado === 'PENDIENTE' || trabajo.estado === 'EN_CURSO') && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAccion(trabajo, 'pausar')} disabled={accion.isPending} title="Pausar">
+                        <PauseIcon className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {trabajo.estado === 'PAUSADO' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAccion(trabajo, 'reanudar')} disabled={accion.isPending} title="Reanudar">
+                        <PlayIcon className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {fallidos > 0 && trabajo.estado !== 'CANCELADO' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAccion(trabajo, 'reintentar')} disabled={accion.isPending} title="Reintentar los clientes con error">
+                        <ArrowPathIcon className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {trabajo.estado !== 'COMPLETADO' && trabajo.estado !== 'CANCELADO' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAccion(trabajo, 'cancelar')} disabled={accion.isPending} title="Cancelar">
+                        <XMarkIcon className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandido(expandido === trabajo.id ? null : trabajo.id)}
+                      title="Ver clientes procesados"
+                    >
+                      {expandido === trabajo.id ? <ChevronUpIcon className="h-4 w-4" /> : <ChevronDownIcon className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+
+                {expandido === trabajo.id && <ItemsTrabajo trabajoId={trabajo.id} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ItemsTrabajo({ trabajoId }: { trabajoId: string }) {
+  const { data: trabajo, isLoading } = useTrabajoEnriquecimiento(trabajoId);
+
+  if (isLoading) {
+    return <p className="mt-3 text-xs text-gray-500">Cargando...</p>;
+  }
+  if (!trabajo || (trabajo.items.length === 0 && trabajo.enCurso.length === 0)) {
+    return <p className="mt-3 text-xs text-gray-500">Todavía no se procesó ningún cliente.</p>;
+  }
+
+  return (
+    <ul className="mt-3 max-h-64 overflow-y-auto rounded-md border border-gray-100 divide-y divide-gray-100">
+      {trabajo.enCurso.map((item) => (
+        <li key={item.clienteId} className="flex items-start justify-between gap-3 px-3 py-2 text-xs bg-blue-50">
+          <Link href={`/clientes/${item.clienteId}`} className="text-blue-600 hover:text-blue-800 min-w-0 truncate">
+            {item.cliente.nombre}
+          </Link>
+          <span className="flex-shrink-0 text-blue-700">
+            {item.progreso ? describeProgressEvent(item.progreso) : 'En curso'}
+          </span>
+        </li>
+      ))}
+      {trabajo.items.map((item) => (
+        <li key={item.id} className="flex items-start justify-between gap-3 px-3 py-2 text-xs">
+          <div className="min-w-0">
+            <Link href={`/clientes/${item.clienteId}`} className="text-blue-600 hover:text-blue-800">
+              {item.cliente.nombre}
+            </Link>
+            {item.error && <p className="text-red-600 truncate" title={item.error}>{item.error}</p>}
+          </div>
+          <span className="flex-shrink-0 text-gray-500">
+            {item.estado === 'COMPLETADO'
+              ? [item.aiEnriched && 'IA', item.websiteAnalyzed && 'Sitio web'].filter(Boolean).join(' + ')
+              : item.estado === 'PENDIENTE'
+              ? `Intento ${item.intentos} fallido, se reintentará`
+              : item.estado === 'ERROR'
+              ? 'Error'
+              : item.estado === 'CANCELADO'
+              ? 'Cancelado'
+              : 'En curso'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
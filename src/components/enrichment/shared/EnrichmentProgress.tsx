@@ -1,15 +1,71 @@
 'use client';
 
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import {
+  CHECK_LABELS,
+  STEP_LABELS,
+  describeProgressEvent,
+  type EnrichmentProgressState,
+} from '@/lib/enrichment-progress';
+import {
+  getAIProviderName,
+  type AIProviderOption,
+  type TrabajoEnriquecimientoDetalle,
+} from '@/types/enrichment';
+
 interface EnrichmentProgressProps {
   isLoading: boolean;
+  /** Overrides the step reported by `progress` */
   currentStep?: string;
   totalProviders?: number;
   completedProviders?: number;
   fieldsFound?: number;
+  /** Single client: live progress streamed by the enrich endpoint */
+  progress?: EnrichmentProgressState;
   /** Bulk mode: current client index */
   clientIndex?: number;
   /** Bulk mode: total clients */
   clientTotal?: number;
+  /** Bulk mode: clients being enriched right now */
+  enCurso?: TrabajoEnriquecimientoDetalle['enCurso'];
+  /** Names of the custom AI providers */
+  providerOptions?: AIProviderOption[];
+}
+
+const STATUS_CLASSES = {
+  started: 'border-blue-200 bg-white text-blue-700',
+  completed: 'border-green-200 bg-green-50 text-green-700',
+  failed: 'border-red-200 bg-red-50 text-red-700',
+};
+
+function Spinner({ className = 'h-4 w-4' }: { className?: string }) {
+  return (
+    <svg
+      className={`${className} animate-spin`}
+      viewBox="0 0 24 24"
+      fill="none"
+    >
+      <circle
+        className="opacity-25"
+        cx="12"
+        cy="12"
+        r="10"
+        stroke="currentColor"
+        strokeWidth="4"
+      />
+      <path
+        className="opacity-75"
+        fill="currentColor"
+        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
+      />
+    </svg>
+  );
+}
+
+function StatusIcon({ status }: { status: keyof typeof STATUS_CLASSES }) {
+  if (status === 'completed') return <CheckCircleIcon className="h-3.5 w-3.5" />;
+  if (status === 'failed') return <XCircleIcon className="h-3.5 w-3.5" />;
+  return <Spinner className="h-3 w-3" />;
 }
 
 /**
@@ -21,14 +77,27 @@ export function EnrichmentProgress({
   totalProviders,
   completedProviders,
   fieldsFound,
+  progress,
   clientIndex,
   clientTotal,
+  enCurso,
+  providerOptions,
 }: EnrichmentProgressProps) {
   if (!isLoading) return null;
 
+  // Streamed progress fills in what was not given
+  const providers = progress?.providers ?? [];
+  const total = totalProviders ?? (providers.length > 0 ? providers.length : undefined);
+  const completed = completedProviders ?? (progress ? providers.filter((p) => p.status !== 'started').length : undefined);
+  // Providers mostly find the same fields: the best answer so far
+  const found = fieldsFound ?? Math.max(0, ...providers.map((p) => p.fieldsFound ?? 0));
+  const step = currentStep ?? (progress ? (progress.step ? STEP_LABELS[progress.step] : 'Iniciando...') : undefined);
+
   const providerPct =
-    totalProviders && completedProviders
-      ? Math.round((completedProviders / totalProviders) * 100)
+    total && completed
+      ? Math.round((completed / total) * 100)
+      : clientTotal && clientIndex != null
+      ? Math.round((clientIndex / clientTotal) * 100)
       : null;
 
   return (
@@ -40,7 +109,7 @@ export function EnrichmentProgress({
         </div>
       )}
 
-      {/* Provider progress bar */}
+      {/* Progress bar: providers, or clients in bulk */}
       <div className="flex flex-col gap-1">
         <div className="h-2 w-full overflow-hidden rounded-full bg-blue-200">
           <div
@@ -48,44 +117,74 @@ export function EnrichmentProgress({
             style={{ width: `${providerPct ?? 0}%` }}
           />
         </div>
-        {totalProviders != null && completedProviders != null && (
+        {total != null && completed != null && (
           <span className="text-xs text-blue-700">
-            {completedProviders} / {totalProviders} proveedores
+            {completed} / {total} proveedores
           </span>
         )}
       </div>
 
       {/* Current step */}
-      {currentStep && (
+      {step && (
         <div className="flex items-center gap-2 text-sm text-blue-700">
-          <svg
-            className="h-4 w-4 animate-spin"
-            viewBox="0 0 24 24"
-            fill="none"
-          >
-            <circle
-              className="opacity-25"
-              cx="12"
-              cy="12"
-              r="10"
-              stroke="currentColor"
-              strokeWidth="4"
-            />
-            <path
-              className="opacity-75"
-              fill="currentColor"
-              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
-            />
-          </svg>
-          {currentStep}
+          <Spinner />
+          {step}
         </div>
       )}
 
+      {/* Providers as they answer */}
+      {providers.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {providers.map((p) => (
+            <span
+              key={p.provider}
+              title={p.error}
+              className={`inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs ${STATUS_CLASSES[p.status]}`}
+            >
+              <StatusIcon status={p.status} />
+              {getAIProviderName(p.provider, providerOptions)}
+              {p.fieldsFound != null && <span className="opacity-75">({p.fieldsFound})</span>}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* External API and website checks */}
+      {progress && progress.checks.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {progress.checks.map((c) => (
+            <span
+              key={c.check}
+              title={c.error}
+              className={`inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs ${STATUS_CLASSES[c.status]}`}
+            >
+              <StatusIcon status={c.status} />
+              {CHECK_LABELS[c.check] ?? c.check}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Bulk: what each client being enriched is doing */}
+      {enCurso && enCurso.length > 0 && (
+        <ul className="flex flex-col gap-1 text-xs text-blue-800">
+          {enCurso.map((item) => (
+            <li key={item.clienteId} className="flex items-center gap-2 min-w-0">
+              <Spinner className="h-3 w-3 flex-shrink-0" />
+              <span className="font-medium truncate">{item.cliente.nombre}</span>
+              <span className="text-blue-600 truncate">
+                {item.progreso ? describeProgressEvent(item.progreso, providerOptions) : 'Iniciando...'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Fields found counter */}
-      {fieldsFound != null && fieldsFound > 0 && (
+      {found > 0 && (
         <span className="text-xs text-blue-600">
-          {fieldsFound} campo{fieldsFound !== 1 ? 's' : ''} encontrado
-          {fieldsFound !== 1 ? 's' : ''}
+          {found} campo{found !== 1 ? 's' : ''} encontrado
+          {found !== 1 ? 's' : ''}
         </span>
       )}
     </div>
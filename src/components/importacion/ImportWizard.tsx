@@ -0,0 +1,353 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import {
+  useLeerArchivoImportacion,
+  useProcesarImportacion,
+} from '@/hooks/useImportacion';
+import type {
+  ArchivoImportacion,
+  CampoImportable,
+  FilaImportacion,
+  ImportResult,
+  MapeoImportacion,
+} from '@/types';
+
+type Paso = 'archivo' | 'mapeo' | 'revision' | 'resultado';
+
+const CAMPOS: { key: CampoImportable; label: string; required?: boolean }[] = [
+  { key: 'nombre', label: 'Nombre', required: true },
+  { key: 'email', label: 'Email' },
+  { key: 'telefono', label: 'Teléfono' },
+  { key: 'whatsapp', label: 'WhatsApp' },
+  { key: 'sitioWeb', label: 'Sitio Web' },
+  { key: 'direccion', label: 'Dirección' },
+  { key: 'ciudad', label: 'Ciudad' },
+  { key: 'provincia', label: 'Provincia' },
+  { key: 'codigoPostal', label: 'Código Postal' },
+  { key: 'industria', label: 'Industria' },
+  { key: 'estado', label: 'Estado' },
+  { key: 'prioridad', label: 'Prioridad' },
+  { key: 'instagram', label: 'Instagram' },
+  { key: 'facebook', label: 'Facebook' },
+  { key: 'linkedin', label: 'LinkedIn' },
+  { key: 'twitter', label: 'Twitter' },
+  { key: 'notas', label: 'Notas' },
+];
+
+const PASOS: { key: Paso; label: string }[] = [
+  { key: 'archivo', label: 'Archivo' },
+  { key: 'mapeo', label: 'Columnas' },
+  { key: 'revision', label: 'Revisión' },
+  { key: 'resultado', label: 'Resultado' },
+];
+
+const MAX_FILAS_PREVIEW = 200;
+
+function getFilaBadge(estado: FilaImportacion['estado']) {
+  switch (estado) {
+    case 'VALIDA':
+      return 'bg-green-100 text-green-800';
+    case 'DUPLICADA':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-red-100 text-red-800';
+  }
+}
+
+export function ImportWizard() {
+  const [paso, setPaso] = useState<Paso>('archivo');
+  const [archivo, setArchivo] = useState<ArchivoImportacion | null>(null);
+  const [mapeo, setMapeo] = useState<MapeoImportacion>({});
+  const [omitirDuplicados, setOmitirDuplicados] = useState(true);
+  const [soloProblemas, setSoloProblemas] = useState(true);
+  const [reporte, setReporte] = useState<ImportResult | null>(null);
+  const [error, setError] = useState('');
+
+  const { mutateAsync: leerArchivo, isPending: isReading } = useLeerArchivoImportacion();
+  const { mutateAsync: procesar, isPending: isProcessing } = useProcesarImportacion();
+
+  const reset = () => {
+    setPaso('archivo');
+    setArchivo(null);
+    setMapeo({});
+    setReporte(null);
+    setError('');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      const data = await leerArchivo(file);
+      setArchivo(data);
+      setMapeo(data.mapeoSugerido);
+      setPaso('mapeo');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al leer el archivo');
+    }
+  };
+
+  const handleMapeoChange = (campo: CampoImportable, columna: string) => {
+    setMapeo(prev => {
+      const next = { ...prev };
+      if (columna) {
+        next[campo] = columna;
+      } else {
+        delete next[campo];
+      }
+      return next;
+    });
+  };
+
+  const ejecutar = async (dryRun: boolean) => {
+    if (!archivo) return;
+    setError('');
+    try {
+      const result = await procesar({
+        nombreArchivo: archivo.nombreArchivo,
+        columnas: archivo.columnas,
+        filas: archivo.filas,
+        mapeo,
+        dryRun,
+        omitirDuplicados,
+      });
+      setReporte(result);
+      setPaso(dryRun ? 'revision' : 'resultado');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al procesar la importación');
+    }
+  };
+
+  const filasVisibles = reporte
+    ? reporte.filas
+        .filter(f => !soloProblemas || f.estado !== 'VALIDA')
+        .slice(0, MAX_FILAS_PREVIEW)
+    : [];
+
+  const aImportar = reporte
+    ? reporte.validas + (omitirDuplicados ? 0 : reporte.duplicadas)
+    : 0;
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border">
+      {/* Steps */}
+      <div className="px-6 py-4 border-b flex items-center gap-6">
+        {PASOS.map((p, i) => (
+          <div key={p.key} className="flex items-center gap-2 text-sm">
+            <span className={`flex h-6 w-6 items-center justify-center rounded-full text-xs font-medium ${
+              paso === p.key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500'
+            }`}>
+              {i + 1}
+            </span>
+            <span className={paso === p.key ? 'font-medium text-gray-900' : 'text-gray-500'}>
+              {p.label}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-800">{error}</div>
+        </div>
+      )}
+
+      <div className="p-6">
+        {/* 1. Upload */}
+        {paso === 'archivo' && (
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg py-12 cursor-pointer hover:border-blue-400">
+            <ArrowUpTrayIcon className="h-10 w-10 text-gray-400" />
+            <span className="mt-2 text-sm font-medium text-gray-900">
+              {isReading ? 'Leyendo archivo...' : 'Selecciona un archivo CSV o XLSX'}
+            </span>
+            <span className="mt-1 text-xs text-gray-500">
+              La primera fila debe contener los nombres de las columnas
+            </span>
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              disabled={isReading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {/* 2. Column mapping */}
+        {paso === 'mapeo' && archivo && (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              <span className="font-medium">{archivo.nombreArchivo}</span>: {archivo.filas.length} fila(s),{' '}
+              {archivo.columnas.length} columna(s). Indica qué columna corresponde a cada campo.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {CAMPOS.map(campo => (
+                <div key={campo.key}>
+                  <label htmlFor={`campo-${campo.key}`} className="block text-xs font-semibold text-gray-700 mb-1">
+                    {campo.label}{campo.required && ' *'}
+                  </label>
+                  <select
+                    id={`campo-${campo.key}`}
+                    value={mapeo[campo.key] ?? ''}
+                    onChange={(e) => handleMapeoChange(campo.key, e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 bg-white focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">No importar</option>
+                    {archivo.columnas.map(columna => (
+                      <option key={columna} value={columna}>{columna}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={omitirDuplicados}
+                onChange={(e) => setOmitirDuplicados(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Omitir duplicados (mismo email, teléfono o nombre)
+            </label>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset}>Cambiar archivo</Button>
+              <Button onClick={() => ejecutar(true)} disabled={!mapeo.nombre || isProcessing}>
+                {isProcessing ? 'Validando...' : 'Validar (dry run)'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* 3. Dry run report / 4. Result */}
+        {(paso === 'revision' || paso === 'resultado') && reporte && (
+          <div className="space-y-6">
+            {paso === 'resultado' && (
+              <div className="flex items-center gap-2 rounded-md bg-green-50 p-4 text-sm text-green-800">
+                <CheckCircleIcon className="h-5 w-5" />
+                Se importaron {reporte.creados} cliente(s). Puedes revertir esta importación desde el historial.
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="rounded-lg border p-4">
+                <p className="text-xs text-gray-500">Filas</p>
+                <p className="text-2xl font-bold text-gray-900">{reporte.totalFilas}</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <CheckCircleIcon className="h-4 w-4 text-green-500" /> Válidas
+                </p>
+                <p className="text-2xl font-bold text-green-700">{reporte.validas}</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <ExclamationTriangleIcon className="h-4 w-4 text-yellow-500" /> Duplicadas
+                </p>
+                <p className="text-2xl font-bold text-yellow-700">{reporte.duplicadas}</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <XCircleIcon className="h-4 w-4 text-red-500" /> Con errores
+                </p>
+                <p className="text-2xl font-bold text-red-700">{reporte.invalidas}</p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-900">Detalle por fila</h4>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={soloProblemas}
+                    onChange={(e) => setSoloProblemas(e.target.checked)}
+                    className="h-3.5 w-3.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Mostrar solo filas con problemas
+                </label>
+              </div>
+              <div className="max-h-96 overflow-y-auto rounded-lg border">
+                <table className="min-w-full divide-y divide-gray-200 text-xs">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Fila</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Nombre</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Estado</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Detalle</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {filasVisibles.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-3 py-6 text-center text-gray-500">
+                          No hay filas con problemas
+                        </td>
+                      </tr>
+                    ) : (
+                      filasVisibles.map(fila => (
+                        <tr key={fila.fila}>
+                          <td className="px-3 py-2 text-gray-500">{fila.fila}</td>
+                          <td className="px-3 py-2 text-gray-900">{fila.nombre || '-'}</td>
+                          <td className="px-3 py-2">
+                            <span className={`inline-flex px-1.5 py-0.5 rounded-full font-medium ${getFilaBadge(fila.estado)}`}>
+                              {fila.estado}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {fila.errores.join('; ')}
+                            {fila.duplicado && (
+                              <>
+                                Duplicado por {fila.duplicado.motivo} de{' '}
+                                {fila.duplicado.clienteId ? (
+                                  <Link href={`/clientes/${fila.duplicado.clienteId}`} className="text-blue-600 hover:underline">
+                                    {fila.duplicado.nombre}
+                                  </Link>
+                                ) : (
+                                  `"${fila.duplicado.nombre}" (en el archivo)`
+                                )}
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {paso === 'revision' ? (
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setPaso('mapeo')} disabled={isProcessing}>
+                  Volver al mapeo
+                </Button>
+                <Button onClick={() => ejecutar(false)} disabled={aImportar === 0 || isProcessing}>
+                  {isProcessing ? 'Importando...' : `Importar ${aImportar} cliente(s)`}
+                </Button>
+              </div>
+            ) : (
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={reset}>Importar otro archivo</Button>
+                <Link href="/clientes">
+                  <Button>Ver clientes</Button>
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
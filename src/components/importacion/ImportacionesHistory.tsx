@@ -0,0 +1,95 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { useImportaciones, useRevertirImportacion } from '@/hooks/useImportacion';
+import type { ImportacionResumen } from '@/types';
+
+export function ImportacionesHistory() {
+  const router = useRouter();
+  const { data: importaciones, isLoading, error } = useImportaciones();
+  const { mutateAsync: revertir, isPending, variables } = useRevertirImportacion();
+
+  const handleRevertir = async (importacion: ImportacionResumen) => {
+    const aviso =
+      `¿Revertir la importación "${importacion.nombreArchivo}"? Se eliminarán ${importacion.creados} cliente(s) ` +
+      'junto con las actividades que se les registraron después, aunque alguien ya haya trabajado con ellos. ' +
+      'Los clientes en los que se fusionaron otros se conservan.';
+    if (!confirm(aviso)) {
+      return;
+    }
+    try {
+      const { conservados } = await revertir(importacion.id);
+      if (conservados > 0) {
+        alert(`Se conservaron ${conservados} cliente(s) porque se les fusionaron otros clientes.`);
+      }
+      router.refresh();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Error al revertir la importación');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Error al cargar el historial de importaciones</p>;
+  }
+
+  if (!importaciones || importaciones.length === 0) {
+    return <p className="text-sm text-gray-500">Todavía no se importaron clientes.</p>;
+  }
+
+  return (
+    <div className="overflow-hidden rounded-lg border bg-white">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Archivo</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fecha</th>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Usuario</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Creados</th>
+            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Omitidos</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {importaciones.map(importacion => (
+            <tr key={importacion.id}>
+              <td className="px-4 py-2 text-gray-900">{importacion.nombreArchivo}</td>
+              <td className="px-4 py-2 text-gray-500">
+                {new Date(importacion.createdAt).toLocaleString('es-ES')}
+              </td>
+              <td className="px-4 py-2 text-gray-500">
+                {importacion.usuario.name || importacion.usuario.email}
+              </td>
+              <td className="px-4 py-2 text-right text-gray-900">{importacion.creados}</td>
+              <td className="px-4 py-2 text-right text-gray-500">{importacion.omitidos}</td>
+              <td className="px-4 py-2 text-right">
+                {importacion.estado === 'REVERTIDA' ? (
+                  <span className="text-xs text-gray-400">Revertida</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevertir(importacion)}
+                    disabled={isPending && variables === importacion.id}
+                  >
+                    <ArrowUturnLeftIcon className="h-4 w-4" />
+                    Revertir
+                  </Button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { EventoCalendario } from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+export interface CalendarioFiltros {
+  desde: Date;
+  hasta: Date;
+  // "me" (default), "todos" or a user id
+  usuario?: string;
+}
+
+const CALENDARIO_QUERY_KEY = ['calendario'];
+const SUSCRIPCION_QUERY_KEY = ['calendario-suscripcion'];
+
+async function fetchEventos({ desde, hasta, usuario }: CalendarioFiltros): Promise<EventoCalendario[]> {
+  const params = new URLSearchParams({ desde: desde.toISOString(), hasta: hasta.toISOString() });
+  if (usuario) params.set('usuario', usuario);
+
+  const response = await fetch(`/api/calendario?${params.toString()}`);
+  const data: ApiResponse<EventoCalendario[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar el calendario');
+  }
+
+  // Dates arrive as ISO strings
+  return (data.data ?? []).map((evento) => ({
+    ...evento,
+    inicio: new Date(evento.inicio),
+    fin: evento.fin ? new Date(evento.fin) : null,
+  }));
+}
+
+async function reprogramarEvento(evento: EventoCalendario, inicio: Date): Promise<void> {
+  // Tasks move their due date (the reminder follows); meetings keep their duration
+  const response = evento.origen === 'tarea'
+    ? await fetch(`/api/tareas/${evento.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ vencimiento: inicio.toISOString() }),
+    })
+    : await fetch(`/api/actividades/${evento.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fecha: inicio.toISOString() }),
+    });
+  const data: ApiResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al reprogramar');
+  }
+}
+
+async function fetchSuscripcion(regenerar: boolean): Promise<string> {
+  const response = await fetch('/api/calendario/suscripcion', { method: regenerar ? 'POST' : 'GET' });
+  const data: ApiResponse<{ url: string }> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al obtener la URL del calendario');
+  }
+
+  return data.data!.url;
+}
+
+export function useEventosCalendario(filtros: CalendarioFiltros) {
+  return useQuery({
+    queryKey: [...CALENDARIO_QUERY_KEY, filtros.desde.toISOString(), filtros.hasta.toISOString(), filtros.usuario],
+    queryFn: () => fetchEventos(filtros),
+  });
+}
+
+export function useReprogramarEvento() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ evento, inicio }: { evento: EventoCalendario; inicio: Date }) => reprogramarEvento(evento, inicio),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CALENDARIO_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['tareas'] });
+    },
+  });
+}
+
+export function useSuscripcionCalendario(enabled: boolean) {
+  return useQuery({
+    queryKey: SUSCRIPCION_QUERY_KEY,
+    queryFn: () => fetchSuscripcion(false),
+    enabled,
+    staleTime: Infinity,
+  });
+}
+
+export function useRegenerarSuscripcion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => fetchSuscripcion(true),
+    onSuccess: (url) => {
+      queryClient.setQueryData(SUSCRIPCION_QUERY_KEY, url);
+    },
+  });
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  ContactoCliente,
+  CreateContactoClienteDTO,
+  UpdateContactoClienteDTO,
+} from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+const CONTACTOS_QUERY_KEY = ['contactos'];
+
+async function fetchContactos(clienteId: string): Promise<ContactoCliente[]> {
+  const response = await fetch(`/api/clientes/${clienteId}/contactos`);
+  const data: ApiResponse<ContactoCliente[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar los contactos');
+  }
+
+  return data.data ?? [];
+}
+
+async function guardarContacto(
+  clienteId: string,
+  dto: CreateContactoClienteDTO | UpdateContactoClienteDTO,
+  contactoId?: string
+): Promise<ContactoCliente> {
+  const url = contactoId
+    ? `/api/clientes/${clienteId}/contactos/${contactoId}`
+    : `/api/clientes/${clienteId}/contactos`;
+
+  const response = await fetch(url, {
+    method: contactoId ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<ContactoCliente> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al guardar el contacto');
+  }
+
+  return data.data!;
+}
+
+async function eliminarContacto(clienteId: string, contactoId: string): Promise<void> {
+  const response = await fetch(`/api/clientes/${clienteId}/contactos/${contactoId}`, {
+    method: 'DELETE',
+  });
+  const data: ApiResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al eliminar el contacto');
+  }
+}
+
+export function useContactos(clienteId: string, enabled = true) {
+  return useQuery({
+    queryKey: [...CONTACTOS_QUERY_KEY, clienteId],
+    queryFn: () => fetchContactos(clienteId),
+    enabled,
+  });
+}
+
+export function useCrearContacto(clienteId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (dto: CreateContactoClienteDTO) => guardarContacto(clienteId, dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...CONTACTOS_QUERY_KEY, clienteId] });
+    },
+  });
+}
+
+export function useActualizarContacto(clienteId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, dto }: { id: string; dto: UpdateContactoClienteDTO }) =>
+      guardarContacto(clienteId, dto, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...CONTACTOS_QUERY_KEY, clienteId] });
+    },
+  });
+}
+
+export function useEliminarContacto(clienteId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (contactoId: string) => eliminarContacto(clienteId, contactoId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...CONTACTOS_QUERY_KEY, clienteId] });
+    },
+  });
+}
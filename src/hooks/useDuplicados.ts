@@ -0,0 +1,64 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { CampoFusionable, FusionResult, OrigenCampoFusion, ParDuplicado } from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+export interface FusionarClientesDTO {
+  principalId: string;
+  secundarioId: string;
+  campos: Partial<Record<CampoFusionable, OrigenCampoFusion>>;
+}
+
+const DUPLICADOS_QUERY_KEY = ['duplicados'];
+
+async function fetchDuplicados(minScore: number): Promise<ParDuplicado[]> {
+  const response = await fetch(`/api/clientes/duplicados?minScore=${minScore}`);
+  const data: ApiResponse<ParDuplicado[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al buscar duplicados');
+  }
+
+  return data.data ?? [];
+}
+
+async function fusionarClientes(dto: FusionarClientesDTO): Promise<FusionResult> {
+  const response = await fetch('/api/clientes/duplicados/fusionar', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<FusionResult> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al fusionar los clientes');
+  }
+
+  return data.data!;
+}
+
+export function useDuplicados(minScore: number) {
+  return useQuery({
+    queryKey: [...DUPLICADOS_QUERY_KEY, minScore],
+    queryFn: () => fetchDuplicados(minScore),
+    staleTime: 60_000, // 1 minute
+  });
+}
+
+export function useFusionarClientes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: fusionarClientes,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DUPLICADOS_QUERY_KEY });
+    },
+  });
+}
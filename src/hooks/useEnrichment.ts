@@ -9,11 +9,19 @@
  */
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { leerEventos } from '@/lib/sse';
+import {
+  INITIAL_ENRICHMENT_PROGRESS,
+  applyProgressEvent,
+  type EnrichmentProgressState,
+} from '@/lib/enrichment-progress';
 import type {
   AIProvider,
+  AIProviderOption,
   EnrichmentMode,
+  EnrichmentProgressEvent,
   FieldReviewAction,
   FieldReviewStatus,
   EnrichmentHistoryEntry,
@@ -21,6 +29,7 @@ import type {
   ClienteEnrichmentData,
   WebsiteAnalysisData,
   CooldownInfo,
+  TrabajoEnriquecimiento,
 } from '@/types/enrichment';
 
 // ─── API response shapes ───────────────────────────────────────────────
@@ -104,26 +113,19 @@ export interface ReviewFieldsOptions {
 
 // ─── Bulk types ────────────────────────────────────────────────────────
 
+/** A selection or the /clientes filters */
 export interface BulkEnrichmentOptions {
-  clienteIds: string[];
+  clienteIds?: string[];
+  filtros?: Record<string, string>;
   includeAI?: boolean;
   includeWebsiteAnalysis?: boolean;
   provider?: AIProvider | 'auto';
 }
 
+/** POST /api/admin/bulk-enrich: the job is processed in the background */
 interface BulkEnrichmentResult {
   success: boolean;
-  total: number;
-  successful: number;
-  failed: number;
-  results: Array<{
-    clienteId: string;
-    clienteName: string;
-    success: boolean;
-    aiEnriched?: boolean;
-    websiteAnalyzed?: boolean;
-    error?: string;
-  }>;
+  trabajo: TrabajoEnriquecimiento;
 }
 
 interface BulkStatsResponse {
@@ -167,7 +169,7 @@ interface BulkStatsResponse {
     currentDescription: string | null;
     fieldStatuses: Record<string, string> | null;
   }>;
-  availableAIProviders: string[];
+  availableAIProviders: AIProviderOption[];
 }
 
 export interface BatchFieldItem {
@@ -196,14 +198,16 @@ async function fetchEnrichment(
   return res.json();
 }
 
+/** Streams the progress (SSE): progress events, then the result or the error */
 async function postEnrich(
   clienteId: string,
   options: EnrichOptions,
+  onProgress?: (event: EnrichmentProgressEvent) => void,
   signal?: AbortSignal
 ): Promise<EnrichPostResponse> {
   const res = await fetch(`/api/clientes/${clienteId}/enrich`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
     body: JSON.stringify(options),
     signal,
   });
@@ -211,7 +215,17 @@ async function postEnrich(
     const err = await res.json();
     throw new Error(err.error || 'Error en enriquecimiento');
   }
-  return res.json();
+
+  const outcome: { result?: EnrichPostResponse; error?: string } = {};
+  await leerEventos(res, (event, data) => {
+    if (event === 'progress') onProgress?.(data as EnrichmentProgressEvent);
+    else if (event === 'done') outcome.result = data as EnrichPostResponse;
+    else if (event === 'error') outcome.error = (data as { error?: string }).error;
+  });
+  if (!outcome.result) {
+    throw new Error(outcome.error || 'Error en enriquecimiento');
+  }
+  return outcome.result;
 }
 
 async function patchReview(
@@ -281,6 +295,9 @@ async function patchBulkReview(
 export function useEnrichment(clienteId?: string) {
   const queryClient = useQueryClient();
 
+  // Live progress of the running single-client enrichment
+  const [progress, setProgress] = useState<EnrichmentProgressState>(INITIAL_ENRICHMENT_PROGRESS);
+
   // ── Single-client query (only when clienteId provided) ──
   const dataQuery = useQuery({
     queryKey: ['enrichment', clienteId],
@@ -315,7 +332,10 @@ export function useEnrichment(clienteId?: string) {
   const enrichMutation = useMutation({
     mutationFn: (opts: EnrichOptions) => {
       if (!clienteId) throw new Error('clienteId requerido');
-      return postEnrich(clienteId, opts);
+      setProgress(INITIAL_ENRICHMENT_PROGRESS);
+      return postEnrich(clienteId, opts, (event) =>
+        setProgress((prev) => applyProgressEvent(prev, event))
+      );
     },
     onSuccess: invalidateSingle,
   });
@@ -331,7 +351,10 @@ export function useEnrichment(clienteId?: string) {
   // ── Bulk mutations ──
   const bulkEnrichMutation = useMutation({
     mutationFn: (opts: BulkEnrichmentOptions) => postBulkEnrich(opts),
-    onSuccess: invalidateBulk,
+    onSuccess: () => {
+      invalidateBulk();
+      queryClient.invalidateQueries({ queryKey: ['trabajos-enriquecimiento'] });
+    },
   });
 
   const bulkConfirmMutation = useMutation({
@@ -475,6 +498,7 @@ export function useEnrichment(clienteId?: string) {
 
     // ── Mutation states ──
     isEnriching: enrichMutation.isPending,
+    progress,
     isReviewing: reviewMutation.isPending,
     enrichError: enrichMutation.error,
     enrichResult: enrichMutation.data as EnrichPostResponse | undefined,
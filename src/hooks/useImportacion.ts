@@ -0,0 +1,121 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  ArchivoImportacion,
+  ImportacionResumen,
+  ImportResult,
+  MapeoImportacion,
+} from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+export interface ProcesarImportacionDTO {
+  nombreArchivo: string;
+  columnas: string[];
+  filas: string[][];
+  mapeo: MapeoImportacion;
+  dryRun: boolean;
+  omitirDuplicados: boolean;
+}
+
+const IMPORTACIONES_QUERY_KEY = ['importaciones'];
+
+async function fetchImportaciones(): Promise<ImportacionResumen[]> {
+  const response = await fetch('/api/clientes/importar');
+  const data: ApiResponse<ImportacionResumen[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al obtener las importaciones');
+  }
+
+  return data.data ?? [];
+}
+
+async function leerArchivo(file: File): Promise<ArchivoImportacion> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch('/api/clientes/importar/archivo', {
+    method: 'POST',
+    body: formData,
+  });
+  const data: ApiResponse<ArchivoImportacion> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al leer el archivo');
+  }
+
+  return data.data!;
+}
+
+async function procesarImportacion(dto: ProcesarImportacionDTO): Promise<ImportResult> {
+  const response = await fetch('/api/clientes/importar', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<ImportResult> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al procesar la importación');
+  }
+
+  return data.data!;
+}
+
+async function revertirImportacion(id: string): Promise<{ eliminados: number; conservados: number }> {
+  const response = await fetch(`/api/clientes/importar/${id}`, {
+    method: 'DELETE',
+  });
+  const data: ApiResponse<{ eliminados: number; conservados: number }> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al revertir la importación');
+  }
+
+  return data.data!;
+}
+
+export function useImportaciones() {
+  return useQuery({
+    queryKey: IMPORTACIONES_QUERY_KEY,
+    queryFn: fetchImportaciones,
+    staleTime: 30_000, // 30 seconds
+  });
+}
+
+export function useLeerArchivoImportacion() {
+  return useMutation({
+    mutationFn: leerArchivo,
+  });
+}
+
+export function useProcesarImportacion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: procesarImportacion,
+    onSuccess: (_, dto) => {
+      if (!dto.dryRun) {
+        queryClient.invalidateQueries({ queryKey: IMPORTACIONES_QUERY_KEY });
+      }
+    },
+  });
+}
+
+export function useRevertirImportacion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revertirImportacion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: IMPORTACIONES_QUERY_KEY });
+    },
+  });
+}
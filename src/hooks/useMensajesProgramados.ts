@@ -0,0 +1,77 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Mensaje, UpdateMensajeProgramadoDTO } from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+const PROGRAMADOS_QUERY_KEY = ['mensajes-programados'];
+
+async function fetchProgramados(usuario: string): Promise<Mensaje[]> {
+  const response = await fetch(`/api/mensajes/programados?usuario=${encodeURIComponent(usuario)}`);
+  const data: ApiResponse<Mensaje[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar los envíos programados');
+  }
+
+  return data.data ?? [];
+}
+
+async function actualizarProgramado(id: string, dto: UpdateMensajeProgramadoDTO): Promise<Mensaje> {
+  const response = await fetch(`/api/mensajes/programados/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<Mensaje> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al actualizar el envío');
+  }
+
+  return data.data!;
+}
+
+async function cancelarProgramado(id: string): Promise<void> {
+  const response = await fetch(`/api/mensajes/programados/${id}`, { method: 'DELETE' });
+  const data: ApiResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cancelar el envío');
+  }
+}
+
+export function useMensajesProgramados(usuario: string) {
+  return useQuery({
+    queryKey: [...PROGRAMADOS_QUERY_KEY, usuario],
+    queryFn: () => fetchProgramados(usuario),
+  });
+}
+
+export function useActualizarProgramado() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, dto }: { id: string; dto: UpdateMensajeProgramadoDTO }) => actualizarProgramado(id, dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROGRAMADOS_QUERY_KEY });
+    },
+  });
+}
+
+export function useCancelarProgramado() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => cancelarProgramado(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROGRAMADOS_QUERY_KEY });
+    },
+  });
+}
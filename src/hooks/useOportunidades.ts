@@ -0,0 +1,104 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  Oportunidad,
+  CreateOportunidadDTO,
+  UpdateOportunidadDTO,
+} from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+const OPORTUNIDADES_QUERY_KEY = ['oportunidads'];
+
+async function fetchOportunidads(clienteId: string): Promise<Oportunidad[]> {
+  const response = await fetch(`/api/clientes/${clienteId}/oportunidads`);
+  const data: ApiResponse<Oportunidad[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar las oportunidades');
+  }
+
+  return data.data ?? [];
+}
+
+async function guardarOportunidad(
+  clienteId: string,
+  dto: CreateOportunidadDTO | UpdateOportunidadDTO,
+  oportunidadId?: string
+): Promise<Oportunidad> {
+  const url = oportunidadId
+    ? `/api/clientes/${clienteId}/oportunidads/${oportunidadId}`
+    : `/api/clientes/${clienteId}/oportunidads`;
+
+  const response = await fetch(url, {
+    method: oportunidadId ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<Oportunidad> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al guardar la oportunidad');
+  }
+
+  return data.data!;
+}
+
+async function eliminarOportunidad(clienteId: string, oportunidadId: string): Promise<void> {
+  const response = await fetch(`/api/clientes/${clienteId}/oportunidads/${oportunidadId}`, {
+    method: 'DELETE',
+  });
+  const data: ApiResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al eliminar la oportunidad');
+  }
+}
+
+export function useOportunidades(clienteId: string, enabled = true) {
+  return useQuery({
+    queryKey: [...OPORTUNIDADES_QUERY_KEY, clienteId],
+    queryFn: () => fetchOportunidads(clienteId),
+    enabled,
+  });
+}
+
+export function useCrearOportunidad(clienteId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (dto: CreateOportunidadDTO) => guardarOportunidad(clienteId, dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...OPORTUNIDADES_QUERY_KEY, clienteId] });
+    },
+  });
+}
+
+export function useActualizarOportunidad(clienteId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, dto }: { id: string; dto: UpdateOportunidadDTO }) =>
+      guardarOportunidad(clienteId, dto, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...OPORTUNIDADES_QUERY_KEY, clienteId] });
+    },
+  });
+}
+
+export function useEliminarOportunidad(clienteId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (oportunidadId: string) => eliminarOportunidad(clienteId, oportunidadId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...OPORTUNIDADES_QUERY_KEY, clienteId] });
+    },
+  });
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { EstadoCliente, EtapaPipeline } from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+const PIPELINE_QUERY_KEY = ['pipeline-settings'];
+
+async function fetchEtapas(): Promise<EtapaPipeline[]> {
+  const response = await fetch('/api/admin/settings/pipeline');
+  const data: ApiResponse<EtapaPipeline[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al obtener la configuracion del pipeline');
+  }
+
+  return data.data ?? [];
+}
+
+async function updateLimites(
+  limites: Partial<Record<EstadoCliente, number | null>>
+): Promise<EtapaPipeline[]> {
+  const response = await fetch('/api/admin/settings/pipeline', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ limites }),
+  });
+  const data: ApiResponse<EtapaPipeline[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al actualizar los límites');
+  }
+
+  return data.data!;
+}
+
+export function usePipelineSettings() {
+  return useQuery({
+    queryKey: PIPELINE_QUERY_KEY,
+    queryFn: fetchEtapas,
+    staleTime: 60_000, // 1 minute
+  });
+}
+
+export function useUpdatePipelineLimites() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateLimites,
+    onSuccess: (data) => {
+      queryClient.setQueryData(PIPELINE_QUERY_KEY, data);
+    },
+  });
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  EstadisticasVariante,
+  VariantePlantilla,
+  VariantePlantillaDTO,
+  VersionPlantilla,
+} from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+interface VariantesConEstadisticas {
+  variantes: VariantePlantilla[];
+  estadisticas: EstadisticasVariante[];
+}
+
+const VERSIONES_QUERY_KEY = ['plantilla-versiones'];
+const VARIANTES_QUERY_KEY = ['plantilla-variantes'];
+
+async function fetchVersiones(plantillaId: string): Promise<VersionPlantilla[]> {
+  const response = await fetch(`/api/plantillas/${plantillaId}/versiones`);
+  const data: ApiResponse<VersionPlantilla[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar las versiones');
+  }
+
+  return data.data ?? [];
+}
+
+async function fetchVariantes(plantillaId: string): Promise<VariantesConEstadisticas> {
+  const response = await fetch(`/api/plantillas/${plantillaId}/variantes`);
+  const data: ApiResponse<VariantesConEstadisticas> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar las variantes');
+  }
+
+  return data.data ?? { variantes: [], estadisticas: [] };
+}
+
+async function crearVariante(plantillaId: string, dto: VariantePlantillaDTO): Promise<VariantePlantilla> {
+  const response = await fetch(`/api/plantillas/${plantillaId}/variantes`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<VariantePlantilla> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al crear la variante');
+  }
+
+  return data.data!;
+}
+
+async function actualizarVariante(
+  plantillaId: string,
+  varianteId: string,
+  dto: VariantePlantillaDTO
+): Promise<VariantePlantilla> {
+  const response = await fetch(`/api/plantillas/${plantillaId}/variantes/${varianteId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<VariantePlantilla> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al actualizar la variante');
+  }
+
+  return data.data!;
+}
+
+export function useVersionesPlantilla(plantillaId: string) {
+  return useQuery({
+    queryKey: [...VERSIONES_QUERY_KEY, plantillaId],
+    queryFn: () => fetchVersiones(plantillaId),
+  });
+}
+
+export function useVariantesPlantilla(plantillaId: string) {
+  return useQuery({
+    queryKey: [...VARIANTES_QUERY_KEY, plantillaId],
+    queryFn: () => fetchVariantes(plantillaId),
+  });
+}
+
+export function useCrearVariante(plantillaId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (dto: VariantePlantillaDTO) => crearVariante(plantillaId, dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: VARIANTES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: VERSIONES_QUERY_KEY });
+    },
+  });
+}
+
+export function useActualizarVariante(plantillaId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, dto }: { id: string; dto: VariantePlantillaDTO }) => actualizarVariante(plantillaId, id, dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: VARIANTES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: VERSIONES_QUERY_KEY });
+    },
+  });
+}
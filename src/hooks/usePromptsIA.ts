@@ -0,0 +1,103 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Cliente } from '@/types';
+import type { CrearVersionPromptIADTO, VersionPromptIA } from '@/types/enrichment';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+const PROMPTS_IA_QUERY_KEY = ['prompts-ia'];
+
+async function fetchVersionesPromptIA(): Promise<VersionPromptIA[]> {
+  const response = await fetch('/api/admin/settings/prompts');
+  const data: ApiResponse<VersionPromptIA[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al obtener los prompts de IA');
+  }
+
+  return data.data ?? [];
+}
+
+async function crearVersionPromptIA(dto: CrearVersionPromptIADTO): Promise<VersionPromptIA> {
+  const response = await fetch('/api/admin/settings/prompts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<VersionPromptIA> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al guardar los prompts de IA');
+  }
+
+  return data.data!;
+}
+
+async function activarVersionPromptIA(id: string): Promise<void> {
+  const response = await fetch(`/api/admin/settings/prompts/${id}/activar`, {
+    method: 'POST',
+  });
+  const data: ApiResponse<{ id: string; numero: number }> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al restaurar la versión');
+  }
+}
+
+// Clients to preview the prompts with
+async function buscarClientes(search: string): Promise<Cliente[]> {
+  const params = new URLSearchParams({ search, limit: '8' });
+  const response = await fetch(`/api/clientes?${params}`);
+  const data: ApiResponse<Cliente[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al buscar clientes');
+  }
+
+  return data.data ?? [];
+}
+
+export function useVersionesPromptIA() {
+  return useQuery({
+    queryKey: PROMPTS_IA_QUERY_KEY,
+    queryFn: fetchVersionesPromptIA,
+    staleTime: 30_000,
+  });
+}
+
+export function useCrearVersionPromptIA() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: crearVersionPromptIA,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROMPTS_IA_QUERY_KEY });
+    },
+  });
+}
+
+export function useActivarVersionPromptIA() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: activarVersionPromptIA,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROMPTS_IA_QUERY_KEY });
+    },
+  });
+}
+
+export function useClientesVistaPrevia(search: string) {
+  return useQuery({
+    queryKey: ['prompts-ia-clientes', search],
+    queryFn: () => buscarClientes(search),
+    enabled: search.trim().length >= 2,
+    staleTime: 30_000,
+  });
+}
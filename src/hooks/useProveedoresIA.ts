@@ -0,0 +1,116 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ActualizarProveedorIADTO, CrearProveedorIADTO, ProveedorIA } from '@/types/enrichment';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+const PROVEEDORES_IA_QUERY_KEY = ['proveedores-ia'];
+
+async function fetchProveedoresIA(): Promise<ProveedorIA[]> {
+  const response = await fetch('/api/admin/proveedores-ia');
+  const data: ApiResponse<ProveedorIA[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al obtener los proveedores de IA');
+  }
+
+  return data.data ?? [];
+}
+
+async function createProveedorIA(dto: CrearProveedorIADTO): Promise<ProveedorIA> {
+  const response = await fetch('/api/admin/proveedores-ia', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<ProveedorIA> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al crear el proveedor de IA');
+  }
+
+  return data.data!;
+}
+
+async function updateProveedorIA({
+  id,
+  dto,
+}: {
+  id: string;
+  dto: ActualizarProveedorIADTO;
+}): Promise<ProveedorIA> {
+  const response = await fetch(`/api/admin/proveedores-ia/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<ProveedorIA> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al actualizar el proveedor de IA');
+  }
+
+  return data.data!;
+}
+
+async function deleteProveedorIA(id: string): Promise<void> {
+  const response = await fetch(`/api/admin/proveedores-ia/${id}`, {
+    method: 'DELETE',
+  });
+  const data: ApiResponse<void> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al eliminar el proveedor de IA');
+  }
+}
+
+export function useProveedoresIA() {
+  return useQuery({
+    queryKey: PROVEEDORES_IA_QUERY_KEY,
+    queryFn: fetchProveedoresIA,
+    staleTime: 30_000,
+  });
+}
+
+// The enrichment form lists the available providers
+function useInvalidarProveedores() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: PROVEEDORES_IA_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ['bulk-enrichment-stats'] });
+  };
+}
+
+export function useCreateProveedorIA() {
+  const invalidar = useInvalidarProveedores();
+
+  return useMutation({
+    mutationFn: createProveedorIA,
+    onSuccess: invalidar,
+  });
+}
+
+export function useUpdateProveedorIA() {
+  const invalidar = useInvalidarProveedores();
+
+  return useMutation({
+    mutationFn: updateProveedorIA,
+    onSuccess: invalidar,
+  });
+}
+
+export function useDeleteProveedorIA() {
+  const invalidar = useInvalidarProveedores();
+
+  return useMutation({
+    mutationFn: deleteProveedorIA,
+    onSuccess: invalidar,
+  });
+}
@@ -3,6 +3,7 @@
  */
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ResumenUsoIA } from '@/types/enrichment';
 
 export interface QuotaInfo {
   service: string;
@@ -97,6 +98,31 @@ async function updateAlertThreshold(
   return { service: data.data.service, threshold: data.data.threshold };
 }
 
+async function fetchUsoIA(days: number): Promise<ResumenUsoIA> {
+  const response = await fetch(`/api/quotas/uso-ia?days=${days}`);
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al obtener el gasto de IA');
+  }
+
+  return data.data;
+}
+
+async function updatePresupuestoIA(provider: string, limiteMensualUsd: number | null): Promise<void> {
+  const response = await fetch('/api/quotas/uso-ia', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ provider, limiteMensualUsd }),
+  });
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al actualizar el presupuesto');
+  }
+}
+
 async function resetQuota(service: string): Promise<void> {
   const response = await fetch('/api/quotas', {
     method: 'POST',
@@ -150,6 +176,32 @@ export function useUpdateAlertThreshold() {
   });
 }
 
+/**
+ * Hook to get AI token usage and spend
+ */
+export function useUsoIA(days: number = 7) {
+  return useQuery({
+    queryKey: ['uso-ia', days],
+    queryFn: () => fetchUsoIA(days),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Hook to set or remove a provider's monthly AI budget
+ */
+export function useUpdatePresupuestoIA() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ provider, limiteMensualUsd }: { provider: string; limiteMensualUsd: number | null }) =>
+      updatePresupuestoIA(provider, limiteMensualUsd),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['uso-ia'] });
+    },
+  });
+}
+
 /**
  * Hook to reset a quota
  */
@@ -0,0 +1,89 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Permission, PermissionMatrix } from '@/lib/rbac';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+interface UpdateRolePermissionsDTO {
+  role: 'MANAGER' | 'AGENT';
+  permissions: Permission[];
+}
+
+const ROLE_PERMISSIONS_QUERY_KEY = ['role-permissions'];
+
+async function fetchMatrix(): Promise<PermissionMatrix> {
+  const response = await fetch('/api/admin/roles');
+  const data: ApiResponse<PermissionMatrix> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al obtener los permisos');
+  }
+
+  return data.data!;
+}
+
+async function updateRolePermissions(
+  dto: UpdateRolePermissionsDTO
+): Promise<PermissionMatrix> {
+  const response = await fetch('/api/admin/roles', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<PermissionMatrix> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al actualizar los permisos');
+  }
+
+  return data.data!;
+}
+
+async function resetMatrix(): Promise<PermissionMatrix> {
+  const response = await fetch('/api/admin/roles', {
+    method: 'POST',
+  });
+  const data: ApiResponse<PermissionMatrix> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al restaurar los permisos');
+  }
+
+  return data.data!;
+}
+
+export function useRolePermissions() {
+  return useQuery({
+    queryKey: ROLE_PERMISSIONS_QUERY_KEY,
+    queryFn: fetchMatrix,
+    staleTime: 60_000, // 1 minute
+  });
+}
+
+export function useUpdateRolePermissions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateRolePermissions,
+    onSuccess: (data) => {
+      queryClient.setQueryData(ROLE_PERMISSIONS_QUERY_KEY, data);
+    },
+  });
+}
+
+export function useResetRolePermissions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: resetMatrix,
+    onSuccess: (data) => {
+      queryClient.setQueryData(ROLE_PERMISSIONS_QUERY_KEY, data);
+    },
+  });
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type {
+  CreateSecuenciaDTO,
+  InscripcionResult,
+  InscripcionSecuencia,
+  Secuencia,
+  UpdateSecuenciaDTO,
+} from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+const SECUENCIAS_QUERY_KEY = ['secuencias'];
+const INSCRIPCIONES_QUERY_KEY = ['secuencias-inscripciones'];
+
+async function fetchSecuencias(): Promise<Secuencia[]> {
+  const response = await fetch('/api/secuencias');
+  const data: ApiResponse<Secuencia[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar las secuencias');
+  }
+
+  return data.data ?? [];
+}
+
+async function fetchSecuencia(id: string): Promise<Secuencia> {
+  const response = await fetch(`/api/secuencias/${id}`);
+  const data: ApiResponse<Secuencia> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar la secuencia');
+  }
+
+  return data.data!;
+}
+
+async function guardarSecuencia(id: string | null, dto: CreateSecuenciaDTO | UpdateSecuenciaDTO): Promise<Secuencia> {
+  const response = await fetch(id ? `/api/secuencias/${id}` : '/api/secuencias', {
+    method: id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<Secuencia> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al guardar la secuencia');
+  }
+
+  return data.data!;
+}
+
+async function desactivarSecuencia(id: string): Promise<void> {
+  const response = await fetch(`/api/secuencias/${id}`, { method: 'DELETE' });
+  const data: ApiResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al desactivar la secuencia');
+  }
+}
+
+async function fetchInscripciones(clienteId: string): Promise<InscripcionSecuencia[]> {
+  const response = await fetch(`/api/secuencias/inscripciones?clienteId=${encodeURIComponent(clienteId)}`);
+  const data: ApiResponse<InscripcionSecuencia[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar las secuencias del cliente');
+  }
+
+  return data.data ?? [];
+}
+
+async function inscribirClientes(secuenciaId: string, clienteIds: string[]): Promise<InscripcionResult> {
+  const response = await fetch(`/api/secuencias/${secuenciaId}/inscripciones`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clienteIds }),
+  });
+  const data: ApiResponse<InscripcionResult> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al inscribir en la secuencia');
+  }
+
+  return data.data!;
+}
+
+async function accionInscripcion(id: string, accion: 'respuesta' | 'detener'): Promise<void> {
+  const response = await fetch(`/api/secuencias/inscripciones/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ accion }),
+  });
+  const data: ApiResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al detener la secuencia');
+  }
+}
+
+export function useSecuencias() {
+  return useQuery({
+    queryKey: SECUENCIAS_QUERY_KEY,
+    queryFn: fetchSecuencias,
+  });
+}
+
+export function useSecuencia(id: string) {
+  return useQuery({
+    queryKey: [...SECUENCIAS_QUERY_KEY, id],
+    queryFn: () => fetchSecuencia(id),
+  });
+}
+
+export function useGuardarSecuencia() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, dto }: { id: string | null; dto: CreateSecuenciaDTO | UpdateSecuenciaDTO }) =>
+      guardarSecuencia(id, dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SECUENCIAS_QUERY_KEY });
+    },
+  });
+}
+
+export function useDesactivarSecuencia() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => desactivarSecuencia(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SECUENCIAS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: INSCRIPCIONES_QUERY_KEY });
+    },
+  });
+}
+
+export function useInscripcionesCliente(clienteId: string) {
+  return useQuery({
+    queryKey: [...INSCRIPCIONES_QUERY_KEY, clienteId],
+    queryFn: () => fetchInscripciones(clienteId),
+  });
+}
+
+export function useInscribirClientes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ secuenciaId, clienteIds }: { secuenciaId: string; clienteIds: string[] }) =>
+      inscribirClientes(secuenciaId, clienteIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INSCRIPCIONES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: SECUENCIAS_QUERY_KEY });
+    },
+  });
+}
+
+export function useAccionInscripcion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, accion }: { id: string; accion: 'respuesta' | 'detener' }) => accionInscripcion(id, accion),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INSCRIPCIONES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: SECUENCIAS_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { BandejaTareas, CreateTareaDTO, Tarea, UpdateTareaDTO } from '@/types';
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  error?: string;
+}
+
+export interface TareasFiltros {
+  clienteId?: string;
+  bandeja?: BandejaTareas;
+  asignado?: string;
+}
+
+const TAREAS_QUERY_KEY = ['tareas'];
+
+async function fetchTareas(filtros: TareasFiltros): Promise<Tarea[]> {
+  const params = new URLSearchParams(
+    Object.entries(filtros).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  );
+  const response = await fetch(`/api/tareas?${params.toString()}`);
+  const data: ApiResponse<Tarea[]> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al cargar las tareas');
+  }
+
+  return data.data ?? [];
+}
+
+async function guardarTarea(dto: CreateTareaDTO | UpdateTareaDTO, tareaId?: string): Promise<Tarea> {
+  const response = await fetch(tareaId ? `/api/tareas/${tareaId}` : '/api/tareas', {
+    method: tareaId ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dto),
+  });
+  const data: ApiResponse<Tarea> = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al guardar la tarea');
+  }
+
+  return data.data!;
+}
+
+async function eliminarTarea(tareaId: string): Promise<void> {
+  const response = await fetch(`/api/tareas/${tareaId}`, { method: 'DELETE' });
+  const data: ApiResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error ?? 'Error al eliminar la tarea');
+  }
+}
+
+export function useTareas(filtros: TareasFiltros, enabled = true) {
+  return useQuery({
+    queryKey: [...TAREAS_QUERY_KEY, filtros],
+    queryFn: () => fetchTareas(filtros),
+    enabled,
+  });
+}
+
+// Every task list (client, inboxes) is invalidated: a change can move a task between them
+export function useCrearTarea() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (dto: CreateTareaDTO) => guardarTarea(dto),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TAREAS_QUERY_KEY });
+    },
+  });
+}
+
+export function useActualizarTarea() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, dto }: { id: string; dto: UpdateTareaDTO }) => guardarTarea(dto, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TAREAS_QUERY_KEY });
+    },
+  });
+}
+
+export function useEliminarTarea() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (tareaId: string) => eliminarTarea(tareaId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TAREAS_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AccionTrabajo, EstadoTrabajo, TrabajoEnriquecimiento, TrabajoEnriquecimientoDetalle } from '@/types/enrichment';
+
+const TRABAJOS_QUERY_KEY = ['trabajos-enriquecimiento'];
+
+// Jobs the worker is still processing: their progress is polled
+const ESTADOS_ACTIVOS: EstadoTrabajo[] = ['PENDIENTE', 'EN_CURSO'];
+
+// How often the progress of an active job is refreshed
+const INTERVALO_PROGRESO_MS = 3000;
+
+export const trabajoActivo = (trabajo: Pick<TrabajoEnriquecimiento, 'estado'>) =>
+  ESTADOS_ACTIVOS.includes(trabajo.estado);
+
+async function fetchTrabajos(): Promise<TrabajoEnriquecimiento[]> {
+  const res = await fetch('/api/admin/bulk-enrich/trabajos');
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error ?? 'Error al cargar los trabajos de enriquecimiento');
+  }
+  return data.trabajos;
+}
+
+async function fetchTrabajo(id: string): Promise<TrabajoEnriquecimientoDetalle> {
+  const res = await fetch(`/api/admin/bulk-enrich/trabajos/${id}`);
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error ?? 'Error al cargar el trabajo de enriquecimiento');
+  }
+  return data.trabajo;
+}
+
+async function patchAccion(id: string, accion: AccionTrabajo): Promise<TrabajoEnriquecimientoDetalle> {
+  const res = await fetch(`/api/admin/bulk-enrich/trabajos/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ accion }),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error ?? 'Error al actualizar el trabajo');
+  }
+  return data.trabajo;
+}
+
+/**
+ * Latest bulk enrichment jobs, refreshed while any of them is running
+ */
+export function useTrabajosEnriquecimiento() {
+  return useQuery({
+    queryKey: TRABAJOS_QUERY_KEY,
+    queryFn: fetchTrabajos,
+    refetchInterval: (query) =>
+      query.state.data?.some(trabajoActivo) ? INTERVALO_PROGRESO_MS : false,
+  });
+}
+
+/**
+ * A bulk enrichment job, live until it finishes: its progress (and what each
+ * client being enriched is doing) arrives over Server-Sent Events, with polling
+ * as the fallback. The enrichment stats are refetched once it finishes, since
+ * its results are now pending review.
+ */
+export function useTrabajoEnriquecimiento(id: string | null) {
+  const queryClient = useQueryClient();
+  // Set when the event stream can't be opened
+  const [sinEventos, setSinEventos] = useState(false);
+
+  const query = useQuery({
+    queryKey: [...TRABAJOS_QUERY_KEY, id],
+    queryFn: async () => {
+      const trabajo = await fetchTrabajo(id!);
+      if (!trabajoActivo(trabajo)) {
+        queryClient.invalidateQueries({ queryKey: ['bulk-enrichment-stats'] });
+      }
+      return trabajo;
+    },
+    enabled: !!id,
+    refetchInterval: (query) =>
+      sinEventos && query.state.data && trabajoActivo(query.state.data) ? INTERVALO_PROGRESO_MS : false,
+  });
+
+  const activo = !!query.data && trabajoActivo(query.data);
+
+  useEffect(() => {
+    if (!id || !activo || sinEventos) return;
+
+    const eventos = new EventSource(`/api/admin/bulk-enrich/trabajos/${id}/eventos`);
+    eventos.addEventListener('trabajo', (event) => {
+      const trabajo: TrabajoEnriquecimientoDetalle = JSON.parse((event as MessageEvent<string>).data);
+      queryClient.setQueryData([...TRABAJOS_QUERY_KEY, id], trabajo);
+      if (!trabajoActivo(trabajo)) {
+        eventos.close();
+        queryClient.invalidateQueries({ queryKey: ['bulk-enrichment-stats'] });
+      }
+    });
+    // The job stopped running (or was deleted): nothing more will come
+    eventos.addEventListener('fin', () => {
+      eventos.close();
+      queryClient.invalidateQueries({ queryKey: [...TRABAJOS_QUERY_KEY, id] });
+    });
+    // A closed stream reconnects by itself; a rejected one (CLOSED) does not
+    eventos.onerror = () => {
+      if (eventos.readyState === EventSource.CLOSED) setSinEventos(true);
+    };
+
+    return () => eventos.close();
+  }, [id, activo, sinEventos, queryClient]);
+
+  return query;
+}
+
+export function useAccionTrabajo() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, accion }: { id: string; accion: AccionTrabajo }) => patchAccion(id, accion),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: TRABAJOS_QUERY_KEY });
+    },
+  });
+}
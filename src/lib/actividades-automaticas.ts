@@ -9,6 +9,7 @@ interface RegistrarActividadParams {
   descripcion: string;
   resultado?: string;
   proximoPaso?: string;
+  oportunidadId?: string;
 }
 
 export async function registrarActividadAutomatica({
@@ -17,7 +18,8 @@ export async function registrarActividadAutomatica({
   usuarioId,
   descripcion,
   resultado,
-  proximoPaso
+  proximoPaso,
+  oportunidadId
 }: RegistrarActividadParams) {
   try {
     await prisma.actividad.create({
@@ -28,6 +30,7 @@ export async function registrarActividadAutomatica({
         usuarioId,
         resultado: resultado || null,
         proximoPaso: proximoPaso || null,
+        oportunidadId: oportunidadId || null,
         esAutomatica: true,
         fecha: new Date()
       }
@@ -50,6 +53,29 @@ export async function registrarClienteCreado(clienteId: string, usuarioId: strin
   });
 }
 
+export async function registrarClientesImportados(
+  clientes: { id: string; nombre: string }[],
+  usuarioId: string,
+  nombreArchivo: string
+) {
+  try {
+    await prisma.actividad.createMany({
+      data: clientes.map((cliente) => ({
+        tipo: TipoActividad.CLIENTE_CREADO,
+        clienteId: cliente.id,
+        usuarioId,
+        descripcion: `Cliente "${cliente.nombre}" fue importado desde "${nombreArchivo}"`,
+        resultado: 'Cliente agregado por importación',
+        proximoPaso: 'Revisar y completar información del cliente',
+        esAutomatica: true,
+        fecha: new Date()
+      }))
+    });
+  } catch (error) {
+    logger.error('Error registrando actividades de importación', error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
 export async function registrarClienteEditado(
   clienteId: string,
   usuarioId: string,
@@ -112,6 +138,26 @@ export async function registrarContactoAutomatico(
   });
 }
 
+export async function registrarPasoSecuencia(
+  clienteId: string,
+  usuarioId: string,
+  secuencia: string,
+  paso: number,
+  totalPasos: number,
+  canal: 'EMAIL' | 'WHATSAPP',
+  resultado: string
+) {
+  const medio = canal === 'EMAIL' ? 'email' : 'WhatsApp';
+  return registrarActividadAutomatica({
+    tipo: TipoActividad.CONTACTO_AUTOMATICO,
+    clienteId,
+    usuarioId,
+    descripcion: `Secuencia "${secuencia}": paso ${paso} de ${totalPasos} por ${medio}`,
+    resultado,
+    proximoPaso: paso < totalPasos ? 'Esperar el próximo paso o la respuesta del cliente' : 'Secuencia terminada: planificar seguimiento'
+  });
+}
+
 export async function registrarEmailEnviado(
   clienteId: string,
   usuarioId: string,
@@ -152,6 +198,41 @@ export async function registrarWhatsAppEnviado(
   });
 }
 
+export async function registrarWhatsAppRecibido(
+  clienteId: string,
+  usuarioId: string,
+  nombreCliente: string,
+  texto: string
+) {
+  return registrarActividadAutomatica({
+    tipo: TipoActividad.CONTACTO_AUTOMATICO,
+    clienteId,
+    usuarioId,
+    descripcion: `Mensaje de WhatsApp recibido de "${nombreCliente}"`,
+    resultado: `Mensaje: ${texto}`,
+    proximoPaso: 'Responder al cliente'
+  });
+}
+
+export async function registrarEmailRecibido(
+  clienteId: string,
+  usuarioId: string,
+  nombreCliente: string,
+  asunto: string | null,
+  texto: string
+) {
+  return registrarActividadAutomatica({
+    tipo: TipoActividad.EMAIL,
+    clienteId,
+    usuarioId,
+    descripcion: asunto
+      ? `Email recibido de "${nombreCliente}": ${asunto}`
+      : `Email recibido de "${nombreCliente}"`,
+    resultado: `Mensaje: ${texto}`,
+    proximoPaso: 'Responder al cliente'
+  });
+}
+
 // Note: CAMBIO_ESTADO, CAMBIO_PRIORIDAD, CAMBIO_AGENTE are recorded as NOTA type
 // since they are informational notes about changes
 export async function registrarCambioEstado(
@@ -186,3 +267,52 @@ export async function registrarCambioPrioridad(
   });
 }
 
+export async function registrarCambioAgente(
+  clienteId: string,
+  usuarioId: string,
+  nombreCliente: string,
+  agenteAnterior: string | null,
+  agenteNuevo: string | null
+) {
+  return registrarActividadAutomatica({
+    tipo: TipoActividad.NOTA,
+    clienteId,
+    usuarioId,
+    descripcion: `Cliente "${nombreCliente}" reasignado de "${agenteAnterior ?? 'Sin asignar'}" a "${agenteNuevo ?? 'Sin asignar'}"`,
+    resultado: agenteNuevo ? `Asignado a: ${agenteNuevo}` : 'Cliente sin asignar'
+  });
+}
+
+
+export async function registrarCambioEtapaOportunidad(
+  clienteId: string,
+  usuarioId: string,
+  oportunidad: { id: string; titulo: string },
+  etapaAnterior: string,
+  etapaNueva: string,
+  motivo?: string | null
+) {
+  return registrarActividadAutomatica({
+    tipo: TipoActividad.NOTA,
+    clienteId,
+    usuarioId,
+    oportunidadId: oportunidad.id,
+    descripcion: `Oportunidad "${oportunidad.titulo}" pasó de "${etapaAnterior}" a "${etapaNueva}"`,
+    resultado: motivo ? `Motivo: ${motivo}` : `Etapa actualizada: ${etapaNueva}`
+  });
+}
+
+export async function registrarTareaCompletada(
+  clienteId: string,
+  usuarioId: string,
+  titulo: string,
+  descripcion?: string | null
+) {
+  return registrarActividadAutomatica({
+    tipo: TipoActividad.TAREA,
+    clienteId,
+    usuarioId,
+    descripcion: `Tarea completada: "${titulo}"`,
+    resultado: descripcion || undefined
+  });
+}
@@ -56,6 +56,13 @@ export function unauthorizedResponse() {
   });
 }
 
+export function forbiddenResponse(message: string = 'Permisos insuficientes') {
+  return errorResponse(message, {
+    status: 403,
+    code: 'FORBIDDEN',
+  });
+}
+
 export function notFoundResponse(resource: string) {
   return errorResponse(`${resource} no encontrado`, {
     status: 404,
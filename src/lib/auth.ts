@@ -3,6 +3,9 @@ import { createAuthMiddleware } from 'better-auth/api';
 import { prismaAdapter } from 'better-auth/adapters/prisma';
 import { prisma } from '@/lib/prisma';
 import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { PermissionService } from '@/lib/services/permission-service';
+import type { Permission } from '@/lib/rbac';
 import type { UserRole } from '@/types';
 
 const VALID_ROLES: readonly string[] = ['ADMIN', 'MANAGER', 'AGENT'] satisfies readonly UserRole[];
@@ -227,3 +230,20 @@ export async function auth() {
     },
   };
 }
+
+/**
+ * Guard for server pages/layouts: redirects to login without a session and
+ * to `fallbackPath` when the user's role lacks the permission.
+ */
+export async function requirePermission(permission: Permission, fallbackPath: string = '/') {
+  const session = await auth();
+  if (!session) {
+    redirect('/auth/login');
+  }
+
+  if (!(await PermissionService.hasPermission(session.user.role, permission))) {
+    redirect(fallbackPath);
+  }
+
+  return session;
+}
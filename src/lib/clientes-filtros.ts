@@ -0,0 +1,147 @@
+import type { Prisma } from '@prisma/client';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
+import { AsignacionService } from '@/lib/services/asignacion-service';
+
+// Query params of the /clientes page (FiltrosAvanzados + sorting)
+export interface ClientesFiltrosParams {
+  search?: string;
+  estado?: string;
+  industria?: string;
+  ciudad?: string;
+  asignado?: string;
+  fechaDesde?: string;
+  fechaHasta?: string;
+  conIA?: string;
+  conEmail?: string;
+  conTelefono?: string;
+  conSitioWeb?: string;
+  sort?: string;
+  order?: string;
+}
+
+export type ClientesFiltros = Required<Omit<ClientesFiltrosParams, 'sort' | 'order'>> & {
+  sortField: string;
+  sortOrder: 'asc' | 'desc';
+};
+
+// Valid sort fields to prevent injection/corruption
+const VALID_SORT_FIELDS = [
+  'nombre', 'email', 'telefono', 'estado', 'prioridad', 'industria',
+  'ciudad', 'provincia', 'fuente', 'fechaCreacion', 'fechaModific',
+  'ultimoContacto', 'ultimaIA', 'sitioWeb'
+];
+
+/**
+ * Normalize the raw query params, applying the page defaults
+ */
+export function parseClientesFiltros(params: ClientesFiltrosParams): ClientesFiltros {
+  const rawSortField = params.sort || 'fechaCreacion';
+
+  return {
+    search: params.search || '',
+    estado: params.estado || '',
+    industria: params.industria || '',
+    ciudad: params.ciudad || '',
+    // "Mis clientes" is the default view
+    asignado: params.asignado || FILTRO_ASIGNADO.MIOS,
+    fechaDesde: params.fechaDesde || '',
+    fechaHasta: params.fechaHasta || '',
+    conIA: params.conIA || '',
+    conEmail: params.conEmail || '',
+    conTelefono: params.conTelefono || '',
+    conSitioWeb: params.conSitioWeb || '',
+    sortField: VALID_SORT_FIELDS.includes(rawSortField) ? rawSortField : 'fechaCreacion',
+    sortOrder: params.order === 'asc' ? 'asc' : 'desc',
+  };
+}
+
+/**
+ * Build the Prisma where clause for the client list (shared by the page and the export)
+ */
+export function buildClientesWhere(
+  filtros: ClientesFiltros,
+  currentUserId: string
+): Prisma.ClienteWhereInput {
+  const where: Prisma.ClienteWhereInput = {
+    deletedAt: null,
+  };
+
+  if (filtros.search) {
+    where.OR = [
+      { nombre: { contains: filtros.search, mode: 'insensitive' } },
+      { email: { contains: filtros.search, mode: 'insensitive' } },
+      { telefono: { contains: filtros.search } },
+      { industria: { contains: filtros.search, mode: 'insensitive' } },
+      { direccion: { contains: filtros.search, mode: 'insensitive' } },
+      { ciudad: { contains: filtros.search, mode: 'insensitive' } },
+    ];
+  }
+
+  if (filtros.estado) {
+    where.estado = filtros.estado as Prisma.ClienteWhereInput['estado'];
+  }
+
+  if (filtros.industria) {
+    where.industria = filtros.industria;
+  }
+
+  if (filtros.ciudad) {
+    where.ciudad = filtros.ciudad;
+  }
+
+  if (filtros.fechaDesde || filtros.fechaHasta) {
+    where.fechaCreacion = {
+      ...(filtros.fechaDesde && { gte: new Date(filtros.fechaDesde) }),
+      ...(filtros.fechaHasta && { lte: new Date(filtros.fechaHasta + 'T23:59:59') }),
+    };
+  }
+
+  if (filtros.conIA === 'si') {
+    where.ultimaIA = { not: null };
+  } else if (filtros.conIA === 'no') {
+    where.ultimaIA = null;
+  }
+
+  if (filtros.conEmail === 'si') {
+    where.email = { not: null };
+  } else if (filtros.conEmail === 'no') {
+    where.email = null;
+  }
+
+  if (filtros.conTelefono === 'si') {
+    where.telefono = { not: null };
+  } else if (filtros.conTelefono === 'no') {
+    where.telefono = null;
+  }
+
+  if (filtros.conSitioWeb === 'si') {
+    where.sitioWeb = { not: null };
+  } else if (filtros.conSitioWeb === 'no') {
+    where.sitioWeb = null;
+  }
+
+  const filtroAsignado = AsignacionService.buildFiltroAsignado(filtros.asignado, currentUserId);
+  if (filtroAsignado) {
+    where.AND = [filtroAsignado];
+  }
+
+  return where;
+}
+
+/**
+ * Build the order by clause for the client list
+ */
+export function buildClientesOrderBy(filtros: ClientesFiltros): Prisma.ClienteOrderByWithRelationInput {
+  return { [filtros.sortField]: filtros.sortOrder };
+}
+
+/**
+ * Whether any filter besides the default view is applied
+ */
+export function hayFiltrosActivos(filtros: ClientesFiltros): boolean {
+  return Boolean(
+    filtros.search || filtros.estado || filtros.industria || filtros.ciudad ||
+    filtros.fechaDesde || filtros.fechaHasta || filtros.conIA || filtros.conEmail ||
+    filtros.conTelefono || filtros.conSitioWeb
+  );
+}
@@ -10,6 +10,121 @@ export const BULK = {
   MAX_BULK_ACTION: 100,
 } as const;
 
+export const IMPORTACION = {
+  MAX_FILAS: 5000,
+  MAX_FILE_SIZE_MB: 5,
+  MAX_COLUMNAS: 100,
+} as const;
+
+export const EXPORTACION = {
+  BATCH_SIZE: 500,
+  ULTIMAS_ACTIVIDADES: 3,
+} as const;
+
+export const DUPLICADOS = {
+  SCORE_MINIMO: 30,
+  MAX_PARES: 100,
+  // Name-prefix buckets bigger than this are skipped (too generic to compare)
+  MAX_GRUPO: 50,
+} as const;
+
+export const KANBAN = {
+  // Cards loaded per column; the header still shows the full count
+  MAX_TARJETAS: 50,
+} as const;
+
+export const OPORTUNIDADES = {
+  MONEDAS: ['ARS', 'USD', 'EUR'],
+  MONEDA_DEFAULT: 'ARS',
+  // Probability suggested when an opportunity enters each stage
+  PROBABILIDAD_POR_ETAPA: {
+    CALIFICACION: 10,
+    PROPUESTA: 40,
+    NEGOCIACION: 70,
+    GANADA: 100,
+    PERDIDA: 0,
+  },
+} as const;
+
+export const TAREAS = {
+  // Notifications sent per cron run (the rest go out on the next run)
+  MAX_RECORDATORIOS: 200,
+} as const;
+
+export const MENSAJES_PROGRAMADOS = {
+  ZONA_HORARIA_DEFAULT: 'America/Argentina/Buenos_Aires',
+  // Offered in the pickers; any valid IANA zone is accepted by the API
+  ZONAS_HORARIAS: [
+    'America/Argentina/Buenos_Aires',
+    'America/Montevideo',
+    'America/Santiago',
+    'America/Asuncion',
+    'America/Sao_Paulo',
+    'America/La_Paz',
+    'America/Lima',
+    'America/Bogota',
+    'America/Mexico_City',
+    'America/New_York',
+    'Europe/Madrid',
+    'UTC',
+  ],
+  // Messages sent per dispatcher run (the rest go out on the next run)
+  MAX_POR_EJECUCION: 50,
+  // Dispatcher runs a transient failure is retried in before giving up
+  MAX_INTENTOS: 3,
+  // A claimed message still unsent after this long was left behind by a run that died
+  RECLAMO_VENCE_MINUTOS: 15,
+} as const;
+
+export const SECUENCIAS = {
+  MAX_PASOS: 10,
+  MAX_ESPERA_DIAS: 90,
+  MAX_CLIENTES_INSCRIPCION: 100,
+  // Enrollments advanced per cron run (the rest go on the next run)
+  MAX_POR_EJECUCION: 50,
+  // Client states that stop a sequence: the prospect is already engaged
+  ESTADOS_DETIENEN: ['EN_TRATATIVAS', 'EN_DESARROLLO', 'FINALIZADO'],
+} as const;
+
+export const TRABAJOS_ENRIQUECIMIENTO = {
+  // Clients one job may enqueue (a selection or a whole filtered list)
+  MAX_CLIENTES: 5000,
+  // Clients enriched at the same time, so external APIs are not overwhelmed
+  CONCURRENCIA: 3,
+  // Time a worker run keeps taking clients (functions are cut at 60 s)
+  PRESUPUESTO_EJECUCION_MS: 40_000,
+  // A client claimed longer than this belongs to a run that died: it goes back to the queue
+  MINUTOS_BLOQUEO: 5,
+  // Attempts per client before it stays in ERROR, and the wait between them
+  MAX_INTENTOS: 3,
+  MINUTOS_REINTENTO: 10,
+  // Items returned with a job (the latest processed)
+  MAX_ITEMS_DETALLE: 100,
+  // How often the live view of a job checks for changes, and how long one
+  // stream stays open before the browser reconnects (functions are cut at 60 s)
+  INTERVALO_EVENTOS_MS: 1_500,
+  DURACION_EVENTOS_MS: 50_000,
+} as const;
+
+export const CALENDARIO = {
+  // Longest range the calendar API returns (a month view with its padding weeks)
+  MAX_DIAS_RANGO: 45,
+  // Window of the iCalendar feed around today
+  FEED_DIAS_PASADOS: 30,
+  FEED_DIAS_FUTUROS: 180,
+  // Length given to meetings and calls without an end time
+  DURACION_DEFAULT_MINUTOS: 30,
+} as const;
+
+export const PLANTILLAS = {
+  // The template's own content is variant "A"; the rest are added in order
+  VARIANTES: ['A', 'B', 'C', 'D'],
+  // Window in which a reply is credited to the last message sent
+  DIAS_ATRIBUCION_RESPUESTA: 30,
+  // Language of WhatsApp Business templates that don't set one
+  WHATSAPP_IDIOMA_DEFAULT: 'es_AR',
+} as const;
+
 export const ENRICHMENT = {
   COOLDOWN_HOURS: 24,
   MAX_CONCURRENT: 3,
@@ -20,3 +135,10 @@ export const SESSION = {
   MAX_FAILED_ATTEMPTS: 5,
   LOCKOUT_MINUTES: 30,
 } as const;
+
+// Special values of the "Asignado a" client filter (besides a user id)
+export const FILTRO_ASIGNADO = {
+  MIOS: 'me',
+  TODOS: 'todos',
+  SIN_ASIGNAR: 'none',
+} as const;
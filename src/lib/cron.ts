@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+
+/**
+ * Check that a cron request comes from Vercel Cron (Bearer CRON_SECRET).
+ * Returns the response to send back when it doesn't, or null to go on.
+ * Fails closed: without CRON_SECRET no request gets through.
+ */
+export function verificarCron(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    logger.error('CRON_SECRET is not set; rejecting cron request', undefined, { path: request.nextUrl.pathname });
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 500 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+// Word-level text diff (longest common subsequence), for comparing template versions
+
+export interface FragmentoDiff {
+  tipo: 'igual' | 'agregado' | 'quitado';
+  texto: string;
+}
+
+// Above this many LCS cells, compare line by line instead of word by word
+const MAX_CELDAS = 4000000;
+
+/**
+ * Words, whitespace runs and HTML tags, so markup changes show up on their own
+ */
+const separarPalabras = (texto: string) => texto.split(/(\s+|<[^>]+>)/).filter(Boolean);
+
+const separarLineas = (texto: string) => texto.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+/**
+ * Fragments that turn `antes` into `despues`, with adjacent fragments of the
+ * same kind merged
+ */
+export function diffTexto(antes: string, despues: string): FragmentoDiff[] {
+  let a = separarPalabras(antes);
+  let b = separarPalabras(despues);
+  if (a.length * b.length > MAX_CELDAS) {
+    a = separarLineas(antes);
+    b = separarLineas(despues);
+  }
+
+  // largo[i][j]: LCS length of a[i..] and b[j..]
+  const largo: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      largo[i][j] = a[i] === b[j] ? largo[i + 1][j + 1] + 1 : Math.max(largo[i + 1][j], largo[i][j + 1]);
+    }
+  }
+
+  const fragmentos: FragmentoDiff[] = [];
+  const agregar = (tipo: FragmentoDiff['tipo'], texto: string) => {
+    const ultimo = fragmentos[fragmentos.length - 1];
+    if (ultimo?.tipo === tipo) ultimo.texto += texto;
+    else fragmentos.push({ tipo, texto });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      agregar('igual', a[i]);
+      i++;
+      j++;
+    } else if (largo[i + 1][j] >= largo[i][j + 1]) {
+      agregar('quitado', a[i++]);
+    } else {
+      agregar('agregado', b[j++]);
+    }
+  }
+  while (i < a.length) agregar('quitado', a[i++]);
+  while (j < b.length) agregar('agregado', b[j++]);
+
+  return fragmentos;
+}
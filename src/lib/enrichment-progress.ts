@@ -0,0 +1,107 @@
+// Live progress of an enrichment run, as built from its streamed events
+// (see EnrichmentProgressEvent), and its labels for the UI
+
+import {
+  getAIProviderName,
+  type AIProvider,
+  type AIProviderOption,
+  type EnrichmentProgressEvent,
+  type EnrichmentStep,
+} from '@/types/enrichment';
+
+type EstadoParcial = 'started' | 'completed' | 'failed';
+
+export interface EnrichmentProgressState {
+  step: EnrichmentStep | null;
+  // In the order they were called
+  providers: Array<{ provider: AIProvider; status: EstadoParcial; fieldsFound?: number; error?: string }>;
+  checks: Array<{ check: string; status: EstadoParcial; error?: string }>;
+}
+
+export const INITIAL_ENRICHMENT_PROGRESS: EnrichmentProgressState = { step: null, providers: [], checks: [] };
+
+export const STEP_LABELS: Record<EnrichmentStep, string> = {
+  providers: 'Consultando proveedores de IA',
+  consensus: 'Combinando las respuestas',
+  'website-verification': 'Verificando el sitio web',
+  'social-validation': 'Validando las redes sociales',
+  'external-apis': 'Consultando APIs externas',
+  'website-analysis': 'Analizando el sitio web',
+  saving: 'Guardando resultados',
+};
+
+export const CHECK_LABELS: Record<string, string> = {
+  // External APIs
+  hunter: 'Emails (Hunter.io)',
+  'google-maps': 'Google Maps',
+  'google-places': 'Google Places',
+  'safe-browsing': 'Safe Browsing',
+  'social-profiles': 'Perfiles sociales',
+  // Website analysis
+  url: 'Acceso al sitio',
+  ssl: 'SSL',
+  screenshots: 'Capturas',
+  pagespeed: 'PageSpeed',
+  seo: 'SEO',
+  techstack: 'Tecnologías',
+  security: 'Seguridad',
+  accessibility: 'Accesibilidad',
+  crawlability: 'Rastreo',
+  responsive: 'Responsive',
+  builtwith: 'BuiltWith',
+  'server-location': 'Servidor',
+  whois: 'WHOIS',
+  favicon: 'Favicon',
+};
+
+/**
+ * Progress after an event. Providers and checks keep the position of their
+ * first event; later ones update their status.
+ */
+export function applyProgressEvent(
+  state: EnrichmentProgressState,
+  event: EnrichmentProgressEvent
+): EnrichmentProgressState {
+  switch (event.type) {
+    case 'step':
+      return { ...state, step: event.step };
+    case 'provider': {
+      const provider = { provider: event.provider, status: event.status, fieldsFound: event.fieldsFound, error: event.error };
+      const index = state.providers.findIndex((p) => p.provider === event.provider);
+      return {
+        ...state,
+        providers: index < 0 ? [...state.providers, provider] : state.providers.map((p, i) => (i === index ? provider : p)),
+      };
+    }
+    case 'check': {
+      const check = { check: event.check, status: event.status, error: event.error };
+      const index = state.checks.findIndex((c) => c.check === event.check);
+      return {
+        ...state,
+        checks: index < 0 ? [...state.checks, check] : state.checks.map((c, i) => (i === index ? check : c)),
+      };
+    }
+  }
+}
+
+/**
+ * One line describing an event, for a client being enriched in a bulk job.
+ * `providerOptions` names the custom AI providers.
+ */
+export function describeProgressEvent(event: EnrichmentProgressEvent, providerOptions?: AIProviderOption[]): string {
+  switch (event.type) {
+    case 'step':
+      return STEP_LABELS[event.step];
+    case 'provider': {
+      const provider = getAIProviderName(event.provider, providerOptions);
+      if (event.status === 'started') return `Esperando a ${provider}`;
+      if (event.status === 'failed') return `${provider} falló`;
+      return `${provider} respondió${event.fieldsFound != null ? ` (${event.fieldsFound} campos)` : ''}`;
+    }
+    case 'check': {
+      const check = CHECK_LABELS[event.check] ?? event.check;
+      if (event.status === 'started') return `Comprobando ${check}`;
+      return `${check}: ${event.status === 'failed' ? 'con error' : 'listo'}`;
+    }
+  }
+}
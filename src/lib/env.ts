@@ -16,7 +16,7 @@ const envSchema = z.object({
   // Vercel Blob (optional in dev)
   BLOB_READ_WRITE_TOKEN: z.string().optional(),
 
-  // Cron secret for Vercel Cron auth (optional)
+  // Cron secret for Vercel Cron auth (cron routes reject every request without it)
   CRON_SECRET: z.string().optional(),
 
   // OpenAI (optional)
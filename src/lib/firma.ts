@@ -0,0 +1,35 @@
+// Signed tokens for public links (email tracking, unsubscribe)
+// Keyed with BETTER_AUTH_SECRET; each use has its own context so tokens don't cross over
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Truncated HMAC-SHA256 of a value within a context
+ */
+export function firmar(contexto: string, valor: string): string {
+  const secret = process.env.BETTER_AUTH_SECRET;
+  if (!secret) {
+    throw new Error('BETTER_AUTH_SECRET is required to sign links');
+  }
+  return createHmac('sha256', secret).update(`${contexto}:${valor}`).digest('base64url').slice(0, 22);
+}
+
+export function firmaValida(contexto: string, valor: string, firma: string): boolean {
+  const esperada = Buffer.from(firmar(contexto, valor));
+  const recibida = Buffer.from(firma);
+  return esperada.length === recibida.length && timingSafeEqual(esperada, recibida);
+}
+
+/**
+ * "<id>.<firma>": guessing the token of another id is not possible
+ */
+export const crearToken = (contexto: string, id: string) => `${id}.${firmar(contexto, id)}`;
+
+/**
+ * Id of a valid token, null otherwise
+ */
+export function leerToken(contexto: string, token: string): string | null {
+  const [id, firma] = token.split('.');
+  if (!id || !firma) return null;
+  return firmaValida(contexto, id, firma) ? id : null;
+}
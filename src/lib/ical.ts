@@ -0,0 +1,86 @@
+// Minimal iCalendar (RFC 5545) writer for the read-only calendar feed
+
+export interface EventoICS {
+  uid: string;
+  inicio: Date;
+  fin: Date;
+  titulo: string;
+  descripcion?: string | null;
+  ubicacion?: string | null;
+  url?: string;
+}
+
+/**
+ * UTC timestamp in iCalendar format ("20260415T133000Z")
+ */
+function formatFechaICS(fecha: Date): string {
+  return fecha.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape a TEXT value (backslash, separators and line breaks)
+ */
+function escaparTexto(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters
+ */
+function plegarLinea(linea: string): string {
+  const partes: string[] = [];
+  let actual = '';
+  let octetos = 0;
+
+  for (const caracter of linea) {
+    const tamano = Buffer.byteLength(caracter);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (octetos + tamano > (partes.length === 0 ? 75 : 74)) {
+      partes.push(actual);
+      actual = '';
+      octetos = 0;
+    }
+    actual += caracter;
+    octetos += tamano;
+  }
+  partes.push(actual);
+
+  return partes.join('\r\n ');
+}
+
+/**
+ * Serialize a calendar with its events (lines end in CRLF as the RFC requires)
+ */
+export function generarCalendarioICS(nombre: string, eventos: EventoICS[], generado: Date = new Date()): string {
+  const lineas = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CRM//Calendario//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escaparTexto(nombre)}`,
+  ];
+
+  for (const evento of eventos) {
+    lineas.push(
+      'BEGIN:VEVENT',
+      `UID:${evento.uid}`,
+      `DTSTAMP:${formatFechaICS(generado)}`,
+      `DTSTART:${formatFechaICS(evento.inicio)}`,
+      `DTEND:${formatFechaICS(evento.fin)}`,
+      `SUMMARY:${escaparTexto(evento.titulo)}`
+    );
+    if (evento.descripcion) lineas.push(`DESCRIPTION:${escaparTexto(evento.descripcion)}`);
+    if (evento.ubicacion) lineas.push(`LOCATION:${escaparTexto(evento.ubicacion)}`);
+    if (evento.url) lineas.push(`URL:${evento.url}`);
+    lineas.push('END:VEVENT');
+  }
+
+  lineas.push('END:VCALENDAR');
+
+  return lineas.map(plegarLinea).join('\r\n') + '\r\n';
+}
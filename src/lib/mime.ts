@@ -0,0 +1,176 @@
+// Minimal MIME (RFC 5322 / 2045 / 2047) reader for inbound emails: headers and
+// the plain text and HTML bodies. Attachments and nested messages are skipped.
+
+export interface EmailMime {
+  // Lowercased names, decoded values; a repeated header keeps its first value
+  cabeceras: Record<string, string>;
+  texto: string | null;
+  html: string | null;
+}
+
+// Raw content kept as a "binary" string (one char per byte) until its charset is known
+interface ParteMime {
+  cabeceras: Record<string, string>;
+  cuerpo: string;
+}
+
+// Deepest multipart nesting followed (mail clients use 3 or 4)
+const MAX_PROFUNDIDAD = 8;
+
+// First line of the quoted original in a reply
+const INICIO_CITA =
+  /^(On\s.+wrote:|El\s.+escribi[oó]:|-{2,}\s*(Original Message|Mensaje original)\s*-{2,}|_{10,})\s*$/i;
+
+function decodificarBytes(bytes: Buffer, charset: string | null): string {
+  try {
+    return new TextDecoder(charset?.trim().toLowerCase() || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset
+    return bytes.toString('utf8');
+  }
+}
+
+const bytesQuotedPrintable = (valor: string) =>
+  Buffer.from(
+    valor.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1'
+  );
+
+/**
+ * Decode the encoded words of a header ("=?UTF-8?Q?Re:_Propuesta?=")
+ */
+function decodificarCabecera(valor: string): string {
+  // Headers may carry raw UTF-8 (RFC 6532)
+  const texto = decodificarBytes(Buffer.from(valor, 'latin1'), 'utf-8');
+
+  return texto
+    // Whitespace between two encoded words is not part of the text
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (_m, charset: string, codificacion: string, contenido: string) => {
+      const bytes = codificacion.toUpperCase() === 'B'
+        ? Buffer.from(contenido, 'base64')
+        : bytesQuotedPrintable(contenido.replace(/_/g, ' '));
+      return decodificarBytes(bytes, charset);
+    });
+}
+
+/**
+ * Value of a parameter of a structured header (boundary, charset...)
+ */
+function parametro(cabecera: string, nombre: string): string | null {
+  const match = new RegExp(`;\\s*${nombre}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i').exec(cabecera);
+  return match ? match[1] ?? match[2] : null;
+}
+
+function separarParte(raw: string): ParteMime {
+  // A part may have no headers at all: it then starts with the blank line
+  const fin = /^\r?\n/.exec(raw) ?? /\r?\n\r?\n/.exec(raw);
+  const bloque = fin ? raw.slice(0, fin.index) : raw;
+  const cuerpo = fin ? raw.slice(fin.index + fin[0].length) : '';
+
+  const cabeceras: Record<string, string> = {};
+  // Folded lines continue the previous header
+  for (const linea of bloque.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separador = linea.indexOf(':');
+    if (separador <= 0) continue;
+    const nombre = linea.slice(0, separador).trim().toLowerCase();
+    if (!(nombre in cabeceras)) {
+      cabeceras[nombre] = decodificarCabecera(linea.slice(separador + 1).trim());
+    }
+  }
+
+  return { cabeceras, cuerpo };
+}
+
+function textoDeParte(parte: ParteMime, tipo: string): string {
+  const codificacion = (parte.cabeceras['content-transfer-encoding'] ?? '').trim().toLowerCase();
+  const bytes = codificacion === 'base64'
+    ? Buffer.from(parte.cuerpo.replace(/\s+/g, ''), 'base64')
+    : codificacion === 'quoted-printable'
+      ? bytesQuotedPrintable(parte.cuerpo)
+      : Buffer.from(parte.cuerpo, 'latin1');
+  return decodificarBytes(bytes, parametro(tipo, 'charset'));
+}
+
+function recorrerParte(parte: ParteMime, email: EmailMime, profundidad: number): void {
+  const tipo = parte.cabeceras['content-type'] ?? 'text/plain';
+  const mediaType = tipo.split(';')[0].trim().toLowerCase();
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = parametro(tipo, 'boundary');
+    if (!boundary || profundidad >= MAX_PROFUNDIDAD) return;
+
+    // The first chunk is the preamble; "--boundary--" closes the list
+    for (const trozo of parte.cuerpo.split(`--${boundary}`).slice(1)) {
+      if (trozo.startsWith('--')) break;
+      const contenido = trozo.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, '');
+      recorrerParte(separarParte(contenido), email, profundidad + 1);
+    }
+    return;
+  }
+
+  if (/^attachment/i.test(parte.cabeceras['content-disposition'] ?? '')) return;
+
+  if (mediaType === 'text/plain' && email.texto === null) {
+    email.texto = textoDeParte(parte, tipo);
+  } else if (mediaType === 'text/html' && email.html === null) {
+    email.html = textoDeParte(parte, tipo);
+  }
+}
+
+/**
+ * Read a raw RFC 5322 message
+ */
+export function parsearEmail(raw: Buffer): EmailMime {
+  const raiz = separarParte(raw.toString('latin1'));
+  const email: EmailMime = { cabeceras: raiz.cabeceras, texto: null, html: null };
+  recorrerParte(raiz, email, 0);
+  return email;
+}
+
+/**
+ * Lowercased address of an address header ("Ana Pérez <ana@ejemplo.com>" -> "ana@ejemplo.com")
+ */
+export function direccionEmail(valor: string): string | null {
+  const match = /<([^<>\s]+@[^<>\s]+)>/.exec(valor) ?? /[^\s<>"',;:]+@[^\s<>"',;:]+/.exec(valor);
+  if (!match) return null;
+  return (match[1] ?? match[0]).toLowerCase();
+}
+
+/**
+ * Message-IDs listed in an In-Reply-To or References header, in order
+ */
+export function idsDeMensaje(valor: string | null | undefined): string[] {
+  return (valor ?? '').match(/<[^<>\s]+>/g)?.map((id) => id.slice(1, -1)) ?? [];
+}
+
+/**
+ * Plain text of an HTML body, for replies sent without a text part
+ */
+export function textoDeHtml(html: string): string {
+  return html
+    .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * The new text of a reply: everything before the quoted original
+ */
+export function sinCitas(texto: string): string {
+  const lineas = texto.split(/\r?\n/);
+  const corte = lineas.findIndex((linea) => INICIO_CITA.test(linea.trim()) || linea.startsWith('>'));
+  const nuevo = (corte >= 0 ? lineas.slice(0, corte) : lineas).join('\n').trim();
+  // Replies written below the quote keep the whole text
+  return nuevo || texto.trim();
+}
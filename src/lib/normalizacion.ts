@@ -0,0 +1,85 @@
+import { extractDomain } from '@/lib/url-validator';
+
+// Legal suffixes ignored when comparing business names
+const SUFIJOS_SOCIETARIOS = /\b(s\.?\s?a\.?\s?s?|s\.?\s?r\.?\s?l|s\.?\s?h|sociedad anonima|hnos|hermanos)\.?$/;
+
+/**
+ * Lowercase and strip accents ("Colón" -> "colon")
+ */
+export function normalizarTexto(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Keep only the digits of a phone number
+ */
+export function normalizarTelefono(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Comparable key for a business name: no accents, punctuation or legal suffix
+ */
+export function normalizarNombreEmpresa(value: string): string {
+  return normalizarTexto(value)
+    .replace(SUFIJOS_SOCIETARIOS, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Comparable key for an (Argentine) phone number: the same line matches with or
+ * without country code, mobile "9"/"15" or trunk "0". Uses the last 8 digits.
+ */
+export function claveTelefono(value: string): string | null {
+  let digitos = normalizarTelefono(value)
+    .replace(/^00/, '')
+    .replace(/^549?(?=\d{10}$)/, '')
+    .replace(/^0(?=\d{9,}$)/, '');
+
+  // Mobile "15" after the area code (2 to 4 digits) in national format
+  const match = digitos.length === 12 ? digitos.match(/^(\d{2,4})15(\d{6,8})$/) : null;
+  if (match && match[1].length + match[2].length === 10) {
+    digitos = match[1] + match[2];
+  }
+
+  return digitos.length >= 8 ? digitos.slice(-8) : null;
+}
+
+/**
+ * Website domain without "www." (null when the URL is not valid)
+ */
+export function dominioSitioWeb(value: string): string | null {
+  const dominio = extractDomain(value.trim());
+  return dominio ? dominio.replace(/^www\./, '').toLowerCase() : null;
+}
+
+/**
+ * Dice coefficient over character bigrams (0..1)
+ */
+export function similitudTexto(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigramas = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigrama = a.slice(i, i + 2);
+    bigramas.set(bigrama, (bigramas.get(bigrama) ?? 0) + 1);
+  }
+
+  let coincidencias = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigrama = b.slice(i, i + 2);
+    const count = bigramas.get(bigrama) ?? 0;
+    if (count > 0) {
+      bigramas.set(bigrama, count - 1);
+      coincidencias++;
+    }
+  }
+
+  return (2 * coincidencias) / (a.length + b.length - 2);
+}
@@ -1,10 +1,13 @@
 // Role-Based Access Control utilities
-// NOTE: All permission checks are disabled - all authenticated users have full access
-// All users have full access regardless of their role
+// PERMISSIONS is the default role -> permission matrix. Admins can override it
+// from /admin/settings/roles; the effective matrix is resolved server-side by
+// PermissionService and passed to the pure helpers below.
 
 export type UserRole = 'ADMIN' | 'MANAGER' | 'AGENT';
 
-// Role hierarchy - kept for reference only
+export const ROLES: UserRole[] = ['ADMIN', 'MANAGER', 'AGENT'];
+
+// Role hierarchy
 const ROLE_HIERARCHY: Record<UserRole, number> = {
   ADMIN: 3,
   MANAGER: 2,
@@ -13,43 +16,43 @@ const ROLE_HIERARCHY: Record<UserRole, number> = {
 
 /**
  * Check if a user has at least the required role level
- * @deprecated All users now have full access - always returns true for authenticated users
  */
-export function hasRole(userRole: string | null | undefined, _requiredRole: UserRole): boolean {
-  // All authenticated users have access
-  return !!userRole;
+export function hasRole(userRole: string | null | undefined, requiredRole: UserRole): boolean {
+  return getRoleLevel(userRole) >= ROLE_HIERARCHY[requiredRole];
 }
 
 /**
  * Check if user is admin
- * @deprecated All users now have full access - always returns true for authenticated users
  */
 export function isAdmin(userRole: string | null | undefined): boolean {
-  return !!userRole;
+  return hasRole(userRole, 'ADMIN');
 }
 
 /**
  * Check if user is at least manager
- * @deprecated All users now have full access - always returns true for authenticated users
  */
 export function isManager(userRole: string | null | undefined): boolean {
-  return !!userRole;
+  return hasRole(userRole, 'MANAGER');
 }
 
 /**
  * Check if user is at least agent (any authenticated user)
  */
 export function isAgent(userRole: string | null | undefined): boolean {
-  return !!userRole;
+  return hasRole(userRole, 'AGENT');
 }
 
-// Permission definitions - kept for reference only
+// Default permission matrix (used until an admin overrides it)
 export const PERMISSIONS = {
   // Client permissions
   CLIENTS_VIEW: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
   CLIENTS_CREATE: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
   CLIENTS_EDIT: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
-  CLIENTS_DELETE: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
+  CLIENTS_DELETE: ['ADMIN', 'MANAGER'] as UserRole[],
+  CLIENTS_ASSIGN: ['ADMIN', 'MANAGER'] as UserRole[],
+  CLIENTS_IMPORT: ['ADMIN', 'MANAGER'] as UserRole[],
+  CLIENTS_EXPORT: ['ADMIN', 'MANAGER'] as UserRole[],
+  CLIENTS_MERGE: ['ADMIN', 'MANAGER'] as UserRole[],
 
   // Activity permissions
   ACTIVITIES_VIEW: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
@@ -61,29 +64,81 @@ export const PERMISSIONS = {
   // Enrichment
   ENRICHMENT_VIEW: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
   ENRICHMENT_RUN: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
+  ENRICHMENT_BULK: ['ADMIN', 'MANAGER'] as UserRole[],
+
+  // Messaging
+  MESSAGES_VIEW: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
+  MESSAGES_SEND: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
+  TEMPLATES_MANAGE: ['ADMIN', 'MANAGER'] as UserRole[],
 
   // Quota management
   QUOTAS_VIEW: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
-  QUOTAS_RESET: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
+  QUOTAS_RESET: ['ADMIN'] as UserRole[],
 
   // Admin
-  USERS_MANAGE: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
-  SETTINGS_MANAGE: ['ADMIN', 'MANAGER', 'AGENT'] as UserRole[],
+  API_KEYS_MANAGE: ['ADMIN'] as UserRole[],
+  USERS_MANAGE: ['ADMIN'] as UserRole[],
+  SETTINGS_MANAGE: ['ADMIN'] as UserRole[],
 } as const;
 
 export type Permission = keyof typeof PERMISSIONS;
 
+export type PermissionMatrix = Record<Permission, UserRole[]>;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Human readable labels for the roles settings page
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  CLIENTS_VIEW: 'Ver clientes',
+  CLIENTS_CREATE: 'Crear clientes',
+  CLIENTS_EDIT: 'Editar clientes',
+  CLIENTS_DELETE: 'Eliminar clientes',
+  CLIENTS_ASSIGN: 'Asignar clientes a usuarios',
+  CLIENTS_IMPORT: 'Importar clientes',
+  CLIENTS_EXPORT: 'Exportar clientes',
+  CLIENTS_MERGE: 'Detectar y fusionar duplicados',
+  ACTIVITIES_VIEW: 'Ver actividades',
+  ACTIVITIES_CREATE: 'Registrar actividades',
+  STATS_VIEW: 'Ver estadisticas',
+  ENRICHMENT_VIEW: 'Ver enriquecimiento',
+  ENRICHMENT_RUN: 'Ejecutar enriquecimiento',
+  ENRICHMENT_BULK: 'Enriquecimiento masivo',
+  MESSAGES_VIEW: 'Ver mensajes',
+  MESSAGES_SEND: 'Enviar mensajes',
+  TEMPLATES_MANAGE: 'Gestionar plantillas',
+  QUOTAS_VIEW: 'Ver quotas',
+  QUOTAS_RESET: 'Resetear quotas',
+  API_KEYS_MANAGE: 'Gestionar API keys',
+  USERS_MANAGE: 'Gestionar roles y permisos',
+  SETTINGS_MANAGE: 'Gestionar configuracion',
+};
+
+/**
+ * Check if user has a specific permission.
+ * ADMIN always has every permission so it can't be locked out of the roles page.
+ */
+export function hasPermission(
+  userRole: string | null | undefined,
+  permission: Permission,
+  matrix: PermissionMatrix = PERMISSIONS
+): boolean {
+  if (!userRole) return false;
+  if (userRole === 'ADMIN') return true;
+  return matrix[permission]?.includes(userRole as UserRole) ?? false;
+}
+
 /**
- * Check if user has a specific permission
- * @deprecated All users now have full access - always returns true for authenticated users
+ * List the permissions granted to a role in the given matrix
  */
-export function hasPermission(userRole: string | null | undefined, _permission: Permission): boolean {
-  // All authenticated users have all permissions
-  return !!userRole;
+export function getPermissionsForRole(
+  userRole: string | null | undefined,
+  matrix: PermissionMatrix = PERMISSIONS
+): Permission[] {
+  return ALL_PERMISSIONS.filter((permission) => hasPermission(userRole, permission, matrix));
 }
 
 /**
- * Get actual role level (for display purposes only)
+ * Get actual role level (0 for unknown roles)
  */
 export function getRoleLevel(userRole: string | null | undefined): number {
   if (!userRole) return 0;
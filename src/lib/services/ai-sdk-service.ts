@@ -1,12 +1,16 @@
 /**
  * Multi-SDK AI Service
- * Unified interface for multiple AI providers: OpenAI, Gemini, Grok, DeepSeek
+ * Unified interface for multiple AI providers: OpenAI, Gemini, Grok, DeepSeek,
+ * plus any OpenAI-compatible endpoint configured in Settings (ProveedorIA)
  */
 
 import { ApiKeyService } from './api-key-service';
+import { ProveedoresIAService } from './proveedores-ia-service';
+import { UsoIAService } from './uso-ia-service';
 import { logger } from '@/lib/logger';
 import { CircuitBreaker } from '@/lib/circuit-breaker';
-import type { AIProvider } from '@/types/enrichment';
+import type { AIProvider, AIProviderOption, AIUsageAttribution, BuiltInAIProvider } from '@/types/enrichment';
+import { PROVIDER_INFO } from '@/types/enrichment';
 
 // One circuit breaker per AI provider to isolate failures
 const providerCircuitBreakers: Record<string, CircuitBreaker> = {};
@@ -37,6 +41,8 @@ export interface AICompletionOptions {
   maxTokens?: number;
   /** Timeout in milliseconds for the AI provider call. Default: 30000 (30s) */
   timeoutMs?: number;
+  /** User and client the call's cost is charged to */
+  attribution?: AIUsageAttribution;
 }
 
 export interface AICompletionResult {
@@ -50,36 +56,59 @@ export interface AICompletionResult {
   };
 }
 
-// Provider-specific API configurations
-const PROVIDER_CONFIGS: Record<AIProvider, { baseUrl: string; authHeader: string }> = {
+type ProviderApi = 'openai' | 'gemini';
+
+// Built-in providers: Gemini has its own API, the rest speak OpenAI's
+const BUILT_IN_PROVIDERS: Record<BuiltInAIProvider, { api: ProviderApi; baseUrl: string; defaultModel: string }> = {
   openai: {
+    api: 'openai',
     baseUrl: 'https://api.openai.com/v1',
-    authHeader: 'Authorization',
+    defaultModel: 'gpt-4o-mini',
   },
   gemini: {
+    api: 'gemini',
     baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
-    authHeader: 'x-goog-api-key',
+    defaultModel: 'gemini-2.5-flash',
   },
   grok: {
+    api: 'openai',
     baseUrl: 'https://api.x.ai/v1',
-    authHeader: 'Authorization',
+    defaultModel: 'grok-beta',
   },
   deepseek: {
+    api: 'openai',
     baseUrl: 'https://api.deepseek.com/v1',
-    authHeader: 'Authorization',
+    defaultModel: 'deepseek-chat',
   },
 };
 
+// Everything needed to call a provider, built-in or custom
+interface ProviderEndpoint {
+  api: ProviderApi;
+  baseUrl: string;
+  // Local endpoints usually need none
+  apiKey: string | null;
+  headers: Record<string, string>;
+  model: string;
+  timeoutMs: number | null;
+  custom: boolean;
+}
+
+function isBuiltInProvider(provider: AIProvider): provider is BuiltInAIProvider {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_PROVIDERS, provider);
+}
+
 /**
- * Call OpenAI-compatible API (OpenAI, Grok, DeepSeek)
+ * Call OpenAI-compatible API (OpenAI, Grok, DeepSeek, custom providers)
  */
 async function callOpenAICompatible(
   baseUrl: string,
-  apiKey: string,
+  apiKey: string | null,
   model: string,
   messages: AIMessage[],
   options: AICompletionOptions,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  extraHeaders: Record<string, string> = {}
 ): Promise<AICompletionResult & { provider: AIProvider }> {
   const requestBody = {
     model,
@@ -111,7 +140,8 @@ async function callOpenAICompatible(
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      ...extraHeaders,
     },
     body: JSON.stringify(requestBody),
     signal,
@@ -172,6 +202,7 @@ async function callOpenAICompatible(
  * Call Google Gemini API
  */
 async function callGemini(
+  baseUrl: string,
   apiKey: string,
   model: string,
   messages: AIMessage[],
@@ -207,7 +238,7 @@ async function callGemini(
   const startTime = Date.now();
 
   const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    `${baseUrl}/models/${model}:generateContent?key=${apiKey}`,
     {
       method: 'POST',
       headers: {
@@ -284,9 +315,23 @@ export class AISdkService {
    * Get all available (enabled) AI providers
    */
   static async getAvailableProviders(): Promise<AIProvider[]> {
-    const keys = await ApiKeyService.getEnabledByCategory('ai');
-    // When category is 'ai', all providers are AIProvider type
-    return keys.map(k => k.provider as AIProvider);
+    const options = await this.getAvailableProviderOptions();
+    return options.map(o => o.id);
+  }
+
+  /**
+   * Available AI providers with their display names: built-in ones with a key,
+   * then the enabled custom ones
+   */
+  static async getAvailableProviderOptions(): Promise<AIProviderOption[]> {
+    const [keys, custom] = await Promise.all([
+      ApiKeyService.getEnabledByCategory('ai'),
+      ProveedoresIAService.getEnabled(),
+    ]);
+    return [
+      ...keys.map(k => ({ id: k.provider, name: PROVIDER_INFO[k.provider].name })),
+      ...custom,
+    ];
   }
 
   /**
@@ -297,70 +342,48 @@ export class AISdkService {
     messages: AIMessage[],
     options: AICompletionOptions = {}
   ): Promise<AICompletionResult> {
-    const apiKey = await ApiKeyService.getByProvider(provider);
+    const endpoint = await this.getEndpoint(provider);
 
-    if (!apiKey || !apiKey.enabled) {
+    if (!endpoint) {
       throw new Error(`Provider ${provider} is not configured or disabled`);
     }
 
-    const model = apiKey.model ?? this.getDefaultModel(provider);
+    const { model } = endpoint;
+
+    // Over budget is not a provider failure: checked outside the circuit breaker
+    await UsoIAService.comprobarPresupuesto(provider);
 
     const circuitBreaker = getProviderCircuitBreaker(provider);
-    const timeoutMs = options.timeoutMs ?? DEFAULT_AI_TIMEOUT_MS;
+    const timeoutMs = options.timeoutMs ?? endpoint.timeoutMs ?? DEFAULT_AI_TIMEOUT_MS;
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
       const result = await circuitBreaker.execute(async () => {
-        let innerResult: AICompletionResult;
-
-        switch (provider) {
-          case 'openai':
-            innerResult = await callOpenAICompatible(
-              PROVIDER_CONFIGS.openai.baseUrl,
-              apiKey.apiKey,
-              model,
-              messages,
-              options,
-              controller.signal
-            );
-            break;
-
-          case 'gemini':
-            innerResult = await callGemini(apiKey.apiKey, model, messages, options, controller.signal);
-            break;
-
-          case 'grok':
-            innerResult = await callOpenAICompatible(
-              PROVIDER_CONFIGS.grok.baseUrl,
-              apiKey.apiKey,
-              model,
-              messages,
-              options,
-              controller.signal
-            );
-            break;
-
-          case 'deepseek':
-            innerResult = await callOpenAICompatible(
-              PROVIDER_CONFIGS.deepseek.baseUrl,
-              apiKey.apiKey,
-              model,
-              messages,
-              options,
-              controller.signal
-            );
-            break;
-
-          default:
-            throw new Error(`Unsupported provider: ${provider}`);
+        if (endpoint.api === 'gemini') {
+          if (!endpoint.apiKey) throw new Error(`Provider ${provider} has no API key`);
+          return callGemini(endpoint.baseUrl, endpoint.apiKey, model, messages, options, controller.signal);
         }
 
-        return innerResult;
+        return callOpenAICompatible(
+          endpoint.baseUrl,
+          endpoint.apiKey,
+          model,
+          messages,
+          options,
+          controller.signal,
+          endpoint.headers
+        );
       });
 
       // Mark the key as used
-      await ApiKeyService.markUsed(provider);
+      if (endpoint.custom) {
+        await ProveedoresIAService.markUsed(provider);
+      } else {
+        await ApiKeyService.markUsed(provider as BuiltInAIProvider);
+      }
+
+      await UsoIAService.registrar(provider, model, result.usage, options.attribution);
 
       return {
         ...result,
@@ -381,12 +404,14 @@ export class AISdkService {
   }
 
   /**
-   * Call multiple providers and return all results
+   * Call multiple providers and return all results.
+   * onSettled is called as each provider answers or fails, in arrival order.
    */
   static async completeMultiple(
     providers: AIProvider[],
     messages: AIMessage[],
-    options: AICompletionOptions = {}
+    options: AICompletionOptions = {},
+    onSettled?: (provider: AIProvider, result: AICompletionResult | null, error?: string) => void
   ): Promise<{ results: AICompletionResult[]; errors: { provider: AIProvider; error: string }[] }> {
     const results: AICompletionResult[] = [];
     const errors: { provider: AIProvider; error: string }[] = [];
@@ -396,11 +421,11 @@ export class AISdkService {
         try {
           const result = await this.complete(provider, messages, options);
           results.push(result);
+          onSettled?.(provider, result);
         } catch (error) {
-          errors.push({
-            provider,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          errors.push({ provider, error: message });
+          onSettled?.(provider, null, message);
         }
       })
     );
@@ -409,21 +434,38 @@ export class AISdkService {
   }
 
   /**
-   * Get default model for a provider
+   * How to call a provider: a built-in one with its API key, or a custom one.
+   * null when it's not configured or disabled.
    */
-  private static getDefaultModel(provider: AIProvider): string {
-    switch (provider) {
-      case 'openai':
-        return 'gpt-4o-mini';
-      case 'gemini':
-        return 'gemini-2.5-flash';
-      case 'grok':
-        return 'grok-beta';
-      case 'deepseek':
-        return 'deepseek-chat';
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
+  private static async getEndpoint(provider: AIProvider): Promise<ProviderEndpoint | null> {
+    if (isBuiltInProvider(provider)) {
+      const apiKey = await ApiKeyService.getByProvider(provider);
+      if (!apiKey || !apiKey.enabled) return null;
+
+      const builtIn = BUILT_IN_PROVIDERS[provider];
+      return {
+        api: builtIn.api,
+        baseUrl: builtIn.baseUrl,
+        apiKey: apiKey.apiKey,
+        headers: {},
+        model: apiKey.model ?? builtIn.defaultModel,
+        timeoutMs: null,
+        custom: false,
+      };
     }
+
+    const config = await ProveedoresIAService.getConfig(provider);
+    if (!config) return null;
+
+    return {
+      api: 'openai',
+      baseUrl: config.baseUrl,
+      apiKey: config.apiKey,
+      headers: config.cabeceras,
+      model: config.modelo,
+      timeoutMs: config.timeoutMs,
+      custom: true,
+    };
   }
 
   /**
@@ -0,0 +1,74 @@
+import { prisma } from '@/lib/prisma';
+import { FILTRO_ASIGNADO } from '@/lib/constants';
+import type { Prisma, UserRole } from '@prisma/client';
+
+export interface UsuarioAsignable {
+  id: string;
+  name: string | null;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * Service for client ownership (assigned user + collaborators)
+ */
+export class AsignacionService {
+  /**
+   * Users that clients can be assigned to
+   */
+  static async getUsuariosAsignables(): Promise<UsuarioAsignable[]> {
+    return prisma.user.findMany({
+      select: { id: true, name: true, email: true, role: true },
+      orderBy: [{ name: 'asc' }, { email: 'asc' }],
+    });
+  }
+
+  /**
+   * Resolve the given ids to users, returning null if any of them doesn't exist
+   */
+  static async resolverUsuarios(ids: string[]): Promise<Map<string, UsuarioAsignable> | null> {
+    const uniqueIds = Array.from(new Set(ids));
+    if (uniqueIds.length === 0) return new Map();
+
+    const usuarios = await prisma.user.findMany({
+      where: { id: { in: uniqueIds } },
+      select: { id: true, name: true, email: true, role: true },
+    });
+
+    if (usuarios.length !== uniqueIds.length) return null;
+
+    return new Map(usuarios.map((u) => [u.id, u]));
+  }
+
+  /**
+   * Build the where clause for the "Asignado a" filter.
+   * "me" matches clients owned by the user or where they collaborate.
+   */
+  static buildFiltroAsignado(
+    filtro: string | undefined,
+    currentUserId: string
+  ): Prisma.ClienteWhereInput | null {
+    if (!filtro || filtro === FILTRO_ASIGNADO.TODOS) return null;
+
+    if (filtro === FILTRO_ASIGNADO.SIN_ASIGNAR) {
+      return { asignadoAId: null };
+    }
+
+    const userId = filtro === FILTRO_ASIGNADO.MIOS ? currentUserId : filtro;
+
+    return {
+      OR: [
+        { asignadoAId: userId },
+        { colaboradores: { some: { id: userId } } },
+      ],
+    };
+  }
+
+  /**
+   * Display name used in activity logs
+   */
+  static nombreUsuario(usuario: { name: string | null; email: string } | null | undefined): string | null {
+    if (!usuario) return null;
+    return usuario.name || usuario.email;
+  }
+}
@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/prisma';
+import { getBaseUrl } from '@/lib/env';
+import { crearToken, leerToken } from '@/lib/firma';
+import { htmlParaEnvio, messageIdMensaje } from './seguimiento-service';
+import { EntregabilidadService, normalizarEmail } from './entregabilidad-service';
+
+const CONTEXTO = 'baja';
+
+export const tokenBaja = (mensajeId: string) => crearToken(CONTEXTO, mensajeId);
+
+const escaparHtml = (texto: string) =>
+  texto.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Body and headers to hand to Resend for a message: tracking (if enabled),
+ * an unsubscribe footer, the one-click List-Unsubscribe headers (RFC 8058) and
+ * the Message-ID replies are matched by. The footer goes in after tracking so
+ * its link is never rewritten.
+ */
+export function contenidoEnvio(mensaje: { id: string; cuerpo: string; seguimiento: boolean }) {
+  const baseUrl = getBaseUrl();
+  const token = tokenBaja(mensaje.id);
+  const html = htmlParaEnvio(mensaje);
+
+  const pie =
+    '<p style="margin-top:24px;font-size:12px;color:#6b7280">' +
+    `Si no quieres recibir más emails nuestros, <a href="${escaparHtml(`${baseUrl}/baja/${token}`)}">date de baja aquí</a>.` +
+    '</p>';
+
+  return {
+    html: /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${pie}</body>`) : `${html}${pie}`,
+    headers: {
+      'List-Unsubscribe': `<${baseUrl}/api/baja/${token}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      'Message-ID': messageIdMensaje(mensaje.id),
+    },
+  };
+}
+
+/**
+ * Service for unsubscribe links: who a link belongs to and opting them out
+ */
+export class BajasService {
+  /**
+   * Address an unsubscribe link was sent to and whether it is already out.
+   * Null for invalid tokens or deleted messages.
+   */
+  static async consultar(token: string): Promise<{ destinatario: string; dadoDeBaja: boolean } | null> {
+    const mensaje = await this.getMensaje(token);
+    if (!mensaje) return null;
+
+    const supresion = await prisma.supresionEmail.findUnique({
+      where: { email: normalizarEmail(mensaje.destinatario) },
+      select: { email: true },
+    });
+
+    return { destinatario: mensaje.destinatario, dadoDeBaja: !!supresion };
+  }
+
+  /**
+   * Opt out the recipient of a message: the address is suppressed and, when the
+   * email went to the client itself (not a contact person), its email consent
+   * is revoked. Safe to call twice. False for invalid tokens.
+   */
+  static async darDeBaja(token: string): Promise<boolean> {
+    const mensaje = await this.getMensaje(token);
+    if (!mensaje) return false;
+
+    await EntregabilidadService.suprimir(mensaje.destinatario, 'BAJA', null, mensaje.id);
+
+    if (!mensaje.contactoId) {
+      await prisma.cliente.updateMany({
+        where: { id: mensaje.clienteId, consentimientoEmail: { not: 'REVOCADO' } },
+        data: { consentimientoEmail: 'REVOCADO', consentimientoActualizadoEn: new Date() },
+      });
+    }
+
+    return true;
+  }
+
+  private static async getMensaje(token: string) {
+    const mensajeId = leerToken(CONTEXTO, token);
+    if (!mensajeId) return null;
+
+    return prisma.mensaje.findFirst({
+      where: { id: mensajeId, canal: 'EMAIL', deletedAt: null },
+      select: { id: true, clienteId: true, contactoId: true, destinatario: true },
+    });
+  }
+}
@@ -1,57 +1,40 @@
 /**
  * Bulk Enrichment Service
- * Handles batch enrichment of multiple clients (max 50)
+ * Enrichment of the clients of a bulk job (see TrabajosEnriquecimientoService)
+ * and batch review of the results
  */
 
 import { prisma } from '@/lib/prisma';
 import { ConsensusService } from './consensus-service';
 import { WebsiteAnalysisService } from './website-analysis-service';
 import { logger } from '@/lib/logger';
-import { pMap } from '@/lib/concurrency';
 import type { ClientContext } from './enrichment-prompts';
-import type { AIProvider, FieldReviewStatus, ReviewableField } from '@/types/enrichment';
+import type { AIProvider, EnrichmentProgressCallback, FieldReviewStatus, ReviewableField } from '@/types/enrichment';
 import { REVIEWABLE_FIELDS } from '@/types/enrichment';
 
 export interface BulkEnrichmentOptions {
-  clienteIds: string[];
   includeAI?: boolean;
   includeWebsiteAnalysis?: boolean;
   provider?: AIProvider;
   userId: string;
+  // Live progress of the client being enriched
+  onProgress?: EnrichmentProgressCallback;
 }
 
-export interface BulkEnrichmentProgress {
-  total: number;
-  completed: number;
-  successful: number;
-  failed: number;
-  currentClientId?: string;
-  currentClientName?: string;
+export interface BulkEnrichmentItemResult {
+  clienteId: string;
+  clienteName: string;
+  success: boolean;
+  aiEnriched?: boolean;
+  websiteAnalyzed?: boolean;
+  error?: string;
+  // An enrichment threw (API down, quota...): worth another attempt
+  retryable?: boolean;
 }
 
-export interface BulkEnrichmentResult {
-  total: number;
-  successful: number;
-  failed: number;
-  results: Array<{
-    clienteId: string;
-    clienteName: string;
-    success: boolean;
-    aiEnriched?: boolean;
-    websiteAnalyzed?: boolean;
-    error?: string;
-  }>;
-}
-
-// Maximum clients per bulk operation
+// Clients listed as needing enrichment
 const MAX_BULK_SIZE = 50;
 
-// Maximum concurrent enrichment operations to avoid overwhelming external APIs
-const MAX_CONCURRENCY = 3;
-
-// Progress callback type
-type ProgressCallback = (progress: BulkEnrichmentProgress) => void;
-
 /**
  * Bulk Enrichment Service
  */
@@ -229,34 +212,17 @@ export class BulkEnrichmentService {
   }
 
   /**
-   * Run bulk enrichment on multiple clients
+   * Enrich one client of a bulk run (AI and/or website analysis). Null when the
+   * client no longer exists. Provider errors don't throw: the result carries them.
    */
-  static async enrichClients(
-    options: BulkEnrichmentOptions,
-    onProgress?: ProgressCallback
-  ): Promise<BulkEnrichmentResult> {
-    const { clienteIds, includeAI = true, includeWebsiteAnalysis = true, provider, userId } = options;
-
-    // Validate input
-    if (clienteIds.length === 0) {
-      return {
-        total: 0,
-        successful: 0,
-        failed: 0,
-        results: [],
-      };
-    }
-
-    if (clienteIds.length > MAX_BULK_SIZE) {
-      throw new Error(`Maximum ${MAX_BULK_SIZE} clients per bulk operation`);
-    }
-
-    // Get clients
-    const clientes = await prisma.cliente.findMany({
-      where: {
-        id: { in: clienteIds },
-        deletedAt: null,
-      },
+  static async enrichClient(
+    clienteId: string,
+    options: BulkEnrichmentOptions
+  ): Promise<BulkEnrichmentItemResult | null> {
+    const { includeAI = true, includeWebsiteAnalysis = true, provider, userId, onProgress } = options;
+
+    const cliente = await prisma.cliente.findFirst({
+      where: { id: clienteId, deletedAt: null },
       select: {
         id: true,
         nombre: true,
@@ -269,191 +235,135 @@ export class BulkEnrichmentService {
         notas: true,
       },
     });
+    if (!cliente) return null;
+
+    const result: BulkEnrichmentItemResult = {
+      clienteId: cliente.id,
+      clienteName: cliente.nombre,
+      success: false,
+    };
+    const errors: string[] = [];
 
-    if (clientes.length === 0) {
-      return {
-        total: 0,
-        successful: 0,
-        failed: 0,
-        results: [],
+    // AI Enrichment
+    if (includeAI) {
+      const clientContext: ClientContext = {
+        nombre: cliente.nombre,
+        email: cliente.email,
+        telefono: cliente.telefono,
+        direccion: cliente.direccion,
+        ciudad: cliente.ciudad,
+        industria: cliente.industria,
+        sitioWeb: cliente.sitioWeb,
+        notas: cliente.notas,
       };
-    }
 
-    let successful = 0;
-    let failed = 0;
-    let completed = 0;
-
-    // Process clients with limited concurrency (max MAX_CONCURRENCY at a time)
-    const results = await pMap(clientes, MAX_CONCURRENCY, async (cliente) => {
-      // Report progress
-      if (onProgress) {
-        onProgress({
-          total: clientes.length,
-          completed,
-          successful,
-          failed,
-          currentClientId: cliente.id,
-          currentClientName: cliente.nombre,
+      try {
+        const enrichResult = await ConsensusService.quickEnrich(clientContext, provider, onProgress, {
+          userId,
+          clienteId: cliente.id,
         });
-      }
 
-      const result: BulkEnrichmentResult['results'][0] = {
-        clienteId: cliente.id,
-        clienteName: cliente.nombre,
-        success: false,
-      };
+        // Save enrichment data
+        if (enrichResult.website?.value || enrichResult.description?.value) {
+          onProgress?.({ type: 'step', step: 'saving' });
+          const enrichData = {
+            website: enrichResult.website?.value ?? null,
+            websiteScore: enrichResult.website?.score ?? null,
+            description: enrichResult.description?.value ?? null,
+            descriptionScore: enrichResult.description?.score ?? null,
+            industry: enrichResult.industry?.value ?? null,
+            industryScore: enrichResult.industry?.score ?? null,
+            aiProvidersUsed: enrichResult.providersUsed
+              ? JSON.stringify(enrichResult.providersUsed)
+              : null,
+            enrichedAt: new Date(),
+            status: 'PENDING',
+            reviewedAt: null,
+            reviewedBy: null,
+          };
 
-      try {
-        // AI Enrichment
-        if (includeAI) {
-          const clientContext: ClientContext = {
-            nombre: cliente.nombre,
-            email: cliente.email,
-            telefono: cliente.telefono,
-            direccion: cliente.direccion,
-            ciudad: cliente.ciudad,
-            industria: cliente.industria,
-            sitioWeb: cliente.sitioWeb,
-            notas: cliente.notas,
+          // Build per-field statuses
+          const fieldStatuses = BulkEnrichmentService.buildFieldStatuses(enrichData);
+          const enrichDataWithFieldStatuses = {
+            ...enrichData,
+            fieldStatuses: JSON.stringify(fieldStatuses),
           };
 
-          try {
-            const enrichResult = await ConsensusService.quickEnrich(clientContext, provider);
-
-            // Save enrichment data
-            if (enrichResult.website?.value || enrichResult.description?.value) {
-              const enrichData = {
-                website: enrichResult.website?.value ?? null,
-                websiteScore: enrichResult.website?.score ?? null,
-                description: enrichResult.description?.value ?? null,
-                descriptionScore: enrichResult.description?.score ?? null,
-                industry: enrichResult.industry?.value ?? null,
-                industryScore: enrichResult.industry?.score ?? null,
-                aiProvidersUsed: enrichResult.providersUsed
-                  ? JSON.stringify(enrichResult.providersUsed)
-                  : null,
-                enrichedAt: new Date(),
-                status: 'PENDING',
-                reviewedAt: null,
-                reviewedBy: null,
-              };
-
-              // Build per-field statuses
-              const fieldStatuses = BulkEnrichmentService.buildFieldStatuses(enrichData);
-              const enrichDataWithFieldStatuses = {
-                ...enrichData,
-                fieldStatuses: JSON.stringify(fieldStatuses),
-              };
-
-              await prisma.clienteEnrichment.create({
-                data: {
-                  clienteId: cliente.id,
-                  ...enrichDataWithFieldStatuses,
-                },
-              });
-
-              // Update enrichmentStatus and ultimaIA on Cliente
-              await prisma.cliente.update({
-                where: { id: cliente.id },
-                data: { enrichmentStatus: 'PENDING', ultimaIA: new Date() },
-              });
-
-              result.aiEnriched = true;
-            }
-          } catch (aiError) {
-            logger.warn('AI enrichment failed for client', {
+          await prisma.clienteEnrichment.create({
+            data: {
               clienteId: cliente.id,
-              error: aiError instanceof Error ? aiError.message : String(aiError),
-            });
-          }
-        }
+              ...enrichDataWithFieldStatuses,
+              promptVersionId: enrichResult.promptVersionId ?? null,
+            },
+          });
 
-        // Website Analysis
-        if (includeWebsiteAnalysis && cliente.sitioWeb) {
-          try {
-            const analysisResult = await WebsiteAnalysisService.quickAnalysis(
-              cliente.id,
-              cliente.sitioWeb
-            );
-
-            if (analysisResult.success) {
-              result.websiteAnalyzed = true;
-            }
-          } catch (analysisError) {
-            logger.warn('Website analysis failed for client', {
-              clienteId: cliente.id,
-              error: analysisError instanceof Error ? analysisError.message : String(analysisError),
-            });
-          }
-        }
+          // Update enrichmentStatus and ultimaIA on Cliente
+          await prisma.cliente.update({
+            where: { id: cliente.id },
+            data: { enrichmentStatus: 'PENDING', ultimaIA: new Date() },
+          });
 
-        // Mark as successful if at least one enrichment worked
-        result.success = result.aiEnriched || result.websiteAnalyzed || false;
+          result.aiEnriched = true;
+        }
+      } catch (aiError) {
+        const message = aiError instanceof Error ? aiError.message : String(aiError);
+        errors.push(`IA: ${message}`);
+        logger.warn('AI enrichment failed for client', { clienteId: cliente.id, error: message });
+      }
+    }
 
-        if (result.success) {
-          successful++;
+    // Website Analysis
+    if (includeWebsiteAnalysis && cliente.sitioWeb) {
+      onProgress?.({ type: 'step', step: 'website-analysis' });
+      try {
+        const analysisResult = await WebsiteAnalysisService.quickAnalysis(
+          cliente.id,
+          cliente.sitioWeb,
+          onProgress
+        );
 
-          // Log activity (non-critical -- don't fail the enrichment if this errors)
-          try {
-            await prisma.actividad.create({
-              data: {
-                tipo: 'IA_ENRIQUECIMIENTO',
-                descripcion: `Enriquecimiento en bloque: ${[
-                  result.aiEnriched ? 'IA' : null,
-                  result.websiteAnalyzed ? 'Website' : null,
-                ]
-                  .filter(Boolean)
-                  .join(', ')}`,
-                clienteId: cliente.id,
-                usuarioId: userId,
-              },
-            });
-          } catch (activityError) {
-            logger.warn('Failed to log enrichment activity', {
-              clienteId: cliente.id,
-              error: activityError instanceof Error ? activityError.message : String(activityError),
-            });
-          }
-        } else {
-          failed++;
-          result.error = 'No enrichment data obtained';
+        if (analysisResult.success) {
+          result.websiteAnalyzed = true;
         }
-      } catch (error) {
-        failed++;
-        result.error = error instanceof Error ? error.message : 'Unknown error';
-        logger.error(
-          'Bulk enrichment failed for client',
-          error instanceof Error ? error : new Error(result.error),
-          { clienteId: cliente.id }
-        );
+      } catch (analysisError) {
+        const message = analysisError instanceof Error ? analysisError.message : String(analysisError);
+        errors.push(`Website: ${message}`);
+        logger.warn('Website analysis failed for client', { clienteId: cliente.id, error: message });
       }
+    }
 
-      completed++;
+    // Successful if at least one enrichment worked
+    result.success = result.aiEnriched || result.websiteAnalyzed || false;
+
+    if (!result.success) {
+      result.error = errors.length > 0 ? errors.join(' · ') : 'No enrichment data obtained';
+      result.retryable = errors.length > 0;
       return result;
-    });
+    }
 
-    // Final progress update
-    if (onProgress) {
-      onProgress({
-        total: clientes.length,
-        completed: clientes.length,
-        successful,
-        failed,
+    // Log activity (non-critical -- don't fail the enrichment if this errors)
+    try {
+      await prisma.actividad.create({
+        data: {
+          tipo: 'IA_ENRIQUECIMIENTO',
+          descripcion: `Enriquecimiento en bloque: ${[
+            result.aiEnriched ? 'IA' : null,
+            result.websiteAnalyzed ? 'Website' : null,
+          ]
+            .filter(Boolean)
+            .join(', ')}`,
+          clienteId: cliente.id,
+          usuarioId: userId,
+        },
+      });
+    } catch (activityError) {
+      logger.warn('Failed to log enrichment activity', {
+        clienteId: cliente.id,
+        error: activityError instanceof Error ? activityError.message : String(activityError),
       });
     }
 
-    logger.info('Bulk enrichment completed', {
-      total: clientes.length,
-      successful,
-      failed,
-    });
-
-    return {
-      total: clientes.length,
-      successful,
-      failed,
-      results,
-    };
+    return result;
   }
 
   /**
@@ -0,0 +1,202 @@
+import { randomBytes } from 'crypto';
+import type { Prisma, TipoActividad } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { CALENDARIO } from '@/lib/constants';
+import { generarCalendarioICS, type EventoICS } from '@/lib/ical';
+import { ESTADOS_ABIERTOS } from '@/lib/services/tareas-service';
+import type { EventoCalendario } from '@/types';
+
+// Activity types scheduled in the calendar (the rest are a log of what happened)
+export const TIPOS_CALENDARIO: TipoActividad[] = ['REUNION', 'LLAMADA'];
+
+const ETIQUETA_TIPO: Record<EventoCalendario['tipo'], string> = {
+  REUNION: 'Reunión',
+  LLAMADA: 'Llamada',
+  TAREA: 'Tarea',
+};
+
+const USUARIO_SELECT = { select: { id: true, name: true, email: true } } as const;
+const CLIENTE_SELECT = { select: { id: true, nombre: true } } as const;
+
+const DIA_MS = 86400000;
+const DURACION_DEFAULT_MS = CALENDARIO.DURACION_DEFAULT_MINUTOS * 60000;
+
+// Activities have no title: the first line of the description stands in for it
+const tituloDeDescripcion = (descripcion: string) => {
+  const linea = descripcion.split('\n')[0].trim();
+  return linea.length > 120 ? `${linea.slice(0, 117)}...` : linea;
+};
+
+interface RangoCalendario {
+  desde: Date;
+  hasta: Date;
+  // null = every user
+  usuarioId: string | null;
+  // Completed and cancelled tasks (the feed leaves them out)
+  incluirCerradas?: boolean;
+}
+
+const nuevoToken = () => randomBytes(24).toString('base64url');
+
+/**
+ * Service for the meetings / calls / tasks calendar and its iCalendar feed
+ */
+export class CalendarioService {
+  /**
+   * Meetings, calls and tasks within a date range, ordered by start
+   */
+  static async getEventos({ desde, hasta, usuarioId, incluirCerradas = true }: RangoCalendario): Promise<EventoCalendario[]> {
+    const whereActividades: Prisma.ActividadWhereInput = {
+      deletedAt: null,
+      tipo: { in: TIPOS_CALENDARIO },
+      ...(usuarioId && { usuarioId }),
+      // Meetings that started before the range but are still going on count too
+      OR: [
+        { fecha: { gte: desde, lt: hasta } },
+        { fecha: { lt: desde }, fechaFin: { gt: desde } },
+      ],
+    };
+
+    const whereTareas: Prisma.TareaWhereInput = {
+      deletedAt: null,
+      vencimiento: { gte: desde, lt: hasta },
+      ...(usuarioId && { asignadoAId: usuarioId }),
+      ...(!incluirCerradas && { estado: { in: ESTADOS_ABIERTOS } }),
+    };
+
+    const [actividades, tareas] = await Promise.all([
+      prisma.actividad.findMany({
+        where: whereActividades,
+        include: { cliente: CLIENTE_SELECT, usuario: USUARIO_SELECT },
+        orderBy: { fecha: 'asc' },
+      }),
+      prisma.tarea.findMany({
+        where: whereTareas,
+        include: { cliente: CLIENTE_SELECT, asignadoA: USUARIO_SELECT },
+        orderBy: { vencimiento: 'asc' },
+      }),
+    ]);
+
+    const eventos: EventoCalendario[] = [
+      ...actividades.map((actividad) => ({
+        id: actividad.id,
+        origen: 'actividad' as const,
+        tipo: actividad.tipo as EventoCalendario['tipo'],
+        titulo: tituloDeDescripcion(actividad.descripcion),
+        descripcion: actividad.descripcion,
+        inicio: actividad.fecha,
+        fin: actividad.fechaFin,
+        ubicacion: actividad.ubicacion,
+        cerrado: false,
+        cliente: actividad.cliente,
+        usuario: actividad.usuario,
+      })),
+      ...tareas.map((tarea) => ({
+        id: tarea.id,
+        origen: 'tarea' as const,
+        tipo: 'TAREA' as const,
+        titulo: tarea.titulo,
+        descripcion: tarea.descripcion,
+        inicio: tarea.vencimiento,
+        fin: null,
+        ubicacion: null,
+        cerrado: !ESTADOS_ABIERTOS.includes(tarea.estado),
+        cliente: tarea.cliente,
+        usuario: tarea.asignadoA,
+      })),
+    ];
+
+    return eventos.sort((a, b) => a.inicio.getTime() - b.inicio.getTime());
+  }
+
+  /**
+   * Move a meeting or call. Without an explicit end, the current duration is kept.
+   */
+  static async reprogramarActividad(
+    id: string,
+    fecha: Date,
+    fechaFin: Date | null | undefined
+  ) {
+    const existente = await prisma.actividad.findFirst({
+      where: { id, deletedAt: null, tipo: { in: TIPOS_CALENDARIO } },
+    });
+    if (!existente) return null;
+
+    const nuevoFin = fechaFin !== undefined
+      ? fechaFin
+      : existente.fechaFin && new Date(fecha.getTime() + existente.fechaFin.getTime() - existente.fecha.getTime());
+
+    return prisma.actividad.update({
+      where: { id },
+      data: { fecha, fechaFin: nuevoFin },
+    });
+  }
+
+  static async getActividad(id: string) {
+    return prisma.actividad.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true, tipo: true, usuarioId: true },
+    });
+  }
+
+  /**
+   * Secret token of the user's feed, created on first use
+   */
+  static async getToken(usuarioId: string): Promise<string> {
+    const usuario = await prisma.user.findUnique({
+      where: { id: usuarioId },
+      select: { calendarioToken: true },
+    });
+
+    return usuario?.calendarioToken ?? this.regenerarToken(usuarioId);
+  }
+
+  /**
+   * Replace the feed token; subscriptions with the old URL stop working
+   */
+  static async regenerarToken(usuarioId: string): Promise<string> {
+    const { calendarioToken } = await prisma.user.update({
+      where: { id: usuarioId },
+      data: { calendarioToken: nuevoToken() },
+      select: { calendarioToken: true },
+    });
+
+    return calendarioToken!;
+  }
+
+  /**
+   * iCalendar feed of a token's owner: their meetings, calls and open tasks
+   * around today. Returns null for unknown tokens.
+   */
+  static async generarFeed(token: string, baseUrl: string): Promise<string | null> {
+    const usuario = await prisma.user.findUnique({
+      where: { calendarioToken: token },
+      select: { id: true, name: true, email: true },
+    });
+    if (!usuario) return null;
+
+    const ahora = Date.now();
+    const eventos = await this.getEventos({
+      desde: new Date(ahora - CALENDARIO.FEED_DIAS_PASADOS * DIA_MS),
+      hasta: new Date(ahora + CALENDARIO.FEED_DIAS_FUTUROS * DIA_MS),
+      usuarioId: usuario.id,
+      incluirCerradas: false,
+    });
+
+    const eventosICS: EventoICS[] = eventos.map((evento) => ({
+      uid: `${evento.origen}-${evento.id}@crm`,
+      inicio: evento.inicio,
+      fin: evento.fin ?? new Date(evento.inicio.getTime() + DURACION_DEFAULT_MS),
+      titulo: evento.cliente
+        ? `${ETIQUETA_TIPO[evento.tipo]} · ${evento.cliente.nombre}`
+        : `${ETIQUETA_TIPO[evento.tipo]}: ${evento.titulo}`,
+      descripcion: evento.origen === 'tarea' && evento.cliente
+        ? [evento.titulo, evento.descripcion].filter(Boolean).join('\n\n')
+        : evento.descripcion,
+      ubicacion: evento.ubicacion,
+      url: evento.cliente ? `${baseUrl}/clientes/${evento.cliente.id}` : `${baseUrl}/tareas`,
+    }));
+
+    return generarCalendarioICS(`CRM - ${usuario.name || usuario.email}`, eventosICS);
+  }
+}
@@ -3,8 +3,9 @@
  * Combines results from multiple AI providers to get the most accurate data
  */
 
-import { AISdkService, type AIMessage, type AICompletionOptions } from './ai-sdk-service';
+import { AISdkService, type AIMessage, type AICompletionOptions, type AICompletionResult } from './ai-sdk-service';
 import { SettingsService } from './settings-service';
+import { PromptsIAService } from './prompts-ia-service';
 import { logger } from '@/lib/logger';
 import {
   getEnrichmentSystemPrompt,
@@ -12,7 +13,7 @@ import {
   getConsensusPrompt,
   type ClientContext,
 } from './enrichment-prompts';
-import type { AIProvider } from '@/types/enrichment';
+import type { AIProvider, AIUsageAttribution, EnrichmentProgressCallback, MatchMode } from '@/types/enrichment';
 
 export interface EnrichmentFieldResult<T> {
   value: T | null;
@@ -33,8 +34,13 @@ export interface EnrichmentResult {
   socialProfiles: EnrichmentFieldResult<Record<string, string>> | null;
   providersUsed: AIProvider[];
   errors: Array<{ provider: AIProvider; error: string }>;
+  // Prompt version the result was produced with
+  promptVersionId: string;
 }
 
+// Result keys that aren't enriched fields
+const METADATA_KEYS = ['providersUsed', 'errors', 'promptVersionId'];
+
 interface ProviderResult {
   provider: AIProvider;
   data: Record<string, { value: unknown; score: number; source?: string } | null>;
@@ -45,11 +51,14 @@ interface ProviderResult {
  */
 export class ConsensusService {
   /**
-   * Enrich a client using multiple AI providers
+   * Enrich a client using multiple AI providers.
+   * AI spend is charged to `attribution`.
    */
   static async enrichClient(
     client: ClientContext,
-    fieldsToEnrich?: string[]
+    fieldsToEnrich?: string[],
+    onProgress?: EnrichmentProgressCallback,
+    attribution?: AIUsageAttribution
   ): Promise<EnrichmentResult> {
     logger.info('[Consensus] Starting enrichment', {
       clientName: client.nombre,
@@ -99,10 +108,13 @@ export class ConsensusService {
     logger.debug('[Consensus] Fields to enrich', { fields });
 
     // Build messages
-    const systemPrompt = getEnrichmentSystemPrompt(settings.matchMode as 'exact' | 'fuzzy' | 'broad');
-    const userPrompt = getEnrichmentPrompt(client, fields);
+    const matchMode = settings.matchMode as MatchMode;
+    const prompts = await PromptsIAService.getActivos();
+    const systemPrompt = getEnrichmentSystemPrompt(matchMode, prompts.sistema);
+    const userPrompt = getEnrichmentPrompt(client, fields, matchMode, prompts.enriquecimiento);
 
     logger.debug('[Consensus] Prompts generated', {
+      promptVersion: prompts.numero,
       systemPromptLength: systemPrompt.length,
       userPromptLength: userPrompt.length,
     });
@@ -116,6 +128,7 @@ export class ConsensusService {
       temperature: settings.temperature,
       topP: settings.topP,
       maxTokens: 2000,
+      attribution,
     };
 
     // Call all available providers
@@ -123,25 +136,11 @@ export class ConsensusService {
       providers: availableProviders,
     });
 
-    const startTime = Date.now();
-    const { results, errors } = await AISdkService.completeMultiple(
-      availableProviders,
-      messages,
-      options
-    );
-    const elapsed = Date.now() - startTime;
-
-    logger.info('[Consensus] All providers responded', {
-      elapsed,
-      successCount: results.length,
-      errorCount: errors.length,
-      errors: errors.map(e => ({ provider: e.provider, error: e.error })),
-    });
-
-    // Parse results from each provider
+    // Results are parsed as each provider answers, so progress reports them live
     const providerResults: ProviderResult[] = [];
+    const parseErrors: Array<{ provider: AIProvider; error: string }> = [];
 
-    for (const result of results) {
+    const handleResult = (result: AICompletionResult) => {
       logger.debug('[Consensus] Parsing result from provider', {
         provider: result.provider,
         model: result.model,
@@ -162,18 +161,55 @@ export class ConsensusService {
           provider: result.provider,
           data: parsed,
         });
+        onProgress?.({
+          type: 'provider',
+          provider: result.provider,
+          status: 'completed',
+          fieldsFound: Object.keys(parsed).filter(k => parsed[k]?.value !== null).length,
+        });
       } else {
         logger.warn('[Consensus] Failed to parse provider result', {
           provider: result.provider,
           contentPreview: result.content.substring(0, 300),
         });
-        errors.push({
+        parseErrors.push({
           provider: result.provider,
           error: 'Failed to parse response as JSON',
         });
+        onProgress?.({ type: 'provider', provider: result.provider, status: 'failed', error: 'Failed to parse response as JSON' });
       }
+    };
+
+    onProgress?.({ type: 'step', step: 'providers' });
+    for (const provider of availableProviders) {
+      onProgress?.({ type: 'provider', provider, status: 'started' });
     }
 
+    const startTime = Date.now();
+    const { results, errors } = await AISdkService.completeMultiple(
+      availableProviders,
+      messages,
+      options,
+      (provider, result, error) => {
+        if (result) {
+          handleResult(result);
+        } else {
+          onProgress?.({ type: 'provider', provider, status: 'failed', error });
+        }
+      }
+    );
+    const elapsed = Date.now() - startTime;
+    errors.push(...parseErrors);
+
+    logger.info('[Consensus] All providers responded', {
+      elapsed,
+      successCount: results.length,
+      errorCount: errors.length,
+      errors: errors.map(e => ({ provider: e.provider, error: e.error })),
+    });
+
+    onProgress?.({ type: 'step', step: 'consensus' });
+
     // Build consensus for each field
     const enrichmentResult: EnrichmentResult = {
       website: null,
@@ -186,6 +222,7 @@ export class ConsensusService {
       socialProfiles: null,
       providersUsed: providerResults.map(r => r.provider),
       errors,
+      promptVersionId: prompts.id,
     };
 
     for (const field of fields) {
@@ -244,7 +281,7 @@ export class ConsensusService {
           providerCount: validResults.length,
           providers: validResults.map(r => r.provider),
         });
-        const consensusResult = await this.buildConsensus(field, validResults, options);
+        const consensusResult = await this.buildConsensus(field, validResults, options, prompts.consenso);
         logger.debug('[Consensus] Consensus result', {
           field,
           score: consensusResult.score,
@@ -256,7 +293,7 @@ export class ConsensusService {
 
     // Log final enrichment summary
     const enrichedFields = Object.entries(enrichmentResult)
-      .filter(([k, v]) => v !== null && k !== 'providersUsed' && k !== 'errors')
+      .filter(([k, v]) => v !== null && !METADATA_KEYS.includes(k))
       .map(([k]) => k);
 
     logger.info('[Consensus] Enrichment complete', {
@@ -275,7 +312,8 @@ export class ConsensusService {
   private static async buildConsensus(
     field: string,
     results: Array<{ provider: AIProvider; value: unknown; score: number; source?: string }>,
-    options: AICompletionOptions
+    options: AICompletionOptions,
+    template: string
   ): Promise<EnrichmentFieldResult<unknown>> {
     // Check if all values match (for simple types)
     const stringValues = results.map(r => JSON.stringify(r.value));
@@ -300,7 +338,8 @@ export class ConsensusService {
       try {
         const consensusPrompt = getConsensusPrompt(
           field,
-          results.map(r => ({ value: r.value, score: r.score, provider: r.provider }))
+          results.map(r => ({ value: r.value, score: r.score, provider: r.provider })),
+          template
         );
 
         const response = await AISdkService.complete(
@@ -347,10 +386,13 @@ export class ConsensusService {
    * Quick enrichment with provider fallback
    * - If provider is specified: use only that provider, fail if it fails
    * - If provider is undefined (auto): try each available provider sequentially until one succeeds
+   * AI spend is charged to `attribution`.
    */
   static async quickEnrich(
     client: ClientContext,
-    provider?: AIProvider
+    provider?: AIProvider,
+    onProgress?: EnrichmentProgressCallback,
+    attribution?: AIUsageAttribution
   ): Promise<Partial<EnrichmentResult>> {
     logger.info('[Consensus] Starting quick enrichment', {
       clientName: client.nombre,
@@ -366,8 +408,10 @@ export class ConsensusService {
     }
 
     const fields = ['website', 'emails', 'phones', 'address', 'description', 'industry', 'companySize', 'socialProfiles'];
-    const systemPrompt = getEnrichmentSystemPrompt(settings.matchMode as 'exact' | 'fuzzy' | 'broad');
-    const userPrompt = getEnrichmentPrompt(client, fields);
+    const matchMode = settings.matchMode as MatchMode;
+    const prompts = await PromptsIAService.getActivos();
+    const systemPrompt = getEnrichmentSystemPrompt(matchMode, prompts.sistema);
+    const userPrompt = getEnrichmentPrompt(client, fields, matchMode, prompts.enriquecimiento);
 
     const messages: AIMessage[] = [
       { role: 'system', content: systemPrompt },
@@ -377,6 +421,7 @@ export class ConsensusService {
     const options: AICompletionOptions = {
       temperature: settings.temperature,
       topP: settings.topP,
+      attribution,
     };
 
     // Specific provider mode: validate and use only that provider
@@ -384,16 +429,18 @@ export class ConsensusService {
       if (!availableProviders.includes(provider)) {
         throw new Error(`Provider '${provider}' is not available. Available: ${availableProviders.join(', ')}`);
       }
-      return this.executeQuickEnrich(provider, client, messages, options, fields, settings.minConfidenceScore);
+      onProgress?.({ type: 'step', step: 'providers' });
+      return this.executeQuickEnrich(provider, client, messages, options, fields, settings.minConfidenceScore, prompts.id, onProgress);
     }
 
     // Auto mode: try each provider sequentially with fallback
     const providerErrors: Array<{ provider: AIProvider; error: string }> = [];
+    onProgress?.({ type: 'step', step: 'providers' });
 
     for (const candidateProvider of availableProviders) {
       try {
         logger.info('[Consensus] Auto mode: trying provider', { provider: candidateProvider });
-        return await this.executeQuickEnrich(candidateProvider, client, messages, options, fields, settings.minConfidenceScore);
+        return await this.executeQuickEnrich(candidateProvider, client, messages, options, fields, settings.minConfidenceScore, prompts.id, onProgress);
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
         logger.warn('[Consensus] Auto mode: provider failed, trying next', {
@@ -421,7 +468,9 @@ export class ConsensusService {
     messages: AIMessage[],
     options: AICompletionOptions,
     fields: string[],
-    minConfidenceScore: number
+    minConfidenceScore: number,
+    promptVersionId: string,
+    onProgress?: EnrichmentProgressCallback
   ): Promise<Partial<EnrichmentResult>> {
     logger.debug('[Consensus] Quick enrich using provider', {
       provider: selectedProvider,
@@ -433,8 +482,21 @@ export class ConsensusService {
       fields,
     });
 
+    onProgress?.({ type: 'provider', provider: selectedProvider, status: 'started' });
+
     const startTime = Date.now();
-    const result = await AISdkService.complete(selectedProvider, messages, options);
+    let result: AICompletionResult;
+    try {
+      result = await AISdkService.complete(selectedProvider, messages, options);
+    } catch (error) {
+      onProgress?.({
+        type: 'provider',
+        provider: selectedProvider,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
     const elapsed = Date.now() - startTime;
 
     logger.debug('[Consensus] Quick enrich response received', {
@@ -452,6 +514,7 @@ export class ConsensusService {
       logger.error('[Consensus] Failed to parse quick enrich response', undefined, {
         contentPreview: result.content.substring(0, 500),
       });
+      onProgress?.({ type: 'provider', provider: selectedProvider, status: 'failed', error: 'Failed to parse response as JSON' });
       throw new Error(`Failed to parse AI response from ${selectedProvider}`);
     }
 
@@ -463,6 +526,7 @@ export class ConsensusService {
     const enrichmentResult: Partial<EnrichmentResult> = {
       providersUsed: [selectedProvider],
       errors: [],
+      promptVersionId,
     };
 
     for (const [field, data] of Object.entries(parsed)) {
@@ -488,9 +552,7 @@ export class ConsensusService {
       }
     }
 
-    const enrichedFields = Object.keys(enrichmentResult).filter(
-      k => k !== 'providersUsed' && k !== 'errors'
-    );
+    const enrichedFields = Object.keys(enrichmentResult).filter(k => !METADATA_KEYS.includes(k));
 
     logger.info('[Consensus] Quick enrichment complete', {
       clientName: client.nombre,
@@ -499,6 +561,8 @@ export class ConsensusService {
       enrichedFields,
     });
 
+    onProgress?.({ type: 'provider', provider: selectedProvider, status: 'completed', fieldsFound: enrichedFields.length });
+
     return enrichmentResult;
   }
 }
@@ -1,10 +1,46 @@
+import type { Cliente, ContactoCliente, Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { sendEmail } from './email-service';
-import { render } from './template-render-service';
+import { contenidoEnvio } from './bajas-service';
+import { EntregabilidadService, MENSAJE_SUPRESION } from './entregabilidad-service';
+import { ContactosService } from './contactos-service';
+import { PlantillasService } from './plantillas-service';
+import { render, validateTemplate, type TemplateValidation } from './template-render-service';
 import { htmlToWhatsApp } from './whatsapp-format-service';
+import { getWhatsAppCloudConfig, sendWhatsAppTemplate } from './whatsapp-service';
 import { registrarEmailEnviado, registrarWhatsAppEnviado } from '@/lib/actividades-automaticas';
+import { MENSAJES_PROGRAMADOS, PLANTILLAS } from '@/lib/constants';
+import { fechaLocalAUtc } from '@/lib/zona-horaria';
 import { logger } from '@/lib/logger';
 
+// Website audit and latest enrichment, for the {web.*} and {ia.*} template variables
+export const DATOS_PLANTILLA = {
+  websiteAnalysis: {
+    select: {
+      url: true,
+      performanceScore: true,
+      mobileScore: true,
+      desktopScore: true,
+      accessibilityScore: true,
+      sslValid: true,
+      hasHttps: true,
+      isResponsive: true,
+      techStack: true,
+      domainExpiresAt: true,
+      daysUntilExpiry: true,
+      domainAgeYears: true,
+      domainRegistrar: true,
+      seoTitle: true,
+      serverCountry: true,
+    },
+  },
+  enrichments: {
+    select: { description: true, industry: true, companySize: true, website: true, status: true, fieldStatuses: true },
+    orderBy: { enrichedAt: 'desc' },
+    take: 1,
+  },
+} satisfies Prisma.ClienteInclude;
+
 interface ContactResult {
   success: boolean;
   mensajeId?: string;
@@ -12,7 +48,20 @@ interface ContactResult {
 }
 
 interface WhatsAppResult extends ContactResult {
+  // wa.me link to send it by hand; none when it went out through the Cloud API
   url?: string;
+  variante?: string;
+}
+
+interface ScheduleResult extends ContactResult {
+  programadoPara?: Date;
+}
+
+interface Programacion {
+  // Wall-clock time, as in datetime-local inputs ("2026-04-20T09:00")
+  fechaLocal: string;
+  // Defaults to the client's own timezone
+  zonaHoraria?: string;
 }
 
 interface BulkResult {
@@ -24,51 +73,167 @@ interface BulkResult {
     nombre: string;
     success: boolean;
     error?: string;
+    // A/B variant the client got
+    variante?: string;
   }>;
 }
 
 interface BulkWhatsAppItem {
   clienteId: string;
   nombre: string;
-  url: string;
   mensajeId: string;
+  // wa.me link; none when it went out through the Cloud API
+  url?: string;
+  variante?: string;
+}
+
+interface DestinatarioOptions {
+  // Contact person chosen in the contact modal
+  contactoId?: string;
+  // Bulk sends: address the primary contact person when it has the channel
+  contactoPrincipal?: boolean;
+  // A/B variant of the template (the template's own content when unset)
+  variante?: string;
+}
+
+interface EnvioOptions extends DestinatarioOptions {
+  // false for callers that log their own activity (sequence steps)
+  registrarActividad?: boolean;
+}
+
+interface Destinatario {
+  direccion?: string;
+  // Person used for the {contacto*} template variables
+  contacto: ContactoCliente | null;
+  // Set only when the message is addressed to the contact person
+  contactoId: string | null;
+  error?: string;
+}
+
+async function resolverDestinatario(
+  cliente: Cliente,
+  campo: 'email' | 'whatsapp',
+  opciones: DestinatarioOptions
+): Promise<Destinatario> {
+  const canal = campo === 'email' ? 'email' : 'WhatsApp';
+
+  if (opciones.contactoId) {
+    const contacto = await prisma.contactoCliente.findFirst({
+      where: { id: opciones.contactoId, clienteId: cliente.id },
+    });
+    if (!contacto) return { contacto: null, contactoId: null, error: 'Contacto no encontrado' };
+    if (!contacto[campo]) return { contacto, contactoId: null, error: `El contacto no tiene ${canal}` };
+    return { direccion: contacto[campo]!, contacto, contactoId: contacto.id };
+  }
+
+  const principal = await ContactosService.getPrincipal(cliente.id);
+
+  if (opciones.contactoPrincipal && principal?.[campo]) {
+    return { direccion: principal[campo]!, contacto: principal, contactoId: principal.id };
+  }
+
+  if (!cliente[campo]) return { contacto: principal, contactoId: null, error: `El cliente no tiene ${canal}` };
+  return { direccion: cliente[campo]!, contacto: principal, contactoId: null };
+}
+
+function nombreDestinatario(cliente: Pick<Cliente, 'nombre'>, contacto: Pick<ContactoCliente, 'nombre'> | null): string {
+  return contacto ? `${contacto.nombre} (${cliente.nombre})` : cliente.nombre;
+}
+
+/**
+ * Load client, template and recipient of an email and render it
+ */
+async function prepararEmail(clienteId: string, plantillaId: string, opciones: DestinatarioOptions) {
+  const [cliente, plantilla] = await Promise.all([
+    prisma.cliente.findUnique({ where: { id: clienteId }, include: DATOS_PLANTILLA }),
+    prisma.plantillaContacto.findUnique({ where: { id: plantillaId } }),
+  ]);
+
+  if (!cliente) return { error: 'Cliente no encontrado' };
+  if (!plantilla) return { error: 'Plantilla no encontrada' };
+  if (plantilla.canal !== 'EMAIL') return { error: 'La plantilla no es de tipo email' };
+  if (cliente.consentimientoEmail === 'REVOCADO') return { error: 'El cliente no acepta emails (consentimiento revocado)' };
+
+  const destinatario = await resolverDestinatario(cliente, 'email', opciones);
+  if (!destinatario.direccion) return { error: destinatario.error };
+
+  const supresion = await EntregabilidadService.motivoSupresion(destinatario.direccion);
+  if (supresion) return { error: `No se envían emails a ${destinatario.direccion}: ${MENSAJE_SUPRESION[supresion]}` };
+
+  const contenido = await PlantillasService.contenidoParaEnvio(plantilla, opciones.variante);
+
+  return {
+    cliente,
+    plantilla,
+    direccion: destinatario.direccion,
+    contactoId: destinatario.contactoId,
+    // Contact person the email is addressed to, if any
+    contacto: destinatario.contactoId ? destinatario.contacto : null,
+    cuerpo: render(contenido.cuerpo, cliente, destinatario.contacto),
+    asunto: contenido.asunto ? render(contenido.asunto, cliente, destinatario.contacto) : '',
+    variante: contenido.variante,
+    versionId: contenido.versionId,
+  };
+}
+
+/**
+ * After an email went out: bump the client's last contact and log the activity.
+ * Shared by immediate sends and the scheduled messages dispatcher.
+ */
+export async function registrarEmailEntregado(
+  mensaje: { clienteId: string; usuarioId: string; asunto: string | null },
+  cliente: Pick<Cliente, 'nombre'>,
+  contacto: Pick<ContactoCliente, 'nombre'> | null,
+  plantillaNombre?: string
+): Promise<void> {
+  await prisma.cliente.update({
+    where: { id: mensaje.clienteId },
+    data: { ultimoContacto: new Date() },
+  });
+
+  await registrarEmailEnviado(
+    mensaje.clienteId,
+    mensaje.usuarioId,
+    nombreDestinatario(cliente, contacto),
+    mensaje.asunto ?? '',
+    plantillaNombre
+  );
 }
 
 export async function sendContactEmail(
   clienteId: string,
   plantillaId: string,
-  usuarioId: string
+  usuarioId: string,
+  opciones: EnvioOptions = {}
 ): Promise<ContactResult> {
   try {
-    const [cliente, plantilla] = await Promise.all([
-      prisma.cliente.findUnique({ where: { id: clienteId } }),
-      prisma.plantillaContacto.findUnique({ where: { id: plantillaId } }),
-    ]);
-
-    if (!cliente) return { success: false, error: 'Cliente no encontrado' };
-    if (!plantilla) return { success: false, error: 'Plantilla no encontrada' };
-    if (!cliente.email) return { success: false, error: 'El cliente no tiene email' };
-    if (plantilla.canal !== 'EMAIL') return { success: false, error: 'La plantilla no es de tipo email' };
-
-    const cuerpoRenderizado = render(plantilla.cuerpo, cliente);
-    const asuntoRenderizado = plantilla.asunto ? render(plantilla.asunto, cliente) : '';
+    const email = await prepararEmail(clienteId, plantillaId, opciones);
+    if (!email.cliente) return { success: false, error: email.error };
 
     // Create pending message record
     const mensaje = await prisma.mensaje.create({
       data: {
         canal: 'EMAIL',
-        destinatario: cliente.email,
-        asunto: asuntoRenderizado,
-        cuerpo: cuerpoRenderizado,
+        destinatario: email.direccion,
+        asunto: email.asunto,
+        cuerpo: email.cuerpo,
         estado: 'PENDIENTE',
+        seguimiento: email.plantilla.seguimiento,
         clienteId,
         usuarioId,
         plantillaId,
+        versionId: email.versionId,
+        variante: email.variante,
+        contactoId: email.contactoId,
       },
     });
 
     // Send via Resend
-    const result = await sendEmail(cliente.email, asuntoRenderizado, cuerpoRenderizado);
+    const { html, headers } = contenidoEnvio(mensaje);
+    const result = await sendEmail(email.direccion, email.asunto, html, {
+      idempotencyKey: mensaje.id,
+      headers,
+    });
 
     // Update message status
     await prisma.mensaje.update({
@@ -76,18 +241,18 @@ export async function sendContactEmail(
       data: {
         estado: result.success ? 'ENVIADO' : 'ERROR',
         errorDetalle: result.error || null,
+        enviadoEn: result.success ? new Date() : null,
+        resendId: result.id ?? null,
       },
     });
 
-    if (result.success) {
-      // Update ultimoContacto
+    if (result.success && opciones.registrarActividad === false) {
       await prisma.cliente.update({
         where: { id: clienteId },
         data: { ultimoContacto: new Date() },
       });
-
-      // Log activity
-      await registrarEmailEnviado(clienteId, usuarioId, cliente.nombre, asuntoRenderizado, plantilla.nombre);
+    } else if (result.success) {
+      await registrarEmailEntregado(mensaje, email.cliente, email.contacto, email.plantilla.nombre);
     }
 
     return {
@@ -102,40 +267,126 @@ export async function sendContactEmail(
   }
 }
 
+/**
+ * Queue an email for later. It is rendered now (so it can be reviewed and edited
+ * in the queue) and sent by the dispatcher cron at the given time.
+ */
+export async function scheduleContactEmail(
+  clienteId: string,
+  plantillaId: string,
+  usuarioId: string,
+  programacion: Programacion,
+  opciones: DestinatarioOptions = {}
+): Promise<ScheduleResult> {
+  try {
+    const email = await prepararEmail(clienteId, plantillaId, opciones);
+    if (!email.cliente) return { success: false, error: email.error };
+
+    const zonaHoraria = programacion.zonaHoraria
+      ?? email.cliente.zonaHoraria
+      ?? MENSAJES_PROGRAMADOS.ZONA_HORARIA_DEFAULT;
+    const programadoPara = fechaLocalAUtc(programacion.fechaLocal, zonaHoraria);
+
+    if (programadoPara <= new Date()) {
+      return { success: false, error: 'La fecha programada ya pasó' };
+    }
+
+    const mensaje = await prisma.mensaje.create({
+      data: {
+        canal: 'EMAIL',
+        destinatario: email.direccion,
+        asunto: email.asunto,
+        cuerpo: email.cuerpo,
+        estado: 'PROGRAMADO',
+        programadoPara,
+        zonaHoraria,
+        seguimiento: email.plantilla.seguimiento,
+        clienteId,
+        usuarioId,
+        plantillaId,
+        versionId: email.versionId,
+        variante: email.variante,
+        contactoId: email.contactoId,
+      },
+    });
+
+    return { success: true, mensajeId: mensaje.id, programadoPara };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Error al programar email';
+    logger.error('Schedule email error', error instanceof Error ? error : new Error(msg));
+    return { success: false, error: msg };
+  }
+}
+
 export async function prepareWhatsApp(
   clienteId: string,
   plantillaId: string,
-  usuarioId: string
+  usuarioId: string,
+  opciones: EnvioOptions = {}
 ): Promise<WhatsAppResult> {
   try {
     const [cliente, plantilla] = await Promise.all([
-      prisma.cliente.findUnique({ where: { id: clienteId } }),
+      prisma.cliente.findUnique({ where: { id: clienteId }, include: DATOS_PLANTILLA }),
       prisma.plantillaContacto.findUnique({ where: { id: plantillaId } }),
     ]);
 
     if (!cliente) return { success: false, error: 'Cliente no encontrado' };
     if (!plantilla) return { success: false, error: 'Plantilla no encontrada' };
-    if (!cliente.whatsapp) return { success: false, error: 'El cliente no tiene WhatsApp' };
     if (plantilla.canal !== 'WHATSAPP') return { success: false, error: 'La plantilla no es de tipo WhatsApp' };
+    if (cliente.consentimientoWhatsApp === 'REVOCADO') {
+      return { success: false, error: 'El cliente no acepta WhatsApp (consentimiento revocado)' };
+    }
+
+    const destinatario = await resolverDestinatario(cliente, 'whatsapp', opciones);
+    if (!destinatario.direccion) return { success: false, error: destinatario.error };
 
-    const cuerpoHtml = render(plantilla.cuerpo, cliente);
+    const contenido = await PlantillasService.contenidoParaEnvio(plantilla, opciones.variante);
+    const cuerpoHtml = render(contenido.cuerpo, cliente, destinatario.contacto);
     const cuerpoWhatsApp = htmlToWhatsApp(cuerpoHtml);
-    const phone = cliente.whatsapp.replace(/\D/g, '');
-    const url = `https://wa.me/${phone}?text=${encodeURIComponent(cuerpoWhatsApp)}`;
+    const phone = destinatario.direccion.replace(/\D/g, '');
 
-    // Save message record
+    // Templates approved in WhatsApp Business go out through the Cloud API when it
+    // is configured; otherwise the user sends them by hand from a wa.me link
+    const cloud = plantilla.whatsappTemplate ? await getWhatsAppCloudConfig() : null;
+    const url = cloud ? undefined : `https://wa.me/${phone}?text=${encodeURIComponent(cuerpoWhatsApp)}`;
+
+    // Save message record. The body is our copy of the approved template, for the history.
     const mensaje = await prisma.mensaje.create({
       data: {
         canal: 'WHATSAPP',
-        destinatario: cliente.whatsapp,
+        destinatario: cloud ? phone : destinatario.direccion,
         cuerpo: cuerpoWhatsApp,
-        estado: 'ENVIADO',
+        // wa.me: only a link was prepared, so it isn't counted as sent
+        estado: cloud ? 'PENDIENTE' : 'MANUAL',
         clienteId,
         usuarioId,
         plantillaId,
+        versionId: contenido.versionId,
+        variante: contenido.variante,
+        contactoId: destinatario.contactoId,
       },
     });
 
+    if (cloud) {
+      const result = await sendWhatsAppTemplate(cloud, phone, {
+        nombre: plantilla.whatsappTemplate!,
+        idioma: plantilla.whatsappIdioma || PLANTILLAS.WHATSAPP_IDIOMA_DEFAULT,
+        parametros: plantilla.whatsappParametros.map((parametro) => render(parametro, cliente, destinatario.contacto)),
+      });
+
+      await prisma.mensaje.update({
+        where: { id: mensaje.id },
+        data: {
+          estado: result.success ? 'ENVIADO' : 'ERROR',
+          errorDetalle: result.error || null,
+          enviadoEn: result.success ? new Date() : null,
+          whatsappId: result.id ?? null,
+        },
+      });
+
+      if (!result.success) return { success: false, mensajeId: mensaje.id, error: result.error };
+    }
+
     // Update ultimoContacto
     await prisma.cliente.update({
       where: { id: clienteId },
@@ -143,10 +394,18 @@ export async function prepareWhatsApp(
     });
 
     // Log activity
-    const preview = cuerpoWhatsApp.substring(0, 100);
-    await registrarWhatsAppEnviado(clienteId, usuarioId, cliente.nombre, preview, plantilla.nombre);
+    if (opciones.registrarActividad !== false) {
+      const preview = cuerpoWhatsApp.substring(0, 100);
+      await registrarWhatsAppEnviado(
+        clienteId,
+        usuarioId,
+        nombreDestinatario(cliente, destinatario.contactoId ? destinatario.contacto : null),
+        preview,
+        plantilla.nombre
+      );
+    }
 
-    return { success: true, mensajeId: mensaje.id, url };
+    return { success: true, mensajeId: mensaje.id, url, variante: contenido.variante };
   } catch (error) {
     const msg = error instanceof Error ? error.message : 'Error al preparar WhatsApp';
     logger.error('WhatsApp prepare error', error instanceof Error ? error : new Error(msg));
@@ -157,7 +416,8 @@ export async function prepareWhatsApp(
 export async function sendBulkEmail(
   clienteIds: string[],
   plantillaId: string,
-  usuarioId: string
+  usuarioId: string,
+  opciones: Pick<DestinatarioOptions, 'contactoPrincipal'> = {}
 ): Promise<BulkResult> {
   const result: BulkResult = {
     total: clienteIds.length,
@@ -166,8 +426,11 @@ export async function sendBulkEmail(
     details: [],
   };
 
+  const variantes = await PlantillasService.repartirVariantes(plantillaId, clienteIds);
+
   for (const clienteId of clienteIds) {
-    const sendResult = await sendContactEmail(clienteId, plantillaId, usuarioId);
+    const variante = variantes.get(clienteId);
+    const sendResult = await sendContactEmail(clienteId, plantillaId, usuarioId, { ...opciones, variante });
     const cliente = await prisma.cliente.findUnique({
       where: { id: clienteId },
       select: { nombre: true },
@@ -178,6 +441,7 @@ export async function sendBulkEmail(
       nombre: cliente?.nombre || 'Desconocido',
       success: sendResult.success,
       error: sendResult.error,
+      variante,
     };
 
     if (sendResult.success) {
@@ -192,13 +456,97 @@ export async function sendBulkEmail(
   return result;
 }
 
+/**
+ * Queue an email per client. Without an explicit timezone the time is taken in
+ * each client's own timezone (09:00 is 09:00 for every recipient).
+ */
+export async function scheduleBulkEmail(
+  clienteIds: string[],
+  plantillaId: string,
+  usuarioId: string,
+  programacion: Programacion,
+  opciones: Pick<DestinatarioOptions, 'contactoPrincipal'> = {}
+): Promise<BulkResult> {
+  const result: BulkResult = {
+    total: clienteIds.length,
+    successful: 0,
+    failed: 0,
+    details: [],
+  };
+
+  const clientes = await prisma.cliente.findMany({
+    where: { id: { in: clienteIds } },
+    select: { id: true, nombre: true },
+  });
+  const variantes = await PlantillasService.repartirVariantes(plantillaId, clienteIds);
+
+  for (const clienteId of clienteIds) {
+    const variante = variantes.get(clienteId);
+    const scheduleResult = await scheduleContactEmail(
+      clienteId,
+      plantillaId,
+      usuarioId,
+      programacion,
+      { ...opciones, variante }
+    );
+
+    if (scheduleResult.success) {
+      result.successful++;
+    } else {
+      result.failed++;
+    }
+
+    result.details.push({
+      clienteId,
+      nombre: clientes.find((c) => c.id === clienteId)?.nombre || 'Desconocido',
+      success: scheduleResult.success,
+      error: scheduleResult.error,
+      variante,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Dry run of a bulk send: the template's syntax and which clients would get
+ * empty variables. Null when the template does not exist.
+ */
+export async function revisarPlantillaMasiva(
+  clienteIds: string[],
+  plantillaId: string,
+  opciones: Pick<DestinatarioOptions, 'contactoPrincipal'> = {}
+): Promise<TemplateValidation | null> {
+  const plantilla = await prisma.plantillaContacto.findUnique({
+    where: { id: plantillaId },
+    include: { variantes: { where: { activa: true } } },
+  });
+  if (!plantilla) return null;
+
+  const clientes = await prisma.cliente.findMany({ where: { id: { in: clienteIds } }, include: DATOS_PLANTILLA });
+  const campo = plantilla.canal === 'EMAIL' ? 'email' : 'whatsapp';
+
+  const destinatarios = await Promise.all(
+    clientes.map(async (cliente) => {
+      const { contacto } = await resolverDestinatario(cliente, campo, opciones);
+      return { clienteId: cliente.id, nombre: cliente.nombre, cliente, contacto };
+    })
+  );
+
+  // Every active variant goes out to part of the recipients
+  const textos = [plantilla, ...plantilla.variantes].flatMap((p) => [p.asunto, p.cuerpo]);
+  return validateTemplate(textos.filter(Boolean).join('\n'), destinatarios);
+}
+
 export async function prepareBulkWhatsApp(
   clienteIds: string[],
   plantillaId: string,
-  usuarioId: string
+  usuarioId: string,
+  opciones: Pick<DestinatarioOptions, 'contactoPrincipal'> = {}
 ): Promise<{ items: BulkWhatsAppItem[]; errors: Array<{ clienteId: string; nombre: string; error: string }> }> {
   const items: BulkWhatsAppItem[] = [];
   const errors: Array<{ clienteId: string; nombre: string; error: string }> = [];
+  const variantes = await PlantillasService.repartirVariantes(plantillaId, clienteIds);
 
   for (const clienteId of clienteIds) {
     const cliente = await prisma.cliente.findUnique({
@@ -206,14 +554,18 @@ export async function prepareBulkWhatsApp(
       select: { nombre: true, whatsapp: true },
     });
 
-    const prepResult = await prepareWhatsApp(clienteId, plantillaId, usuarioId);
+    const prepResult = await prepareWhatsApp(clienteId, plantillaId, usuarioId, {
+      ...opciones,
+      variante: variantes.get(clienteId),
+    });
 
-    if (prepResult.success && prepResult.url) {
+    if (prepResult.success) {
       items.push({
         clienteId,
         nombre: cliente?.nombre || 'Desconocido',
-        url: prepResult.url,
         mensajeId: prepResult.mensajeId!,
+        url: prepResult.url,
+        variante: prepResult.variante,
       });
     } else {
       errors.push({
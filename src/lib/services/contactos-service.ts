@@ -0,0 +1,120 @@
+import type { ContactoCliente, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type {
+  CreateContactoClienteValidated,
+  UpdateContactoClienteValidated,
+} from '@/lib/validations/contacto';
+
+const ORDEN_CONTACTOS: Prisma.ContactoClienteOrderByWithRelationInput[] = [
+  { esPrincipal: 'desc' },
+  { createdAt: 'asc' },
+];
+
+// Empty form fields are stored as null
+function limpiar<T extends UpdateContactoClienteValidated>(data: T): T {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      typeof value === 'string' && value.trim() === '' ? null : value,
+    ])
+  ) as T;
+}
+
+export class ContactosService {
+  /**
+   * Contact persons of a client, primary first
+   */
+  static async listar(clienteId: string): Promise<ContactoCliente[]> {
+    return prisma.contactoCliente.findMany({
+      where: { clienteId },
+      orderBy: ORDEN_CONTACTOS,
+    });
+  }
+
+  /**
+   * Primary contact person of a client (null when it has none)
+   */
+  static async getPrincipal(clienteId: string): Promise<ContactoCliente | null> {
+    return prisma.contactoCliente.findFirst({
+      where: { clienteId, esPrincipal: true },
+    });
+  }
+
+  /**
+   * Add a contact person. The first one of a client is always the primary.
+   */
+  static async crear(clienteId: string, data: CreateContactoClienteValidated): Promise<ContactoCliente> {
+    const { esPrincipal, ...datos } = limpiar(data);
+
+    return prisma.$transaction(async (tx) => {
+      const existentes = await tx.contactoCliente.count({ where: { clienteId } });
+      const principal = esPrincipal === true || existentes === 0;
+
+      if (principal) {
+        await tx.contactoCliente.updateMany({
+          where: { clienteId, esPrincipal: true },
+          data: { esPrincipal: false },
+        });
+      }
+
+      return tx.contactoCliente.create({
+        data: { ...datos, clienteId, esPrincipal: principal },
+      });
+    });
+  }
+
+  /**
+   * Update a contact person (null when it does not belong to the client)
+   */
+  static async actualizar(
+    clienteId: string,
+    id: string,
+    data: UpdateContactoClienteValidated
+  ): Promise<ContactoCliente | null> {
+    const existente = await prisma.contactoCliente.findFirst({ where: { id, clienteId } });
+    if (!existente) return null;
+
+    const datos = limpiar(data);
+
+    return prisma.$transaction(async (tx) => {
+      if (datos.esPrincipal === true && !existente.esPrincipal) {
+        await tx.contactoCliente.updateMany({
+          where: { clienteId, esPrincipal: true },
+          data: { esPrincipal: false },
+        });
+      }
+
+      return tx.contactoCliente.update({
+        where: { id },
+        data: datos,
+      });
+    });
+  }
+
+  /**
+   * Delete a contact person. If it was the primary, the oldest remaining one is promoted.
+   */
+  static async eliminar(clienteId: string, id: string): Promise<boolean> {
+    const existente = await prisma.contactoCliente.findFirst({ where: { id, clienteId } });
+    if (!existente) return false;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.contactoCliente.delete({ where: { id } });
+
+      if (existente.esPrincipal) {
+        const siguiente = await tx.contactoCliente.findFirst({
+          where: { clienteId },
+          orderBy: { createdAt: 'asc' },
+        });
+        if (siguiente) {
+          await tx.contactoCliente.update({
+            where: { id: siguiente.id },
+            data: { esPrincipal: true },
+          });
+        }
+      }
+    });
+
+    return true;
+  }
+}
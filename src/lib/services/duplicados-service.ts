@@ -0,0 +1,352 @@
+import type { EstadoConsentimiento, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DUPLICADOS } from '@/lib/constants';
+import { SecuenciasService } from '@/lib/services/secuencias-service';
+import {
+  claveTelefono,
+  dominioSitioWeb,
+  normalizarNombreEmpresa,
+  similitudTexto,
+} from '@/lib/normalizacion';
+import {
+  CAMPOS_FUSIONABLES,
+  type BuscarDuplicadosValidated,
+  type FusionarClientesValidated,
+} from '@/lib/validations/duplicados';
+import type {
+  ClienteDuplicado,
+  FusionResult,
+  MotivoDuplicado,
+  ParDuplicado,
+} from '@/types';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+// A merged client keeps the strictest consent of the two: an opt-out always survives
+const RESTRICCION_CONSENTIMIENTO: Record<EstadoConsentimiento, number> = {
+  OTORGADO: 0,
+  DESCONOCIDO: 1,
+  REVOCADO: 2,
+};
+
+const masRestrictivo = (a: EstadoConsentimiento, b: EstadoConsentimiento) =>
+  RESTRICCION_CONSENTIMIENTO[a] >= RESTRICCION_CONSENTIMIENTO[b] ? a : b;
+
+interface ClienteIndexado {
+  cliente: ClienteDuplicado;
+  nombre: string;
+  email: string | null;
+  telefonos: string[];
+  dominio: string | null;
+}
+
+// Points per matching signal (the total is capped at 100)
+const PUNTAJE = {
+  email: 40,
+  telefono: 35,
+  sitioWeb: 30,
+  nombreExacto: 35,
+  nombreSimilar: 30,
+  nombreParecido: 15,
+} as const;
+
+// Hosts shared by unrelated businesses (a Facebook page is often stored as the website)
+const DOMINIOS_GENERICOS = new Set([
+  'facebook.com',
+  'm.facebook.com',
+  'instagram.com',
+  'linkedin.com',
+  'twitter.com',
+  'x.com',
+  'wa.me',
+  'api.whatsapp.com',
+  'linktr.ee',
+  'google.com',
+  'maps.google.com',
+  'business.site',
+  'mercadolibre.com.ar',
+]);
+
+const SELECT_DUPLICADO = {
+  id: true,
+  nombre: true,
+  email: true,
+  telefono: true,
+  whatsapp: true,
+  sitioWeb: true,
+  ciudad: true,
+  estado: true,
+  fechaCreacion: true,
+} satisfies Prisma.ClienteSelect;
+
+function indexar(cliente: ClienteDuplicado): ClienteIndexado {
+  const telefonos = [cliente.telefono, cliente.whatsapp]
+    .map((t) => (t ? claveTelefono(t) : null))
+    .filter((t): t is string => Boolean(t));
+  const dominio = cliente.sitioWeb ? dominioSitioWeb(cliente.sitioWeb) : null;
+
+  return {
+    cliente,
+    nombre: normalizarNombreEmpresa(cliente.nombre),
+    email: cliente.email ? cliente.email.trim().toLowerCase() : null,
+    telefonos: [...new Set(telefonos)],
+    dominio: dominio && !DOMINIOS_GENERICOS.has(dominio) ? dominio : null,
+  };
+}
+
+// Blocking keys: only clients sharing at least one key are compared
+function clavesDeGrupo(item: ClienteIndexado): string[] {
+  const claves: string[] = [];
+  if (item.email) claves.push(`e:${item.email}`);
+  for (const telefono of item.telefonos) claves.push(`t:${telefono}`);
+  if (item.dominio) claves.push(`d:${item.dominio}`);
+  if (item.nombre) {
+    claves.push(`n:${item.nombre}`);
+    // Prefix bucket catches typos and small variations of the same name
+    claves.push(`p:${item.nombre.replace(/\s+/g, '').slice(0, 5)}`);
+  }
+  return claves;
+}
+
+function puntuar(a: ClienteIndexado, b: ClienteIndexado): { score: number; motivos: MotivoDuplicado[] } {
+  let score = 0;
+  const motivos: MotivoDuplicado[] = [];
+
+  if (a.email && a.email === b.email) {
+    score += PUNTAJE.email;
+    motivos.push('email');
+  }
+
+  if (a.telefonos.some((t) => b.telefonos.includes(t))) {
+    score += PUNTAJE.telefono;
+    motivos.push('telefono');
+  }
+
+  if (a.dominio && a.dominio === b.dominio) {
+    score += PUNTAJE.sitioWeb;
+    motivos.push('sitioWeb');
+  }
+
+  if (a.nombre && b.nombre) {
+    const similitud = similitudTexto(a.nombre, b.nombre);
+    const puntos =
+      similitud === 1 ? PUNTAJE.nombreExacto :
+      similitud >= 0.85 ? PUNTAJE.nombreSimilar :
+      similitud >= 0.7 ? PUNTAJE.nombreParecido :
+      0;
+    if (puntos > 0) {
+      score += puntos;
+      motivos.push('nombre');
+    }
+  }
+
+  return { score: Math.min(score, 100), motivos };
+}
+
+export class DuplicadosService {
+  /**
+   * Find candidate duplicate pairs among the active clients, best matches first
+   */
+  static async buscar(opciones: BuscarDuplicadosValidated): Promise<ParDuplicado[]> {
+    const clientes = await prisma.cliente.findMany({
+      where: { deletedAt: null },
+      select: SELECT_DUPLICADO,
+      orderBy: { fechaCreacion: 'asc' },
+    });
+
+    const indexados = clientes.map(indexar);
+
+    const grupos = new Map<string, number[]>();
+    indexados.forEach((item, i) => {
+      for (const clave of clavesDeGrupo(item)) {
+        const grupo = grupos.get(clave);
+        if (grupo) grupo.push(i);
+        else grupos.set(clave, [i]);
+      }
+    });
+
+    const comparados = new Set<string>();
+    const pares: ParDuplicado[] = [];
+
+    for (const [clave, indices] of grupos) {
+      if (indices.length < 2) continue;
+      if (clave.startsWith('p:') && indices.length > DUPLICADOS.MAX_GRUPO) continue;
+
+      for (let x = 0; x < indices.length; x++) {
+        for (let y = x + 1; y < indices.length; y++) {
+          const a = indexados[indices[x]];
+          const b = indexados[indices[y]];
+
+          if (opciones.clienteId && a.cliente.id !== opciones.clienteId && b.cliente.id !== opciones.clienteId) {
+            continue;
+          }
+
+          const parId = `${indices[x]}:${indices[y]}`;
+          if (comparados.has(parId)) continue;
+          comparados.add(parId);
+
+          const { score, motivos } = puntuar(a, b);
+          if (score >= opciones.minScore) {
+            // Oldest client first: it is the suggested survivor
+            pares.push({ score, motivos, clientes: [a.cliente, b.cliente] });
+          }
+        }
+      }
+    }
+
+    return pares
+      .sort((a, b) => b.score - a.score)
+      .slice(0, opciones.limit);
+  }
+
+  /**
+   * Merge the secondary client into the principal one. Related rows are
+   * re-parented, the secondary is soft-deleted and linked to the survivor.
+   */
+  static async fusionar(
+    input: FusionarClientesValidated,
+    usuarioId: string
+  ): Promise<ServiceResult<FusionResult & { secundario: { id: string; nombre: string } }>> {
+    const include = {
+      colaboradores: { select: { id: true } },
+      websiteAnalysis: { select: { id: true } },
+    } satisfies Prisma.ClienteInclude;
+
+    const [principal, secundario] = await Promise.all([
+      prisma.cliente.findFirst({ where: { id: input.principalId, deletedAt: null }, include }),
+      prisma.cliente.findFirst({ where: { id: input.secundarioId, deletedAt: null }, include }),
+    ]);
+
+    if (!principal || !secundario) {
+      return { success: false, error: 'Cliente no encontrado' };
+    }
+
+    // Field winners: explicit choice, otherwise keep the principal value and fill gaps
+    const data: Prisma.ClienteUncheckedUpdateInput = {};
+    for (const campo of CAMPOS_FUSIONABLES) {
+      const origen = input.campos[campo];
+      const valor =
+        origen === 'secundario' ? secundario[campo] :
+        origen === 'principal' ? principal[campo] :
+        principal[campo] ?? secundario[campo];
+      if (valor !== principal[campo]) {
+        Object.assign(data, { [campo]: valor });
+      }
+    }
+
+    const masReciente = (a: Date | null, b: Date | null) => (a && b ? (a > b ? a : b) : a ?? b);
+
+    // A bounced address stays flagged on whichever client's email wins
+    const emailDe = 'email' in data ? secundario : principal;
+    const mismoEmail = principal.email?.toLowerCase() === secundario.email?.toLowerCase();
+    const emailInvalido = mismoEmail
+      ? principal.emailInvalido || secundario.emailInvalido
+      : emailDe.emailInvalido;
+
+    const colaboradores = [...principal.colaboradores, ...secundario.colaboradores]
+      .map((c) => c.id)
+      .filter((id, i, ids) => ids.indexOf(id) === i && id !== (data.asignadoAId ?? principal.asignadoAId));
+
+    const movidos = await prisma.$transaction(async (tx) => {
+      await tx.cliente.update({
+        where: { id: principal.id },
+        data: {
+          ...data,
+          fechaCreacion: principal.fechaCreacion < secundario.fechaCreacion
+            ? principal.fechaCreacion
+            : secundario.fechaCreacion,
+          ultimoContacto: masReciente(principal.ultimoContacto, secundario.ultimoContacto),
+          ultimaIA: masReciente(principal.ultimaIA, secundario.ultimaIA),
+          consentimientoEmail: masRestrictivo(principal.consentimientoEmail, secundario.consentimientoEmail),
+          consentimientoWhatsApp: masRestrictivo(principal.consentimientoWhatsApp, secundario.consentimientoWhatsApp),
+          consentimientoActualizadoEn: masReciente(
+            principal.consentimientoActualizadoEn,
+            secundario.consentimientoActualizadoEn
+          ),
+          emailInvalido,
+          esResponsive: principal.esResponsive ?? secundario.esResponsive,
+          tieneSSL: principal.tieneSSL ?? secundario.tieneSSL,
+          ...(principal.enrichmentStatus === 'NONE' && { enrichmentStatus: secundario.enrichmentStatus }),
+          colaboradores: { set: colaboradores.map((id) => ({ id })) },
+        },
+      });
+
+      const reparent = { where: { clienteId: secundario.id }, data: { clienteId: principal.id } };
+      const [actividades, mensajes, enrichments, archivos, oportunidades, tareas, respuestas, usosIA] = await Promise.all([
+        tx.actividad.updateMany(reparent),
+        tx.mensaje.updateMany(reparent),
+        tx.clienteEnrichment.updateMany(reparent),
+        tx.blobFile.updateMany(reparent),
+        tx.oportunidad.updateMany(reparent),
+        tx.tarea.updateMany(reparent),
+        tx.mensajeEntrante.updateMany(reparent),
+        tx.usoIA.updateMany(reparent),
+      ]);
+
+      const inscripciones = await SecuenciasService.fusionarInscripciones(tx, secundario.id, principal.id);
+
+      // The principal keeps its primary contact person; the moved ones become secondary
+      const tienePrincipal = await tx.contactoCliente.count({
+        where: { clienteId: principal.id, esPrincipal: true },
+      });
+      const contactos = await tx.contactoCliente.updateMany({
+        where: { clienteId: secundario.id },
+        data: { clienteId: principal.id, ...(tienePrincipal > 0 && { esPrincipal: false }) },
+      });
+
+      // Only one analysis per client: the secondary's is kept on it when the principal already has one
+      const moverAnalisis = Boolean(secundario.websiteAnalysis && !principal.websiteAnalysis);
+      if (moverAnalisis) {
+        await tx.websiteAnalysis.update({
+          where: { clienteId: secundario.id },
+          data: { clienteId: principal.id },
+        });
+      }
+
+      await tx.cliente.update({
+        where: { id: secundario.id },
+        data: {
+          deletedAt: new Date(),
+          fusionadoEnId: principal.id,
+          colaboradores: { set: [] },
+        },
+      });
+
+      await tx.actividad.create({
+        data: {
+          tipo: 'NOTA',
+          clienteId: principal.id,
+          usuarioId,
+          descripcion: `Cliente "${secundario.nombre}" fue fusionado en "${principal.nombre}"`,
+          resultado: `Se movieron ${actividades.count} actividad(es), ${mensajes.count} mensaje(s) y ${respuestas.count} respuesta(s)`,
+          esAutomatica: true,
+          fecha: new Date(),
+        },
+      });
+
+      return {
+        actividades: actividades.count,
+        mensajes: mensajes.count,
+        enrichments: enrichments.count,
+        archivos: archivos.count,
+        contactos: contactos.count,
+        oportunidades: oportunidades.count,
+        tareas: tareas.count,
+        respuestas: respuestas.count,
+        usosIA: usosIA.count,
+        inscripciones: inscripciones.movidas,
+        inscripcionesDetenidas: inscripciones.detenidas,
+        websiteAnalysis: moverAnalisis,
+      };
+    });
+
+    return {
+      success: true,
+      data: {
+        clienteId: principal.id,
+        movidos,
+        secundario: { id: secundario.id, nombre: secundario.nombre },
+      },
+    };
+  }
+}
@@ -1,12 +1,22 @@
-import { Resend } from 'resend';
+import { Resend, type WebhookEventPayload } from 'resend';
 import { logger } from '@/lib/logger';
 
 interface SendEmailResult {
   success: boolean;
   id?: string;
   error?: string;
+  // Rate limits, 5xx and network failures: the same send may work later
+  retryable?: boolean;
 }
 
+interface SendEmailOptions {
+  // Resend ignores repeated sends with the same key (safe retries)
+  idempotencyKey?: string;
+  headers?: Record<string, string>;
+}
+
+const isRetryableStatus = (status: number | null) => status === null || status === 429 || status >= 500;
+
 const FROM_EMAIL = process.env.RESEND_FROM_EMAIL || 'CRM <onboarding@resend.dev>';
 
 function getResendClient(): Resend | null {
@@ -20,7 +30,8 @@ function getResendClient(): Resend | null {
 export async function sendEmail(
   to: string,
   subject: string,
-  html: string
+  html: string,
+  options: SendEmailOptions = {}
 ): Promise<SendEmailResult> {
   const resend = getResendClient();
 
@@ -30,16 +41,20 @@ export async function sendEmail(
   }
 
   try {
-    const { data, error } = await resend.emails.send({
-      from: FROM_EMAIL,
-      to,
-      subject,
-      html,
-    });
+    const { data, error } = await resend.emails.send(
+      {
+        from: FROM_EMAIL,
+        to,
+        subject,
+        html,
+        ...(options.headers && { headers: options.headers }),
+      },
+      options.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : undefined
+    );
 
     if (error) {
       logger.error('Resend API error', new Error(error.message));
-      return { success: false, error: error.message };
+      return { success: false, error: error.message, retryable: isRetryableStatus(error.statusCode) };
     }
 
     logger.info('Email sent successfully', { to, subject, id: data?.id });
@@ -47,6 +62,43 @@ export async function sendEmail(
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Error desconocido al enviar email';
     logger.error('Email send error', error instanceof Error ? error : new Error(message));
-    return { success: false, error: message };
+    return { success: false, error: message, retryable: true };
   }
 }
+
+/**
+ * Headers and bodies of an email received through Resend inbound, or null when
+ * it can't be fetched
+ */
+export async function getReceivedEmail(id: string) {
+  const resend = getResendClient();
+  if (!resend) {
+    logger.error('RESEND_API_KEY not configured');
+    return null;
+  }
+
+  const { data, error } = await resend.emails.receiving.get(id);
+  if (error) {
+    logger.error('Resend API error', new Error(error.message));
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Parse a Resend webhook, checking its Svix signature against RESEND_WEBHOOK_SECRET.
+ * Throws when the secret is missing or the signature does not match.
+ */
+export function verifyWebhook(
+  payload: string,
+  headers: { id: string; timestamp: string; signature: string }
+): WebhookEventPayload {
+  const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!webhookSecret) {
+    throw new Error('RESEND_WEBHOOK_SECRET not configured');
+  }
+
+  // Verification is local: the API key is not used
+  const resend = getResendClient() ?? new Resend('re_unused');
+  return resend.webhooks.verify({ payload, headers, webhookSecret });
+}
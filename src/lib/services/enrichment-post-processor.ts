@@ -12,6 +12,7 @@ import { SocialMediaService, SocialProfile } from './social-media-service';
 import { SettingsService } from './settings-service';
 import { logger } from '@/lib/logger';
 import type { EnrichmentResult } from './consensus-service';
+import type { EnrichmentProgressCallback } from '@/types/enrichment';
 
 export interface PostProcessorOptions {
   verifyEmails?: boolean;
@@ -22,6 +23,7 @@ export interface PostProcessorOptions {
   companyName: string;
   location?: string;
   websiteUrl?: string;
+  onProgress?: EnrichmentProgressCallback;
 }
 
 export interface PostProcessorResult {
@@ -44,6 +46,8 @@ export class EnrichmentPostProcessor {
   ): Promise<PostProcessorResult> {
     const externalDataUsed: string[] = [];
     const errors: string[] = [];
+    const report = (check: string, status: 'started' | 'completed' | 'failed', error?: string) =>
+      options.onProgress?.({ type: 'check', check, status, error });
 
     // Clone the result to avoid mutation
     const enhancedResult: EnrichmentResult = JSON.parse(JSON.stringify(aiResult));
@@ -53,6 +57,7 @@ export class EnrichmentPostProcessor {
 
     // 1. Verify emails with Hunter.io
     if (options.verifyEmails !== false && enhancedResult.emails?.value) {
+      report('hunter', 'started');
       try {
         const verifiedEmails = await this.verifyEmailsWithHunter(
           enhancedResult.emails.value
@@ -71,8 +76,10 @@ export class EnrichmentPostProcessor {
         if (verifiedEmails.errors.length > 0) {
           errors.push(...verifiedEmails.errors);
         }
+        report('hunter', 'completed');
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Error verificando emails';
+        report('hunter', 'failed', msg);
         errors.push(`Hunter.io: ${msg}`);
         logger.warn('Hunter email verification failed', { error: err });
       }
@@ -80,6 +87,7 @@ export class EnrichmentPostProcessor {
 
     // 2. Search Google Maps for business data via SerpAPI
     if (options.searchGoogleMaps !== false && options.companyName) {
+      report('google-maps', 'started');
       try {
         const mapsResult = await this.searchGoogleMaps(
           options.companyName,
@@ -137,8 +145,10 @@ export class EnrichmentPostProcessor {
         if (mapsResult.error) {
           errors.push(`SerpAPI Maps: ${mapsResult.error}`);
         }
+        report('google-maps', mapsResult.success ? 'completed' : 'failed', mapsResult.error);
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Error buscando en Google Maps';
+        report('google-maps', 'failed', msg);
         errors.push(`SerpAPI: ${msg}`);
         logger.warn('SerpAPI Google Maps search failed', { error: err });
       }
@@ -146,6 +156,7 @@ export class EnrichmentPostProcessor {
 
     // 3. Search Google Places for detailed business info
     if (options.searchGooglePlaces !== false && options.companyName) {
+      report('google-places', 'started');
       try {
         const placesResult = await this.searchGooglePlaces(
           options.companyName,
@@ -238,8 +249,10 @@ export class EnrichmentPostProcessor {
         if (placesResult.error) {
           errors.push(`Google Places: ${placesResult.error}`);
         }
+        report('google-places', placesResult.success ? 'completed' : 'failed', placesResult.error);
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Error buscando en Google Places';
+        report('google-places', 'failed', msg);
         errors.push(`Google Places: ${msg}`);
         logger.warn('Google Places search failed', { error: err });
       }
@@ -248,6 +261,7 @@ export class EnrichmentPostProcessor {
     // 4. Check website safety with Google Safe Browsing
     const websiteToCheck = options.websiteUrl || enhancedResult.website?.value;
     if (options.checkWebsiteSafety !== false && websiteToCheck) {
+      report('safe-browsing', 'started');
       try {
         const safetyResult = await GoogleSafeBrowsingService.checkUrl(websiteToCheck);
 
@@ -292,8 +306,10 @@ export class EnrichmentPostProcessor {
         if (safetyResult.error) {
           errors.push(`Safe Browsing: ${safetyResult.error}`);
         }
+        report('safe-browsing', safetyResult.success ? 'completed' : 'failed', safetyResult.error);
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Error verificando seguridad del sitio';
+        report('safe-browsing', 'failed', msg);
         errors.push(`Safe Browsing: ${msg}`);
         logger.warn('Google Safe Browsing check failed', { error: err });
       }
@@ -302,6 +318,7 @@ export class EnrichmentPostProcessor {
     // 5. Search for social media profiles
     let socialProfiles: SocialProfile[] | undefined;
     if (options.searchSocialProfiles !== false && options.companyName) {
+      report('social-profiles', 'started');
       try {
         const socialResult = await SocialMediaService.searchProfiles(
           options.companyName,
@@ -340,8 +357,10 @@ export class EnrichmentPostProcessor {
         if (socialResult.errors && socialResult.errors.length > 0) {
           errors.push(...socialResult.errors.map(e => `Social: ${e}`));
         }
+        report('social-profiles', 'completed');
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Error buscando perfiles sociales';
+        report('social-profiles', 'failed', msg);
         errors.push(`Social Media: ${msg}`);
         logger.warn('Social media profile search failed', { error: err });
       }
@@ -1,8 +1,12 @@
 /**
  * AI Prompts for Client Enrichment
+ *
+ * The system, enrichment and consensus prompts are templates edited from
+ * settings (see PromptsIAService); these are their defaults. They use the
+ * syntax of contact templates: {variable} and {#if variable}...{else}...{/if}.
  */
 
-import type { MatchMode } from '@/types/enrichment';
+import type { MatchMode, PlantillasPromptIA, TipoPromptIA } from '@/types/enrichment';
 
 export interface ClientContext {
   nombre: string;
@@ -15,23 +19,44 @@ export interface ClientContext {
   notas?: string | null;
 }
 
-/**
- * Get the system prompt for enrichment
- */
-export function getEnrichmentSystemPrompt(matchMode: MatchMode): string {
-  const modeInstructions = {
-    exact: `Use ONLY exact matches. Only include data you are highly confident about (>90% certainty).
-            Do not make assumptions or guesses.`,
-    fuzzy: `Use fuzzy matching. Include data with moderate confidence (>70% certainty).
-            You may make reasonable inferences based on available information.`,
-    broad: `Use broad matching. Include data with lower confidence (>50% certainty).
-            Make educated guesses when direct information is not available.`,
-  };
-
-  return `You are a business data enrichment specialist. Your task is to find and verify information about companies and businesses.
+type ValorPrompt = string | boolean | null | undefined;
+
+// The match mode, plus one flag per mode for {#if modo.exact}
+const VARIABLES_MODO = ['modo', 'modo.exact', 'modo.fuzzy', 'modo.broad'];
+
+const VARIABLES_CLIENTE: Array<keyof ClientContext> = [
+  'nombre',
+  'email',
+  'telefono',
+  'direccion',
+  'ciudad',
+  'industria',
+  'sitioWeb',
+  'notas',
+];
+
+// Variables each prompt can use
+export const PROMPT_VARIABLES: Record<TipoPromptIA, string[]> = {
+  sistema: VARIABLES_MODO,
+  enriquecimiento: [...VARIABLES_CLIENTE, 'campos', ...VARIABLES_MODO],
+  consenso: ['campo', 'resultados'],
+};
+
+// Without them the model doesn't get what to look at
+const VARIABLES_REQUERIDAS: Record<TipoPromptIA, string[]> = {
+  sistema: [],
+  enriquecimiento: ['campos'],
+  consenso: ['resultados'],
+};
+
+export const DEFAULT_PROMPTS: PlantillasPromptIA = {
+  sistema: `You are a business data enrichment specialist. Your task is to find and verify information about companies and businesses.
 
 IMPORTANT RULES:
-1. ${modeInstructions[matchMode]}
+1. {#if modo.exact}Use ONLY exact matches. Only include data you are highly confident about (>90% certainty).
+   Do not make assumptions or guesses.{/if}{#if modo.fuzzy}Use fuzzy matching. Include data with moderate confidence (>70% certainty).
+   You may make reasonable inferences based on available information.{/if}{#if modo.broad}Use broad matching. Include data with lower confidence (>50% certainty).
+   Make educated guesses when direct information is not available.{/if}
 2. Always return valid JSON in the exact format requested.
 3. Include a confidence score (0.0 to 1.0) for each piece of information.
 4. If you cannot find information, use null for the value.
@@ -42,45 +67,21 @@ IMPORTANT RULES:
 9. ALL text values in the response (descriptions, industry names, sources, reasoning) MUST be written in Spanish. Do not use English for any text content.
 
 RESPONSE FORMAT:
-Always respond with valid JSON only. No explanations outside the JSON.`;
-}
+Always respond with valid JSON only. No explanations outside the JSON.`,
 
-/**
- * Get the enrichment prompt for a client
- */
-export function getEnrichmentPrompt(client: ClientContext, fieldsToEnrich: string[]): string {
-  const clientInfo = [
-    `Company/Business Name: ${client.nombre}`,
-    client.email && `Known Email: ${client.email}`,
-    client.telefono && `Known Phone: ${client.telefono}`,
-    client.direccion && `Known Address: ${client.direccion}`,
-    client.ciudad && `City: ${client.ciudad}`,
-    client.industria && `Industry: ${client.industria}`,
-    client.sitioWeb && `Known Website: ${client.sitioWeb}`,
-    client.notas && `Notes: ${client.notas}`,
-  ].filter(Boolean).join('\n');
-
-  const fieldsDescription: Record<string, string> = {
-    website: 'Official website URL',
-    emails: 'Contact email addresses (array of objects with email and type: general, sales, support, etc.)',
-    phones: 'Phone numbers (array of objects with number and type: main, mobile, fax, etc.)',
-    address: 'Full business address',
-    description: 'Brief company description (2-3 sentences)',
-    industry: 'Industry/sector classification',
-    companySize: 'Company size (startup, small, medium, large, enterprise)',
-    socialProfiles: 'Social media profile URLs. Look for: instagram, facebook, linkedin, twitter (x.com), youtube, tiktok. Return as object with platform names as keys and full profile URLs as values. ONLY include profiles you can VERIFY exist - do NOT guess or infer handles. If you find a link on the company website or can confirm the profile exists, include it. Otherwise, omit it.',
-  };
+  enriquecimiento: `Find and verify information about this business (likely based in Argentina or Latin America):
 
-  const requestedFields = fieldsToEnrich
-    .map(f => `- ${f}: ${fieldsDescription[f] || f}`)
-    .join('\n');
-
-  return `Find and verify information about this business (likely based in Argentina or Latin America):
-
-${clientInfo}
+Company/Business Name: {nombre}{#if email}
+Known Email: {email}{/if}{#if telefono}
+Known Phone: {telefono}{/if}{#if direccion}
+Known Address: {direccion}{/if}{#if ciudad}
+City: {ciudad}{/if}{#if industria}
+Industry: {industria}{/if}{#if sitioWeb}
+Known Website: {sitioWeb}{/if}{#if notas}
+Notes: {notas}{/if}
 
 Please find the following information:
-${requestedFields}
+{campos}
 
 IMPORTANT:
 - All text content (descriptions, industry names, source/reasoning explanations) MUST be written in Spanish.
@@ -98,7 +99,134 @@ Respond with a JSON object containing:
   "socialProfiles": { "value": {"linkedin": "url", "facebook": "url", ...}, "score": 0.82, "source": "razonamiento" } | null
 }
 
-Only include fields that were requested. Use null for fields you cannot find with confidence.`;
+Only include fields that were requested. Use null for fields you cannot find with confidence.`,
+
+  consenso: `Multiple AI providers returned different results for "{campo}". Analyze and determine the best value:
+
+{resultados}
+
+IMPORTANT: Write the "reasoning" field in Spanish.
+
+Respond with JSON:
+{
+  "bestValue": <the most accurate value>,
+  "confidence": 0.0-1.0,
+  "reasoning": "razon por la cual se eligio este valor",
+  "allValuesMatch": true/false
+}`,
+};
+
+const FIELDS_DESCRIPTION: Record<string, string> = {
+  website: 'Official website URL',
+  emails: 'Contact email addresses (array of objects with email and type: general, sales, support, etc.)',
+  phones: 'Phone numbers (array of objects with number and type: main, mobile, fax, etc.)',
+  address: 'Full business address',
+  description: 'Brief company description (2-3 sentences)',
+  industry: 'Industry/sector classification',
+  companySize: 'Company size (startup, small, medium, large, enterprise)',
+  socialProfiles: 'Social media profile URLs. Look for: instagram, facebook, linkedin, twitter (x.com), youtube, tiktok. Return as object with platform names as keys and full profile URLs as values. ONLY include profiles you can VERIFY exist - do NOT guess or infer handles. If you find a link on the company website or can confirm the profile exists, include it. Otherwise, omit it.',
+};
+
+// Every field an enrichment can look for
+export const ENRICHMENT_FIELDS = Object.keys(FIELDS_DESCRIPTION);
+
+// {variable}; names may be namespaced: {modo.exact}
+const VARIABLE = /\{(\w+(?:\.\w+)?)\}/g;
+
+// Innermost {#if variable}...{else}...{/if} block ({#if !variable} negates it)
+const CONDICIONAL = /\{#if\s+(!?)(\w+(?:\.\w+)?)\s*\}((?:(?!\{#if[\s}])[\s\S])*?)\{\/if\}/;
+
+const estaVacio = (valor: ValorPrompt) =>
+  valor === null || valor === undefined || valor === false || (typeof valor === 'string' && valor.trim() === '');
+
+/**
+ * Render a prompt template. Unknown variables are left as typed; the values
+ * themselves are never parsed as template syntax.
+ */
+export function renderPrompt(template: string, variables: Record<string, ValorPrompt>): string {
+  let result = template;
+
+  let bloque: RegExpExecArray | null;
+  while ((bloque = CONDICIONAL.exec(result)) !== null) {
+    const [completo, negado, nombre, contenido] = bloque;
+    const [siVerdadero, siFalso = ''] = contenido.split('{else}');
+    const cumple = !estaVacio(variables[nombre]) !== (negado === '!');
+    result = result.slice(0, bloque.index) + (cumple ? siVerdadero : siFalso) + result.slice(bloque.index + completo.length);
+  }
+
+  return result.replace(VARIABLE, (original, nombre: string) => {
+    if (!(nombre in variables)) return original;
+    const valor = variables[nombre];
+    return estaVacio(valor) ? '' : String(valor);
+  });
+}
+
+/**
+ * Syntax errors of a prompt template: unknown or missing variables and
+ * unbalanced {#if}/{/if}
+ */
+export function validatePrompt(tipo: TipoPromptIA, template: string): string[] {
+  const disponibles = new Set(PROMPT_VARIABLES[tipo]);
+  const usadas = new Set<string>();
+  const errores: string[] = [];
+
+  for (const [, nombre] of template.matchAll(VARIABLE)) {
+    if (nombre !== 'else') usadas.add(nombre);
+  }
+  for (const [, nombre] of template.matchAll(/\{#if\s+!?(\w+(?:\.\w+)?)\s*\}/g)) {
+    usadas.add(nombre);
+  }
+
+  const desconocidas = [...usadas].filter((nombre) => !disponibles.has(nombre));
+  if (desconocidas.length > 0) {
+    errores.push(`Variables desconocidas: ${desconocidas.map((v) => `{${v}}`).join(', ')}`);
+  }
+
+  for (const requerida of VARIABLES_REQUERIDAS[tipo]) {
+    if (!usadas.has(requerida)) errores.push(`Falta la variable {${requerida}}`);
+  }
+
+  const aperturas = template.match(/\{#if\s+!?[\w.]+\s*\}/g)?.length ?? 0;
+  const cierres = template.match(/\{\/if\}/g)?.length ?? 0;
+  if (aperturas !== cierres) {
+    errores.push(`Condicionales sin cerrar: ${aperturas} {#if} y ${cierres} {/if}`);
+  }
+
+  return errores;
+}
+
+const variablesModo = (matchMode: MatchMode): Record<string, ValorPrompt> => ({
+  modo: matchMode,
+  'modo.exact': matchMode === 'exact',
+  'modo.fuzzy': matchMode === 'fuzzy',
+  'modo.broad': matchMode === 'broad',
+});
+
+/**
+ * Get the system prompt for enrichment
+ */
+export function getEnrichmentSystemPrompt(matchMode: MatchMode, template = DEFAULT_PROMPTS.sistema): string {
+  return renderPrompt(template, variablesModo(matchMode));
+}
+
+/**
+ * Get the enrichment prompt for a client
+ */
+export function getEnrichmentPrompt(
+  client: ClientContext,
+  fieldsToEnrich: string[],
+  matchMode: MatchMode,
+  template = DEFAULT_PROMPTS.enriquecimiento
+): string {
+  const requestedFields = fieldsToEnrich
+    .map(f => `- ${f}: ${FIELDS_DESCRIPTION[f] || f}`)
+    .join('\n');
+
+  return renderPrompt(template, {
+    ...Object.fromEntries(VARIABLES_CLIENTE.map((campo) => [campo, client[campo]])),
+    campos: requestedFields,
+    ...variablesModo(matchMode),
+  });
 }
 
 /**
@@ -126,23 +254,12 @@ Analyze and respond with JSON:
  */
 export function getConsensusPrompt(
   field: string,
-  results: Array<{ value: unknown; score: number; provider: string }>
+  results: Array<{ value: unknown; score: number; provider: string }>,
+  template = DEFAULT_PROMPTS.consenso
 ): string {
   const resultsText = results
     .map((r, i) => `Result ${i + 1} (${r.provider}, confidence ${r.score}): ${JSON.stringify(r.value)}`)
     .join('\n');
 
-  return `Multiple AI providers returned different results for "${field}". Analyze and determine the best value:
-
-${resultsText}
-
-IMPORTANT: Write the "reasoning" field in Spanish.
-
-Respond with JSON:
-{
-  "bestValue": <the most accurate value>,
-  "confidence": 0.0-1.0,
-  "reasoning": "razon por la cual se eligio este valor",
-  "allValuesMatch": true/false
-}`;
+  return renderPrompt(template, { campo: field, resultados: resultsText });
 }
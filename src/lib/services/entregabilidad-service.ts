@@ -0,0 +1,96 @@
+import type { EstadoMensaje, MotivoSupresion } from '@prisma/client';
+import type { WebhookEventPayload } from 'resend';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+
+type TipoEventoEntrega = 'email.delivered' | 'email.delivery_delayed' | 'email.bounced' | 'email.complained';
+
+// State each delivery event moves a message to, and the states it may come from.
+// Resend does not guarantee order: a late "delayed" must not undo a "delivered".
+const TRANSICIONES: Record<TipoEventoEntrega, { estado: EstadoMensaje; desde: EstadoMensaje[] }> = {
+  'email.delivered': { estado: 'ENTREGADO', desde: ['ENVIADO', 'DEMORADO'] },
+  'email.delivery_delayed': { estado: 'DEMORADO', desde: ['ENVIADO'] },
+  'email.bounced': { estado: 'REBOTADO', desde: ['ENVIADO', 'DEMORADO', 'ENTREGADO'] },
+  'email.complained': { estado: 'QUEJA', desde: ['ENVIADO', 'DEMORADO', 'ENTREGADO'] },
+};
+
+export const MENSAJE_SUPRESION: Record<MotivoSupresion, string> = {
+  REBOTE: 'la dirección rebotó de forma permanente',
+  QUEJA: 'el destinatario marcó un email como spam',
+  BAJA: 'el destinatario se dio de baja',
+};
+
+export const normalizarEmail = (email: string) => email.trim().toLowerCase();
+
+const esEventoEntrega = (evento: WebhookEventPayload): evento is Extract<WebhookEventPayload, { type: TipoEventoEntrega }> =>
+  evento.type in TRANSICIONES;
+
+/**
+ * Service for what happens to an email after Resend accepts it: delivery
+ * states from its webhooks and the addresses that must not be emailed again
+ */
+export class EntregabilidadService {
+  /**
+   * Apply a webhook event. Returns false for events that are not about a
+   * message of ours. Safe to call twice with the same event.
+   */
+  static async procesarEvento(evento: WebhookEventPayload): Promise<boolean> {
+    if (!esEventoEntrega(evento)) return false;
+
+    const mensaje = await prisma.mensaje.findUnique({
+      where: { resendId: evento.data.email_id },
+      select: { id: true, clienteId: true, destinatario: true },
+    });
+    if (!mensaje) return false;
+
+    const { estado, desde } = TRANSICIONES[evento.type];
+    const detalle = evento.type === 'email.bounced'
+      ? `${evento.data.bounce.type}: ${evento.data.bounce.message}`
+      : null;
+
+    await prisma.mensaje.updateMany({
+      where: { id: mensaje.id, estado: { in: desde } },
+      data: { estado, ...(detalle && { errorDetalle: detalle }) },
+    });
+
+    // Transient bounces (mailbox full, ...) may go through next time
+    const rebotePermanente = evento.type === 'email.bounced' && evento.data.bounce.type === 'Permanent';
+
+    if (rebotePermanente) {
+      await this.suprimir(mensaje.destinatario, 'REBOTE', detalle, mensaje.id);
+      await prisma.cliente.updateMany({
+        where: { id: mensaje.clienteId, email: { equals: mensaje.destinatario, mode: 'insensitive' } },
+        data: { emailInvalido: true },
+      });
+    } else if (evento.type === 'email.complained') {
+      await this.suprimir(mensaje.destinatario, 'QUEJA', null, mensaje.id);
+    }
+
+    return true;
+  }
+
+  /**
+   * Stop emailing an address. The first reason recorded is kept.
+   */
+  static async suprimir(email: string, motivo: MotivoSupresion, detalle: string | null, mensajeId?: string) {
+    await prisma.supresionEmail.upsert({
+      where: { email: normalizarEmail(email) },
+      create: { email: normalizarEmail(email), motivo, detalle, mensajeId },
+      update: {},
+    });
+
+    logger.warn('Email address suppressed', { motivo, mensajeId });
+  }
+
+  /**
+   * Why an address must not be emailed, or null when it can be
+   */
+  static async motivoSupresion(email: string): Promise<MotivoSupresion | null> {
+    const supresion = await prisma.supresionEmail.findUnique({
+      where: { email: normalizarEmail(email) },
+      select: { motivo: true },
+    });
+
+    return supresion?.motivo ?? null;
+  }
+}
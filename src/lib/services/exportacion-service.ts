@@ -0,0 +1,249 @@
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { EXPORTACION } from '@/lib/constants';
+import type { ExportOptions } from '@/types';
+
+type ValorCelda = string | number | boolean | Date | null;
+
+const INCLUDE_EXPORTACION = {
+  asignadoA: { select: { name: true, email: true } },
+  actividades: {
+    where: { deletedAt: null },
+    orderBy: { fecha: 'desc' },
+    take: EXPORTACION.ULTIMAS_ACTIVIDADES,
+    select: { tipo: true, descripcion: true, fecha: true },
+  },
+  websiteAnalysis: {
+    select: {
+      performanceScore: true,
+      mobileScore: true,
+      desktopScore: true,
+      accessibilityScore: true,
+      sslValid: true,
+      isResponsive: true,
+      analyzedAt: true,
+    },
+  },
+} satisfies Prisma.ClienteInclude;
+
+// Relations are only loaded when the matching extra is requested
+type ClienteExportacion = Prisma.ClienteGetPayload<{ include: typeof INCLUDE_EXPORTACION }>;
+
+interface ColumnaExportacion {
+  header: string;
+  width: number;
+  valor: (cliente: ClienteExportacion) => ValorCelda;
+}
+
+export interface OpcionesExportacion extends Omit<ExportOptions, 'format'> {
+  where: Prisma.ClienteWhereInput;
+  orderBy: Prisma.ClienteOrderByWithRelationInput;
+}
+
+// Table column (see ColumnasSelect) -> exported columns
+const COLUMNAS: Record<string, ColumnaExportacion[]> = {
+  nombre: [
+    { header: 'Nombre', width: 30, valor: (c) => c.nombre },
+    { header: 'Dirección', width: 30, valor: (c) => c.direccion },
+    { header: 'Ciudad', width: 18, valor: (c) => c.ciudad },
+    { header: 'Provincia', width: 18, valor: (c) => c.provincia },
+    { header: 'Código postal', width: 12, valor: (c) => c.codigoPostal },
+  ],
+  contacto: [
+    { header: 'Email', width: 28, valor: (c) => c.email },
+    { header: 'Teléfono', width: 18, valor: (c) => c.telefono },
+    { header: 'WhatsApp', width: 18, valor: (c) => c.whatsapp },
+  ],
+  estado: [{ header: 'Estado', width: 16, valor: (c) => c.estado }],
+  prioridad: [{ header: 'Prioridad', width: 12, valor: (c) => c.prioridad }],
+  industria: [{ header: 'Industria', width: 20, valor: (c) => c.industria }],
+  asignadoA: [
+    {
+      header: 'Asignado a',
+      width: 24,
+      valor: (c) => (c.asignadoA ? c.asignadoA.name || c.asignadoA.email : null),
+    },
+  ],
+  ultimoContacto: [{ header: 'Último contacto', width: 20, valor: (c) => c.ultimoContacto }],
+  ultimaIA: [{ header: 'Última IA', width: 20, valor: (c) => c.ultimaIA }],
+  fechaCreacion: [{ header: 'Fecha creación', width: 20, valor: (c) => c.fechaCreacion }],
+  fechaModific: [{ header: 'Fecha modificación', width: 20, valor: (c) => c.fechaModific }],
+  sitioWeb: [{ header: 'Sitio web', width: 30, valor: (c) => c.sitioWeb }],
+  redesSociales: [
+    { header: 'Instagram', width: 24, valor: (c) => c.instagram },
+    { header: 'Facebook', width: 24, valor: (c) => c.facebook },
+    { header: 'LinkedIn', width: 24, valor: (c) => c.linkedin },
+    { header: 'Twitter', width: 24, valor: (c) => c.twitter },
+  ],
+};
+
+const COLUMNAS_ACTIVIDADES: ColumnaExportacion[] = Array.from(
+  { length: EXPORTACION.ULTIMAS_ACTIVIDADES },
+  (_, i) => ({
+    header: `Actividad ${i + 1}`,
+    width: 40,
+    valor: (c) => {
+      const actividad = c.actividades[i];
+      if (!actividad) return null;
+      return `${actividad.fecha.toISOString().slice(0, 10)} - ${actividad.tipo}: ${actividad.descripcion}`;
+    },
+  })
+);
+
+const COLUMNAS_ENRICHMENT: ColumnaExportacion[] = [
+  { header: 'Estado enriquecimiento', width: 20, valor: (c) => c.enrichmentStatus },
+];
+
+const COLUMNAS_WEB_ANALYSIS: ColumnaExportacion[] = [
+  { header: 'Performance', width: 12, valor: (c) => c.websiteAnalysis?.performanceScore ?? null },
+  { header: 'Score mobile', width: 12, valor: (c) => c.websiteAnalysis?.mobileScore ?? null },
+  { header: 'Score desktop', width: 12, valor: (c) => c.websiteAnalysis?.desktopScore ?? null },
+  { header: 'Accesibilidad', width: 12, valor: (c) => c.websiteAnalysis?.accessibilityScore ?? null },
+  { header: 'SSL válido', width: 10, valor: (c) => c.websiteAnalysis?.sslValid ?? null },
+  { header: 'Responsive', width: 10, valor: (c) => c.websiteAnalysis?.isResponsive ?? null },
+  { header: 'Fecha análisis web', width: 20, valor: (c) => c.websiteAnalysis?.analyzedAt ?? null },
+];
+
+function formatearCsv(valor: ValorCelda): string {
+  if (valor === null || valor === undefined) return '';
+  if (valor instanceof Date) return valor.toISOString();
+  if (typeof valor === 'boolean') return valor ? 'Sí' : 'No';
+
+  let texto = String(valor);
+  // Avoid formula injection when the file is opened in a spreadsheet (phone numbers are kept as is)
+  if (/^[=@\t\r]/.test(texto) || /^[+-](?![\d\s(])/.test(texto)) {
+    texto = `'${texto}`;
+  }
+  if (/[",\n\r]/.test(texto)) {
+    texto = `"${texto.replace(/"/g, '""')}"`;
+  }
+  return texto;
+}
+
+function formatearXlsx(valor: ValorCelda): ValorCelda {
+  if (typeof valor === 'boolean') return valor ? 'Sí' : 'No';
+  return valor;
+}
+
+function filaCsv(valores: ValorCelda[]): string {
+  return valores.map(formatearCsv).join(',') + '\r\n';
+}
+
+export class ExportacionService {
+  /**
+   * Resolve the exported columns from the visible table columns and the requested extras
+   */
+  static getColumnas(opciones: Pick<ExportOptions, 'columnas' | 'incluir'>): ColumnaExportacion[] {
+    // The name is always exported, like in the table
+    const columnas = ['nombre', ...opciones.columnas.filter((c) => c !== 'nombre')];
+
+    return [
+      ...columnas.flatMap((c) => COLUMNAS[c] ?? []),
+      ...(opciones.incluir.includes('actividades') ? COLUMNAS_ACTIVIDADES : []),
+      ...(opciones.incluir.includes('enrichment') ? COLUMNAS_ENRICHMENT : []),
+      ...(opciones.incluir.includes('webAnalysis') ? COLUMNAS_WEB_ANALYSIS : []),
+    ];
+  }
+
+  /**
+   * Stream the matching clients as CSV (UTF-8 with BOM so Excel detects the encoding)
+   */
+  static crearStreamCsv(opciones: OpcionesExportacion): ReadableStream<Uint8Array> {
+    const columnas = this.getColumnas(opciones);
+    const lotes = this.iterarClientes(opciones);
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('\uFEFF' + filaCsv(columnas.map((c) => c.header))));
+      },
+      async pull(controller) {
+        try {
+          const { value: clientes, done } = await lotes.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          const chunk = clientes
+            .map((cliente) => filaCsv(columnas.map((c) => c.valor(cliente))))
+            .join('');
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error) {
+          logger.error('Error exporting clients to CSV', error instanceof Error ? error : new Error(String(error)));
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await lotes.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Stream the matching clients as an XLSX workbook
+   */
+  static crearStreamXlsx(opciones: OpcionesExportacion): ReadableStream<Uint8Array> {
+    const columnas = this.getColumnas(opciones);
+    const passThrough = new PassThrough();
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: passThrough,
+      useStyles: true,
+    });
+    const sheet = workbook.addWorksheet('Clientes');
+    sheet.columns = columnas.map((c, i) => ({ header: c.header, key: String(i), width: c.width }));
+    sheet.getRow(1).font = { bold: true };
+
+    const escribir = async () => {
+      for await (const clientes of this.iterarClientes(opciones)) {
+        for (const cliente of clientes) {
+          sheet.addRow(columnas.map((c) => formatearXlsx(c.valor(cliente)))).commit();
+        }
+      }
+      sheet.commit();
+      await workbook.commit();
+    };
+
+    escribir().catch((error) => {
+      logger.error('Error exporting clients to XLSX', error instanceof Error ? error : new Error(String(error)));
+      passThrough.destroy(error instanceof Error ? error : new Error(String(error)));
+    });
+
+    return Readable.toWeb(passThrough) as ReadableStream<Uint8Array>;
+  }
+
+  /**
+   * Fetch the matching clients in batches (cursor pagination, so the whole result set is never in memory)
+   */
+  private static async *iterarClientes(
+    opciones: OpcionesExportacion
+  ): AsyncGenerator<ClienteExportacion[]> {
+    const include: Prisma.ClienteInclude = {
+      asignadoA: INCLUDE_EXPORTACION.asignadoA,
+      ...(opciones.incluir.includes('actividades') && { actividades: INCLUDE_EXPORTACION.actividades }),
+      ...(opciones.incluir.includes('webAnalysis') && { websiteAnalysis: INCLUDE_EXPORTACION.websiteAnalysis }),
+    };
+
+    let cursor: string | undefined;
+
+    while (true) {
+      const clientes = (await prisma.cliente.findMany({
+        where: opciones.where,
+        // id as tie-breaker so the cursor is stable
+        orderBy: [opciones.orderBy, { id: 'asc' }],
+        take: EXPORTACION.BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        include,
+      })) as ClienteExportacion[];
+
+      if (clientes.length === 0) return;
+
+      yield clientes;
+
+      if (clientes.length < EXPORTACION.BATCH_SIZE) return;
+      cursor = clientes[clientes.length - 1].id;
+    }
+  }
+}
@@ -0,0 +1,459 @@
+import ExcelJS from 'exceljs';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { IMPORTACION } from '@/lib/constants';
+import { claveTelefono, normalizarTexto } from '@/lib/normalizacion';
+import { registrarClientesImportados } from '@/lib/actividades-automaticas';
+import { CreateClienteDTOSchema, type CreateClienteDTOValidated } from '@/lib/validations/cliente';
+import {
+  CAMPOS_IMPORTABLES,
+  type ImportarClientesValidated,
+} from '@/lib/validations/importacion';
+import type {
+  CampoImportable,
+  FilaImportacion,
+  ImportacionResumen,
+  ImportResult,
+  MapeoImportacion,
+} from '@/types';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+interface Candidato {
+  fila: FilaImportacion;
+  datos?: CreateClienteDTOValidated;
+}
+
+// Header aliases used to suggest the column mapping (normalized, see normalizarTexto)
+const ALIAS_COLUMNAS: Record<CampoImportable, string[]> = {
+  nombre: ['nombre', 'name', 'razonsocial', 'empresa', 'cliente', 'negocio'],
+  email: ['email', 'mail', 'correo', 'correoelectronico'],
+  telefono: ['telefono', 'tel', 'phone', 'celular', 'movil'],
+  whatsapp: ['whatsapp', 'wa'],
+  instagram: ['instagram', 'ig'],
+  facebook: ['facebook', 'fb'],
+  linkedin: ['linkedin'],
+  twitter: ['twitter', 'x'],
+  direccion: ['direccion', 'domicilio', 'address', 'calle'],
+  ciudad: ['ciudad', 'localidad', 'city'],
+  provincia: ['provincia', 'region', 'state'],
+  codigoPostal: ['codigopostal', 'cp', 'zip', 'postal'],
+  industria: ['industria', 'rubro', 'sector', 'categoria'],
+  sitioWeb: ['sitioweb', 'web', 'website', 'url', 'pagina', 'paginaweb'],
+  estado: ['estado', 'status'],
+  prioridad: ['prioridad', 'priority'],
+  notas: ['notas', 'observaciones', 'comentarios', 'notes'],
+};
+
+// Rubros as they come in spreadsheets -> industria codes used in the CRM
+const INDUSTRIA_MAPPING: Record<string, string> = {
+  'gastronomia': 'GASTRONOMIA',
+  'salud y medicina': 'SALUD',
+  'indumentaria y calzado': 'INDUMENTARIA',
+  'belleza y estetica': 'BELLEZA',
+  'deporte y fitness': 'DEPORTES',
+  'comercio minorista': 'COMERCIO',
+  'construccion e inmuebles': 'CONSTRUCCION',
+  'servicios profesionales': 'SERVICIOS',
+  'industria y produccion': 'INDUSTRIA',
+  'turismo y hoteleria': 'TURISMO',
+  'cultura y papelerias': 'CULTURA',
+  'sin clasificar': 'OTROS',
+};
+
+const INDUSTRIAS = new Set(Object.values(INDUSTRIA_MAPPING));
+
+function normalizarIndustria(value: string): string {
+  const normalizada = normalizarTexto(value);
+  const codigo = normalizada.toUpperCase().replace(/\s+/g, '_');
+  if (INDUSTRIAS.has(codigo)) return codigo;
+  return INDUSTRIA_MAPPING[normalizada] ?? value.trim();
+}
+
+function normalizarEnum(value: string): string {
+  return normalizarTexto(value).toUpperCase().replace(/\s+/g, '_');
+}
+
+function normalizarUrl(value: string): string {
+  const url = value.trim();
+  if (!url || /^https?:\/\//i.test(url)) return url;
+  return `https://${url}`;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF).
+ * The delimiter is guessed from the header line (",", ";" or tab).
+ */
+function parseCsv(text: string): string[][] {
+  const contenido = text.replace(/^\uFEFF/, '');
+  const primeraLinea = contenido.split(/\r?\n/, 1)[0] ?? '';
+  const delimitador = [',', ';', '\t'].reduce((best, d) =>
+    primeraLinea.split(d).length > primeraLinea.split(best).length ? d : best
+  );
+
+  const filas: string[][] = [];
+  let fila: string[] = [];
+  let campo = '';
+  let enComillas = false;
+
+  for (let i = 0; i < contenido.length; i++) {
+    const char = contenido[i];
+
+    if (enComillas) {
+      if (char === '"' && contenido[i + 1] === '"') {
+        campo += '"';
+        i++;
+      } else if (char === '"') {
+        enComillas = false;
+      } else {
+        campo += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      enComillas = true;
+    } else if (char === delimitador) {
+      fila.push(campo);
+      campo = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && contenido[i + 1] === '\n') i++;
+      fila.push(campo);
+      filas.push(fila);
+      fila = [];
+      campo = '';
+    } else {
+      campo += char;
+    }
+  }
+
+  if (campo || fila.length > 0) {
+    fila.push(campo);
+    filas.push(fila);
+  }
+
+  return filas;
+}
+
+async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs ships its own Buffer type that no longer matches @types/node
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const filas: string[][] = [];
+  const totalColumnas = worksheet.columnCount;
+
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const fila: string[] = [];
+    for (let col = 1; col <= totalColumnas; col++) {
+      fila.push(row.getCell(col).text ?? '');
+    }
+    filas.push(fila);
+  });
+
+  return filas;
+}
+
+/**
+ * Service for the client import wizard (CSV / XLSX).
+ * Files are parsed into plain string rows; the mapping, validation and
+ * duplicate detection run over those rows so the dry run and the commit
+ * produce the exact same report.
+ */
+export class ImportacionService {
+  /**
+   * Parse an uploaded file into header + rows
+   */
+  static async parseArchivo(
+    nombreArchivo: string,
+    buffer: Buffer
+  ): Promise<ServiceResult<{ columnas: string[]; filas: string[][] }>> {
+    const extension = nombreArchivo.toLowerCase().split('.').pop();
+
+    let filas: string[][];
+    if (extension === 'csv' || extension === 'txt') {
+      filas = parseCsv(buffer.toString('utf-8'));
+    } else if (extension === 'xlsx') {
+      filas = await parseXlsx(buffer);
+    } else {
+      return { success: false, error: 'Formato no soportado. Usa un archivo CSV o XLSX' };
+    }
+
+    // Drop fully empty rows
+    filas = filas.filter((fila) => fila.some((celda) => celda.trim() !== ''));
+
+    if (filas.length < 2) {
+      return { success: false, error: 'El archivo debe tener una fila de encabezados y al menos una fila de datos' };
+    }
+
+    const [encabezados, ...datos] = filas;
+    const columnas = encabezados.map((c, i) => c.trim() || `Columna ${i + 1}`);
+
+    if (columnas.length > IMPORTACION.MAX_COLUMNAS) {
+      return { success: false, error: `Máximo ${IMPORTACION.MAX_COLUMNAS} columnas por archivo` };
+    }
+
+    if (datos.length > IMPORTACION.MAX_FILAS) {
+      return { success: false, error: `Máximo ${IMPORTACION.MAX_FILAS} filas por importación` };
+    }
+
+    return {
+      success: true,
+      data: {
+        columnas,
+        filas: datos.map((fila) => columnas.map((_, i) => (fila[i] ?? '').trim())),
+      },
+    };
+  }
+
+  /**
+   * Suggest a field mapping from the file headers
+   */
+  static sugerirMapeo(columnas: string[]): MapeoImportacion {
+    const mapeo: MapeoImportacion = {};
+    const usadas = new Set<string>();
+
+    for (const campo of CAMPOS_IMPORTABLES) {
+      const columna = columnas.find((c) => {
+        if (usadas.has(c)) return false;
+        const normalizada = normalizarTexto(c).replace(/[^a-z0-9]/g, '');
+        return ALIAS_COLUMNAS[campo].includes(normalizada);
+      });
+
+      if (columna) {
+        mapeo[campo] = columna;
+        usadas.add(columna);
+      }
+    }
+
+    return mapeo;
+  }
+
+  /**
+   * Validate every row and detect duplicates (inside the file and against
+   * existing clients). Nothing is written.
+   */
+  static async analizar(input: ImportarClientesValidated): Promise<Candidato[]> {
+    const indices = new Map(input.columnas.map((c, i) => [c, i]));
+
+    // 1. Map + validate rows
+    const candidatos: Candidato[] = input.filas.map((celdas, index) => {
+      const raw: Record<string, string> = {};
+      for (const [campo, columna] of Object.entries(input.mapeo)) {
+        const i = indices.get(columna);
+        const valor = i !== undefined ? (celdas[i] ?? '').trim() : '';
+        if (valor) raw[campo] = valor;
+      }
+
+      if (raw.email) raw.email = raw.email.toLowerCase();
+      if (raw.industria) raw.industria = normalizarIndustria(raw.industria);
+      if (raw.estado) raw.estado = normalizarEnum(raw.estado);
+      if (raw.prioridad) raw.prioridad = normalizarEnum(raw.prioridad);
+      if (raw.sitioWeb) raw.sitioWeb = normalizarUrl(raw.sitioWeb);
+
+      // Header is row 1 in the spreadsheet
+      const fila: FilaImportacion = {
+        fila: index + 2,
+        nombre: raw.nombre ?? '',
+        estado: 'VALIDA',
+        errores: [],
+      };
+
+      const validation = CreateClienteDTOSchema.safeParse({ ...raw, fuente: 'IMPORTADO' });
+      if (!validation.success) {
+        fila.estado = 'INVALIDA';
+        fila.errores = validation.error.issues.map((issue) =>
+          issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+        );
+        return { fila };
+      }
+
+      return { fila, datos: validation.data };
+    });
+
+    // 2. Duplicates against existing clients. Phones and names are compared
+    // normalized ("+54 11 1234-5678" = "1112345678", "José" = "Jose"), so the
+    // active clients are matched in memory, as the duplicate finder does.
+    const validos = candidatos.filter((c) => c.datos);
+
+    const existentes = validos.length > 0
+      ? await prisma.cliente.findMany({
+          where: { deletedAt: null },
+          select: { id: true, nombre: true, email: true, telefono: true },
+          orderBy: { fechaCreacion: 'asc' },
+        })
+      : [];
+
+    const porEmail = new Map<string, { clienteId?: string; nombre: string; enArchivo: boolean }>();
+    const porTelefono = new Map<string, { clienteId?: string; nombre: string; enArchivo: boolean }>();
+    const porNombre = new Map<string, { clienteId?: string; nombre: string; enArchivo: boolean }>();
+
+    // Oldest client first: it keeps the key when several share it
+    for (const cliente of existentes) {
+      const ref = { clienteId: cliente.id, nombre: cliente.nombre, enArchivo: false };
+      const telefono = cliente.telefono ? claveTelefono(cliente.telefono) : null;
+      const email = cliente.email?.toLowerCase();
+      const nombre = normalizarTexto(cliente.nombre);
+      if (email && !porEmail.has(email)) porEmail.set(email, ref);
+      if (telefono && !porTelefono.has(telefono)) porTelefono.set(telefono, ref);
+      if (!porNombre.has(nombre)) porNombre.set(nombre, ref);
+    }
+
+    // 3. Duplicates inside the file (first occurrence wins)
+    for (const candidato of validos) {
+      const datos = candidato.datos!;
+      const email = datos.email?.toLowerCase();
+      const telefono = datos.telefono ? claveTelefono(datos.telefono) : null;
+      const nombre = normalizarTexto(datos.nombre);
+
+      const duplicado =
+        (email && porEmail.has(email) && { motivo: 'email' as const, ...porEmail.get(email)! }) ||
+        (telefono && porTelefono.has(telefono) && { motivo: 'telefono' as const, ...porTelefono.get(telefono)! }) ||
+        (porNombre.has(nombre) && { motivo: 'nombre' as const, ...porNombre.get(nombre)! }) ||
+        undefined;
+
+      if (duplicado) {
+        candidato.fila.estado = 'DUPLICADA';
+        candidato.fila.duplicado = duplicado;
+        continue;
+      }
+
+      const ref = { nombre: datos.nombre, enArchivo: true };
+      if (email) porEmail.set(email, ref);
+      if (telefono) porTelefono.set(telefono, ref);
+      porNombre.set(nombre, ref);
+    }
+
+    return candidatos;
+  }
+
+  /**
+   * Build the report returned to the wizard
+   */
+  static resumen(candidatos: Candidato[], dryRun: boolean, creados = 0, importacionId?: string): ImportResult {
+    const filas = candidatos.map((c) => c.fila);
+    return {
+      dryRun,
+      importacionId,
+      totalFilas: filas.length,
+      validas: filas.filter((f) => f.estado === 'VALIDA').length,
+      invalidas: filas.filter((f) => f.estado === 'INVALIDA').length,
+      duplicadas: filas.filter((f) => f.estado === 'DUPLICADA').length,
+      creados,
+      filas,
+    };
+  }
+
+  /**
+   * Run the analysis and create the clients inside a single import batch
+   */
+  static async importar(
+    input: ImportarClientesValidated,
+    usuarioId: string
+  ): Promise<ServiceResult<ImportResult>> {
+    const candidatos = await this.analizar(input);
+
+    const aCrear = candidatos.filter((c) =>
+      c.fila.estado === 'VALIDA' || (c.fila.estado === 'DUPLICADA' && !input.omitirDuplicados)
+    );
+
+    if (aCrear.length === 0) {
+      return { success: false, error: 'No hay filas válidas para importar' };
+    }
+
+    const { importacion, clientes } = await prisma.$transaction(async (tx) => {
+      const importacion = await tx.importacionClientes.create({
+        data: {
+          nombreArchivo: input.nombreArchivo,
+          totalFilas: candidatos.length,
+          creados: aCrear.length,
+          omitidos: candidatos.length - aCrear.length,
+          mapeo: JSON.stringify(input.mapeo),
+          usuarioId,
+        },
+      });
+
+      const clientes = await tx.cliente.createManyAndReturn({
+        data: aCrear.map((c) => ({
+          ...c.datos!,
+          fuente: 'IMPORTADO' as const,
+          asignadoAId: usuarioId,
+          importacionId: importacion.id,
+        })),
+        select: { id: true, nombre: true },
+      });
+
+      return { importacion, clientes };
+    });
+
+    await registrarClientesImportados(clientes, usuarioId, input.nombreArchivo);
+
+    return {
+      success: true,
+      data: this.resumen(candidatos, false, clientes.length, importacion.id),
+    };
+  }
+
+  /**
+   * Roll back an import: soft delete every client it created, with its
+   * activities. Clients other clients were merged into are kept: they hold
+   * records that didn't come from the file.
+   */
+  static async revertir(id: string): Promise<ServiceResult<{ eliminados: number; conservados: number }>> {
+    const importacion = await prisma.importacionClientes.findUnique({ where: { id } });
+
+    if (!importacion) {
+      return { success: false, error: 'Importación no encontrada' };
+    }
+
+    if (importacion.estado === 'REVERTIDA') {
+      return { success: false, error: 'La importación ya fue revertida' };
+    }
+
+    const now = new Date();
+    const importados = { importacionId: id, deletedAt: null } satisfies Prisma.ClienteWhereInput;
+    const revertibles = { ...importados, fusionados: { none: {} } } satisfies Prisma.ClienteWhereInput;
+
+    const [, clientes, conservados] = await prisma.$transaction([
+      prisma.actividad.updateMany({
+        where: { cliente: revertibles, deletedAt: null },
+        data: { deletedAt: now },
+      }),
+      prisma.cliente.updateMany({
+        where: revertibles,
+        data: { deletedAt: now },
+      }),
+      prisma.cliente.count({ where: importados }),
+      prisma.importacionClientes.update({
+        where: { id },
+        data: { estado: 'REVERTIDA', revertidoAt: now },
+      }),
+    ]);
+
+    return { success: true, data: { eliminados: clientes.count, conservados } };
+  }
+
+  /**
+   * Latest import batches
+   */
+  static async listar(limit = 20): Promise<ImportacionResumen[]> {
+    return prisma.importacionClientes.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        nombreArchivo: true,
+        estado: true,
+        totalFilas: true,
+        creados: true,
+        omitidos: true,
+        createdAt: true,
+        revertidoAt: true,
+        usuario: { select: { name: true, email: true } },
+      },
+    });
+  }
+}
@@ -0,0 +1,258 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { withRetry } from '@/lib/retry';
+import { FILTRO_ASIGNADO, MENSAJES_PROGRAMADOS } from '@/lib/constants';
+import { fechaLocalAUtc, fechaUtcALocal } from '@/lib/zona-horaria';
+import { sendEmail } from '@/lib/services/email-service';
+import { registrarEmailEntregado } from '@/lib/services/contact-service';
+import { contenidoEnvio } from '@/lib/services/bajas-service';
+import { EntregabilidadService, MENSAJE_SUPRESION } from '@/lib/services/entregabilidad-service';
+import type {
+  MensajesProgramadosFiltersValidated,
+  UpdateMensajeProgramadoValidated,
+} from '@/lib/validations/mensaje';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+const INCLUDE_PROGRAMADO = {
+  cliente: { select: { id: true, nombre: true, consentimientoEmail: true } },
+  contacto: { select: { id: true, nombre: true } },
+  usuario: { select: { id: true, name: true, email: true } },
+  plantilla: { select: { id: true, nombre: true } },
+} satisfies Prisma.MensajeInclude;
+
+export type MensajeProgramadoConRelaciones = Prisma.MensajeGetPayload<{ include: typeof INCLUDE_PROGRAMADO }>;
+
+// Still in the queue: editable and cancellable until the dispatcher claims it
+const EN_COLA = { estado: 'PROGRAMADO', deletedAt: null } satisfies Prisma.MensajeWhereInput;
+
+// In-run retries of a transient failure, before leaving it for the next run
+const REINTENTOS_POR_EJECUCION = 2;
+
+/**
+ * Failed send, carrying whether Resend said it is worth retrying
+ */
+class ErrorEnvio extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+function whereUsuario(usuario: string | undefined, usuarioId: string): Prisma.MensajeWhereInput {
+  if (usuario === FILTRO_ASIGNADO.TODOS) return {};
+  if (!usuario || usuario === FILTRO_ASIGNADO.MIOS) return { usuarioId };
+  return { usuarioId: usuario };
+}
+
+/**
+ * Service for the send-later queue of emails and its cron dispatcher
+ */
+export class MensajesProgramadosService {
+  /**
+   * Queued messages, next to go out first
+   */
+  static async listar(
+    filtros: MensajesProgramadosFiltersValidated,
+    usuarioId: string
+  ): Promise<MensajeProgramadoConRelaciones[]> {
+    return prisma.mensaje.findMany({
+      where: {
+        ...EN_COLA,
+        ...(filtros.clienteId
+          ? { clienteId: filtros.clienteId }
+          : whereUsuario(filtros.usuario, usuarioId)),
+      },
+      include: INCLUDE_PROGRAMADO,
+      orderBy: { programadoPara: 'asc' },
+      take: filtros.limit,
+    });
+  }
+
+  static async getById(id: string) {
+    return prisma.mensaje.findFirst({
+      where: { id, ...EN_COLA },
+      select: { id: true, usuarioId: true, programadoPara: true, zonaHoraria: true },
+    });
+  }
+
+  /**
+   * Edit a queued message. Changing only the timezone keeps the wall-clock time
+   * ("09:00") and moves the instant it goes out.
+   * Returns null when it is no longer in the queue.
+   */
+  static async actualizar(
+    id: string,
+    data: UpdateMensajeProgramadoValidated
+  ): Promise<ServiceResult<MensajeProgramadoConRelaciones> | null> {
+    const existente = await this.getById(id);
+    if (!existente || !existente.programadoPara) return null;
+
+    const zonaActual = existente.zonaHoraria ?? MENSAJES_PROGRAMADOS.ZONA_HORARIA_DEFAULT;
+    const zonaHoraria = data.zonaHoraria ?? zonaActual;
+    const fechaLocal = data.programadoPara ?? fechaUtcALocal(existente.programadoPara, zonaActual);
+    const programadoPara = fechaLocalAUtc(fechaLocal, zonaHoraria);
+
+    if (
+      programadoPara.getTime() !== existente.programadoPara.getTime() &&
+      programadoPara <= new Date()
+    ) {
+      return { success: false, error: 'La fecha programada ya pasó' };
+    }
+
+    // Guarded by estado so an edit can't race the dispatcher
+    const { count } = await prisma.mensaje.updateMany({
+      where: { id, ...EN_COLA },
+      data: {
+        ...(data.asunto !== undefined && { asunto: data.asunto }),
+        ...(data.cuerpo !== undefined && { cuerpo: data.cuerpo }),
+        programadoPara,
+        zonaHoraria,
+      },
+    });
+    if (count === 0) return null;
+
+    const mensaje = await prisma.mensaje.findUniqueOrThrow({
+      where: { id },
+      include: INCLUDE_PROGRAMADO,
+    });
+
+    return { success: true, data: mensaje };
+  }
+
+  /**
+   * Cancel a queued message. False when it was already sent or cancelled.
+   */
+  static async cancelar(id: string): Promise<boolean> {
+    const { count } = await prisma.mensaje.updateMany({
+      where: { id, ...EN_COLA },
+      data: { estado: 'CANCELADO' },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Send the messages that are due. Called by the dispatcher cron.
+   *
+   * Each message is claimed (PROGRAMADO -> PENDIENTE) before sending, so
+   * overlapping runs never send it twice. Transient failures are retried with
+   * backoff and, if still failing, put back in the queue for the next run
+   * until MAX_INTENTOS; anything else ends in ERROR.
+   */
+  static async despachar(): Promise<{ enviados: number; reprogramados: number; fallidos: number }> {
+    await this.recuperarReclamados();
+
+    const vencidos = await prisma.mensaje.findMany({
+      where: { ...EN_COLA, canal: 'EMAIL', programadoPara: { lte: new Date() } },
+      include: INCLUDE_PROGRAMADO,
+      orderBy: { programadoPara: 'asc' },
+      take: MENSAJES_PROGRAMADOS.MAX_POR_EJECUCION,
+    });
+
+    let enviados = 0;
+    let reprogramados = 0;
+    let fallidos = 0;
+
+    for (const mensaje of vencidos) {
+      const { count } = await prisma.mensaje.updateMany({
+        where: { id: mensaje.id, ...EN_COLA },
+        data: { estado: 'PENDIENTE', reclamadoEn: new Date() },
+      });
+      // Cancelled, edited away or taken by another run in the meantime
+      if (count === 0) continue;
+
+      let resendId: string | undefined;
+      try {
+        // The client may have opted out, or the address bounced or complained, since it was queued
+        if (mensaje.cliente.consentimientoEmail === 'REVOCADO') {
+          throw new ErrorEnvio('El cliente no acepta emails (consentimiento revocado)', false);
+        }
+        const supresion = await EntregabilidadService.motivoSupresion(mensaje.destinatario);
+        if (supresion) {
+          throw new ErrorEnvio(`No se envían emails a ${mensaje.destinatario}: ${MENSAJE_SUPRESION[supresion]}`, false);
+        }
+
+        resendId = await withRetry(
+          async () => {
+            const { html, headers } = contenidoEnvio(mensaje);
+            const result = await sendEmail(mensaje.destinatario, mensaje.asunto ?? '', html, {
+              idempotencyKey: mensaje.id,
+              headers,
+            });
+            if (!result.success) {
+              throw new ErrorEnvio(result.error || 'Error al enviar email', result.retryable ?? false);
+            }
+            return result.id;
+          },
+          {
+            maxRetries: REINTENTOS_POR_EJECUCION,
+            shouldRetry: (error) => error instanceof ErrorEnvio && error.retryable,
+          }
+        );
+      } catch (error) {
+        const intentos = mensaje.intentos + 1;
+        const reintentar = error instanceof ErrorEnvio && error.retryable && intentos < MENSAJES_PROGRAMADOS.MAX_INTENTOS;
+
+        await prisma.mensaje.update({
+          where: { id: mensaje.id },
+          data: {
+            estado: reintentar ? 'PROGRAMADO' : 'ERROR',
+            intentos,
+            errorDetalle: error instanceof Error ? error.message : String(error),
+          },
+        });
+
+        if (reintentar) reprogramados++;
+        else fallidos++;
+        continue;
+      }
+
+      await prisma.mensaje.update({
+        where: { id: mensaje.id },
+        data: { estado: 'ENVIADO', errorDetalle: null, enviadoEn: new Date(), resendId: resendId ?? null },
+      });
+      enviados++;
+
+      try {
+        await registrarEmailEntregado(mensaje, mensaje.cliente, mensaje.contacto, mensaje.plantilla?.nombre);
+      } catch (error) {
+        // The email is out: a failed activity log must not mark it as failed
+        logger.error('Error logging scheduled email', error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    return { enviados, reprogramados, fallidos };
+  }
+
+  /**
+   * Messages claimed by a run that died mid-send (timeout, crash) stay
+   * PENDIENTE forever. Once the claim expires they count as a failed attempt:
+   * back to the queue, or ERROR after MAX_INTENTOS. Resending is safe, the
+   * message id is the idempotency key in Resend.
+   */
+  private static async recuperarReclamados(): Promise<void> {
+    const vencidos = {
+      estado: 'PENDIENTE',
+      canal: 'EMAIL',
+      deletedAt: null,
+      reclamadoEn: { lt: new Date(Date.now() - MENSAJES_PROGRAMADOS.RECLAMO_VENCE_MINUTOS * 60 * 1000) },
+    } satisfies Prisma.MensajeWhereInput;
+    const errorDetalle = 'El envío quedó sin confirmar (se cortó la ejecución del despachador)';
+
+    const [agotados, reencolados] = await prisma.$transaction([
+      prisma.mensaje.updateMany({
+        where: { ...vencidos, intentos: { gte: MENSAJES_PROGRAMADOS.MAX_INTENTOS - 1 } },
+        data: { estado: 'ERROR', intentos: { increment: 1 }, errorDetalle },
+      }),
+      prisma.mensaje.updateMany({
+        where: vencidos,
+        data: { estado: 'PROGRAMADO', intentos: { increment: 1 }, errorDetalle },
+      }),
+    ]);
+
+    if (agotados.count + reencolados.count > 0) {
+      logger.warn('Recovered scheduled emails left claimed', { fallidos: agotados.count, reencolados: reencolados.count });
+    }
+  }
+}
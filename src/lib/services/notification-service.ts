@@ -14,6 +14,9 @@ export type NotificationType =
   | 'analysis_failed'
   | 'quota_warning'
   | 'quota_exceeded'
+  | 'task_reminder'
+  | 'task_overdue'
+  | 'reply_received'
   | 'system';
 
 export interface CreateNotificationDTO {
@@ -199,6 +202,66 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Remind the assignee about a task
+   */
+  static async notifyTaskReminder(
+    userId: string,
+    tareaId: string,
+    titulo: string,
+    vencimiento: Date,
+    clienteNombre?: string | null
+  ): Promise<Notification> {
+    const hora = vencimiento.toLocaleString('es-AR', { dateStyle: 'short', timeStyle: 'short' });
+    return this.create({
+      userId,
+      type: 'task_reminder',
+      title: `Recordatorio: ${titulo}`,
+      message: clienteNombre ? `Vence ${hora} · ${clienteNombre}` : `Vence ${hora}`,
+      link: '/tareas',
+      metadata: { tareaId },
+    });
+  }
+
+  /**
+   * Notify the assignee that a task is overdue
+   */
+  static async notifyTaskOverdue(
+    userId: string,
+    tareaId: string,
+    titulo: string,
+    clienteNombre?: string | null
+  ): Promise<Notification> {
+    return this.create({
+      userId,
+      type: 'task_overdue',
+      title: 'Tarea vencida',
+      message: clienteNombre ? `${titulo} · ${clienteNombre}` : titulo,
+      link: '/tareas?bandeja=vencidas',
+      metadata: { tareaId },
+    });
+  }
+
+  /**
+   * Notify the sender of a message that the client replied
+   */
+  static async notifyReplyReceived(
+    userId: string,
+    clienteId: string,
+    clienteNombre: string,
+    canal: 'EMAIL' | 'WHATSAPP',
+    texto: string
+  ): Promise<Notification> {
+    return this.create({
+      userId,
+      type: 'reply_received',
+      title: `${clienteNombre} respondió por ${canal === 'EMAIL' ? 'email' : 'WhatsApp'}`,
+      message: texto.length > 140 ? `${texto.slice(0, 140)}...` : texto,
+      link: `/clientes/${clienteId}`,
+      metadata: { clienteId, canal },
+    });
+  }
+
   /**
    * Notify user about quota warning
    */
@@ -0,0 +1,229 @@
+import type { EtapaOportunidad, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { OPORTUNIDADES } from '@/lib/constants';
+import type {
+  CreateOportunidadValidated,
+  UpdateOportunidadValidated,
+} from '@/lib/validations/oportunidad';
+import type { ResumenPipelineMoneda } from '@/types';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export const ETAPAS_ABIERTAS: EtapaOportunidad[] = ['CALIFICACION', 'PROPUESTA', 'NEGOCIACION'];
+
+const INCLUDE_OPORTUNIDAD = {
+  usuario: { select: { id: true, name: true, email: true } },
+  _count: { select: { actividades: { where: { deletedAt: null } } } },
+} satisfies Prisma.OportunidadInclude;
+
+type OportunidadConRelaciones = Prisma.OportunidadGetPayload<{ include: typeof INCLUDE_OPORTUNIDAD }>;
+
+// Decimal amounts are sent to the client as plain numbers
+export type OportunidadSerializada = Omit<OportunidadConRelaciones, 'monto'> & { monto: number };
+
+const serializar = (o: OportunidadConRelaciones): OportunidadSerializada => ({
+  ...o,
+  monto: o.monto.toNumber(),
+});
+
+const redondear = (valor: number) => Math.round(valor * 100) / 100;
+
+const esCerrada = (etapa: EtapaOportunidad) => !ETAPAS_ABIERTAS.includes(etapa);
+
+/**
+ * Stage-dependent fields: closed stages have a fixed probability and a close
+ * date, open ones use the given probability or the stage default.
+ */
+function camposDeEtapa(
+  etapa: EtapaOportunidad,
+  probabilidad: number | undefined,
+  fechaCierreActual: Date | null
+) {
+  if (esCerrada(etapa)) {
+    return {
+      etapa,
+      probabilidad: OPORTUNIDADES.PROBABILIDAD_POR_ETAPA[etapa],
+      fechaCierre: fechaCierreActual ?? new Date(),
+    };
+  }
+
+  return {
+    etapa,
+    probabilidad: probabilidad ?? OPORTUNIDADES.PROBABILIDAD_POR_ETAPA[etapa],
+    fechaCierre: null,
+  };
+}
+
+const MOTIVO_REQUERIDO = 'Indicá el motivo por el que se perdió la oportunidad';
+
+/**
+ * Service for sales opportunities (what was quoted to a client)
+ */
+export class OportunidadesService {
+  /**
+   * Opportunities of a client, open ones first
+   */
+  static async listar(clienteId: string): Promise<OportunidadSerializada[]> {
+    const oportunidades = await prisma.oportunidad.findMany({
+      where: { clienteId, deletedAt: null },
+      orderBy: [{ fechaCierre: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+      include: INCLUDE_OPORTUNIDAD,
+    });
+
+    return oportunidades.map(serializar);
+  }
+
+  /**
+   * Create an opportunity. A lost one needs the reason why.
+   */
+  static async crear(
+    clienteId: string,
+    usuarioId: string,
+    data: CreateOportunidadValidated
+  ): Promise<ServiceResult<OportunidadSerializada>> {
+    const { etapa = 'CALIFICACION', probabilidad, motivoCierre, ...datos } = data;
+
+    if (etapa === 'PERDIDA' && !motivoCierre?.trim()) {
+      return { success: false, error: MOTIVO_REQUERIDO };
+    }
+
+    const oportunidad = await prisma.oportunidad.create({
+      data: {
+        ...datos,
+        ...camposDeEtapa(etapa, probabilidad, null),
+        motivoCierre: motivoCierre?.trim() || null,
+        clienteId,
+        usuarioId,
+      },
+      include: INCLUDE_OPORTUNIDAD,
+    });
+
+    return { success: true, data: serializar(oportunidad) };
+  }
+
+  /**
+   * Update an opportunity (null when it does not belong to the client).
+   * Also returns the previous stage so the caller can log the change.
+   */
+  static async actualizar(
+    clienteId: string,
+    id: string,
+    data: UpdateOportunidadValidated
+  ): Promise<ServiceResult<{ oportunidad: OportunidadSerializada; etapaAnterior: EtapaOportunidad }> | null> {
+    const existente = await prisma.oportunidad.findFirst({
+      where: { id, clienteId, deletedAt: null },
+    });
+    if (!existente) return null;
+
+    const { etapa = existente.etapa, probabilidad, motivoCierre, ...datos } = data;
+    const motivo = motivoCierre === undefined ? existente.motivoCierre : motivoCierre?.trim() || null;
+
+    if (etapa === 'PERDIDA' && !motivo) {
+      return { success: false, error: MOTIVO_REQUERIDO };
+    }
+
+    // Same stage keeps its probability and close date; a new stage starts from its defaults
+    const mismaEtapa = etapa === existente.etapa;
+
+    const oportunidad = await prisma.oportunidad.update({
+      where: { id },
+      data: {
+        ...datos,
+        ...camposDeEtapa(
+          etapa,
+          probabilidad ?? (mismaEtapa ? existente.probabilidad : undefined),
+          mismaEtapa ? existente.fechaCierre : null
+        ),
+        // Reopening clears the won/lost reason
+        motivoCierre: esCerrada(etapa) ? motivo : null,
+      },
+      include: INCLUDE_OPORTUNIDAD,
+    });
+
+    return {
+      success: true,
+      data: { oportunidad: serializar(oportunidad), etapaAnterior: existente.etapa },
+    };
+  }
+
+  /**
+   * Soft-delete an opportunity. Linked activities keep their history.
+   */
+  static async eliminar(clienteId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.oportunidad.updateMany({
+      where: { id, clienteId, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Whether an opportunity exists and belongs to the client (used to link activities)
+   */
+  static async perteneceA(clienteId: string, id: string): Promise<boolean> {
+    const count = await prisma.oportunidad.count({
+      where: { id, clienteId, deletedAt: null },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Pipeline value per currency: open amount, amount weighted by probability
+   * and what was won this month. Currencies are never converted.
+   */
+  static async getResumenPipeline(): Promise<ResumenPipelineMoneda[]> {
+    const hoy = new Date();
+    const inicioDelMes = new Date(hoy.getFullYear(), hoy.getMonth(), 1);
+    const base = { deletedAt: null, cliente: { deletedAt: null } } satisfies Prisma.OportunidadWhereInput;
+
+    const [abiertas, ganadas] = await Promise.all([
+      // Grouped by probability too, so the weighted value is exact
+      prisma.oportunidad.groupBy({
+        by: ['moneda', 'probabilidad'],
+        where: { ...base, etapa: { in: ETAPAS_ABIERTAS } },
+        _sum: { monto: true },
+        _count: { _all: true },
+      }),
+      prisma.oportunidad.groupBy({
+        by: ['moneda'],
+        where: { ...base, etapa: 'GANADA', fechaCierre: { gte: inicioDelMes } },
+        _sum: { monto: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const resumen = new Map<string, ResumenPipelineMoneda>();
+    const obtener = (moneda: string) => {
+      let fila = resumen.get(moneda);
+      if (!fila) {
+        fila = { moneda, abiertas: 0, valorPipeline: 0, valorPonderado: 0, ganadasMes: 0, valorGanadoMes: 0 };
+        resumen.set(moneda, fila);
+      }
+      return fila;
+    };
+
+    for (const grupo of abiertas) {
+      const fila = obtener(grupo.moneda);
+      const monto = grupo._sum.monto?.toNumber() ?? 0;
+      fila.abiertas += grupo._count._all;
+      fila.valorPipeline = redondear(fila.valorPipeline + monto);
+      fila.valorPonderado = redondear(fila.valorPonderado + (monto * grupo.probabilidad) / 100);
+    }
+
+    for (const grupo of ganadas) {
+      const fila = obtener(grupo.moneda);
+      fila.ganadasMes = grupo._count._all;
+      fila.valorGanadoMes = grupo._sum.monto?.toNumber() ?? 0;
+    }
+
+    // Known currencies first, in the configured order
+    const orden = (moneda: string) => {
+      const i = (OPORTUNIDADES.MONEDAS as readonly string[]).indexOf(moneda);
+      return i === -1 ? OPORTUNIDADES.MONEDAS.length : i;
+    };
+
+    return [...resumen.values()].sort((a, b) => orden(a.moneda) - orden(b.moneda));
+  }
+}
@@ -0,0 +1,131 @@
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import {
+  ALL_PERMISSIONS,
+  PERMISSIONS,
+  ROLES,
+  hasPermission,
+  getPermissionsForRole,
+  type Permission,
+  type PermissionMatrix,
+  type UserRole,
+} from '@/lib/rbac';
+
+// In-memory cache of the effective matrix. Kept short because every serverless
+// instance has its own copy and only the one handling an update invalidates it.
+let matrixCache: PermissionMatrix | null = null;
+let lastCacheUpdate = 0;
+const CACHE_TTL = 60 * 1000; // 1 minute
+
+function buildDefaultMatrix(): PermissionMatrix {
+  return ALL_PERMISSIONS.reduce((acc, permission) => {
+    acc[permission] = [...PERMISSIONS[permission]];
+    return acc;
+  }, {} as PermissionMatrix);
+}
+
+/**
+ * Service for resolving and editing the role -> permission mapping.
+ * DB rows override the defaults in PERMISSIONS; ADMIN always keeps every permission.
+ */
+export class PermissionService {
+  /**
+   * Get the effective permission matrix (defaults + DB overrides)
+   */
+  static async getMatrix(): Promise<PermissionMatrix> {
+    const now = Date.now();
+    if (matrixCache && now - lastCacheUpdate < CACHE_TTL) {
+      return matrixCache;
+    }
+
+    const matrix = buildDefaultMatrix();
+
+    try {
+      const overrides = await prisma.rolePermission.findMany();
+
+      for (const override of overrides) {
+        const permission = override.permission as Permission;
+        if (!ALL_PERMISSIONS.includes(permission) || override.role === 'ADMIN') continue;
+
+        const roles = matrix[permission].filter((r) => r !== override.role);
+        matrix[permission] = override.granted ? [...roles, override.role] : roles;
+      }
+    } catch (error) {
+      // Fall back to the defaults rather than locking everybody out
+      logger.error(
+        '[Permissions] Failed to load role permissions, using defaults',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      return matrix;
+    }
+
+    matrixCache = matrix;
+    lastCacheUpdate = now;
+
+    return matrix;
+  }
+
+  /**
+   * Check if a role has a permission using the effective matrix
+   */
+  static async hasPermission(
+    userRole: string | null | undefined,
+    permission: Permission
+  ): Promise<boolean> {
+    if (!userRole) return false;
+    const matrix = await this.getMatrix();
+    return hasPermission(userRole, permission, matrix);
+  }
+
+  /**
+   * List the permissions granted to a role
+   */
+  static async getPermissionsForRole(userRole: string | null | undefined): Promise<Permission[]> {
+    const matrix = await this.getMatrix();
+    return getPermissionsForRole(userRole, matrix);
+  }
+
+  /**
+   * Replace the permissions of a (non admin) role
+   */
+  static async updateRolePermissions(
+    role: Exclude<UserRole, 'ADMIN'>,
+    permissions: Permission[]
+  ): Promise<PermissionMatrix> {
+    await prisma.$transaction(
+      ALL_PERMISSIONS.map((permission) => {
+        const granted = permissions.includes(permission);
+        return prisma.rolePermission.upsert({
+          where: { role_permission: { role, permission } },
+          update: { granted },
+          create: { role, permission, granted },
+        });
+      })
+    );
+
+    this.invalidateCache();
+    return this.getMatrix();
+  }
+
+  /**
+   * Drop every override and go back to the default matrix
+   */
+  static async resetToDefaults(): Promise<PermissionMatrix> {
+    await prisma.rolePermission.deleteMany();
+
+    this.invalidateCache();
+    return this.getMatrix();
+  }
+
+  /**
+   * Roles whose permissions can be edited
+   */
+  static getEditableRoles(): Exclude<UserRole, 'ADMIN'>[] {
+    return ROLES.filter((r): r is Exclude<UserRole, 'ADMIN'> => r !== 'ADMIN');
+  }
+
+  static invalidateCache(): void {
+    matrixCache = null;
+    lastCacheUpdate = 0;
+  }
+}
@@ -0,0 +1,99 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { KANBAN } from '@/lib/constants';
+import type { UpdatePipelineEtapasValidated } from '@/lib/validations/pipeline';
+import type { ColumnaKanban, EstadoCliente, EtapaPipeline } from '@/types';
+
+// Pipeline stages in board order
+export const ETAPAS_PIPELINE: EstadoCliente[] = [
+  'NUEVO',
+  'PRIMER_CONTACTO',
+  'EN_TRATATIVAS',
+  'EN_DESARROLLO',
+  'FINALIZADO',
+  'RECONTACTO',
+];
+
+const SELECT_KANBAN = {
+  id: true,
+  nombre: true,
+  ciudad: true,
+  industria: true,
+  prioridad: true,
+  ultimoContacto: true,
+  asignadoA: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ClienteSelect;
+
+/**
+ * Service for the sales pipeline (Kanban board driven by EstadoCliente)
+ */
+export class PipelineService {
+  /**
+   * Every stage with its WIP limit (stages without a row are unlimited)
+   */
+  static async getEtapas(): Promise<EtapaPipeline[]> {
+    const filas = await prisma.pipelineEtapa.findMany();
+    const limites = new Map(filas.map((f) => [f.estado, f.limiteWip]));
+
+    return ETAPAS_PIPELINE.map((estado) => ({
+      estado,
+      limiteWip: limites.get(estado) ?? null,
+    }));
+  }
+
+  /**
+   * Update the WIP limit of the given stages
+   */
+  static async updateLimites(
+    limites: UpdatePipelineEtapasValidated['limites']
+  ): Promise<EtapaPipeline[]> {
+    await prisma.$transaction(
+      Object.entries(limites).map(([estado, limiteWip]) =>
+        prisma.pipelineEtapa.upsert({
+          where: { estado: estado as EstadoCliente },
+          update: { limiteWip },
+          create: { estado: estado as EstadoCliente, limiteWip },
+        })
+      )
+    );
+
+    return this.getEtapas();
+  }
+
+  /**
+   * Board columns for the client list filters: full count per stage plus the
+   * first KANBAN.MAX_TARJETAS clients of each one
+   */
+  static async getTablero(
+    where: Prisma.ClienteWhereInput,
+    orderBy: Prisma.ClienteOrderByWithRelationInput
+  ): Promise<ColumnaKanban[]> {
+    const [etapas, conteos, clientesPorEtapa] = await Promise.all([
+      this.getEtapas(),
+      prisma.cliente.groupBy({
+        by: ['estado'],
+        where,
+        _count: { _all: true },
+      }),
+      Promise.all(
+        ETAPAS_PIPELINE.map((estado) =>
+          prisma.cliente.findMany({
+            // AND keeps an "estado" filter working: other columns come back empty
+            where: { AND: [where, { estado }] },
+            orderBy,
+            take: KANBAN.MAX_TARJETAS,
+            select: SELECT_KANBAN,
+          })
+        )
+      ),
+    ]);
+
+    const totales = new Map(conteos.map((c) => [c.estado, c._count._all]));
+
+    return etapas.map((etapa, i) => ({
+      ...etapa,
+      total: totales.get(etapa.estado) ?? 0,
+      clientes: clientesPorEtapa[i],
+    }));
+  }
+}
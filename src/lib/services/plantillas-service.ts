@@ -0,0 +1,221 @@
+import { Prisma, type VariantePlantilla } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { PLANTILLAS } from '@/lib/constants';
+import type {
+  CreatePlantillaValidated,
+  CreateVarianteValidated,
+  UpdatePlantillaValidated,
+  UpdateVarianteValidated,
+} from '@/lib/validations/plantilla';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export const VARIANTE_PRINCIPAL = PLANTILLAS.VARIANTES[0];
+
+const INCLUDE_PLANTILLA = {
+  creadoPor: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.PlantillaContactoInclude;
+
+const INCLUDE_VERSION = {
+  creadoPor: { select: { id: true, name: true, email: true } },
+  _count: { select: { mensajes: true } },
+} satisfies Prisma.VersionPlantillaInclude;
+
+interface Contenido {
+  asunto: string | null;
+  cuerpo: string;
+}
+
+/**
+ * Version of a template's (or variant's) content: the last one when it is
+ * unchanged, a new one numbered after it otherwise
+ */
+async function registrarVersion(
+  tx: Prisma.TransactionClient,
+  plantillaId: string,
+  variante: string,
+  { asunto, cuerpo }: Contenido,
+  creadoPorId: string | null
+): Promise<{ id: string }> {
+  const ultima = await tx.versionPlantilla.findFirst({
+    where: { plantillaId, variante },
+    orderBy: { numero: 'desc' },
+    select: { id: true, numero: true, asunto: true, cuerpo: true },
+  });
+  if (ultima && ultima.asunto === asunto && ultima.cuerpo === cuerpo) return ultima;
+
+  return tx.versionPlantilla.create({
+    data: { plantillaId, variante, numero: (ultima?.numero ?? 0) + 1, asunto, cuerpo, creadoPorId },
+    select: { id: true },
+  });
+}
+
+/**
+ * Service for contact templates, their immutable version history and A/B variants
+ */
+export class PlantillasService {
+  static async crear(data: CreatePlantillaValidated, creadoPorId: string) {
+    return prisma.$transaction(async (tx) => {
+      const plantilla = await tx.plantillaContacto.create({
+        data: {
+          nombre: data.nombre,
+          descripcion: data.descripcion || null,
+          canal: data.canal,
+          asunto: data.asunto || null,
+          cuerpo: data.cuerpo,
+          ...(data.seguimiento !== undefined && { seguimiento: data.seguimiento }),
+          whatsappTemplate: data.whatsappTemplate || null,
+          whatsappIdioma: data.whatsappIdioma || null,
+          whatsappParametros: data.whatsappParametros ?? [],
+          creadoPorId,
+        },
+        include: INCLUDE_PLANTILLA,
+      });
+
+      await registrarVersion(tx, plantilla.id, VARIANTE_PRINCIPAL, plantilla, creadoPorId);
+      return plantilla;
+    });
+  }
+
+  /**
+   * Update a template. A change of subject or body is kept as a new version.
+   */
+  static async actualizar(id: string, data: UpdatePlantillaValidated, usuarioId: string) {
+    return prisma.$transaction(async (tx) => {
+      const plantilla = await tx.plantillaContacto.update({
+        where: { id },
+        data,
+        include: INCLUDE_PLANTILLA,
+      });
+
+      if (data.asunto !== undefined || data.cuerpo !== undefined) {
+        await registrarVersion(tx, id, VARIANTE_PRINCIPAL, plantilla, usuarioId);
+      }
+      return plantilla;
+    });
+  }
+
+  /**
+   * Every version of the template and its variants, newest first
+   */
+  static async listarVersiones(plantillaId: string) {
+    return prisma.versionPlantilla.findMany({
+      where: { plantillaId },
+      include: INCLUDE_VERSION,
+      orderBy: [{ variante: 'asc' }, { numero: 'desc' }],
+    });
+  }
+
+  static async listarVariantes(plantillaId: string) {
+    return prisma.variantePlantilla.findMany({
+      where: { plantillaId },
+      orderBy: { nombre: 'asc' },
+    });
+  }
+
+  /**
+   * Add the next variant (B, C...) of a template
+   */
+  static async crearVariante(
+    plantillaId: string,
+    data: CreateVarianteValidated,
+    usuarioId: string
+  ): Promise<ServiceResult<VariantePlantilla>> {
+    const existentes = await prisma.variantePlantilla.findMany({
+      where: { plantillaId },
+      select: { nombre: true },
+    });
+    const usados = new Set([VARIANTE_PRINCIPAL, ...existentes.map((v) => v.nombre)]);
+    const nombre = PLANTILLAS.VARIANTES.find((v) => !usados.has(v));
+    if (!nombre) {
+      return { success: false, error: `Máximo ${PLANTILLAS.VARIANTES.length} variantes por plantilla` };
+    }
+
+    const variante = await prisma.$transaction(async (tx) => {
+      const creada = await tx.variantePlantilla.create({
+        data: { plantillaId, nombre, asunto: data.asunto || null, cuerpo: data.cuerpo },
+      });
+      await registrarVersion(tx, plantillaId, nombre, creada, usuarioId);
+      return creada;
+    });
+
+    return { success: true, data: variante };
+  }
+
+  /**
+   * Edit or (de)activate a variant. Returns null when it doesn't belong to the template.
+   */
+  static async actualizarVariante(
+    plantillaId: string,
+    varianteId: string,
+    data: UpdateVarianteValidated,
+    usuarioId: string
+  ) {
+    const existente = await prisma.variantePlantilla.findFirst({
+      where: { id: varianteId, plantillaId },
+      select: { id: true },
+    });
+    if (!existente) return null;
+
+    return prisma.$transaction(async (tx) => {
+      const variante = await tx.variantePlantilla.update({ where: { id: varianteId }, data });
+
+      if (data.asunto !== undefined || data.cuerpo !== undefined) {
+        await registrarVersion(tx, plantillaId, variante.nombre, variante, usuarioId);
+      }
+      return variante;
+    });
+  }
+
+  /**
+   * Content to send for a variant of a template, with the version it comes from.
+   * Unknown or inactive variants fall back to the template's own content.
+   */
+  static async contenidoParaEnvio(
+    plantilla: { id: string; asunto: string | null; cuerpo: string },
+    variante?: string
+  ): Promise<Contenido & { variante: string; versionId: string }> {
+    const elegida = variante && variante !== VARIANTE_PRINCIPAL
+      ? await prisma.variantePlantilla.findFirst({
+        where: { plantillaId: plantilla.id, nombre: variante, activa: true },
+      })
+      : null;
+
+    const nombre = elegida?.nombre ?? VARIANTE_PRINCIPAL;
+    const contenido = { asunto: elegida ? elegida.asunto : plantilla.asunto, cuerpo: elegida?.cuerpo ?? plantilla.cuerpo };
+
+    // Edits already record their version, so this only creates one for content
+    // saved before versioning. Concurrent sends may race to create it: the loser
+    // takes the winner's.
+    let version: { id: string };
+    try {
+      version = await registrarVersion(prisma, plantilla.id, nombre, contenido, null);
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+      version = await registrarVersion(prisma, plantilla.id, nombre, contenido, null);
+    }
+
+    return { ...contenido, variante: nombre, versionId: version.id };
+  }
+
+  /**
+   * Split the recipients of a bulk send evenly and at random across the
+   * template's own content and its active variants
+   */
+  static async repartirVariantes(plantillaId: string, clienteIds: string[]): Promise<Map<string, string>> {
+    const variantes = await prisma.variantePlantilla.findMany({
+      where: { plantillaId, activa: true },
+      select: { nombre: true },
+      orderBy: { nombre: 'asc' },
+    });
+    const nombres = [VARIANTE_PRINCIPAL, ...variantes.map((v) => v.nombre)];
+
+    const mezclados = [...clienteIds];
+    for (let i = mezclados.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [mezclados[i], mezclados[j]] = [mezclados[j], mezclados[i]];
+    }
+
+    return new Map(mezclados.map((clienteId, i) => [clienteId, nombres[i % nombres.length]]));
+  }
+}
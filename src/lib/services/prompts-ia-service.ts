@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_PROMPTS } from './enrichment-prompts';
+import type { CrearVersionPromptIADTO, PlantillasPromptIA } from '@/types/enrichment';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+const INCLUDE_VERSION = {
+  creadoPor: { select: { id: true, name: true, email: true } },
+  _count: { select: { enriquecimientos: true } },
+} satisfies Prisma.VersionPromptIAInclude;
+
+type VersionConAutor = Prisma.VersionPromptIAGetPayload<{ include: typeof INCLUDE_VERSION }>;
+
+export interface PromptsActivos extends PlantillasPromptIA {
+  id: string;
+  numero: number;
+}
+
+const SELECT_ACTIVOS = {
+  id: true,
+  numero: true,
+  sistema: true,
+  enriquecimiento: true,
+  consenso: true,
+} satisfies Prisma.VersionPromptIASelect;
+
+const mismoContenido = (a: PlantillasPromptIA, b: PlantillasPromptIA) =>
+  a.sistema === b.sistema && a.enriquecimiento === b.enriquecimiento && a.consenso === b.consenso;
+
+// Attempts of a save or rollback that collided with a concurrent one
+const INTENTOS_CONCURRENCIA = 3;
+
+/**
+ * Run the operation again when it hits a unique constraint (the version
+ * number, or the single active version) because another admin saved at the
+ * same time. The retry sees their change.
+ */
+async function reintentarSiChoca<T>(operacion: () => Promise<T>): Promise<T> {
+  for (let intento = 1; ; intento++) {
+    try {
+      return await operacion();
+    } catch (error) {
+      const choque = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!choque || intento >= INTENTOS_CONCURRENCIA) throw error;
+    }
+  }
+}
+
+/**
+ * Enrichment prompts as an immutable version history. Exactly one version is
+ * active; saving makes a new one active and rolling back reactivates an old one.
+ */
+export class PromptsIAService {
+  /**
+   * Prompts to enrich with. The defaults become version 1 the first time.
+   */
+  static async getActivos(): Promise<PromptsActivos> {
+    const activa = await prisma.versionPromptIA.findFirst({
+      where: { activa: true },
+      select: SELECT_ACTIVOS,
+    });
+    if (activa) return activa;
+
+    try {
+      return await prisma.versionPromptIA.create({
+        data: { numero: 1, ...DEFAULT_PROMPTS, nota: 'Prompts por defecto', activa: true },
+        select: SELECT_ACTIVOS,
+      });
+    } catch (error) {
+      // Another enrichment created it at the same time
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.versionPromptIA.findFirstOrThrow({ where: { activa: true }, select: SELECT_ACTIVOS });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Every version, newest first
+   */
+  static async listarVersiones() {
+    await this.getActivos();
+    return prisma.versionPromptIA.findMany({
+      include: INCLUDE_VERSION,
+      orderBy: { numero: 'desc' },
+    });
+  }
+
+  /**
+   * Save the prompts as a new version, which becomes the active one
+   */
+  static async crearVersion(
+    data: CrearVersionPromptIADTO,
+    creadoPorId: string
+  ): Promise<ServiceResult<VersionConAutor>> {
+    return reintentarSiChoca(async () => {
+      const activos = await this.getActivos();
+      if (mismoContenido(activos, data)) {
+        return { success: false, error: 'Los prompts no cambiaron respecto a la versión activa' };
+      }
+
+      const version = await prisma.$transaction(async (tx) => {
+        const ultima = await tx.versionPromptIA.findFirst({ orderBy: { numero: 'desc' }, select: { numero: true } });
+        await tx.versionPromptIA.updateMany({ where: { activa: true }, data: { activa: false } });
+        return tx.versionPromptIA.create({
+          data: {
+            numero: (ultima?.numero ?? 0) + 1,
+            sistema: data.sistema,
+            enriquecimiento: data.enriquecimiento,
+            consenso: data.consenso,
+            nota: data.nota || null,
+            activa: true,
+            creadoPorId,
+          },
+          include: INCLUDE_VERSION,
+        });
+      });
+
+      return { success: true, data: version };
+    });
+  }
+
+  /**
+   * Roll back to a saved version. Returns null when it doesn't exist.
+   */
+  static async activar(id: string): Promise<ServiceResult<{ id: string; numero: number }> | null> {
+    const version = await prisma.versionPromptIA.findUnique({
+      where: { id },
+      select: { id: true, numero: true, activa: true },
+    });
+    if (!version) return null;
+    if (version.activa) {
+      return { success: false, error: `La versión ${version.numero} ya es la activa` };
+    }
+
+    await reintentarSiChoca(() =>
+      prisma.$transaction([
+        prisma.versionPromptIA.updateMany({ where: { activa: true }, data: { activa: false } }),
+        prisma.versionPromptIA.update({ where: { id }, data: { activa: true } }),
+      ])
+    );
+
+    return { success: true, data: { id: version.id, numero: version.numero } };
+  }
+}
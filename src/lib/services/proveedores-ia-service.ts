@@ -0,0 +1,159 @@
+import type { ProveedorIA as ProveedorIARow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { encrypt, decrypt, maskApiKey } from '@/lib/crypto';
+import type { ActualizarProveedorIADTO, AIProviderOption, CrearProveedorIADTO, ProveedorIA } from '@/types/enrichment';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+/**
+ * What AISdkService needs to call a custom provider (decrypted, server-side only)
+ */
+export interface ConfigProveedorIA {
+  slug: string;
+  baseUrl: string;
+  apiKey: string | null;
+  cabeceras: Record<string, string>;
+  modelo: string;
+  timeoutMs: number | null;
+}
+
+function leerCabeceras(cifradas: string | null): Record<string, string> {
+  return cifradas ? (JSON.parse(decrypt(cifradas)) as Record<string, string>) : {};
+}
+
+function cifrarCabeceras(cabeceras: Record<string, string>): string | null {
+  return Object.keys(cabeceras).length > 0 ? encrypt(JSON.stringify(cabeceras)) : null;
+}
+
+function toResponse(row: ProveedorIARow): ProveedorIA {
+  return {
+    id: row.id,
+    slug: row.slug,
+    nombre: row.nombre,
+    baseUrl: row.baseUrl,
+    maskedKey: row.apiKey ? maskApiKey(decrypt(row.apiKey)) : null,
+    cabeceras: Object.keys(leerCabeceras(row.cabeceras)),
+    modelos: row.modelos,
+    modelo: row.modelo,
+    timeoutMs: row.timeoutMs,
+    enabled: row.enabled,
+    lastUsedAt: row.lastUsedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Custom OpenAI-compatible AI providers, configured by admins next to the
+ * built-in ones. Their slug is used as the AIProvider everywhere else.
+ */
+export class ProveedoresIAService {
+  /**
+   * All custom providers (keys masked, header values hidden)
+   */
+  static async getAll(): Promise<ProveedorIA[]> {
+    const rows = await prisma.proveedorIA.findMany({
+      orderBy: [{ enabled: 'desc' }, { nombre: 'asc' }],
+    });
+    return rows.map(toResponse);
+  }
+
+  static async getById(id: string): Promise<ProveedorIA | null> {
+    const row = await prisma.proveedorIA.findUnique({ where: { id } });
+    return row ? toResponse(row) : null;
+  }
+
+  /**
+   * Call configuration of an enabled provider
+   */
+  static async getConfig(slug: string): Promise<ConfigProveedorIA | null> {
+    const row = await prisma.proveedorIA.findUnique({ where: { slug } });
+    if (!row || !row.enabled) return null;
+
+    return {
+      slug: row.slug,
+      baseUrl: row.baseUrl,
+      apiKey: row.apiKey ? decrypt(row.apiKey) : null,
+      cabeceras: leerCabeceras(row.cabeceras),
+      modelo: row.modelo,
+      timeoutMs: row.timeoutMs,
+    };
+  }
+
+  /**
+   * Enabled providers, to offer them for enrichment
+   */
+  static async getEnabled(): Promise<AIProviderOption[]> {
+    const rows = await prisma.proveedorIA.findMany({
+      where: { enabled: true },
+      select: { slug: true, nombre: true },
+      orderBy: { nombre: 'asc' },
+    });
+    return rows.map((row) => ({ id: row.slug, name: row.nombre }));
+  }
+
+  static async create(data: CrearProveedorIADTO): Promise<ServiceResult<ProveedorIA>> {
+    const existing = await prisma.proveedorIA.findUnique({ where: { slug: data.slug }, select: { id: true } });
+    if (existing) {
+      return { success: false, error: 'Ya existe un proveedor con ese identificador' };
+    }
+
+    const row = await prisma.proveedorIA.create({
+      data: {
+        slug: data.slug,
+        nombre: data.nombre,
+        baseUrl: data.baseUrl,
+        apiKey: data.apiKey ? encrypt(data.apiKey) : null,
+        cabeceras: cifrarCabeceras(data.cabeceras ?? {}),
+        modelos: data.modelos,
+        modelo: data.modelo,
+        timeoutMs: data.timeoutMs ?? null,
+        enabled: data.enabled ?? true,
+      },
+    });
+
+    return { success: true, data: toResponse(row) };
+  }
+
+  /**
+   * Update a provider; null when it doesn't exist
+   */
+  static async update(id: string, data: ActualizarProveedorIADTO): Promise<ServiceResult<ProveedorIA> | null> {
+    const current = await prisma.proveedorIA.findUnique({ where: { id } });
+    if (!current) return null;
+
+    // The model in use must stay in the list
+    const modelos = data.modelos ?? current.modelos;
+    const modelo = data.modelo ?? (modelos.includes(current.modelo) ? current.modelo : modelos[0]);
+    if (!modelos.includes(modelo)) {
+      return { success: false, error: 'El modelo a usar debe estar en la lista de modelos' };
+    }
+
+    const row = await prisma.proveedorIA.update({
+      where: { id },
+      data: {
+        nombre: data.nombre,
+        baseUrl: data.baseUrl,
+        ...(data.apiKey !== undefined && { apiKey: data.apiKey ? encrypt(data.apiKey) : null }),
+        ...(data.cabeceras !== undefined && { cabeceras: cifrarCabeceras(data.cabeceras) }),
+        modelos,
+        modelo,
+        timeoutMs: data.timeoutMs,
+        enabled: data.enabled,
+      },
+    });
+
+    return { success: true, data: toResponse(row) };
+  }
+
+  static async delete(id: string): Promise<void> {
+    await prisma.proveedorIA.delete({ where: { id } });
+  }
+
+  static async markUsed(slug: string): Promise<void> {
+    await prisma.proveedorIA.updateMany({
+      where: { slug },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+}
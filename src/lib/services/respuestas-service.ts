@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { registrarEmailRecibido, registrarWhatsAppRecibido } from '@/lib/actividades-automaticas';
+import { direccionEmail, idsDeMensaje, parsearEmail, sinCitas, textoDeHtml } from '@/lib/mime';
+import { getReceivedEmail } from './email-service';
+import { NotificationService } from './notification-service';
+import { SecuenciasService } from './secuencias-service';
+import { SeguimientoService, mensajeDeReferencias } from './seguimiento-service';
+
+export interface EmailRecibido {
+  // Resend email id or Message-ID
+  externoId: string;
+  // From header, as received
+  de: string;
+  asunto: string | null;
+  texto: string | null;
+  html: string | null;
+  inReplyTo: string | null;
+  references: string | null;
+  recibidoEn: Date;
+}
+
+export interface MensajeRecibido {
+  canal: 'EMAIL' | 'WHATSAPP';
+  remitente: string;
+  asunto: string | null;
+  cuerpo: string;
+  // Id at the provider: redeliveries are stored once
+  externoId: string;
+  recibidoEn: Date;
+}
+
+// Client (and contact) a reply comes from, and the message it answers
+export interface DestinoRespuesta {
+  clienteId: string;
+  clienteNombre: string;
+  contactoId: string | null;
+  mensajeId: string | null;
+  // Sender of the message answered or, without one, the client's owner
+  usuarioId: string;
+}
+
+export const selectOriginal = {
+  id: true,
+  clienteId: true,
+  contactoId: true,
+  usuarioId: true,
+  cliente: { select: { nombre: true } },
+} satisfies Prisma.MensajeSelect;
+
+export const destinoDeMensaje = (
+  mensaje: Prisma.MensajeGetPayload<{ select: typeof selectOriginal }>
+): DestinoRespuesta => ({
+  clienteId: mensaje.clienteId,
+  clienteNombre: mensaje.cliente.nombre,
+  contactoId: mensaje.contactoId,
+  mensajeId: mensaje.id,
+  usuarioId: mensaje.usuarioId,
+});
+
+/**
+ * Service for replies of clients (inbound email and WhatsApp): stored as inbound
+ * messages, logged as an activity, and they stop the client's automatic follow-ups
+ */
+export class RespuestasService {
+  /**
+   * Store an email reply. False when it matches no client or was already stored.
+   */
+  static async registrarEmail(email: EmailRecibido): Promise<boolean> {
+    const remitente = direccionEmail(email.de);
+    // The message it answers is the closest one: In-Reply-To, then References from the end
+    const messageIds = [...idsDeMensaje(email.inReplyTo), ...idsDeMensaje(email.references).reverse()];
+
+    const destino = await this.destinoEmail(remitente, messageIds);
+    if (!destino) {
+      logger.info('Inbound email from an unknown sender', { externoId: email.externoId });
+      return false;
+    }
+
+    return this.registrar({
+      canal: 'EMAIL',
+      remitente: remitente ?? email.de,
+      asunto: email.asunto,
+      cuerpo: sinCitas(email.texto ?? (email.html ? textoDeHtml(email.html) : '')),
+      externoId: email.externoId,
+      recibidoEn: email.recibidoEn,
+    }, destino);
+  }
+
+  /**
+   * Store an email received through Resend inbound (email.received webhook).
+   * Throws when it can't be fetched, so the webhook is retried.
+   */
+  static async registrarEmailResend(emailId: string): Promise<boolean> {
+    const email = await getReceivedEmail(emailId);
+    if (!email) {
+      throw new Error(`Received email ${emailId} could not be fetched`);
+    }
+
+    const cabecera = (nombre: string) =>
+      Object.entries(email.headers ?? {}).find(([clave]) => clave.toLowerCase() === nombre)?.[1] ?? null;
+
+    return this.registrarEmail({
+      externoId: email.id,
+      de: email.from,
+      asunto: email.subject || null,
+      texto: email.text,
+      html: email.html,
+      inReplyTo: cabecera('in-reply-to'),
+      references: cabecera('references'),
+      recibidoEn: new Date(email.created_at),
+    });
+  }
+
+  /**
+   * Store an email received as a raw MIME message
+   */
+  static async registrarEmailMime(raw: Buffer): Promise<boolean> {
+    const { cabeceras, texto, html } = parsearEmail(raw);
+    const fecha = cabeceras.date ? new Date(cabeceras.date) : null;
+
+    return this.registrarEmail({
+      // Without a Message-ID, the same content is the same email
+      externoId: idsDeMensaje(cabeceras['message-id'])[0] ?? createHash('sha256').update(raw).digest('hex'),
+      de: cabeceras.from ?? '',
+      asunto: cabeceras.subject || null,
+      texto,
+      html,
+      inReplyTo: cabeceras['in-reply-to'] ?? null,
+      references: cabeceras.references ?? null,
+      recibidoEn: fecha && !isNaN(fecha.getTime()) ? fecha : new Date(),
+    });
+  }
+
+  /**
+   * Store a reply already matched to its client: activity, last contact, stop the
+   * sequences, credit the message and notify its sender. False when already stored.
+   */
+  static async registrar(entrante: MensajeRecibido, destino: DestinoRespuesta): Promise<boolean> {
+    const existente = await prisma.mensajeEntrante.findUnique({
+      where: { externoId: entrante.externoId },
+      select: { id: true },
+    });
+    if (existente) return false;
+
+    await prisma.mensajeEntrante.create({
+      data: {
+        ...entrante,
+        clienteId: destino.clienteId,
+        contactoId: destino.contactoId,
+        mensajeId: destino.mensajeId,
+      },
+    });
+
+    if (entrante.canal === 'EMAIL') {
+      await registrarEmailRecibido(destino.clienteId, destino.usuarioId, destino.clienteNombre, entrante.asunto, entrante.cuerpo);
+    } else {
+      await registrarWhatsAppRecibido(destino.clienteId, destino.usuarioId, destino.clienteNombre, entrante.cuerpo);
+    }
+    await prisma.cliente.update({
+      where: { id: destino.clienteId },
+      data: { ultimoContacto: entrante.recibidoEn },
+    });
+    await SecuenciasService.detenerPorCliente([destino.clienteId], 'RESPUESTA');
+    await SeguimientoService.registrarRespuesta(destino.clienteId, entrante.recibidoEn, destino.mensajeId ?? undefined);
+
+    try {
+      await NotificationService.notifyReplyReceived(
+        destino.usuarioId,
+        destino.clienteId,
+        destino.clienteNombre,
+        entrante.canal,
+        entrante.cuerpo
+      );
+    } catch {
+      // Already logged; the reply itself is stored
+    }
+
+    return true;
+  }
+
+  /**
+   * Who an email reply comes from: the message its headers point to, else the
+   * last email sent to the sender's address, else the contact or client with
+   * that address (credited to the client's owner)
+   */
+  private static async destinoEmail(remitente: string | null, messageIds: string[]): Promise<DestinoRespuesta | null> {
+    const mensajeId = mensajeDeReferencias(messageIds);
+    const citado = mensajeId
+      ? await prisma.mensaje.findFirst({ where: { id: mensajeId, deletedAt: null }, select: selectOriginal })
+      : null;
+    if (citado) return destinoDeMensaje(citado);
+
+    if (!remitente) return null;
+    const direccion = { equals: remitente, mode: 'insensitive' } as const;
+
+    const ultimo = await prisma.mensaje.findFirst({
+      where: {
+        canal: 'EMAIL',
+        destinatario: direccion,
+        enviadoEn: { not: null },
+        deletedAt: null,
+        cliente: { deletedAt: null },
+      },
+      orderBy: { enviadoEn: 'desc' },
+      select: selectOriginal,
+    });
+    if (ultimo) return destinoDeMensaje(ultimo);
+
+    const contacto = await prisma.contactoCliente.findFirst({
+      where: { email: direccion, cliente: { deletedAt: null, asignadoAId: { not: null } } },
+      select: { id: true, cliente: { select: { id: true, nombre: true, asignadoAId: true } } },
+    });
+    const cliente = contacto?.cliente ?? await prisma.cliente.findFirst({
+      where: { email: direccion, deletedAt: null, asignadoAId: { not: null } },
+      orderBy: { fechaModific: 'desc' },
+      select: { id: true, nombre: true, asignadoAId: true },
+    });
+    if (!cliente?.asignadoAId) return null;
+
+    return {
+      clienteId: cliente.id,
+      clienteNombre: cliente.nombre,
+      contactoId: contacto?.id ?? null,
+      mensajeId: null,
+      usuarioId: cliente.asignadoAId,
+    };
+  }
+}
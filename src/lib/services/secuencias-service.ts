@@ -0,0 +1,443 @@
+import type { CanalContacto, MotivoDetencion, Prisma, TipoActividad } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { SECUENCIAS } from '@/lib/constants';
+import { registrarPasoSecuencia } from '@/lib/actividades-automaticas';
+import { sendContactEmail, prepareWhatsApp } from '@/lib/services/contact-service';
+import { TareasService } from '@/lib/services/tareas-service';
+import type {
+  CreateSecuenciaValidated,
+  InscripcionFiltersValidated,
+  UpdateSecuenciaValidated,
+} from '@/lib/validations/secuencia';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+const DIA_MS = 86400000;
+
+// Activities logged by hand that mean the prospect answered (a conversation happened)
+export const TIPOS_RESPUESTA: TipoActividad[] = ['LLAMADA', 'REUNION'];
+
+const INCLUDE_SECUENCIA = {
+  pasos: {
+    orderBy: { orden: 'asc' },
+    include: { plantilla: { select: { id: true, nombre: true, canal: true } } },
+  },
+  creadoPor: { select: { id: true, name: true, email: true } },
+  _count: { select: { inscripciones: { where: { estado: 'ACTIVA' } } } },
+} satisfies Prisma.SecuenciaInclude;
+
+const INCLUDE_INSCRIPCION = {
+  secuencia: { select: { id: true, nombre: true, _count: { select: { pasos: true } } } },
+  cliente: { select: { id: true, nombre: true } },
+  usuario: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.InscripcionSecuenciaInclude;
+
+export type SecuenciaConPasos = Prisma.SecuenciaGetPayload<{ include: typeof INCLUDE_SECUENCIA }>;
+export type InscripcionConRelaciones = Prisma.InscripcionSecuenciaGetPayload<{ include: typeof INCLUDE_INSCRIPCION }>;
+
+interface ClienteOmitido {
+  clienteId: string;
+  nombre: string;
+  motivo: string;
+}
+
+const enDias = (desde: Date, dias: number) => new Date(desde.getTime() + dias * DIA_MS);
+
+const detencion = (motivoDetencion: MotivoDetencion, errorDetalle: string | null = null) => ({
+  estado: 'DETENIDA' as const,
+  motivoDetencion,
+  errorDetalle,
+  proximoPasoEn: null,
+  finalizadaEn: new Date(),
+});
+
+/**
+ * Steps with the channel of their template. Fails on unknown or inactive templates.
+ */
+async function resolverPasos(
+  pasos: CreateSecuenciaValidated['pasos']
+): Promise<ServiceResult<Prisma.PasoSecuenciaCreateManySecuenciaInput[]>> {
+  const plantillas = await prisma.plantillaContacto.findMany({
+    where: { id: { in: pasos.map((p) => p.plantillaId) }, esActiva: true, deletedAt: null },
+    select: { id: true, canal: true },
+  });
+  const canales = new Map(plantillas.map((p) => [p.id, p.canal]));
+
+  const faltante = pasos.findIndex((p) => !canales.has(p.plantillaId));
+  if (faltante !== -1) {
+    return { success: false, error: `La plantilla del paso ${faltante + 1} no existe o está inactiva` };
+  }
+
+  return {
+    success: true,
+    data: pasos.map((paso, orden) => ({
+      orden,
+      plantillaId: paso.plantillaId,
+      canal: canales.get(paso.plantillaId)!,
+      esperaDias: paso.esperaDias,
+    })),
+  };
+}
+
+/**
+ * Service for multi-step outreach sequences (cadences) and their enrollments
+ */
+export class SecuenciasService {
+  static async listar(): Promise<SecuenciaConPasos[]> {
+    return prisma.secuencia.findMany({
+      include: INCLUDE_SECUENCIA,
+      orderBy: [{ activa: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  static async getById(id: string): Promise<SecuenciaConPasos | null> {
+    return prisma.secuencia.findUnique({ where: { id }, include: INCLUDE_SECUENCIA });
+  }
+
+  static async crear(data: CreateSecuenciaValidated, creadoPorId: string): Promise<ServiceResult<SecuenciaConPasos>> {
+    const pasos = await resolverPasos(data.pasos);
+    if (!pasos.success) return pasos;
+
+    const secuencia = await prisma.secuencia.create({
+      data: {
+        nombre: data.nombre,
+        descripcion: data.descripcion || null,
+        creadoPorId,
+        pasos: { createMany: { data: pasos.data } },
+      },
+      include: INCLUDE_SECUENCIA,
+    });
+
+    return { success: true, data: secuencia };
+  }
+
+  /**
+   * Update a sequence. New steps replace the old ones; active enrollments keep
+   * their position. Deactivating it stops its active enrollments.
+   */
+  static async actualizar(
+    id: string,
+    data: UpdateSecuenciaValidated
+  ): Promise<ServiceResult<SecuenciaConPasos> | null> {
+    const existente = await prisma.secuencia.findUnique({ where: { id }, select: { id: true } });
+    if (!existente) return null;
+
+    const pasos = data.pasos ? await resolverPasos(data.pasos) : null;
+    if (pasos && !pasos.success) return pasos;
+
+    const secuencia = await prisma.$transaction(async (tx) => {
+      if (pasos) {
+        await tx.pasoSecuencia.deleteMany({ where: { secuenciaId: id } });
+        await tx.pasoSecuencia.createMany({
+          data: pasos.data.map((paso) => ({ ...paso, secuenciaId: id })),
+        });
+      }
+
+      if (data.activa === false) {
+        await tx.inscripcionSecuencia.updateMany({
+          where: { secuenciaId: id, estado: 'ACTIVA' },
+          data: detencion('SECUENCIA_DESACTIVADA'),
+        });
+      }
+
+      return tx.secuencia.update({
+        where: { id },
+        data: {
+          ...(data.nombre !== undefined && { nombre: data.nombre }),
+          ...(data.descripcion !== undefined && { descripcion: data.descripcion || null }),
+          ...(data.activa !== undefined && { activa: data.activa }),
+        },
+        include: INCLUDE_SECUENCIA,
+      });
+    });
+
+    return { success: true, data: secuencia };
+  }
+
+  /**
+   * Enroll clients. Skips deleted clients, clients already engaged (see
+   * SECUENCIAS.ESTADOS_DETIENEN) and clients already active in this sequence.
+   */
+  static async inscribir(
+    secuenciaId: string,
+    clienteIds: string[],
+    usuarioId: string
+  ): Promise<ServiceResult<{ inscritos: number; omitidos: ClienteOmitido[] }> | null> {
+    const secuencia = await prisma.secuencia.findUnique({
+      where: { id: secuenciaId },
+      include: { pasos: { orderBy: { orden: 'asc' }, take: 1 } },
+    });
+    if (!secuencia) return null;
+    if (!secuencia.activa) return { success: false, error: 'La secuencia está desactivada' };
+    if (secuencia.pasos.length === 0) return { success: false, error: 'La secuencia no tiene pasos' };
+
+    const ids = [...new Set(clienteIds)];
+    const [clientes, activas] = await Promise.all([
+      prisma.cliente.findMany({
+        where: { id: { in: ids }, deletedAt: null },
+        select: { id: true, nombre: true, estado: true },
+      }),
+      prisma.inscripcionSecuencia.findMany({
+        where: { secuenciaId, clienteId: { in: ids }, estado: 'ACTIVA' },
+        select: { clienteId: true },
+      }),
+    ]);
+    const yaInscritos = new Set(activas.map((i) => i.clienteId));
+    const estadosDetienen: readonly string[] = SECUENCIAS.ESTADOS_DETIENEN;
+
+    const omitidos: ClienteOmitido[] = [];
+    const aInscribir: string[] = [];
+    for (const id of ids) {
+      const cliente = clientes.find((c) => c.id === id);
+      if (!cliente) {
+        omitidos.push({ clienteId: id, nombre: 'Desconocido', motivo: 'Cliente no encontrado' });
+      } else if (yaInscritos.has(id)) {
+        omitidos.push({ clienteId: id, nombre: cliente.nombre, motivo: 'Ya está en la secuencia' });
+      } else if (estadosDetienen.includes(cliente.estado)) {
+        omitidos.push({ clienteId: id, nombre: cliente.nombre, motivo: `Está en estado ${cliente.estado}` });
+      } else {
+        aInscribir.push(id);
+      }
+    }
+
+    const proximoPasoEn = enDias(new Date(), secuencia.pasos[0].esperaDias);
+    const { count } = await prisma.inscripcionSecuencia.createMany({
+      data: aInscribir.map((clienteId) => ({ secuenciaId, clienteId, usuarioId, proximoPasoEn })),
+    });
+
+    return { success: true, data: { inscritos: count, omitidos } };
+  }
+
+  static async listarInscripciones(filtros: InscripcionFiltersValidated): Promise<InscripcionConRelaciones[]> {
+    return prisma.inscripcionSecuencia.findMany({
+      where: {
+        ...(filtros.clienteId && { clienteId: filtros.clienteId }),
+        ...(filtros.secuenciaId && { secuenciaId: filtros.secuenciaId }),
+      },
+      include: INCLUDE_INSCRIPCION,
+      // Active ones first, then the most recent
+      orderBy: [{ estado: 'asc' }, { createdAt: 'desc' }],
+      take: 100,
+    });
+  }
+
+  static async getInscripcion(id: string) {
+    return prisma.inscripcionSecuencia.findUnique({
+      where: { id },
+      select: { id: true, clienteId: true, usuarioId: true, estado: true },
+    });
+  }
+
+  /**
+   * Stop one enrollment. False when it was no longer active.
+   */
+  static async detenerInscripcion(id: string, motivo: MotivoDetencion): Promise<boolean> {
+    const { count } = await prisma.inscripcionSecuencia.updateMany({
+      where: { id, estado: 'ACTIVA' },
+      data: detencion(motivo),
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Move a merged-away client's enrollments (history included) to the client it was
+   * merged into. Active ones for a sequence the survivor is already following are
+   * stopped first, so the survivor doesn't get the same steps twice.
+   */
+  static async fusionarInscripciones(
+    tx: Prisma.TransactionClient,
+    desdeId: string,
+    haciaId: string
+  ): Promise<{ movidas: number; detenidas: number }> {
+    const activasDestino = await tx.inscripcionSecuencia.findMany({
+      where: { clienteId: haciaId, estado: 'ACTIVA' },
+      select: { secuenciaId: true },
+    });
+
+    const { count: detenidas } = await tx.inscripcionSecuencia.updateMany({
+      where: { clienteId: desdeId, estado: 'ACTIVA', secuenciaId: { in: activasDestino.map((i) => i.secuenciaId) } },
+      data: detencion('FUSION'),
+    });
+    const { count: movidas } = await tx.inscripcionSecuencia.updateMany({
+      where: { clienteId: desdeId },
+      data: { clienteId: haciaId },
+    });
+
+    return { movidas, detenidas };
+  }
+
+  /**
+   * Stop every active sequence of the clients (they answered, or moved on in the pipeline)
+   */
+  static async detenerPorCliente(clienteIds: string[], motivo: MotivoDetencion): Promise<number> {
+    if (clienteIds.length === 0) return 0;
+
+    const { count } = await prisma.inscripcionSecuencia.updateMany({
+      where: { clienteId: { in: clienteIds }, estado: 'ACTIVA' },
+      data: detencion(motivo),
+    });
+
+    if (count > 0) {
+      logger.info('Sequences stopped', { clientes: clienteIds.length, inscripciones: count, motivo });
+    }
+    return count;
+  }
+
+  /**
+   * Stop the client's sequences when the new state means the prospect is engaged
+   */
+  static async detenerPorCambioEstado(clienteIds: string[], estadoNuevo: string): Promise<number> {
+    const estadosDetienen: readonly string[] = SECUENCIAS.ESTADOS_DETIENEN;
+    if (!estadosDetienen.includes(estadoNuevo)) return 0;
+    return this.detenerPorCliente(clienteIds, 'CAMBIO_ESTADO');
+  }
+
+  /**
+   * Run the steps that are due. Called by the sequences cron.
+   *
+   * Each enrollment is advanced (guarded by its current step) before the step
+   * runs, so overlapping runs never send a step twice. Emails go out through
+   * Resend; WhatsApp steps go out through the Cloud API when their template is
+   * approved there, and otherwise become a task with the wa.me link for the user.
+   * A step that fails (or throws) stops its enrollment with ERROR on that step;
+   * the rest of the batch still runs.
+   */
+  static async ejecutarPasos(): Promise<{ ejecutados: number; completadas: number; detenidas: number }> {
+    const ahora = new Date();
+    const pendientes = await prisma.inscripcionSecuencia.findMany({
+      where: { estado: 'ACTIVA', proximoPasoEn: { lte: ahora }, secuencia: { activa: true } },
+      include: {
+        secuencia: {
+          include: {
+            pasos: { orderBy: { orden: 'asc' }, include: { plantilla: { select: { nombre: true } } } },
+          },
+        },
+        cliente: { select: { id: true, nombre: true, estado: true, deletedAt: true } },
+      },
+      orderBy: { proximoPasoEn: 'asc' },
+      take: SECUENCIAS.MAX_POR_EJECUCION,
+    });
+
+    const estadosDetienen: readonly string[] = SECUENCIAS.ESTADOS_DETIENEN;
+    let ejecutados = 0;
+    let completadas = 0;
+    let detenidas = 0;
+
+    for (const inscripcion of pendientes) {
+      const { secuencia, cliente, pasoActual } = inscripcion;
+      const paso = secuencia.pasos[pasoActual];
+      const siguiente = secuencia.pasos[pasoActual + 1];
+
+      // Safety net for changes that did not go through the API hooks
+      if (cliente.deletedAt || estadosDetienen.includes(cliente.estado)) {
+        if (await this.detenerInscripcion(inscripcion.id, cliente.deletedAt ? 'MANUAL' : 'CAMBIO_ESTADO')) {
+          detenidas++;
+        }
+        continue;
+      }
+
+      const { count } = await prisma.inscripcionSecuencia.updateMany({
+        where: { id: inscripcion.id, estado: 'ACTIVA', pasoActual },
+        data: paso && siguiente
+          ? { pasoActual: pasoActual + 1, proximoPasoEn: enDias(ahora, siguiente.esperaDias) }
+          : { pasoActual: pasoActual + 1, estado: 'COMPLETADA', proximoPasoEn: null, finalizadaEn: ahora },
+      });
+      // Taken by another run, or stopped in the meantime
+      if (count === 0) continue;
+
+      // Steps were removed from the sequence after this client reached them
+      if (!paso) {
+        completadas++;
+        continue;
+      }
+
+      const numero = pasoActual + 1;
+      let resultado: ServiceResult<string>;
+      try {
+        resultado = await this.ejecutarPaso(inscripcion, paso, numero, ahora);
+      } catch (error) {
+        logger.error('Error running sequence step', error instanceof Error ? error : new Error(String(error)));
+        resultado = { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      // The enrollment was already advanced: put it back on the step that failed
+      if (!resultado.success) {
+        try {
+          await prisma.inscripcionSecuencia.update({
+            where: { id: inscripcion.id },
+            data: { ...detencion('ERROR', `Paso ${numero}: ${resultado.error}`), pasoActual },
+          });
+          detenidas++;
+        } catch (error) {
+          logger.error('Error stopping failed sequence enrollment', error instanceof Error ? error : new Error(String(error)));
+        }
+        continue;
+      }
+
+      ejecutados++;
+      if (!siguiente) completadas++;
+
+      try {
+        await registrarPasoSecuencia(
+          cliente.id,
+          inscripcion.usuarioId,
+          secuencia.nombre,
+          numero,
+          secuencia.pasos.length,
+          paso.canal,
+          resultado.data
+        );
+      } catch (error) {
+        // The step went out: a failed activity log must not mark it as failed
+        logger.error('Error logging sequence step', error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    return { ejecutados, completadas, detenidas };
+  }
+
+  /**
+   * Send one step of an enrollment (or leave the wa.me task for it)
+   */
+  private static async ejecutarPaso(
+    inscripcion: { usuarioId: string; secuencia: { nombre: string }; cliente: { id: string; nombre: string } },
+    paso: { canal: CanalContacto; plantillaId: string; plantilla: { nombre: string } },
+    numero: number,
+    ahora: Date
+  ): Promise<ServiceResult<string>> {
+    const { secuencia, cliente } = inscripcion;
+
+    if (paso.canal === 'EMAIL') {
+      const envio = await sendContactEmail(cliente.id, paso.plantillaId, inscripcion.usuarioId, {
+        registrarActividad: false,
+      });
+      return envio.success
+        ? { success: true, data: `Email enviado con la plantilla "${paso.plantilla.nombre}"` }
+        : { success: false, error: envio.error || 'Error al enviar email' };
+    } else {
+      const whatsapp = await prepareWhatsApp(cliente.id, paso.plantillaId, inscripcion.usuarioId, {
+        registrarActividad: false,
+      });
+      if (whatsapp.success && whatsapp.url) {
+        await TareasService.crear(
+          {
+            titulo: `Enviar WhatsApp a ${cliente.nombre}`,
+            descripcion: `Paso ${numero} de la secuencia "${secuencia.nombre}" (plantilla "${paso.plantilla.nombre}").\n\nAbrí el enlace para enviarlo:\n${whatsapp.url}`,
+            vencimiento: ahora,
+            prioridad: 'ALTA',
+            clienteId: cliente.id,
+            asignadoAId: inscripcion.usuarioId,
+          },
+          inscripcion.usuarioId
+        );
+      }
+      return !whatsapp.success
+        ? { success: false, error: whatsapp.error || 'Error al preparar WhatsApp' }
+        : whatsapp.url
+          ? { success: true, data: `Tarea creada para enviar el WhatsApp "${paso.plantilla.nombre}"` }
+          : { success: true, data: `WhatsApp enviado con la plantilla "${paso.plantilla.nombre}"` };
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import type { Prisma, TipoEventoMensaje } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getBaseUrl } from '@/lib/env';
+import { PLANTILLAS } from '@/lib/constants';
+import { crearToken, firmar, firmaValida, leerToken } from '@/lib/firma';
+
+export interface EstadisticasPlantilla {
+  // Emails sent with tracking on
+  enviados: number;
+  abiertos: number;
+  conClic: number;
+  // 0-100
+  tasaApertura: number;
+  tasaClic: number;
+}
+
+export interface EstadisticasVariante {
+  variante: string;
+  // Messages sent, any channel
+  enviados: number;
+  // Emails sent with tracking on: the base of the open rate
+  conSeguimiento: number;
+  abiertos: number;
+  respondidos: number;
+  // 0-100
+  tasaApertura: number;
+  tasaRespuesta: number;
+}
+
+const VARIANTE_PRINCIPAL = PLANTILLAS.VARIANTES[0];
+const DIA_MS = 86400000;
+
+// http(s) links to rewrite for click tracking; mailto:/tel: links don't match and are left alone
+const ENLACE_RASTREABLE = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"'\s]+)\2/gi;
+
+const escaparAtributo = (valor: string) => valor.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+const desescaparAtributo = (valor: string) => valor.replace(/&amp;/g, '&').replace(/&quot;/g, '"');
+
+const CONTEXTO = 'seguimiento';
+
+export const tokenSeguimiento = (mensajeId: string) => crearToken(CONTEXTO, mensajeId);
+
+export const leerTokenSeguimiento = (token: string) => leerToken(CONTEXTO, token);
+
+/**
+ * Signature of a rewritten link, so the click endpoint can't be used as an open redirect
+ */
+export const firmaEnlace = (mensajeId: string, url: string) => firmar(CONTEXTO, `${mensajeId}|${url}`);
+
+export const enlaceValido = (mensajeId: string, url: string, firma: string) =>
+  firmaValida(CONTEXTO, `${mensajeId}|${url}`, firma);
+
+/**
+ * HTML to send: http(s) links go through the click endpoint and a 1x1 pixel is
+ * appended for opens. The stored body stays untouched.
+ */
+export function instrumentarHtml(html: string, mensajeId: string, baseUrl: string): string {
+  const token = tokenSeguimiento(mensajeId);
+
+  const conEnlaces = html.replace(ENLACE_RASTREABLE, (_match, inicio: string, comilla: string, href: string) => {
+    const url = desescaparAtributo(href);
+    const params = new URLSearchParams({ url, f: firmaEnlace(mensajeId, url) });
+    return `${inicio}${comilla}${escaparAtributo(`${baseUrl}/api/seguimiento/clic/${token}?${params}`)}${comilla}`;
+  });
+
+  const pixel = `<img src="${baseUrl}/api/seguimiento/apertura/${token}" width="1" height="1" alt="" style="display:none" />`;
+  return /<\/body>/i.test(conEnlaces)
+    ? conEnlaces.replace(/<\/body>/i, `${pixel}</body>`)
+    : `${conEnlaces}${pixel}`;
+}
+
+/**
+ * Body to hand to Resend for a message: instrumented when it was created with tracking
+ */
+export function htmlParaEnvio(mensaje: { id: string; cuerpo: string; seguimiento: boolean }): string {
+  return mensaje.seguimiento ? instrumentarHtml(mensaje.cuerpo, mensaje.id, getBaseUrl()) : mensaje.cuerpo;
+}
+
+const CONTEXTO_RESPUESTA = 'respuesta';
+
+/**
+ * Message-ID an email is sent with. Replies quote it in In-Reply-To and
+ * References, which is how they find the message they answer.
+ */
+export const messageIdMensaje = (mensajeId: string) =>
+  `<${crearToken(CONTEXTO_RESPUESTA, mensajeId)}@${new URL(getBaseUrl()).hostname}>`;
+
+/**
+ * Our message a reply answers, from the Message-IDs of its In-Reply-To and
+ * References headers (the closest first). Null when none is ours.
+ */
+export function mensajeDeReferencias(messageIds: string[]): string | null {
+  for (const messageId of messageIds) {
+    const id = leerToken(CONTEXTO_RESPUESTA, messageId.slice(0, messageId.lastIndexOf('@')));
+    if (id) return id;
+  }
+  return null;
+}
+
+const porcentaje = (parte: number, total: number) => (total > 0 ? Math.round((parte / total) * 100) : 0);
+
+/**
+ * Service for what recipients do with our messages (opens, clicks, replies)
+ * and the per-template and per-variant rates
+ */
+export class SeguimientoService {
+  /**
+   * Store an open or a click. A click also counts as an open: many clients
+   * block the pixel. Unknown (deleted) messages are ignored.
+   */
+  static async registrarEvento(
+    mensajeId: string,
+    tipo: TipoEventoMensaje,
+    { url, userAgent }: { url?: string; userAgent?: string | null } = {}
+  ): Promise<void> {
+    const mensaje = await prisma.mensaje.findFirst({
+      where: { id: mensajeId, canal: 'EMAIL', deletedAt: null },
+      select: { id: true },
+    });
+    if (!mensaje) return;
+
+    const ahora = new Date();
+    await prisma.$transaction([
+      prisma.eventoMensaje.create({
+        data: { mensajeId, tipo, url: url ?? null, userAgent: userAgent?.slice(0, 255) ?? null },
+      }),
+      prisma.mensaje.update({
+        where: { id: mensajeId },
+        data: tipo === 'CLIC' ? { clics: { increment: 1 } } : { aperturas: { increment: 1 } },
+      }),
+      // First occurrences, set once
+      prisma.mensaje.updateMany({
+        where: { id: mensajeId, abiertoEn: null },
+        data: { abiertoEn: ahora },
+      }),
+      ...(tipo === 'CLIC'
+        ? [prisma.mensaje.updateMany({ where: { id: mensajeId, clicEn: null }, data: { clicEn: ahora } })]
+        : []),
+    ]);
+  }
+
+  /**
+   * Credit a reply of the client to the message it answers or, when that is not
+   * known, to the last message sent to it before `fecha` (within the attribution
+   * window). Messages already credited are left as they are.
+   */
+  static async registrarRespuesta(clienteId: string, fecha: Date = new Date(), mensajeId?: string): Promise<void> {
+    if (mensajeId) {
+      await prisma.mensaje.updateMany({
+        where: { id: mensajeId, clienteId, respondidoEn: null },
+        data: { respondidoEn: fecha },
+      });
+      return;
+    }
+
+    const desde = new Date(fecha.getTime() - PLANTILLAS.DIAS_ATRIBUCION_RESPUESTA * DIA_MS);
+
+    const mensaje = await prisma.mensaje.findFirst({
+      where: {
+        clienteId,
+        deletedAt: null,
+        // wa.me messages have no send time: they go out by hand right when prepared
+        OR: [
+          { enviadoEn: { gte: desde, lte: fecha } },
+          { canal: 'WHATSAPP', estado: 'MANUAL', createdAt: { gte: desde, lte: fecha } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, respondidoEn: true },
+    });
+    if (!mensaje || mensaje.respondidoEn) return;
+
+    await prisma.mensaje.update({ where: { id: mensaje.id }, data: { respondidoEn: fecha } });
+  }
+
+  /**
+   * Open and reply rates of each A/B variant of a template. Messages from
+   * before variants existed count as the template's own content ("A").
+   */
+  static async estadisticasPorVariante(plantillaId: string): Promise<EstadisticasVariante[]> {
+    const base = {
+      plantillaId,
+      deletedAt: null,
+      // wa.me links (MANUAL) may never have gone out
+      enviadoEn: { not: null },
+    } satisfies Prisma.MensajeWhereInput;
+
+    const [enviados, conSeguimiento, abiertos, respondidos] = await Promise.all([
+      prisma.mensaje.groupBy({ by: ['variante'], where: base, _count: { _all: true } }),
+      prisma.mensaje.groupBy({ by: ['variante'], where: { ...base, canal: 'EMAIL', seguimiento: true }, _count: { _all: true } }),
+      prisma.mensaje.groupBy({
+        by: ['variante'],
+        where: { ...base, canal: 'EMAIL', seguimiento: true, abiertoEn: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.mensaje.groupBy({ by: ['variante'], where: { ...base, respondidoEn: { not: null } }, _count: { _all: true } }),
+    ]);
+
+    const nombre = (fila: { variante: string | null }) => fila.variante ?? VARIANTE_PRINCIPAL;
+    const contar = (filas: typeof enviados, variante: string) =>
+      filas.filter((f) => nombre(f) === variante).reduce((total, f) => total + f._count._all, 0);
+
+    const variantes = [...new Set([VARIANTE_PRINCIPAL, ...enviados.map(nombre)])].sort();
+
+    return variantes.map((variante) => {
+      const total = contar(enviados, variante);
+      const rastreados = contar(conSeguimiento, variante);
+      const aperturas = contar(abiertos, variante);
+      const respuestas = contar(respondidos, variante);
+      return {
+        variante,
+        enviados: total,
+        conSeguimiento: rastreados,
+        abiertos: aperturas,
+        respondidos: respuestas,
+        tasaApertura: porcentaje(aperturas, rastreados),
+        tasaRespuesta: porcentaje(respuestas, total),
+      };
+    });
+  }
+
+  /**
+   * Open and click rates of each template, over its emails sent with tracking
+   */
+  static async estadisticasPorPlantilla(plantillaIds: string[]): Promise<Map<string, EstadisticasPlantilla>> {
+    const base = {
+      plantillaId: { in: plantillaIds },
+      canal: 'EMAIL',
+      // Sent, whatever Resend reported afterwards
+      enviadoEn: { not: null },
+      seguimiento: true,
+      deletedAt: null,
+    } as const;
+
+    const [enviados, abiertos, conClic] = await Promise.all([
+      prisma.mensaje.groupBy({ by: ['plantillaId'], where: base, _count: { _all: true } }),
+      prisma.mensaje.groupBy({ by: ['plantillaId'], where: { ...base, abiertoEn: { not: null } }, _count: { _all: true } }),
+      prisma.mensaje.groupBy({ by: ['plantillaId'], where: { ...base, clicEn: { not: null } }, _count: { _all: true } }),
+    ]);
+
+    const contar = (filas: typeof enviados, plantillaId: string) =>
+      filas.find((f) => f.plantillaId === plantillaId)?._count._all ?? 0;
+
+    return new Map(
+      plantillaIds.map((plantillaId) => {
+        const total = contar(enviados, plantillaId);
+        const aperturas = contar(abiertos, plantillaId);
+        const clics = contar(conClic, plantillaId);
+        return [plantillaId, {
+          enviados: total,
+          abiertos: aperturas,
+          conClic: clics,
+          tasaApertura: porcentaje(aperturas, total),
+          tasaClic: porcentaje(clics, total),
+        }];
+      })
+    );
+  }
+}
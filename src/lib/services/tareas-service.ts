@@ -0,0 +1,265 @@
+import type { EstadoTarea, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { FILTRO_ASIGNADO, MENSAJES_PROGRAMADOS, TAREAS } from '@/lib/constants';
+import { finDelDiaEnZona } from '@/lib/zona-horaria';
+import { NotificationService } from '@/lib/services/notification-service';
+import type {
+  CreateTareaValidated,
+  TareaFiltersValidated,
+  UpdateTareaValidated,
+} from '@/lib/validations/tarea';
+import type { BandejaTareas } from '@/types';
+
+export const ESTADOS_ABIERTOS: EstadoTarea[] = ['PENDIENTE', 'EN_PROGRESO'];
+
+const INCLUDE_TAREA = {
+  cliente: { select: { id: true, nombre: true } },
+  asignadoA: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.TareaInclude;
+
+export type TareaConRelaciones = Prisma.TareaGetPayload<{ include: typeof INCLUDE_TAREA }>;
+
+// Tasks of a deleted client are left out; tasks with no client stay
+const DE_CLIENTE_VIGENTE = {
+  OR: [{ clienteId: null }, { cliente: { deletedAt: null } }],
+} satisfies Prisma.TareaWhereInput;
+
+/**
+ * Open tasks past their due date. Shared by the inbox and the client list highlight.
+ */
+export function whereTareasVencidas(ahora: Date = new Date()): Prisma.TareaWhereInput {
+  return { deletedAt: null, estado: { in: ESTADOS_ABIERTOS }, vencimiento: { lt: ahora } };
+}
+
+/**
+ * Where clause of each "Mis tareas" inbox
+ */
+function whereBandeja(bandeja: BandejaTareas, ahora: Date): Prisma.TareaWhereInput {
+  // "Today" as the team sees it, not the server's (UTC) day
+  const finDelDia = finDelDiaEnZona(ahora, MENSAJES_PROGRAMADOS.ZONA_HORARIA_DEFAULT);
+
+  switch (bandeja) {
+    case 'vencidas':
+      return whereTareasVencidas(ahora);
+    case 'hoy':
+      return { estado: { in: ESTADOS_ABIERTOS }, vencimiento: { gte: ahora, lt: finDelDia } };
+    case 'proximas':
+      return { estado: { in: ESTADOS_ABIERTOS }, vencimiento: { gte: finDelDia } };
+    case 'completadas':
+      return { estado: { in: ['COMPLETADA', 'CANCELADA'] } };
+  }
+}
+
+const ORDEN_BANDEJA: Record<BandejaTareas, Prisma.TareaOrderByWithRelationInput[]> = {
+  vencidas: [{ vencimiento: 'asc' }],
+  hoy: [{ vencimiento: 'asc' }],
+  proximas: [{ vencimiento: 'asc' }],
+  completadas: [{ completadaEn: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }],
+};
+
+function whereAsignado(asignado: string | undefined, usuarioId: string): Prisma.TareaWhereInput {
+  if (asignado === FILTRO_ASIGNADO.TODOS) return {};
+  if (!asignado || asignado === FILTRO_ASIGNADO.MIOS) return { asignadoAId: usuarioId };
+  return { asignadoAId: asignado };
+}
+
+/**
+ * Service for follow-up tasks with due dates and reminders
+ */
+export class TareasService {
+  /**
+   * Tasks of an inbox (or of a client when clienteId is given and no inbox)
+   */
+  static async listar(filtros: TareaFiltersValidated, usuarioId: string): Promise<TareaConRelaciones[]> {
+    const ahora = new Date();
+    const where: Prisma.TareaWhereInput = {
+      deletedAt: null,
+      ...DE_CLIENTE_VIGENTE,
+      ...(filtros.clienteId
+        ? { clienteId: filtros.clienteId }
+        : whereAsignado(filtros.asignado, usuarioId)),
+      ...(filtros.bandeja && whereBandeja(filtros.bandeja, ahora)),
+    };
+
+    return prisma.tarea.findMany({
+      where,
+      include: INCLUDE_TAREA,
+      // Without an inbox (client view) open tasks come first, by due date
+      orderBy: filtros.bandeja
+        ? ORDEN_BANDEJA[filtros.bandeja]
+        : [{ completadaEn: { sort: 'desc', nulls: 'first' } }, { vencimiento: 'asc' }],
+      take: filtros.limit,
+    });
+  }
+
+  /**
+   * Number of tasks in each inbox for the "asignado" filter
+   */
+  static async contarBandejas(
+    asignado: string | undefined,
+    usuarioId: string
+  ): Promise<Record<BandejaTareas, number>> {
+    const ahora = new Date();
+    const bandejas: BandejaTareas[] = ['vencidas', 'hoy', 'proximas', 'completadas'];
+
+    const conteos = await Promise.all(
+      bandejas.map((bandeja) =>
+        prisma.tarea.count({
+          where: {
+            deletedAt: null,
+            ...DE_CLIENTE_VIGENTE,
+            ...whereAsignado(asignado, usuarioId),
+            ...whereBandeja(bandeja, ahora),
+          },
+        })
+      )
+    );
+
+    return Object.fromEntries(bandejas.map((b, i) => [b, conteos[i]])) as Record<BandejaTareas, number>;
+  }
+
+  static async getById(id: string): Promise<TareaConRelaciones | null> {
+    return prisma.tarea.findFirst({
+      where: { id, deletedAt: null },
+      include: INCLUDE_TAREA,
+    });
+  }
+
+  /**
+   * Create a task. It is assigned to its creator unless another user is given.
+   */
+  static async crear(data: CreateTareaValidated, creadoPorId: string): Promise<TareaConRelaciones> {
+    return prisma.tarea.create({
+      data: {
+        ...data,
+        asignadoAId: data.asignadoAId ?? creadoPorId,
+        creadoPorId,
+      },
+      include: INCLUDE_TAREA,
+    });
+  }
+
+  /**
+   * Update a task. Moving the due date or the reminder re-arms its notifications.
+   * Also returns whether this update completed it, so the caller can log it.
+   */
+  static async actualizar(
+    id: string,
+    data: UpdateTareaValidated
+  ): Promise<{ tarea: TareaConRelaciones; completada: boolean } | null> {
+    const existente = await prisma.tarea.findFirst({ where: { id, deletedAt: null } });
+    if (!existente) return null;
+
+    const cambios: Prisma.TareaUncheckedUpdateInput = { ...data };
+
+    if (data.vencimiento && data.vencimiento.getTime() !== existente.vencimiento.getTime()) {
+      cambios.vencidaNotificada = false;
+      // Rescheduling only the due date (calendar drag) keeps the reminder's lead time
+      if (data.recordatorio === undefined && existente.recordatorio) {
+        const desplazamiento = data.vencimiento.getTime() - existente.vencimiento.getTime();
+        cambios.recordatorio = new Date(existente.recordatorio.getTime() + desplazamiento);
+        cambios.recordatorioEnviado = false;
+      }
+    }
+    if (data.recordatorio !== undefined && data.recordatorio?.getTime() !== existente.recordatorio?.getTime()) {
+      cambios.recordatorioEnviado = false;
+    }
+
+    const completada = data.estado === 'COMPLETADA' && existente.estado !== 'COMPLETADA';
+    if (data.estado && data.estado !== existente.estado) {
+      cambios.completadaEn = ESTADOS_ABIERTOS.includes(data.estado) ? null : new Date();
+    }
+
+    const tarea = await prisma.tarea.update({
+      where: { id },
+      data: cambios,
+      include: INCLUDE_TAREA,
+    });
+
+    return { tarea, completada };
+  }
+
+  /**
+   * Soft-delete a task
+   */
+  static async eliminar(id: string): Promise<boolean> {
+    const { count } = await prisma.tarea.updateMany({
+      where: { id, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Send due reminders and first-time overdue notices to the assignees.
+   * Called by the reminders cron; each task is notified at most once per kind.
+   */
+  static async enviarRecordatorios(): Promise<{ recordatorios: number; vencidas: number }> {
+    const ahora = new Date();
+    const abiertas = {
+      deletedAt: null,
+      estado: { in: ESTADOS_ABIERTOS },
+      ...DE_CLIENTE_VIGENTE,
+    } satisfies Prisma.TareaWhereInput;
+    const select = {
+      id: true,
+      titulo: true,
+      vencimiento: true,
+      asignadoAId: true,
+      cliente: { select: { nombre: true } },
+    } satisfies Prisma.TareaSelect;
+
+    const [recordatorios, vencidas] = await Promise.all([
+      prisma.tarea.findMany({
+        where: { ...abiertas, recordatorio: { lte: ahora }, recordatorioEnviado: false },
+        select,
+        take: TAREAS.MAX_RECORDATORIOS,
+      }),
+      prisma.tarea.findMany({
+        where: { ...abiertas, vencimiento: { lt: ahora }, vencidaNotificada: false },
+        select,
+        take: TAREAS.MAX_RECORDATORIOS,
+      }),
+    ]);
+
+    let enviados = 0;
+    for (const tarea of recordatorios) {
+      try {
+        await NotificationService.notifyTaskReminder(
+          tarea.asignadoAId, tarea.id, tarea.titulo, tarea.vencimiento, tarea.cliente?.nombre
+        );
+        enviados++;
+      } catch (error) {
+        logger.error('Error sending task reminder', error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    let avisadas = 0;
+    for (const tarea of vencidas) {
+      try {
+        await NotificationService.notifyTaskOverdue(
+          tarea.asignadoAId, tarea.id, tarea.titulo, tarea.cliente?.nombre
+        );
+        avisadas++;
+      } catch (error) {
+        logger.error('Error sending overdue task notice', error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    // Flags are set even when a notification failed, so a broken row can't spam every run
+    await Promise.all([
+      prisma.tarea.updateMany({
+        where: { id: { in: recordatorios.map((t) => t.id) } },
+        data: { recordatorioEnviado: true },
+      }),
+      prisma.tarea.updateMany({
+        where: { id: { in: vencidas.map((t) => t.id) } },
+        data: { vencidaNotificada: true },
+      }),
+    ]);
+
+    return { recordatorios: enviados, vencidas: avisadas };
+  }
+}
@@ -1,3 +1,6 @@
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
 interface ClienteData {
   nombre: string;
   email?: string | null;
@@ -13,9 +16,52 @@ interface ClienteData {
   facebook?: string | null;
   linkedin?: string | null;
   twitter?: string | null;
+  // For the {web.*} and {ia.*} variables (empty when not loaded)
+  websiteAnalysis?: AnalisisWebData | null;
+  // Latest first; only the first one is used
+  enrichments?: EnriquecimientoData[];
+}
+
+export interface AnalisisWebData {
+  url: string;
+  performanceScore?: number | null;
+  mobileScore?: number | null;
+  desktopScore?: number | null;
+  accessibilityScore?: number | null;
+  sslValid?: boolean | null;
+  hasHttps?: boolean | null;
+  isResponsive?: boolean | null;
+  // JSON of the detection result, as stored
+  techStack?: string | null;
+  domainExpiresAt?: Date | string | null;
+  daysUntilExpiry?: number | null;
+  domainAgeYears?: number | null;
+  domainRegistrar?: string | null;
+  seoTitle?: string | null;
+  serverCountry?: string | null;
+}
+
+export interface EnriquecimientoData {
+  description?: string | null;
+  industry?: string | null;
+  companySize?: string | null;
+  website?: string | null;
+  status: string;
+  // JSON: per-field review status
+  fieldStatuses?: string | null;
+}
+
+interface ContactoData {
+  nombre: string;
+  cargo?: string | null;
+  email?: string | null;
+  telefono?: string | null;
+  whatsapp?: string | null;
 }
 
-const VARIABLE_MAP: Record<string, keyof ClienteData> = {
+type CampoCliente = Exclude<keyof ClienteData, 'websiteAnalysis' | 'enrichments'>;
+
+const VARIABLE_MAP: Record<string, CampoCliente> = {
   nombre: 'nombre',
   email: 'email',
   telefono: 'telefono',
@@ -32,33 +78,242 @@ const VARIABLE_MAP: Record<string, keyof ClienteData> = {
   twitter: 'twitter',
 };
 
+// Contact person the message is addressed to (empty when there is none)
+const CONTACTO_VARIABLE_MAP: Record<string, keyof ContactoData> = {
+  contactoNombre: 'nombre',
+  contactoCargo: 'cargo',
+  contactoEmail: 'email',
+  contactoTelefono: 'telefono',
+  contactoWhatsapp: 'whatsapp',
+};
+
+type ValorPresente = string | number | boolean | Date;
+type Valor = ValorPresente | null | undefined;
+
+function tecnologias(web: AnalisisWebData): Array<{ name: string; category?: string }> {
+  if (!web.techStack) return [];
+  try {
+    const parsed = JSON.parse(web.techStack);
+    // Stored as the whole detection result; older rows may hold just the list
+    const lista = Array.isArray(parsed) ? parsed : parsed?.technologies;
+    return Array.isArray(lista) ? lista : [];
+  } catch {
+    return [];
+  }
+}
+
+const tecnologiaDe = (categoria: string) => (web: AnalisisWebData) =>
+  tecnologias(web).find((t) => t.category === categoria)?.name;
+
+// Website audit of the client (empty until it has been analysed)
+const WEB_VARIABLE_MAP: Record<string, (web: AnalisisWebData) => Valor> = {
+  'web.url': (web) => web.url,
+  'web.performanceScore': (web) => web.performanceScore,
+  'web.mobileScore': (web) => web.mobileScore,
+  'web.desktopScore': (web) => web.desktopScore,
+  'web.accessibilityScore': (web) => web.accessibilityScore,
+  'web.sslValid': (web) => web.sslValid,
+  'web.hasHttps': (web) => web.hasHttps,
+  'web.isResponsive': (web) => web.isResponsive,
+  'web.cms': tecnologiaDe('CMS'),
+  'web.ecommerce': tecnologiaDe('E-commerce'),
+  'web.techStack': (web) => tecnologias(web).map((t) => t.name).join(', '),
+  'web.domainExpiresAt': (web) => web.domainExpiresAt,
+  'web.daysUntilExpiry': (web) => web.daysUntilExpiry,
+  'web.domainAgeYears': (web) => web.domainAgeYears,
+  'web.domainRegistrar': (web) => web.domainRegistrar,
+  'web.seoTitle': (web) => web.seoTitle,
+  'web.serverCountry': (web) => web.serverCountry,
+};
+
+// AI enrichment, only the fields a user accepted
+const IA_VARIABLE_MAP: Record<string, 'description' | 'industry' | 'companySize' | 'website'> = {
+  'ia.description': 'description',
+  'ia.industry': 'industry',
+  'ia.companySize': 'companySize',
+  'ia.website': 'website',
+};
+
+function campoConfirmado(enriquecimiento: EnriquecimientoData, campo: string): boolean {
+  let estados: Record<string, string> | null = null;
+  try {
+    estados = enriquecimiento.fieldStatuses ? JSON.parse(enriquecimiento.fieldStatuses) : null;
+  } catch {
+    // Treated as not reviewed per field
+  }
+  if (estados && Object.keys(estados).length > 0) return estados[campo] === 'CONFIRMED';
+  return enriquecimiento.status === 'CONFIRMED';
+}
+
+// Not tied to the recipient
+const VARIABLES_GENERALES = ['hoy'] as const;
+
+const aFecha = (valor: ValorPresente) => (valor instanceof Date ? valor : new Date(String(valor)));
+
+const conFecha = (patron: string) => (valor: ValorPresente) => {
+  if (typeof valor === 'number' || typeof valor === 'boolean') return aTexto(valor);
+  const fecha = aFecha(valor);
+  return isNaN(fecha.getTime()) ? String(valor) : format(fecha, patron, { locale: es });
+};
+
+function aTexto(valor: ValorPresente): string {
+  if (valor instanceof Date) return conFecha("d 'de' MMMM 'de' yyyy")(valor);
+  if (typeof valor === 'boolean') return valor ? 'sí' : 'no';
+  return String(valor);
+}
+
+// {variable:formato}
+const FORMATOS: Record<string, (valor: ValorPresente) => string> = {
+  mayusculas: (valor) => aTexto(valor).toUpperCase(),
+  minusculas: (valor) => aTexto(valor).toLowerCase(),
+  capitalizar: (valor) => aTexto(valor).toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_m, sep: string, letra: string) => sep + letra.toUpperCase()),
+  fecha: conFecha("d 'de' MMMM 'de' yyyy"),
+  fechaCorta: conFecha('dd/MM/yyyy'),
+  diaSemana: conFecha('EEEE'),
+};
+
+// {variable}, {variable:formato}, {variable|por defecto}, {variable:formato|por defecto}
+// Names may be namespaced: {web.mobileScore}
+const VARIABLE = /\{(\w+(?:\.\w+)?)(?::(\w+))?(?:\|([^{}]*))?\}/g;
+
+// Innermost {#if variable}...{else}...{/if} block ({#if !variable} negates it).
+// False and empty values both fail the condition.
+const CONDICIONAL = /\{#if\s+(!?)(\w+(?:\.\w+)?)\s*\}((?:(?!\{#if[\s}])[\s\S])*?)\{\/if\}/;
+
+const PALABRAS_RESERVADAS = new Set(['else']);
+
 export function getAvailableVariables(): string[] {
-  return Object.keys(VARIABLE_MAP);
+  return [
+    ...Object.keys(VARIABLE_MAP),
+    ...Object.keys(CONTACTO_VARIABLE_MAP),
+    ...Object.keys(WEB_VARIABLE_MAP),
+    ...Object.keys(IA_VARIABLE_MAP),
+    ...VARIABLES_GENERALES,
+  ];
+}
+
+export function getAvailableFormats(): string[] {
+  return Object.keys(FORMATOS);
+}
+
+function valorVariable(nombre: string, cliente: ClienteData, contacto?: ContactoData | null): Valor {
+  if (nombre in VARIABLE_MAP) return cliente[VARIABLE_MAP[nombre]];
+  if (nombre in CONTACTO_VARIABLE_MAP) return contacto?.[CONTACTO_VARIABLE_MAP[nombre]];
+  if (nombre in WEB_VARIABLE_MAP) return cliente.websiteAnalysis && WEB_VARIABLE_MAP[nombre](cliente.websiteAnalysis);
+  if (nombre in IA_VARIABLE_MAP) {
+    const enriquecimiento = cliente.enrichments?.[0];
+    const campo = IA_VARIABLE_MAP[nombre];
+    return enriquecimiento && campoConfirmado(enriquecimiento, campo) ? enriquecimiento[campo] : undefined;
+  }
+  if (nombre === 'hoy') return new Date();
+  return undefined;
 }
 
-export function render(template: string, cliente: ClienteData): string {
+const estaVacio = (valor: Valor): valor is null | undefined | '' =>
+  valor === null || valor === undefined || (typeof valor === 'string' && valor.trim() === '');
+
+/**
+ * Render a template for a recipient, also returning the variables that came
+ * out empty with no default (unknown variables are left as typed)
+ */
+export function renderConDetalle(
+  template: string,
+  cliente: ClienteData,
+  contacto?: ContactoData | null
+): { texto: string; faltantes: string[] } {
   let result = template;
 
-  for (const [varName, field] of Object.entries(VARIABLE_MAP)) {
-    const value = cliente[field];
-    const placeholder = `{${varName}}`;
-    result = result.replaceAll(placeholder, value ?? '');
+  // Conditionals first, innermost out, so variables in discarded branches don't count as missing
+  let bloque: RegExpExecArray | null;
+  while ((bloque = CONDICIONAL.exec(result)) !== null) {
+    const [completo, negado, nombre, contenido] = bloque;
+    const [siVerdadero, siFalso = ''] = contenido.split('{else}');
+    const valor = valorVariable(nombre, cliente, contacto);
+    const cumple = (!estaVacio(valor) && valor !== false) !== (negado === '!');
+    result = result.slice(0, bloque.index) + (cumple ? siVerdadero : siFalso) + result.slice(bloque.index + completo.length);
   }
 
-  return result;
+  const faltantes = new Set<string>();
+  const texto = result.replace(VARIABLE, (original, nombre: string, formato?: string, porDefecto?: string) => {
+    if (!getAvailableVariables().includes(nombre)) return original;
+
+    const valor = valorVariable(nombre, cliente, contacto);
+    if (estaVacio(valor)) {
+      if (porDefecto !== undefined) return porDefecto;
+      faltantes.add(nombre);
+      return '';
+    }
+
+    const formatear = formato ? FORMATOS[formato] : undefined;
+    return formatear ? formatear(valor) : aTexto(valor);
+  });
+
+  return { texto, faltantes: [...faltantes] };
 }
 
-export function validateTemplate(template: string): { valid: boolean; invalidVars: string[] } {
-  const variablePattern = /\{(\w+)\}/g;
-  const available = new Set(Object.keys(VARIABLE_MAP));
-  const invalidVars: string[] = [];
-  let match;
+export function render(template: string, cliente: ClienteData, contacto?: ContactoData | null): string {
+  return renderConDetalle(template, cliente, contacto).texto;
+}
 
-  while ((match = variablePattern.exec(template)) !== null) {
-    if (!available.has(match[1])) {
-      invalidVars.push(match[1]);
-    }
+export interface DestinatarioPlantilla {
+  clienteId: string;
+  nombre: string;
+  cliente: ClienteData;
+  contacto?: ContactoData | null;
+}
+
+export interface DatosFaltantes {
+  clienteId: string;
+  nombre: string;
+  variables: string[];
+}
+
+export interface TemplateValidation {
+  valid: boolean;
+  invalidVars: string[];
+  // Unknown formats and unbalanced {#if}/{/if}
+  errores: string[];
+  // Recipients that would get empty variables (only when recipients are given)
+  faltantes: DatosFaltantes[];
+}
+
+/**
+ * Check a template's syntax and, given the recipients of a send, which of
+ * them would render with missing data
+ */
+export function validateTemplate(template: string, destinatarios: DestinatarioPlantilla[] = []): TemplateValidation {
+  const available = new Set(getAvailableVariables());
+  const invalidVars = new Set<string>();
+  const errores: string[] = [];
+
+  for (const [, nombre, formato] of template.matchAll(VARIABLE)) {
+    if (PALABRAS_RESERVADAS.has(nombre)) continue;
+    if (!available.has(nombre)) invalidVars.add(nombre);
+    if (formato && !(formato in FORMATOS)) errores.push(`Formato desconocido: ${formato}`);
+  }
+
+  for (const [, nombre] of template.matchAll(/\{#if\s+!?(\w+(?:\.\w+)?)\s*\}/g)) {
+    if (!available.has(nombre)) invalidVars.add(nombre);
   }
 
-  return { valid: invalidVars.length === 0, invalidVars };
+  const aperturas = template.match(/\{#if\s+!?\w+(?:\.\w+)?\s*\}/g)?.length ?? 0;
+  const cierres = template.match(/\{\/if\}/g)?.length ?? 0;
+  if (aperturas !== cierres) {
+    errores.push(`Condicionales sin cerrar: ${aperturas} {#if} y ${cierres} {/if}`);
+  }
+
+  const faltantes = destinatarios
+    .map(({ clienteId, nombre, cliente, contacto }) => ({
+      clienteId,
+      nombre,
+      variables: renderConDetalle(template, cliente, contacto).faltantes,
+    }))
+    .filter((d) => d.variables.length > 0);
+
+  return {
+    valid: invalidVars.size === 0 && errores.length === 0,
+    invalidVars: [...invalidVars],
+    errores: [...new Set(errores)],
+    faltantes,
+  };
 }
@@ -0,0 +1,488 @@
+import { Prisma, type EstadoItemTrabajo, type EstadoTrabajo } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { pMap } from '@/lib/concurrency';
+import { TRABAJOS_ENRIQUECIMIENTO } from '@/lib/constants';
+import { buildClientesOrderBy, buildClientesWhere, parseClientesFiltros } from '@/lib/clientes-filtros';
+import type { AIProvider, EnrichmentProgressEvent } from '@/types/enrichment';
+import type { AccionTrabajoInput, TrabajoEnriquecimientoInput } from '@/lib/validations/enrichment';
+import { BulkEnrichmentService, type BulkEnrichmentItemResult } from './bulk-enrichment-service';
+import { NotificationService } from './notification-service';
+
+type ServiceResult<T> = { success: true; data: T } | { success: false; error: string };
+
+export type CrearTrabajoDTO = Omit<TrabajoEnriquecimientoInput, 'provider'> & { provider?: AIProvider };
+
+export interface ProgresoTrabajo {
+  // Still to process, including the ones being enriched right now
+  pendientes: number;
+  exitosos: number;
+  fallidos: number;
+  cancelados: number;
+}
+
+export interface ResumenProcesamiento {
+  procesados: number;
+  exitosos: number;
+  reintentos: number;
+  fallidos: number;
+  trabajosFinalizados: number;
+}
+
+const SELECT_TRABAJO = {
+  id: true,
+  estado: true,
+  includeAI: true,
+  includeWebsiteAnalysis: true,
+  provider: true,
+  filtros: true,
+  total: true,
+  iniciadoEn: true,
+  finalizadoEn: true,
+  createdAt: true,
+  creadoPor: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.TrabajoEnriquecimientoSelect;
+
+export type TrabajoConProgreso = Prisma.TrabajoEnriquecimientoGetPayload<{ select: typeof SELECT_TRABAJO }> & {
+  progreso: ProgresoTrabajo;
+};
+
+const SELECT_ITEM = {
+  id: true,
+  clienteId: true,
+  estado: true,
+  intentos: true,
+  aiEnriched: true,
+  websiteAnalyzed: true,
+  error: true,
+  procesadoEn: true,
+  cliente: { select: { nombre: true } },
+} satisfies Prisma.ItemTrabajoEnriquecimientoSelect;
+
+export interface ItemEnCurso {
+  clienteId: string;
+  cliente: { nombre: string };
+  progreso: EnrichmentProgressEvent | null;
+}
+
+export type TrabajoDetalle = TrabajoConProgreso & {
+  items: Prisma.ItemTrabajoEnriquecimientoGetPayload<{ select: typeof SELECT_ITEM }>[];
+  enCurso: ItemEnCurso[];
+};
+
+// Jobs the worker takes clients from
+export const TRABAJO_ACTIVO: EstadoTrabajo[] = ['PENDIENTE', 'EN_CURSO'];
+
+// Items a job still has to process
+const ITEM_ABIERTO: EstadoItemTrabajo[] = ['PENDIENTE', 'EN_CURSO'];
+
+const SELECT_RECLAMO = {
+  id: true,
+  estado: true,
+  intentos: true,
+  clienteId: true,
+  trabajoId: true,
+  trabajo: { select: { includeAI: true, includeWebsiteAnalysis: true, provider: true, creadoPorId: true } },
+} satisfies Prisma.ItemTrabajoEnriquecimientoSelect;
+
+type ItemReclamado = Prisma.ItemTrabajoEnriquecimientoGetPayload<{ select: typeof SELECT_RECLAMO }>;
+
+const minutosDesde = (fecha: Date, minutos: number) => new Date(fecha.getTime() + minutos * 60 * 1000);
+
+async function progresoDe(trabajoIds: string[]): Promise<Map<string, ProgresoTrabajo>> {
+  const grupos = await prisma.itemTrabajoEnriquecimiento.groupBy({
+    by: ['trabajoId', 'estado'],
+    where: { trabajoId: { in: trabajoIds } },
+    _count: { _all: true },
+  });
+
+  const progreso = new Map<string, ProgresoTrabajo>(
+    trabajoIds.map((id) => [id, { pendientes: 0, exitosos: 0, fallidos: 0, cancelados: 0 }])
+  );
+  for (const grupo of grupos) {
+    const actual = progreso.get(grupo.trabajoId)!;
+    const cantidad = grupo._count._all;
+    if (ITEM_ABIERTO.includes(grupo.estado)) actual.pendientes += cantidad;
+    else if (grupo.estado === 'COMPLETADO') actual.exitosos += cantidad;
+    else if (grupo.estado === 'ERROR') actual.fallidos += cantidad;
+    else actual.cancelados += cantidad;
+  }
+
+  return progreso;
+}
+
+async function conProgreso<T extends { id: string }>(trabajos: T[]): Promise<Array<T & { progreso: ProgresoTrabajo }>> {
+  const progreso = await progresoDe(trabajos.map((t) => t.id));
+  return trabajos.map((trabajo) => ({ ...trabajo, progreso: progreso.get(trabajo.id)! }));
+}
+
+/**
+ * Service for bulk enrichment jobs: a job and one item per client, enriched in
+ * the background by the worker cron so a batch survives timeouts, crashes and
+ * page reloads, and can be paused, resumed or cancelled
+ */
+export class TrabajosEnriquecimientoService {
+  /**
+   * Enqueue a job for the given clients or for every client matching the
+   * /clientes filters (as seen by the user creating it)
+   */
+  static async crear(dto: CrearTrabajoDTO, usuarioId: string): Promise<ServiceResult<TrabajoConProgreso>> {
+    const { MAX_CLIENTES } = TRABAJOS_ENRIQUECIMIENTO;
+
+    let clientes: Array<{ id: string }>;
+    if (dto.filtros) {
+      const filtros = parseClientesFiltros(dto.filtros);
+      clientes = await prisma.cliente.findMany({
+        where: buildClientesWhere(filtros, usuarioId),
+        orderBy: buildClientesOrderBy(filtros),
+        select: { id: true },
+        take: MAX_CLIENTES + 1,
+      });
+      if (clientes.length > MAX_CLIENTES) {
+        return { success: false, error: `El filtro incluye más de ${MAX_CLIENTES} clientes. Acota la búsqueda.` };
+      }
+    } else {
+      clientes = await prisma.cliente.findMany({
+        where: { id: { in: [...new Set(dto.clienteIds)] }, deletedAt: null },
+        select: { id: true },
+      });
+    }
+
+    if (clientes.length === 0) {
+      return { success: false, error: 'No hay clientes para enriquecer' };
+    }
+
+    const trabajo = await prisma.$transaction(async (tx) => {
+      const creado = await tx.trabajoEnriquecimiento.create({
+        data: {
+          includeAI: dto.includeAI,
+          includeWebsiteAnalysis: dto.includeWebsiteAnalysis,
+          provider: dto.provider ?? null,
+          ...(dto.filtros && { filtros: dto.filtros }),
+          total: clientes.length,
+          creadoPorId: usuarioId,
+        },
+        select: SELECT_TRABAJO,
+      });
+      await tx.itemTrabajoEnriquecimiento.createMany({
+        data: clientes.map((cliente) => ({ trabajoId: creado.id, clienteId: cliente.id })),
+      });
+      return creado;
+    });
+
+    logger.info('Bulk enrichment job enqueued', { trabajoId: trabajo.id, total: trabajo.total });
+
+    const [resultado] = await conProgreso([trabajo]);
+    return { success: true, data: resultado };
+  }
+
+  /**
+   * Latest jobs, newest first
+   */
+  static async listar(limit = 20): Promise<TrabajoConProgreso[]> {
+    const trabajos = await prisma.trabajoEnriquecimiento.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: SELECT_TRABAJO,
+    });
+
+    return conProgreso(trabajos);
+  }
+
+  /**
+   * A job with its latest processed clients and the ones being enriched right now
+   */
+  static async getById(id: string): Promise<TrabajoDetalle | null> {
+    const trabajo = await prisma.trabajoEnriquecimiento.findUnique({ where: { id }, select: SELECT_TRABAJO });
+    if (!trabajo) return null;
+
+    const [[resultado], items, enCurso] = await Promise.all([
+      conProgreso([trabajo]),
+      prisma.itemTrabajoEnriquecimiento.findMany({
+        where: { trabajoId: id, procesadoEn: { not: null } },
+        orderBy: { procesadoEn: 'desc' },
+        take: TRABAJOS_ENRIQUECIMIENTO.MAX_ITEMS_DETALLE,
+        select: SELECT_ITEM,
+      }),
+      // Claims of a run that died are not being enriched
+      prisma.itemTrabajoEnriquecimiento.findMany({
+        where: { trabajoId: id, estado: 'EN_CURSO', bloqueadoHasta: { gt: new Date() } },
+        orderBy: { updatedAt: 'asc' },
+        select: { clienteId: true, cliente: { select: { nombre: true } }, progreso: true },
+      }),
+    ]);
+
+    return {
+      ...resultado,
+      items,
+      enCurso: enCurso.map((item) => ({ ...item, progreso: item.progreso as EnrichmentProgressEvent | null })),
+    };
+  }
+
+  /**
+   * Pause, resume, cancel a job or retry its failed clients.
+   * Returns null when the job does not exist.
+   */
+  static async accion(id: string, accion: AccionTrabajoInput['accion']): Promise<ServiceResult<TrabajoDetalle> | null> {
+    const trabajo = await prisma.trabajoEnriquecimiento.findUnique({
+      where: { id },
+      select: { id: true, estado: true, iniciadoEn: true },
+    });
+    if (!trabajo) return null;
+
+    const ahora = new Date();
+    let error: string | null = null;
+
+    // Every update is guarded by estado, so it can't race the worker or another action
+    switch (accion) {
+      case 'pausar': {
+        const { count } = await prisma.trabajoEnriquecimiento.updateMany({
+          where: { id, estado: { in: TRABAJO_ACTIVO } },
+          data: { estado: 'PAUSADO' },
+        });
+        if (count === 0) error = 'Solo se puede pausar un trabajo pendiente o en curso';
+        break;
+      }
+      case 'reanudar': {
+        const { count } = await prisma.trabajoEnriquecimiento.updateMany({
+          where: { id, estado: 'PAUSADO' },
+          data: { estado: trabajo.iniciadoEn ? 'EN_CURSO' : 'PENDIENTE' },
+        });
+        if (count === 0) error = 'Solo se puede reanudar un trabajo pausado';
+        break;
+      }
+      case 'cancelar': {
+        const count = await prisma.$transaction(async (tx) => {
+          const actualizado = await tx.trabajoEnriquecimiento.updateMany({
+            where: { id, estado: { in: [...TRABAJO_ACTIVO, 'PAUSADO'] } },
+            data: { estado: 'CANCELADO', finalizadoEn: ahora },
+          });
+          if (actualizado.count === 0) return 0;
+
+          // Clients being enriched right now finish; abandoned claims are cancelled too
+          await tx.itemTrabajoEnriquecimiento.updateMany({
+            where: {
+              trabajoId: id,
+              OR: [{ estado: 'PENDIENTE' }, { estado: 'EN_CURSO', bloqueadoHasta: { lt: ahora } }],
+            },
+            data: { estado: 'CANCELADO', bloqueadoHasta: null },
+          });
+          return actualizado.count;
+        });
+        if (count === 0) error = 'El trabajo ya finalizó';
+        break;
+      }
+      case 'reintentar': {
+        if (trabajo.estado === 'CANCELADO') {
+          error = 'El trabajo fue cancelado';
+          break;
+        }
+        const count = await prisma.$transaction(async (tx) => {
+          const reabiertos = await tx.itemTrabajoEnriquecimiento.updateMany({
+            where: { trabajoId: id, estado: 'ERROR' },
+            data: { estado: 'PENDIENTE', intentos: 0, reintentarEn: null, error: null },
+          });
+          if (reabiertos.count > 0) {
+            await tx.trabajoEnriquecimiento.updateMany({
+              where: { id, estado: 'COMPLETADO' },
+              data: { estado: 'EN_CURSO', finalizadoEn: null },
+            });
+          }
+          return reabiertos.count;
+        });
+        if (count === 0) error = 'No hay clientes con error para reintentar';
+        break;
+      }
+    }
+
+    if (error) return { success: false, error };
+
+    logger.info('Bulk enrichment job updated', { trabajoId: id, accion });
+    const detalle = await this.getById(id);
+    return detalle ? { success: true, data: detalle } : null;
+  }
+
+  /**
+   * Enrich the next clients of the active jobs, oldest job first, until the
+   * run's time budget is spent. Called by the worker cron.
+   *
+   * Each client is claimed (-> EN_CURSO, with a lock expiry) before it is
+   * enriched, so overlapping runs never take it twice and a run that dies
+   * leaves it to the next one. Failed attempts are retried after a wait
+   * until MAX_INTENTOS; then the client stays in ERROR.
+   */
+  static async procesar(): Promise<ResumenProcesamiento> {
+    const inicio = Date.now();
+    const resumen: ResumenProcesamiento = { procesados: 0, exitosos: 0, reintentos: 0, fallidos: 0, trabajosFinalizados: 0 };
+
+    while (Date.now() - inicio < TRABAJOS_ENRIQUECIMIENTO.PRESUPUESTO_EJECUCION_MS) {
+      const items = await this.reclamarItems(TRABAJOS_ENRIQUECIMIENTO.CONCURRENCIA, resumen);
+      if (items.length === 0) break;
+
+      await pMap(items, TRABAJOS_ENRIQUECIMIENTO.CONCURRENCIA, (item) => this.procesarItem(item, resumen));
+    }
+
+    resumen.trabajosFinalizados = await this.cerrarTrabajos();
+    return resumen;
+  }
+
+  /**
+   * Claim up to `limite` clients: pending ones whose retry wait is over, and
+   * ones left claimed by a run that died
+   */
+  private static async reclamarItems(limite: number, resumen: ResumenProcesamiento): Promise<ItemReclamado[]> {
+    const ahora = new Date();
+    const candidatos = await prisma.itemTrabajoEnriquecimiento.findMany({
+      where: {
+        trabajo: { estado: { in: TRABAJO_ACTIVO } },
+        OR: [
+          { estado: 'PENDIENTE', OR: [{ reintentarEn: null }, { reintentarEn: { lte: ahora } }] },
+          { estado: 'EN_CURSO', bloqueadoHasta: { lt: ahora } },
+        ],
+      },
+      orderBy: [{ trabajo: { createdAt: 'asc' } }, { createdAt: 'asc' }],
+      // Extra candidates in case another run takes some first
+      take: limite * 2,
+      select: SELECT_RECLAMO,
+    });
+
+    const reclamados: ItemReclamado[] = [];
+    for (const item of candidatos) {
+      if (reclamados.length >= limite) break;
+      // Matching intentos makes the claim atomic: the winner increments it
+      const guarda = { id: item.id, estado: item.estado, intentos: item.intentos };
+
+      if (item.intentos >= TRABAJOS_ENRIQUECIMIENTO.MAX_INTENTOS) {
+        // Abandoned on its last attempt
+        const { count } = await prisma.itemTrabajoEnriquecimiento.updateMany({
+          where: guarda,
+          data: { estado: 'ERROR', bloqueadoHasta: null, error: 'El procesamiento se interrumpió', procesadoEn: ahora },
+        });
+        if (count > 0) resumen.fallidos++;
+        continue;
+      }
+
+      const { count } = await prisma.itemTrabajoEnriquecimiento.updateMany({
+        where: guarda,
+        data: {
+          estado: 'EN_CURSO',
+          intentos: { increment: 1 },
+          reintentarEn: null,
+          bloqueadoHasta: minutosDesde(ahora, TRABAJOS_ENRIQUECIMIENTO.MINUTOS_BLOQUEO),
+          progreso: Prisma.DbNull,
+        },
+      });
+      if (count > 0) reclamados.push({ ...item, intentos: item.intentos + 1 });
+    }
+
+    // A job starts with its first claimed client
+    const trabajoIds = [...new Set(reclamados.map((item) => item.trabajoId))];
+    if (trabajoIds.length > 0) {
+      await prisma.trabajoEnriquecimiento.updateMany({
+        where: { id: { in: trabajoIds }, estado: 'PENDIENTE' },
+        data: { estado: 'EN_CURSO', iniciadoEn: ahora },
+      });
+    }
+
+    return reclamados;
+  }
+
+  private static async procesarItem(item: ItemReclamado, resumen: ResumenProcesamiento): Promise<void> {
+    // Only the latest progress event is stored, one write at a time, for the job's live view
+    let ultimoEvento: EnrichmentProgressEvent | null = null;
+    let escritura: Promise<void> | null = null;
+    const escribirProgreso = async () => {
+      while (ultimoEvento) {
+        const evento = ultimoEvento;
+        ultimoEvento = null;
+        await prisma.itemTrabajoEnriquecimiento
+          .updateMany({
+            where: { id: item.id, estado: 'EN_CURSO' },
+            data: { progreso: evento as unknown as Prisma.InputJsonObject },
+          })
+          .catch((error) => logger.warn('Failed to store enrichment progress', { itemId: item.id, error }));
+      }
+      escritura = null;
+    };
+
+    let resultado: BulkEnrichmentItemResult | null;
+    try {
+      resultado = await BulkEnrichmentService.enrichClient(item.clienteId, {
+        includeAI: item.trabajo.includeAI,
+        includeWebsiteAnalysis: item.trabajo.includeWebsiteAnalysis,
+        provider: (item.trabajo.provider as AIProvider | null) ?? undefined,
+        userId: item.trabajo.creadoPorId,
+        onProgress: (evento) => {
+          ultimoEvento = evento;
+          escritura ??= escribirProgreso();
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Bulk enrichment item failed', error instanceof Error ? error : new Error(message));
+      resultado = { clienteId: item.clienteId, clienteName: '', success: false, error: message, retryable: true };
+    }
+
+    ultimoEvento = null;
+    await escritura;
+
+    const ahora = new Date();
+    const reintentar = !!resultado && !resultado.success && !!resultado.retryable &&
+      item.intentos < TRABAJOS_ENRIQUECIMIENTO.MAX_INTENTOS;
+    const estado: EstadoItemTrabajo = resultado?.success ? 'COMPLETADO' : reintentar ? 'PENDIENTE' : 'ERROR';
+
+    // Guarded by estado: a job cancelled meanwhile keeps the item as is
+    await prisma.itemTrabajoEnriquecimiento.updateMany({
+      where: { id: item.id, estado: 'EN_CURSO' },
+      data: {
+        estado,
+        bloqueadoHasta: null,
+        reintentarEn: reintentar ? minutosDesde(ahora, TRABAJOS_ENRIQUECIMIENTO.MINUTOS_REINTENTO) : null,
+        aiEnriched: resultado?.aiEnriched ?? false,
+        websiteAnalyzed: resultado?.websiteAnalyzed ?? false,
+        error: resultado ? resultado.error ?? null : 'El cliente fue eliminado',
+        progreso: Prisma.DbNull,
+        procesadoEn: ahora,
+      },
+    });
+
+    resumen.procesados++;
+    if (estado === 'COMPLETADO') resumen.exitosos++;
+    else if (estado === 'PENDIENTE') resumen.reintentos++;
+    else resumen.fallidos++;
+  }
+
+  /**
+   * Complete the active jobs with nothing left to process and notify their creators
+   */
+  private static async cerrarTrabajos(): Promise<number> {
+    const terminados = await prisma.trabajoEnriquecimiento.findMany({
+      where: { estado: { in: TRABAJO_ACTIVO }, items: { none: { estado: { in: ITEM_ABIERTO } } } },
+      select: { id: true, total: true, creadoPorId: true },
+    });
+
+    let cerrados = 0;
+    for (const trabajo of terminados) {
+      const { count } = await prisma.trabajoEnriquecimiento.updateMany({
+        where: { id: trabajo.id, estado: { in: TRABAJO_ACTIVO } },
+        data: { estado: 'COMPLETADO', finalizadoEn: new Date() },
+      });
+      if (count === 0) continue;
+      cerrados++;
+
+      const progreso = (await progresoDe([trabajo.id])).get(trabajo.id)!;
+      try {
+        await NotificationService.notifyBulkEnrichmentComplete(
+          trabajo.creadoPorId,
+          trabajo.total,
+          progreso.exitosos,
+          progreso.fallidos
+        );
+      } catch {
+        // Already logged; the job itself is complete
+      }
+    }
+
+    return cerrados;
+  }
+}
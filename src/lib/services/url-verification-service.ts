@@ -6,6 +6,7 @@
 import { AISdkService } from './ai-sdk-service';
 import { logger } from '@/lib/logger';
 import { getUrlVerificationPrompt } from './enrichment-prompts';
+import type { AIUsageAttribution } from '@/types/enrichment';
 
 export interface UrlVerificationResult {
   url: string;
@@ -111,7 +112,8 @@ export class UrlVerificationService {
    */
   static async verifyOwnership(
     url: string,
-    companyName: string
+    companyName: string,
+    attribution?: AIUsageAttribution
   ): Promise<{
     isOfficial: boolean;
     confidence: number;
@@ -138,7 +140,7 @@ export class UrlVerificationService {
           { role: 'system', content: 'You are a website ownership verification expert.' },
           { role: 'user', content: prompt },
         ],
-        { temperature: 0.1 }
+        { temperature: 0.1, attribution }
       );
 
       const parsed = AISdkService.parseJsonResponse<{
@@ -173,7 +175,8 @@ export class UrlVerificationService {
    */
   static async verifyUrl(
     url: string,
-    companyName: string
+    companyName: string,
+    attribution?: AIUsageAttribution
   ): Promise<UrlVerificationResult & { ownership?: { isOfficial: boolean; confidence: number; reasoning: string } }> {
     // First check accessibility
     const accessResult = await this.verifyAccessibility(url);
@@ -184,7 +187,7 @@ export class UrlVerificationService {
 
     // Then verify ownership
     const urlToVerify = accessResult.redirectUrl || accessResult.url;
-    const ownership = await this.verifyOwnership(urlToVerify, companyName);
+    const ownership = await this.verifyOwnership(urlToVerify, companyName, attribution);
 
     return {
       ...accessResult,
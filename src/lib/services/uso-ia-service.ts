@@ -0,0 +1,226 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import {
+  AI_MODEL_PRICING,
+  type AIProvider,
+  type AIUsageAttribution,
+  type GastoIA,
+  type GastoProveedorIA,
+  type ResumenUsoIA,
+} from '@/types/enrichment';
+
+// Spenders listed per user and per client
+const TOP_GASTOS = 10;
+
+const inicioDelMes = () => {
+  const hoy = new Date();
+  return new Date(hoy.getFullYear(), hoy.getMonth(), 1);
+};
+
+const redondear = (valor: number) => Math.round(valor * 1_000_000) / 1_000_000;
+
+/**
+ * Estimated cost in USD of a call. Models without a price (local ones) cost nothing.
+ */
+export function calcularCosteIA(model: string, promptTokens: number, completionTokens: number): number {
+  // OpenRouter-style ids: "openai/gpt-4o-mini"
+  const precio = AI_MODEL_PRICING[model] ?? AI_MODEL_PRICING[model.slice(model.lastIndexOf('/') + 1)];
+  if (!precio) return 0;
+  return redondear((promptTokens * precio.input + completionTokens * precio.output) / 1_000_000);
+}
+
+function toGasto(
+  sum: { costeUsd: Prisma.Decimal | null; promptTokens: number | null; completionTokens: number | null },
+  llamadas: number
+): GastoIA {
+  return {
+    costeUsd: sum.costeUsd?.toNumber() ?? 0,
+    tokens: (sum.promptTokens ?? 0) + (sum.completionTokens ?? 0),
+    llamadas,
+  };
+}
+
+/**
+ * AI token usage and spend: every successful call is recorded with its cost,
+ * charged to the user and client that triggered it, and providers can have a
+ * monthly budget cap.
+ */
+export class UsoIAService {
+  /**
+   * Record a successful call. Never throws: accounting must not break enrichment.
+   */
+  static async registrar(
+    provider: AIProvider,
+    model: string,
+    usage: { promptTokens: number; completionTokens: number } | undefined,
+    attribution: AIUsageAttribution = {}
+  ): Promise<void> {
+    const promptTokens = usage?.promptTokens ?? 0;
+    const completionTokens = usage?.completionTokens ?? 0;
+
+    try {
+      await prisma.usoIA.create({
+        data: {
+          provider,
+          model,
+          promptTokens,
+          completionTokens,
+          costeUsd: calcularCosteIA(model, promptTokens, completionTokens),
+          usuarioId: attribution.userId ?? null,
+          clienteId: attribution.clienteId ?? null,
+        },
+      });
+    } catch (error) {
+      logger.warn('[AI usage] Failed to record usage', { provider, model, error });
+    }
+  }
+
+  /**
+   * Throws when the provider has spent its monthly budget. Calls already in
+   * flight can overshoot it slightly.
+   */
+  static async comprobarPresupuesto(provider: AIProvider): Promise<void> {
+    const presupuesto = await prisma.presupuestoIA.findUnique({ where: { provider } });
+    if (!presupuesto) return;
+
+    const gasto = await prisma.usoIA.aggregate({
+      where: { provider, createdAt: { gte: inicioDelMes() } },
+      _sum: { costeUsd: true },
+    });
+
+    const gastado = gasto._sum.costeUsd?.toNumber() ?? 0;
+    const limite = presupuesto.limiteMensualUsd.toNumber();
+    if (gastado >= limite) {
+      throw new Error(
+        `Presupuesto mensual de ${provider} agotado (US$ ${gastado.toFixed(2)} de US$ ${limite.toFixed(2)})`
+      );
+    }
+  }
+
+  /**
+   * Set a provider's monthly cap in USD; null removes it
+   */
+  static async setPresupuesto(provider: AIProvider, limiteMensualUsd: number | null): Promise<void> {
+    if (limiteMensualUsd === null) {
+      await prisma.presupuestoIA.deleteMany({ where: { provider } });
+      return;
+    }
+
+    await prisma.presupuestoIA.upsert({
+      where: { provider },
+      create: { provider, limiteMensualUsd },
+      update: { limiteMensualUsd },
+    });
+  }
+
+  /**
+   * Spend this month per provider, and per day, user and client over the last
+   * `dias` days. `proveedores` are listed even before their first call.
+   */
+  static async getResumen(dias: number, proveedores: AIProvider[] = []): Promise<ResumenUsoIA> {
+    // Days in UTC, as the database groups them
+    const desde = new Date();
+    desde.setUTCHours(0, 0, 0, 0);
+    desde.setUTCDate(desde.getUTCDate() - (dias - 1));
+
+    const sumas = { costeUsd: true, promptTokens: true, completionTokens: true } as const;
+
+    const [mes, presupuestos, porDia, usuarios, clientes] = await Promise.all([
+      prisma.usoIA.groupBy({
+        by: ['provider'],
+        where: { createdAt: { gte: inicioDelMes() } },
+        _sum: sumas,
+        _count: { _all: true },
+      }),
+      prisma.presupuestoIA.findMany(),
+      prisma.$queryRaw<Array<{ fecha: string; costeUsd: Prisma.Decimal; tokens: bigint; llamadas: bigint }>>`
+        SELECT to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS fecha,
+               SUM("costeUsd") AS "costeUsd",
+               SUM("promptTokens" + "completionTokens") AS tokens,
+               COUNT(*) AS llamadas
+        FROM "usos_ia"
+        WHERE "createdAt" >= ${desde}
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      prisma.usoIA.groupBy({
+        by: ['usuarioId'],
+        where: { createdAt: { gte: desde } },
+        _sum: sumas,
+        _count: { _all: true },
+        orderBy: { _sum: { costeUsd: 'desc' } },
+        take: TOP_GASTOS,
+      }),
+      prisma.usoIA.groupBy({
+        by: ['clienteId'],
+        where: { createdAt: { gte: desde } },
+        _sum: sumas,
+        _count: { _all: true },
+        orderBy: { _sum: { costeUsd: 'desc' } },
+        take: TOP_GASTOS,
+      }),
+    ]);
+
+    const limites = new Map(presupuestos.map((p) => [p.provider, p.limiteMensualUsd.toNumber()]));
+    const gastosMes = new Map(mes.map((g) => [g.provider, toGasto(g._sum, g._count._all)]));
+    const todos = [...new Set([...proveedores, ...gastosMes.keys(), ...limites.keys()])];
+
+    const proveedoresResumen: GastoProveedorIA[] = todos
+      .map((provider) => {
+        const gasto = gastosMes.get(provider);
+        return {
+          provider,
+          costeMesUsd: gasto?.costeUsd ?? 0,
+          tokensMes: gasto?.tokens ?? 0,
+          llamadasMes: gasto?.llamadas ?? 0,
+          limiteMensualUsd: limites.get(provider) ?? null,
+        };
+      })
+      .sort((a, b) => b.costeMesUsd - a.costeMesUsd || a.provider.localeCompare(b.provider));
+
+    // Every day in the range, with or without calls
+    const diasConGasto = new Map(porDia.map((d) => [d.fecha, d]));
+    const serie: ResumenUsoIA['porDia'] = [];
+    for (let i = 0; i < dias; i++) {
+      const dia = new Date(desde);
+      dia.setUTCDate(desde.getUTCDate() + i);
+      const fecha = dia.toISOString().slice(0, 10);
+      const fila = diasConGasto.get(fecha);
+      serie.push({
+        fecha,
+        costeUsd: fila ? Number(fila.costeUsd) : 0,
+        tokens: fila ? Number(fila.tokens) : 0,
+        llamadas: fila ? Number(fila.llamadas) : 0,
+      });
+    }
+
+    const [nombresUsuarios, nombresClientes] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: usuarios.flatMap((u) => (u.usuarioId ? [u.usuarioId] : [])) } },
+        select: { id: true, name: true, email: true },
+      }),
+      prisma.cliente.findMany({
+        where: { id: { in: clientes.flatMap((c) => (c.clienteId ? [c.clienteId] : [])) } },
+        select: { id: true, nombre: true },
+      }),
+    ]);
+    const usuariosPorId = new Map(nombresUsuarios.map((u) => [u.id, u.name ?? u.email]));
+    const clientesPorId = new Map(nombresClientes.map((c) => [c.id, c.nombre]));
+
+    return {
+      proveedores: proveedoresResumen,
+      porDia: serie,
+      porUsuario: usuarios.map((u) => ({
+        usuarioId: u.usuarioId,
+        nombre: u.usuarioId ? usuariosPorId.get(u.usuarioId) ?? 'Usuario eliminado' : 'Sistema',
+        ...toGasto(u._sum, u._count._all),
+      })),
+      porCliente: clientes.map((c) => ({
+        clienteId: c.clienteId,
+        nombre: c.clienteId ? clientesPorId.get(c.clienteId) ?? 'Cliente eliminado' : 'Sin cliente',
+        ...toGasto(c._sum, c._count._all),
+      })),
+    };
+  }
+}
@@ -20,6 +20,7 @@ import { IpApiService } from './external-apis/ipapi-service';
 import { WhoisXmlService } from './external-apis/whoisxml-service';
 import { FaviconService } from './external-apis/favicon-service';
 import { logger } from '@/lib/logger';
+import type { EnrichmentProgressCallback } from '@/types/enrichment';
 
 export interface WebsiteAnalysisOptions {
   clienteId: string;
@@ -39,6 +40,8 @@ export interface WebsiteAnalysisOptions {
   includeServerLocation?: boolean;  // IP-API
   includeWhois?: boolean;           // WhoisXML (needs API key)
   includeFavicon?: boolean;         // Favicon grabber
+  // Live progress of each check
+  onProgress?: EnrichmentProgressCallback;
 }
 
 export interface SslAnalysis {
@@ -148,8 +151,10 @@ export class WebsiteAnalysisService {
     const includeResponsive = options.includeResponsive ?? true; // Default true
 
     // Verify URL is accessible first
+    options.onProgress?.({ type: 'check', check: 'url', status: 'started' });
     const urlVerification = await UrlVerificationService.verifyAccessibility(url);
     if (!urlVerification.isAccessible) {
+      options.onProgress?.({ type: 'check', check: 'url', status: 'failed', error: urlVerification.error });
       return {
         success: false,
         url,
@@ -165,12 +170,23 @@ export class WebsiteAnalysisService {
       analysisPerformed: [],
     };
 
+    options.onProgress?.({ type: 'check', check: 'url', status: 'completed' });
+
     // Run analyses in parallel where possible
     const analyses: Promise<void>[] = [];
 
+    // Reports each analysis as it starts and settles: it failed if it added an error
+    const track = (check: string, errorPrefix: string, analysis: Promise<void>) => {
+      options.onProgress?.({ type: 'check', check, status: 'started' });
+      return analysis.then(() => {
+        const error = errors.find((e) => e.startsWith(errorPrefix));
+        options.onProgress?.({ type: 'check', check, status: error ? 'failed' : 'completed', error });
+      });
+    };
+
     // Screenshots
     if (includeScreenshots) {
-      analyses.push(
+      analyses.push(track('screenshots', 'Screenshots',
         this.captureScreenshots(urlVerification.url, clienteId)
           .then((screenshots) => {
             if (screenshots.desktop) {
@@ -188,12 +204,12 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Screenshots error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // PageSpeed
     if (includePageSpeed) {
-      analyses.push(
+      analyses.push(track('pagespeed', 'PageSpeed',
         this.analyzePageSpeed(urlVerification.url)
           .then((pageSpeed) => {
             if (pageSpeed.success) {
@@ -212,7 +228,7 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`PageSpeed error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // SSL Analysis (from URL verification)
@@ -222,11 +238,12 @@ export class WebsiteAnalysisService {
         protocol: urlVerification.hasSSL ? 'TLS' : undefined,
       };
       analysisPerformed.push('ssl');
+      options.onProgress?.({ type: 'check', check: 'ssl', status: urlVerification.sslValid ? 'completed' : 'failed' });
     }
 
     // SEO Analysis
     if (includeSeo) {
-      analyses.push(
+      analyses.push(track('seo', 'SEO',
         SeoAnalysisService.analyzeUrl(urlVerification.url)
           .then((seoResult) => {
             if (seoResult.success) {
@@ -249,12 +266,12 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`SEO error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Tech Stack Detection
     if (includeTechStack) {
-      analyses.push(
+      analyses.push(track('techstack', 'Tech Stack',
         TechStackService.detectTechnologies(urlVerification.url)
           .then((techResult) => {
             if (techResult.success) {
@@ -267,12 +284,12 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Tech Stack error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Security Headers Analysis
     if (includeSecurity) {
-      analyses.push(
+      analyses.push(track('security', 'Security',
         SecurityHeadersService.analyzeUrl(urlVerification.url)
           .then((securityResult) => {
             if (securityResult.success) {
@@ -285,12 +302,12 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Security error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Accessibility Analysis
     if (includeAccessibility) {
-      analyses.push(
+      analyses.push(track('accessibility', 'Accessibility',
         AccessibilityService.analyzeUrl(urlVerification.url)
           .then((a11yResult) => {
             if (a11yResult.success) {
@@ -303,12 +320,12 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Accessibility error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Crawlability Analysis
     if (includeCrawlability) {
-      analyses.push(
+      analyses.push(track('crawlability', 'Crawlability',
         CrawlabilityService.analyzeUrl(urlVerification.url)
           .then((crawlResult) => {
             if (crawlResult.success) {
@@ -321,12 +338,12 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Crawlability error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Responsive Check
     if (includeResponsive) {
-      analyses.push(
+      analyses.push(track('responsive', 'Responsive',
         ResponsiveChecker.checkUrl(urlVerification.url)
           .then((responsiveResult) => {
             if (responsiveResult.success) {
@@ -339,13 +356,13 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Responsive error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // BuiltWith Tech Stack (External API)
     const includeBuiltWith = options.includeBuiltWith ?? false; // Opt-in
     if (includeBuiltWith) {
-      analyses.push(
+      analyses.push(track('builtwith', 'BuiltWith',
         BuiltWithService.detectTechnologies(urlVerification.url)
           .then((builtWithResult) => {
             if (builtWithResult.success) {
@@ -358,13 +375,13 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`BuiltWith error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Server Location (IP-API - FREE, no API key required)
     const includeServerLocation = options.includeServerLocation ?? true; // Default enabled (free)
     if (includeServerLocation) {
-      analyses.push(
+      analyses.push(track('server-location', 'Server Location',
         IpApiService.getServerLocation(urlVerification.url)
           .then((serverResult) => {
             if (serverResult.success) {
@@ -385,13 +402,13 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Server Location error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Domain WHOIS Info (WhoisXML - needs API key, 500/month free)
     const includeWhois = options.includeWhois ?? false; // Opt-in (needs API key)
     if (includeWhois) {
-      analyses.push(
+      analyses.push(track('whois', 'WHOIS',
         WhoisXmlService.lookup(urlVerification.url)
           .then((whoisResult) => {
             if (whoisResult.success) {
@@ -412,13 +429,13 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`WHOIS error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Favicon (FREE, no API key required)
     const includeFavicon = options.includeFavicon ?? true; // Default enabled (free)
     if (includeFavicon) {
-      analyses.push(
+      analyses.push(track('favicon', 'Favicon',
         FaviconService.getFavicon(urlVerification.url)
           .then((faviconResult) => {
             if (faviconResult.success && faviconResult.url) {
@@ -431,7 +448,7 @@ export class WebsiteAnalysisService {
           .catch((err) => {
             errors.push(`Favicon error: ${err.message}`);
           })
-      );
+      ));
     }
 
     // Wait for all analyses
@@ -640,13 +657,18 @@ export class WebsiteAnalysisService {
   /**
    * Quick analysis (screenshots only)
    */
-  static async quickAnalysis(clienteId: string, url: string): Promise<WebsiteAnalysisResult> {
+  static async quickAnalysis(
+    clienteId: string,
+    url: string,
+    onProgress?: EnrichmentProgressCallback
+  ): Promise<WebsiteAnalysisResult> {
     return this.analyzeWebsite({
       clienteId,
       url,
       includeScreenshots: true,
       includePageSpeed: false,
       includeSsl: true,
+      onProgress,
     });
   }
 }
@@ -0,0 +1,107 @@
+import type { EstadoMensaje } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logger } from '@/lib/logger';
+import { claveTelefono } from '@/lib/normalizacion';
+import { RespuestasService, destinoDeMensaje, selectOriginal } from './respuestas-service';
+import type { WhatsAppInboundMessage, WhatsAppStatus, WhatsAppWebhookPayload } from './whatsapp-service';
+
+// State each status moves a message to, and the states it may come from.
+// Statuses may arrive out of order: a late "delivered" must not undo a "read".
+const TRANSICIONES: Record<WhatsAppStatus['status'], { estado: EstadoMensaje; desde: EstadoMensaje[] }> = {
+  sent: { estado: 'ENVIADO', desde: ['PENDIENTE'] },
+  delivered: { estado: 'ENTREGADO', desde: ['PENDIENTE', 'ENVIADO'] },
+  read: { estado: 'LEIDO', desde: ['PENDIENTE', 'ENVIADO', 'ENTREGADO'] },
+  failed: { estado: 'ERROR', desde: ['PENDIENTE', 'ENVIADO', 'ENTREGADO'] },
+};
+
+const textoEntrante = (mensaje: WhatsAppInboundMessage) =>
+  mensaje.text?.body
+  ?? mensaje.button?.text
+  ?? mensaje.interactive?.button_reply?.title
+  ?? mensaje.interactive?.list_reply?.title
+  ?? `[${mensaje.type}]`;
+
+/**
+ * Service for what happens to a WhatsApp message after the Cloud API accepts
+ * it: delivery and read statuses, and the client's replies
+ */
+export class WhatsAppEventosService {
+  /**
+   * Apply every status and inbound message of a webhook delivery
+   */
+  static async procesarWebhook(payload: WhatsAppWebhookPayload): Promise<{ estados: number; respuestas: number }> {
+    let estados = 0;
+    let respuestas = 0;
+
+    for (const entry of payload.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        if (change.field !== 'messages') continue;
+
+        for (const estado of change.value.statuses ?? []) {
+          if (await this.procesarEstado(estado)) estados++;
+        }
+        for (const mensaje of change.value.messages ?? []) {
+          if (await this.registrarRespuesta(mensaje)) respuestas++;
+        }
+      }
+    }
+
+    return { estados, respuestas };
+  }
+
+  /**
+   * Apply a status of one of our messages. False when the message is not ours.
+   */
+  static async procesarEstado(estado: WhatsAppStatus): Promise<boolean> {
+    const transicion = TRANSICIONES[estado.status];
+    if (!transicion) return false;
+
+    const detalle = estado.status === 'failed' && estado.errors?.[0]
+      ? `${estado.errors[0].code}: ${estado.errors[0].error_data?.details || estado.errors[0].message || estado.errors[0].title}`
+      : null;
+
+    const { count } = await prisma.mensaje.updateMany({
+      where: { whatsappId: estado.id, estado: { in: transicion.desde } },
+      data: { estado: transicion.estado, ...(detalle && { errorDetalle: detalle }) },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * A message from a client, stored as its reply (see RespuestasService).
+   * The client is the one of the message it quotes or, failing that, of the
+   * last Cloud API message sent to that number. False when no client matches
+   * or it was already stored.
+   */
+  static async registrarRespuesta(entrante: WhatsAppInboundMessage): Promise<boolean> {
+    let original = entrante.context
+      ? await prisma.mensaje.findUnique({ where: { whatsappId: entrante.context.id }, select: selectOriginal })
+      : null;
+
+    const clave = claveTelefono(entrante.from);
+    if (!original && clave) {
+      // Cloud API messages are stored with the digits they were sent to
+      original = await prisma.mensaje.findFirst({
+        where: { canal: 'WHATSAPP', whatsappId: { not: null }, destinatario: { endsWith: clave }, deletedAt: null },
+        orderBy: { createdAt: 'desc' },
+        select: selectOriginal,
+      });
+    }
+
+    if (!original) {
+      logger.info('Inbound WhatsApp from an unknown number', { mensajeId: entrante.id });
+      return false;
+    }
+
+    const segundos = Number(entrante.timestamp);
+    return RespuestasService.registrar({
+      canal: 'WHATSAPP',
+      remitente: entrante.from,
+      asunto: null,
+      cuerpo: textoEntrante(entrante),
+      externoId: entrante.id,
+      recibidoEn: Number.isFinite(segundos) ? new Date(segundos * 1000) : new Date(),
+    }, destinoDeMensaje(original));
+  }
+}
@@ -0,0 +1,165 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ApiKeyService } from './api-key-service';
+import { logger } from '@/lib/logger';
+
+const GRAPH_API_BASE = 'https://graph.facebook.com/v21.0';
+
+interface WhatsAppCloudConfig {
+  phoneNumberId: string;
+  accessToken: string;
+}
+
+interface SendWhatsAppResult {
+  success: boolean;
+  // Message id in WhatsApp (wamid), matched by the status webhooks
+  id?: string;
+  error?: string;
+  retryable?: boolean;
+}
+
+export interface WhatsAppTemplateMessage {
+  // Name of the template approved in WhatsApp Business Manager
+  nombre: string;
+  idioma: string;
+  // Body parameters, in order ({{1}}, {{2}}...)
+  parametros: string[];
+}
+
+export interface WhatsAppStatus {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  recipient_id: string;
+  errors?: Array<{ code: number; title: string; message?: string; error_data?: { details?: string } }>;
+}
+
+export interface WhatsAppInboundMessage {
+  id: string;
+  from: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  button?: { text: string };
+  interactive?: { button_reply?: { title: string }; list_reply?: { title: string } };
+  // Present when the client replied quoting one of our messages
+  context?: { id: string };
+}
+
+export interface WhatsAppWebhookPayload {
+  object: string;
+  entry?: Array<{
+    changes?: Array<{
+      field: string;
+      value: {
+        statuses?: WhatsAppStatus[];
+        messages?: WhatsAppInboundMessage[];
+        contacts?: Array<{ wa_id: string; profile?: { name?: string } }>;
+      };
+    }>;
+  }>;
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Cloud API text parameters can't be empty nor carry newlines or tabs
+const limpiarParametro = (valor: string) => valor.replace(/\s+/g, ' ').trim() || '-';
+
+/**
+ * Phone number id and access token of the Cloud API, or null when it is not
+ * configured (WhatsApp then goes through wa.me links)
+ */
+export async function getWhatsAppCloudConfig(): Promise<WhatsAppCloudConfig | null> {
+  const key = await ApiKeyService.getDecryptedKey('whatsapp_cloud');
+  if (!key) return null;
+
+  const separador = key.indexOf(':');
+  if (separador <= 0) {
+    logger.error('WhatsApp Cloud API key without phone number id');
+    return null;
+  }
+
+  return { phoneNumberId: key.slice(0, separador), accessToken: key.slice(separador + 1) };
+}
+
+/**
+ * Send an approved template message through the WhatsApp Cloud API
+ */
+export async function sendWhatsAppTemplate(
+  config: WhatsAppCloudConfig,
+  to: string,
+  plantilla: WhatsAppTemplateMessage
+): Promise<SendWhatsAppResult> {
+  try {
+    const response = await fetch(`${GRAPH_API_BASE}/${config.phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to,
+        type: 'template',
+        template: {
+          name: plantilla.nombre,
+          language: { code: plantilla.idioma },
+          ...(plantilla.parametros.length > 0 && {
+            components: [{
+              type: 'body',
+              parameters: plantilla.parametros.map((valor) => ({ type: 'text', text: limpiarParametro(valor) })),
+            }],
+          }),
+        },
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const message = data.error?.error_data?.details || data.error?.message || `HTTP ${response.status}`;
+      logger.error('WhatsApp Cloud API error', new Error(message));
+      return { success: false, error: message, retryable: isRetryableStatus(response.status) };
+    }
+
+    const id: string | undefined = data.messages?.[0]?.id;
+    logger.info('WhatsApp sent successfully', { template: plantilla.nombre, id });
+    return { success: true, id };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Error desconocido al enviar WhatsApp';
+    logger.error('WhatsApp send error', error instanceof Error ? error : new Error(message));
+    return { success: false, error: message, retryable: true };
+  }
+}
+
+/**
+ * Parse a Cloud API webhook, checking its X-Hub-Signature-256 against WHATSAPP_APP_SECRET.
+ * Throws when the secret is missing or the signature does not match.
+ */
+export function verifyWhatsAppWebhook(payload: string, signature: string): WhatsAppWebhookPayload {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    throw new Error('WHATSAPP_APP_SECRET not configured');
+  }
+
+  const esperada = Buffer.from(`sha256=${createHmac('sha256', appSecret).update(payload).digest('hex')}`);
+  const recibida = Buffer.from(signature);
+  if (esperada.length !== recibida.length || !timingSafeEqual(esperada, recibida)) {
+    throw new Error('Invalid signature');
+  }
+
+  return JSON.parse(payload) as WhatsAppWebhookPayload;
+}
+
+/**
+ * Challenge to echo when Meta verifies the webhook subscription, or null when
+ * the token is not WHATSAPP_WEBHOOK_VERIFY_TOKEN
+ */
+export function verificarSuscripcionWhatsApp(
+  mode: string | null,
+  token: string | null,
+  challenge: string | null
+): string | null {
+  const verifyToken = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN;
+  if (!verifyToken || mode !== 'subscribe' || token !== verifyToken) return null;
+  return challenge;
+}
@@ -0,0 +1,93 @@
+// Server-Sent Events (text/event-stream): live progress of long operations.
+// Responses are built on the server; leerEventos reads them on the client from
+// a fetch() response (EventSource only does GET, without a body).
+
+export type EnviarEvento = (evento: string, datos: unknown) => void;
+
+const CABECERAS_EVENTOS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Proxies must not buffer the stream
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * Whether the client asked for an event stream instead of JSON
+ */
+export function aceptaEventos(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Stream the events `producir` sends; the stream closes when it settles.
+ * When the client disconnects, `signal` aborts and later events are dropped.
+ * `reintentoMs` is the wait before EventSource reconnects.
+ */
+export function respuestaEventos(
+  producir: (enviar: EnviarEvento, signal: AbortSignal) => Promise<void>,
+  opciones: { reintentoMs?: number } = {}
+): Response {
+  const encoder = new TextEncoder();
+  const desconexion = new AbortController();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const enviar: EnviarEvento = (evento, datos) => {
+        if (desconexion.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${evento}\ndata: ${JSON.stringify(datos)}\n\n`));
+      };
+
+      if (opciones.reintentoMs) {
+        controller.enqueue(encoder.encode(`retry: ${opciones.reintentoMs}\n\n`));
+      }
+
+      try {
+        await producir(enviar, desconexion.signal);
+      } finally {
+        if (!desconexion.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      desconexion.abort();
+    },
+  });
+
+  return new Response(stream, { headers: CABECERAS_EVENTOS });
+}
+
+/**
+ * Read the events of a text/event-stream fetch() response until it ends
+ */
+export async function leerEventos(
+  response: Response,
+  onEvento: (evento: string, datos: unknown) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let pendiente = '';
+
+  const despachar = (bloque: string) => {
+    let evento = 'message';
+    const datos: string[] = [];
+    for (const linea of bloque.split(/\r?\n/)) {
+      if (linea.startsWith('event:')) evento = linea.slice(6).trim();
+      else if (linea.startsWith('data:')) datos.push(linea.slice(5).replace(/^ /, ''));
+    }
+    if (datos.length > 0) onEvento(evento, JSON.parse(datos.join('\n')));
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    pendiente += value;
+
+    // Events end with a blank line
+    const bloques = pendiente.split(/\r?\n\r?\n/);
+    pendiente = bloques.pop() ?? '';
+    bloques.forEach(despachar);
+  }
+
+  if (pendiente.trim()) despachar(pendiente);
+}
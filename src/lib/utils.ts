@@ -3,4 +3,13 @@ import { twMerge } from 'tailwind-merge'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
+}
+
+// Money amount in its own currency (amounts are never converted)
+export function formatMonto(monto: number, moneda: string) {
+  return new Intl.NumberFormat('es-AR', {
+    style: 'currency',
+    currency: moneda,
+    maximumFractionDigits: 0,
+  }).format(monto)
 }
\ No newline at end of file
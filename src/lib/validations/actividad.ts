@@ -23,6 +23,24 @@ export const CreateActividadDTOSchema = z.object({
   clienteId: z.string().uuid('ID de cliente inválido'),
   resultado: z.string().max(1000).optional().nullable(),
   proximoPaso: z.string().max(1000).optional().nullable(),
+  // Scheduled meetings and calls: start (defaults to now), end and place
+  fecha: z.coerce.date().optional(),
+  fechaFin: z.coerce.date().optional().nullable(),
+  ubicacion: z.string().max(300).optional().nullable(),
+  // Opportunity the activity belongs to (must be of the same client)
+  oportunidadId: z.string().min(1).optional().nullable(),
+}).refine((data) => !data.fechaFin || !data.fecha || data.fechaFin > data.fecha, {
+  message: 'La hora de fin debe ser posterior al inicio',
+  path: ['fechaFin'],
+});
+
+// Move a meeting or call in the calendar (the end keeps its duration when omitted)
+export const ReprogramarActividadSchema = z.object({
+  fecha: z.coerce.date(),
+  fechaFin: z.coerce.date().optional().nullable(),
+}).refine((data) => !data.fechaFin || data.fechaFin > data.fecha, {
+  message: 'La hora de fin debe ser posterior al inicio',
+  path: ['fechaFin'],
 });
 
 // Actividad Filters Schema for GET requests
@@ -37,3 +55,4 @@ export const ActividadFiltersSchema = z.object({
 // Export type inference
 export type CreateActividadDTOValidated = z.infer<typeof CreateActividadDTOSchema>;
 export type ActividadFiltersValidated = z.infer<typeof ActividadFiltersSchema>;
+export type ReprogramarActividadValidated = z.infer<typeof ReprogramarActividadSchema>;
@@ -7,6 +7,9 @@ const allProviders = Object.keys(PROVIDER_INFO);
 // AI providers that require a model
 const aiProviders = Object.keys(AI_PROVIDER_MODELS);
 
+// WhatsApp Cloud API key: "<phone number id>:<access token>"
+export const WHATSAPP_CLOUD_KEY = /^\d+:\S+$/;
+
 export const createApiKeySchema = z.object({
   provider: z.string().refine(
     (val) => allProviders.includes(val),
@@ -32,6 +35,13 @@ export const createApiKeySchema = z.object({
     message: 'Los proveedores de IA requieren seleccionar un modelo valido',
     path: ['model'],
   }
+).refine(
+  // The Cloud API needs the sender's phone number id besides the token
+  (data) => data.provider !== 'whatsapp_cloud' || WHATSAPP_CLOUD_KEY.test(data.apiKey),
+  {
+    message: 'Formato esperado: ID_DEL_NUMERO:TOKEN_DE_ACCESO',
+    path: ['apiKey'],
+  }
 );
 
 export const updateApiKeySchema = z.object({
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { CALENDARIO } from '@/lib/constants';
+
+// Calendar Filters Schema for GET requests
+export const CalendarioFiltersSchema = z.object({
+  desde: z.coerce.date(),
+  hasta: z.coerce.date(),
+  // "me" (default), "todos" or a user id
+  usuario: z.string().min(1).optional(),
+}).refine((data) => data.hasta > data.desde, {
+  message: 'El rango de fechas es inválido',
+  path: ['hasta'],
+}).refine((data) => data.hasta.getTime() - data.desde.getTime() <= CALENDARIO.MAX_DIAS_RANGO * 86400000, {
+  message: `El rango no puede superar ${CALENDARIO.MAX_DIAS_RANGO} días`,
+  path: ['hasta'],
+});
+
+// Export type inference
+export type CalendarioFiltersValidated = z.infer<typeof CalendarioFiltersSchema>;
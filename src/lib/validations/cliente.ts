@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { PAGINATION } from '@/lib/constants';
+import { esZonaHorariaValida } from '@/lib/zona-horaria';
 
 // Enum schemas
 export const EstadoClienteSchema = z.enum([
@@ -20,6 +21,8 @@ export const FuenteClienteSchema = z.enum([
   'CONTACTO_CLIENTE'
 ]);
 
+export const EstadoConsentimientoSchema = z.enum(['DESCONOCIDO', 'OTORGADO', 'REVOCADO']);
+
 // Create Cliente DTO Schema
 export const CreateClienteDTOSchema = z.object({
   nombre: z.string().min(1, 'El nombre es requerido').max(255, 'El nombre es muy largo'),
@@ -34,6 +37,9 @@ export const CreateClienteDTOSchema = z.object({
   ciudad: z.string().max(100).optional().nullable(),
   provincia: z.string().max(100).optional().nullable(),
   codigoPostal: z.string().max(20).optional().nullable(),
+  zonaHoraria: z.string().refine(esZonaHorariaValida, 'Zona horaria inválida').optional().nullable(),
+  consentimientoEmail: EstadoConsentimientoSchema.optional(),
+  consentimientoWhatsApp: EstadoConsentimientoSchema.optional(),
   industria: z.string().max(100).optional().nullable(),
   sitioWeb: z.string().url('URL inválida').max(500).optional().nullable().or(z.literal('')),
   tieneSSL: z.boolean().optional().nullable(),
@@ -42,6 +48,8 @@ export const CreateClienteDTOSchema = z.object({
   estado: EstadoClienteSchema.default('NUEVO'),
   prioridad: PrioridadClienteSchema.default('MEDIA'),
   notas: z.string().max(5000).optional().nullable(),
+  asignadoAId: z.string().min(1).optional().nullable(),
+  colaboradorIds: z.array(z.string().min(1)).max(20, 'Máximo 20 colaboradores').optional(),
 });
 
 // Update Cliente DTO Schema (all fields optional)
@@ -54,6 +62,8 @@ export const ClienteFiltersSchema = z.object({
   prioridad: PrioridadClienteSchema.optional(),
   fuente: FuenteClienteSchema.optional(),
   industria: z.string().max(100).optional(),
+  // User id, 'me' for the current user or 'none' for unassigned clients
+  asignadoA: z.string().max(100).optional(),
   limit: z.coerce.number().min(1).max(PAGINATION.MAX_LIMIT).default(PAGINATION.DEFAULT_LIMIT),
   offset: z.coerce.number().min(0).default(PAGINATION.DEFAULT_OFFSET),
   sortBy: z.enum([
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { CanalContactoSchema } from './plantilla';
+
+// Create contact person DTO Schema
+export const CreateContactoClienteSchema = z.object({
+  nombre: z.string().min(1, 'El nombre es requerido').max(255, 'El nombre es muy largo'),
+  cargo: z.string().max(100).optional().nullable(),
+  email: z.string().email('Email inválido').max(255).optional().nullable().or(z.literal('')),
+  telefono: z.string().max(50).optional().nullable(),
+  whatsapp: z.string().max(50).optional().nullable(),
+  canalPreferido: CanalContactoSchema.optional().nullable(),
+  esPrincipal: z.boolean().optional(),
+});
+
+// Update contact person DTO Schema (all fields optional)
+export const UpdateContactoClienteSchema = CreateContactoClienteSchema.partial();
+
+// Export type inference
+export type CreateContactoClienteValidated = z.infer<typeof CreateContactoClienteSchema>;
+export type UpdateContactoClienteValidated = z.infer<typeof UpdateContactoClienteSchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { DUPLICADOS } from '@/lib/constants';
+
+export const CAMPOS_FUSIONABLES = [
+  'nombre',
+  'email',
+  'telefono',
+  'whatsapp',
+  'instagram',
+  'facebook',
+  'linkedin',
+  'twitter',
+  'direccion',
+  'ciudad',
+  'provincia',
+  'codigoPostal',
+  'industria',
+  'sitioWeb',
+  'estado',
+  'prioridad',
+  'notas',
+  'asignadoAId',
+] as const;
+
+export const CampoFusionableSchema = z.enum(CAMPOS_FUSIONABLES);
+
+export const OrigenCampoFusionSchema = z.enum(['principal', 'secundario']);
+
+// Duplicate finder query
+export const BuscarDuplicadosSchema = z.object({
+  minScore: z.coerce.number().int().min(1).max(100).default(DUPLICADOS.SCORE_MINIMO),
+  limit: z.coerce.number().int().min(1).max(DUPLICADOS.MAX_PARES).default(DUPLICADOS.MAX_PARES),
+  // Only pairs that include this client
+  clienteId: z.string().min(1).optional(),
+});
+
+// Merge request: fields not listed keep the principal value (or the secondary one when empty)
+export const FusionarClientesSchema = z
+  .object({
+    principalId: z.string().min(1),
+    secundarioId: z.string().min(1),
+    campos: z.partialRecord(CampoFusionableSchema, OrigenCampoFusionSchema).default({}),
+  })
+  .refine((data) => data.principalId !== data.secundarioId, {
+    message: 'No se puede fusionar un cliente consigo mismo',
+    path: ['secundarioId'],
+  });
+
+// Export type inference
+export type BuscarDuplicadosValidated = z.infer<typeof BuscarDuplicadosSchema>;
+export type FusionarClientesValidated = z.infer<typeof FusionarClientesSchema>;
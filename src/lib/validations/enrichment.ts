@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { REVIEWABLE_FIELDS } from '@/types/enrichment';
+import { TRABAJOS_ENRIQUECIMIENTO } from '@/lib/constants';
 
 // POST /api/clientes/[id]/enrich - Enrichment options
 export const enrichmentPostSchema = z.object({
@@ -46,6 +47,37 @@ export const enrichmentPatchSchema = z.object({
 
 export type EnrichmentPatchInput = z.infer<typeof enrichmentPatchSchema>;
 
+// POST /api/admin/bulk-enrich - Enqueue a bulk job for a selection or for the /clientes filters
+export const trabajoEnriquecimientoSchema = z.object({
+  clienteIds: z
+    .array(z.string().min(1))
+    .min(1, 'Se requiere una lista de IDs de clientes')
+    .max(TRABAJOS_ENRIQUECIMIENTO.MAX_CLIENTES, `Maximo ${TRABAJOS_ENRIQUECIMIENTO.MAX_CLIENTES} clientes por operacion`)
+    .optional(),
+  // Query params of the /clientes page
+  filtros: z.record(z.string(), z.string()).optional(),
+  includeAI: z.boolean().default(true),
+  includeWebsiteAnalysis: z.boolean().default(true),
+  provider: z.string().optional(),
+}).refine(
+  (data) => !!data.clienteIds !== !!data.filtros,
+  { message: 'Se requiere una lista de clientes o los filtros del listado', path: ['clienteIds'] }
+).refine(
+  (data) => data.includeAI || data.includeWebsiteAnalysis,
+  { message: 'Elige al menos un tipo de enriquecimiento', path: ['includeAI'] }
+);
+
+export type TrabajoEnriquecimientoInput = z.infer<typeof trabajoEnriquecimientoSchema>;
+
+// PATCH /api/admin/bulk-enrich/trabajos/[id] - Job control
+export const accionTrabajoSchema = z.object({
+  accion: z.enum(['pausar', 'reanudar', 'cancelar', 'reintentar'], {
+    message: 'Accion invalida. Usar "pausar", "reanudar", "cancelar" o "reintentar"',
+  }),
+});
+
+export type AccionTrabajoInput = z.infer<typeof accionTrabajoSchema>;
+
 // GET /api/quotas/history - Days query parameter
 export const quotaHistoryDaysSchema = z.coerce
   .number()
@@ -55,3 +87,11 @@ export const quotaHistoryDaysSchema = z.coerce
   .default(7);
 
 export type QuotaHistoryDaysInput = z.infer<typeof quotaHistoryDaysSchema>;
+
+// PUT /api/quotas/uso-ia - Monthly AI budget of a provider (null removes it)
+export const presupuestoIASchema = z.object({
+  provider: z.string().min(1, 'Proveedor requerido'),
+  limiteMensualUsd: z.number().positive('El presupuesto debe ser mayor que 0').max(1_000_000).nullable(),
+});
+
+export type PresupuestoIAInput = z.infer<typeof presupuestoIASchema>;
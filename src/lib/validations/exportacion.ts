@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { EstadoClienteSchema } from './cliente';
+
+export const COLUMNAS_EXPORTABLES = [
+  'nombre',
+  'contacto',
+  'estado',
+  'prioridad',
+  'industria',
+  'asignadoA',
+  'ultimoContacto',
+  'ultimaIA',
+  'fechaCreacion',
+  'fechaModific',
+  'sitioWeb',
+  'redesSociales',
+] as const;
+
+export const EXTRAS_EXPORTACION = ['actividades', 'enrichment', 'webAnalysis'] as const;
+
+export const ColumnaExportableSchema = z.enum(COLUMNAS_EXPORTABLES);
+
+export const ExtraExportacionSchema = z.enum(EXTRAS_EXPORTACION);
+
+// Comma separated list from the query string; unknown values (e.g. 'acciones') are ignored
+function listaSeparadaPorComas<T extends z.ZodType<string>>(schema: T) {
+  return z
+    .string()
+    .optional()
+    .transform((value) =>
+      (value ?? '')
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item): item is z.infer<T> => schema.safeParse(item).success)
+    );
+}
+
+// Export request: same filters as the /clientes page plus format and columns
+export const ExportarClientesSchema = z.object({
+  format: z.enum(['csv', 'xlsx']).default('csv'),
+  columnas: listaSeparadaPorComas(ColumnaExportableSchema),
+  incluir: listaSeparadaPorComas(ExtraExportacionSchema),
+  estado: z.union([EstadoClienteSchema, z.literal('')]).optional(),
+  fechaDesde: z.union([z.iso.date(), z.literal('')]).optional(),
+  fechaHasta: z.union([z.iso.date(), z.literal('')]).optional(),
+});
+
+// Export type inference
+export type ColumnaExportableValidated = z.infer<typeof ColumnaExportableSchema>;
+export type ExtraExportacionValidated = z.infer<typeof ExtraExportacionSchema>;
+export type ExportarClientesValidated = z.infer<typeof ExportarClientesSchema>;
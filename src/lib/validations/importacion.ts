@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { IMPORTACION } from '@/lib/constants';
+
+export const CAMPOS_IMPORTABLES = [
+  'nombre',
+  'email',
+  'telefono',
+  'whatsapp',
+  'instagram',
+  'facebook',
+  'linkedin',
+  'twitter',
+  'direccion',
+  'ciudad',
+  'provincia',
+  'codigoPostal',
+  'industria',
+  'sitioWeb',
+  'estado',
+  'prioridad',
+  'notas',
+] as const;
+
+export const CampoImportableSchema = z.enum(CAMPOS_IMPORTABLES);
+
+// Campo del cliente -> nombre de la columna del archivo
+export const MapeoImportacionSchema = z
+  .partialRecord(CampoImportableSchema, z.string().min(1).max(255))
+  .refine((mapeo) => Boolean(mapeo.nombre), {
+    message: 'Debe mapear la columna del nombre',
+  });
+
+// Import request: dry run (default) or commit
+export const ImportarClientesSchema = z.object({
+  nombreArchivo: z.string().min(1).max(255),
+  columnas: z.array(z.string().max(255)).min(1).max(IMPORTACION.MAX_COLUMNAS),
+  filas: z
+    .array(z.array(z.string()))
+    .min(1, 'El archivo no tiene filas')
+    .max(IMPORTACION.MAX_FILAS, `Máximo ${IMPORTACION.MAX_FILAS} filas por importación`),
+  mapeo: MapeoImportacionSchema,
+  dryRun: z.boolean().default(true),
+  omitirDuplicados: z.boolean().default(true),
+});
+
+// Export type inference
+export type CampoImportableValidated = z.infer<typeof CampoImportableSchema>;
+export type MapeoImportacionValidated = z.infer<typeof MapeoImportacionSchema>;
+export type ImportarClientesValidated = z.infer<typeof ImportarClientesSchema>;
@@ -1,11 +1,33 @@
 import { z } from 'zod';
 import { CanalContactoSchema } from './plantilla';
+import { esZonaHorariaValida } from '@/lib/zona-horaria';
+
+// Wall-clock time as sent by datetime-local inputs, interpreted in zonaHoraria
+const FechaLocalSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/, 'Fecha y hora inválidas');
+
+export const ZonaHorariaSchema = z.string()
+  .refine(esZonaHorariaValida, 'Zona horaria inválida');
+
+// Only emails can be scheduled: WhatsApp messages are sent by hand from wa.me links
+const soloEmailProgramado = (data: { canal: string; programadoPara?: string }) =>
+  !data.programadoPara || data.canal === 'EMAIL';
+
+const ERROR_SOLO_EMAIL = {
+  message: 'Solo se pueden programar envíos por email',
+  path: ['programadoPara'],
+};
 
 export const SendMensajeSchema = z.object({
   clienteId: z.string().min(1, 'El ID del cliente es requerido'),
   plantillaId: z.string().min(1, 'El ID de la plantilla es requerido'),
   canal: CanalContactoSchema,
-});
+  contactoId: z.string().min(1).optional(),
+  programadoPara: FechaLocalSchema.optional(),
+  zonaHoraria: ZonaHorariaSchema.optional(),
+}).refine(soloEmailProgramado, ERROR_SOLO_EMAIL);
+
+export const DestinatarioMasivoSchema = z.enum(['CLIENTE', 'PRINCIPAL']);
 
 export const SendBulkMensajeSchema = z.object({
   clienteIds: z.array(z.string().min(1))
@@ -13,9 +35,24 @@ export const SendBulkMensajeSchema = z.object({
     .max(100, 'Máximo 100 clientes por envío'),
   plantillaId: z.string().min(1, 'El ID de la plantilla es requerido'),
   canal: CanalContactoSchema,
+  destinatario: DestinatarioMasivoSchema.default('CLIENTE'),
+  programadoPara: FechaLocalSchema.optional(),
+  // Without it each client's own timezone is used
+  zonaHoraria: ZonaHorariaSchema.optional(),
+}).refine(soloEmailProgramado, ERROR_SOLO_EMAIL);
+
+// Dry run before a bulk send: same recipients, nothing is sent
+export const RevisarEnvioMasivoSchema = z.object({
+  clienteIds: z.array(z.string().min(1))
+    .min(1, 'Se requiere al menos un cliente')
+    .max(100, 'Máximo 100 clientes por envío'),
+  plantillaId: z.string().min(1, 'El ID de la plantilla es requerido'),
+  destinatario: DestinatarioMasivoSchema.default('CLIENTE'),
 });
 
-export const EstadoMensajeSchema = z.enum(['PENDIENTE', 'ENVIADO', 'ERROR']);
+export const EstadoMensajeSchema = z.enum([
+  'PENDIENTE', 'PROGRAMADO', 'ENVIADO', 'ERROR', 'CANCELADO', 'ENTREGADO', 'DEMORADO', 'REBOTADO', 'QUEJA', 'LEIDO', 'MANUAL',
+]);
 
 export const MensajeFiltersSchema = z.object({
   clienteId: z.string().optional(),
@@ -25,6 +62,23 @@ export const MensajeFiltersSchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 });
 
+export const MensajesProgramadosFiltersSchema = z.object({
+  // FILTRO_ASIGNADO value or a user id
+  usuario: z.string().optional(),
+  clienteId: z.string().optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+export const UpdateMensajeProgramadoSchema = z.object({
+  asunto: z.string().min(1, 'El asunto es requerido').max(255).optional(),
+  cuerpo: z.string().min(1, 'El mensaje es requerido').optional(),
+  programadoPara: FechaLocalSchema.optional(),
+  zonaHoraria: ZonaHorariaSchema.optional(),
+});
+
 export type SendMensajeValidated = z.infer<typeof SendMensajeSchema>;
 export type SendBulkMensajeValidated = z.infer<typeof SendBulkMensajeSchema>;
+export type RevisarEnvioMasivoValidated = z.infer<typeof RevisarEnvioMasivoSchema>;
 export type MensajeFiltersValidated = z.infer<typeof MensajeFiltersSchema>;
+export type MensajesProgramadosFiltersValidated = z.infer<typeof MensajesProgramadosFiltersSchema>;
+export type UpdateMensajeProgramadoValidated = z.infer<typeof UpdateMensajeProgramadoSchema>;
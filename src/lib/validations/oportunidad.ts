@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { OPORTUNIDADES } from '@/lib/constants';
+
+// Enum schema for opportunity stages
+export const EtapaOportunidadSchema = z.enum([
+  'CALIFICACION',
+  'PROPUESTA',
+  'NEGOCIACION',
+  'GANADA',
+  'PERDIDA',
+]);
+
+// Create opportunity DTO Schema
+export const CreateOportunidadSchema = z.object({
+  titulo: z.string().min(1, 'El título es requerido').max(255, 'El título es muy largo'),
+  monto: z.number().nonnegative('El monto no puede ser negativo').max(999_999_999_999, 'El monto es muy grande'),
+  moneda: z.enum(OPORTUNIDADES.MONEDAS).optional(),
+  etapa: EtapaOportunidadSchema.optional(),
+  probabilidad: z.number().int().min(0).max(100).optional(),
+  fechaCierreEstimada: z.coerce.date().optional().nullable(),
+  motivoCierre: z.string().max(2000).optional().nullable(),
+  notas: z.string().max(5000).optional().nullable(),
+});
+
+// Update opportunity DTO Schema (all fields optional)
+export const UpdateOportunidadSchema = CreateOportunidadSchema.partial();
+
+// Export type inference
+export type CreateOportunidadValidated = z.infer<typeof CreateOportunidadSchema>;
+export type UpdateOportunidadValidated = z.infer<typeof UpdateOportunidadSchema>;
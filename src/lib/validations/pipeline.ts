@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { EstadoClienteSchema } from './cliente';
+
+// WIP limit per pipeline stage (null removes the limit)
+export const UpdatePipelineEtapasSchema = z.object({
+  limites: z.partialRecord(
+    EstadoClienteSchema,
+    z.number().int().min(1, 'El límite debe ser al menos 1').max(10000).nullable()
+  ),
+});
+
+// Export type inference
+export type UpdatePipelineEtapasValidated = z.infer<typeof UpdatePipelineEtapasSchema>;
@@ -1,13 +1,44 @@
 import { z } from 'zod';
+import { validateTemplate } from '@/lib/services/template-render-service';
 
 export const CanalContactoSchema = z.enum(['EMAIL', 'WHATSAPP']);
 
+// Unknown variables or formats and unbalanced conditionals are rejected on save
+const sintaxisPlantilla = (texto: string | null | undefined, ctx: z.RefinementCtx) => {
+  if (!texto) return;
+  const { invalidVars, errores } = validateTemplate(texto);
+  if (invalidVars.length > 0) {
+    ctx.addIssue({ code: 'custom', message: `Variables desconocidas: ${invalidVars.map((v) => `{${v}}`).join(', ')}` });
+  }
+  for (const error of errores) {
+    ctx.addIssue({ code: 'custom', message: error });
+  }
+};
+
+// Approved WhatsApp Business template the Cloud API sends (WhatsApp templates only)
+const camposWhatsApp = {
+  whatsappTemplate: z.string()
+    .regex(/^[a-z0-9_]+$/, 'El nombre de la plantilla de WhatsApp solo admite minúsculas, números y _')
+    .max(512)
+    .optional()
+    .nullable(),
+  whatsappIdioma: z.string()
+    .regex(/^[a-z]{2,3}(_[A-Z]{2})?$/, 'Código de idioma no válido (ej: es_AR)')
+    .optional()
+    .nullable(),
+  // One template expression per {{n}} parameter, in order
+  whatsappParametros: z.array(z.string().min(1).max(1024).superRefine(sintaxisPlantilla)).max(20).optional(),
+};
+
 export const CreatePlantillaSchema = z.object({
   nombre: z.string().min(1, 'El nombre es requerido').max(255, 'El nombre es muy largo'),
   descripcion: z.string().max(500).optional().nullable(),
   canal: CanalContactoSchema,
-  asunto: z.string().max(255).optional().nullable(),
-  cuerpo: z.string().min(1, 'El cuerpo es requerido'),
+  asunto: z.string().max(255).optional().nullable().superRefine(sintaxisPlantilla),
+  cuerpo: z.string().min(1, 'El cuerpo es requerido').superRefine(sintaxisPlantilla),
+  // Open / click tracking (emails only)
+  seguimiento: z.boolean().optional(),
+  ...camposWhatsApp,
 }).refine(
   (data) => {
     if (data.canal === 'EMAIL' && (!data.asunto || data.asunto.trim() === '')) {
@@ -25,9 +56,23 @@ export const UpdatePlantillaSchema = z.object({
   nombre: z.string().min(1).max(255).optional(),
   descripcion: z.string().max(500).optional().nullable(),
   canal: CanalContactoSchema.optional(),
-  asunto: z.string().max(255).optional().nullable(),
-  cuerpo: z.string().min(1).optional(),
+  asunto: z.string().max(255).optional().nullable().superRefine(sintaxisPlantilla),
+  cuerpo: z.string().min(1).optional().superRefine(sintaxisPlantilla),
   esActiva: z.boolean().optional(),
+  seguimiento: z.boolean().optional(),
+  ...camposWhatsApp,
+});
+
+// A/B variant: same channel as its template, only the content changes
+export const CreateVarianteSchema = z.object({
+  asunto: z.string().max(255).optional().nullable().superRefine(sintaxisPlantilla),
+  cuerpo: z.string().min(1, 'El cuerpo es requerido').superRefine(sintaxisPlantilla),
+});
+
+export const UpdateVarianteSchema = z.object({
+  asunto: z.string().max(255).optional().nullable().superRefine(sintaxisPlantilla),
+  cuerpo: z.string().min(1).optional().superRefine(sintaxisPlantilla),
+  activa: z.boolean().optional(),
 });
 
 export const PlantillaFiltersSchema = z.object({
@@ -41,3 +86,5 @@ export const PlantillaFiltersSchema = z.object({
 
 export type CreatePlantillaValidated = z.infer<typeof CreatePlantillaSchema>;
 export type UpdatePlantillaValidated = z.infer<typeof UpdatePlantillaSchema>;
+export type CreateVarianteValidated = z.infer<typeof CreateVarianteSchema>;
+export type UpdateVarianteValidated = z.infer<typeof UpdateVarianteSchema>;
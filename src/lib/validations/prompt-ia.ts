@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { validatePrompt } from '@/lib/services/enrichment-prompts';
+import type { TipoPromptIA } from '@/types/enrichment';
+
+const prompt = (tipo: TipoPromptIA) =>
+  z
+    .string()
+    .trim()
+    .min(1, `El prompt de ${tipo} es requerido`)
+    .max(20_000, `El prompt de ${tipo} es demasiado largo`)
+    .superRefine((template, ctx) => {
+      for (const error of validatePrompt(tipo, template)) {
+        ctx.addIssue({ code: 'custom', message: `Prompt de ${tipo}: ${error}` });
+      }
+    });
+
+export const crearVersionPromptIASchema = z.object({
+  sistema: prompt('sistema'),
+  enriquecimiento: prompt('enriquecimiento'),
+  consenso: prompt('consenso'),
+  nota: z.string().trim().max(200, 'La nota es demasiado larga').optional(),
+});
+
+export type CrearVersionPromptIAInput = z.infer<typeof crearVersionPromptIASchema>;
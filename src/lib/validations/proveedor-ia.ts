@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { PROVIDER_INFO } from '@/types/enrichment';
+
+// Built-in provider ids can't be taken by a custom provider
+const reservedSlugs = Object.keys(PROVIDER_INFO);
+
+// HTTP header names (RFC 9110 tokens); these ones are set by the client itself
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const RESERVED_HEADERS = ['content-type', 'content-length', 'host'];
+
+const baseUrl = z
+  .string()
+  .trim()
+  .regex(/^https?:\/\/\S+$/, 'La URL base debe empezar por http:// o https://')
+  .max(500, 'La URL base es demasiado larga')
+  // Stored without the trailing slash: {baseUrl}/chat/completions
+  .transform((url) => url.replace(/\/+$/, ''));
+
+const apiKey = z
+  .string()
+  .min(1, 'La API key no puede estar vacía')
+  .max(500, 'La API key es demasiado larga');
+
+const cabeceras = z
+  .record(z.string(), z.string().max(1000, 'El valor de la cabecera es demasiado largo'))
+  .refine((headers) => Object.keys(headers).length <= 20, 'Máximo 20 cabeceras')
+  .refine(
+    (headers) => Object.keys(headers).every((name) => HEADER_NAME.test(name)),
+    'Nombre de cabecera no válido'
+  )
+  .refine(
+    (headers) => Object.keys(headers).every((name) => !RESERVED_HEADERS.includes(name.toLowerCase())),
+    'Las cabeceras Content-Type, Content-Length y Host no se pueden cambiar'
+  );
+
+const modelos = z
+  .array(z.string().trim().min(1).max(200))
+  .min(1, 'Indica al menos un modelo')
+  .max(50, 'Máximo 50 modelos');
+
+// Local models can be slow: up to 10 minutes
+const timeoutMs = z.number().int().min(1_000).max(600_000).nullable();
+
+export const createProveedorIASchema = z.object({
+  slug: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]{1,39}$/, 'El identificador solo admite minúsculas, números, - y _ (2 a 40 caracteres)')
+    .refine((slug) => !reservedSlugs.includes(slug), 'Ese identificador está reservado'),
+  nombre: z.string().trim().min(1, 'El nombre es requerido').max(100, 'El nombre es muy largo'),
+  baseUrl,
+  apiKey: apiKey.optional(),
+  cabeceras: cabeceras.optional(),
+  modelos,
+  modelo: z.string().trim().min(1, 'Selecciona el modelo a usar'),
+  timeoutMs: timeoutMs.optional(),
+  enabled: z.boolean().optional().default(true),
+}).refine(
+  (data) => data.modelos.includes(data.modelo),
+  { message: 'El modelo a usar debe estar en la lista de modelos', path: ['modelo'] }
+);
+
+export const updateProveedorIASchema = z.object({
+  nombre: z.string().trim().min(1, 'El nombre es requerido').max(100, 'El nombre es muy largo').optional(),
+  baseUrl: baseUrl.optional(),
+  apiKey: apiKey.nullable().optional(),
+  cabeceras: cabeceras.optional(),
+  modelos: modelos.optional(),
+  modelo: z.string().trim().min(1).optional(),
+  timeoutMs: timeoutMs.optional(),
+  enabled: z.boolean().optional(),
+});
+
+export type CreateProveedorIAInput = z.infer<typeof createProveedorIASchema>;
+export type UpdateProveedorIAInput = z.infer<typeof updateProveedorIASchema>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { ALL_PERMISSIONS } from '@/lib/rbac';
+
+// ADMIN is not editable: it always keeps every permission
+export const editableRoleSchema = z.enum(['MANAGER', 'AGENT']);
+
+export const updateRolePermissionsSchema = z.object({
+  role: editableRoleSchema,
+  permissions: z.array(
+    z.string().refine(
+      (val) => (ALL_PERMISSIONS as string[]).includes(val),
+      { message: 'Permiso no valido' }
+    )
+  ),
+});
+
+export type UpdateRolePermissionsInput = z.infer<typeof updateRolePermissionsSchema>;
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { SECUENCIAS } from '@/lib/constants';
+
+// The channel of each step is the one of its template
+export const PasoSecuenciaSchema = z.object({
+  plantillaId: z.string().min(1, 'La plantilla es requerida'),
+  esperaDias: z.coerce.number().int()
+    .min(0, 'La espera no puede ser negativa')
+    .max(SECUENCIAS.MAX_ESPERA_DIAS, `Máximo ${SECUENCIAS.MAX_ESPERA_DIAS} días de espera`),
+});
+
+export const CreateSecuenciaSchema = z.object({
+  nombre: z.string().min(1, 'El nombre es requerido').max(255, 'El nombre es muy largo'),
+  descripcion: z.string().max(500).optional().nullable(),
+  pasos: z.array(PasoSecuenciaSchema)
+    .min(1, 'La secuencia necesita al menos un paso')
+    .max(SECUENCIAS.MAX_PASOS, `Máximo ${SECUENCIAS.MAX_PASOS} pasos`),
+});
+
+export const UpdateSecuenciaSchema = CreateSecuenciaSchema.partial().extend({
+  activa: z.boolean().optional(),
+});
+
+export const InscribirClientesSchema = z.object({
+  clienteIds: z.array(z.string().min(1))
+    .min(1, 'Se requiere al menos un cliente')
+    .max(SECUENCIAS.MAX_CLIENTES_INSCRIPCION, `Máximo ${SECUENCIAS.MAX_CLIENTES_INSCRIPCION} clientes por vez`),
+});
+
+export const AccionInscripcionSchema = z.object({
+  // "respuesta": the client answered; "detener": stopped by hand
+  accion: z.enum(['respuesta', 'detener']),
+});
+
+export const InscripcionFiltersSchema = z.object({
+  clienteId: z.string().min(1).optional(),
+  secuenciaId: z.string().min(1).optional(),
+});
+
+export type CreateSecuenciaValidated = z.infer<typeof CreateSecuenciaSchema>;
+export type UpdateSecuenciaValidated = z.infer<typeof UpdateSecuenciaSchema>;
+export type InscripcionFiltersValidated = z.infer<typeof InscripcionFiltersSchema>;
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+// Enum schemas for task fields
+export const EstadoTareaSchema = z.enum(['PENDIENTE', 'EN_PROGRESO', 'COMPLETADA', 'CANCELADA']);
+export const PrioridadTareaSchema = z.enum(['BAJA', 'MEDIA', 'ALTA']);
+export const BandejaTareasSchema = z.enum(['vencidas', 'hoy', 'proximas', 'completadas']);
+
+// Create task DTO Schema
+export const CreateTareaSchema = z.object({
+  titulo: z.string().min(1, 'El título es requerido').max(255, 'El título es muy largo'),
+  descripcion: z.string().max(5000).optional().nullable(),
+  vencimiento: z.coerce.date(),
+  prioridad: PrioridadTareaSchema.optional(),
+  clienteId: z.string().min(1).optional().nullable(),
+  asignadoAId: z.string().min(1).optional(),
+  recordatorio: z.coerce.date().optional().nullable(),
+});
+
+// Update task DTO Schema (all fields optional, plus the status)
+export const UpdateTareaSchema = CreateTareaSchema.partial().extend({
+  estado: EstadoTareaSchema.optional(),
+});
+
+// Task Filters Schema for GET requests
+export const TareaFiltersSchema = z.object({
+  bandeja: BandejaTareasSchema.optional(),
+  clienteId: z.string().min(1).optional(),
+  // "me" (default), "todos" or a user id
+  asignado: z.string().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+// Export type inference
+export type CreateTareaValidated = z.infer<typeof CreateTareaSchema>;
+export type UpdateTareaValidated = z.infer<typeof UpdateTareaSchema>;
+export type TareaFiltersValidated = z.infer<typeof TareaFiltersSchema>;
@@ -0,0 +1,82 @@
+// Wall-clock times in a given IANA timezone, with Intl only (works on server and browser)
+
+/**
+ * Whether the runtime knows the timezone ("America/Argentina/Buenos_Aires")
+ */
+export function esZonaHorariaValida(zona: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zona });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Date parts of an instant as seen in the timezone
+ */
+function partesEnZona(fecha: Date, zona: string) {
+  const partes = new Intl.DateTimeFormat('en-US', {
+    timeZone: zona,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(fecha);
+
+  const valor = (tipo: Intl.DateTimeFormatPartTypes) => Number(partes.find((p) => p.type === tipo)?.value);
+
+  return {
+    anio: valor('year'),
+    mes: valor('month'),
+    dia: valor('day'),
+    hora: valor('hour'),
+    minuto: valor('minute'),
+    segundo: valor('second'),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at that instant, in minutes (Buenos Aires = -180)
+ */
+function offsetMinutos(fecha: Date, zona: string): number {
+  const p = partesEnZona(fecha, zona);
+  const comoUtc = Date.UTC(p.anio, p.mes - 1, p.dia, p.hora, p.minuto, p.segundo);
+  return Math.round((comoUtc - Math.floor(fecha.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instant of a wall-clock time ("2026-04-20T09:00", as in datetime-local inputs) in the timezone
+ */
+export function fechaLocalAUtc(local: string, zona: string): Date {
+  const [fecha, hora = '00:00'] = local.split('T');
+  const [anio, mes, dia] = fecha.split('-').map(Number);
+  const [horas, minutos] = hora.split(':').map(Number);
+  const comoUtc = Date.UTC(anio, mes - 1, dia, horas, minutos);
+
+  // Second pass corrects the offset when a DST change falls between both guesses
+  const aproximado = comoUtc - offsetMinutos(new Date(comoUtc), zona) * 60000;
+  return new Date(comoUtc - offsetMinutos(new Date(aproximado), zona) * 60000);
+}
+
+/**
+ * Instant of the next midnight in the timezone: the end of the day the given
+ * instant falls on there
+ */
+export function finDelDiaEnZona(fecha: Date, zona: string): Date {
+  const p = partesEnZona(fecha, zona);
+  const manana = new Date(Date.UTC(p.anio, p.mes - 1, p.dia + 1)).toISOString().slice(0, 10);
+  return fechaLocalAUtc(manana, zona);
+}
+
+/**
+ * Wall-clock time of an instant in the timezone, in datetime-local format
+ */
+export function fechaUtcALocal(fecha: Date, zona: string): string {
+  const p = partesEnZona(fecha, zona);
+  const dosDigitos = (n: number) => String(n).padStart(2, '0');
+  return `${p.anio}-${dosDigitos(p.mes)}-${dosDigitos(p.dia)}T${dosDigitos(p.hora)}:${dosDigitos(p.minuto)}`;
+}
@@ -1,7 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authRateLimit } from '@/lib/rate-limiter';
 
-const publicPaths = ['/auth/login', '/auth/error', '/api/auth'];
+// Cron routes have no session; they check CRON_SECRET themselves (see lib/cron).
+// Webhooks verify the provider's signature.
+// The iCalendar feed, the email tracking links and the unsubscribe links are authenticated by the signed token in their URL.
+const publicPaths = [
+  '/auth/login',
+  '/auth/error',
+  '/api/auth',
+  '/api/cron',
+  '/api/calendario/ics',
+  '/api/seguimiento',
+  '/api/webhooks',
+  '/baja',
+  '/api/baja',
+];
 
 function getClientIp(request: NextRequest): string {
   // Check common proxy headers
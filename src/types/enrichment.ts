@@ -1,7 +1,10 @@
 // Types for the enrichment system
 
 // API Key Providers
-export type AIProvider = 'openai' | 'gemini' | 'grok' | 'deepseek';
+export type BuiltInAIProvider = 'openai' | 'gemini' | 'grok' | 'deepseek';
+
+// A built-in provider or the slug of a custom OpenAI-compatible one (ProveedorIA)
+export type AIProvider = BuiltInAIProvider | (string & {});
 
 // Only external providers that are actually implemented and need API keys
 export type ExternalProvider =
@@ -10,19 +13,41 @@ export type ExternalProvider =
   | 'serpapi'             // Google search - implemented
   | 'google_places'       // Business info - implemented
   | 'google_safe_browsing' // Website safety check - implemented
-  | 'whoisxml';           // Domain info - implemented (500/mes gratis)
+  | 'whoisxml'            // Domain info - implemented (500/mes gratis)
+  | 'whatsapp_cloud';     // WhatsApp Business Cloud API - message transport, not enrichment
 // Note: ipapi, security_headers, and favicon don't need API keys - used internally
 
-export type ApiKeyProvider = AIProvider | ExternalProvider;
+export type ApiKeyProvider = BuiltInAIProvider | ExternalProvider;
 
 // AI Provider Models
-export const AI_PROVIDER_MODELS: Record<AIProvider, string[]> = {
+export const AI_PROVIDER_MODELS: Record<BuiltInAIProvider, string[]> = {
   openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
   gemini: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.0-flash'],
   grok: ['grok-beta', 'grok-2'],
   deepseek: ['deepseek-chat', 'deepseek-coder'],
 };
 
+// AI model prices, USD per million tokens. Custom providers are priced by
+// their model name (without an "openai/"-style vendor prefix); models not
+// listed, like local ones, cost nothing.
+export const AI_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'grok-beta': { input: 5, output: 15 },
+  'grok-2': { input: 2, output: 10 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-coder': { input: 0.27, output: 1.1 },
+  'mistral-small-latest': { input: 0.2, output: 0.6 },
+  'mistral-large-latest': { input: 2, output: 6 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-sonnet-4-0': { input: 3, output: 15 },
+};
+
 // Provider Display Info - only providers that need API keys
 export const PROVIDER_INFO: Record<ApiKeyProvider, { name: string; description: string; category: 'ai' | 'external' }> = {
   // AI Providers - for client enrichment
@@ -37,7 +62,20 @@ export const PROVIDER_INFO: Record<ApiKeyProvider, { name: string; description:
   google_places: { name: 'Google Places', description: 'Info de negocios: direccion, telefono, horarios, reseñas', category: 'external' },
   google_safe_browsing: { name: 'Google Safe Browsing', description: 'Verificacion de seguridad de sitios web', category: 'external' },
   whoisxml: { name: 'WhoisXML', description: 'Info de dominio: propietario, registro, expiracion (500/mes gratis)', category: 'external' },
+  whatsapp_cloud: { name: 'WhatsApp Business (Cloud API)', description: 'Envio de plantillas aprobadas. Formato: ID_DEL_NUMERO:TOKEN_DE_ACCESO (sin key se usan enlaces wa.me)', category: 'external' },
 };
+/**
+ * Display name of an AI provider. Custom providers are shown by their slug
+ * unless their name is known (see AIProviderOption).
+ */
+export function getAIProviderName(provider: AIProvider, options?: AIProviderOption[]): string {
+  return (
+    options?.find((o) => o.id === provider)?.name ??
+    PROVIDER_INFO[provider as BuiltInAIProvider]?.name ??
+    provider
+  );
+}
+
 // Note: IP-API, Security Headers, and Favicon services are FREE and don't require API keys
 // They are used internally by the website analysis service
 
@@ -189,6 +227,7 @@ export interface ClienteEnrichmentData {
   status: EnrichmentStatus;
   reviewedAt: Date | null;
   reviewedBy: string | null;
+  promptVersionId: string | null;
 }
 
 // Website Analysis Data
@@ -278,15 +317,35 @@ export interface EnrichmentOptions {
   searchGoogleMaps?: boolean;
 }
 
-// Bulk enrichment options
+// Bulk enrichment options: a selection or the /clientes filters
 export interface BulkEnrichmentOptions {
-  clienteIds: string[];
+  clienteIds?: string[];
+  filtros?: Record<string, string>;
   includeAI?: boolean;
   includeWebsiteAnalysis?: boolean;
   provider?: AIProvider | 'auto';
   confidenceThreshold?: number;
 }
 
+// Phases of an enrichment run, reported live while it runs
+export type EnrichmentStep =
+  | 'providers'
+  | 'consensus'
+  | 'website-verification'
+  | 'social-validation'
+  | 'external-apis'
+  | 'website-analysis'
+  | 'saving';
+
+// Live progress of an enrichment run (streamed over SSE): phases, AI provider
+// responses and the sub-checks of the external APIs and website analysis
+export type EnrichmentProgressEvent =
+  | { type: 'step'; step: EnrichmentStep }
+  | { type: 'provider'; provider: AIProvider; status: 'started' | 'completed' | 'failed'; fieldsFound?: number; error?: string }
+  | { type: 'check'; check: string; status: 'started' | 'completed' | 'failed'; error?: string };
+
+export type EnrichmentProgressCallback = (event: EnrichmentProgressEvent) => void;
+
 // History entry for enrichment timeline
 export interface EnrichmentHistoryEntry {
   id: string;
@@ -297,6 +356,8 @@ export interface EnrichmentHistoryEntry {
   fieldsConfirmed: number;
   fieldsRejected: number;
   status: EnrichmentStatus;
+  // Number of the prompt version used (null before prompts were versioned)
+  promptVersion: number | null;
 }
 
 // GET /api/clientes/[id]/enrich response
@@ -326,3 +387,158 @@ export interface CooldownInfo {
 export interface ApiKeyResponse extends Omit<ApiKey, 'apiKey'> {
   maskedKey: string;
 }
+
+// AI spend (see UsoIA), for the quotas dashboard
+export interface GastoProveedorIA {
+  provider: AIProvider;
+  // Current calendar month
+  costeMesUsd: number;
+  tokensMes: number;
+  llamadasMes: number;
+  // Monthly cap; null = no cap
+  limiteMensualUsd: number | null;
+}
+
+export interface GastoIA {
+  costeUsd: number;
+  tokens: number;
+  llamadas: number;
+}
+
+export interface ResumenUsoIA {
+  proveedores: GastoProveedorIA[];
+  // Last days, oldest first, one entry per day (YYYY-MM-DD)
+  porDia: Array<GastoIA & { fecha: string }>;
+  // Top spenders over the same days
+  porUsuario: Array<GastoIA & { usuarioId: string | null; nombre: string }>;
+  porCliente: Array<GastoIA & { clienteId: string | null; nombre: string }>;
+}
+
+// Who an AI call is charged to
+export interface AIUsageAttribution {
+  userId?: string | null;
+  clienteId?: string | null;
+}
+
+// An AI provider that can be picked for enrichment
+export interface AIProviderOption {
+  id: AIProvider;
+  name: string;
+}
+
+// Custom OpenAI-compatible AI provider (Ollama, LM Studio, vLLM, OpenRouter...)
+export interface ProveedorIA {
+  id: string;
+  slug: string;
+  nombre: string;
+  baseUrl: string;
+  maskedKey: string | null;
+  // Names only: values may hold credentials
+  cabeceras: string[];
+  modelos: string[];
+  modelo: string;
+  timeoutMs: number | null;
+  enabled: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CrearProveedorIADTO {
+  slug: string;
+  nombre: string;
+  baseUrl: string;
+  apiKey?: string;
+  cabeceras?: Record<string, string>;
+  modelos: string[];
+  modelo: string;
+  timeoutMs?: number | null;
+  enabled?: boolean;
+}
+
+export interface ActualizarProveedorIADTO {
+  nombre?: string;
+  baseUrl?: string;
+  // null removes the key
+  apiKey?: string | null;
+  // Replaces every header
+  cabeceras?: Record<string, string>;
+  modelos?: string[];
+  modelo?: string;
+  timeoutMs?: number | null;
+  enabled?: boolean;
+}
+
+// Enrichment prompts, edited from settings as versioned templates
+export interface PlantillasPromptIA {
+  // System message of every enrichment call
+  sistema: string;
+  // User message, with the client's data and the fields to find
+  enriquecimiento: string;
+  // User message when providers disagree on a field
+  consenso: string;
+}
+
+export type TipoPromptIA = keyof PlantillasPromptIA;
+
+export interface VersionPromptIA extends PlantillasPromptIA {
+  id: string;
+  numero: number;
+  nota: string | null;
+  activa: boolean;
+  createdAt: string;
+  creadoPor: { id: string; name: string | null; email: string } | null;
+  _count?: { enriquecimientos: number };
+}
+
+export interface CrearVersionPromptIADTO extends PlantillasPromptIA {
+  nota?: string;
+}
+
+// Bulk enrichment jobs (processed in the background by the worker cron)
+export type EstadoTrabajo = 'PENDIENTE' | 'EN_CURSO' | 'PAUSADO' | 'COMPLETADO' | 'CANCELADO';
+
+export type EstadoItemTrabajo = 'PENDIENTE' | 'EN_CURSO' | 'COMPLETADO' | 'ERROR' | 'CANCELADO';
+
+export type AccionTrabajo = 'pausar' | 'reanudar' | 'cancelar' | 'reintentar';
+
+export interface ProgresoTrabajo {
+  pendientes: number;
+  exitosos: number;
+  fallidos: number;
+  cancelados: number;
+}
+
+export interface TrabajoEnriquecimiento {
+  id: string;
+  estado: EstadoTrabajo;
+  includeAI: boolean;
+  includeWebsiteAnalysis: boolean;
+  provider: AIProvider | null;
+  filtros: Record<string, string> | null;
+  total: number;
+  iniciadoEn: string | null;
+  finalizadoEn: string | null;
+  createdAt: string;
+  creadoPor: { id: string; name: string | null; email: string };
+  progreso: ProgresoTrabajo;
+}
+
+export interface ItemTrabajoEnriquecimiento {
+  id: string;
+  clienteId: string;
+  estado: EstadoItemTrabajo;
+  intentos: number;
+  aiEnriched: boolean;
+  websiteAnalyzed: boolean;
+  error: string | null;
+  procesadoEn: string | null;
+  cliente: { nombre: string };
+}
+
+export interface TrabajoEnriquecimientoDetalle extends TrabajoEnriquecimiento {
+  // Latest processed clients
+  items: ItemTrabajoEnriquecimiento[];
+  // Clients being enriched right now, with their last progress event
+  enCurso: Array<{ clienteId: string; cliente: { nombre: string }; progreso: EnrichmentProgressEvent | null }>;
+}
@@ -34,7 +34,25 @@ export type TipoActividad =
   | 'CONTACTO_AUTOMATICO'
 
 export type CanalContacto = 'EMAIL' | 'WHATSAPP'
-export type EstadoMensaje = 'PENDIENTE' | 'ENVIADO' | 'ERROR'
+export type EtapaOportunidad = 'CALIFICACION' | 'PROPUESTA' | 'NEGOCIACION' | 'GANADA' | 'PERDIDA'
+export type EstadoTarea = 'PENDIENTE' | 'EN_PROGRESO' | 'COMPLETADA' | 'CANCELADA'
+export type PrioridadTarea = 'BAJA' | 'MEDIA' | 'ALTA'
+export type EstadoMensaje =
+  | 'PENDIENTE'
+  | 'PROGRAMADO'
+  | 'ENVIADO'
+  | 'ERROR'
+  | 'CANCELADO'
+  // Reported by Resend (or the WhatsApp Cloud API) after the send
+  | 'ENTREGADO'
+  | 'DEMORADO'
+  | 'REBOTADO'
+  | 'QUEJA'
+  | 'LEIDO'
+  // WhatsApp wa.me link, sent by hand (not confirmed)
+  | 'MANUAL'
+export type TipoEventoMensaje = 'APERTURA' | 'CLIC'
+export type EstadoConsentimiento = 'DESCONOCIDO' | 'OTORGADO' | 'REVOCADO'
 
 // Interfaces principales
 export interface User {
@@ -51,6 +69,8 @@ export interface Cliente {
   id: string
   nombre: string
   email?: string | null
+  // Hard-bounced address
+  emailInvalido?: boolean
   telefono?: string | null
   whatsapp?: string | null
   instagram?: string | null
@@ -61,6 +81,12 @@ export interface Cliente {
   ciudad?: string | null
   provincia?: string | null
   codigoPostal?: string | null
+  // IANA timezone, used to schedule messages in the client's local time
+  zonaHoraria?: string | null
+  // Per channel; REVOCADO blocks sending on it
+  consentimientoEmail?: EstadoConsentimiento
+  consentimientoWhatsApp?: EstadoConsentimiento
+  consentimientoActualizadoEn?: Date | null
   industria?: string | null
   sitioWeb?: string | null
   tieneSSL?: boolean | null
@@ -74,9 +100,29 @@ export interface Cliente {
   ultimaIA?: Date | null
   enrichmentStatus?: EnrichmentStatusType
   notas?: string | null
+  asignadoAId?: string | null
+  asignadoA?: Pick<User, 'id' | 'name' | 'email'> | null
+  colaboradores?: Pick<User, 'id' | 'name' | 'email'>[]
+  fusionadoEnId?: string | null
+  contactos?: ContactoCliente[]
+  oportunidades?: Oportunidad[]
   actividades?: Actividad[]
 }
 
+export interface ContactoCliente {
+  id: string
+  clienteId: string
+  nombre: string
+  cargo?: string | null
+  email?: string | null
+  telefono?: string | null
+  whatsapp?: string | null
+  canalPreferido?: CanalContacto | null
+  esPrincipal: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
 export interface Actividad {
   id: string
   tipo: TipoActividad
@@ -86,8 +132,51 @@ export interface Actividad {
   usuarioId: string
   resultado?: string | null
   proximoPaso?: string | null
+  fechaFin?: Date | null
+  ubicacion?: string | null
+  oportunidadId?: string | null
   cliente?: Cliente
   usuario?: User
+  oportunidad?: Pick<Oportunidad, 'id' | 'titulo'> | null
+}
+
+export interface Tarea {
+  id: string
+  titulo: string
+  descripcion?: string | null
+  vencimiento: Date
+  estado: EstadoTarea
+  prioridad: PrioridadTarea
+  clienteId?: string | null
+  asignadoAId: string
+  creadoPorId: string
+  completadaEn?: Date | null
+  recordatorio?: Date | null
+  createdAt: Date
+  updatedAt: Date
+  cliente?: Pick<Cliente, 'id' | 'nombre'> | null
+  asignadoA?: Pick<User, 'id' | 'name' | 'email'>
+}
+
+export interface Oportunidad {
+  id: string
+  clienteId: string
+  titulo: string
+  monto: number
+  moneda: string
+  etapa: EtapaOportunidad
+  // Chance of closing, 0-100
+  probabilidad: number
+  fechaCierreEstimada?: Date | null
+  fechaCierre?: Date | null
+  // Why it was won or lost
+  motivoCierre?: string | null
+  notas?: string | null
+  usuarioId: string
+  createdAt: Date
+  updatedAt: Date
+  usuario?: Pick<User, 'id' | 'name' | 'email'>
+  _count?: { actividades: number }
 }
 
 // DTOs para formularios
@@ -104,6 +193,7 @@ export interface CreateClienteDTO {
   ciudad?: string
   provincia?: string
   codigoPostal?: string
+  zonaHoraria?: string
   industria?: string
   sitioWeb?: string
   tieneSSL?: boolean
@@ -112,6 +202,8 @@ export interface CreateClienteDTO {
   estado: EstadoCliente
   prioridad: PrioridadCliente
   notas?: string
+  asignadoAId?: string | null
+  colaboradorIds?: string[]
 }
 
 export interface UpdateClienteDTO extends Partial<CreateClienteDTO> {
@@ -124,12 +216,78 @@ export interface CreateActividadDTO {
   clienteId: string
   resultado?: string
   proximoPaso?: string
+  // Start of a scheduled meeting or call (defaults to now)
+  fecha?: string
+  fechaFin?: string | null
+  ubicacion?: string | null
+  oportunidadId?: string | null
 }
 
 export interface UpdateActividadDTO extends Partial<CreateActividadDTO> {
   id: string
 }
 
+export interface CreateContactoClienteDTO {
+  nombre: string
+  cargo?: string | null
+  email?: string | null
+  telefono?: string | null
+  whatsapp?: string | null
+  canalPreferido?: CanalContacto | null
+  esPrincipal?: boolean
+}
+
+export type UpdateContactoClienteDTO = Partial<CreateContactoClienteDTO>
+
+export interface CreateOportunidadDTO {
+  titulo: string
+  monto: number
+  moneda?: string
+  etapa?: EtapaOportunidad
+  probabilidad?: number
+  fechaCierreEstimada?: string | null
+  motivoCierre?: string | null
+  notas?: string | null
+}
+
+export type UpdateOportunidadDTO = Partial<CreateOportunidadDTO>
+
+export interface CreateTareaDTO {
+  titulo: string
+  descripcion?: string | null
+  vencimiento: string
+  prioridad?: PrioridadTarea
+  clienteId?: string | null
+  // Defaults to the current user
+  asignadoAId?: string
+  recordatorio?: string | null
+}
+
+export interface UpdateTareaDTO extends Partial<CreateTareaDTO> {
+  estado?: EstadoTarea
+}
+
+// Bandejas de "Mis tareas"
+export type BandejaTareas = 'vencidas' | 'hoy' | 'proximas' | 'completadas'
+
+// Calendario de reuniones, llamadas y tareas
+export type VistaCalendario = 'mes' | 'semana' | 'dia'
+
+export interface EventoCalendario {
+  id: string
+  origen: 'actividad' | 'tarea'
+  tipo: 'REUNION' | 'LLAMADA' | 'TAREA'
+  titulo: string
+  descripcion: string | null
+  inicio: Date
+  fin: Date | null
+  ubicacion: string | null
+  // Completed or cancelled tasks
+  cerrado: boolean
+  cliente: { id: string; nombre: string } | null
+  usuario: { id: string; name: string | null; email: string }
+}
+
 // Tipos de respuesta de API
 export interface ApiResponse<T = unknown> {
   success: boolean
@@ -229,10 +387,27 @@ export interface PlantillaContacto {
   asunto?: string | null
   cuerpo: string
   esActiva: boolean
+  // Open / click tracking of its emails
+  seguimiento: boolean
+  // Approved WhatsApp Business template sent through the Cloud API, its language and body parameters
+  whatsappTemplate?: string | null
+  whatsappIdioma?: string | null
+  whatsappParametros?: string[]
   creadoPorId: string
   createdAt: Date
   updatedAt: Date
   creadoPor?: User
+  estadisticas?: EstadisticasPlantilla | null
+}
+
+// Open / click rates over the template's emails sent with tracking
+export interface EstadisticasPlantilla {
+  enviados: number
+  abiertos: number
+  conClic: number
+  // 0-100
+  tasaApertura: number
+  tasaClic: number
 }
 
 export interface CreatePlantillaDTO {
@@ -241,12 +416,61 @@ export interface CreatePlantillaDTO {
   canal: CanalContacto
   asunto?: string
   cuerpo: string
+  seguimiento?: boolean
+  whatsappTemplate?: string | null
+  whatsappIdioma?: string | null
+  whatsappParametros?: string[]
 }
 
 export interface UpdatePlantillaDTO extends Partial<CreatePlantillaDTO> {
   id: string
 }
 
+// A/B variant: alternative content of a template, named B, C, D (A is the template itself)
+export interface VariantePlantilla {
+  id: string
+  plantillaId: string
+  nombre: string
+  asunto?: string | null
+  cuerpo: string
+  activa: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface VariantePlantillaDTO {
+  asunto?: string | null
+  cuerpo?: string
+  activa?: boolean
+}
+
+// Immutable snapshot of a template's (or variant's) content, linked to the messages sent with it
+export interface VersionPlantilla {
+  id: string
+  plantillaId: string
+  variante: string
+  numero: number
+  asunto?: string | null
+  cuerpo: string
+  creadoPorId?: string | null
+  createdAt: Date
+  creadoPor?: Pick<User, 'id' | 'name' | 'email'> | null
+  _count?: { mensajes: number }
+}
+
+// Results of a variant over its sent messages
+export interface EstadisticasVariante {
+  variante: string
+  enviados: number
+  // Emails sent with open tracking (the base of tasaApertura)
+  conSeguimiento: number
+  abiertos: number
+  respondidos: number
+  // 0-100
+  tasaApertura: number
+  tasaRespuesta: number
+}
+
 // Mensajes
 export interface Mensaje {
   id: string
@@ -259,38 +483,321 @@ export interface Mensaje {
   clienteId: string
   usuarioId: string
   plantillaId?: string | null
+  contactoId?: string | null
+  // Send-later: due time and the timezone it was chosen in
+  programadoPara?: Date | null
+  zonaHoraria?: string | null
+  intentos?: number
+  enviadoEn?: Date | null
+  resendId?: string | null
+  // Open / click tracking: first occurrence and totals
+  seguimiento?: boolean
+  abiertoEn?: Date | null
+  clicEn?: Date | null
+  aperturas?: number
+  clics?: number
+  // Template version and A/B variant it was sent with
+  versionId?: string | null
+  variante?: string | null
+  // Client's reply credited to this message
+  respondidoEn?: Date | null
   createdAt: Date
   updatedAt: Date
   cliente?: Cliente
   usuario?: User
   plantilla?: PlantillaContacto
+  contacto?: Pick<ContactoCliente, 'id' | 'nombre' | 'cargo'> | null
+  eventos?: EventoMensaje[]
+  respuestas?: Pick<MensajeEntrante, 'id' | 'remitente' | 'asunto' | 'cuerpo' | 'recibidoEn'>[]
+}
+
+// Reply of a client received by email or WhatsApp
+export interface MensajeEntrante {
+  id: string
+  canal: CanalContacto
+  remitente: string
+  asunto?: string | null
+  // Plain text, without the quoted original
+  cuerpo: string
+  clienteId: string
+  contactoId?: string | null
+  // Message it answers
+  mensajeId?: string | null
+  recibidoEn: Date
+  createdAt: Date
+}
+
+export interface EventoMensaje {
+  id: string
+  tipo: TipoEventoMensaje
+  // Destination of the clicked link
+  url?: string | null
+  createdAt: Date
 }
 
 export interface SendMensajeDTO {
   clienteId: string
   plantillaId: string
   canal: CanalContacto
+  // Contact person to message instead of the client's own email/WhatsApp
+  contactoId?: string
+  // Send later (emails only): local "YYYY-MM-DDTHH:mm" in zonaHoraria
+  programadoPara?: string
+  zonaHoraria?: string
 }
 
+// CLIENTE = client's own email/WhatsApp, PRINCIPAL = primary contact person
+export type DestinatarioMasivo = 'CLIENTE' | 'PRINCIPAL'
+
 export interface SendBulkMensajeDTO {
   clienteIds: string[]
   plantillaId: string
   canal: CanalContacto
+  destinatario?: DestinatarioMasivo
+  programadoPara?: string
+  // Without it each client's own timezone is used
+  zonaHoraria?: string
+}
+
+export interface UpdateMensajeProgramadoDTO {
+  asunto?: string
+  cuerpo?: string
+  // Local "YYYY-MM-DDTHH:mm" in zonaHoraria
+  programadoPara?: string
+  zonaHoraria?: string
+}
+
+// Secuencias de contacto (cadencias)
+export type EstadoInscripcion = 'ACTIVA' | 'COMPLETADA' | 'DETENIDA'
+export type MotivoDetencion = 'RESPUESTA' | 'CAMBIO_ESTADO' | 'MANUAL' | 'SECUENCIA_DESACTIVADA' | 'ERROR' | 'FUSION'
+
+export interface PasoSecuencia {
+  id: string
+  secuenciaId: string
+  orden: number
+  canal: CanalContacto
+  plantillaId: string
+  // Days to wait after the previous step (after enrollment for the first one)
+  esperaDias: number
+  plantilla?: Pick<PlantillaContacto, 'id' | 'nombre' | 'canal'>
+}
+
+export interface Secuencia {
+  id: string
+  nombre: string
+  descripcion?: string | null
+  activa: boolean
+  creadoPorId: string
+  createdAt: Date
+  updatedAt: Date
+  pasos: PasoSecuencia[]
+  creadoPor?: Pick<User, 'id' | 'name' | 'email'>
+  _count?: { inscripciones: number }
+}
+
+export interface InscripcionSecuencia {
+  id: string
+  secuenciaId: string
+  clienteId: string
+  usuarioId: string
+  estado: EstadoInscripcion
+  // Index of the next step to run
+  pasoActual: number
+  proximoPasoEn?: Date | null
+  motivoDetencion?: MotivoDetencion | null
+  errorDetalle?: string | null
+  finalizadaEn?: Date | null
+  createdAt: Date
+  updatedAt: Date
+  secuencia?: Pick<Secuencia, 'id' | 'nombre'> & { _count: { pasos: number } }
+  cliente?: Pick<Cliente, 'id' | 'nombre'>
+  usuario?: Pick<User, 'id' | 'name' | 'email'>
+}
+
+export interface CreateSecuenciaDTO {
+  nombre: string
+  descripcion?: string
+  pasos: { plantillaId: string; esperaDias: number }[]
+}
+
+export interface UpdateSecuenciaDTO extends Partial<CreateSecuenciaDTO> {
+  activa?: boolean
+}
+
+export interface InscripcionResult {
+  inscritos: number
+  omitidos: { clienteId: string; nombre: string; motivo: string }[]
 }
 
 // Tipos de exportación
+export type FormatoExportacion = 'csv' | 'xlsx'
+
+export type ExtraExportacion = 'actividades' | 'enrichment' | 'webAnalysis'
+
 export interface ExportOptions {
-  format: 'csv' | 'xlsx' | 'pdf'
-  filters?: ClienteFilters
-  fields?: (keyof Cliente)[]
+  format: FormatoExportacion
+  // Columnas visibles de la tabla (ver ColumnasSelect)
+  columnas: string[]
+  incluir: ExtraExportacion[]
 }
 
 // Tipos de importación
+export type CampoImportable =
+  | 'nombre'
+  | 'email'
+  | 'telefono'
+  | 'whatsapp'
+  | 'instagram'
+  | 'facebook'
+  | 'linkedin'
+  | 'twitter'
+  | 'direccion'
+  | 'ciudad'
+  | 'provincia'
+  | 'codigoPostal'
+  | 'industria'
+  | 'sitioWeb'
+  | 'estado'
+  | 'prioridad'
+  | 'notas'
+
+// Campo del cliente -> nombre de la columna del archivo
+export type MapeoImportacion = Partial<Record<CampoImportable, string>>
+
+export type EstadoImportacion = 'COMPLETADA' | 'REVERTIDA'
+
+export interface ArchivoImportacion {
+  nombreArchivo: string
+  columnas: string[]
+  filas: string[][]
+  mapeoSugerido: MapeoImportacion
+}
+
+export interface FilaImportacion {
+  fila: number
+  nombre: string
+  estado: 'VALIDA' | 'INVALIDA' | 'DUPLICADA'
+  errores: string[]
+  duplicado?: {
+    motivo: 'email' | 'telefono' | 'nombre'
+    enArchivo: boolean
+    clienteId?: string
+    nombre: string
+  }
+}
+
 export interface ImportResult {
-  success: boolean
-  importedCount: number
-  skippedCount: number
-  errorCount: number
-  errors?: string[]
-  duplicates?: string[]
+  dryRun: boolean
+  importacionId?: string
+  totalFilas: number
+  validas: number
+  invalidas: number
+  duplicadas: number
+  creados: number
+  filas: FilaImportacion[]
+}
+
+export interface ImportacionResumen {
+  id: string
+  nombreArchivo: string
+  estado: EstadoImportacion
+  totalFilas: number
+  creados: number
+  omitidos: number
+  createdAt: Date
+  revertidoAt?: Date | null
+  usuario: { name: string | null; email: string }
+}
+
+// Tipos de duplicados
+export type MotivoDuplicado = 'nombre' | 'email' | 'telefono' | 'sitioWeb'
+
+export type ClienteDuplicado = Pick<
+  Cliente,
+  'id' | 'nombre' | 'email' | 'telefono' | 'whatsapp' | 'sitioWeb' | 'ciudad' | 'estado' | 'fechaCreacion'
+>
+
+export interface ParDuplicado {
+  score: number
+  motivos: MotivoDuplicado[]
+  clientes: [ClienteDuplicado, ClienteDuplicado]
+}
+
+export type CampoFusionable =
+  | 'nombre'
+  | 'email'
+  | 'telefono'
+  | 'whatsapp'
+  | 'instagram'
+  | 'facebook'
+  | 'linkedin'
+  | 'twitter'
+  | 'direccion'
+  | 'ciudad'
+  | 'provincia'
+  | 'codigoPostal'
+  | 'industria'
+  | 'sitioWeb'
+  | 'estado'
+  | 'prioridad'
+  | 'notas'
+  | 'asignadoAId'
+
+// Which of the two clients provides each field
+export type OrigenCampoFusion = 'principal' | 'secundario'
+
+export interface FusionResult {
+  clienteId: string
+  movidos: {
+    actividades: number
+    mensajes: number
+    enrichments: number
+    archivos: number
+    contactos: number
+    oportunidades: number
+    tareas: number
+    respuestas: number
+    // AI usage records (spend is reported per client)
+    usosIA: number
+    inscripciones: number
+    // Active on a sequence the principal was already following
+    inscripcionesDetenidas: number
+    websiteAnalysis: boolean
+  }
+}
+
+// Tablero Kanban de clientes
+export type VistaClientes = 'cards' | 'table' | 'kanban'
+
+export interface EtapaPipeline {
+  estado: EstadoCliente
+  // Work-in-progress limit (null = unlimited)
+  limiteWip: number | null
+}
+
+export interface ClienteKanban {
+  id: string
+  nombre: string
+  ciudad: string | null
+  industria: string | null
+  prioridad: PrioridadCliente
+  ultimoContacto: Date | null
+  asignadoA: { id: string; name: string | null; email: string } | null
+}
+
+export interface ColumnaKanban extends EtapaPipeline {
+  total: number
+  clientes: ClienteKanban[]
+}
+
+// Pipeline de oportunidades (valor por moneda, sin conversión)
+export interface ResumenPipelineMoneda {
+  moneda: string
+  abiertas: number
+  // Sum of the open opportunities' amounts
+  valorPipeline: number
+  // Sum of amount × probability of the open opportunities
+  valorPonderado: number
+  ganadasMes: number
+  valorGanadoMes: number
 }
\ No newline at end of file